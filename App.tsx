@@ -23,6 +23,7 @@ import { BusinessStructuresScreen } from './src/screens/BusinessStructuresScreen
 import { PublicLandingPage } from './src/screens/PublicLandingPage';
 import { PublicInvoiceView } from './src/screens/PublicInvoiceView';
 import { PublicScheduleView } from './src/screens/PublicScheduleView';
+import { ClientPortalView } from './src/screens/ClientPortalView';
 import { BucketSetupScreen } from './src/screens/BucketSetupScreen';
 import { MyMoneyScreen } from './src/screens/MyMoneyScreen';
 import { RateGuideScreen } from './src/screens/RateGuideScreen';
@@ -130,10 +131,19 @@ function AppContent() {
     return null;
   });
 
+  const [portalToken] = useState<string | null>(() => {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') return null;
+    const path = window.location.pathname;
+    if (path.startsWith('/portal/')) {
+      return path.split('/portal/')[1] || null;
+    }
+    return null;
+  });
+
   // Sync URL with current route on web
   useEffect(() => {
     if (Platform.OS === 'web' && typeof window !== 'undefined') {
-      if (shareToken) return; // Don't mutate URL while on a public share page
+      if (shareToken || portalToken) return; // Don't mutate URL while on a public share page
       const routeToPath: Record<string, string> = {
         'landing': '/',
         'auth': authMode === 'signup' ? '/signup' : '/login',
@@ -186,7 +196,7 @@ function AppContent() {
   // Resolve auth state on mount to prevent landing page flash
   useEffect(() => {
     async function resolveAuth() {
-      if (shareToken) return; // Share pages are public — skip all auth processing
+      if (shareToken || portalToken) return; // Share pages are public — skip all auth processing
       try {
         const { data: { session: currentSession } } = await supabase.auth.getSession();
         console.log('[Auth] Initial session resolved:', !!currentSession);
@@ -352,6 +362,16 @@ function AppContent() {
     );
   }
 
+  // CLIENT PORTAL ROUTE — a payer's invoices and statement, no login required
+  if (portalToken) {
+    return (
+      <>
+        <StatusBar style="dark" />
+        <ClientPortalView token={portalToken} />
+      </>
+    );
+  }
+
   // AUTH RESOLUTION GATE - Prevent landing page flash on refresh
   if (!authResolved) {
     return <LoadingScreen />;
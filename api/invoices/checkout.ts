@@ -0,0 +1,122 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import {
+  InvoiceCheckoutError,
+  createInvoiceCheckout,
+  createStripeInvoicePaymentProvider,
+} from '../../src/lib/invoiceCheckout';
+
+function createServiceClient() {
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Server configuration error');
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+function getSiteUrl(req: VercelRequest): string {
+  if (process.env.EXPO_PUBLIC_SITE_URL) {
+    return process.env.EXPO_PUBLIC_SITE_URL;
+  }
+
+  const host = req.headers['x-forwarded-host'] ?? req.headers.host;
+  return host ? `https://${host}` : 'https://bozzygigs.com';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store, max-age=0');
+  res.setHeader('Content-Type', 'application/json');
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const body = req.body ?? {};
+  const invoiceId = typeof body.invoiceId === 'string' ? body.invoiceId : '';
+  const token = typeof body.token === 'string' ? body.token : '';
+  const amount = typeof body.amount === 'number' ? body.amount : null;
+
+  if (!invoiceId || !token) {
+    return res.status(400).json({ error: 'invoiceId and token are required' });
+  }
+
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY_PROD || process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    return res.status(503).json({ error: 'Online payments are not configured' });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('id, user_id, invoice_number, client_email, status, currency, total_amount, credited_amount, written_off_amount, invoice_payments(amount)')
+      .eq('id', invoiceId)
+      .eq('public_token', token)
+      .single();
+
+    if (invoiceError || !invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    const { data: settings } = await supabase
+      .from('invoice_settings')
+      .select('online_payments_enabled')
+      .eq('user_id', invoice.user_id)
+      .single();
+
+    // Payments go to the owner's Connect account, so it has to be able to take charges
+    const { data: connectAccount } = await supabase
+      .from('stripe_connect_accounts')
+      .select('stripe_account_id, charges_enabled')
+      .eq('user_id', invoice.user_id)
+      .maybeSingle();
+
+    if (!settings?.online_payments_enabled || !connectAccount?.charges_enabled) {
+      return res.status(403).json({ error: 'Online payment is not available for this invoice' });
+    }
+
+    const totalPaid = (invoice.invoice_payments ?? [])
+      .reduce((sum, payment) => sum + Number(payment.amount ?? 0), 0);
+
+    const provider = createStripeInvoicePaymentProvider(new Stripe(stripeSecretKey));
+    const session = await createInvoiceCheckout(
+      provider,
+      {
+        id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        client_email: invoice.client_email,
+        status: invoice.status,
+        currency: invoice.currency,
+        total_amount: Number(invoice.total_amount ?? 0),
+        total_paid: totalPaid,
+        credited_amount: Number(invoice.credited_amount ?? 0),
+        written_off_amount: Number(invoice.written_off_amount ?? 0),
+      },
+      {
+        amount,
+        publicToken: token,
+        connectedAccountId: connectAccount.stripe_account_id,
+        returnUrl: `${getSiteUrl(req)}/invoices/${encodeURIComponent(invoice.id)}?token=${encodeURIComponent(token)}`,
+      }
+    );
+
+    return res.status(200).json({ url: session.url });
+  } catch (error) {
+    if (error instanceof InvoiceCheckoutError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error('[invoice-checkout] Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import type { PublicInvoicePayload } from '../../src/types/invoice';
+import { embeddedRow, toPublicInvoice, type PublicInvoicePayload } from '../../src/types/invoice';
+import { resolveInvoiceTemplate } from '../../src/utils/invoiceTemplates';
 
 function createServiceClient() {
   const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -58,16 +59,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         tax_amount,
         discount_amount,
         total_amount,
+        credited_amount,
+        written_off_amount,
         currency,
         payment_terms,
+        net_days,
+        late_fee_type,
+        late_fee_amount,
+        early_discount_percent,
+        early_discount_days,
         notes,
         accepted_payment_methods,
         sent_at,
         viewed_at,
         paid_at,
         public_token,
-        invoice_line_items(id, description, quantity, rate, amount, sort_order),
-        invoice_payments(id, payment_date, amount, payment_method, reference_number)
+        template:invoice_templates(layout, color_scheme, font_style, show_tax_id, show_payment_qr, show_payment_terms, show_gig_details),
+        invoice_line_items(id, description, quantity, rate, amount, sort_order, kind, gig:gigs(date, title, location, city, state_code)),
+        invoice_payments(id, payment_date, amount, payment_method, reference_number),
+        invoice_credit_notes(id, credit_number, issue_date, amount, reason)
       `)
       .eq('id', invoiceId)
       .eq('public_token', token)
@@ -108,12 +118,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         address,
         website,
         logo_url,
+        tax_id,
         default_currency,
         color_scheme,
         font_style,
         layout_style,
         accepted_payment_methods,
-        payment_methods_config
+        payment_methods_config,
+        online_payments_enabled,
+        default_template:invoice_templates(layout, color_scheme, font_style, show_tax_id, show_payment_qr, show_payment_terms, show_gig_details)
       `)
       .eq('user_id', invoice.user_id)
       .single();
@@ -122,53 +135,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Invoice settings not found' });
     }
 
-    const payments = invoice.invoice_payments ?? [];
-    const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount ?? 0), 0);
+    // Pay Now needs a Connect account that can take charges (see api/invoices/checkout.ts)
+    const { data: connectAccount } = await supabase
+      .from('stripe_connect_accounts')
+      .select('charges_enabled')
+      .eq('user_id', invoice.user_id)
+      .maybeSingle();
+
+    // The tax ID is only shared when the invoice's template prints it
+    const defaultTemplate = embeddedRow(settings.default_template);
+    const template = resolveInvoiceTemplate({ template: embeddedRow(invoice.template) }, { ...settings, default_template: defaultTemplate });
 
     const payload: PublicInvoicePayload = {
       invoice: {
-        id: invoice.id,
-        client_name: invoice.client_name,
-        client_company: invoice.client_company,
-        client_email: invoice.client_email,
-        client_address: invoice.client_address,
-        invoice_number: invoice.invoice_number,
-        invoice_date: invoice.invoice_date,
-        due_date: invoice.due_date,
+        ...toPublicInvoice(invoice),
         status: invoiceStatus as PublicInvoicePayload['invoice']['status'],
-        subtotal: Number(invoice.subtotal ?? 0),
-        tax_rate: invoice.tax_rate === null ? undefined : Number(invoice.tax_rate),
-        tax_amount: invoice.tax_amount === null ? undefined : Number(invoice.tax_amount),
-        discount_amount: invoice.discount_amount === null ? undefined : Number(invoice.discount_amount),
-        total_amount: Number(invoice.total_amount ?? 0),
-        currency: invoice.currency,
-        payment_terms: invoice.payment_terms ?? undefined,
-        notes: invoice.notes ?? undefined,
-        accepted_payment_methods: (invoice.accepted_payment_methods as PublicInvoicePayload['invoice']['accepted_payment_methods']) ?? [],
-        sent_at: invoice.sent_at ?? undefined,
         viewed_at: invoiceViewedAt ?? undefined,
-        paid_at: invoice.paid_at ?? undefined,
-        line_items: (invoice.invoice_line_items ?? [])
-          .sort((a, b) => Number(a.sort_order ?? 0) - Number(b.sort_order ?? 0))
-          .map((item) => ({
-          id: item.id,
-          description: item.description,
-          quantity: Number(item.quantity ?? 0),
-          rate: Number(item.rate ?? 0),
-          amount: Number(item.amount ?? 0),
-          sort_order: item.sort_order,
-        })),
-        payments: [...payments]
-          .sort((a, b) => new Date(b.payment_date).getTime() - new Date(a.payment_date).getTime())
-          .map((payment) => ({
-          id: payment.id,
-          payment_date: payment.payment_date,
-          amount: Number(payment.amount ?? 0),
-          payment_method: payment.payment_method,
-          reference_number: payment.reference_number ?? undefined,
-        })),
-        total_paid: totalPaid,
-        balance_due: Math.max(0, Number(invoice.total_amount ?? 0) - totalPaid),
       },
       settings: {
         business_name: settings.business_name,
@@ -177,12 +159,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         address: settings.address ?? undefined,
         website: settings.website ?? undefined,
         logo_url: settings.logo_url ?? undefined,
+        tax_id: template.fields.tax_id ? settings.tax_id ?? undefined : undefined,
         default_currency: settings.default_currency,
         color_scheme: settings.color_scheme,
         font_style: settings.font_style,
         layout_style: settings.layout_style,
         accepted_payment_methods: (settings.accepted_payment_methods as PublicInvoicePayload['settings']['accepted_payment_methods']) ?? [],
         payment_methods_config: settings.payment_methods_config ?? undefined,
+        online_payments_enabled: !!settings.online_payments_enabled && !!connectAccount?.charges_enabled,
+        default_template: defaultTemplate,
       },
     };
 
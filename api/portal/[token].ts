@@ -0,0 +1,184 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { embeddedRow, toPublicInvoice, type ClientPortalPayload, type PublicInvoicePayload } from '../../src/types/invoice';
+import { resolveInvoiceTemplate } from '../../src/utils/invoiceTemplates';
+
+// Drafts were never sent and cancelled invoices are void
+const HIDDEN_STATUSES = ['draft', 'cancelled'];
+
+function createServiceClient() {
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Server configuration error');
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store, max-age=0');
+  res.setHeader('Content-Type', 'application/json');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (!token) {
+    return res.status(400).json({ error: 'Token is required' });
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const { data: portalLink, error: linkError } = await supabase
+      .from('client_portal_links')
+      .select('id, user_id, payer_id, expires_at, access_count, payer:payers(name)')
+      .eq('token', token)
+      .eq('is_active', true)
+      .single();
+
+    if (linkError || !portalLink) {
+      return res.status(404).json({ error: 'Portal link not found' });
+    }
+
+    if (portalLink.expires_at && new Date(portalLink.expires_at) < new Date()) {
+      return res.status(410).json({ error: 'Portal link has expired' });
+    }
+
+    const { data: invoices, error: invoicesError } = await supabase
+      .from('invoices')
+      .select(`
+        id,
+        client_name,
+        client_company,
+        client_email,
+        client_address,
+        invoice_number,
+        invoice_date,
+        due_date,
+        status,
+        subtotal,
+        tax_rate,
+        tax_amount,
+        discount_amount,
+        total_amount,
+        credited_amount,
+        written_off_amount,
+        currency,
+        payment_terms,
+        net_days,
+        late_fee_type,
+        late_fee_amount,
+        early_discount_percent,
+        early_discount_days,
+        notes,
+        accepted_payment_methods,
+        sent_at,
+        viewed_at,
+        paid_at,
+        public_token,
+        template:invoice_templates(layout, color_scheme, font_style, show_tax_id, show_payment_qr, show_payment_terms, show_gig_details),
+        invoice_line_items(id, description, quantity, rate, amount, sort_order, kind, gig:gigs(date, title, location, city, state_code)),
+        invoice_payments(id, payment_date, amount, payment_method, reference_number),
+        invoice_credit_notes(id, credit_number, issue_date, amount, reason)
+      `)
+      .eq('user_id', portalLink.user_id)
+      .eq('client_id', portalLink.payer_id)
+      .not('status', 'in', `(${HIDDEN_STATUSES.join(',')})`)
+      .order('invoice_date', { ascending: false });
+
+    if (invoicesError) {
+      console.error('[portal/token] invoices query error:', invoicesError);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    const { data: settings, error: settingsError } = await supabase
+      .from('invoice_settings')
+      .select(`
+        business_name,
+        email,
+        phone,
+        address,
+        website,
+        logo_url,
+        tax_id,
+        default_currency,
+        color_scheme,
+        font_style,
+        layout_style,
+        accepted_payment_methods,
+        payment_methods_config,
+        online_payments_enabled,
+        default_template:invoice_templates(layout, color_scheme, font_style, show_tax_id, show_payment_qr, show_payment_terms, show_gig_details)
+      `)
+      .eq('user_id', portalLink.user_id)
+      .single();
+
+    if (settingsError || !settings) {
+      return res.status(404).json({ error: 'Invoice settings not found' });
+    }
+
+    // Pay Now needs a Connect account that can take charges (see api/invoices/checkout.ts)
+    const { data: connectAccount } = await supabase
+      .from('stripe_connect_accounts')
+      .select('charges_enabled')
+      .eq('user_id', portalLink.user_id)
+      .maybeSingle();
+
+    await supabase
+      .from('client_portal_links')
+      .update({
+        last_accessed: new Date().toISOString(),
+        access_count: (portalLink.access_count ?? 0) + 1,
+      })
+      .eq('id', portalLink.id);
+
+    const payer = Array.isArray(portalLink.payer) ? portalLink.payer[0] : portalLink.payer;
+    // The tax ID is only shared when an invoice's template prints it
+    const defaultTemplate = embeddedRow(settings.default_template);
+    const showTaxId = (invoices ?? []).some((invoice) =>
+      resolveInvoiceTemplate({ template: embeddedRow(invoice.template) }, { ...settings, default_template: defaultTemplate }).fields.tax_id
+    );
+
+    const payload: ClientPortalPayload = {
+      client_name: payer?.name ?? invoices?.[0]?.client_name ?? 'Client',
+      invoices: (invoices ?? []).map((invoice) => ({
+        ...toPublicInvoice(invoice),
+        public_token: invoice.public_token ?? undefined,
+      })),
+      settings: {
+        business_name: settings.business_name,
+        email: settings.email,
+        phone: settings.phone ?? undefined,
+        address: settings.address ?? undefined,
+        website: settings.website ?? undefined,
+        logo_url: settings.logo_url ?? undefined,
+        tax_id: showTaxId ? settings.tax_id ?? undefined : undefined,
+        default_currency: settings.default_currency,
+        color_scheme: settings.color_scheme,
+        font_style: settings.font_style,
+        layout_style: settings.layout_style,
+        accepted_payment_methods: (settings.accepted_payment_methods as PublicInvoicePayload['settings']['accepted_payment_methods']) ?? [],
+        payment_methods_config: settings.payment_methods_config ?? undefined,
+        online_payments_enabled: !!settings.online_payments_enabled && !!connectAccount?.charges_enabled,
+        default_template: defaultTemplate,
+      },
+      expires_at: portalLink.expires_at ?? undefined,
+      generated_at: new Date().toISOString(),
+    };
+
+    return res.status(200).json(payload);
+  } catch (error) {
+    console.error('[portal/token] Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
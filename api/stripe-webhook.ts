@@ -1,11 +1,20 @@
 /**
  * Stripe Webhook Handler
- * Processes Stripe events and updates subscription status in Supabase
+ * Processes Stripe events and updates subscription status in Supabase,
+ * records online invoice payments from Checkout, and tracks whether each
+ * user's Connect account can take those payments
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
+import {
+  buildCheckoutPayment,
+  getCheckoutBalanceDue,
+  isInvoiceCheckoutSession,
+  type CompletedCheckoutSession,
+  type OnlinePaymentMethod,
+} from '../src/lib/invoiceCheckout';
 
 // Use STRIPE_SECRET_KEY_PROD for production, fallback to STRIPE_SECRET_KEY for backward compatibility
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY_PROD || process.env.STRIPE_SECRET_KEY;
@@ -39,13 +48,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const sig = req.headers['stripe-signature'] as string;
   // Use STRIPE_WEBHOOK_SECRET_PROD for production, fallback to STRIPE_WEBHOOK_SECRET for backward compatibility
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET_PROD || process.env.STRIPE_WEBHOOK_SECRET!;
+  // account.updated for connected accounts comes from a separate Connect endpoint
+  const connectWebhookSecret = process.env.STRIPE_CONNECT_WEBHOOK_SECRET;
 
   let event: Stripe.Event;
 
   try {
     const rawBody = await getRawBody(req);
     console.log('Webhook received, signature:', sig?.substring(0, 20) + '...');
-    event = stripe.webhooks.constructEvent(rawBody, sig, webhookSecret);
+    try {
+      event = stripe.webhooks.constructEvent(rawBody, sig, webhookSecret);
+    } catch (err) {
+      if (!connectWebhookSecret) throw err;
+      event = stripe.webhooks.constructEvent(rawBody, sig, connectWebhookSecret);
+    }
     console.log('Webhook verified, event type:', event.type);
   } catch (err: any) {
     console.error('Webhook signature verification failed:', err.message);
@@ -97,6 +113,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         break;
       }
 
+      // Card payments complete immediately; ACH debits settle days later
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        if (isInvoiceCheckoutSession(session)) {
+          const method: OnlinePaymentMethod = event.type === 'checkout.session.completed' ? 'card' : 'ach';
+          await handleInvoiceCheckoutPaid(toCompletedCheckoutSession(session), method);
+        }
+        break;
+      }
+
+      case 'account.updated': {
+        const account = event.data.object as Stripe.Account;
+        await handleConnectAccountUpdated(account);
+        break;
+      }
+
       case 'invoice.payment_failed': {
         const invoice = event.data.object as any;
         if (invoice.subscription) {
@@ -250,3 +283,95 @@ async function handlePaymentFailed(subscriptionId: string) {
     throw error;
   }
 }
+
+function toCompletedCheckoutSession(session: Stripe.Checkout.Session): CompletedCheckoutSession {
+  return {
+    id: session.id,
+    amount_total: session.amount_total,
+    payment_status: session.payment_status,
+    payment_intent: typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id ?? null,
+    metadata: session.metadata,
+  };
+}
+
+async function handleInvoiceCheckoutPaid(session: CompletedCheckoutSession, method: OnlinePaymentMethod) {
+  const invoiceId = session.metadata!.invoice_id;
+  console.log('Processing invoice checkout:', session.id, 'invoice:', invoiceId);
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, total_amount, credited_amount, written_off_amount, invoice_payments(amount, reference_number)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw new Error(`Invoice ${invoiceId} not found for checkout session ${session.id}`);
+  }
+
+  const payments = invoice.invoice_payments ?? [];
+  const reference = session.payment_intent ?? session.id;
+  if (payments.some((payment) => payment.reference_number === reference)) {
+    console.log(`Payment ${reference} already recorded for invoice ${invoiceId}`);
+    return;
+  }
+
+  const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount ?? 0), 0);
+  const balanceDue = getCheckoutBalanceDue({
+    total_amount: Number(invoice.total_amount ?? 0),
+    total_paid: totalPaid,
+    credited_amount: Number(invoice.credited_amount ?? 0),
+    written_off_amount: Number(invoice.written_off_amount ?? 0),
+  });
+  const payment = buildCheckoutPayment(session, method, balanceDue, new Date().toISOString().slice(0, 10));
+
+  if (!payment) {
+    console.log(`Nothing to record for checkout session ${session.id} (status: ${session.payment_status})`);
+    return;
+  }
+
+  // The payment trigger moves the invoice to partially_paid or paid. The
+  // unique Stripe reference index catches a concurrent delivery
+  // of the same session that got past the check above.
+  const { error: paymentError } = await supabase
+    .from('invoice_payments')
+    .insert(payment);
+
+  if (paymentError?.code === '23505') {
+    console.log(`Payment ${reference} already recorded for invoice ${invoiceId}`);
+    return;
+  }
+
+  if (paymentError) {
+    console.error('Error recording invoice payment:', paymentError);
+    throw paymentError;
+  }
+
+  if (payment.amount >= balanceDue) {
+    await supabase
+      .from('invoices')
+      .update({ reminders_stopped_at: new Date().toISOString() })
+      .eq('id', invoiceId);
+  }
+
+  console.log(`Recorded ${payment.amount} payment on invoice ${invoiceId}`);
+}
+
+async function handleConnectAccountUpdated(account: Stripe.Account) {
+  const { error } = await supabase
+    .from('stripe_connect_accounts')
+    .update({
+      charges_enabled: account.charges_enabled,
+      details_submitted: account.details_submitted,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('stripe_account_id', account.id);
+
+  if (error) {
+    console.error('Error updating Connect account:', error);
+    throw error;
+  }
+
+  console.log(`Connect account ${account.id} charges enabled: ${account.charges_enabled}`);
+}
@@ -81,12 +81,7 @@ module.exports = {
       EXPO_PUBLIC_STRIPE_YEARLY_PRICE_ID_PROD: process.env.EXPO_PUBLIC_STRIPE_YEARLY_PRICE_ID_PROD || process.env.EXPO_PUBLIC_STRIPE_YEARLY_PRICE_ID,
       EXPO_PUBLIC_GOOGLE_MAPS_API_KEY: process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY,
       EXPO_PUBLIC_EAS_PROJECT_ID: process.env.EXPO_PUBLIC_EAS_PROJECT_ID || '5ff44996-693e-44d8-9a08-49abc25d2de8',
-      EXPO_PUBLIC_DEFAULT_MILEAGE_RATE: process.env.EXPO_PUBLIC_DEFAULT_MILEAGE_RATE || '0.67',
       EXPO_PUBLIC_TAX_YEAR: process.env.EXPO_PUBLIC_TAX_YEAR || '2025',
-      EXPO_PUBLIC_FEDERAL_FLAT_RATE_SINGLE: process.env.EXPO_PUBLIC_FEDERAL_FLAT_RATE_SINGLE || '0.12',
-      EXPO_PUBLIC_FEDERAL_FLAT_RATE_MARRIED: process.env.EXPO_PUBLIC_FEDERAL_FLAT_RATE_MARRIED || '0.12',
-      EXPO_PUBLIC_FEDERAL_FLAT_RATE_HOH: process.env.EXPO_PUBLIC_FEDERAL_FLAT_RATE_HOH || '0.12',
-      EXPO_PUBLIC_USE_FEDERAL_BRACKETS: process.env.EXPO_PUBLIC_USE_FEDERAL_BRACKETS === 'true',
       EXPO_PUBLIC_DEEP_LINK_SCHEME: process.env.EXPO_PUBLIC_DEEP_LINK_SCHEME || 'bozzy',
       NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
       eas: {
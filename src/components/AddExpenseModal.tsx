@@ -28,6 +28,9 @@ import { getSharedUserId } from '../lib/sharedAuth';
 import { processReceipt, processReceiptBeforeCreation, getConfidenceLabel, getConfidenceColor, type ProcessReceiptResponse } from '../lib/receipts/processReceipt';
 import { sanitizeAmountInput } from '../utils/sanitizeAmountInput';
 import { UI_EXPENSE_CATEGORIES } from '../lib/categoryMapping';
+import { CurrencyRateFields } from './CurrencyRateFields';
+import { HOME_CURRENCY, fromHomeAmount, isHomeCurrency, toHomeAmount } from '../utils/exchangeRates';
+import { CURRENCIES } from '../types/invoice';
 
 interface AddExpenseModalProps {
   visible: boolean;
@@ -61,6 +64,8 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
   const [category, setCategory] = useState<typeof EXPENSE_CATEGORIES[number]>('Other');
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(HOME_CURRENCY);
+  const [exchangeRate, setExchangeRate] = useState('1');
   const [vendor, setVendor] = useState('');
   const [notes, setNotes] = useState('');
   const [receiptFile, setReceiptFile] = useState<File | NativeReceiptFile | null>(null);
@@ -110,7 +115,9 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
       setDate(editingExpense.date);
       setCategory(editingExpense.category);
       setDescription(editingExpense.description);
-      setAmount(editingExpense.amount.toString());
+      setCurrency(editingExpense.currency || HOME_CURRENCY);
+      setExchangeRate(String(editingExpense.exchange_rate ?? 1));
+      setAmount(fromHomeAmount(editingExpense.amount, editingExpense.exchange_rate).toString());
       setVendor(editingExpense.vendor || '');
       setNotes(editingExpense.notes || '');
       setBusinessUsePercent(editingExpense.business_use_percent || 100);
@@ -125,7 +132,10 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
       setDate(toUtcDateString(new Date()));
       setCategory(duplicatingExpense.category);
       setDescription(duplicatingExpense.description);
-      setAmount(duplicatingExpense.amount.toString());
+      setCurrency(duplicatingExpense.currency || HOME_CURRENCY);
+      // Today's rate is looked up again for the new date
+      setExchangeRate(isHomeCurrency(duplicatingExpense.currency) ? '1' : '');
+      setAmount(fromHomeAmount(duplicatingExpense.amount, duplicatingExpense.exchange_rate).toString());
       setVendor(duplicatingExpense.vendor || '');
       setNotes(duplicatingExpense.notes || '');
       setBusinessUsePercent(duplicatingExpense.business_use_percent || 100);
@@ -162,6 +172,8 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
     setCategory('Other');
     setDescription('');
     setAmount('');
+    setCurrency(HOME_CURRENCY);
+    setExchangeRate('1');
     setVendor('');
     setNotes('');
     setReceiptFile(null);
@@ -178,6 +190,17 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
     setFieldErrors({});
   };
 
+  // Switch to the receipt's currency; returns true when it isn't USD
+  const applyReceiptCurrency = (receiptCurrency?: string) => {
+    const code = receiptCurrency?.toUpperCase();
+    if (!code || isHomeCurrency(code) || !CURRENCIES.some(c => c.code === code)) return false;
+    if (code !== currency) {
+      setCurrency(code);
+      setExchangeRate('');
+    }
+    return true;
+  };
+
   const showFileAlert = (title: string, message: string) => {
     if (Platform.OS === 'web') {
       window.alert(`${title}: ${message}`);
@@ -264,6 +287,7 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
             }
             if (!amount && result.extracted.total) {
               setAmount(result.extracted.total.toString());
+              applyReceiptCurrency(result.extracted.currency);
             }
             if (category === 'Other' && result.suggestion?.category) {
               const suggestedCategory = result.suggestion.category as typeof EXPENSE_CATEGORIES[number];
@@ -470,6 +494,7 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
         }
         if (!amount && result.extracted.total) {
           setAmount(result.extracted.total.toString());
+          applyReceiptCurrency(result.extracted.currency);
         }
         if (category === 'Other' && result.suggestion?.category) {
           const suggestedCategory = result.suggestion.category as typeof EXPENSE_CATEGORIES[number];
@@ -520,7 +545,10 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
     // Apply amount if empty
     if (!amount && extracted.total) {
       setAmount(extracted.total.toString());
-      updates.amount = extracted.total;
+      // Foreign totals need a rate first, so they're saved with the form
+      if (!applyReceiptCurrency(extracted.currency)) {
+        updates.amount = extracted.total;
+      }
     }
 
     // Apply category suggestion if still on default 'Other'
@@ -565,6 +593,8 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
     }
     if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
       errors.amount = 'Amount must be greater than 0';
+    } else if (!isHomeCurrency(currency) && !(parseFloat(exchangeRate) > 0)) {
+      errors.amount = `Enter the ${currency} exchange rate for this date`;
     }
 
     setFieldErrors(errors);
@@ -592,11 +622,14 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
     try {
       setUploading(true);
 
+      const homeRate = isHomeCurrency(currency) ? 1 : parseFloat(exchangeRate);
       const formData: ExpenseFormData = {
         date,
         category,
         description,
-        amount: parseFloat(amount) || 0,
+        amount: toHomeAmount(parseFloat(amount) || 0, homeRate),
+        currency,
+        exchange_rate: homeRate,
         vendor: vendor || undefined,
         notes: notes || undefined,
         gig_id: gigId || undefined,
@@ -893,7 +926,7 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
                   <BusinessUseSlider
                     value={businessUsePercent}
                     onChange={setBusinessUsePercent}
-                    amount={parseFloat(amount) || 0}
+                    amount={toHomeAmount(parseFloat(amount) || 0, isHomeCurrency(currency) ? 1 : parseFloat(exchangeRate) || 0)}
                   />
                 </View>
               )}
@@ -993,6 +1026,15 @@ export function AddExpenseModal({ visible, onClose, editingExpense, duplicatingE
                 </View>
               </View>
 
+              <CurrencyRateFields
+                currency={currency}
+                onCurrencyChange={setCurrency}
+                exchangeRate={exchangeRate}
+                onExchangeRateChange={setExchangeRate}
+                date={date}
+                amount={parseFloat(amount) || 0}
+              />
+
               <View style={styles.inputGroup}>
                 <Text style={styles.label}>Receipt (Optional)</Text>
               <TouchableOpacity
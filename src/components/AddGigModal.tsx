@@ -23,13 +23,13 @@ import { InlineMileageRow } from './gigs/InlineMileageRow';
 import { InlineSubcontractorPayments, type InlineSubcontractorPayment } from './gigs/InlineSubcontractorPayments';
 import { SubcontractorFormModal } from './SubcontractorFormModal';
 import { PlaceAutocomplete } from './PlaceAutocomplete';
-import { calculateMileageDeduction } from '../hooks/useTaxEstimate';
+import { calculateMileageDeduction, estimateGigSetAside } from '../tax/service';
 import { createGigWithLines, updateGigWithLines } from '../services/gigService';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { getSharedUserId } from '../lib/sharedAuth';
 import { useTaxProfile } from '../hooks/useTaxProfile';
-import { taxDeltaForGig } from '../tax/engine';
+import { useYTDTaxBasis } from '../hooks/useGigTaxCalculation';
 import { StickySummary } from './gigs/StickySummary';
 import { Accordion } from './ui/Accordion';
 import { UpgradeModal } from './UpgradeModal';
@@ -64,6 +64,9 @@ import {
 } from '../lib/analytics';
 import { useScrollFieldIntoView } from '../hooks/useScrollFieldIntoView';
 import { sanitizeAmountInput } from '../utils/sanitizeAmountInput';
+import { CurrencyRateFields } from './CurrencyRateFields';
+import { HOME_CURRENCY, fromHomeAmount, isHomeCurrency, toHomeAmount } from '../utils/exchangeRates';
+import { CURRENCIES } from '../types/invoice';
 
 interface AddGigModalProps {
   visible: boolean;
@@ -176,6 +179,8 @@ export function AddGigModal({
   const [venueError, setVenueError] = useState('');
   const [cityError, setCityError] = useState('');
   const [grossAmount, setGrossAmount] = useState('');
+  const [currency, setCurrency] = useState(HOME_CURRENCY);
+  const [exchangeRate, setExchangeRate] = useState('1');
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showStartTimePicker, setShowStartTimePicker] = useState(false);
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
@@ -272,6 +277,14 @@ export function AddGigModal({
     ? calculateMileageDeduction(parseFloat(inlineMileage.miles) || 0, date)
     : 0;
   const totalSubcontractorPayments = inlineSubcontractorPayments.reduce((sum, payment) => sum + (parseFloat(payment.amount) || 0), 0);
+
+  // Form amounts are in the gig's currency; previews and saved amounts are USD.
+  // Previews fall back to 1:1 until a rate is entered.
+  const parsedExchangeRate = parseFloat(exchangeRate);
+  const gigExchangeRate = isHomeCurrency(currency) ? 1 : parsedExchangeRate > 0 ? parsedExchangeRate : 1;
+  const currencySymbol = CURRENCIES.find(c => c.code === currency)?.symbol || currency;
+  const toHome = (value: string | number) =>
+    toHomeAmount(typeof value === 'number' ? value : parseFloat(value) || 0, gigExchangeRate);
   
   // Construct venue address from form fields
   const venueAddress = [location, city, state].filter(Boolean).join(', ');
@@ -299,98 +312,48 @@ export function AddGigModal({
   const hasMileageReady = Number.isFinite(mileageMiles) && mileageMiles > 0;
   
   // Calculate net amount before tax
-  const netBeforeTax = (parseFloat(grossAmount) || 0) 
+  const netBeforeTax = toHome((parseFloat(grossAmount) || 0) 
     + (parseFloat(tips) || 0) 
     + (parseFloat(perDiem) || 0) 
     + (parseFloat(otherIncome) || 0) 
     - (parseFloat(fees) || 0)
-    - totalExpenses
+    - totalExpenses)
     - mileageDeduction;
 
   const { data: taxProfile } = useTaxProfile();
   
-  // Get YTD data for tax calculation
-  const { data: ytdData } = useQuery<{
-    ytdGross: number;
-    ytdExpenses: number;
-  }>({
-    queryKey: ['ytd-tax-data'],
-    queryFn: async () => {
-      const yearStart = new Date(new Date().getFullYear(), 0, 1).toISOString();
-      
-      // Get YTD gigs with payer info to determine tax treatment
-      const { data: gigs, error: gigsError } = await supabase
-        .from('gigs')
-        .select('gross_amount, tips, per_diem, other_income, fees, tax_treatment, payer_id, payers!inner(tax_treatment)')
-        .gte('date', yearStart);
-      
-      if (gigsError) throw gigsError;
-      
-      // Get YTD expenses
-      const { data: expenses, error: expensesError } = await supabase
-        .from('expenses')
-        .select('amount')
-        .gte('date', yearStart);
-      
-      if (expensesError) throw expensesError;
-      
-      // Calculate YTD gross, excluding W-2 gigs from tax basis
-      const ytdGross = (gigs || []).reduce((sum, gig: any) => {
-        // Get effective tax treatment (gig override or payer default)
-        const effectiveTreatment = gig.tax_treatment || gig.payers?.tax_treatment || 'contractor_1099';
-        
-        // Exclude W-2 gigs from tax set-aside calculation
-        if (effectiveTreatment === 'w2') {
-          return sum;
-        }
-        
-        return sum + (gig.gross_amount || 0) + (gig.tips || 0) + 
-          (gig.per_diem || 0) + (gig.other_income || 0) - (gig.fees || 0);
-      }, 0);
-      
-      const ytdExpenses = (expenses || []).reduce((sum, exp: any) => sum + (exp.amount || 0), 0);
-      
-      return { ytdGross, ytdExpenses };
-    },
-  });
+  const { data: ytdData } = useYTDTaxBasis();
   
   // Calculate set-aside for this gig
   const gigSetAside = React.useMemo(() => {
     if (!taxProfile || !ytdData) return null;
     
-    const ytdInput = {
-      grossIncome: ytdData.ytdGross,
-      adjustments: 0,
-      netSE: ytdData.ytdGross - ytdData.ytdExpenses,
-    };
-    
     // Calculate total gross income for this gig (all income sources)
     const gigGrossIncome = (parseFloat(grossAmount) || 0)
       + (parseFloat(tips) || 0)
       + (parseFloat(perDiem) || 0)
       + (parseFloat(otherIncome) || 0);
     
-    // Calculate total expenses for this gig (fees + inline expenses + subcontractor payments)
-    // Note: mileageDeduction is excluded — it is a tax-time deduction, not a per-gig cash expense.
-    const gigTotalExpenses = (parseFloat(fees) || 0)
+    // Deductions for this gig (fees + inline expenses + subcontractor payments + mileage),
+    // the same lines the gig cards use
+    const gigTotalExpenses = toHome((parseFloat(fees) || 0)
       + totalExpenses
-      + totalSubcontractorPayments;
+      + totalSubcontractorPayments)
+      + mileageDeduction;
     
     const gigData = {
-      gross: gigGrossIncome,
+      gross: toHome(gigGrossIncome),
       expenses: gigTotalExpenses,
+      date: date || undefined,
     };
     
-    // Debug logging
-    
     try {
-      const result = taxDeltaForGig(ytdInput, gigData, taxProfile);
-      return result;
+      return estimateGigSetAside(ytdData.ytdGross - ytdData.ytdExpenses, gigData, taxProfile);
     } catch (error) {
       console.error('Error calculating tax set-aside:', error);
       return null;
     }
-  }, [taxProfile, ytdData, grossAmount, tips, perDiem, otherIncome, fees, totalExpenses, totalSubcontractorPayments]);
+  }, [taxProfile, ytdData, date, grossAmount, tips, perDiem, otherIncome, fees, totalExpenses, totalSubcontractorPayments, mileageDeduction, gigExchangeRate]);
 
   const applyLoadedMileage = (tripMileage: any) => {
     lastAutoMileageRouteKeyRef.current = null;
@@ -458,11 +421,15 @@ export function AddGigModal({
       setCity(duplicatingGig.city || '');
       setState(duplicatingGig.state || '');
       setCountry(duplicatingGig.country || 'US');
-      setGrossAmount(duplicatingGig.gross_amount.toString());
-      setTips(duplicatingGig.tips.toString());
-      setFees(duplicatingGig.fees.toString());
-      setPerDiem(duplicatingGig.per_diem?.toString() || '0');
-      setOtherIncome(duplicatingGig.other_income?.toString() || '0');
+      const duplicateRate = duplicatingGig.exchange_rate;
+      setCurrency(duplicatingGig.currency || HOME_CURRENCY);
+      // Today's rate is looked up again for the new date
+      setExchangeRate(isHomeCurrency(duplicatingGig.currency) ? '1' : '');
+      setGrossAmount(fromHomeAmount(duplicatingGig.gross_amount, duplicateRate).toString());
+      setTips(fromHomeAmount(duplicatingGig.tips, duplicateRate).toString());
+      setFees(fromHomeAmount(duplicatingGig.fees, duplicateRate).toString());
+      setPerDiem(fromHomeAmount(duplicatingGig.per_diem ?? 0, duplicateRate).toString());
+      setOtherIncome(fromHomeAmount(duplicatingGig.other_income ?? 0, duplicateRate).toString());
       setPaymentMethod(duplicatingGig.payment_method || '');
       setInvoiceLink('');
       setPaid(false); // Reset paid status for duplicates
@@ -483,7 +450,7 @@ export function AddGigModal({
             id: `temp-${Math.random()}`, // Temporary ID for new expenses
             category: exp.category,
             description: exp.description,
-            amount: exp.amount.toString(),
+            amount: fromHomeAmount(exp.amount, exp.exchange_rate).toString(),
             note: exp.notes || '',
           }));
           // Store in state for conditional copying
@@ -518,11 +485,15 @@ export function AddGigModal({
       setCity(editingGig.city || '');
       setState(editingGig.state || '');
       setCountry(editingGig.country || 'US');
-      setGrossAmount(editingGig.gross_amount.toString());
-      setTips(editingGig.tips.toString());
-      setFees(editingGig.fees.toString());
-      setPerDiem(editingGig.per_diem?.toString() || '0');
-      setOtherIncome(editingGig.other_income?.toString() || '0');
+      // Amounts are stored in USD; the form edits them in the gig's currency
+      const editingRate = editingGig.exchange_rate;
+      setCurrency(editingGig.currency || HOME_CURRENCY);
+      setExchangeRate(String(editingRate ?? 1));
+      setGrossAmount(fromHomeAmount(editingGig.gross_amount, editingRate).toString());
+      setTips(fromHomeAmount(editingGig.tips, editingRate).toString());
+      setFees(fromHomeAmount(editingGig.fees, editingRate).toString());
+      setPerDiem(fromHomeAmount(editingGig.per_diem ?? 0, editingRate).toString());
+      setOtherIncome(fromHomeAmount(editingGig.other_income ?? 0, editingRate).toString());
       setPaymentMethod(editingGig.payment_method || '');
       setInvoiceLink(editingGig.invoice_link || '');
       setPaid(editingGig.paid || false);
@@ -546,7 +517,7 @@ export function AddGigModal({
             id: exp.id, // Use actual expense ID
             category: exp.category,
             description: exp.description,
-            amount: exp.amount.toString(),
+            amount: fromHomeAmount(exp.amount, exp.exchange_rate).toString(),
             note: exp.notes || '',
           }));
           setInlineExpenses(inlineExpensesData);
@@ -566,8 +537,11 @@ export function AddGigModal({
           const inlinePaymentsData = payments.map((payment: any) => ({
             id: payment.id,
             subcontractor_id: payment.subcontractor_id,
-            amount: payment.amount.toString(),
+            amount: fromHomeAmount(payment.amount, editingRate).toString(),
             note: payment.note || '',
+            split_template_id: payment.split_template_id,
+            settlement_id: payment.settlement_id,
+            paid_on: payment.paid_on,
           }));
           setInlineSubcontractorPayments(inlinePaymentsData);
         }
@@ -596,6 +570,8 @@ export function AddGigModal({
     setVenueError('');
     setCityError('');
     setGrossAmount('');
+    setCurrency(HOME_CURRENCY);
+    setExchangeRate('1');
     setTips('0');
     setFees('0');
     setPerDiem('0');
@@ -925,6 +901,8 @@ export function AddGigModal({
     }
     if (!grossAmount || isNaN(parseFloat(grossAmount)) || parseFloat(grossAmount) < 0) {
       errors.grossAmount = "Base pay can't be negative";
+    } else if (!isHomeCurrency(currency) && !(parsedExchangeRate > 0)) {
+      errors.grossAmount = `Enter the ${currency} exchange rate for this date`;
     }
     
     setFieldErrors(errors);
@@ -973,12 +951,14 @@ export function AddGigModal({
         country: country || undefined,
         country_code: country || 'US', // Map to database column
         state_code: state && US_STATES.find(s => s.code === state || s.name === state)?.code, // Always use 2-letter code
-        gross_amount: parseFloat(grossAmount) || 0,
-        tips: parseFloat(tips) || 0,
-        fees: parseFloat(fees) || 0,
-        per_diem: parseFloat(perDiem) || 0,
-        other_income: parseFloat(otherIncome) || 0,
+        gross_amount: toHome(grossAmount),
+        tips: toHome(tips),
+        fees: toHome(fees),
+        per_diem: toHome(perDiem),
+        other_income: toHome(otherIncome),
         net_amount: netBeforeTax, // Use calculated net before tax
+        currency,
+        exchange_rate: gigExchangeRate,
         payment_method: paymentMethod || undefined,
         invoice_link: invoiceLink || undefined,
         paid,
@@ -1010,7 +990,7 @@ export function AddGigModal({
         .map(exp => ({
           category: exp.category,
           description: exp.description,
-          amount: parseFloat(exp.amount) || 0,
+          amount: toHome(exp.amount),
           note: exp.note,
         }));
 
@@ -1030,8 +1010,11 @@ export function AddGigModal({
         .filter(payment => payment.subcontractor_id && payment.amount)
         .map(payment => ({
           subcontractor_id: payment.subcontractor_id,
-          amount: parseFloat(payment.amount) || 0,
+          amount: toHome(payment.amount),
           note: payment.note,
+          split_template_id: payment.split_template_id,
+          settlement_id: payment.settlement_id,
+          paid_on: payment.paid_on,
         }));
 
       let newGigId: string | undefined;
@@ -1095,7 +1078,7 @@ export function AddGigModal({
             try {
               await createAllocationForGig({
                 gigId: result.id,
-                grossAmount: parseFloat(grossAmount) || 0,
+                grossAmount: toHome(grossAmount),
               });
             } catch (allocationError: any) {
               console.error('Error creating allocations:', allocationError);
@@ -1383,7 +1366,7 @@ export function AddGigModal({
               basePayField={
                 <Field label="Base Pay" required error={fieldErrors.grossAmount}>
                   <View style={[styles.amountInputShell, fieldErrors.grossAmount && styles.inputError]}>
-                    <Text style={styles.currencyPrefix}>$</Text>
+                    <Text style={styles.currencyPrefix}>{currencySymbol}</Text>
                     <TextInput
                       ref={grossAmountInputRef}
                       style={styles.amountInput}
@@ -1692,6 +1675,16 @@ export function AddGigModal({
 
             <PayBreakdownSection
               isStacked={isMobile}
+              currencyField={
+                <CurrencyRateFields
+                  currency={currency}
+                  onCurrencyChange={setCurrency}
+                  exchangeRate={exchangeRate}
+                  onExchangeRateChange={setExchangeRate}
+                  date={date}
+                  amount={parseFloat(grossAmount) || 0}
+                />
+              }
               tipsField={
                 <Field label="Tips">
                   <TextInput
@@ -1872,7 +1865,7 @@ export function AddGigModal({
                         </Text>
                         {parseFloat(grossAmount) > 0 && (
                           <RateComparisonTip
-                            grossAmount={parseFloat(grossAmount)}
+                            grossAmount={toHome(grossAmount)}
                             rateUnit={bm.rate_unit}
                             benchmark={bm}
                             onDismiss={() => setSelectedGigType(null)}
@@ -1892,7 +1885,7 @@ export function AddGigModal({
 
             {/* Allocation Preview - show if gig is paid and has amount */}
             {paid && grossAmount && parseFloat(grossAmount) > 0 && (
-              <AllocationPreview grossAmount={parseFloat(grossAmount)} />
+              <AllocationPreview grossAmount={toHome(grossAmount)} />
             )}
 
             <TaxWithholdingSection>
@@ -2078,13 +2071,13 @@ export function AddGigModal({
           <View style={styles.bottomDock}>
             <StickySummary
               variant="compact"
-              basePay={parseFloat(grossAmount) || 0}
-              tips={parseFloat(tips) || 0}
-              perDiem={parseFloat(perDiem) || 0}
-              otherIncome={parseFloat(otherIncome) || 0}
-              fees={parseFloat(fees) || 0}
-              expenses={totalExpenses}
-              subcontractorPayments={totalSubcontractorPayments}
+              basePay={toHome(grossAmount)}
+              tips={toHome(tips)}
+              perDiem={toHome(perDiem)}
+              otherIncome={toHome(otherIncome)}
+              fees={toHome(fees)}
+              expenses={toHome(totalExpenses)}
+              subcontractorPayments={toHome(totalSubcontractorPayments)}
               mileageDeduction={mileageDeduction}
               taxSetAside={gigSetAside?.amount}
               taxRate={gigSetAside ? gigSetAside.rate * 100 : 0}
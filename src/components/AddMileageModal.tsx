@@ -16,8 +16,6 @@ import { useScrollFieldIntoView } from '../hooks/useScrollFieldIntoView';
 import {
   useCreateMileage,
   useUpdateMileage,
-  calculateMileageDeduction,
-  IRS_MILEAGE_RATE_YEAR,
 } from '../hooks/useMileage';
 import { mileageSchema, type MileageFormData } from '../lib/validations';
 import { DatePickerModal } from './ui/DatePickerModal';
@@ -27,7 +25,13 @@ import { useCreateSavedRoute, useSavedRoutes } from '../hooks/useSavedRoutes';
 import { drivingMiles } from '../lib/geo';
 import { colors } from '../styles/theme';
 import { useTheme } from '../contexts/ThemeContext';
-import { getMileageRateForDate, getMileageRateYearForDate, parseMileageInput } from '../lib/mileage';
+import { parseMileageInput } from '../lib/mileage';
+import {
+  calculateMileageDeduction,
+  getLatestSupportedMileageYear,
+  getMileageRateForDate,
+  getMileageRateYearForDate,
+} from '../tax/service';
 
 interface AddMileageModalProps {
   visible: boolean;
@@ -525,9 +529,9 @@ export function AddMileageModal({ visible, onClose, editingMileage, initialDate,
                 ${deduction.toFixed(2)}
               </Text>
               <Text style={styles.deductionFormula}>
-                {(parseMileageInput(miles) ?? 0).toFixed(1)} miles × ${getMileageRateForDate(date)}/mile ({date ? date.slice(0, 4) : IRS_MILEAGE_RATE_YEAR})
+                {(parseMileageInput(miles) ?? 0).toFixed(1)} miles × ${getMileageRateForDate(date)}/mile ({date ? date.slice(0, 4) : getLatestSupportedMileageYear()})
               </Text>
-              {getMileageRateYearForDate(date) !== (date ? Number(date.slice(0, 4)) : IRS_MILEAGE_RATE_YEAR) && (
+              {getMileageRateYearForDate(date) !== (date ? Number(date.slice(0, 4)) : getLatestSupportedMileageYear()) && (
                 <Text style={styles.deductionFormula}>
                   Using latest configured IRS rate ({getMileageRateYearForDate(date)}) for this entry.
                 </Text>
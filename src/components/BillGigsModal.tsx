@@ -0,0 +1,436 @@
+/**
+ * Bill gigs on one invoice
+ *
+ * Builds a draft invoice for the gigs' payer with one line item per gig (fee,
+ * per diem and reimbursable expenses). Each line stays linked to its gig, so
+ * paying the invoice marks the gigs paid.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { colors } from '../styles/theme';
+import { showAlert } from '../lib/dialog';
+import { getTodayDateString } from '../lib/date';
+import { getSharedUserId } from '../lib/sharedAuth';
+import { useInvoices } from '../hooks/useInvoices';
+import { useInvoiceSettings } from '../hooks/useInvoiceSettings';
+import { usePayers } from '../hooks/usePayers';
+import { calculateDueDate, formatCurrency } from '../types/invoice';
+import { checkAndIncrementLimit } from '../utils/limitChecks';
+import { getPaymentMethodsConfig, snapshotAcceptedPaymentMethods } from '../utils/paymentMethodsMigration';
+import { calculateInvoiceTotals } from '../utils/invoiceCalculations';
+import { formatPaymentTerms, getDefaultPaymentTerms } from '../utils/invoicePaymentTerms';
+import {
+  buildGigInvoiceLineItems,
+  buildGigLineItem,
+  getGigExpensesTotal,
+  getSharedGigPayer,
+  getSharedGigCurrency,
+  type BillableGig,
+} from '../utils/gigInvoice';
+
+interface BillGigsModalProps {
+  visible: boolean;
+  gigs: BillableGig[];
+  onClose: () => void;
+  onCreated?: (invoiceId: string) => void;
+}
+
+export function BillGigsModal({ visible, gigs, onClose, onCreated }: BillGigsModalProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includePerDiem, setIncludePerDiem] = useState(true);
+  const [includeExpenses, setIncludeExpenses] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { invoices, createInvoice } = useInvoices();
+  const { settings, getNextInvoiceNumber } = useInvoiceSettings();
+  const { data: payers = [] } = usePayers();
+
+  // Callers pass a freshly filtered array each render, so reset on the ids
+  const gigIdsKey = gigs.map(gig => gig.id).join(',');
+
+  useEffect(() => {
+    if (!visible) return;
+    setSelectedIds(gigIdsKey ? gigIdsKey.split(',') : []);
+    setIncludePerDiem(true);
+    setIncludeExpenses(true);
+  }, [visible, gigIdsKey]);
+
+  // Open invoices that already bill a gig, so it isn't billed twice
+  const invoiceNumberByGigId = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const invoice of invoices) {
+      if (invoice.status === 'cancelled') continue;
+      for (const item of invoice.line_items ?? []) {
+        if (item.gig_id) {
+          map.set(item.gig_id, invoice.invoice_number);
+        }
+      }
+    }
+    return map;
+  }, [invoices]);
+
+  const selectedGigs = gigs.filter(gig => selectedIds.includes(gig.id));
+  const sharedPayer = getSharedGigPayer(selectedGigs);
+  const payer = sharedPayer ? payers.find(p => p.id === sharedPayer.id) : undefined;
+  // Gig amounts are stored in USD, so bill in USD unless every gig was earned in one currency
+  const currency = getSharedGigCurrency(selectedGigs);
+  const lineItems = buildGigInvoiceLineItems(selectedGigs, { includePerDiem, includeExpenses, currency });
+  const totals = calculateInvoiceTotals(lineItems, settings?.default_tax_rate, 0);
+  const hasPerDiem = gigs.some(gig => (gig.per_diem ?? 0) > 0);
+  const hasExpenses = gigs.some(gig => getGigExpensesTotal(gig) > 0);
+
+  const toggleGig = (gigId: string) => {
+    setSelectedIds(prev => (prev.includes(gigId) ? prev.filter(id => id !== gigId) : [...prev, gigId]));
+  };
+
+  const handleCreate = async () => {
+    if (selectedGigs.length === 0) {
+      showAlert('Error', 'Select at least one gig to bill');
+      return;
+    }
+    if (!sharedPayer) {
+      showAlert(
+        'Error',
+        selectedGigs.some(gig => !gig.payer)
+          ? 'Every gig needs a payer before it can be billed'
+          : 'An invoice has one client. Select gigs for a single payer.'
+      );
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const userId = await getSharedUserId();
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const limitCheck = await checkAndIncrementLimit(userId, 'invoices');
+      if (!limitCheck.allowed) {
+        showAlert('Monthly Limit Reached', `${limitCheck.message}\n\nUpgrade to Pro for unlimited invoices!`);
+        return;
+      }
+
+      const today = getTodayDateString();
+      const terms = getDefaultPaymentTerms(settings);
+      const paymentTerms = formatPaymentTerms({ net_days: terms.net_days });
+      const invoiceNumber = await getNextInvoiceNumber();
+      const created = await createInvoice({
+        client_id: sharedPayer.id,
+        client_name: sharedPayer.name,
+        client_email: payer?.contact_email || '',
+        client_company: payer?.w2_employer_name || '',
+        invoice_date: today,
+        due_date: calculateDueDate(today, paymentTerms),
+        currency,
+        payment_terms: paymentTerms,
+        ...terms,
+        tax_rate: settings?.default_tax_rate,
+        discount_amount: 0,
+        accepted_payment_methods: snapshotAcceptedPaymentMethods(
+          settings ? getPaymentMethodsConfig(settings) : null,
+          invoiceNumber
+        ),
+        line_items: lineItems,
+      }, invoiceNumber);
+
+      showAlert('Invoice Created', `Draft invoice ${invoiceNumber} bills ${selectedGigs.length} gig${selectedGigs.length !== 1 ? 's' : ''}. Review and send it from Invoices.`);
+      if (created?.id) {
+        onCreated?.(created.id);
+      }
+      onClose();
+    } catch (error) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to create invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Bill Gigs</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
+            <View style={styles.summary}>
+              <Text style={styles.summaryClient}>{sharedPayer?.name ?? 'Select gigs for one payer'}</Text>
+              <Text style={styles.summaryAmount}>
+                {formatCurrency(totals.totalAmount, currency)} · {selectedGigs.length} gig{selectedGigs.length !== 1 ? 's' : ''}
+              </Text>
+              <Text style={styles.helperText}>
+                The invoice is saved as a draft with one line per gig. When it is paid, these gigs are marked paid.
+              </Text>
+            </View>
+
+            {hasPerDiem || hasExpenses ? (
+              <>
+                <Text style={styles.label}>Include</Text>
+                <View style={styles.optionContainer}>
+                  {hasPerDiem ? (
+                    <TouchableOpacity
+                      style={[styles.optionButton, includePerDiem && styles.optionButtonActive]}
+                      onPress={() => setIncludePerDiem(value => !value)}
+                    >
+                      <Text style={[styles.optionButtonText, includePerDiem && styles.optionButtonTextActive]}>
+                        Per Diem
+                      </Text>
+                    </TouchableOpacity>
+                  ) : null}
+                  {hasExpenses ? (
+                    <TouchableOpacity
+                      style={[styles.optionButton, includeExpenses && styles.optionButtonActive]}
+                      onPress={() => setIncludeExpenses(value => !value)}
+                    >
+                      <Text style={[styles.optionButtonText, includeExpenses && styles.optionButtonTextActive]}>
+                        Reimbursable Expenses
+                      </Text>
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+              </>
+            ) : null}
+
+            <Text style={styles.label}>Gigs</Text>
+            {gigs.map((gig) => {
+              const selected = selectedIds.includes(gig.id);
+              const line = buildGigLineItem(gig, { includePerDiem, includeExpenses, currency });
+              const invoicedOn = invoiceNumberByGigId.get(gig.id);
+
+              return (
+                <TouchableOpacity
+                  key={gig.id}
+                  style={[styles.gigRow, selected && styles.gigRowSelected]}
+                  onPress={() => toggleGig(gig.id)}
+                >
+                  <Text style={styles.checkbox}>{selected ? '☑' : '☐'}</Text>
+                  <View style={styles.gigMain}>
+                    <Text style={styles.gigDescription}>
+                      {line.description}
+                    </Text>
+                    {gig.payer?.id !== sharedPayer?.id && selected ? (
+                      <Text style={styles.warningText}>{gig.payer ? `Payer: ${gig.payer.name}` : 'No payer'}</Text>
+                    ) : null}
+                    {invoicedOn ? <Text style={styles.warningText}>Already on invoice {invoicedOn}</Text> : null}
+                    {gig.paid ? <Text style={styles.warningText}>Already marked paid</Text> : null}
+                  </View>
+                  <Text style={[styles.gigAmount, !selected && styles.gigAmountExcluded]}>
+                    {formatCurrency(line.rate, currency)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, (saving || !sharedPayer) && styles.saveButtonDisabled]}
+              onPress={handleCreate}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color={colors.brand.foreground} />
+              ) : (
+                <Text style={styles.saveButtonText}>Create Invoice</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 520,
+    maxHeight: '90%',
+    backgroundColor: colors.surface.DEFAULT,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: colors.text.muted,
+  },
+  form: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  summary: {
+    backgroundColor: colors.surface.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  summaryClient: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  summaryAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  helperText: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 6,
+    lineHeight: 17,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  optionContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.elevated,
+  },
+  optionButtonActive: {
+    borderColor: colors.brand.DEFAULT,
+    backgroundColor: colors.brand.DEFAULT,
+  },
+  optionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  optionButtonTextActive: {
+    color: colors.brand.foreground,
+  },
+  gigRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.elevated,
+  },
+  gigRowSelected: {
+    borderColor: colors.brand.DEFAULT,
+  },
+  checkbox: {
+    fontSize: 16,
+    color: colors.text.DEFAULT,
+  },
+  gigMain: {
+    flex: 1,
+  },
+  gigDescription: {
+    fontSize: 13,
+    color: colors.text.DEFAULT,
+    lineHeight: 18,
+  },
+  gigAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  gigAmountExcluded: {
+    color: colors.text.subtle,
+    textDecorationLine: 'line-through',
+  },
+  warningText: {
+    fontSize: 12,
+    color: colors.warning.DEFAULT,
+    marginTop: 4,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.muted,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: colors.brand.DEFAULT,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.brand.foreground,
+  },
+});
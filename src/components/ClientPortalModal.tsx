@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+  ActivityIndicator,
+  Platform,
+  Linking,
+} from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import {
+  useClientPortalLinks,
+  useCreateClientPortalLink,
+  useRevokeClientPortalLink,
+} from '../hooks/useClientPortalLinks';
+import { buildPortalUrl } from '../utils/shareToken';
+import { formatDateForDisplay } from '../lib/date';
+import { confirmDialog, showAlert } from '../lib/dialog';
+import { colors } from '../styles/theme';
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'Never' },
+];
+
+interface ClientPortalModalProps {
+  payer: { id: string; name: string };
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Create, copy and revoke the portal link that shows a payer all of their
+ * invoices and a statement of account.
+ */
+export function ClientPortalModal({ payer, visible, onClose }: ClientPortalModalProps) {
+  const { data: links = [], isLoading } = useClientPortalLinks();
+  const createLink = useCreateClientPortalLink();
+  const revokeLink = useRevokeClientPortalLink();
+
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [copyLabel, setCopyLabel] = useState('Copy link');
+
+  const link = links.find((l) => l.payer_id === payer.id) ?? null;
+  const portalUrl = link ? buildPortalUrl(link.token) : null;
+  const isExpired = !!link?.expires_at && new Date(link.expires_at) < new Date();
+
+  const handleCreate = async () => {
+    try {
+      const expiresAt = expiryDays === null
+        ? null
+        : new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString();
+      await createLink.mutateAsync({ payerId: payer.id, expiresAt });
+    } catch (error: unknown) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to create portal link');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!link) return;
+
+    const confirmed = await confirmDialog(
+      'Revoke Portal Link',
+      `${payer.name} will no longer be able to open this link. You can create a new one at any time.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await revokeLink.mutateAsync(link.id);
+    } catch (error: unknown) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to revoke portal link');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!portalUrl) return;
+    if (Platform.OS === 'web') {
+      await navigator.clipboard.writeText(portalUrl);
+    } else {
+      await Clipboard.setStringAsync(portalUrl);
+    }
+    setCopyLabel('Copied! ✓');
+    setTimeout(() => setCopyLabel('Copy link'), 2000);
+  };
+
+  const handleOpen = () => {
+    if (!portalUrl) return;
+    if (Platform.OS === 'web') {
+      window.open(portalUrl, '_blank');
+    } else {
+      void Linking.openURL(portalUrl);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={S.overlay} />
+      </TouchableWithoutFeedback>
+
+      <View style={S.sheet}>
+        <View style={S.sheetHeader}>
+          <Text style={S.sheetTitle}>Client Portal · {payer.name}</Text>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={S.closeBtn}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={S.description}>
+          One link where {payer.name} can see every invoice you have sent them, a statement of account and
+          download each invoice.
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator color={colors.brand.DEFAULT} />
+        ) : link && portalUrl ? (
+          <>
+            <Text style={S.sectionLabel}>PORTAL LINK</Text>
+            <View style={S.urlRow}>
+              <Text style={S.urlText} numberOfLines={1}>{portalUrl}</Text>
+            </View>
+            <Text style={[S.metaText, isExpired && S.expiredText]}>
+              {link.expires_at
+                ? `${isExpired ? 'Expired' : 'Expires'} ${formatDateForDisplay(new Date(link.expires_at))}`
+                : 'Does not expire'}
+              {link.access_count > 0 ? ` · Opened ${link.access_count} time${link.access_count === 1 ? '' : 's'}` : ''}
+            </Text>
+            <View style={S.actionRow}>
+              <TouchableOpacity style={S.actionBtn} onPress={handleCopy}>
+                <Text style={S.actionBtnText}>{copyLabel}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={S.actionBtn} onPress={handleOpen}>
+                <Text style={S.actionBtnText}>Preview</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[S.actionBtn, S.revokeBtn]}
+                onPress={handleRevoke}
+                disabled={revokeLink.isPending}
+              >
+                <Text style={[S.actionBtnText, S.revokeBtnText]}>Revoke</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <>
+            <Text style={S.sectionLabel}>LINK EXPIRES AFTER</Text>
+            <View style={S.optionRow}>
+              {EXPIRY_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[S.optionPill, expiryDays === option.days && S.optionPillActive]}
+                  onPress={() => setExpiryDays(option.days)}
+                >
+                  <Text style={[S.optionText, expiryDays === option.days && S.optionTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[S.primaryBtn, createLink.isPending && S.btnDisabled]}
+              onPress={handleCreate}
+              disabled={createLink.isPending}
+            >
+              {createLink.isPending ? (
+                <ActivityIndicator color={colors.brand.foreground} />
+              ) : (
+                <Text style={S.primaryBtnText}>Create Portal Link</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const S = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+  },
+  sheet: {
+    backgroundColor: colors.surface.DEFAULT,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: Platform.OS === 'ios' ? 36 : 24,
+    borderTopWidth: 1,
+    borderColor: colors.border.DEFAULT,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sheetTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  closeBtn: {
+    fontSize: 18,
+    color: colors.text.subtle,
+    paddingLeft: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: colors.text.muted,
+    lineHeight: 20,
+    marginBottom: 18,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  urlRow: {
+    backgroundColor: colors.surface.muted,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  urlText: {
+    fontSize: 13,
+    color: colors.text.muted,
+    paddingVertical: 10,
+  },
+  metaText: {
+    fontSize: 12,
+    color: colors.text.subtle,
+    marginBottom: 14,
+  },
+  expiredText: {
+    color: colors.danger.DEFAULT,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionBtn: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.muted,
+    alignItems: 'center',
+  },
+  actionBtnText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  revokeBtn: {
+    borderColor: colors.danger.DEFAULT,
+    backgroundColor: colors.danger.muted,
+  },
+  revokeBtnText: {
+    color: colors.danger.DEFAULT,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionPill: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    alignItems: 'center',
+  },
+  optionPillActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  optionText: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  optionTextActive: {
+    color: colors.brand.foreground,
+    fontWeight: '600',
+  },
+  primaryBtn: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: colors.brand.DEFAULT,
+    alignItems: 'center',
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.brand.foreground,
+  },
+  btnDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { CURRENCIES } from '../types/invoice';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { findExchangeRate, isHomeCurrency, toHomeAmount, HOME_CURRENCY } from '../utils/exchangeRates';
+import { sanitizeAmountInput } from '../utils/sanitizeAmountInput';
+import { formatCurrency } from '../utils/format';
+import { formatStoredDate } from '../lib/date';
+import { colors } from '../styles/theme';
+
+interface CurrencyRateFieldsProps {
+  currency: string;
+  onCurrencyChange: (currency: string) => void;
+  /** USD per unit of currency, as typed */
+  exchangeRate: string;
+  onExchangeRateChange: (rate: string) => void;
+  /** Transaction date used to look up the imported rate */
+  date: string;
+  /** Amount in the selected currency, for the USD preview */
+  amount?: number;
+  /** Invoices can be saved without a rate and converted once one is added */
+  rateRequired?: boolean;
+}
+
+/**
+ * Currency picker with an exchange rate field for non-USD amounts.
+ * The rate is filled from the imported rates table for the transaction date
+ * until the user types their own.
+ */
+export function CurrencyRateFields({
+  currency,
+  onCurrencyChange,
+  exchangeRate,
+  onExchangeRateChange,
+  date,
+  amount,
+  rateRequired = true,
+}: CurrencyRateFieldsProps) {
+  const { data: rates = [] } = useExchangeRates();
+  const lastAutoRateRef = useRef<string | null>(null);
+
+  const isForeign = !isHomeCurrency(currency);
+  const tableRate = isForeign && date ? findExchangeRate(rates, currency, date) : null;
+  const parsedRate = parseFloat(exchangeRate);
+
+  useEffect(() => {
+    if (tableRate === null) return;
+    const next = String(tableRate);
+    if (exchangeRate === '' || exchangeRate === lastAutoRateRef.current) {
+      lastAutoRateRef.current = next;
+      if (next !== exchangeRate) onExchangeRateChange(next);
+    }
+  }, [tableRate, exchangeRate, onExchangeRateChange]);
+
+  const handleCurrencyPress = (code: string) => {
+    if (code === currency) return;
+    lastAutoRateRef.current = null;
+    onCurrencyChange(code);
+    onExchangeRateChange(isHomeCurrency(code) ? '1' : '');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Currency</Text>
+      <View style={styles.chipRow}>
+        {CURRENCIES.map(option => (
+          <TouchableOpacity
+            key={option.code}
+            style={[styles.chip, currency === option.code && styles.chipActive]}
+            onPress={() => handleCurrencyPress(option.code)}
+          >
+            <Text style={[styles.chipText, currency === option.code && styles.chipTextActive]}>
+              {option.code}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isForeign && (
+        <View style={styles.rateGroup}>
+          <Text style={styles.label}>Exchange Rate ({HOME_CURRENCY} per {currency}){rateRequired && <Text style={styles.required}> *</Text>}</Text>
+          <TextInput
+            style={styles.input}
+            value={exchangeRate}
+            onChangeText={(text) => onExchangeRateChange(sanitizeAmountInput(text))}
+            placeholder="0.0000"
+            placeholderTextColor={colors.text.subtle}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.helperText}>
+            {tableRate !== null
+              ? `From your rates table for ${formatStoredDate(date)}.`
+              : 'No imported rate on or before this date. Enter the rate, or import rates under Account → Exchange Rates.'}
+          </Text>
+          {amount !== undefined && amount > 0 && parsedRate > 0 && (
+            <Text style={styles.previewText}>
+              ≈ {formatCurrency(toHomeAmount(amount, parsedRate), true)} {HOME_CURRENCY}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginBottom: 8,
+  },
+  required: {
+    color: colors.danger.DEFAULT,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.muted,
+  },
+  chipActive: {
+    borderColor: colors.brand.DEFAULT,
+    backgroundColor: colors.brand.muted,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.muted,
+  },
+  chipTextActive: {
+    color: colors.brand.DEFAULT,
+    fontWeight: '700',
+  },
+  rateGroup: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  helperText: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 4,
+  },
+  previewText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginTop: 6,
+  },
+});
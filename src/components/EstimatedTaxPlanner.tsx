@@ -0,0 +1,429 @@
+/**
+ * Estimated Tax Planner card
+ *
+ * Required 1040-ES installments under the prior-year / current-year safe
+ * harbors (annualized for uneven income), the shortfall and estimated
+ * underpayment penalty, and the ledger of federal and state payments made.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '../styles/theme';
+import { formatCurrency } from '../utils/format';
+import { useEstimatedTaxPlanner } from '../hooks/useEstimatedTaxPlanner';
+import { useTaxProfile } from '../hooks/useTaxProfile';
+import { getReturnDueDate } from '../tax/service';
+import type { Quarter } from '../tax/estimatedPayments';
+
+interface EstimatedTaxPlannerProps {
+  taxYear: number;
+}
+
+const QUARTERS: Quarter[] = [1, 2, 3, 4];
+
+function parseAmount(text: string): number | null {
+  const amount = parseFloat(text.replace(/[^0-9.]/g, ''));
+  return isNaN(amount) ? null : amount;
+}
+
+function formatDueDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export function EstimatedTaxPlanner({ taxYear }: EstimatedTaxPlannerProps) {
+  const {
+    plan,
+    priorYear,
+    payments,
+    isLoading,
+    savePriorYear,
+    addPayment,
+    deletePayment,
+  } = useEstimatedTaxPlanner(taxYear);
+  const { data: taxProfile } = useTaxProfile();
+
+  const [priorTaxText, setPriorTaxText] = useState('');
+  const [priorAGIText, setPriorAGIText] = useState('');
+  const [paymentQuarter, setPaymentQuarter] = useState<Quarter>(1);
+  const [paymentAmountText, setPaymentAmountText] = useState('');
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().slice(0, 10));
+  const [isStatePayment, setIsStatePayment] = useState(false);
+  const [stateCodeText, setStateCodeText] = useState('');
+  const [confirmationText, setConfirmationText] = useState('');
+
+  useEffect(() => {
+    setPriorTaxText(priorYear.priorYearTax != null ? String(priorYear.priorYearTax) : '');
+    setPriorAGIText(priorYear.priorYearAGI != null ? String(priorYear.priorYearAGI) : '');
+  }, [priorYear.priorYearTax, priorYear.priorYearAGI]);
+
+  const handleSavePriorYear = async () => {
+    try {
+      await savePriorYear.mutateAsync({
+        priorYearTax: parseAmount(priorTaxText),
+        priorYearAGI: parseAmount(priorAGIText),
+      });
+    } catch (error) {
+      console.error('Failed to save prior-year tax:', error);
+      Alert.alert('Error', 'Failed to save prior-year tax');
+    }
+  };
+
+  const handleAddPayment = async () => {
+    const amount = parseAmount(paymentAmountText);
+    if (!amount || amount <= 0) {
+      Alert.alert('Error', 'Please enter the amount you paid');
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(paymentDate)) {
+      Alert.alert('Error', 'Please enter the payment date as YYYY-MM-DD');
+      return;
+    }
+    const stateCode = (stateCodeText || taxProfile?.state || '').trim().toUpperCase();
+    if (isStatePayment && !/^[A-Z]{2}$/.test(stateCode)) {
+      Alert.alert('Error', 'Please enter the two-letter state code');
+      return;
+    }
+
+    try {
+      await addPayment.mutateAsync({
+        quarter: paymentQuarter,
+        amount,
+        paidOn: paymentDate,
+        jurisdiction: isStatePayment ? stateCode : 'federal',
+        confirmationNumber: confirmationText.trim() || null,
+      });
+      setPaymentAmountText('');
+      setConfirmationText('');
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+      Alert.alert('Error', 'Failed to record payment');
+    }
+  };
+
+  if (isLoading || !plan) {
+    return (
+      <View style={styles.card}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const safeHarborLabel = {
+    prior_year: `${Math.round(plan.priorYearPercent * 100)}% of last year's tax`,
+    current_year: '90% of this year\'s projected tax',
+    none: 'No estimated payments needed',
+  }[plan.safeHarbor];
+
+  return (
+    <View style={styles.card}>
+      {/* Prior-year safe harbor inputs */}
+      <Text style={styles.fieldLabel}>Last year's total tax (Form 1040 line 24)</Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          keyboardType="numeric"
+          placeholder="e.g. 12000"
+          value={priorTaxText}
+          onChangeText={setPriorTaxText}
+        />
+        <TextInput
+          style={styles.input}
+          keyboardType="numeric"
+          placeholder="Last year's AGI"
+          value={priorAGIText}
+          onChangeText={setPriorAGIText}
+        />
+        <TouchableOpacity style={styles.button} onPress={handleSavePriorYear} disabled={savePriorYear.isPending}>
+          <Text style={styles.buttonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Summary */}
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryLabel}>Required for {plan.taxYear}</Text>
+        <Text style={styles.summaryValue}>{formatCurrency(plan.requiredAnnualPayment)}</Text>
+      </View>
+      <Text style={styles.note}>
+        Safe harbor: {safeHarborLabel}. Projected federal tax this year {formatCurrency(plan.currentYearTax)}.
+      </Text>
+      {plan.usesAnnualizedMethod && (
+        <Text style={styles.note}>
+          Your income is back-loaded, so early installments use the annualized income method (Form 2210 Schedule AI).
+        </Text>
+      )}
+
+      {/* Installments */}
+      {plan.installments.map(installment => (
+        <View key={installment.quarter} style={[styles.quarterRow, styles.rowBorder]}>
+          <Text style={styles.quarterLabel}>Q{installment.quarter}</Text>
+          <View style={styles.quarterInfo}>
+            <Text style={styles.quarterLine}>
+              Due {formatDueDate(installment.dueDate)} · {formatCurrency(installment.requiredInstallment)} required · {formatCurrency(installment.paid)} paid
+            </Text>
+            {installment.shortfall > 0.5 && (
+              <Text style={installment.isPastDue ? styles.pastDue : styles.quarterLine}>
+                {installment.isPastDue ? 'Short ' : 'Still due '}{formatCurrency(installment.shortfall)}
+                {installment.penalty >= 1 ? ` · est. penalty ${formatCurrency(installment.penalty, true)}` : ''}
+              </Text>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <View style={[styles.summaryRow, styles.rowBorder]}>
+        <Text style={styles.summaryLabel}>Estimated underpayment penalty</Text>
+        <Text style={plan.totalPenalty >= 1 ? styles.penaltyValue : styles.summaryValue}>
+          {formatCurrency(plan.totalPenalty, true)}
+        </Text>
+      </View>
+      <Text style={styles.note}>
+        Assumes any shortfall is paid when you file on {formatDueDate(getReturnDueDate(plan.taxYear))}, {plan.taxYear + 1}. Paying sooner lowers it.
+      </Text>
+
+      {/* Record a payment */}
+      <Text style={[styles.fieldLabel, styles.sectionGap]}>Record a payment</Text>
+      <View style={styles.chipRow}>
+        <TouchableOpacity
+          style={[styles.chip, !isStatePayment && styles.chipActive]}
+          onPress={() => setIsStatePayment(false)}
+        >
+          <Text style={!isStatePayment ? styles.chipTextActive : styles.chipText}>Federal</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.chip, isStatePayment && styles.chipActive]}
+          onPress={() => setIsStatePayment(true)}
+        >
+          <Text style={isStatePayment ? styles.chipTextActive : styles.chipText}>State</Text>
+        </TouchableOpacity>
+        {isStatePayment && (
+          <TextInput
+            style={[styles.input, styles.stateInput]}
+            autoCapitalize="characters"
+            maxLength={2}
+            placeholder={taxProfile?.state ?? 'CA'}
+            value={stateCodeText}
+            onChangeText={setStateCodeText}
+          />
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {QUARTERS.map(quarter => (
+          <TouchableOpacity
+            key={quarter}
+            style={[styles.chip, paymentQuarter === quarter && styles.chipActive]}
+            onPress={() => setPaymentQuarter(quarter)}
+          >
+            <Text style={paymentQuarter === quarter ? styles.chipTextActive : styles.chipText}>Q{quarter}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          keyboardType="numeric"
+          placeholder="Amount"
+          value={paymentAmountText}
+          onChangeText={setPaymentAmountText}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD"
+          value={paymentDate}
+          onChangeText={setPaymentDate}
+        />
+      </View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="Confirmation number (optional)"
+          value={confirmationText}
+          onChangeText={setConfirmationText}
+        />
+        <TouchableOpacity style={styles.button} onPress={handleAddPayment} disabled={addPayment.isPending}>
+          <Text style={styles.buttonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {payments.map(payment => (
+        <View key={payment.id} style={[styles.paymentRow, styles.rowBorder]}>
+          <View style={styles.quarterInfo}>
+            <Text style={styles.quarterLine}>
+              Q{payment.quarter} · {payment.jurisdiction === 'federal' ? 'Federal' : payment.jurisdiction} · {payment.paid_on} · {formatCurrency(payment.amount, true)}
+            </Text>
+            {payment.confirmation_number && (
+              <Text style={styles.confirmation}>Confirmation {payment.confirmation_number}</Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => deletePayment.mutate(payment.id)}>
+            <Text style={styles.removeLink}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      {plan.overpayment > 0.5 && (
+        <Text style={styles.note}>
+          {formatCurrency(plan.overpayment)} paid to the IRS beyond the required installments.
+        </Text>
+      )}
+
+      <Text style={styles.disclaimer}>
+        The plan covers federal installments; state payments are tracked for your records and the tax export. Estimates only — verify with your tax professional.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface.elevated,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    marginHorizontal: 10,
+    marginBottom: 16,
+    padding: 14,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginBottom: 6,
+  },
+  sectionGap: {
+    marginTop: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  button: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.brand.foreground,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  penaltyValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.danger.DEFAULT,
+  },
+  note: {
+    fontSize: 12,
+    lineHeight: 17,
+    color: colors.text.muted,
+    marginBottom: 8,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.DEFAULT,
+  },
+  quarterRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+  },
+  quarterLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+    width: 28,
+  },
+  quarterInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  quarterLine: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  pastDue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.danger.DEFAULT,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+  },
+  chipActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.DEFAULT,
+  },
+  chipTextActive: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.brand.foreground,
+  },
+  stateInput: {
+    flex: 0,
+    width: 56,
+    paddingVertical: 4,
+  },
+  confirmation: {
+    fontSize: 12,
+    color: colors.text.subtle,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  removeLink: {
+    fontSize: 12,
+    color: colors.danger.DEFAULT,
+  },
+  disclaimer: {
+    fontSize: 11,
+    color: colors.text.subtle,
+    marginTop: 8,
+    lineHeight: 15,
+  },
+});
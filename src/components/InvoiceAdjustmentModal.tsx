@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, StyleSheet, ActivityIndicator, ScrollView } from 'react-native';
+import { useInvoices } from '../hooks/useInvoices';
+import { Invoice, PAYMENT_METHODS, formatCurrency } from '../types/invoice';
+import { getTodayDateString, parseStoredDate } from '../lib/date';
+import { showAlert } from '../lib/dialog';
+import { roundCurrencyAmount } from '../utils/invoiceCalculations';
+import { colors } from '../styles/theme';
+
+export type InvoiceAdjustmentMode = 'credit_note' | 'refund';
+
+interface InvoiceAdjustmentModalProps {
+  invoice: Invoice;
+  mode: InvoiceAdjustmentMode;
+  visible: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * Issue a credit note against an invoice, or refund money the client paid.
+ * Credits reduce what the client owes; refunds reduce the amount paid.
+ */
+export function InvoiceAdjustmentModal({ invoice, mode, visible, onClose, onSuccess }: InvoiceAdjustmentModalProps) {
+  const { issueCreditNote, recordRefund } = useInvoices();
+  const isRefund = mode === 'refund';
+
+  const totalPaid = roundCurrencyAmount(invoice.total_paid ?? 0);
+  const creditable = roundCurrencyAmount(
+    invoice.total_amount - Number(invoice.credited_amount ?? 0) - Number(invoice.written_off_amount ?? 0)
+  );
+  // Refund the credit owed first; otherwise default to the full amount paid
+  const creditOwed = Math.max(0, -(invoice.balance_due ?? 0));
+  const maxAmount = isRefund ? totalPaid : creditable;
+  const defaultAmount = isRefund ? (creditOwed > 0 ? Math.min(creditOwed, totalPaid) : totalPaid) : Math.max(0, invoice.balance_due ?? 0);
+
+  const [saving, setSaving] = useState(false);
+  const [date, setDate] = useState(getTodayDateString());
+  const [amount, setAmount] = useState(defaultAmount > 0 ? defaultAmount.toFixed(2) : '');
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const handleSave = async () => {
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      showAlert('Validation Error', 'Please enter an amount greater than 0');
+      return;
+    }
+
+    if (roundCurrencyAmount(parsedAmount) > maxAmount) {
+      showAlert(
+        'Validation Error',
+        isRefund
+          ? `A refund cannot exceed the amount paid (${formatCurrency(maxAmount, invoice.currency)})`
+          : `Credits cannot exceed ${formatCurrency(maxAmount, invoice.currency)}`
+      );
+      return;
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(parseStoredDate(date).getTime())) {
+      showAlert('Validation Error', 'Please enter a valid date in YYYY-MM-DD format');
+      return;
+    }
+
+    if (isRefund && !paymentMethod) {
+      showAlert('Validation Error', 'Please select how the refund was paid');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      if (isRefund) {
+        await recordRefund(invoice.id, {
+          payment_date: date,
+          amount: roundCurrencyAmount(parsedAmount),
+          payment_method: paymentMethod,
+          reference_number: referenceNumber || undefined,
+          notes: notes || undefined,
+        });
+      } else {
+        await issueCreditNote(invoice.id, {
+          issue_date: date,
+          amount: roundCurrencyAmount(parsedAmount),
+          reason: notes || undefined,
+        });
+      }
+
+      showAlert('Success', isRefund ? 'Refund recorded' : 'Credit note issued');
+      onSuccess?.();
+      onClose();
+    } catch (error: unknown) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isRefund ? 'Record Refund' : 'Issue Credit Note'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody}>
+            <View style={styles.invoiceInfo}>
+              <Text style={styles.invoiceInfoLabel}>Invoice: {invoice.invoice_number}</Text>
+              <Text style={styles.invoiceInfoLabel}>Client: {invoice.client_name}</Text>
+              <Text style={styles.invoiceInfoValue}>
+                {isRefund
+                  ? `Paid: ${formatCurrency(totalPaid, invoice.currency)}`
+                  : `Balance Due: ${formatCurrency(invoice.balance_due ?? invoice.total_amount, invoice.currency)}`}
+              </Text>
+              {isRefund && creditOwed > 0 ? (
+                <Text style={styles.invoiceInfoLabel}>
+                  Credit owed to client: {formatCurrency(creditOwed, invoice.currency)}
+                </Text>
+              ) : null}
+            </View>
+
+            <Text style={styles.label}>{isRefund ? 'Refund Date *' : 'Issue Date *'}</Text>
+            <TextInput style={styles.input} value={date} onChangeText={setDate} placeholder="YYYY-MM-DD" />
+
+            <Text style={styles.label}>Amount *</Text>
+            <TextInput
+              style={styles.input}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+
+            {isRefund ? (
+              <>
+                <Text style={styles.label}>Refunded Via *</Text>
+                <View style={styles.methodsGrid}>
+                  {PAYMENT_METHODS.map((method) => (
+                    <TouchableOpacity
+                      key={method}
+                      style={[styles.methodButton, paymentMethod === method && styles.methodButtonActive]}
+                      onPress={() => setPaymentMethod(method)}
+                    >
+                      <Text style={[styles.methodButtonText, paymentMethod === method && styles.methodButtonTextActive]}>
+                        {method}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.label}>Reference Number</Text>
+                <TextInput
+                  style={styles.input}
+                  value={referenceNumber}
+                  onChangeText={setReferenceNumber}
+                  placeholder="Check # or transaction ID"
+                />
+              </>
+            ) : null}
+
+            <Text style={styles.label}>{isRefund ? 'Notes' : 'Reason'}</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder={isRefund ? 'Additional notes...' : 'e.g. Set cut short, pricing adjustment'}
+              multiline
+              numberOfLines={3}
+            />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color={colors.brand.foreground} />
+              ) : (
+                <Text style={styles.saveButtonText}>{isRefund ? 'Record Refund' : 'Issue Credit'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: colors.surface.elevated,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  closeButton: {
+    fontSize: 28,
+    color: colors.text.subtle,
+    fontWeight: '300',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  invoiceInfo: {
+    backgroundColor: colors.surface.canvas,
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  invoiceInfoLabel: {
+    fontSize: 14,
+    color: colors.text.muted,
+    marginBottom: 4,
+  },
+  invoiceInfoValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.brand.DEFAULT,
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+    marginTop: 12,
+    color: colors.text.muted,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: colors.surface.elevated,
+    color: colors.text.DEFAULT,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  methodsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  methodButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.elevated,
+    minWidth: 80,
+  },
+  methodButtonActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  methodButtonText: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  methodButtonTextActive: {
+    color: colors.brand.foreground,
+    fontWeight: '600',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.muted,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.text.muted,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: colors.brand.DEFAULT,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: colors.brand.foreground,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,397 @@
+/**
+ * Accounts-receivable aging report
+ *
+ * Open balances by payer and days past due, with DSO and average days to pay.
+ * Tapping a cell, payer or bucket total lists the invoices behind it; the
+ * table exports as CSV or a printable PDF.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator, Platform } from 'react-native';
+import { colors } from '../styles/theme';
+import { showAlert } from '../lib/dialog';
+import { formatStoredDate } from '../lib/date';
+import { downloadCSV } from '../lib/exports/webDownloadHelpers';
+import { formatCurrency } from '../types/invoice';
+import { useInvoiceAging } from '../hooks/useInvoiceAging';
+import { agingReportToCsv, printAgingReport } from '../utils/agingReportExport';
+import {
+  AGING_BUCKETS,
+  getAgingInvoices,
+  type AgingBucketKey,
+  type AgingInvoiceLine,
+} from '../utils/invoiceAging';
+
+interface InvoiceAgingReportProps {
+  canExport: boolean;
+  onExportBlocked: () => void;
+  onSelectInvoice: (invoice: AgingInvoiceLine) => void;
+}
+
+interface DrillFilter {
+  payerKey: string | null;
+  bucket: AgingBucketKey | null;
+}
+
+function formatDays(days: number | null): string {
+  return days === null ? '—' : `${days} days`;
+}
+
+export function InvoiceAgingReport({ canExport, onExportBlocked, onSelectInvoice }: InvoiceAgingReportProps) {
+  const { report, settings, isLoading, error } = useInvoiceAging();
+  const [drill, setDrill] = useState<DrillFilter | null>(null);
+
+  const handleExportCsv = async () => {
+    if (!canExport) {
+      onExportBlocked();
+      return;
+    }
+    try {
+      await downloadCSV(agingReportToCsv(report), `ar-aging-${report.as_of}.csv`);
+    } catch (err) {
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to export aging report');
+    }
+  };
+
+  const handleExportPdf = () => {
+    if (Platform.OS !== 'web') {
+      showAlert('Web only', 'Printing the aging report is currently available on web.');
+      return;
+    }
+    if (!canExport) {
+      onExportBlocked();
+      return;
+    }
+    printAgingReport(report, settings?.business_name);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={colors.brand.DEFAULT} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{(error as Error).message || 'Failed to load aging report'}</Text>
+      </View>
+    );
+  }
+
+  const drillInvoices = drill ? getAgingInvoices(report, drill) : [];
+  const drillPayer = drill?.payerKey ? report.rows.find(row => row.payer_key === drill.payerKey) : undefined;
+  const drillBucket = drill?.bucket ? AGING_BUCKETS.find(bucket => bucket.key === drill.bucket) : undefined;
+  const drillTitle = [drillPayer?.client_name ?? 'All payers', drillBucket ? `${drillBucket.label} days` : 'All ages']
+    .join(' · ');
+
+  const isDrilled = (payerKey: string | null, bucket: AgingBucketKey | null) =>
+    drill?.payerKey === payerKey && drill?.bucket === bucket;
+
+  const renderCell = (amount: number, payerKey: string | null, bucket: AgingBucketKey | null, strong = false) => (
+    <TouchableOpacity
+      key={`${payerKey ?? 'all'}-${bucket ?? 'total'}`}
+      style={[styles.cell, styles.amountCell, isDrilled(payerKey, bucket) && styles.cellActive]}
+      onPress={() => setDrill({ payerKey, bucket })}
+      disabled={amount <= 0}
+    >
+      <Text style={[styles.amountText, strong && styles.strongText, amount <= 0 && styles.zeroText]}>
+        {amount > 0 ? formatCurrency(amount) : '—'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.metrics}>
+        <View style={styles.metric}>
+          <Text style={styles.metricLabel}>OPEN A/R</Text>
+          <Text style={styles.metricValue}>{formatCurrency(report.total)}</Text>
+        </View>
+        <View style={styles.metric}>
+          <Text style={styles.metricLabel}>DSO</Text>
+          <Text style={styles.metricValue}>{formatDays(report.dso)}</Text>
+        </View>
+        <View style={styles.metric}>
+          <Text style={styles.metricLabel}>AVG DAYS TO PAY</Text>
+          <Text style={styles.metricValue}>{formatDays(report.average_days_to_pay)}</Text>
+        </View>
+      </View>
+
+      <View style={styles.toolbar}>
+        <Text style={styles.asOf}>As of {formatStoredDate(report.as_of)}</Text>
+        <View style={styles.toolbarActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleExportCsv} disabled={report.rows.length === 0}>
+            <Text style={styles.actionButtonText}>Export CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleExportPdf} disabled={report.rows.length === 0}>
+            <Text style={styles.actionButtonText}>Print / PDF</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {report.missing_rate_invoices.length > 0 && (
+        <Text style={styles.asOf}>
+          Not included until they have an exchange rate: {report.missing_rate_invoices.join(', ')}
+        </Text>
+      )}
+
+      {report.rows.length === 0 ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyTitle}>Nothing outstanding</Text>
+          <Text style={styles.emptyText}>Every sent invoice is paid.</Text>
+        </View>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.table}>
+            <View style={[styles.row, styles.headerRow]}>
+              <Text style={[styles.cell, styles.payerCell, styles.headerText]}>Payer</Text>
+              {AGING_BUCKETS.map(bucket => (
+                <Text key={bucket.key} style={[styles.cell, styles.amountCell, styles.headerText, styles.amountText]}>
+                  {bucket.label}
+                </Text>
+              ))}
+              <Text style={[styles.cell, styles.amountCell, styles.headerText, styles.amountText]}>Total</Text>
+              <Text style={[styles.cell, styles.daysCell, styles.headerText, styles.amountText]}>DSO</Text>
+              <Text style={[styles.cell, styles.daysCell, styles.headerText, styles.amountText]}>Days to Pay</Text>
+            </View>
+
+            {report.rows.map(row => (
+              <View key={row.payer_key} style={styles.row}>
+                <TouchableOpacity
+                  style={[styles.cell, styles.payerCell, isDrilled(row.payer_key, null) && styles.cellActive]}
+                  onPress={() => setDrill({ payerKey: row.payer_key, bucket: null })}
+                >
+                  <Text style={styles.payerText} numberOfLines={1}>{row.client_name}</Text>
+                </TouchableOpacity>
+                {AGING_BUCKETS.map(bucket => renderCell(row.buckets[bucket.key], row.payer_key, bucket.key))}
+                {renderCell(row.total, row.payer_key, null, true)}
+                <Text style={[styles.cell, styles.daysCell, styles.amountText]}>{row.dso ?? '—'}</Text>
+                <Text style={[styles.cell, styles.daysCell, styles.amountText]}>{row.average_days_to_pay ?? '—'}</Text>
+              </View>
+            ))}
+
+            <View style={[styles.row, styles.totalRow]}>
+              <Text style={[styles.cell, styles.payerCell, styles.strongText]}>Total</Text>
+              {AGING_BUCKETS.map(bucket => renderCell(report.buckets[bucket.key], null, bucket.key, true))}
+              {renderCell(report.total, null, null, true)}
+              <Text style={[styles.cell, styles.daysCell, styles.amountText, styles.strongText]}>{report.dso ?? '—'}</Text>
+              <Text style={[styles.cell, styles.daysCell, styles.amountText, styles.strongText]}>
+                {report.average_days_to_pay ?? '—'}
+              </Text>
+            </View>
+          </View>
+        </ScrollView>
+      )}
+
+      {drill ? (
+        <View style={styles.drill}>
+          <View style={styles.drillHeader}>
+            <Text style={styles.drillTitle}>{drillTitle}</Text>
+            <TouchableOpacity onPress={() => setDrill(null)}>
+              <Text style={styles.drillClose}>Close</Text>
+            </TouchableOpacity>
+          </View>
+          {drillInvoices.map(line => (
+            <TouchableOpacity key={line.id} style={styles.invoiceRow} onPress={() => onSelectInvoice(line)}>
+              <View style={styles.invoiceMain}>
+                <Text style={styles.invoiceNumber}>{line.invoice_number} · {line.client_name}</Text>
+                <Text style={styles.invoiceMeta}>
+                  {line.days_past_due > 0
+                    ? `Due ${formatStoredDate(line.due_date)} · ${line.days_past_due} days past due`
+                    : `Due ${formatStoredDate(line.due_date)}`}
+                </Text>
+              </View>
+              <Text style={styles.invoiceBalance}>{formatCurrency(line.balance_due)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 12,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.danger.DEFAULT,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+  },
+  metrics: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  metric: {
+    flex: 1,
+    backgroundColor: colors.surface.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    padding: 12,
+  },
+  metricLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.text.subtle,
+    letterSpacing: 0.5,
+  },
+  metricValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+    marginTop: 4,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  asOf: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  toolbarActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    backgroundColor: colors.surface.elevated,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  headerRow: {
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  totalRow: {
+    borderBottomWidth: 0,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  cell: {
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+  },
+  cellActive: {
+    backgroundColor: colors.brand.muted,
+  },
+  payerCell: {
+    width: 160,
+  },
+  amountCell: {
+    width: 96,
+  },
+  daysCell: {
+    width: 72,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.text.muted,
+  },
+  payerText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  amountText: {
+    fontSize: 13,
+    color: colors.text.DEFAULT,
+    textAlign: 'right',
+  },
+  strongText: {
+    fontWeight: '700',
+  },
+  zeroText: {
+    color: colors.text.subtle,
+  },
+  drill: {
+    backgroundColor: colors.surface.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    padding: 12,
+  },
+  drillHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  drillTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  drillClose: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.brand.DEFAULT,
+  },
+  invoiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.muted,
+  },
+  invoiceMain: {
+    flex: 1,
+    marginRight: 8,
+  },
+  invoiceNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  invoiceMeta: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  invoiceBalance: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+});
@@ -1,6 +1,9 @@
 import React, { useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
 import { useInvoices } from '../hooks/useInvoices';
+import { useInvoiceAging } from '../hooks/useInvoiceAging';
+import { AGING_BUCKETS } from '../utils/invoiceAging';
+import { formatMissingRateNote, sumInvoiceHomeAmounts } from '../utils/exchangeRates';
 import { formatCurrency } from '../types/invoice';
 import { colors } from '../styles/theme';
 
@@ -10,15 +13,16 @@ interface InvoiceDashboardWidgetProps {
 
 export function InvoiceDashboardWidget({ onNavigateToInvoices }: InvoiceDashboardWidgetProps) {
   const { invoices, loading } = useInvoices();
+  const { report: aging } = useInvoiceAging();
 
   const metrics = useMemo(() => {
     const unpaidInvoices = invoices.filter(inv => 
-      inv.status !== 'paid' && inv.status !== 'cancelled' && inv.status !== 'draft'
+      inv.status !== 'paid' && inv.status !== 'cancelled' && inv.status !== 'draft' && inv.status !== 'written_off'
     );
-    const totalOutstanding = unpaidInvoices.reduce((sum, inv) => sum + (inv.balance_due || inv.total_amount), 0);
+    const outstanding = sumInvoiceHomeAmounts(unpaidInvoices, inv => inv.balance_due || inv.total_amount);
     
     const overdueInvoices = invoices.filter(inv => inv.status === 'overdue');
-    const overdueAmount = overdueInvoices.reduce((sum, inv) => sum + (inv.balance_due || inv.total_amount), 0);
+    const overdue = sumInvoiceHomeAmounts(overdueInvoices, inv => inv.balance_due || inv.total_amount);
 
     const thisMonth = new Date();
     thisMonth.setDate(1);
@@ -29,7 +33,7 @@ export function InvoiceDashboardWidget({ onNavigateToInvoices }: InvoiceDashboar
       inv.paid_at && 
       new Date(inv.paid_at) >= thisMonth
     );
-    const totalPaidThisMonth = paidThisMonth.reduce((sum, inv) => sum + inv.total_amount, 0);
+    const paid = sumInvoiceHomeAmounts(paidThisMonth, inv => inv.total_amount);
 
     const recentInvoices = invoices
       .filter(inv => inv.status !== 'cancelled')
@@ -37,9 +41,11 @@ export function InvoiceDashboardWidget({ onNavigateToInvoices }: InvoiceDashboar
       .slice(0, 3);
 
     return {
-      totalOutstanding,
-      overdueAmount,
-      totalPaidThisMonth,
+      totalOutstanding: outstanding.total,
+      overdueAmount: overdue.total,
+      totalPaidThisMonth: paid.total,
+      // Non-USD invoices without a rate are left out of the USD totals
+      missingRateNote: formatMissingRateNote(outstanding.missingRate + paid.missingRate),
       unpaidCount: unpaidInvoices.length,
       overdueCount: overdueInvoices.length,
       recentInvoices
@@ -109,6 +115,28 @@ export function InvoiceDashboardWidget({ onNavigateToInvoices }: InvoiceDashboar
         </View>
       </View>
 
+      {metrics.missingRateNote && (
+        <Text style={[styles.metricSubtext, styles.missingRateNote]}>{metrics.missingRateNote}</Text>
+      )}
+
+      {aging.total > 0 && (
+        <View style={styles.recentSection}>
+          <Text style={styles.sectionTitle}>
+            A/R Aging{aging.dso !== null ? ` · DSO ${aging.dso} days` : ''}
+          </Text>
+          <View style={styles.agingRow}>
+            {AGING_BUCKETS.map((bucket) => (
+              <View key={bucket.key} style={styles.agingCell}>
+                <Text style={styles.metricSubtext}>{bucket.label}</Text>
+                <Text style={[styles.agingAmount, bucket.key !== 'current' && aging.buckets[bucket.key] > 0 && styles.overdueValue]}>
+                  {formatCurrency(aging.buckets[bucket.key])}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
       {metrics.recentInvoices.length > 0 && (
         <View style={styles.recentSection}>
           <Text style={styles.sectionTitle}>Recent Invoices</Text>
@@ -148,7 +176,8 @@ function getStatusLabel(status: string): string {
     partially_paid: 'Partial',
     paid: 'Paid',
     overdue: 'Overdue',
-    cancelled: 'Cancelled'
+    cancelled: 'Cancelled',
+    written_off: 'Written Off'
   };
   return labels[status] || status;
 }
@@ -268,6 +297,10 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: colors.text.subtle,
   },
+  missingRateNote: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
   recentSection: {
     marginBottom: 12,
   },
@@ -277,6 +310,18 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginBottom: 8,
   },
+  agingRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  agingCell: {
+    flex: 1,
+  },
+  agingAmount: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
   invoiceRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
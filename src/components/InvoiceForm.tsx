@@ -4,6 +4,7 @@ import { colors } from '../styles/theme';
 import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, Alert, ActivityIndicator } from 'react-native';
 import { useInvoices } from '../hooks/useInvoices';
 import { useInvoiceSettings } from '../hooks/useInvoiceSettings';
+import { useInvoiceTemplates } from '../hooks/useInvoiceTemplates';
 import { usePayers } from '../hooks/usePayers';
 import { usePaymentMethodDetails } from '../hooks/usePaymentMethodDetails';
 import { InvoiceFormData, PAYMENT_TERM_PRESETS, calculateDueDate, PAYMENT_METHODS } from '../types/invoice';
@@ -14,6 +15,24 @@ import { getTodayDateString, parseStoredDate } from '../lib/date';
 import { supabase } from '../lib/supabase';
 import { getPaymentMethodsConfig, snapshotAcceptedPaymentMethods } from '../utils/paymentMethodsMigration';
 import { calculateInvoiceTotals, roundCurrencyAmount } from '../utils/invoiceCalculations';
+import { DEFAULT_REMINDER_SCHEDULE, formatReminderSchedule, parseReminderSchedule } from '../utils/invoiceReminders';
+import { isHomeCurrency } from '../utils/exchangeRates';
+import { LATE_FEE_TYPES, formatLateFee, formatPaymentTerms, getDefaultPaymentTerms } from '../utils/invoicePaymentTerms';
+import { INVOICE_LAYOUTS, normalizeInvoiceLayout } from '../utils/invoiceTemplates';
+import { CurrencyRateFields } from './CurrencyRateFields';
+
+type ReminderMode = 'default' | 'custom' | 'off';
+
+const REMINDER_MODES: { label: string; value: ReminderMode }[] = [
+  { label: 'Use Default', value: 'default' },
+  { label: 'Custom', value: 'custom' },
+  { label: 'Off', value: 'off' },
+];
+
+function getReminderMode(schedule?: number[] | null): ReminderMode {
+  if (schedule == null) return 'default';
+  return schedule.length === 0 ? 'off' : 'custom';
+}
 
 const T = {
   canvas: colors.surface.canvas,
@@ -43,6 +62,7 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
   const { createInvoice, updateInvoice, invoices } = useInvoices();
   const { settings, getNextInvoiceNumber } = useInvoiceSettings();
   const { data: payers = [] } = usePayers();
+  const { data: templates = [] } = useInvoiceTemplates();
   const userId = useUserId();
   
   // Fetch payment method details for current user
@@ -51,6 +71,9 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
   const [saving, setSaving] = useState(false);
   const [dueDateManuallyEdited, setDueDateManuallyEdited] = useState(false);
   const [showClientDropdown, setShowClientDropdown] = useState(false);
+  const [reminderMode, setReminderMode] = useState<ReminderMode>('default');
+  const [reminderScheduleText, setReminderScheduleText] = useState('');
+  const [exchangeRate, setExchangeRate] = useState('');
   const today = getTodayDateString();
   const [formData, setFormData] = useState<InvoiceFormData>({
     client_name: '',
@@ -82,18 +105,30 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
           invoice_date: invoice.invoice_date,
           due_date: invoice.due_date,
           currency: invoice.currency,
+          exchange_rate: invoice.exchange_rate,
           payment_terms: invoice.payment_terms,
+          late_fee_type: invoice.late_fee_type ?? 'none',
+          late_fee_amount: invoice.late_fee_amount ?? 0,
+          early_discount_percent: invoice.early_discount_percent ?? 0,
+          early_discount_days: invoice.early_discount_days ?? 0,
+          template_id: invoice.template_id ?? null,
           notes: invoice.notes,
           private_notes: invoice.private_notes,
           tax_rate: invoice.tax_rate,
           discount_amount: invoice.discount_amount,
           accepted_payment_methods: invoice.accepted_payment_methods,
+          reminder_schedule: invoice.reminder_schedule,
           line_items: invoice.line_items?.map(item => ({
             description: item.description,
             quantity: item.quantity,
-            rate: item.rate
+            rate: item.rate,
+            gig_id: item.gig_id,
+            kind: item.kind
           })) || [{ description: '', quantity: 1, rate: 0 }]
         });
+        setReminderMode(getReminderMode(invoice.reminder_schedule));
+        setReminderScheduleText(formatReminderSchedule(invoice.reminder_schedule));
+        setExchangeRate(invoice.exchange_rate ? String(invoice.exchange_rate) : '');
         setDueDateManuallyEdited(false);
       }
     } else if (duplicatingInvoice) {
@@ -130,13 +165,19 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
         currency: duplicatingInvoice.currency || settings?.default_currency || 'USD',
         // Terms and settings (safe to copy)
         payment_terms: duplicatingInvoice.payment_terms,
+        late_fee_type: duplicatingInvoice.late_fee_type ?? 'none',
+        late_fee_amount: duplicatingInvoice.late_fee_amount ?? 0,
+        early_discount_percent: duplicatingInvoice.early_discount_percent ?? 0,
+        early_discount_days: duplicatingInvoice.early_discount_days ?? 0,
+        template_id: duplicatingInvoice.template_id ?? null,
         notes: duplicatingInvoice.notes,
         private_notes: duplicatingInvoice.private_notes,
         tax_rate: duplicatingInvoice.tax_rate,
         discount_amount: duplicatingInvoice.discount_amount,
         accepted_payment_methods: duplicatingInvoice.accepted_payment_methods,
+        reminder_schedule: duplicatingInvoice.reminder_schedule,
         // Line items (safe to copy)
-        line_items: duplicatingInvoice.line_items?.map(item => ({
+        line_items: duplicatingInvoice.line_items?.filter(item => item.kind !== 'late_fee').map(item => ({
           description: item.description,
           quantity: item.quantity,
           rate: item.rate
@@ -145,6 +186,10 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
         // SAFETY: status NOT copied (will default to 'draft' during create)
         // SAFETY: sent/paid/payment metadata NOT copied (not in formData)
       });
+      setReminderMode(getReminderMode(duplicatingInvoice.reminder_schedule));
+      setReminderScheduleText(formatReminderSchedule(duplicatingInvoice.reminder_schedule));
+      // Today's rate is looked up again for the new invoice date
+      setExchangeRate(isHomeCurrency(duplicatingInvoice.currency) ? '1' : '');
       setDueDateManuallyEdited(false);
     }
   }, [invoiceId, duplicatingInvoice, invoices, settings?.default_currency]);
@@ -152,17 +197,32 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
   useEffect(() => {
     if (invoiceId || duplicatingInvoice || !settings) return;
 
-    setFormData((prev) => ({
-      ...prev,
-      currency: prev.currency || settings.default_currency || 'USD',
-      tax_rate: prev.tax_rate ?? settings.default_tax_rate,
-      payment_terms: prev.payment_terms || settings.default_payment_terms || 'Net 30',
-      due_date: prev.due_date || calculateDueDate(prev.invoice_date, settings.default_payment_terms || 'Net 30'),
-      accepted_payment_methods:
-        prev.accepted_payment_methods && prev.accepted_payment_methods.length > 0
-          ? prev.accepted_payment_methods
-          : snapshotAcceptedPaymentMethods(getPaymentMethodsConfig(settings)),
-    }));
+    setFormData((prev) => {
+      // Terms defaults are applied once, when settings first load
+      const defaultTerms = prev.late_fee_type === undefined ? getDefaultPaymentTerms(settings) : null;
+      const paymentTerms = defaultTerms ? formatPaymentTerms({ net_days: defaultTerms.net_days }) : prev.payment_terms;
+
+      return {
+        ...prev,
+        currency: prev.currency || settings.default_currency || 'USD',
+        tax_rate: prev.tax_rate ?? settings.default_tax_rate,
+        payment_terms: paymentTerms || 'Net 30',
+        due_date: defaultTerms
+          ? calculateDueDate(prev.invoice_date, paymentTerms)
+          : prev.due_date || calculateDueDate(prev.invoice_date, paymentTerms || 'Net 30'),
+        ...(defaultTerms ? {
+          late_fee_type: defaultTerms.late_fee_type,
+          late_fee_amount: defaultTerms.late_fee_amount,
+          early_discount_percent: defaultTerms.early_discount_percent,
+          early_discount_days: defaultTerms.early_discount_days,
+          template_id: prev.template_id ?? settings.default_template_id ?? null,
+        } : {}),
+        accepted_payment_methods:
+          prev.accepted_payment_methods && prev.accepted_payment_methods.length > 0
+            ? prev.accepted_payment_methods
+            : snapshotAcceptedPaymentMethods(getPaymentMethodsConfig(settings)),
+      };
+    });
   }, [settings, invoiceId, duplicatingInvoice]);
 
   const addLineItem = () => {
@@ -249,6 +309,27 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
     return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
   };
 
+  const getReminderSchedule = (): number[] | null => {
+    if (reminderMode === 'default') return null;
+    if (reminderMode === 'off') return [];
+    return parseReminderSchedule(reminderScheduleText);
+  };
+
+  const getExchangeRate = (): number | null => {
+    if (isHomeCurrency(formData.currency)) return 1;
+    const rate = parseFloat(exchangeRate);
+    return rate > 0 ? rate : null;
+  };
+
+  // Net days follow the due date, so a custom due date keeps the terms accurate
+  const getNetDays = (): number | null => {
+    if (!isValidDateString(formData.invoice_date) || !isValidDateString(formData.due_date)) return null;
+    const days = Math.round(
+      (parseStoredDate(formData.due_date).getTime() - parseStoredDate(formData.invoice_date).getTime()) / (1000 * 60 * 60 * 24)
+    );
+    return days >= 0 && days <= 365 ? days : null;
+  };
+
   const buildPreparedFormData = (invoiceNumber?: string): InvoiceFormData => {
     const config = settings ? getPaymentMethodsConfig(settings) : null;
 
@@ -267,10 +348,19 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
         invoiceNumber,
         formData.accepted_payment_methods
       ),
+      reminder_schedule: getReminderSchedule(),
+      exchange_rate: getExchangeRate(),
+      net_days: getNetDays(),
+      late_fee_type: formData.late_fee_type ?? 'none',
+      late_fee_amount: formData.late_fee_type && formData.late_fee_type !== 'none' ? Number(formData.late_fee_amount || 0) : 0,
+      early_discount_percent: Number(formData.early_discount_percent || 0),
+      early_discount_days: formData.early_discount_percent ? Number(formData.early_discount_days || 0) : 0,
       line_items: (formData.line_items || []).map((item) => ({
         description: item.description.trim(),
         quantity: Number(item.quantity),
         rate: roundCurrencyAmount(item.rate),
+        gig_id: item.gig_id,
+        kind: item.kind,
       })),
     };
   };
@@ -318,11 +408,27 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
       return;
     }
 
+    const discountPercent = Number(formData.early_discount_percent || 0);
+    if (discountPercent < 0 || discountPercent >= 100 || (discountPercent > 0 && (formData.early_discount_days || 0) < 0)) {
+      Alert.alert('Error', 'Early-payment discount must be under 100% with a number of days to pay');
+      return;
+    }
+
+    if (formData.late_fee_type && formData.late_fee_type !== 'none' && !(Number(formData.late_fee_amount) > 0)) {
+      Alert.alert('Error', 'Enter a late fee amount, or set the late fee to None');
+      return;
+    }
+
     if (calculateTotal() < 0) {
       Alert.alert('Error', 'Total cannot be negative. Reduce discount or adjust line items.');
       return;
     }
 
+    if (reminderMode === 'custom' && !getReminderSchedule()?.length) {
+      Alert.alert('Error', 'Reminder schedule must be a list of days from the due date, e.g. -3, 0, 7, 14');
+      return;
+    }
+
     try {
       setSaving(true);
       let createdInvoiceId: string | undefined;
@@ -495,6 +601,16 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
           placeholder="YYYY-MM-DD"
         />
 
+        <CurrencyRateFields
+          currency={formData.currency || 'USD'}
+          onCurrencyChange={(currency) => setFormData((prev) => ({ ...prev, currency }))}
+          exchangeRate={exchangeRate}
+          onExchangeRateChange={setExchangeRate}
+          date={formData.invoice_date}
+          amount={calculateTotal()}
+          rateRequired={false}
+        />
+
         <Text style={styles.label}>Payment Terms</Text>
         <View style={styles.paymentTermsContainer}>
           {PAYMENT_TERM_PRESETS.map((preset) => (
@@ -526,6 +642,100 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
           }}
           placeholder="YYYY-MM-DD"
         />
+
+        <Text style={styles.label}>Early-Payment Discount</Text>
+        <View style={styles.lineItemRow}>
+          <View style={styles.lineItemField}>
+            <TextInput
+              style={styles.input}
+              value={formData.early_discount_percent ? formData.early_discount_percent.toString() : ''}
+              onChangeText={(text) => setFormData({ ...formData, early_discount_percent: parseFloat(text) || 0 })}
+              keyboardType="decimal-pad"
+              placeholder="% off"
+            />
+          </View>
+          <View style={styles.lineItemField}>
+            <TextInput
+              style={styles.input}
+              value={formData.early_discount_days ? formData.early_discount_days.toString() : ''}
+              onChangeText={(text) => setFormData({ ...formData, early_discount_days: parseInt(text, 10) || 0 })}
+              keyboardType="number-pad"
+              placeholder="within days"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.label}>Late Fee</Text>
+        <View style={styles.paymentTermsContainer}>
+          {LATE_FEE_TYPES.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.termButton,
+                (formData.late_fee_type ?? 'none') === option.value && styles.termButtonActive
+              ]}
+              onPress={() => setFormData({ ...formData, late_fee_type: option.value })}
+            >
+              <Text style={[
+                styles.termButtonText,
+                (formData.late_fee_type ?? 'none') === option.value && styles.termButtonTextActive
+              ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {formData.late_fee_type && formData.late_fee_type !== 'none' ? (
+          <TextInput
+            style={styles.input}
+            value={formData.late_fee_amount ? formData.late_fee_amount.toString() : ''}
+            onChangeText={(text) => setFormData({ ...formData, late_fee_amount: parseFloat(text) || 0 })}
+            keyboardType="decimal-pad"
+            placeholder={formData.late_fee_type === 'percent' ? 'Percent per month' : 'Amount'}
+          />
+        ) : null}
+        <Text style={styles.helperText}>
+          {[
+            formatPaymentTerms({
+              net_days: getNetDays(),
+              early_discount_percent: formData.early_discount_percent,
+              early_discount_days: formData.early_discount_days,
+            }),
+            formatLateFee(formData, formData.currency || 'USD'),
+          ].filter(Boolean).join(' · ')}
+        </Text>
+
+        {templates.length > 0 ? (
+          <>
+            <Text style={styles.label}>Template</Text>
+            <View style={styles.paymentTermsContainer}>
+              {[{ id: null, name: 'Default' }, ...templates].map((template) => (
+                <TouchableOpacity
+                  key={template.id ?? 'default'}
+                  style={[
+                    styles.termButton,
+                    (formData.template_id ?? null) === template.id && styles.termButtonActive
+                  ]}
+                  onPress={() => setFormData({ ...formData, template_id: template.id })}
+                >
+                  <Text style={[
+                    styles.termButtonText,
+                    (formData.template_id ?? null) === template.id && styles.termButtonTextActive
+                  ]}>
+                    {template.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.helperText}>
+              {formData.template_id
+                ? INVOICE_LAYOUTS.find((layout) =>
+                  layout.value === normalizeInvoiceLayout(templates.find((t) => t.id === formData.template_id)?.layout)
+                )?.description
+                : `Uses ${settings?.default_template?.name ?? 'the look from Invoice Settings'}`}
+            </Text>
+          </>
+        ) : null}
       </View>
 
       <View style={styles.section}>
@@ -534,7 +744,7 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
         {(formData.line_items || []).map((item, index) => (
           <View key={index} style={styles.lineItemContainer}>
             <View style={styles.lineItemHeader}>
-              <Text style={styles.lineItemNumber}>Item {index + 1}</Text>
+              <Text style={styles.lineItemNumber}>{item.kind === 'late_fee' ? 'Late Fee' : `Item ${index + 1}`}</Text>
               {formData.line_items && formData.line_items.length > 1 && (
                 <TouchableOpacity onPress={() => removeLineItem(index)}>
                   <Text style={styles.removeButton}>Remove</Text>
@@ -685,6 +895,59 @@ export function InvoiceForm({ invoiceId, duplicatingInvoice, onSuccess, onSendNo
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Payment Reminders</Text>
+
+        <View style={styles.paymentTermsContainer}>
+          {REMINDER_MODES.map((mode) => (
+            <TouchableOpacity
+              key={mode.value}
+              style={[
+                styles.termButton,
+                reminderMode === mode.value && styles.termButtonActive
+              ]}
+              onPress={() => {
+                setReminderMode(mode.value);
+                if (mode.value === 'custom' && !reminderScheduleText) {
+                  setReminderScheduleText(
+                    formatReminderSchedule(settings?.reminder_schedule ?? DEFAULT_REMINDER_SCHEDULE)
+                  );
+                }
+              }}
+            >
+              <Text style={[
+                styles.termButtonText,
+                reminderMode === mode.value && styles.termButtonTextActive
+              ]}>
+                {mode.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {reminderMode === 'custom' && (
+          <>
+            <Text style={styles.label}>Days From Due Date</Text>
+            <TextInput
+              style={styles.input}
+              value={reminderScheduleText}
+              onChangeText={setReminderScheduleText}
+              placeholder="-3, 0, 7, 14"
+            />
+          </>
+        )}
+
+        <Text style={styles.helperText}>
+          {reminderMode === 'off'
+            ? 'No automatic reminders will be emailed for this invoice.'
+            : reminderMode === 'custom'
+              ? 'Negative numbers are days before the due date. Reminders stop once the invoice is paid in full.'
+              : settings?.reminders_enabled
+                ? `Uses your default schedule (${formatReminderSchedule(settings.reminder_schedule ?? DEFAULT_REMINDER_SCHEDULE)} days from the due date).`
+                : 'Default reminders are off. Turn them on in Invoice Settings.'}
+        </Text>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Additional Information</Text>
 
@@ -90,6 +90,7 @@ export function InvoiceList({ invoices, loading, onSelectInvoice, onCreateNew, o
       paid: 0,
       overdue: 0,
       cancelled: 0,
+      written_off: 0,
     };
 
     invoices.forEach((invoice) => {
@@ -113,6 +114,7 @@ export function InvoiceList({ invoices, loading, onSelectInvoice, onCreateNew, o
       case 'paid':
         return { backgroundColor: T.greenLight, borderColor: T.green };
       case 'cancelled':
+      case 'written_off':
       default:
         return { backgroundColor: colors.surface.muted, borderColor: T.border };
     }
@@ -122,6 +124,7 @@ export function InvoiceList({ invoices, loading, onSelectInvoice, onCreateNew, o
     switch (status) {
       case 'draft':
       case 'cancelled':
+      case 'written_off':
         return T.textMuted;
       case 'sent':
       case 'viewed':
@@ -256,6 +259,7 @@ export function InvoiceList({ invoices, loading, onSelectInvoice, onCreateNew, o
           { key: 'overdue', label: `Overdue (${statusCounts.overdue})` },
           { key: 'paid', label: `Paid (${statusCounts.paid})` },
           { key: 'cancelled', label: `Cancelled (${statusCounts.cancelled})` },
+          { key: 'written_off', label: `Written Off (${statusCounts.written_off})` },
         ] as const).map(({ key, label }) => (
           <TouchableOpacity
             key={key}
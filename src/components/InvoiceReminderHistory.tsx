@@ -0,0 +1,148 @@
+/**
+ * Invoice reminder history
+ *
+ * The reminder schedule that applies to an invoice, when the next automatic
+ * reminder goes out, and every reminder the scheduler has sent.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../styles/theme';
+import { Invoice, InvoiceSettings } from '../types/invoice';
+import { formatStoredDate, getTodayDateString } from '../lib/date';
+import {
+  formatReminderOffset,
+  formatReminderSchedule,
+  getNextReminderDate,
+  resolveReminderSchedule,
+} from '../utils/invoiceReminders';
+
+interface InvoiceReminderHistoryProps {
+  invoice: Invoice;
+  settings: InvoiceSettings | null;
+}
+
+function formatSentAt(sentAt: string): string {
+  return new Date(sentAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function InvoiceReminderHistory({ invoice, settings }: InvoiceReminderHistoryProps) {
+  const reminderInvoice = { ...invoice, balance_due: invoice.balance_due ?? invoice.total_amount };
+  const schedule = resolveReminderSchedule(reminderInvoice, settings);
+  const reminders = invoice.reminders ?? [];
+  const sentOffsets = reminders.filter(r => r.status === 'sent').map(r => r.offset_days);
+  const nextDate = schedule.length > 0
+    ? getNextReminderDate(reminderInvoice, schedule, sentOffsets, getTodayDateString())
+    : null;
+
+  if (schedule.length === 0 && reminders.length === 0) {
+    return null;
+  }
+
+  let statusText: string;
+  if (invoice.reminders_stopped_at) {
+    statusText = `Stopped ${formatSentAt(invoice.reminders_stopped_at)} — paid in full`;
+  } else if (schedule.length === 0) {
+    statusText = 'Automatic reminders are off for this invoice';
+  } else if (!invoice.client_email) {
+    statusText = 'Add a client email to send automatic reminders';
+  } else if (nextDate) {
+    statusText = `Next reminder ${formatStoredDate(nextDate)}`;
+  } else {
+    statusText = 'No more reminders scheduled';
+  }
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>PAYMENT REMINDERS</Text>
+      {schedule.length > 0 ? (
+        <Text style={styles.meta}>Schedule: {formatReminderSchedule(schedule)} days from due date</Text>
+      ) : null}
+      <Text style={styles.status}>{statusText}</Text>
+
+      {reminders.map(reminder => (
+        <View key={reminder.id} style={styles.row}>
+          <View style={styles.rowMain}>
+            <Text style={styles.rowTitle}>{formatReminderOffset(reminder.offset_days)}</Text>
+            <Text style={styles.rowMeta}>
+              {formatSentAt(reminder.sent_at)} · {reminder.recipient_email}
+            </Text>
+            {reminder.status === 'failed' && reminder.error ? (
+              <Text style={styles.rowError}>{reminder.error}</Text>
+            ) : null}
+          </View>
+          <Text style={reminder.status === 'failed' ? styles.badgeFailed : styles.badgeSent}>
+            {reminder.status === 'failed' ? 'Failed' : 'Sent'}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 14,
+  },
+  title: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+    color: colors.text.subtle,
+    marginBottom: 6,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  status: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: colors.border.muted,
+    marginTop: 10,
+    paddingTop: 10,
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  rowError: {
+    fontSize: 12,
+    color: colors.danger.DEFAULT,
+    marginTop: 2,
+  },
+  badgeSent: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.success.DEFAULT,
+  },
+  badgeFailed: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.danger.DEFAULT,
+  },
+});
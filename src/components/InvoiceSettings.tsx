@@ -1,11 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator, Linking } from 'react-native';
 import { useInvoiceSettings } from '../hooks/useInvoiceSettings';
-import { COLOR_SCHEMES, FONT_STYLES, LAYOUT_STYLES, CURRENCIES } from '../types/invoice';
+import { useCreateStripeConnectLink, useStripeConnectAccount } from '../hooks/useStripeConnect';
+import { CURRENCIES } from '../types/invoice';
 import { PaymentMethodsConfig } from '../types/paymentMethods';
 import { PaymentMethodsEditor } from './PaymentMethodsEditor';
+import { InvoiceTemplateManager } from './InvoiceTemplateManager';
 import { getPaymentMethodsConfig, snapshotAcceptedPaymentMethods, validatePaymentMethodsConfig } from '../utils/paymentMethodsMigration';
 import { showAlert } from '../lib/dialog';
+import { DEFAULT_REMINDER_SCHEDULE, formatReminderSchedule, parseReminderSchedule } from '../utils/invoiceReminders';
+import {
+  LATE_FEE_TYPES,
+  LateFeeType,
+  formatLateFee,
+  formatPaymentTerms,
+  getDefaultPaymentTerms,
+} from '../utils/invoicePaymentTerms';
+import { getTemplateFromSettings } from '../utils/invoiceTemplates';
 import { colors } from '../styles/theme';
 
 const T = {
@@ -23,6 +34,8 @@ interface InvoiceSettingsProps {
 
 export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
   const { settings, loading, createSettings, updateSettings } = useInvoiceSettings();
+  const { data: connectAccount } = useStripeConnectAccount();
+  const connectLink = useCreateStripeConnectLink();
   const [formData, setFormData] = useState({
     business_name: '',
     email: '',
@@ -38,6 +51,16 @@ export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
     font_style: 'modern',
     layout_style: 'classic',
   });
+  const [remindersEnabled, setRemindersEnabled] = useState(false);
+  const [onlinePaymentsEnabled, setOnlinePaymentsEnabled] = useState(false);
+  const [reminderScheduleText, setReminderScheduleText] = useState(formatReminderSchedule(DEFAULT_REMINDER_SCHEDULE));
+  const [termsForm, setTermsForm] = useState({
+    net_days: '30',
+    late_fee_type: 'none' as LateFeeType,
+    late_fee_amount: '',
+    early_discount_percent: '',
+    early_discount_days: '',
+  });
   const [paymentMethodsConfig, setPaymentMethodsConfig] = useState<PaymentMethodsConfig>({ enabled: false, methods: [] });
   const [saving, setSaving] = useState(false);
 
@@ -58,6 +81,18 @@ export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
         font_style: settings.font_style,
         layout_style: settings.layout_style,
       });
+      setRemindersEnabled(!!settings.reminders_enabled);
+      setOnlinePaymentsEnabled(!!settings.online_payments_enabled);
+      setReminderScheduleText(formatReminderSchedule(settings.reminder_schedule ?? DEFAULT_REMINDER_SCHEDULE));
+
+      const terms = getDefaultPaymentTerms(settings);
+      setTermsForm({
+        net_days: String(terms.net_days),
+        late_fee_type: terms.late_fee_type,
+        late_fee_amount: terms.late_fee_amount ? String(terms.late_fee_amount) : '',
+        early_discount_percent: terms.early_discount_percent ? String(terms.early_discount_percent) : '',
+        early_discount_days: terms.early_discount_percent ? String(terms.early_discount_days) : '',
+      });
 
       // Load payment methods config (migrating from old format if needed)
       const config = getPaymentMethodsConfig(settings);
@@ -65,6 +100,23 @@ export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
     }
   }, [settings]);
 
+  const handleConnectStripe = async () => {
+    try {
+      const { url } = await connectLink.mutateAsync();
+      await Linking.openURL(url);
+    } catch (error) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to open Stripe');
+    }
+  };
+
+  const handleSetDefaultTemplate = async (templateId: string | null) => {
+    if (!settings) {
+      showAlert('Save Settings First', 'Save your invoice settings, then choose a default template.');
+      return;
+    }
+    await updateSettings({ default_template_id: templateId });
+  };
+
   const handleSave = async () => {
     if (!formData.business_name || !formData.email) {
       showAlert('Error', 'Business name and email are required');
@@ -78,11 +130,50 @@ export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
       return;
     }
 
+    const reminderSchedule = parseReminderSchedule(reminderScheduleText);
+    if (remindersEnabled && !reminderSchedule?.length) {
+      showAlert('Error', 'Reminder schedule must be a list of days from the due date, e.g. -3, 0, 7, 14');
+      return;
+    }
+
+    const netDays = Number(termsForm.net_days);
+    const discountPercent = Number(termsForm.early_discount_percent || 0);
+    const discountDays = Number(termsForm.early_discount_days || 0);
+    const lateFeeAmount = Number(termsForm.late_fee_amount || 0);
+    if (!Number.isInteger(netDays) || netDays < 0 || netDays > 365) {
+      showAlert('Error', 'Net days must be a whole number of days between 0 and 365');
+      return;
+    }
+    if (!(discountPercent >= 0 && discountPercent < 100) || (discountPercent > 0 && !(Number.isInteger(discountDays) && discountDays >= 0 && discountDays < Math.max(netDays, 1)))) {
+      showAlert('Error', 'The early-payment discount needs a percentage under 100 and a number of days shorter than the net days');
+      return;
+    }
+    if (termsForm.late_fee_type !== 'none' && !(lateFeeAmount > 0)) {
+      showAlert('Error', 'Enter a late fee amount, or set the late fee to None');
+      return;
+    }
+
     try {
       setSaving(true);
+      const paymentTerms = {
+        net_days: netDays,
+        late_fee_type: termsForm.late_fee_type,
+        late_fee_amount: termsForm.late_fee_type === 'none' ? 0 : lateFeeAmount,
+        early_discount_percent: discountPercent,
+        early_discount_days: discountPercent > 0 ? discountDays : 0,
+      };
       const settingsData = {
         ...formData,
+        default_payment_terms: formatPaymentTerms(paymentTerms),
+        default_net_days: paymentTerms.net_days,
+        late_fee_type: paymentTerms.late_fee_type,
+        late_fee_amount: paymentTerms.late_fee_amount,
+        early_discount_percent: paymentTerms.early_discount_percent,
+        early_discount_days: paymentTerms.early_discount_days,
         default_tax_rate: formData.default_tax_rate ? parseFloat(formData.default_tax_rate) : undefined,
+        reminders_enabled: remindersEnabled,
+        online_payments_enabled: onlinePaymentsEnabled,
+        reminder_schedule: reminderSchedule?.length ? reminderSchedule : DEFAULT_REMINDER_SCHEDULE,
         accepted_payment_methods: snapshotAcceptedPaymentMethods(paymentMethodsConfig),
         payment_methods_config: paymentMethodsConfig, // New structured config
       };
@@ -190,14 +281,6 @@ export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
           {`Your invoices: ${formData.invoice_prefix || 'INV-'}${new Date().getFullYear()}-001, ${formData.invoice_prefix || 'INV-'}${new Date().getFullYear()}-002...`}
         </Text>
 
-        <Text style={styles.label}>Default Payment Terms</Text>
-        <TextInput
-          style={styles.input}
-          value={formData.default_payment_terms}
-          onChangeText={(text) => setFormData({ ...formData, default_payment_terms: text })}
-          placeholder="Net 30"
-        />
-
         <Text style={styles.label}>Default Tax Rate (%)</Text>
         <TextInput
           style={styles.input}
@@ -230,74 +313,193 @@ export function InvoiceSettings({ onSuccess }: InvoiceSettingsProps = {}) {
       </View>
 
       <View style={styles.section}>
-        <PaymentMethodsEditor
-          config={paymentMethodsConfig}
-          onChange={setPaymentMethodsConfig}
-          invoiceNumber={formData.invoice_prefix + '001'}
+        <Text style={styles.sectionTitle}>Payment Terms</Text>
+
+        <Text style={styles.label}>Net Days</Text>
+        <TextInput
+          style={styles.input}
+          value={termsForm.net_days}
+          onChangeText={(text) => setTermsForm({ ...termsForm, net_days: text })}
+          placeholder="30"
+          keyboardType="number-pad"
         />
-      </View>
+        <Text style={styles.helperText}>Days after the invoice date that payment is due; 0 is due on receipt.</Text>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Invoice Branding</Text>
+        <Text style={styles.label}>Early-Payment Discount</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.input, styles.inputRowItem]}
+            value={termsForm.early_discount_percent}
+            onChangeText={(text) => setTermsForm({ ...termsForm, early_discount_percent: text })}
+            placeholder="% off, e.g. 2"
+            keyboardType="decimal-pad"
+          />
+          <TextInput
+            style={[styles.input, styles.inputRowItem]}
+            value={termsForm.early_discount_days}
+            onChangeText={(text) => setTermsForm({ ...termsForm, early_discount_days: text })}
+            placeholder="if paid within days, e.g. 10"
+            keyboardType="number-pad"
+          />
+        </View>
 
-        <Text style={styles.label}>Color Scheme</Text>
-        <View style={styles.colorSchemeContainer}>
-          {COLOR_SCHEMES.map((scheme) => (
+        <Text style={styles.label}>Late Fee</Text>
+        <View style={styles.optionContainer}>
+          {LATE_FEE_TYPES.map((option) => (
             <TouchableOpacity
-              key={scheme.value}
+              key={option.value}
               style={[
-                styles.colorSchemeButton,
-                formData.color_scheme === scheme.value && styles.colorSchemeButtonActive
+                styles.optionButton,
+                termsForm.late_fee_type === option.value && styles.optionButtonActive
               ]}
-              onPress={() => setFormData({ ...formData, color_scheme: scheme.value })}
+              onPress={() => setTermsForm({ ...termsForm, late_fee_type: option.value })}
             >
-              <View style={[styles.colorPreview, { backgroundColor: scheme.primary }]} />
-              <Text style={styles.colorSchemeName}>{scheme.name}</Text>
+              <Text style={[
+                styles.optionButtonText,
+                termsForm.late_fee_type === option.value && styles.optionButtonTextActive
+              ]}>
+                {option.label}
+              </Text>
             </TouchableOpacity>
           ))}
         </View>
+        {termsForm.late_fee_type !== 'none' ? (
+          <TextInput
+            style={styles.input}
+            value={termsForm.late_fee_amount}
+            onChangeText={(text) => setTermsForm({ ...termsForm, late_fee_amount: text })}
+            placeholder={termsForm.late_fee_type === 'percent' ? 'Percent per month, e.g. 1.5' : 'Amount, e.g. 25'}
+            keyboardType="decimal-pad"
+          />
+        ) : null}
+
+        <Text style={styles.helperText}>
+          {[
+            `New invoices: ${formatPaymentTerms({
+              net_days: Number(termsForm.net_days),
+              early_discount_percent: Number(termsForm.early_discount_percent || 0),
+              early_discount_days: Number(termsForm.early_discount_days || 0),
+            })}`,
+            formatLateFee({
+              late_fee_type: termsForm.late_fee_type,
+              late_fee_amount: Number(termsForm.late_fee_amount || 0),
+            }, formData.default_currency),
+          ].filter(Boolean).join(' · ')}
+          {'\n'}Late fees are added to an overdue invoice as their own line item when you apply them.
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Payment Reminders</Text>
 
-        <Text style={styles.label}>Font Style</Text>
+        <Text style={styles.label}>Automatic Reminders</Text>
         <View style={styles.optionContainer}>
-          {FONT_STYLES.map((font) => (
+          {[{ label: 'On', value: true }, { label: 'Off', value: false }].map((option) => (
             <TouchableOpacity
-              key={font.value}
+              key={option.label}
               style={[
                 styles.optionButton,
-                formData.font_style === font.value && styles.optionButtonActive
+                remindersEnabled === option.value && styles.optionButtonActive
               ]}
-              onPress={() => setFormData({ ...formData, font_style: font.value })}
+              onPress={() => setRemindersEnabled(option.value)}
             >
               <Text style={[
                 styles.optionButtonText,
-                formData.font_style === font.value && styles.optionButtonTextActive
+                remindersEnabled === option.value && styles.optionButtonTextActive
               ]}>
-                {font.name}
+                {option.label}
               </Text>
             </TouchableOpacity>
           ))}
         </View>
 
-        <Text style={styles.label}>Layout Style</Text>
+        <Text style={styles.label}>Default Schedule (days from due date)</Text>
+        <TextInput
+          style={styles.input}
+          value={reminderScheduleText}
+          onChangeText={setReminderScheduleText}
+          placeholder="-3, 0, 7, 14"
+          editable={remindersEnabled}
+        />
+        <Text style={styles.helperText}>
+          Sent invoices with a client email are reminded on these days; -3 is three days before the due date.
+          Reminders stop once an invoice is paid in full. Individual invoices can override this schedule.
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <PaymentMethodsEditor
+          config={paymentMethodsConfig}
+          onChange={setPaymentMethodsConfig}
+          invoiceNumber={formData.invoice_prefix + '001'}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Online Payments</Text>
+
+        <Text style={styles.label}>Pay Now Button</Text>
         <View style={styles.optionContainer}>
-          {LAYOUT_STYLES.map((layout) => (
+          {[{ label: 'On', value: true }, { label: 'Off', value: false }].map((option) => (
             <TouchableOpacity
-              key={layout.value}
+              key={option.label}
               style={[
                 styles.optionButton,
-                formData.layout_style === layout.value && styles.optionButtonActive
+                onlinePaymentsEnabled === option.value && styles.optionButtonActive
               ]}
-              onPress={() => setFormData({ ...formData, layout_style: layout.value })}
+              onPress={() => setOnlinePaymentsEnabled(option.value)}
             >
               <Text style={[
                 styles.optionButtonText,
-                formData.layout_style === layout.value && styles.optionButtonTextActive
+                onlinePaymentsEnabled === option.value && styles.optionButtonTextActive
               ]}>
-                {layout.name}
+                {option.label}
               </Text>
             </TouchableOpacity>
           ))}
         </View>
+        <Text style={styles.helperText}>
+          Clients can pay the balance (or part of it) by card, or by ACH bank transfer for USD invoices, from the
+          invoice link. Payments are recorded on the invoice automatically.
+        </Text>
+
+        <Text style={styles.label}>Payout Account</Text>
+        <Text style={styles.helperText}>
+          {connectAccount?.charges_enabled
+            ? 'Connected. Online payments are paid out to your Stripe account.'
+            : connectAccount?.details_submitted
+              ? 'Stripe is reviewing your account. The Pay Now button appears once it can take payments.'
+              : 'Connect a Stripe account to receive online payments. The Pay Now button stays hidden until it is set up.'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.optionButton, styles.connectButton]}
+          onPress={handleConnectStripe}
+          disabled={connectLink.isPending}
+        >
+          {connectLink.isPending ? (
+            <ActivityIndicator size="small" />
+          ) : (
+            <Text style={styles.optionButtonText}>
+              {connectAccount?.charges_enabled
+                ? 'Open Stripe Dashboard'
+                : connectAccount
+                  ? 'Finish Stripe Setup'
+                  : 'Connect Stripe'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Invoice Templates</Text>
+        <Text style={styles.helperText}>
+          Saved layouts for your invoices. Each invoice can use its own template; new invoices start with the default.
+        </Text>
+        <InvoiceTemplateManager
+          defaultTemplateId={settings?.default_template_id}
+          baseConfig={getTemplateFromSettings(formData)}
+          onSetDefault={handleSetDefaultTemplate}
+        />
       </View>
 
       <TouchableOpacity
@@ -354,6 +556,13 @@ const styles = StyleSheet.create({
     backgroundColor: T.surface,
     color: T.textPrimary,
   },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputRowItem: {
+    flex: 1,
+  },
   textArea: {
     minHeight: 80,
     textAlignVertical: 'top',
@@ -423,34 +632,6 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
-  colorSchemeContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-    marginTop: 8,
-  },
-  colorSchemeButton: {
-    alignItems: 'center',
-    padding: 12,
-    borderRadius: 8,
-    borderWidth: 2,
-    borderColor: T.border,
-    backgroundColor: T.surface,
-  },
-  colorSchemeButtonActive: {
-    borderColor: '#2563eb',
-    backgroundColor: '#eff6ff',
-  },
-  colorPreview: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    marginBottom: 8,
-  },
-  colorSchemeName: {
-    fontSize: 13,
-    color: T.textMuted,
-  },
   optionContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -477,6 +658,9 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  connectButton: {
+    alignSelf: 'flex-start',
+  },
   saveButton: {
     backgroundColor: '#2563eb',
     padding: 16,
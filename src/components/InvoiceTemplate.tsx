@@ -1,28 +1,36 @@
 import React, { useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { View, Text, Image, StyleSheet, ScrollView, TouchableOpacity, Platform } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
 import { Invoice, InvoiceSettings, formatCurrency } from '../types/invoice';
-import { buildInvoiceViewModel } from '../utils/invoiceViewModel';
+import { InvoiceDocumentRow, InvoiceDocumentTheme, buildInvoiceDocument } from '../utils/invoiceDocument';
 import { PaymentMethodDetail } from '../hooks/usePaymentMethodDetails';
 import { confirmDialog } from '../lib/dialog';
-import { formatStoredDate } from '../lib/date';
-import { getEffectiveInvoiceStatus } from '../utils/invoiceCalculations';
 
 interface InvoiceTemplateProps {
   invoice: Invoice;
   settings: InvoiceSettings;
   paymentMethodDetails?: PaymentMethodDetail[];
   onDeletePayment?: (paymentId: string) => void;
+  onDeleteCreditNote?: (creditNoteId: string) => void;
 }
 
-export function InvoiceTemplate({ invoice, settings, paymentMethodDetails, onDeletePayment }: InvoiceTemplateProps) {
-  // Build view model with correct calculations
-  const viewModel = useMemo(
-    () => buildInvoiceViewModel(invoice, paymentMethodDetails, settings),
+export function InvoiceTemplate({
+  invoice,
+  settings,
+  paymentMethodDetails,
+  onDeletePayment,
+  onDeleteCreditNote,
+}: InvoiceTemplateProps) {
+  // Same document the HTML / PDF export renders
+  const doc = useMemo(
+    () => buildInvoiceDocument(invoice, settings, paymentMethodDetails),
     [invoice, paymentMethodDetails, settings]
   );
-  const invoiceStatus = getEffectiveInvoiceStatus(invoice);
+  const tone = useMemo(() => createToneStyles(doc.theme), [doc.theme]);
+  const { layout } = doc.theme;
+
   const handleDeletePayment = async (paymentId: string, paymentAmount: number) => {
-    
+
     if (!onDeletePayment) {
       console.error('onDeletePayment callback not provided');
       return;
@@ -37,171 +45,207 @@ export function InvoiceTemplate({ invoice, settings, paymentMethodDetails, onDel
       onDeletePayment(paymentId);
     }
   };
-  const getColorScheme = () => {
-    switch (settings.color_scheme) {
-      case 'blue':
-        return { primary: '#2563eb', secondary: '#dbeafe' };
-      case 'green':
-        return { primary: '#059669', secondary: '#d1fae5' };
-      case 'purple':
-        return { primary: '#7c3aed', secondary: '#ede9fe' };
-      case 'gray':
-        return { primary: '#4b5563', secondary: '#f3f4f6' };
-      default:
-        return { primary: '#2563eb', secondary: '#dbeafe' };
+  const handleDeleteCreditNote = async (creditNoteId: string, creditNumber: string) => {
+    if (!onDeleteCreditNote) {
+      return;
+    }
+
+    const confirmed = await confirmDialog(
+      'Delete Credit Note',
+      `Are you sure you want to delete credit note ${creditNumber}? The invoice balance will be restored.`
+    );
+
+    if (confirmed) {
+      onDeleteCreditNote(creditNoteId);
     }
   };
 
-  const colors = getColorScheme();
+  const renderTotalRow = (row: InvoiceDocumentRow) => {
+    if (row.emphasis === 'grand') {
+      return (
+        <React.Fragment key={row.label}>
+          <View style={[styles.divider, styles.totalsDivider, layout === 'minimal' ? tone.thinRule : tone.accentRule]} />
+          <View style={styles.totalRow}>
+            <Text style={[styles.grandTotalLabel, tone.accentText]}>{row.label}:</Text>
+            <Text style={[styles.grandTotalValue, tone.accentText]}>{row.value}</Text>
+          </View>
+        </React.Fragment>
+      );
+    }
+
+    return (
+      <View key={row.label} style={styles.totalRow}>
+        <Text style={[styles.totalLabel, row.emphasis === 'accent' ? tone.accentText : tone.bodyText]}>{row.label}:</Text>
+        <Text style={[styles.totalValue, row.emphasis === 'accent' ? tone.accentText : tone.strongText]}>{row.value}</Text>
+      </View>
+    );
+  };
 
   return (
-    <ScrollView style={styles.container}>
-      <View style={styles.invoice}>
-        <View style={styles.header}>
-          <View>
-            <Text style={[styles.businessName, { color: colors.primary }]}>
-              {settings.business_name}
-            </Text>
-            {settings.email && <Text style={styles.contactInfo}>{settings.email}</Text>}
-            {settings.phone && <Text style={styles.contactInfo}>{settings.phone}</Text>}
-            {settings.address && <Text style={styles.contactInfo}>{settings.address}</Text>}
-            {settings.website && <Text style={styles.contactInfo}>{settings.website}</Text>}
-            {settings.tax_id && <Text style={styles.contactInfo}>Tax ID: {settings.tax_id}</Text>}
+    <ScrollView style={[styles.container, tone.canvas]}>
+      <View style={[styles.invoice, tone.paper]}>
+        {layout === 'press_kit' ? (
+          <View style={[styles.banner, tone.banner]}>
+            {doc.header.logoUrl && (
+              <Image source={{ uri: doc.header.logoUrl }} style={[styles.logo, tone.paper]} resizeMode="contain" />
+            )}
+            <View style={styles.bannerText}>
+              <Text style={[styles.businessName, styles.bannerBusinessName, tone.onAccentText, tone.font]}>
+                {doc.header.businessName}
+              </Text>
+              {doc.header.contactLines.map((line) => (
+                <Text key={line} style={[styles.contactInfo, styles.bannerContactInfo, tone.onAccentText]}>{line}</Text>
+              ))}
+            </View>
+            <Text style={[styles.bannerTitle, tone.onAccentText, tone.font]}>{doc.title}</Text>
           </View>
-        </View>
+        ) : (
+          <>
+            <View style={styles.header}>
+              <Text style={[styles.businessName, layout === 'minimal' ? tone.strongText : tone.accentText, tone.font]}>
+                {doc.header.businessName}
+              </Text>
+              {doc.header.contactLines.map((line) => (
+                <Text key={line} style={[styles.contactInfo, tone.mutedText]}>{line}</Text>
+              ))}
+            </View>
 
-        <View style={[styles.divider, { backgroundColor: colors.primary }]} />
+            {layout === 'classic' && <View style={[styles.divider, tone.accentRule]} />}
 
-        <Text style={[styles.invoiceTitle, { color: colors.primary }]}>INVOICE</Text>
+            <Text
+              style={[
+                styles.invoiceTitle,
+                layout === 'minimal' ? [styles.minimalTitle, tone.mutedText] : tone.accentText,
+                tone.font,
+              ]}
+            >
+              {doc.title}
+            </Text>
+          </>
+        )}
 
         <View style={styles.invoiceInfo}>
-          <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Invoice #:</Text>
-            <Text style={styles.infoValue}>{invoice.invoice_number}</Text>
-          </View>
-          <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Date:</Text>
-            <Text style={styles.infoValue}>{formatStoredDate(invoice.invoice_date)}</Text>
+          <View style={styles.billTo}>
+            <Text style={[styles.billToLabel, tone.mutedText]}>Bill To:</Text>
+            <Text style={[styles.clientName, tone.strongText]}>{doc.billTo.name}</Text>
+            {doc.billTo.lines.map((line) => (
+              <Text key={line} style={[styles.clientInfo, tone.bodyText]}>{line}</Text>
+            ))}
           </View>
-          <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Due Date:</Text>
-            <Text style={styles.infoValue}>{formatStoredDate(invoice.due_date)}</Text>
+          <View style={styles.meta}>
+            {doc.meta.map((row) => (
+              <View key={row.label} style={styles.infoRow}>
+                <Text style={[styles.infoLabel, tone.mutedText]}>{row.label}:</Text>
+                <Text style={[styles.infoValue, tone.strongText]}>{row.value}</Text>
+              </View>
+            ))}
           </View>
         </View>
 
-        <View style={styles.billTo}>
-          <Text style={styles.billToLabel}>Bill To:</Text>
-          <Text style={styles.clientName}>{invoice.client_name}</Text>
-          {invoice.client_company && <Text style={styles.clientInfo}>{invoice.client_company}</Text>}
-          {invoice.client_address && <Text style={styles.clientInfo}>{invoice.client_address}</Text>}
-          {invoice.client_email && <Text style={styles.clientInfo}>{invoice.client_email}</Text>}
-        </View>
-
         <View style={styles.lineItemsContainer}>
-          <View style={[styles.lineItemsHeader, { backgroundColor: colors.secondary }]}>
-            <Text style={[styles.lineItemHeaderText, styles.descriptionColumn]}>Description</Text>
-            <Text style={[styles.lineItemHeaderText, styles.qtyColumn]}>Qty</Text>
-            <Text style={[styles.lineItemHeaderText, styles.rateColumn]}>Rate</Text>
-            <Text style={[styles.lineItemHeaderText, styles.amountColumn]}>Amount</Text>
+          <View style={[styles.lineItemsHeader, layout === 'minimal' ? tone.minimalHeader : tone.tableHeader]}>
+            <Text style={[styles.lineItemHeaderText, tone.strongText, styles.descriptionColumn]}>Description</Text>
+            <Text style={[styles.lineItemHeaderText, tone.strongText, styles.qtyColumn]}>Qty</Text>
+            <Text style={[styles.lineItemHeaderText, tone.strongText, styles.rateColumn]}>Rate</Text>
+            <Text style={[styles.lineItemHeaderText, tone.strongText, styles.amountColumn]}>Amount</Text>
           </View>
 
-          {viewModel.lineItems.map((item, index) => (
-            <View key={item.id} style={[styles.lineItemRow, index % 2 === 1 && styles.lineItemRowAlt]}>
-              <Text style={[styles.lineItemText, styles.descriptionColumn]}>{item.description}</Text>
-              <Text style={[styles.lineItemText, styles.qtyColumn]}>{item.quantity}</Text>
-              <Text style={[styles.lineItemText, styles.rateColumn]}>{formatCurrency(item.rate, invoice.currency)}</Text>
-              <Text style={[styles.lineItemText, styles.amountColumn]}>{formatCurrency(item.amount, invoice.currency)}</Text>
+          {doc.lineItems.map((item, index) => (
+            <View
+              key={item.id}
+              style={[styles.lineItemRow, tone.rowRule, layout !== 'minimal' && index % 2 === 1 && tone.stripe]}
+            >
+              <View style={styles.descriptionColumn}>
+                <Text style={[styles.lineItemText, tone.bodyText]}>{item.description}</Text>
+                {item.detail && <Text style={[styles.lineItemDetail, tone.mutedText]}>{item.detail}</Text>}
+              </View>
+              <Text style={[styles.lineItemText, tone.bodyText, styles.qtyColumn]}>{item.quantity}</Text>
+              <Text style={[styles.lineItemText, tone.bodyText, styles.rateColumn]}>{item.rate}</Text>
+              <Text style={[styles.lineItemText, tone.bodyText, styles.amountColumn]}>{item.amount}</Text>
             </View>
           ))}
         </View>
 
         <View style={styles.totalsContainer}>
-          <View style={styles.totalRow}>
-            <Text style={styles.totalLabel}>Subtotal:</Text>
-            <Text style={styles.totalValue}>{formatCurrency(viewModel.subtotal, invoice.currency)}</Text>
-          </View>
-
-          {viewModel.taxAmount > 0 && (
-            <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Tax ({invoice.tax_rate}%):</Text>
-              <Text style={styles.totalValue}>{formatCurrency(viewModel.taxAmount, invoice.currency)}</Text>
-            </View>
-          )}
-
-          {viewModel.discountAmount > 0 && (
-            <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Discount:</Text>
-              <Text style={styles.totalValue}>-{formatCurrency(viewModel.discountAmount, invoice.currency)}</Text>
-            </View>
-          )}
-
-          <View style={[styles.divider, { backgroundColor: colors.primary, marginVertical: 8 }]} />
-
-          <View style={styles.totalRow}>
-            <Text style={[styles.grandTotalLabel, { color: colors.primary }]}>TOTAL DUE:</Text>
-            <Text style={[styles.grandTotalValue, { color: colors.primary }]}>
-              {formatCurrency(viewModel.totalDue, invoice.currency)}
-            </Text>
-          </View>
+          {doc.totals.map(renderTotalRow)}
         </View>
 
-        {invoiceStatus === 'paid' && (
-          <View style={styles.paidStamp}>
-            <Text style={styles.paidStampText}>PAID</Text>
+        {doc.paid && (
+          <View style={[styles.paidStamp, tone.paidBorder]}>
+            <Text style={[styles.paidStampText, tone.paidText]}>PAID</Text>
           </View>
         )}
 
-        <View style={[styles.divider, { backgroundColor: '#e5e7eb', marginVertical: 16 }]} />
-
-        {invoice.payment_terms && (
-          <View style={styles.termsSection}>
-            <Text style={styles.termsSectionLabel}>Payment Terms:</Text>
-            <Text style={styles.termsSectionText}>{invoice.payment_terms}</Text>
+        {doc.paymentQr && (
+          <View style={styles.paymentQr}>
+            <QRCode
+              value={doc.paymentQr.url}
+              size={112}
+              color={doc.theme.palette.text}
+              backgroundColor={doc.theme.palette.paper}
+            />
+            <Text style={[styles.paymentQrCaption, tone.mutedText]}>{doc.paymentQr.caption}</Text>
           </View>
         )}
 
-        {viewModel.paymentMethodDisplays.length > 0 && (
-          <View style={styles.termsSection}>
-            <Text style={styles.termsSectionLabel}>Payment Methods Accepted:</Text>
-            {viewModel.paymentMethodDisplays.map((pm, index) => (
-              <Text key={index} style={styles.termsSectionText}>
-                {pm.label}: {pm.details}
+        {doc.sections.length > 0 && <View style={[styles.divider, styles.sectionsDivider, tone.borderRule]} />}
+
+        {doc.sections.map((section) => (
+          <View key={section.title} style={styles.termsSection}>
+            <Text style={[styles.termsSectionLabel, tone.strongText]}>{section.title}:</Text>
+            {section.lines.map((line, index) => (
+              <Text key={index} style={[styles.termsSectionText, tone.bodyText]}>
+                {line.label ? `${line.label}: ${line.text}` : line.text}
               </Text>
             ))}
           </View>
-        )}
+        ))}
 
-        {invoice.notes && (
-          <View style={styles.termsSection}>
-            <Text style={styles.termsSectionLabel}>Notes:</Text>
-            <Text style={styles.termsSectionText}>{invoice.notes}</Text>
-          </View>
-        )}
-
-        {invoice.payments && invoice.payments.length > 0 && (
-          <View style={styles.paymentsSection}>
-            <Text style={styles.paymentsSectionTitle}>Payment History</Text>
-            {invoice.payments.map((payment) => (
-              <View key={payment.id} style={styles.paymentRow}>
+        {doc.payments.length > 0 && (
+          <View style={[styles.paymentsSection, tone.sectionRule]}>
+            <Text style={[styles.paymentsSectionTitle, tone.strongText]}>Payment History</Text>
+            {doc.payments.map((payment) => (
+              <View key={payment.id} style={[styles.paymentRow, tone.stripe]}>
                 <View style={styles.paymentInfo}>
-                  <Text style={styles.paymentDate}>
-                    {formatStoredDate(payment.payment_date)}
-                  </Text>
-                  <Text style={styles.paymentMethod}>{payment.payment_method}</Text>
-                  {payment.reference_number && (
-                    <Text style={styles.paymentReference}>Ref: {payment.reference_number}</Text>
+                  <Text style={[styles.paymentDate, tone.strongText]}>{payment.date}</Text>
+                  <Text style={[styles.paymentMethod, tone.mutedText]}>{payment.method}</Text>
+                  {payment.reference && (
+                    <Text style={[styles.paymentReference, tone.subtleText]}>Ref: {payment.reference}</Text>
                   )}
                 </View>
                 <View style={styles.paymentRight}>
-                  <Text style={styles.paymentAmount}>
-                    {formatCurrency(payment.amount, invoice.currency)}
-                  </Text>
+                  <Text style={[styles.paymentAmount, tone.paidText]}>{payment.formattedAmount}</Text>
                   {onDeletePayment && (
                     <TouchableOpacity
                       onPress={() => void handleDeletePayment(payment.id, payment.amount)}
-                      style={styles.deletePaymentButton}
+                      style={[styles.deletePaymentButton, tone.dangerButton]}
+                    >
+                      <Text style={[styles.deletePaymentText, tone.dangerText]}>✕ Undo</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {doc.creditNotes.length > 0 && (
+          <View style={[styles.paymentsSection, tone.sectionRule]}>
+            <Text style={[styles.paymentsSectionTitle, tone.strongText]}>Credit Notes</Text>
+            {doc.creditNotes.map((note) => (
+              <View key={note.id} style={[styles.paymentRow, tone.stripe]}>
+                <View style={styles.paymentInfo}>
+                  <Text style={[styles.paymentDate, tone.strongText]}>{note.title}</Text>
+                  {note.reason && <Text style={[styles.paymentMethod, tone.mutedText]}>{note.reason}</Text>}
+                </View>
+                <View style={styles.paymentRight}>
+                  <Text style={[styles.paymentAmount, tone.paidText]}>{note.formattedAmount}</Text>
+                  {onDeleteCreditNote && (
+                    <TouchableOpacity
+                      onPress={() => void handleDeleteCreditNote(note.id, note.creditNumber)}
+                      style={[styles.deletePaymentButton, tone.dangerButton]}
                     >
-                      <Text style={styles.deletePaymentText}>✕ Undo</Text>
+                      <Text style={[styles.deletePaymentText, tone.dangerText]}>✕ Undo</Text>
                     </TouchableOpacity>
                   )}
                 </View>
@@ -211,29 +255,87 @@ export function InvoiceTemplate({ invoice, settings, paymentMethodDetails, onDel
         )}
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Thank you for your business!</Text>
+          <Text style={[styles.footerText, tone.mutedText]}>{doc.footer}</Text>
         </View>
       </View>
     </ScrollView>
   );
 }
 
+// Colors and type from the invoice template
+function createToneStyles(theme: InvoiceDocumentTheme) {
+  const { palette } = theme;
+
+  return StyleSheet.create({
+    canvas: { backgroundColor: palette.canvas },
+    paper: { backgroundColor: palette.paper, borderColor: palette.border },
+    // CSS font stacks only apply on web; native keeps the system font
+    font: Platform.OS === 'web' ? { fontFamily: theme.fontFamily } : {},
+    banner: { backgroundColor: theme.primary },
+    accentText: { color: theme.primary },
+    onAccentText: { color: palette.onAccent },
+    strongText: { color: palette.text },
+    bodyText: { color: palette.body },
+    mutedText: { color: palette.muted },
+    subtleText: { color: palette.subtle },
+    accentRule: { backgroundColor: theme.primary },
+    thinRule: { backgroundColor: palette.text, height: 1 },
+    borderRule: { backgroundColor: palette.border },
+    tableHeader: { backgroundColor: theme.secondary },
+    minimalHeader: { borderBottomWidth: 1, borderBottomColor: palette.text, borderRadius: 0 },
+    rowRule: { borderBottomColor: palette.rule },
+    stripe: { backgroundColor: palette.stripe },
+    sectionRule: { borderTopColor: palette.border },
+    paidBorder: { borderColor: palette.paid },
+    paidText: { color: palette.paid },
+    dangerButton: { backgroundColor: palette.dangerMuted },
+    dangerText: { color: palette.danger },
+  });
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#f9fafb',
   },
   invoice: {
-    backgroundColor: '#fff',
     margin: 16,
     padding: 24,
     borderRadius: 8,
     borderWidth: 1,
-    borderColor: '#e5e7eb',
   },
   header: {
     marginBottom: 16,
   },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    padding: 20,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  logo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  bannerText: {
+    flex: 1,
+  },
+  bannerBusinessName: {
+    fontSize: 26,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  bannerContactInfo: {
+    opacity: 0.85,
+  },
+  bannerTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 3,
+  },
   businessName: {
     fontSize: 24,
     fontWeight: '700',
@@ -241,55 +343,71 @@ const styles = StyleSheet.create({
   },
   contactInfo: {
     fontSize: 13,
-    color: '#6b7280',
     marginBottom: 2,
   },
   divider: {
     height: 2,
     marginVertical: 16,
   },
+  totalsDivider: {
+    alignSelf: 'stretch',
+    marginVertical: 8,
+  },
+  sectionsDivider: {
+    height: 1,
+  },
   invoiceTitle: {
     fontSize: 28,
     fontWeight: '700',
     textAlign: 'center',
     marginBottom: 16,
   },
+  minimalTitle: {
+    fontSize: 14,
+    letterSpacing: 4,
+    textAlign: 'left',
+    marginTop: 8,
+  },
   invoiceInfo: {
-    marginBottom: 20,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    gap: 16,
+    marginBottom: 24,
+  },
+  billTo: {
+    flexGrow: 1,
+    minWidth: 180,
+  },
+  meta: {
+    minWidth: 180,
   },
   infoRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
+    gap: 16,
     marginBottom: 6,
   },
   infoLabel: {
     fontSize: 14,
-    color: '#6b7280',
     fontWeight: '500',
   },
   infoValue: {
     fontSize: 14,
-    color: '#111827',
     fontWeight: '600',
   },
-  billTo: {
-    marginBottom: 24,
-  },
   billToLabel: {
     fontSize: 14,
-    color: '#6b7280',
     fontWeight: '600',
     marginBottom: 8,
   },
   clientName: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#111827',
     marginBottom: 4,
   },
   clientInfo: {
     fontSize: 14,
-    color: '#374151',
     marginBottom: 2,
   },
   lineItemsContainer: {
@@ -304,21 +422,19 @@ const styles = StyleSheet.create({
   lineItemHeaderText: {
     fontSize: 13,
     fontWeight: '700',
-    color: '#111827',
   },
   lineItemRow: {
     flexDirection: 'row',
     paddingVertical: 12,
     paddingHorizontal: 12,
     borderBottomWidth: 1,
-    borderBottomColor: '#f3f4f6',
-  },
-  lineItemRowAlt: {
-    backgroundColor: '#f9fafb',
   },
   lineItemText: {
     fontSize: 14,
-    color: '#374151',
+  },
+  lineItemDetail: {
+    fontSize: 12,
+    marginTop: 2,
   },
   descriptionColumn: {
     flex: 3,
@@ -348,12 +464,10 @@ const styles = StyleSheet.create({
   },
   totalLabel: {
     fontSize: 15,
-    color: '#374151',
   },
   totalValue: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#111827',
   },
   grandTotalLabel: {
     fontSize: 18,
@@ -369,7 +483,6 @@ const styles = StyleSheet.create({
     left: '30%',
     transform: [{ rotate: '-25deg' }],
     borderWidth: 4,
-    borderColor: '#059669',
     borderRadius: 8,
     paddingHorizontal: 24,
     paddingVertical: 12,
@@ -378,7 +491,16 @@ const styles = StyleSheet.create({
   paidStampText: {
     fontSize: 48,
     fontWeight: '900',
-    color: '#059669',
+  },
+  paymentQr: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 24,
+  },
+  paymentQrCaption: {
+    flex: 1,
+    fontSize: 13,
   },
   termsSection: {
     marginBottom: 12,
@@ -386,12 +508,10 @@ const styles = StyleSheet.create({
   termsSectionLabel: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#111827',
     marginBottom: 4,
   },
   termsSectionText: {
     fontSize: 13,
-    color: '#374151',
     marginBottom: 2,
   },
   footer: {
@@ -400,20 +520,17 @@ const styles = StyleSheet.create({
   },
   footerText: {
     fontSize: 14,
-    color: '#6b7280',
     fontStyle: 'italic',
   },
   paymentsSection: {
     marginTop: 24,
     marginBottom: 16,
     borderTopWidth: 2,
-    borderTopColor: '#e5e7eb',
     paddingTop: 16,
   },
   paymentsSectionTitle: {
     fontSize: 16,
     fontWeight: '700',
-    color: '#111827',
     marginBottom: 12,
   },
   paymentRow: {
@@ -422,7 +539,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 12,
     paddingHorizontal: 12,
-    backgroundColor: '#f9fafb',
     borderRadius: 6,
     marginBottom: 8,
   },
@@ -432,16 +548,13 @@ const styles = StyleSheet.create({
   paymentDate: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#111827',
     marginBottom: 2,
   },
   paymentMethod: {
     fontSize: 13,
-    color: '#6b7280',
   },
   paymentReference: {
     fontSize: 12,
-    color: '#9ca3af',
     marginTop: 2,
   },
   paymentRight: {
@@ -450,19 +563,16 @@ const styles = StyleSheet.create({
   paymentAmount: {
     fontSize: 16,
     fontWeight: '700',
-    color: '#059669',
     marginBottom: 4,
   },
   deletePaymentButton: {
     paddingHorizontal: 8,
     paddingVertical: 4,
-    backgroundColor: '#fee2e2',
     borderRadius: 4,
     cursor: 'pointer',
   },
   deletePaymentText: {
     fontSize: 12,
-    color: '#dc2626',
     fontWeight: '600',
     userSelect: 'none',
   },
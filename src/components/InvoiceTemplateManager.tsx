@@ -0,0 +1,423 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import {
+  useDeleteInvoiceTemplate,
+  useInvoiceTemplates,
+  useSaveInvoiceTemplate,
+} from '../hooks/useInvoiceTemplates';
+import { COLOR_SCHEMES, FONT_STYLES, SavedInvoiceTemplate } from '../types/invoice';
+import {
+  DEFAULT_TEMPLATE_FIELDS,
+  INVOICE_LAYOUTS,
+  INVOICE_TEMPLATE_FIELDS,
+  InvoiceTemplateConfig,
+  toInvoiceTemplateConfig,
+} from '../utils/invoiceTemplates';
+import { confirmDialog, showAlert } from '../lib/dialog';
+import { colors } from '../styles/theme';
+
+interface InvoiceTemplateManagerProps {
+  defaultTemplateId?: string | null;
+  /** Look from invoice settings, used as the starting point for a new template */
+  baseConfig: InvoiceTemplateConfig;
+  onSetDefault: (templateId: string | null) => Promise<void>;
+}
+
+interface EditorState {
+  id?: string;
+  name: string;
+  config: InvoiceTemplateConfig;
+}
+
+/**
+ * Saved invoice templates: create, edit, delete and pick the default for
+ * new invoices.
+ */
+export function InvoiceTemplateManager({ defaultTemplateId, baseConfig, onSetDefault }: InvoiceTemplateManagerProps) {
+  const { data: templates = [], isLoading } = useInvoiceTemplates();
+  const saveTemplate = useSaveInvoiceTemplate();
+  const deleteTemplate = useDeleteInvoiceTemplate();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+
+  const layoutLabel = (template: SavedInvoiceTemplate) =>
+    INVOICE_LAYOUTS.find((layout) => layout.value === toInvoiceTemplateConfig(template).layout)?.label ?? 'Classic';
+
+  const handleNew = () => {
+    setEditor({
+      name: '',
+      config: { ...baseConfig, fields: { ...DEFAULT_TEMPLATE_FIELDS } },
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editor) return;
+    if (!editor.name.trim()) {
+      showAlert('Error', 'Give the template a name');
+      return;
+    }
+
+    try {
+      const saved = await saveTemplate.mutateAsync(editor);
+      // The first template becomes the default
+      if (!editor.id && templates.length === 0) {
+        await onSetDefault(saved.id);
+      }
+      setEditor(null);
+    } catch (error: unknown) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
+  const handleDelete = async (template: SavedInvoiceTemplate) => {
+    const confirmed = await confirmDialog(
+      'Delete Template',
+      `Delete "${template.name}"? Invoices using it will switch to your default template.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+    } catch (error: unknown) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const handleSetDefault = async (templateId: string | null) => {
+    try {
+      await onSetDefault(templateId);
+    } catch (error: unknown) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to set the default template');
+    }
+  };
+
+  const updateConfig = (changes: Partial<InvoiceTemplateConfig>) => {
+    setEditor((prev) => prev && { ...prev, config: { ...prev.config, ...changes } });
+  };
+
+  return (
+    <View>
+      {isLoading ? (
+        <ActivityIndicator color={colors.brand.DEFAULT} />
+      ) : templates.length === 0 ? (
+        <Text style={S.helperText}>
+          No saved templates yet. Invoices use the classic layout until you save one.
+        </Text>
+      ) : templates.map((template) => {
+        const isDefault = template.id === defaultTemplateId;
+        return (
+          <View key={template.id} style={S.templateRow}>
+            <View style={S.templateInfo}>
+              <Text style={S.templateName}>
+                {template.name}{isDefault ? ' · Default' : ''}
+              </Text>
+              <Text style={S.templateMeta}>
+                {layoutLabel(template)} · {COLOR_SCHEMES.find((s) => s.value === template.color_scheme)?.name ?? 'Blue'}
+              </Text>
+            </View>
+            <View style={S.templateActions}>
+              <TouchableOpacity onPress={() => void handleSetDefault(isDefault ? null : template.id)}>
+                <Text style={S.linkText}>{isDefault ? 'Unset default' : 'Make default'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setEditor({ id: template.id, name: template.name, config: toInvoiceTemplateConfig(template) })}
+              >
+                <Text style={S.linkText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => void handleDelete(template)}>
+                <Text style={[S.linkText, S.dangerText]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={S.secondaryBtn} onPress={handleNew}>
+        <Text style={S.secondaryBtnText}>+ New Template</Text>
+      </TouchableOpacity>
+
+      <Modal visible={!!editor} transparent animationType="slide" onRequestClose={() => setEditor(null)}>
+        <TouchableWithoutFeedback onPress={() => setEditor(null)}>
+          <View style={S.overlay} />
+        </TouchableWithoutFeedback>
+
+        {editor && (
+          <View style={S.sheet}>
+            <View style={S.sheetHeader}>
+              <Text style={S.sheetTitle}>{editor.id ? 'Edit Template' : 'New Template'}</Text>
+              <TouchableOpacity onPress={() => setEditor(null)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Text style={S.closeBtn}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView>
+              <Text style={S.label}>Name</Text>
+              <TextInput
+                style={S.input}
+                value={editor.name}
+                onChangeText={(name) => setEditor((prev) => prev && { ...prev, name })}
+                placeholder="e.g. Band Invoice"
+                placeholderTextColor={colors.text.subtle}
+              />
+
+              <Text style={S.label}>Layout</Text>
+              {INVOICE_LAYOUTS.map((layout) => (
+                <TouchableOpacity
+                  key={layout.value}
+                  style={[S.layoutOption, editor.config.layout === layout.value && S.optionActive]}
+                  onPress={() => updateConfig({ layout: layout.value })}
+                >
+                  <Text style={[S.optionTitle, editor.config.layout === layout.value && S.optionTitleActive]}>
+                    {layout.label}
+                  </Text>
+                  <Text style={S.optionDescription}>{layout.description}</Text>
+                </TouchableOpacity>
+              ))}
+
+              <Text style={S.label}>Color</Text>
+              <View style={S.pillRow}>
+                {COLOR_SCHEMES.map((scheme) => (
+                  <TouchableOpacity
+                    key={scheme.value}
+                    style={[S.pill, editor.config.color_scheme === scheme.value && S.optionActive]}
+                    onPress={() => updateConfig({ color_scheme: scheme.value })}
+                  >
+                    <View style={[S.swatch, { backgroundColor: scheme.primary }]} />
+                    <Text style={S.pillText}>{scheme.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={S.label}>Font</Text>
+              <View style={S.pillRow}>
+                {FONT_STYLES.map((font) => (
+                  <TouchableOpacity
+                    key={font.value}
+                    style={[S.pill, editor.config.font_style === font.value && S.optionActive]}
+                    onPress={() => updateConfig({ font_style: font.value })}
+                  >
+                    <Text style={S.pillText}>{font.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={S.label}>Show on Invoice</Text>
+              {INVOICE_TEMPLATE_FIELDS.map((field) => (
+                <View key={field.key} style={S.toggleRow}>
+                  <Text style={S.toggleLabel}>{field.label}</Text>
+                  <Switch
+                    value={editor.config.fields[field.key]}
+                    onValueChange={(value) => updateConfig({ fields: { ...editor.config.fields, [field.key]: value } })}
+                  />
+                </View>
+              ))}
+              <Text style={S.helperText}>
+                The payment QR code links to the online invoice and only appears while a balance is due. Gig
+                details print the date and venue under lines billed to a gig.
+              </Text>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[S.primaryBtn, saveTemplate.isPending && S.btnDisabled]}
+              onPress={handleSave}
+              disabled={saveTemplate.isPending}
+            >
+              {saveTemplate.isPending ? (
+                <ActivityIndicator color={colors.brand.foreground} />
+              ) : (
+                <Text style={S.primaryBtnText}>Save Template</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </Modal>
+    </View>
+  );
+}
+
+const S = StyleSheet.create({
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  templateMeta: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  templateActions: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.brand.DEFAULT,
+  },
+  dangerText: {
+    color: colors.danger.DEFAULT,
+  },
+  secondaryBtn: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.muted,
+    alignItems: 'center',
+  },
+  secondaryBtnText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: colors.surface.DEFAULT,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: Platform.OS === 'ios' ? 36 : 24,
+    borderTopWidth: 1,
+    borderColor: colors.border.DEFAULT,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  sheetTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  closeBtn: {
+    fontSize: 18,
+    color: colors.text.subtle,
+    paddingLeft: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+    marginTop: 12,
+    color: colors.text.muted,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: colors.surface.DEFAULT,
+    color: colors.text.DEFAULT,
+  },
+  layoutOption: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    marginBottom: 8,
+  },
+  optionActive: {
+    borderColor: colors.brand.DEFAULT,
+    backgroundColor: colors.brand.muted,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  optionTitleActive: {
+    color: colors.brand.DEFAULT,
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+  },
+  pillText: {
+    fontSize: 13,
+    color: colors.text.DEFAULT,
+  },
+  swatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    color: colors.text.DEFAULT,
+  },
+  helperText: {
+    fontSize: 13,
+    color: colors.text.subtle,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  primaryBtn: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: colors.brand.DEFAULT,
+    alignItems: 'center',
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.brand.foreground,
+  },
+  btnDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -16,6 +16,8 @@ import {
   type RecurringExpense,
 } from '../hooks/useRecurringExpenses';
 import { UI_EXPENSE_CATEGORIES, mapUiToDbCategory } from '../lib/categoryMapping';
+import { RECURRING_EXPENSE_POST_MODES, type RecurringExpensePostMode } from '../utils/recurringExpenses';
+import { formatDate } from '../utils/format';
 
 interface RecurringExpenseModalProps {
   visible: boolean;
@@ -68,6 +70,7 @@ export function RecurringExpenseModal({ visible, onClose, editingExpense }: Recu
   const [dayOfMonthText, setDayOfMonthText] = useState('1');
   const [monthOfYear, setMonthOfYear] = useState(1); // January
   const [isActive, setIsActive] = useState(true);
+  const [postMode, setPostMode] = useState<RecurringExpensePostMode>('manual');
 
   const createRecurring = useCreateRecurringExpense();
   const updateRecurring = useUpdateRecurringExpense();
@@ -85,6 +88,7 @@ export function RecurringExpenseModal({ visible, onClose, editingExpense }: Recu
       setDayOfMonthText((editingExpense.day_of_month || 1).toString());
       setMonthOfYear(editingExpense.month_of_year || 1);
       setIsActive(editingExpense.is_active);
+      setPostMode(editingExpense.post_mode || 'manual');
     } else {
       resetForm();
     }
@@ -102,6 +106,7 @@ export function RecurringExpenseModal({ visible, onClose, editingExpense }: Recu
     setDayOfMonthText('1');
     setMonthOfYear(1);
     setIsActive(true);
+    setPostMode('manual');
   };
 
   const handleSubmit = async () => {
@@ -127,6 +132,7 @@ export function RecurringExpenseModal({ visible, onClose, editingExpense }: Recu
         day_of_month: frequency === 'monthly' || frequency === 'yearly' ? dayOfMonth : null,
         month_of_year: frequency === 'yearly' ? monthOfYear : null,
         is_active: isActive,
+        post_mode: postMode,
       };
 
       if (editingExpense) {
@@ -346,6 +352,39 @@ export function RecurringExpenseModal({ visible, onClose, editingExpense }: Recu
               />
             </View>
 
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>When Due</Text>
+              <View style={styles.frequencyButtons}>
+                {RECURRING_EXPENSE_POST_MODES.map((mode) => (
+                  <TouchableOpacity
+                    key={mode.value}
+                    style={[
+                      styles.frequencyButton,
+                      postMode === mode.value && styles.frequencyButtonActive,
+                    ]}
+                    onPress={() => setPostMode(mode.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyButtonText,
+                        postMode === mode.value && styles.frequencyButtonTextActive,
+                      ]}
+                    >
+                      {mode.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.helperText}>
+                {RECURRING_EXPENSE_POST_MODES.find((mode) => mode.value === postMode)?.description}
+              </Text>
+              {editingExpense?.last_error && postMode !== 'manual' ? (
+                <Text style={styles.helperText}>Last posting failed: {editingExpense.last_error}</Text>
+              ) : editingExpense?.last_posted_date && postMode !== 'manual' ? (
+                <Text style={styles.helperText}>Last posted for {formatDate(editingExpense.last_posted_date)}</Text>
+              ) : null}
+            </View>
+
             <View style={styles.inputGroup}>
               <View style={styles.toggleRow}>
                 <Text style={styles.label}>Active</Text>
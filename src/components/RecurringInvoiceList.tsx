@@ -0,0 +1,235 @@
+/**
+ * Recurring invoice schedules
+ *
+ * Every schedule with its cadence, next invoice date and send mode, with
+ * edit, pause/resume and delete actions.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { colors } from '../styles/theme';
+import { confirmDialog, showAlert } from '../lib/dialog';
+import { formatStoredDate } from '../lib/date';
+import { RecurringInvoice, formatCurrency } from '../types/invoice';
+import {
+  useDeleteRecurringInvoice,
+  useRecurringInvoices,
+  useSetRecurringInvoicePaused,
+} from '../hooks/useRecurringInvoices';
+import { formatRecurringFrequency, getRecurringInvoiceTotals } from '../utils/recurringInvoices';
+
+interface RecurringInvoiceListProps {
+  onEdit: (schedule: RecurringInvoice) => void;
+}
+
+function getScheduleStatus(schedule: RecurringInvoice): string {
+  if (schedule.is_paused) {
+    return 'Paused';
+  }
+  if (!schedule.next_run_date) {
+    return 'Ended';
+  }
+  return `Next invoice ${formatStoredDate(schedule.next_run_date)}`;
+}
+
+export function RecurringInvoiceList({ onEdit }: RecurringInvoiceListProps) {
+  const { data: schedules = [], isLoading, error } = useRecurringInvoices();
+  const setPaused = useSetRecurringInvoicePaused();
+  const deleteSchedule = useDeleteRecurringInvoice();
+
+  const handleTogglePaused = async (schedule: RecurringInvoice) => {
+    try {
+      await setPaused.mutateAsync({ recurringInvoice: schedule, paused: !schedule.is_paused });
+    } catch (err) {
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to update recurring invoice');
+    }
+  };
+
+  const handleDelete = async (schedule: RecurringInvoice) => {
+    const confirmed = await confirmDialog(
+      'Delete Recurring Invoice',
+      `Stop billing ${schedule.client_name} ${formatRecurringFrequency(schedule.frequency).toLowerCase()}? Invoices already created are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteSchedule.mutateAsync(schedule.id);
+    } catch (err) {
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to delete recurring invoice');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={colors.brand.DEFAULT} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{(error as Error).message || 'Failed to load recurring invoices'}</Text>
+      </View>
+    );
+  }
+
+  if (schedules.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyTitle}>No recurring invoices yet</Text>
+        <Text style={styles.emptyText}>
+          Open an invoice you send every week, month or quarter and choose Make Recurring.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.list}>
+      {schedules.map((schedule) => {
+        const { totalAmount } = getRecurringInvoiceTotals(
+          schedule.line_items,
+          schedule.tax_rate,
+          schedule.discount_amount
+        );
+
+        return (
+          <View key={schedule.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={styles.cardMain}>
+                <Text style={styles.clientName}>{schedule.client_name}</Text>
+                <Text style={styles.meta}>
+                  {formatCurrency(totalAmount, schedule.currency)} · {formatRecurringFrequency(schedule.frequency)} ·{' '}
+                  {schedule.send_mode === 'auto_send' ? 'Auto-send' : 'Draft only'}
+                </Text>
+                <Text style={styles.meta}>
+                  From {formatStoredDate(schedule.start_date)}
+                  {schedule.end_date ? ` to ${formatStoredDate(schedule.end_date)}` : ''}
+                </Text>
+              </View>
+              <Text style={schedule.is_paused || !schedule.next_run_date ? styles.statusMuted : styles.statusActive}>
+                {getScheduleStatus(schedule)}
+              </Text>
+            </View>
+
+            {schedule.last_error ? <Text style={styles.errorText}>{schedule.last_error}</Text> : null}
+
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => onEdit(schedule)}>
+                <Text style={styles.actionButtonText}>Edit</Text>
+              </TouchableOpacity>
+              {schedule.next_run_date || schedule.is_paused ? (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleTogglePaused(schedule)}
+                  disabled={setPaused.isPending}
+                >
+                  <Text style={styles.actionButtonText}>{schedule.is_paused ? 'Resume' : 'Pause'}</Text>
+                </TouchableOpacity>
+              ) : null}
+              <TouchableOpacity
+                style={[styles.actionButton, styles.deleteButton]}
+                onPress={() => handleDelete(schedule)}
+                disabled={deleteSchedule.isPending}
+              >
+                <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+  },
+  list: {
+    padding: 12,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: colors.surface.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    padding: 14,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardMain: {
+    flex: 1,
+    marginRight: 8,
+  },
+  clientName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  statusActive: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.success.DEFAULT,
+  },
+  statusMuted: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.subtle,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.danger.DEFAULT,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  deleteButton: {
+    borderColor: colors.danger.muted,
+    backgroundColor: colors.danger.muted,
+  },
+  deleteButtonText: {
+    color: colors.danger.DEFAULT,
+  },
+});
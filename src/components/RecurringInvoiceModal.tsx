@@ -0,0 +1,406 @@
+/**
+ * Recurring invoice schedule editor
+ *
+ * Creates a schedule from an existing invoice (its client, line items and
+ * terms are repeated) or edits the cadence of an existing schedule.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { colors } from '../styles/theme';
+import { showAlert } from '../lib/dialog';
+import { formatStoredDate, getTodayDateString, isDateOnlyString } from '../lib/date';
+import { Invoice, RecurringInvoice, formatCurrency } from '../types/invoice';
+import { useCreateRecurringInvoice, useUpdateRecurringInvoice } from '../hooks/useRecurringInvoices';
+import {
+  RECURRING_INVOICE_FREQUENCIES,
+  daysBetween,
+  getResumedRunDate,
+  getRecurringInvoiceTotals,
+  type RecurringInvoiceFrequency,
+  type RecurringInvoiceSendMode,
+} from '../utils/recurringInvoices';
+
+interface RecurringInvoiceModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+  sourceInvoice?: Invoice | null;
+  editingSchedule?: RecurringInvoice | null;
+}
+
+const SEND_MODES: { value: RecurringInvoiceSendMode; label: string; description: string }[] = [
+  { value: 'draft', label: 'Draft Only', description: 'Invoices are saved as drafts for you to review and send.' },
+  { value: 'auto_send', label: 'Auto-Send', description: 'Invoices are emailed to the client as soon as they are created.' },
+];
+
+function getSourceDueInDays(invoice: Invoice): number {
+  if (!invoice.invoice_date || !invoice.due_date) {
+    return 30;
+  }
+  return Math.max(0, daysBetween(invoice.invoice_date, invoice.due_date));
+}
+
+export function RecurringInvoiceModal({
+  visible,
+  onClose,
+  onSaved,
+  sourceInvoice,
+  editingSchedule,
+}: RecurringInvoiceModalProps) {
+  const [frequency, setFrequency] = useState<RecurringInvoiceFrequency>('monthly');
+  const [startDate, setStartDate] = useState(getTodayDateString());
+  const [endDate, setEndDate] = useState('');
+  const [dueInDaysText, setDueInDaysText] = useState('30');
+  const [sendMode, setSendMode] = useState<RecurringInvoiceSendMode>('draft');
+
+  const createSchedule = useCreateRecurringInvoice();
+  const updateSchedule = useUpdateRecurringInvoice();
+  const saving = createSchedule.isPending || updateSchedule.isPending;
+
+  useEffect(() => {
+    if (!visible) return;
+
+    if (editingSchedule) {
+      setFrequency(editingSchedule.frequency);
+      setStartDate(editingSchedule.start_date);
+      setEndDate(editingSchedule.end_date ?? '');
+      setDueInDaysText(String(editingSchedule.due_in_days));
+      setSendMode(editingSchedule.send_mode);
+    } else {
+      setFrequency('monthly');
+      setStartDate(getTodayDateString());
+      setEndDate('');
+      setDueInDaysText(String(sourceInvoice ? getSourceDueInDays(sourceInvoice) : 30));
+      setSendMode('draft');
+    }
+  }, [visible, editingSchedule, sourceInvoice]);
+
+  const clientName = editingSchedule?.client_name ?? sourceInvoice?.client_name ?? '';
+  const clientEmail = editingSchedule?.client_email ?? sourceInvoice?.client_email;
+  const currency = editingSchedule?.currency ?? sourceInvoice?.currency ?? 'USD';
+  const amount = editingSchedule
+    ? getRecurringInvoiceTotals(editingSchedule.line_items, editingSchedule.tax_rate, editingSchedule.discount_amount).totalAmount
+    : sourceInvoice?.total_amount ?? 0;
+
+  const datesValid = isDateOnlyString(startDate) && (!endDate || isDateOnlyString(endDate));
+  const firstRunDate = datesValid
+    ? getResumedRunDate({ frequency, start_date: startDate, end_date: endDate || null }, getTodayDateString())
+    : null;
+
+  const handleSave = async () => {
+    const dueInDays = Number(dueInDaysText);
+
+    if (!isDateOnlyString(startDate)) {
+      showAlert('Error', 'Start date must be in YYYY-MM-DD format');
+      return;
+    }
+    if (endDate && !isDateOnlyString(endDate)) {
+      showAlert('Error', 'End date must be in YYYY-MM-DD format');
+      return;
+    }
+    if (!Number.isInteger(dueInDays) || dueInDays < 0) {
+      showAlert('Error', 'Due in days must be a whole number of days');
+      return;
+    }
+    if (sendMode === 'auto_send' && !clientEmail) {
+      showAlert('Error', 'Add a client email to the invoice before turning on auto-send');
+      return;
+    }
+
+    const schedule = {
+      frequency,
+      start_date: startDate,
+      end_date: endDate || null,
+      due_in_days: dueInDays,
+      send_mode: sendMode,
+    };
+
+    try {
+      if (editingSchedule) {
+        await updateSchedule.mutateAsync({ recurringInvoice: editingSchedule, schedule });
+      } else if (sourceInvoice) {
+        await createSchedule.mutateAsync({ invoice: sourceInvoice, schedule });
+      }
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      showAlert('Error', error instanceof Error ? error.message : 'Failed to save recurring invoice');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{editingSchedule ? 'Edit Recurring Invoice' : 'Make Recurring'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
+            <View style={styles.summary}>
+              <Text style={styles.summaryClient}>{clientName}</Text>
+              <Text style={styles.summaryAmount}>{formatCurrency(amount, currency)} per invoice</Text>
+              <Text style={styles.helperText}>
+                {`Each invoice repeats the client, line items, tax, discount and notes of ${
+                  editingSchedule ? 'this schedule' : sourceInvoice?.invoice_number ?? 'this invoice'
+                }, numbered from your invoice settings.`}
+              </Text>
+            </View>
+
+            <Text style={styles.label}>Frequency</Text>
+            <View style={styles.optionContainer}>
+              {RECURRING_INVOICE_FREQUENCIES.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.optionButton, frequency === option.value && styles.optionButtonActive]}
+                  onPress={() => setFrequency(option.value)}
+                >
+                  <Text style={[styles.optionButtonText, frequency === option.value && styles.optionButtonTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Start Date</Text>
+            <TextInput
+              style={styles.input}
+              value={startDate}
+              onChangeText={setStartDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.text.subtle}
+            />
+
+            <Text style={styles.label}>End Date (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={endDate}
+              onChangeText={setEndDate}
+              placeholder="YYYY-MM-DD — leave blank to repeat until paused"
+              placeholderTextColor={colors.text.subtle}
+            />
+
+            <Text style={styles.label}>Due (days after invoice date)</Text>
+            <TextInput
+              style={styles.input}
+              value={dueInDaysText}
+              onChangeText={setDueInDaysText}
+              placeholder="30"
+              placeholderTextColor={colors.text.subtle}
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.label}>When an invoice is created</Text>
+            <View style={styles.optionContainer}>
+              {SEND_MODES.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.optionButton, sendMode === option.value && styles.optionButtonActive]}
+                  onPress={() => setSendMode(option.value)}
+                >
+                  <Text style={[styles.optionButtonText, sendMode === option.value && styles.optionButtonTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.helperText}>
+              {SEND_MODES.find((option) => option.value === sendMode)?.description}
+            </Text>
+
+            <Text style={styles.nextRun}>
+              {!datesValid
+                ? 'Enter dates as YYYY-MM-DD'
+                : firstRunDate
+                  ? `Next invoice: ${formatStoredDate(firstRunDate)}`
+                  : 'This schedule has no invoices left before its end date'}
+            </Text>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color={colors.brand.foreground} />
+              ) : (
+                <Text style={styles.saveButtonText}>{editingSchedule ? 'Save Schedule' : 'Start Schedule'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 520,
+    maxHeight: '90%',
+    backgroundColor: colors.surface.DEFAULT,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: colors.text.muted,
+  },
+  form: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  summary: {
+    backgroundColor: colors.surface.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  summaryClient: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  summaryAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.elevated,
+  },
+  optionContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.elevated,
+  },
+  optionButtonActive: {
+    borderColor: colors.brand.DEFAULT,
+    backgroundColor: colors.brand.DEFAULT,
+  },
+  optionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  optionButtonTextActive: {
+    color: colors.brand.foreground,
+  },
+  helperText: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 6,
+    lineHeight: 17,
+  },
+  nextRun: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginTop: 18,
+    marginBottom: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.muted,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: colors.brand.DEFAULT,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.brand.foreground,
+  },
+});
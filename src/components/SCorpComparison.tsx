@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { useTaxProfile } from '../hooks/useTaxProfile';
+import { formatTaxAmount, formatTaxRate, type PayrollFrequency, type TaxProfile } from '../tax/engine';
+import { basicTaxProfile, compareSoleProprietorToSCorp } from '../tax/service';
+import { colors } from '../styles/theme';
+
+const FREQUENCIES: { value: PayrollFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Biweekly' },
+  { value: 'semimonthly', label: 'Semimonthly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+];
+
+const DEFAULT_PROFIT = 80000;
+
+function parseAmount(text: string): number {
+  const amount = parseFloat(text.replace(/[^0-9.]/g, ''));
+  return isNaN(amount) ? 0 : amount;
+}
+
+/**
+ * Side-by-side "sole prop vs S-Corp" estimate for a projected year of profit,
+ * using the user's tax profile (state, filing status) and reasonable salary
+ */
+export function SCorpComparison() {
+  const { data: taxProfile } = useTaxProfile();
+
+  const [profitText, setProfitText] = useState(String(DEFAULT_PROFIT));
+  const [salaryText, setSalaryText] = useState('');
+  const [frequency, setFrequency] = useState<PayrollFrequency | null>(null);
+
+  const netProfit = parseAmount(profitText);
+  // Until the user types a salary, use their saved one or 40% of profit
+  const salary = salaryText
+    ? parseAmount(salaryText)
+    : taxProfile?.sCorpSalary ?? Math.round(netProfit * 0.4);
+  const payrollFrequency = frequency ?? taxProfile?.payrollFrequency ?? 'monthly';
+
+  const comparison = useMemo(() => {
+    const baseProfile: TaxProfile = taxProfile?.state ? taxProfile : basicTaxProfile(null);
+    return compareSoleProprietorToSCorp(netProfit, {
+      ...baseProfile,
+      sCorpSalary: salary,
+      payrollFrequency,
+    });
+  }, [taxProfile, netProfit, salary, payrollFrequency]);
+
+  const { soleProprietor, sCorp, savings } = comparison;
+  const soleIncomeTax = soleProprietor.federal + soleProprietor.state + soleProprietor.local;
+  const sCorpIncomeTax = sCorp.federal + sCorp.state + sCorp.local;
+  const sCorpFica = sCorp.payroll.employerFica + sCorp.payroll.employeeFica;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Sole prop vs S-Corp</Text>
+      {!taxProfile?.state && (
+        <Text style={styles.note}>
+          Set your state in Tax Settings for state tax in this comparison. Federal only for now.
+        </Text>
+      )}
+
+      <View style={styles.inputRow}>
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Projected yearly profit</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType="numeric"
+            value={profitText}
+            onChangeText={setProfitText}
+          />
+        </View>
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Reasonable salary</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType="numeric"
+            placeholder={String(salary)}
+            value={salaryText}
+            onChangeText={setSalaryText}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.inputLabel}>Payroll frequency</Text>
+      <View style={styles.chipRow}>
+        {FREQUENCIES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, payrollFrequency === option.value && styles.chipActive]}
+            onPress={() => setFrequency(option.value)}
+          >
+            <Text style={[styles.chipText, payrollFrequency === option.value && styles.chipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.columns}>
+        <View style={styles.column}>
+          <Text style={styles.columnTitle}>Sole proprietor</Text>
+          <Text style={styles.line}>SE tax: {formatTaxAmount(soleProprietor.seTax + soleProprietor.additionalMedicare)}</Text>
+          <Text style={styles.line}>Income tax: {formatTaxAmount(soleIncomeTax)}</Text>
+          <Text style={styles.total}>Total: {formatTaxAmount(soleProprietor.total)}</Text>
+          <Text style={styles.rate}>{formatTaxRate(soleProprietor.effectiveRate)} of profit</Text>
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.columnTitle}>S-Corp</Text>
+          <Text style={styles.line}>Payroll FICA: {formatTaxAmount(sCorpFica + sCorp.payroll.additionalMedicare)}</Text>
+          <Text style={styles.line}>Income tax: {formatTaxAmount(sCorpIncomeTax)}</Text>
+          <Text style={styles.total}>Total: {formatTaxAmount(sCorp.total)}</Text>
+          <Text style={styles.rate}>{formatTaxRate(sCorp.effectiveRate)} of profit</Text>
+        </View>
+      </View>
+
+      <View style={styles.detail}>
+        <Text style={styles.line}>
+          Salary {formatTaxAmount(sCorp.salary)} · distribution {formatTaxAmount(sCorp.distribution)}
+        </Text>
+        <Text style={styles.line}>
+          Each paycheck ({sCorp.payPeriods}/yr): {formatTaxAmount(sCorp.perPaycheck.grossPay)} gross,
+          {' '}{formatTaxAmount(sCorp.perPaycheck.netPay)} take-home after
+          {' '}{formatTaxAmount(sCorp.perPaycheck.employeeFica + sCorp.perPaycheck.additionalMedicare)} FICA and
+          {' '}{formatTaxAmount(sCorp.perPaycheck.federalWithholding + sCorp.perPaycheck.stateWithholding)} withholding
+        </Text>
+        <Text style={styles.line}>
+          Employer FICA per paycheck: {formatTaxAmount(sCorp.perPaycheck.employerFica)}
+        </Text>
+        <Text style={styles.line}>
+          Estimated payments for tax on distributions: {formatTaxAmount(sCorp.distributionTax)}
+        </Text>
+        {sCorp.salary < salary && (
+          <Text style={styles.note}>
+            Salary capped at {formatTaxAmount(sCorp.salary)}, the most this profit can pay after employer FICA.
+          </Text>
+        )}
+      </View>
+
+      <View style={[styles.savingsBox, savings < 0 && styles.costBox]}>
+        <Text style={[styles.savingsText, savings < 0 && styles.costText]}>
+          {savings >= 0
+            ? `S-Corp saves about ${formatTaxAmount(savings)} a year in tax`
+            : `S-Corp costs about ${formatTaxAmount(-savings)} more a year in tax`}
+        </Text>
+        <Text style={styles.note}>
+          Before payroll service fees, state S-Corp fees and the extra return. The IRS expects a salary in line with what you'd pay someone else for the same work.
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputGroup: {
+    flex: 1,
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.text.muted,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+  },
+  chipActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.DEFAULT,
+  },
+  chipTextActive: {
+    color: colors.brand.foreground,
+    fontWeight: '600',
+  },
+  columns: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  column: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: colors.surface.muted,
+  },
+  columnTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginBottom: 8,
+  },
+  line: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.text.DEFAULT,
+  },
+  total: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginTop: 6,
+  },
+  rate: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  detail: {
+    marginBottom: 12,
+    gap: 4,
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: colors.text.muted,
+    marginTop: 4,
+  },
+  savingsBox: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: colors.success.muted,
+  },
+  costBox: {
+    backgroundColor: colors.warning.muted,
+  },
+  savingsText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.success.DEFAULT,
+  },
+  costText: {
+    color: colors.warning.DEFAULT,
+  },
+});
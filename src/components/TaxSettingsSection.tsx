@@ -18,8 +18,8 @@ import {
   Pressable,
 } from 'react-native';
 import { useTaxProfile, useUpsertTaxProfile } from '../hooks/useTaxProfile';
-import { getMDCounties, getStateName } from '../tax/engine';
-import type { TaxProfile } from '../tax/engine';
+import { getMDCounties, getStateLocalities, getStateName } from '../tax/engine';
+import type { PayrollFrequency, TaxProfile } from '../tax/engine';
 import type { StateCode, FilingStatus } from '../tax/config/2025';
 import { useProfile, type BusinessStructure } from '../hooks/useProfile';
 import { useSubscription } from '../hooks/useSubscription';
@@ -80,6 +80,15 @@ const TAX_STATES: { code: StateCode; name: string }[] = [
   { code: 'DC', name: 'District of Columbia' },
 ];
 
+const PAYROLL_FREQUENCIES: { value: PayrollFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every two weeks' },
+  { value: 'semimonthly', label: 'Twice a month' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Once a year' },
+];
+
 const FILING_STATUSES: { value: FilingStatus; label: string }[] = [
   { value: 'single', label: 'Single' },
   { value: 'married_joint', label: 'Married Filing Jointly' },
@@ -209,6 +218,37 @@ const pickerStyles = StyleSheet.create({
 });
 // ─────────────────────────────────────────────────────────────────────────────
 
+// ─── Local tax rate input (entered as a percent, stored as a decimal) ───────
+interface RateInputProps {
+  rate: number | undefined;
+  onChange: (rate: number | undefined) => void;
+  placeholder: string;
+}
+function RateInput({ rate, onChange, placeholder }: RateInputProps) {
+  // Keep the typed text so a trailing decimal point ("1.") isn't dropped
+  const [text, setText] = useState(rate !== undefined ? String(+(rate * 100).toFixed(3)) : '');
+
+  return (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      keyboardType="decimal-pad"
+      value={text}
+      onChangeText={(value) => {
+        const cleaned = value.replace(/[^0-9.]/g, '');
+        const percent = parseFloat(cleaned);
+        setText(cleaned);
+        onChange(isNaN(percent) ? undefined : percent / 100);
+      }}
+    />
+  );
+}
+
+function formatRate(rate: number | undefined): string {
+  return rate !== undefined ? `${+(rate * 100).toFixed(3)}%` : 'Rate not set';
+}
+// ─────────────────────────────────────────────────────────────────────────────
+
 interface TaxSettingsSectionProps {
   isEditing?: boolean;
   onEditChange?: (editing: boolean) => void;
@@ -281,6 +321,16 @@ export function TaxSettingsSection({
       return;
     }
 
+    // Validate jurisdictions without a fixed rate have one entered
+    const localities = taxProfileForm.state ? getStateLocalities(taxProfileForm.state) : [];
+    const needsRate = (code: string | undefined, rate: number | undefined) =>
+      !!localities.find(l => l.code === code)?.entersRate && !(rate !== undefined && rate > 0 && rate < 0.1);
+    if (needsRate(taxProfileForm.localJurisdiction, taxProfileForm.localTaxRate)
+      || needsRate(taxProfileForm.schoolDistrict, taxProfileForm.schoolDistrictRate)) {
+      Alert.alert('Error', 'Please enter your local income tax rate as a percent (e.g. 1.25)');
+      return;
+    }
+
     // Validate itemized requires amount
     if (taxProfileForm.deductionMethod === 'itemized' && !taxProfileForm.itemizedAmount) {
       Alert.alert('Error', 'Please enter itemized deduction amount');
@@ -342,6 +392,16 @@ export function TaxSettingsSection({
 
   const filingStatusLabel = FILING_STATUSES.find(s => s.value === taxProfileForm.filingStatus)?.label;
   const stateName = taxProfileForm.state ? getStateName(taxProfileForm.state) : 'Not set';
+  const municipalities = taxProfileForm.state ? getStateLocalities(taxProfileForm.state, 'municipality') : [];
+  const schoolDistricts = taxProfileForm.state ? getStateLocalities(taxProfileForm.state, 'school_district') : [];
+  const municipality = municipalities.find(m => m.code === taxProfileForm.localJurisdiction);
+  const schoolDistrict = schoolDistricts.find(d => d.code === taxProfileForm.schoolDistrict);
+  const municipalityLabel = municipality
+    ? `${municipality.name}${municipality.entersRate ? ` · ${formatRate(taxProfileForm.localTaxRate)}` : ''}`
+    : 'None';
+  const schoolDistrictLabel = schoolDistrict
+    ? `${schoolDistrict.name}${schoolDistrict.entersRate ? ` · ${formatRate(taxProfileForm.schoolDistrictRate)}` : ''}`
+    : 'None';
   
   const businessStructureLabel = {
     individual: 'Individual / Sole Proprietor',
@@ -401,7 +461,7 @@ export function TaxSettingsSection({
               )}
               {businessStructure === 'llc_scorp' && (
                 <Text style={styles.infoNote}>
-                  ℹ️ Advanced tax strategy. Often used when profit is high and you run payroll. In Bozzy Pro, we track income/expenses but do not estimate self-employment tax.
+                  ℹ️ Advanced tax strategy. Often used when profit is high and you run payroll. Set your reasonable salary below and Bozzy estimates payroll taxes, withholding and tax on distributions instead of self-employment tax.
                 </Text>
               )}
               {businessStructure === 'llc_multi_member' && (
@@ -412,7 +472,7 @@ export function TaxSettingsSection({
               
               {!isProPlan && (
                 <Text style={styles.upgradeNote}>
-                  💡 S-Corp mode is available on Bozzy Pro. S-Corp mode removes self-employment tax estimates and is designed for users running payroll through an S-Corp.
+                  💡 S-Corp mode is available on Bozzy Pro. S-Corp mode replaces self-employment tax with payroll estimates based on your reasonable salary.
                 </Text>
               )}
             </>
@@ -421,6 +481,48 @@ export function TaxSettingsSection({
           )}
         </View>
 
+        {/* S-Corp payroll */}
+        {businessStructure === 'llc_scorp' && (
+          <>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Reasonable Salary (per year)</Text>
+              {isEditing ? (
+                <TextInput
+                  style={styles.input}
+                  placeholder="Annual salary ($)"
+                  keyboardType="numeric"
+                  value={taxProfileForm.sCorpSalary?.toString() || ''}
+                  onChangeText={(text) => {
+                    const amount = parseFloat(text.replace(/[^0-9.]/g, ''));
+                    setTaxProfileForm({ ...taxProfileForm, sCorpSalary: isNaN(amount) ? undefined : amount });
+                  }}
+                />
+              ) : (
+                <Text style={styles.fieldValue}>
+                  {taxProfileForm.sCorpSalary
+                    ? `$${taxProfileForm.sCorpSalary.toLocaleString()}`
+                    : 'Not set (tracking only)'}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Payroll Frequency</Text>
+              {isEditing ? (
+                <NativePicker
+                  value={taxProfileForm.payrollFrequency ?? 'monthly'}
+                  onChange={(val) => setTaxProfileForm({ ...taxProfileForm, payrollFrequency: val as PayrollFrequency })}
+                  options={PAYROLL_FREQUENCIES}
+                />
+              ) : (
+                <Text style={styles.fieldValue}>
+                  {PAYROLL_FREQUENCIES.find(f => f.value === (taxProfileForm.payrollFrequency ?? 'monthly'))?.label}
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+
         {/* Filing Status */}
         <View style={styles.field}>
           <Text style={styles.fieldLabel}>Filing Status</Text>
@@ -441,7 +543,15 @@ export function TaxSettingsSection({
           {isEditing ? (
             <NativePicker
               value={taxProfileForm.state ?? ''}
-              onChange={(val) => setTaxProfileForm({ ...taxProfileForm, state: val as StateCode, county: undefined })}
+              onChange={(val) => setTaxProfileForm({
+                ...taxProfileForm,
+                state: val as StateCode,
+                county: undefined,
+                localJurisdiction: undefined,
+                schoolDistrict: undefined,
+                localTaxRate: undefined,
+                schoolDistrictRate: undefined,
+              })}
               options={TAX_STATES.map(s => ({ value: s.code, label: s.name }))}
             />
           ) : (
@@ -506,6 +616,58 @@ export function TaxSettingsSection({
           </View>
         )}
 
+        {/* Municipal income tax (OH, PA, MI, MO, ...) */}
+        {municipalities.length > 0 && (
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Local Income Tax</Text>
+            {isEditing ? (
+              <>
+                <NativePicker
+                  value={taxProfileForm.localJurisdiction || ''}
+                  onChange={(val) => setTaxProfileForm({ ...taxProfileForm, localJurisdiction: val || undefined, localTaxRate: undefined })}
+                  options={[{ value: '', label: 'None' }, ...municipalities.map(m => ({ value: m.code, label: m.name }))]}
+                />
+                {municipality?.entersRate && (
+                  <RateInput
+                    key={municipality.code}
+                    rate={taxProfileForm.localTaxRate}
+                    onChange={(rate) => setTaxProfileForm({ ...taxProfileForm, localTaxRate: rate })}
+                    placeholder="Resident EIT rate (%)"
+                  />
+                )}
+              </>
+            ) : (
+              <Text style={styles.fieldValue}>{municipalityLabel}</Text>
+            )}
+          </View>
+        )}
+
+        {/* School district income tax */}
+        {schoolDistricts.length > 0 && (
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>School District</Text>
+            {isEditing ? (
+              <>
+                <NativePicker
+                  value={taxProfileForm.schoolDistrict || ''}
+                  onChange={(val) => setTaxProfileForm({ ...taxProfileForm, schoolDistrict: val || undefined, schoolDistrictRate: undefined })}
+                  options={[{ value: '', label: 'None' }, ...schoolDistricts.map(d => ({ value: d.code, label: d.name }))]}
+                />
+                {schoolDistrict?.entersRate && (
+                  <RateInput
+                    key={schoolDistrict.code}
+                    rate={taxProfileForm.schoolDistrictRate}
+                    onChange={(rate) => setTaxProfileForm({ ...taxProfileForm, schoolDistrictRate: rate })}
+                    placeholder="School district rate (%)"
+                  />
+                )}
+              </>
+            ) : (
+              <Text style={styles.fieldValue}>{schoolDistrictLabel}</Text>
+            )}
+          </View>
+        )}
+
         {/* Deduction Method */}
         <View style={styles.field}>
           <Text style={styles.fieldLabel}>Deduction Method</Text>
@@ -36,7 +36,7 @@ export function BucketStrip({ onManageBuckets }: BucketStripProps) {
     const ytdBalance = ytdData?.total || 0;
     
     // Calculate percentage of total income (rough estimate)
-    const totalIncome = ytdTotals.reduce((sum, t) => sum + t.total, 0);
+    const totalIncome = ytdTotals.reduce((sum, t) => sum + t.allocated, 0);
     const ytdPercentage = totalIncome > 0 ? (ytdBalance / totalIncome) * 100 : 0;
 
     return {
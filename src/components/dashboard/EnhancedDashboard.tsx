@@ -29,6 +29,7 @@ import { HealthScoreWidget } from './HealthScoreWidget';
 // import { OpportunityAlertsSection } from './OpportunityAlertsSection'; // replaced by OpportunitiesSection
 import { scheduleQuarterlyReminders } from '../../lib/scheduleQuarterlyReminders';
 import { useAllocationBuckets } from '../../hooks/useAllocationBuckets';
+import { useEstimatedTaxPlanner } from '../../hooks/useEstimatedTaxPlanner';
 import { usePayers } from '../../hooks/usePayers';
 
 interface EnhancedDashboardProps {
@@ -68,6 +69,7 @@ export function EnhancedDashboard({
   onNavigateToRateGuide,
 }: EnhancedDashboardProps) {
   const { buckets } = useAllocationBuckets();
+  const { plan: estimatedTaxPlan } = useEstimatedTaxPlanner();
   const { data: payers = [] } = usePayers();
   const { isDesktop, isTablet } = useResponsive();
   const { width } = useWindowDimensions();
@@ -97,6 +99,13 @@ export function EnhancedDashboard({
 
   // Schedule quarterly tax reminders when YTD data is available
   useEffect(() => {
+    // Remind with what's still due each quarter once the planner has run
+    if (estimatedTaxPlan) {
+      const shortfalls: Record<number, number> = {};
+      estimatedTaxPlan.installments.forEach(i => { shortfalls[i.quarter] = i.shortfall; });
+      scheduleQuarterlyReminders(shortfalls);
+      return;
+    }
     if (!data.isReady || !data.totalGrossIncome) return;
     const federalTaxBucket = buckets.find(b => b.bucket_type === 'federal_tax');
     const stateTaxBucket = buckets.find(b => b.bucket_type === 'state_tax');
@@ -104,7 +113,7 @@ export function EnhancedDashboard({
     const combinedTaxPct = (federalTaxBucket?.percentage ?? 0) + (stateTaxBucket?.percentage ?? 0);
     const quarterlyEstimate = (data.totalGrossIncome * combinedTaxPct) / 400;
     scheduleQuarterlyReminders(quarterlyEstimate);
-  }, [data.isReady, data.totalGrossIncome, buckets]);
+  }, [data.isReady, data.totalGrossIncome, buckets, estimatedTaxPlan]);
 
   // Mark when dashboard is interactive (data loaded)
   useEffect(() => {
@@ -49,9 +49,10 @@ export function HealthScoreWidget({ ytdGrossIncome, isFiltered }: HealthScoreWid
   const stateBucket = buckets.find(b => b.bucket_type === 'state_tax');
 
   if (federalBucket) {
+    // Set aside, including what has since been paid to the IRS / state
     const actualTaxAllocated =
-      (ytdTotals.find(t => t.bucket_id === federalBucket.id)?.total ?? 0) +
-      (stateBucket ? (ytdTotals.find(t => t.bucket_id === stateBucket.id)?.total ?? 0) : 0);
+      (ytdTotals.find(t => t.bucket_id === federalBucket.id)?.allocated ?? 0) +
+      (stateBucket ? (ytdTotals.find(t => t.bucket_id === stateBucket.id)?.allocated ?? 0) : 0);
 
     const taxPct = (federalBucket.percentage + (stateBucket?.percentage ?? 0)) / 100;
     const estimatedQuarterlyTax = (ytdGrossIncome * taxPct) / 4;
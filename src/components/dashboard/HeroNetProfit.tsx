@@ -10,7 +10,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { getThemeColors, chartColors, getStatusColor } from '../../lib/charts/colors';
 import { useDashboardData } from '../../hooks/useDashboardData';
 import { useTaxProfile } from '../../hooks/useTaxProfile';
-import { calcYTDEffectiveRate } from '../../tax/engine';
+import { calcYTDEffectiveRate, toYTDData } from '../../tax/service';
 import { FederalTaxInfo } from '../tax/FederalTaxInfo';
 import { StateTaxInfo } from '../tax/StateTaxInfo';
 
@@ -59,12 +59,7 @@ export function HeroNetProfit({ dateRange = 'ytd', customStart, customEnd, payer
   
   if (taxProfile && currentData.totals.net > 0) {
     try {
-      const ytdData = {
-        grossIncome: currentData.totals.net + currentData.totals.taxes,
-        adjustments: 0,
-        netSE: currentData.totals.net,
-      };
-      const taxSummary = calcYTDEffectiveRate(ytdData, taxProfile);
+      const taxSummary = calcYTDEffectiveRate(toYTDData(currentData.totals.net), taxProfile, currentData.taxYear);
       taxBreakdown = taxSummary.breakdown;
       totalTaxes = taxSummary.totalTax;
       effectiveRate = taxSummary.effectiveRate * 100;
@@ -155,8 +150,21 @@ export function HeroNetProfit({ dateRange = 'ytd', customStart, customEnd, payer
             </View>
             <Text style={styles.breakdownValue}>{formatCurrency(taxBreakdown.seTax)}</Text>
           </View>
+          {taxBreakdown.additionalMedicare > 0 && (
+            <View style={styles.breakdownRow}>
+              <Text style={styles.breakdownLabel}>Additional Medicare (0.9%)</Text>
+              <Text style={styles.breakdownValue}>{formatCurrency(taxBreakdown.additionalMedicare)}</Text>
+            </View>
+          )}
           <View style={styles.breakdownRow}>
-            <Text style={styles.breakdownLabel}>Federal Income</Text>
+            <View style={styles.breakdownLabelContainer}>
+              <Text style={styles.breakdownLabel}>Federal Income</Text>
+              {taxBreakdown.qbiDeduction > 0 && (
+                <Text style={styles.breakdownSubLabel}>
+                  After {formatCurrency(taxBreakdown.qbiDeduction)} QBI deduction (§199A)
+                </Text>
+              )}
+            </View>
             <Text style={styles.breakdownValue}>{formatCurrency(taxBreakdown.federal)}</Text>
           </View>
           <View style={styles.breakdownRow}>
@@ -12,7 +12,7 @@ import { getGigDisplayName } from '../../lib/gigDisplayName';
 import { useExpenses } from '../../hooks/useExpenses';
 import { useMileage } from '../../hooks/useMileage';
 import { parseStoredDate } from '../../lib/date';
-import { calculateMileageDeduction } from '../../lib/mileage';
+import { calculateMileageDeduction } from '../../tax/service';
 
 interface MonthDrillThroughProps {
   month: string; // e.g., "Jan 2025"
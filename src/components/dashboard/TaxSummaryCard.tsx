@@ -6,7 +6,8 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Platform, Linking } from 'react-native';
 import { useTaxProfile } from '../../hooks/useTaxProfile';
-import { calculateSplitTax, formatTaxAmount, formatTaxRate } from '../../tax/engine';
+import { formatTaxAmount, formatTaxRate, getStateName } from '../../tax/engine';
+import { calculateSplitTax } from '../../tax/service';
 import { useDashboardData, type DateRange } from '../../hooks/useDashboardData';
 import { colors } from '../../styles/theme';
 
@@ -52,7 +53,7 @@ export function TaxSummaryCard({ dateRange = 'ytd', onUpdateProfile }: TaxSummar
   }
 
   // Get income split and calculate total deductions
-  const { gigIncome1099, gigIncomeW2, gigIncomeOther, expenseBreakdown } = dashboardData;
+  const { gigIncome1099, gigIncomeW2, gigIncomeOther, gigIncome1099ByState, expenseBreakdown, taxYear } = dashboardData;
   
   // Sum all expense categories to get total deductions
   const totalDeductions = (expenseBreakdown ?? []).reduce((sum, cat) => sum + cat.amount, 0);
@@ -62,9 +63,16 @@ export function TaxSummaryCard({ dateRange = 'ytd', onUpdateProfile }: TaxSummar
     gigIncome1099,
     gigIncomeW2,
     totalDeductions,
-    taxProfile
+    taxProfile,
+    taxYear,
+    gigIncome1099ByState
   );
 
+  // Per-state breakdown only matters once gigs were played outside the home state
+  const stateBreakdown = (splitTaxResult.stateBreakdown ?? []).length > 1
+    ? splitTaxResult.stateBreakdown
+    : undefined;
+
   const hasIncome = gigIncome1099 > 0 || gigIncomeW2 > 0 || gigIncomeOther > 0;
 
   const handleW4Link = () => {
@@ -109,10 +117,22 @@ export function TaxSummaryCard({ dateRange = 'ytd', onUpdateProfile }: TaxSummar
               <Text style={styles.taxRowLabel}>SE Tax</Text>
               <Text style={styles.taxRowValue}>{formatTaxAmount(splitTaxResult.seTax)}</Text>
             </View>
+            {splitTaxResult.additionalMedicareTax > 0 && (
+              <View style={styles.taxRow}>
+                <Text style={styles.taxRowLabel}>Additional Medicare (0.9%)</Text>
+                <Text style={styles.taxRowValue}>{formatTaxAmount(splitTaxResult.additionalMedicareTax)}</Text>
+              </View>
+            )}
             <View style={styles.taxRow}>
               <Text style={styles.taxRowLabel}>Federal Income Tax</Text>
               <Text style={styles.taxRowValue}>{formatTaxAmount(splitTaxResult.federalTax1099)}</Text>
             </View>
+            {splitTaxResult.qbiDeduction > 0 && (
+              <View style={styles.stateBreakdownRow}>
+                <Text style={styles.stateBreakdownLabel}>Includes QBI deduction (§199A)</Text>
+                <Text style={styles.stateBreakdownValue}>-{formatTaxAmount(splitTaxResult.qbiDeduction)}</Text>
+              </View>
+            )}
             <View style={styles.taxRow}>
               <Text style={styles.taxRowLabel}>State Tax</Text>
               {splitTaxResult.hasUnsupportedState ? (
@@ -120,9 +140,28 @@ export function TaxSummaryCard({ dateRange = 'ytd', onUpdateProfile }: TaxSummar
                   <Text style={styles.unsupportedStateText}>⚠️ Not calculated for {taxProfile.state}</Text>
                 </View>
               ) : (
-                <Text style={styles.taxRowValue}>{formatTaxAmount(splitTaxResult.stateTax1099)}</Text>
+                <Text style={styles.taxRowValue}>
+                  {formatTaxAmount(splitTaxResult.stateTax1099)}
+                  {!splitTaxResult.stateTaxVerified && ' *'}
+                </Text>
               )}
             </View>
+            {stateBreakdown?.map((liability) => (
+              <View key={liability.state} style={styles.stateBreakdownRow}>
+                <Text style={styles.stateBreakdownLabel}>
+                  {getStateName(liability.state)} ({liability.isResident ? 'resident' : 'nonresident'}, {formatTaxRate(liability.share)} of income)
+                </Text>
+                <Text style={styles.stateBreakdownValue}>
+                  {formatTaxAmount(liability.owed)}
+                  {!liability.verified && ' *'}
+                </Text>
+              </View>
+            ))}
+            {stateBreakdown && stateBreakdown[0].credit > 0 && (
+              <Text style={styles.stateBreakdownNote}>
+                Includes a {formatTaxAmount(stateBreakdown[0].credit)} {taxProfile.state} credit for tax paid to other states
+              </Text>
+            )}
             {splitTaxResult.localTax1099 > 0 && (
               <View style={styles.taxRow}>
                 <Text style={styles.taxRowLabel}>Local Tax</Text>
@@ -154,6 +193,22 @@ export function TaxSummaryCard({ dateRange = 'ytd', onUpdateProfile }: TaxSummar
                 </Text>
               </View>
             )}
+
+            {/* Tax year fallback note */}
+            {splitTaxResult.configNotice && (
+              <View style={styles.stateWarning}>
+                <Text style={styles.stateWarningText}>ℹ️ {splitTaxResult.configNotice}</Text>
+              </View>
+            )}
+
+            {/* Unverified state tables note */}
+            {!splitTaxResult.hasUnsupportedState && !splitTaxResult.stateTaxVerified && (
+              <View style={styles.stateWarning}>
+                <Text style={styles.stateWarningText}>
+                  * {taxProfile.state} state tax uses planning-estimate brackets that haven't been verified against this year's official tables yet.
+                </Text>
+              </View>
+            )}
           </View>
 
           {/* SECTION 2: W-2 / Employer Income */}
@@ -376,6 +431,28 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Courier New' : 'monospace',
     color: colors.text.DEFAULT,
   },
+  stateBreakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+    paddingLeft: 12,
+  },
+  stateBreakdownLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  stateBreakdownValue: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Courier New' : 'monospace',
+    color: colors.text.subtle,
+  },
+  stateBreakdownNote: {
+    fontSize: 12,
+    color: colors.text.muted,
+    paddingLeft: 12,
+    paddingBottom: 4,
+  },
   unsupportedState: {
     flexDirection: 'row',
     alignItems: 'center',
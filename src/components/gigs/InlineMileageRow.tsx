@@ -9,7 +9,7 @@ import {
   calculateMileageDeduction,
   getMileageRateForDate,
   getMileageRateYearForDate,
-} from '../../lib/mileage';
+} from '../../tax/service';
 import { colors } from '../../styles/theme';
 import type { InlineMileage } from './inlineMileage';
 
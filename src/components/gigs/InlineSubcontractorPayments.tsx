@@ -12,6 +12,11 @@ export interface InlineSubcontractorPayment {
   subcontractor_name?: string;
   amount: string;
   note: string;
+  // Set when the payment came from a payout split, kept so editing the gig doesn't detach it
+  split_template_id?: string | null;
+  settlement_id?: string | null;
+  // Set once saved, kept so editing the gig doesn't re-date the payout
+  paid_on?: string;
 }
 
 interface InlineSubcontractorPaymentsProps {
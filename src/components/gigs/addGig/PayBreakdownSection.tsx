@@ -4,6 +4,7 @@ import { Accordion } from '../../ui/Accordion';
 import { spacing } from '../../../styles/theme';
 
 interface PayBreakdownSectionProps {
+  currencyField: React.ReactNode;
   tipsField: React.ReactNode;
   feesField: React.ReactNode;
   perDiemField: React.ReactNode;
@@ -13,6 +14,7 @@ interface PayBreakdownSectionProps {
 }
 
 export function PayBreakdownSection({
+  currencyField,
   tipsField,
   feesField,
   perDiemField,
@@ -21,7 +23,9 @@ export function PayBreakdownSection({
   isStacked = false,
 }: PayBreakdownSectionProps) {
   return (
-    <Accordion title="Pay breakdown" description="Tips, fees, per diem, and payment method">
+    <Accordion title="Pay breakdown" description="Currency, tips, fees, per diem, and payment method">
+      {currencyField}
+
       <View style={[styles.row, isStacked && styles.rowStacked]}>
         <View style={styles.flexField}>{tipsField}</View>
         <View style={styles.flexField}>{feesField}</View>
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useExchangeRates, useImportExchangeRates, useDeleteExchangeRate } from '../../hooks/useExchangeRates';
+import { parseExchangeRatesCSV, generateExchangeRatesTemplate } from '../../utils/csvImport';
+import { formatExchangeRate } from '../../utils/exchangeRates';
+import { downloadCSV } from '../../lib/exports/webDownloadHelpers';
+import { formatStoredDate } from '../../lib/date';
+import { showAlert } from '../../lib/dialog';
+import { colors } from '../../styles/theme';
+
+const VISIBLE_RATES = 8;
+
+export function ExchangeRatesSection() {
+  const { data: rates = [], isLoading } = useExchangeRates();
+  const importRates = useImportExchangeRates();
+  const deleteRate = useDeleteExchangeRate();
+
+  const [showImport, setShowImport] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showAll, setShowAll] = useState(false);
+
+  const currencies = useMemo(
+    () => Array.from(new Set(rates.map(rate => rate.currency))).sort(),
+    [rates]
+  );
+  const visibleRates = showAll ? rates : rates.slice(0, VISIBLE_RATES);
+
+  const resetImport = () => {
+    setShowImport(false);
+    setCsvText('');
+    setErrors([]);
+  };
+
+  const handleImport = async (text: string) => {
+    const { data, errors: parseErrors } = parseExchangeRatesCSV(text);
+    setErrors(parseErrors);
+
+    if (data.length === 0) {
+      if (parseErrors.length === 0) setErrors(['No rates found. Check the file has Date, Currency and USD per Unit columns.']);
+      return;
+    }
+
+    try {
+      const count = await importRates.mutateAsync(data);
+      if (parseErrors.length === 0) resetImport();
+      showAlert('Rates imported', `${count} exchange rate${count === 1 ? '' : 's'} saved.`);
+    } catch (e) {
+      setErrors([e instanceof Error ? e.message : 'Failed to import rates. Please try again.']);
+    }
+  };
+
+  const handleChooseFile = () => {
+    if (Platform.OS !== 'web') return;
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (file) {
+        await handleImport(await file.text());
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <>
+      <Text style={S.sectionLabel}>Exchange Rates</Text>
+      <View style={S.card}>
+        <Text style={S.subtext}>
+          Gigs, expenses and invoices in other currencies are converted to USD with the latest rate on or before
+          their date. Import rates from your bank or a published rate table; no connection is needed to use them.
+        </Text>
+
+        {isLoading ? (
+          <View style={S.loading}>
+            <ActivityIndicator color={colors.brand.DEFAULT} />
+          </View>
+        ) : rates.length === 0 ? (
+          <Text style={S.emptyText}>No rates imported yet.</Text>
+        ) : (
+          <>
+            <Text style={S.summaryText}>
+              {rates.length} rate{rates.length === 1 ? '' : 's'} · {currencies.join(', ')}
+            </Text>
+            {visibleRates.map(rate => (
+              <View key={rate.id} style={S.rateRow}>
+                <Text style={S.rateDate}>{formatStoredDate(rate.rate_date)}</Text>
+                <Text style={S.rateValue}>{formatExchangeRate(rate.currency, rate.usd_per_unit)}</Text>
+                <TouchableOpacity
+                  onPress={() => deleteRate.mutate(rate.id)}
+                  disabled={deleteRate.isPending}
+                  accessibilityLabel={`Delete ${rate.currency} rate for ${rate.rate_date}`}
+                >
+                  <Text style={S.deleteText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {rates.length > VISIBLE_RATES && (
+              <TouchableOpacity onPress={() => setShowAll(!showAll)}>
+                <Text style={S.linkText}>{showAll ? 'Show fewer' : `Show all ${rates.length}`}</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        {showImport ? (
+          <View style={S.importForm}>
+            <Text style={S.fieldLabel}>PASTE CSV (Date, Currency, USD per Unit)</Text>
+            <TextInput
+              style={S.input}
+              value={csvText}
+              onChangeText={setCsvText}
+              placeholder={generateExchangeRatesTemplate()}
+              placeholderTextColor={colors.text.subtle}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {errors.map(error => (
+              <Text key={error} style={S.errorText}>{error}</Text>
+            ))}
+            <View style={S.btnRow}>
+              <TouchableOpacity style={S.secondaryBtn} onPress={resetImport}>
+                <Text style={S.secondaryBtnText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[S.primaryBtn, (!csvText.trim() || importRates.isPending) && S.btnDisabled]}
+                onPress={() => handleImport(csvText)}
+                disabled={!csvText.trim() || importRates.isPending}
+              >
+                {importRates.isPending ? (
+                  <ActivityIndicator color={colors.brand.foreground} />
+                ) : (
+                  <Text style={S.primaryBtnText}>Import</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={S.btnRow}>
+            <TouchableOpacity style={S.primaryBtn} onPress={() => setShowImport(true)}>
+              <Text style={S.primaryBtnText}>Import Rates</Text>
+            </TouchableOpacity>
+            {Platform.OS === 'web' && (
+              <TouchableOpacity style={S.secondaryBtn} onPress={handleChooseFile}>
+                <Text style={S.secondaryBtnText}>Choose CSV File</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {Platform.OS === 'web' && (
+          <TouchableOpacity onPress={() => downloadCSV(generateExchangeRatesTemplate(), 'exchange_rates_template.csv')}>
+            <Text style={S.linkText}>Download template</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </>
+  );
+}
+
+const S = StyleSheet.create({
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    letterSpacing: 0.6,
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 4,
+    paddingHorizontal: 4,
+  },
+  card: {
+    backgroundColor: colors.surface.DEFAULT,
+    borderRadius: 14,
+    marginBottom: 20,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  loading: { alignItems: 'center', paddingVertical: 16 },
+  subtext: { fontSize: 14, color: colors.text.muted, lineHeight: 20, marginBottom: 14 },
+  emptyText: { fontSize: 14, color: colors.text.subtle, marginBottom: 14 },
+  summaryText: { fontSize: 13, fontWeight: '600', color: colors.text.DEFAULT, marginBottom: 8 },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.DEFAULT,
+    gap: 12,
+  },
+  rateDate: { width: 110, fontSize: 13, color: colors.text.muted },
+  rateValue: { flex: 1, fontSize: 14, color: colors.text.DEFAULT },
+  deleteText: { fontSize: 14, color: colors.text.subtle, paddingHorizontal: 4 },
+  linkText: { fontSize: 13, fontWeight: '600', color: colors.brand.DEFAULT, marginTop: 12 },
+  importForm: { marginTop: 14 },
+  fieldLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    letterSpacing: 0.4,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: colors.surface.muted,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.text.DEFAULT,
+    minHeight: 110,
+    textAlignVertical: 'top',
+  },
+  errorText: { fontSize: 13, color: colors.danger.DEFAULT, marginTop: 6 },
+  btnRow: { flexDirection: 'row', gap: 10, marginTop: 14 },
+  primaryBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.brand.DEFAULT,
+    alignItems: 'center',
+  },
+  primaryBtnText: { fontSize: 14, fontWeight: '600', color: colors.brand.foreground },
+  secondaryBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.surface.muted,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+  },
+  secondaryBtnText: { fontSize: 14, fontWeight: '600', color: colors.text.DEFAULT },
+  btnDisabled: { opacity: 0.5 },
+});
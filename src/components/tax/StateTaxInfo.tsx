@@ -164,7 +164,7 @@ function getStateExplanation(
 
   return {
     title: `${stateName} State Income Tax Explained`,
-    mainText: `You're above the ${stateName} standard deduction, so we estimate ${formatCurrency(stateTaxEstimate)} in state income tax so far.`,
+    mainText: `You're above the ${stateName} standard deduction, so we estimate ${formatCurrency(stateTaxEstimate)} in state income tax${hasLocalTax ? ` and ${formatCurrency(localTaxEstimate)} in local income tax` : ''} so far.`,
   };
 }
 
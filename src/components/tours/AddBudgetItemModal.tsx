@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  TextInput,
+} from 'react-native';
+import { useDeleteTourBudgetItem, useSaveTourBudgetItem } from '../../hooks/useTourBudget';
+import { H2, Button } from '../../ui';
+import { colors, spacingNum, radiusNum } from '../../styles/theme';
+import { formatDate } from '../../utils/format';
+import { sanitizeAmountInput } from '../../utils/sanitizeAmountInput';
+import { TOUR_BUDGET_CATEGORIES } from '../../utils/tourBudget';
+import type { TourBudgetCategory, TourBudgetItem } from '../../types/tours.types';
+
+interface AddBudgetItemModalProps {
+  visible: boolean;
+  tourId: string;
+  gigs: Array<{ id: string; title: string | null; date: string }>;
+  item?: TourBudgetItem | null; // Edit an existing line
+  onClose: () => void;
+}
+
+export function AddBudgetItemModal({ visible, tourId, gigs, item, onClose }: AddBudgetItemModalProps) {
+  const [category, setCategory] = useState<TourBudgetCategory>('guarantee');
+  const [gigId, setGigId] = useState<string | null>(null);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState('');
+
+  const saveItem = useSaveTourBudgetItem();
+  const deleteItem = useDeleteTourBudgetItem();
+  const isPending = saveItem.isPending || deleteItem.isPending;
+
+  useEffect(() => {
+    if (!visible) return;
+    setCategory((item?.category as TourBudgetCategory) ?? 'guarantee');
+    setGigId(item?.gig_id ?? null);
+    setDescription(item?.description ?? '');
+    setAmount(item ? String(item.amount) : '');
+    setError('');
+  }, [visible, item]);
+
+  const handleSubmit = async () => {
+    const amountNum = parseFloat(amount);
+    if (!amount || isNaN(amountNum) || amountNum < 0) {
+      setError('Enter the budgeted amount');
+      return;
+    }
+
+    try {
+      await saveItem.mutateAsync({
+        id: item?.id,
+        tour_id: tourId,
+        gig_id: gigId,
+        category,
+        description: description.trim() || null,
+        amount: amountNum,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Failed to save budget line:', err);
+      setError('Failed to save budget line. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!item) return;
+    try {
+      await deleteItem.mutateAsync({ itemId: item.id, tourId });
+      onClose();
+    } catch (err) {
+      console.error('Failed to delete budget line:', err);
+      setError('Failed to delete budget line. Please try again.');
+    }
+  };
+
+  const showOptions = [{ id: null, label: 'Whole tour' }, ...gigs.map((gig) => ({
+    id: gig.id,
+    label: `${formatDate(gig.date)} · ${gig.title || 'Untitled Gig'}`,
+  }))];
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()} style={styles.modalContainer}>
+          <View style={styles.modal}>
+            <View style={styles.header}>
+              <H2>{item ? 'Edit Budget Line' : 'Add Budget Line'}</H2>
+              <TouchableOpacity onPress={onClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.content}>
+              <View style={styles.field}>
+                <Text style={styles.label}>Category</Text>
+                <View style={styles.pills}>
+                  {TOUR_BUDGET_CATEGORIES.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.pill, category === option.value && styles.pillActive]}
+                      onPress={() => setCategory(option.value)}
+                    >
+                      <Text style={[styles.pillText, category === option.value && styles.pillTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {gigs.length > 0 && (
+                <View style={styles.field}>
+                  <Text style={styles.label}>Show</Text>
+                  <View style={styles.pills}>
+                    {showOptions.map((option) => (
+                      <TouchableOpacity
+                        key={option.id ?? 'tour'}
+                        style={[styles.pill, gigId === option.id && styles.pillActive]}
+                        onPress={() => setGigId(option.id)}
+                      >
+                        <Text style={[styles.pillText, gigId === option.id && styles.pillTextActive]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              <View style={styles.field}>
+                <Text style={styles.label}>Description</Text>
+                <TextInput
+                  style={styles.input}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder="Optional, e.g. Van fuel Denver → Salt Lake"
+                />
+              </View>
+
+              <View style={styles.field}>
+                <Text style={styles.label}>Amount *</Text>
+                <TextInput
+                  style={[styles.input, error && styles.inputError]}
+                  value={amount}
+                  onChangeText={(text) => {
+                    setAmount(sanitizeAmountInput(text));
+                    if (error) setError('');
+                  }}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                />
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+              </View>
+            </ScrollView>
+
+            <View style={styles.footer}>
+              {item && (
+                <Button variant="destructive" onPress={handleDelete} disabled={isPending}>
+                  Delete
+                </Button>
+              )}
+              <View style={styles.footerSpacer} />
+              <Button variant="ghost" onPress={onClose} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button onPress={handleSubmit} disabled={isPending || !amount}>
+                {saveItem.isPending ? 'Saving...' : item ? 'Save' : 'Add Line'}
+              </Button>
+            </View>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: '90%',
+    maxWidth: 560,
+    maxHeight: '90%',
+  },
+  modal: {
+    backgroundColor: colors.surface.DEFAULT,
+    borderRadius: radiusNum.lg,
+    overflow: 'hidden',
+    ...Platform.select({
+      web: {
+        boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)',
+      },
+      default: {
+        elevation: 8,
+      },
+    }),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacingNum[6],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.DEFAULT,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: colors.text.muted,
+    padding: spacingNum[2],
+  },
+  content: {
+    padding: spacingNum[6],
+    maxHeight: 500,
+  },
+  field: {
+    marginBottom: spacingNum[5],
+  },
+  label: {
+    marginBottom: spacingNum[2],
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: radiusNum.md,
+    padding: spacingNum[3],
+    fontSize: 16,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  inputError: {
+    borderColor: colors.danger.DEFAULT,
+  },
+  errorText: {
+    color: colors.danger.DEFAULT,
+    fontSize: 14,
+    marginTop: spacingNum[1],
+  },
+  pills: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacingNum[2],
+  },
+  pill: {
+    paddingHorizontal: spacingNum[4],
+    paddingVertical: spacingNum[2],
+    borderRadius: radiusNum.md,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  pillActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  pillText: {
+    color: colors.text.DEFAULT,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  pillTextActive: {
+    color: colors.brand.foreground,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacingNum[3],
+    padding: spacingNum[6],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.DEFAULT,
+  },
+  footerSpacer: {
+    flex: 1,
+  },
+});
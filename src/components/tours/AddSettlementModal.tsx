@@ -8,6 +8,7 @@ import {
   TouchableOpacity,
   Platform,
   TextInput,
+  Switch,
 } from 'react-native';
 import { useTour } from '../../hooks/useTours';
 import { useCreateSettlement } from '../../hooks/useSettlements';
@@ -15,7 +16,9 @@ import { H2, H3, Text, Button } from '../../ui';
 import { colors, spacingNum, radiusNum } from '../../styles/theme';
 import { formatCurrency, formatDate } from '../../utils/format';
 import { generateAllocationPreview, validateCustomAllocations, getAllocationModeLabel } from '../../utils/tourAllocations';
-import type { AllocationMode, AllocationJson } from '../../types/tours.types';
+import { calculateSettlement, createSettlementDeal } from '../../utils/settlementDeal';
+import { SettlementCalculator } from './SettlementCalculator';
+import type { AllocationMode, AllocationJson, SettlementDeal, SettlementWorksheet } from '../../types/tours.types';
 
 interface AddSettlementModalProps {
   visible: boolean;
@@ -31,6 +34,12 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
   const [allocationMode, setAllocationMode] = useState<AllocationMode>('even');
   const [customAllocations, setCustomAllocations] = useState<AllocationJson>({});
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [gigId, setGigId] = useState<string | null>(null);
+  const [useDeal, setUseDeal] = useState(false);
+  const [deal, setDeal] = useState<SettlementDeal>(createSettlementDeal);
+  const [venueRep, setVenueRep] = useState('');
+  const [artistRep, setArtistRep] = useState('');
+  const [signedOff, setSignedOff] = useState(false);
 
   const { data: tour } = useTour(tourId);
   const createSettlement = useCreateSettlement();
@@ -48,8 +57,12 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
     }));
   }, [tour]);
 
+  // A worked-out deal sets the amount
+  const dealPayout = useMemo(() => calculateSettlement(deal).total_payout, [deal]);
+  const effectiveAmount = useDeal ? String(dealPayout) : amount;
+
   const allocationPreview = useMemo(() => {
-    const amountNum = parseFloat(amount);
+    const amountNum = parseFloat(effectiveAmount);
     if (!amountNum || amountNum <= 0 || gigs.length === 0) return [];
 
     return generateAllocationPreview(
@@ -58,17 +71,19 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
       allocationMode,
       allocationMode === 'custom' ? customAllocations : undefined
     );
-  }, [amount, gigs, allocationMode, customAllocations]);
+  }, [effectiveAmount, gigs, allocationMode, customAllocations]);
 
   const handleSubmit = async () => {
     const newErrors: { [key: string]: string } = {};
 
-    const amountNum = parseFloat(amount);
-    if (!amount || amountNum <= 0) {
-      newErrors.amount = 'Amount is required and must be greater than 0';
+    const amountNum = parseFloat(effectiveAmount);
+    if (!effectiveAmount || amountNum <= 0) {
+      newErrors.amount = useDeal
+        ? 'The deal must pay out more than $0'
+        : 'Amount is required and must be greater than 0';
     }
 
-    if (allocationMode === 'custom') {
+    if (allocationMode === 'custom' && !gigId) {
       const validation = validateCustomAllocations(customAllocations, amountNum);
       if (!validation.valid) {
         newErrors.custom = `Custom allocations must sum to ${formatCurrency(amountNum)}. Current difference: ${formatCurrency(validation.difference)}`;
@@ -81,21 +96,37 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
     }
 
     try {
-      const allocationJson = allocationMode === 'custom' || allocationMode === 'weighted' || allocationMode === 'even'
+      // A single show's settlement goes entirely to that gig
+      const allocationJson = gigId
+        ? { [gigId]: amountNum }
+        : allocationMode === 'custom' || allocationMode === 'weighted' || allocationMode === 'even'
         ? allocationPreview.reduce((acc, p) => {
             acc[p.gigId] = p.allocatedAmount;
             return acc;
           }, {} as AllocationJson)
         : null;
 
+      const worksheet: SettlementWorksheet | null = useDeal
+        ? {
+            deal,
+            signatures: {
+              venue_rep: venueRep.trim() || null,
+              artist_rep: artistRep.trim() || null,
+            },
+          }
+        : null;
+
       await createSettlement.mutateAsync({
         tour_id: tourId,
+        gig_id: gigId,
         amount: amountNum,
         payer_name: payerName.trim() || null,
         paid_at: paidAt || null,
         notes: notes.trim() || null,
-        allocation_mode: allocationMode,
+        allocation_mode: gigId ? 'custom' : allocationMode,
         allocation_json: allocationJson,
+        worksheet,
+        signed_off_at: useDeal && signedOff ? new Date().toISOString() : null,
       });
 
       handleClose();
@@ -113,6 +144,12 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
     setAllocationMode('even');
     setCustomAllocations({});
     setErrors({});
+    setGigId(null);
+    setUseDeal(false);
+    setDeal(createSettlementDeal());
+    setVenueRep('');
+    setArtistRep('');
+    setSignedOff(false);
     onClose();
   };
 
@@ -150,22 +187,57 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
             </View>
 
             <ScrollView style={styles.content}>
-              {/* Amount */}
-              <View style={styles.field}>
-                <Text style={styles.label}>Amount *</Text>
-                <TextInput
-                  style={[styles.input, errors.amount && styles.inputError]}
-                  value={amount}
-                  onChangeText={(text) => {
-                    setAmount(text);
-                    if (errors.amount) setErrors(prev => ({ ...prev, amount: '' }));
-                  }}
-                  placeholder="0.00"
-                  keyboardType="decimal-pad"
-                />
-                {errors.amount && <Text style={styles.errorText}>{errors.amount}</Text>}
+              {/* Show */}
+              {gigs.length > 0 && (
+                <View style={styles.field}>
+                  <Text style={styles.label}>Show</Text>
+                  <View style={styles.allocationModes}>
+                    {[{ id: null, title: 'Whole tour', date: null }, ...gigs].map((gig) => (
+                      <TouchableOpacity
+                        key={gig.id ?? 'tour'}
+                        style={[styles.modeButton, gigId === gig.id && styles.modeButtonActive]}
+                        onPress={() => setGigId(gig.id)}
+                      >
+                        <Text style={[styles.modeButtonText, gigId === gig.id && styles.modeButtonTextActive]}>
+                          {gig.date ? `${formatDate(gig.date)} · ${gig.title || 'Untitled Gig'}` : gig.title}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* Deal calculator */}
+              <View style={[styles.field, styles.switchRow]}>
+                <View style={styles.switchLabel}>
+                  <Text style={styles.label}>Work out from the deal</Text>
+                  <Text muted>Guarantee vs. door, house expenses, bonuses and merch</Text>
+                </View>
+                <Switch value={useDeal} onValueChange={setUseDeal} />
               </View>
 
+              {useDeal ? (
+                <View style={styles.field}>
+                  <SettlementCalculator deal={deal} onChange={setDeal} />
+                  {errors.amount && <Text style={styles.errorText}>{errors.amount}</Text>}
+                </View>
+              ) : (
+                <View style={styles.field}>
+                  <Text style={styles.label}>Amount *</Text>
+                  <TextInput
+                    style={[styles.input, errors.amount && styles.inputError]}
+                    value={amount}
+                    onChangeText={(text) => {
+                      setAmount(text);
+                      if (errors.amount) setErrors(prev => ({ ...prev, amount: '' }));
+                    }}
+                    placeholder="0.00"
+                    keyboardType="decimal-pad"
+                  />
+                  {errors.amount && <Text style={styles.errorText}>{errors.amount}</Text>}
+                </View>
+              )}
+
               {/* Payer Name */}
               <View style={styles.field}>
                 <Text style={styles.label}>Payer Name</Text>
@@ -201,34 +273,61 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
                 />
               </View>
 
+              {/* Sign-off */}
+              {useDeal && (
+                <View style={styles.field}>
+                  <Text style={styles.label}>Signed Off By</Text>
+                  <View style={styles.signatureFields}>
+                    <TextInput
+                      style={[styles.input, styles.signatureInput]}
+                      value={venueRep}
+                      onChangeText={setVenueRep}
+                      placeholder="Venue / promoter"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.signatureInput]}
+                      value={artistRep}
+                      onChangeText={setArtistRep}
+                      placeholder="Artist rep"
+                    />
+                  </View>
+                  <View style={styles.switchRow}>
+                    <Text style={styles.switchLabel}>Both sides have signed off</Text>
+                    <Switch value={signedOff} onValueChange={setSignedOff} />
+                  </View>
+                </View>
+              )}
+
               {/* Allocation Mode */}
-              <View style={styles.field}>
-                <Text style={styles.label}>Allocation Mode *</Text>
-                <View style={styles.allocationModes}>
-                  {(['even', 'weighted', 'custom', 'none'] as AllocationMode[]).map((mode) => (
-                    <TouchableOpacity
-                      key={mode}
-                      style={[
-                        styles.modeButton,
-                        allocationMode === mode && styles.modeButtonActive,
-                      ]}
-                      onPress={() => setAllocationMode(mode)}
-                    >
-                      <Text
+              {!gigId && (
+                <View style={styles.field}>
+                  <Text style={styles.label}>Allocation Mode *</Text>
+                  <View style={styles.allocationModes}>
+                    {(['even', 'weighted', 'custom', 'none'] as AllocationMode[]).map((mode) => (
+                      <TouchableOpacity
+                        key={mode}
                         style={[
-                          styles.modeButtonText,
-                          allocationMode === mode && styles.modeButtonTextActive,
+                          styles.modeButton,
+                          allocationMode === mode && styles.modeButtonActive,
                         ]}
+                        onPress={() => setAllocationMode(mode)}
                       >
-                        {getAllocationModeLabel(mode)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                        <Text
+                          style={[
+                            styles.modeButtonText,
+                            allocationMode === mode && styles.modeButtonTextActive,
+                          ]}
+                        >
+                          {getAllocationModeLabel(mode)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
                 </View>
-              </View>
+              )}
 
               {/* Allocation Preview */}
-              {allocationMode !== 'none' && gigs.length > 0 && allocationPreview.length > 0 && (
+              {!gigId && allocationMode !== 'none' && gigs.length > 0 && allocationPreview.length > 0 && (
                 <View style={styles.previewSection}>
                   <H3 style={styles.previewTitle}>Allocation Preview</H3>
                   {allocationMode === 'custom' && errors.custom && (
@@ -276,7 +375,7 @@ export function AddSettlementModal({ visible, tourId, onClose }: AddSettlementMo
               </Button>
               <Button
                 onPress={handleSubmit}
-                disabled={createSettlement.isPending || !amount}
+                disabled={createSettlement.isPending || !effectiveAmount}
               >
                 {createSettlement.isPending ? 'Creating...' : 'Create Settlement'}
               </Button>
@@ -363,6 +462,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: spacingNum[1],
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacingNum[3],
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  signatureFields: {
+    flexDirection: 'row',
+    gap: spacingNum[2],
+    marginBottom: spacingNum[3],
+  },
+  signatureInput: {
+    flex: 1,
+  },
   allocationModes: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,343 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { useApplyPayoutSplit, usePayoutSplitTemplates, useTourMemberPayments } from '../../hooks/usePayoutSplits';
+import { useSubcontractors } from '../../hooks/useSubcontractors';
+import { H2, H3, Button, Card } from '../../ui';
+import { colors, spacingNum, radiusNum } from '../../styles/theme';
+import { confirmDialog, showAlert } from '../../lib/dialog';
+import { formatCurrency, formatDate } from '../../utils/format';
+import { calculateAllocation } from '../../utils/tourAllocations';
+import { buildMemberStatements, parsePayoutShares, pickDefaultSplitTemplate } from '../../utils/payoutSplits';
+import { printMemberStatement } from '../../utils/memberStatementExport';
+import { PayoutSplitTemplateModal } from './PayoutSplitTemplateModal';
+import type { AllocationJson, AllocationMode, PayoutSplitTemplate, Settlement, TourWithGigs } from '../../types/tours.types';
+
+interface BandPayoutsSectionProps {
+  tour: TourWithGigs;
+  settlements: Settlement[];
+}
+
+interface SplitSource {
+  key: string;
+  title: string;
+  subtitle: string;
+  amount: number;
+  settlementId: string | null;
+  payerId: string | null;
+  allocations: AllocationJson;
+}
+
+export function BandPayoutsSection({ tour, settlements }: BandPayoutsSectionProps) {
+  const { data: templates = [] } = usePayoutSplitTemplates();
+  const { data: payments = [] } = useTourMemberPayments(tour.id);
+  const { data: subcontractors = [] } = useSubcontractors();
+  const applySplit = useApplyPayoutSplit();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<PayoutSplitTemplate | null>(null);
+  // null uses the split attached to the tour or payer
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [applyingKey, setApplyingKey] = useState<string | null>(null);
+
+  const gigs = useMemo(() => tour.gigs ?? [], [tour.gigs]);
+  const memberNames = new Map(subcontractors.map((sub) => [sub.id, sub.name]));
+
+  // Settlements split across the shows they're allocated to; gigs no settlement
+  // covers split their own income
+  const sources = useMemo<SplitSource[]>(() => {
+    const covered = new Set<string>();
+    const settlementSources = settlements.map((settlement) => {
+      const allocations = calculateAllocation(
+        settlement.amount,
+        gigs,
+        settlement.allocation_mode as AllocationMode,
+        (settlement.allocation_json as AllocationJson | null) ?? undefined
+      );
+      Object.entries(allocations).forEach(([gigId, amount]) => {
+        if (amount > 0) covered.add(gigId);
+      });
+      const show = gigs.find((gig) => gig.id === settlement.gig_id);
+      return {
+        key: `settlement-${settlement.id}`,
+        title: settlement.payer_name || 'Settlement',
+        subtitle: show
+          ? `${formatDate(show.date)} · ${show.title || 'Untitled Gig'}`
+          : `Settlement · ${settlement.allocation_mode}`,
+        amount: settlement.amount,
+        settlementId: settlement.id,
+        payerId: show?.payer?.id ?? null,
+        allocations,
+      };
+    });
+
+    const gigSources = gigs
+      .filter((gig) => !covered.has(gig.id))
+      .map((gig) => {
+        const income = (gig.gross_amount || 0) + (gig.tips || 0) + (gig.other_income || 0);
+        return {
+          key: `gig-${gig.id}`,
+          title: gig.title || 'Untitled Gig',
+          subtitle: `${formatDate(gig.date)}${gig.payer ? ` · ${gig.payer.name}` : ''}`,
+          amount: income,
+          settlementId: null,
+          payerId: gig.payer?.id ?? null,
+          allocations: { [gig.id]: income },
+        };
+      });
+
+    return [...settlementSources, ...gigSources];
+  }, [settlements, gigs]);
+
+  const statements = useMemo(() => buildMemberStatements(payments), [payments]);
+
+  const templateFor = (source: SplitSource) =>
+    (selectedTemplateId ? templates.find((t) => t.id === selectedTemplateId) : undefined)
+    ?? pickDefaultSplitTemplate(templates, { tourId: tour.id, payerId: source.payerId });
+
+  const generatedFor = (source: SplitSource) => payments.filter((payment) => (source.settlementId
+    ? payment.settlement_id === source.settlementId
+    : payment.gig_id === Object.keys(source.allocations)[0] && !payment.settlement_id && !!payment.split_template_id));
+
+  const handleApply = async (source: SplitSource) => {
+    const template = templateFor(source);
+    if (!template) return;
+
+    const existing = generatedFor(source);
+    if (existing.length > 0) {
+      const confirmed = await confirmDialog(
+        'Replace payouts?',
+        `This replaces the ${existing.length} member ${existing.length === 1 ? 'payment' : 'payments'} generated for ${source.title} with a new "${template.name}" split.`
+      );
+      if (!confirmed) return;
+    }
+
+    setApplyingKey(source.key);
+    try {
+      await applySplit.mutateAsync({
+        template,
+        tourId: tour.id,
+        settlementId: source.settlementId,
+        allocations: source.allocations,
+      });
+    } catch (err) {
+      console.error('Failed to apply payout split:', err);
+      showAlert('Error', 'Failed to apply payout split. Please try again.');
+    } finally {
+      setApplyingKey(null);
+    }
+  };
+
+  const handlePrintStatement = (statement: (typeof statements)[number]) => {
+    if (Platform.OS !== 'web') {
+      showAlert('Web only', 'Printing member statements is currently available on web.');
+      return;
+    }
+    printMemberStatement({ statement, artistName: tour.artist_name, tourName: tour.name });
+  };
+
+  const describeShares = (template: PayoutSplitTemplate) => parsePayoutShares(template.shares)
+    .map((share) => `${share.subcontractor_id ? memberNames.get(share.subcontractor_id) ?? 'Member' : 'You'} ${share.percent}%`)
+    .join(' · ');
+
+  const describeAttachment = (template: PayoutSplitTemplate) => {
+    if (template.tour_id === tour.id) return 'Default for this tour';
+    if (template.tour_id) return 'Attached to another tour';
+    if (template.payer_id) {
+      const payer = gigs.find((gig) => gig.payer?.id === template.payer_id)?.payer;
+      return payer ? `Default for ${payer.name}` : 'Attached to a payer';
+    }
+    return 'Not attached';
+  };
+
+  const openModal = (template: PayoutSplitTemplate | null) => {
+    setEditingTemplate(template);
+    setModalOpen(true);
+  };
+
+  return (
+    <Card variant="elevated" style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <H2 style={styles.sectionTitle}>Band Payouts</H2>
+        <Button size="sm" onPress={() => openModal(null)}>
+          New Split
+        </Button>
+      </View>
+
+      {templates.length === 0 ? (
+        <Text style={styles.mutedText}>
+          No payout splits yet. Create one with each member's share to generate their payments from settlements and gigs.
+        </Text>
+      ) : (
+        <>
+          {templates.map((template) => (
+            <TouchableOpacity key={template.id} style={styles.row} onPress={() => openModal(template)}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>{template.name}</Text>
+                <Text style={styles.mutedText}>{describeShares(template)}</Text>
+                <Text style={styles.subtleText}>{describeAttachment(template)}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          <H3 style={styles.subheading}>Split Income</H3>
+          <View style={styles.pills}>
+            {[{ id: null, name: 'Attached split' }, ...templates].map((option) => (
+              <TouchableOpacity
+                key={option.id ?? 'default'}
+                style={[styles.pill, selectedTemplateId === option.id && styles.pillActive]}
+                onPress={() => setSelectedTemplateId(option.id)}
+              >
+                <Text style={[styles.pillText, selectedTemplateId === option.id && styles.pillTextActive]}>
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {sources.map((source) => {
+            const template = templateFor(source);
+            const generated = generatedFor(source);
+            const generatedTotal = generated.reduce((sum, payment) => sum + payment.amount, 0);
+            const unallocated = Object.keys(source.allocations).length === 0;
+
+            return (
+              <View key={source.key} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{source.title}</Text>
+                  <Text style={styles.mutedText}>{source.subtitle}</Text>
+                  <Text style={styles.subtleText}>
+                    {unallocated
+                      ? 'Allocate this settlement to shows to split it'
+                      : generated.length > 0
+                        ? `${formatCurrency(generatedTotal)} paid to members`
+                        : template ? `Split with ${template.name}` : 'No split attached'}
+                  </Text>
+                </View>
+                <View style={styles.rowActions}>
+                  <Text style={styles.rowAmount}>{formatCurrency(source.amount)}</Text>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onPress={() => handleApply(source)}
+                    disabled={!template || unallocated || source.amount <= 0 || applyingKey !== null}
+                  >
+                    {applyingKey === source.key ? 'Applying...' : generated.length > 0 ? 'Re-apply' : 'Apply'}
+                  </Button>
+                </View>
+              </View>
+            );
+          })}
+        </>
+      )}
+
+      {statements.length > 0 && (
+        <>
+          <H3 style={styles.subheading}>Member Statements</H3>
+          {statements.map((statement) => (
+            <View key={statement.subcontractorId} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>{statement.name}</Text>
+                <Text style={styles.mutedText}>
+                  {statement.lines.length} {statement.lines.length === 1 ? 'payment' : 'payments'}
+                </Text>
+              </View>
+              <View style={styles.rowActions}>
+                <Text style={styles.rowAmount}>{formatCurrency(statement.total)}</Text>
+                <TouchableOpacity onPress={() => handlePrintStatement(statement)}>
+                  <Text style={styles.link}>Statement</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </>
+      )}
+
+      <PayoutSplitTemplateModal
+        visible={modalOpen}
+        tourId={tour.id}
+        template={editingTemplate}
+        onClose={() => setModalOpen(false)}
+      />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    margin: spacingNum[4],
+    padding: spacingNum[6],
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingNum[4],
+  },
+  sectionTitle: {
+    marginBottom: 0,
+  },
+  subheading: {
+    marginTop: spacingNum[5],
+    marginBottom: spacingNum[2],
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacingNum[3],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  rowActions: {
+    alignItems: 'flex-end',
+    gap: spacingNum[1],
+  },
+  rowAmount: {
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  mutedText: {
+    color: colors.text.muted,
+  },
+  subtleText: {
+    fontSize: 12,
+    color: colors.text.subtle,
+  },
+  link: {
+    color: colors.brand.DEFAULT,
+    fontWeight: '500',
+  },
+  pills: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacingNum[2],
+    marginBottom: spacingNum[2],
+  },
+  pill: {
+    paddingHorizontal: spacingNum[3],
+    paddingVertical: spacingNum[1],
+    borderRadius: radiusNum.md,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  pillActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  pillText: {
+    color: colors.text.DEFAULT,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  pillTextActive: {
+    color: colors.brand.foreground,
+  },
+});
@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  TextInput,
+} from 'react-native';
+import { useDeletePayoutSplitTemplate, useSavePayoutSplitTemplate } from '../../hooks/usePayoutSplits';
+import { usePayers } from '../../hooks/usePayers';
+import { useSubcontractors } from '../../hooks/useSubcontractors';
+import { H2, Button } from '../../ui';
+import { colors, spacingNum, radiusNum } from '../../styles/theme';
+import { confirmDialog } from '../../lib/dialog';
+import { sanitizeAmountInput } from '../../utils/sanitizeAmountInput';
+import { getPayoutSharesError, parsePayoutShares } from '../../utils/payoutSplits';
+import type { Json } from '../../types/database.types';
+import type { PayoutShare, PayoutSplitTemplate } from '../../types/tours.types';
+
+interface PayoutSplitTemplateModalProps {
+  visible: boolean;
+  tourId: string;
+  template?: PayoutSplitTemplate | null; // Edit an existing split
+  onClose: () => void;
+}
+
+type Attachment = 'none' | 'tour' | 'payer';
+
+const LEADER_KEY = 'leader';
+
+export function PayoutSplitTemplateModal({ visible, tourId, template, onClose }: PayoutSplitTemplateModalProps) {
+  const [name, setName] = useState('');
+  const [attachment, setAttachment] = useState<Attachment>('tour');
+  const [payerId, setPayerId] = useState<string | null>(null);
+  // Percent text per member, keyed by subcontractor id or LEADER_KEY
+  const [percents, setPercents] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  const { data: subcontractors = [] } = useSubcontractors();
+  const { data: payers = [] } = usePayers();
+  const saveTemplate = useSavePayoutSplitTemplate();
+  const deleteTemplate = useDeletePayoutSplitTemplate();
+  const isPending = saveTemplate.isPending || deleteTemplate.isPending;
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(template?.name ?? '');
+    setAttachment(template ? (template.tour_id ? 'tour' : template.payer_id ? 'payer' : 'none') : 'tour');
+    setPayerId(template?.payer_id ?? null);
+    setPercents(Object.fromEntries(parsePayoutShares(template?.shares).map((share) => [
+      share.subcontractor_id ?? LEADER_KEY,
+      String(share.percent),
+    ])));
+    setError('');
+  }, [visible, template]);
+
+  const members = [
+    { key: LEADER_KEY, label: 'You (leader)' },
+    ...subcontractors.map((sub) => ({ key: sub.id, label: sub.name })),
+  ];
+
+  const shares: PayoutShare[] = members.flatMap((member) => {
+    const percent = parseFloat(percents[member.key] ?? '');
+    if (!(percent > 0)) return [];
+    return [{ subcontractor_id: member.key === LEADER_KEY ? null : member.key, percent }];
+  });
+  const total = shares.reduce((sum, share) => sum + share.percent, 0);
+
+  const handleSplitEvenly = () => {
+    const keys = members.filter((member) => (percents[member.key] ?? '') !== '').map((member) => member.key);
+    if (keys.length === 0) return;
+    const each = Math.floor((100 / keys.length) * 1000) / 1000;
+    const last = Math.round((100 - each * (keys.length - 1)) * 1000) / 1000;
+    setPercents(Object.fromEntries(keys.map((key, index) => [key, String(index === keys.length - 1 ? last : each)])));
+    if (error) setError('');
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setError('Give the split a name');
+      return;
+    }
+    if (attachment === 'payer' && !payerId) {
+      setError('Choose the payer this split is for');
+      return;
+    }
+    const sharesError = getPayoutSharesError(shares);
+    if (sharesError) {
+      setError(sharesError);
+      return;
+    }
+
+    try {
+      await saveTemplate.mutateAsync({
+        id: template?.id,
+        name: name.trim(),
+        tour_id: attachment === 'tour' ? tourId : null,
+        payer_id: attachment === 'payer' ? payerId : null,
+        shares: shares as unknown as Json,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Failed to save payout split:', err);
+      setError('Failed to save payout split. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!template) return;
+    const confirmed = await confirmDialog(
+      'Delete split?',
+      `Payments already generated from "${template.name}" are kept.`
+    );
+    if (!confirmed) return;
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      onClose();
+    } catch (err) {
+      console.error('Failed to delete payout split:', err);
+      setError('Failed to delete payout split. Please try again.');
+    }
+  };
+
+  const attachmentOptions: { value: Attachment; label: string }[] = [
+    { value: 'tour', label: 'This tour' },
+    { value: 'payer', label: 'A payer' },
+    { value: 'none', label: 'Not attached' },
+  ];
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()} style={styles.modalContainer}>
+          <View style={styles.modal}>
+            <View style={styles.header}>
+              <H2>{template ? 'Edit Payout Split' : 'New Payout Split'}</H2>
+              <TouchableOpacity onPress={onClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.content}>
+              <View style={styles.field}>
+                <Text style={styles.label}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={(text) => {
+                    setName(text);
+                    if (error) setError('');
+                  }}
+                  placeholder="e.g. Quintet — leader 30%"
+                />
+              </View>
+
+              <View style={styles.field}>
+                <Text style={styles.label}>Use by default for</Text>
+                <View style={styles.pills}>
+                  {attachmentOptions.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.pill, attachment === option.value && styles.pillActive]}
+                      onPress={() => setAttachment(option.value)}
+                    >
+                      <Text style={[styles.pillText, attachment === option.value && styles.pillTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {attachment === 'payer' && (
+                  <View style={[styles.pills, styles.payerPills]}>
+                    {payers.map((payer) => (
+                      <TouchableOpacity
+                        key={payer.id}
+                        style={[styles.pill, payerId === payer.id && styles.pillActive]}
+                        onPress={() => setPayerId(payer.id)}
+                      >
+                        <Text style={[styles.pillText, payerId === payer.id && styles.pillTextActive]}>
+                          {payer.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.field}>
+                <View style={styles.sharesHeader}>
+                  <Text style={styles.label}>Shares</Text>
+                  <TouchableOpacity onPress={handleSplitEvenly}>
+                    <Text style={styles.link}>Split evenly</Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.hint}>
+                  Enter a percentage for everyone in the split. Your share stays with you; members are paid theirs.
+                </Text>
+                {members.map((member) => (
+                  <View key={member.key} style={styles.shareRow}>
+                    <Text style={styles.shareName}>{member.label}</Text>
+                    <TextInput
+                      style={[styles.input, styles.percentInput]}
+                      value={percents[member.key] ?? ''}
+                      onChangeText={(text) => {
+                        setPercents((prev) => ({ ...prev, [member.key]: sanitizeAmountInput(text) }));
+                        if (error) setError('');
+                      }}
+                      placeholder="—"
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={styles.percentSign}>%</Text>
+                  </View>
+                ))}
+                {subcontractors.length === 0 && (
+                  <Text style={styles.hint}>Add band members as subcontractors to include them in a split.</Text>
+                )}
+                <Text style={[styles.total, Math.abs(total - 100) > 0.001 && styles.totalOff]}>
+                  Total {Math.round(total * 1000) / 1000}%
+                </Text>
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+              </View>
+            </ScrollView>
+
+            <View style={styles.footer}>
+              {template && (
+                <Button variant="destructive" onPress={handleDelete} disabled={isPending}>
+                  Delete
+                </Button>
+              )}
+              <View style={styles.footerSpacer} />
+              <Button variant="ghost" onPress={onClose} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button onPress={handleSubmit} disabled={isPending}>
+                {saveTemplate.isPending ? 'Saving...' : template ? 'Save' : 'Create Split'}
+              </Button>
+            </View>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay.DEFAULT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: '90%',
+    maxWidth: 560,
+    maxHeight: '90%',
+  },
+  modal: {
+    backgroundColor: colors.surface.DEFAULT,
+    borderRadius: radiusNum.lg,
+    overflow: 'hidden',
+    ...Platform.select({
+      web: {
+        boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)',
+      },
+      default: {
+        elevation: 8,
+      },
+    }),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacingNum[6],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.DEFAULT,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: colors.text.muted,
+    padding: spacingNum[2],
+  },
+  content: {
+    padding: spacingNum[6],
+    maxHeight: 500,
+  },
+  field: {
+    marginBottom: spacingNum[5],
+  },
+  label: {
+    marginBottom: spacingNum[2],
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginBottom: spacingNum[2],
+  },
+  link: {
+    color: colors.brand.DEFAULT,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: radiusNum.md,
+    padding: spacingNum[3],
+    fontSize: 16,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  errorText: {
+    color: colors.danger.DEFAULT,
+    fontSize: 14,
+    marginTop: spacingNum[1],
+  },
+  pills: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacingNum[2],
+  },
+  payerPills: {
+    marginTop: spacingNum[3],
+  },
+  pill: {
+    paddingHorizontal: spacingNum[4],
+    paddingVertical: spacingNum[2],
+    borderRadius: radiusNum.md,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  pillActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  pillText: {
+    color: colors.text.DEFAULT,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  pillTextActive: {
+    color: colors.brand.foreground,
+  },
+  sharesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacingNum[2],
+    marginBottom: spacingNum[2],
+  },
+  shareName: {
+    flex: 1,
+    color: colors.text.DEFAULT,
+  },
+  percentInput: {
+    width: 90,
+    textAlign: 'right',
+  },
+  percentSign: {
+    color: colors.text.muted,
+  },
+  total: {
+    marginTop: spacingNum[2],
+    textAlign: 'right',
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  totalOff: {
+    color: colors.danger.DEFAULT,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacingNum[3],
+    padding: spacingNum[6],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.DEFAULT,
+  },
+  footerSpacer: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,354 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { H3 } from '../../ui';
+import { colors, spacingNum, radiusNum } from '../../styles/theme';
+import { formatCurrency } from '../../utils/format';
+import { sanitizeAmountInput } from '../../utils/sanitizeAmountInput';
+import { SETTLEMENT_DEAL_TYPES, calculateSettlement } from '../../utils/settlementDeal';
+import type { SettlementDeal, SettlementMerch } from '../../types/tours.types';
+
+interface SettlementCalculatorProps {
+  deal: SettlementDeal;
+  onChange: (deal: SettlementDeal) => void;
+}
+
+interface NumberInputProps {
+  value: number;
+  onChange: (value: number) => void;
+  placeholder?: string;
+  wholeNumber?: boolean;
+  style?: object;
+}
+
+// Keeps the typed text so "12." survives until the next digit, unless the
+// value changed underneath it (a row above was removed)
+function NumberInput({ value, onChange, placeholder = '0', wholeNumber, style }: NumberInputProps) {
+  const [text, setText] = useState(value ? String(value) : '');
+  const shown = (parseFloat(text) || 0) === value ? text : String(value);
+
+  return (
+    <TextInput
+      style={[styles.input, style]}
+      value={shown}
+      onChangeText={(raw) => {
+        const next = wholeNumber ? raw.replace(/[^0-9]/g, '') : sanitizeAmountInput(raw);
+        setText(next);
+        onChange(parseFloat(next) || 0);
+      }}
+      placeholder={placeholder}
+      keyboardType={wholeNumber ? 'number-pad' : 'decimal-pad'}
+    />
+  );
+}
+
+function BreakdownRow({ label, value, strong, muted }: { label: string; value: number; strong?: boolean; muted?: boolean }) {
+  return (
+    <View style={styles.breakdownRow}>
+      <Text style={[styles.breakdownLabel, strong && styles.strong, muted && styles.mutedText]}>{label}</Text>
+      <Text style={[styles.breakdownValue, strong && styles.strong, muted && styles.mutedText]}>
+        {formatCurrency(value, true)}
+      </Text>
+    </View>
+  );
+}
+
+export function SettlementCalculator({ deal, onChange }: SettlementCalculatorProps) {
+  const result = useMemo(() => calculateSettlement(deal), [deal]);
+
+  const update = (changes: Partial<SettlementDeal>) => onChange({ ...deal, ...changes });
+
+  const updateAt = <K extends 'tickets' | 'house_expenses' | 'bonuses'>(
+    key: K,
+    index: number,
+    changes: Partial<SettlementDeal[K][number]>
+  ) => {
+    update({ [key]: deal[key].map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) } as Partial<SettlementDeal>);
+  };
+
+  const removeAt = (key: 'tickets' | 'house_expenses' | 'bonuses', index: number) => {
+    update({ [key]: deal[key].filter((_, i) => i !== index) } as Partial<SettlementDeal>);
+  };
+
+  const updateMerch = (changes: Partial<SettlementMerch>) => {
+    update({ merch: { gross: 0, venue_percent: 20, sold_by: 'artist', ...deal.merch, ...changes } });
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Deal */}
+      <View style={styles.pills}>
+        {SETTLEMENT_DEAL_TYPES.map((type) => (
+          <TouchableOpacity
+            key={type.value}
+            style={[styles.pill, deal.deal_type === type.value && styles.pillActive]}
+            onPress={() => update({ deal_type: type.value })}
+          >
+            <Text style={[styles.pillText, deal.deal_type === type.value && styles.pillTextActive]}>
+              {type.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.inlineFields}>
+        {deal.deal_type !== 'percentage' && (
+          <View style={styles.inlineField}>
+            <Text style={styles.label}>Guarantee</Text>
+            <NumberInput value={deal.guarantee} onChange={(guarantee) => update({ guarantee })} />
+          </View>
+        )}
+        {deal.deal_type !== 'guarantee' && (
+          <View style={styles.inlineField}>
+            <Text style={styles.label}>% of Net Door</Text>
+            <NumberInput value={deal.door_percent} onChange={(door_percent) => update({ door_percent })} />
+          </View>
+        )}
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>Deposit Paid</Text>
+          <NumberInput value={deal.deposit} onChange={(deposit) => update({ deposit })} />
+        </View>
+      </View>
+
+      {/* Tickets */}
+      <H3 style={styles.sectionTitle}>Tickets</H3>
+      <View style={styles.columnHeaders}>
+        <Text style={[styles.columnLabel, styles.wide]}>Tier</Text>
+        <Text style={[styles.columnLabel, styles.narrow]}>Price</Text>
+        <Text style={[styles.columnLabel, styles.narrow]}>Sold</Text>
+        <Text style={[styles.columnLabel, styles.narrow]}>Comps</Text>
+        <View style={styles.removeSpacer} />
+      </View>
+      {deal.tickets.map((tier, index) => (
+        <View key={index} style={styles.entryRow}>
+          <TextInput
+            style={[styles.input, styles.wide]}
+            value={tier.label}
+            onChangeText={(label) => updateAt('tickets', index, { label })}
+            placeholder="General Admission"
+          />
+          <NumberInput style={styles.narrow} value={tier.price} onChange={(price) => updateAt('tickets', index, { price })} />
+          <NumberInput style={styles.narrow} wholeNumber value={tier.sold} onChange={(sold) => updateAt('tickets', index, { sold })} />
+          <NumberInput style={styles.narrow} wholeNumber value={tier.comps} onChange={(comps) => updateAt('tickets', index, { comps })} />
+          <TouchableOpacity onPress={() => removeAt('tickets', index)} style={styles.removeButton}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => update({ tickets: [...deal.tickets, { label: '', price: 0, sold: 0, comps: 0 }] })}>
+        <Text style={styles.addLink}>+ Add ticket tier</Text>
+      </TouchableOpacity>
+
+      {/* House expenses */}
+      <H3 style={styles.sectionTitle}>Deductions</H3>
+      <View style={styles.entryRow}>
+        <Text style={[styles.wide, styles.label]}>Taxes & ticketing fees</Text>
+        <NumberInput style={styles.narrow} value={deal.ticket_fees} onChange={(ticket_fees) => update({ ticket_fees })} />
+        <View style={styles.removeSpacer} />
+      </View>
+      {deal.house_expenses.map((expense, index) => (
+        <View key={index} style={styles.entryRow}>
+          <TextInput
+            style={[styles.input, styles.wide]}
+            value={expense.label}
+            onChangeText={(label) => updateAt('house_expenses', index, { label })}
+            placeholder="Sound & lights"
+          />
+          <NumberInput style={styles.narrow} value={expense.amount} onChange={(amount) => updateAt('house_expenses', index, { amount })} />
+          <TouchableOpacity onPress={() => removeAt('house_expenses', index)} style={styles.removeButton}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => update({ house_expenses: [...deal.house_expenses, { label: '', amount: 0 }] })}>
+        <Text style={styles.addLink}>+ Add house expense</Text>
+      </TouchableOpacity>
+
+      {/* Bonuses */}
+      <H3 style={styles.sectionTitle}>Bonus Tiers</H3>
+      {deal.bonuses.map((tier, index) => (
+        <View key={index} style={styles.entryRow}>
+          <Text style={styles.label}>At</Text>
+          <NumberInput style={styles.narrow} wholeNumber value={tier.tickets} onChange={(tickets) => updateAt('bonuses', index, { tickets })} />
+          <Text style={[styles.label, styles.wide]}>tickets sold, pay</Text>
+          <NumberInput style={styles.narrow} value={tier.amount} onChange={(amount) => updateAt('bonuses', index, { amount })} />
+          <TouchableOpacity onPress={() => removeAt('bonuses', index)} style={styles.removeButton}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => update({ bonuses: [...deal.bonuses, { tickets: 0, amount: 0 }] })}>
+        <Text style={styles.addLink}>+ Add bonus tier</Text>
+      </TouchableOpacity>
+
+      {/* Merch */}
+      <H3 style={styles.sectionTitle}>Merch</H3>
+      <View style={styles.inlineFields}>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>Merch Gross</Text>
+          <NumberInput value={deal.merch?.gross ?? 0} onChange={(gross) => updateMerch({ gross })} />
+        </View>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>House %</Text>
+          <NumberInput value={deal.merch?.venue_percent ?? 20} onChange={(venue_percent) => updateMerch({ venue_percent })} />
+        </View>
+      </View>
+      <View style={styles.pills}>
+        {(['artist', 'venue'] as const).map((soldBy) => (
+          <TouchableOpacity
+            key={soldBy}
+            style={[styles.pill, (deal.merch?.sold_by ?? 'artist') === soldBy && styles.pillActive]}
+            onPress={() => updateMerch({ sold_by: soldBy })}
+          >
+            <Text style={[styles.pillText, (deal.merch?.sold_by ?? 'artist') === soldBy && styles.pillTextActive]}>
+              {soldBy === 'artist' ? 'Artist sold' : 'Venue sold'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Breakdown */}
+      <View style={styles.breakdown}>
+        <Text style={styles.ticketCount}>
+          {result.tickets_sold} sold · {result.comps} comps
+        </Text>
+        <BreakdownRow label="Gross box office" value={result.gross_box_office} />
+        <BreakdownRow label="Deductions" value={-(result.ticket_fees + result.house_expenses)} />
+        <BreakdownRow label="Net box office" value={result.net_box_office} strong />
+        {deal.deal_type !== 'percentage' && (
+          <BreakdownRow label="Guarantee" value={result.guarantee} muted={result.paid_on !== 'guarantee'} />
+        )}
+        {deal.deal_type !== 'guarantee' && (
+          <BreakdownRow
+            label={`${deal.door_percent}% of net`}
+            value={result.percentage_amount}
+            muted={result.paid_on !== 'percentage'}
+          />
+        )}
+        {result.bonus > 0 && <BreakdownRow label="Bonus" value={result.bonus} />}
+        {result.merch_amount !== 0 && <BreakdownRow label="Merch" value={result.merch_amount} />}
+        <BreakdownRow label="Total payout" value={result.total_payout} strong />
+        {result.deposit > 0 && <BreakdownRow label="Due at settlement" value={result.due_at_settlement} strong />}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacingNum[2],
+  },
+  sectionTitle: {
+    marginTop: spacingNum[4],
+    marginBottom: spacingNum[1],
+  },
+  label: {
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: radiusNum.md,
+    padding: spacingNum[2],
+    fontSize: 14,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  pills: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacingNum[2],
+  },
+  pill: {
+    paddingHorizontal: spacingNum[3],
+    paddingVertical: spacingNum[2],
+    borderRadius: radiusNum.md,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  pillActive: {
+    backgroundColor: colors.brand.DEFAULT,
+    borderColor: colors.brand.DEFAULT,
+  },
+  pillText: {
+    color: colors.text.DEFAULT,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  pillTextActive: {
+    color: colors.brand.foreground,
+  },
+  inlineFields: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacingNum[3],
+  },
+  inlineField: {
+    flex: 1,
+    minWidth: 120,
+    gap: spacingNum[1],
+  },
+  columnLabel: {
+    fontSize: 12,
+    color: colors.text.subtle,
+  },
+  columnHeaders: {
+    flexDirection: 'row',
+    gap: spacingNum[2],
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacingNum[2],
+  },
+  wide: {
+    flex: 1,
+  },
+  narrow: {
+    width: 80,
+    textAlign: 'right',
+  },
+  removeButton: {
+    width: 24,
+    alignItems: 'center',
+  },
+  removeSpacer: {
+    width: 24,
+  },
+  removeText: {
+    color: colors.text.muted,
+  },
+  addLink: {
+    color: colors.brand.DEFAULT,
+    fontWeight: '500',
+    paddingVertical: spacingNum[1],
+  },
+  breakdown: {
+    marginTop: spacingNum[4],
+    padding: spacingNum[4],
+    backgroundColor: colors.surface.muted,
+    borderRadius: radiusNum.md,
+  },
+  ticketCount: {
+    color: colors.text.muted,
+    marginBottom: spacingNum[2],
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacingNum[1],
+  },
+  breakdownLabel: {
+    color: colors.text.DEFAULT,
+  },
+  breakdownValue: {
+    color: colors.text.DEFAULT,
+  },
+  strong: {
+    fontWeight: '700',
+  },
+  mutedText: {
+    color: colors.text.subtle,
+  },
+});
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTourBudget } from '../../hooks/useTourBudget';
+import { H2, H3, Button, Card } from '../../ui';
+import { colors, spacingNum } from '../../styles/theme';
+import { formatCurrency, formatDate } from '../../utils/format';
+import { TOUR_BUDGET_CATEGORIES, buildTourBudgetReport, type BudgetFigures } from '../../utils/tourBudget';
+import { AddBudgetItemModal } from './AddBudgetItemModal';
+import type { AllocationJson, AllocationMode, TourBudgetItem, TourWithGigs } from '../../types/tours.types';
+
+interface TourBudgetSectionProps {
+  tour: TourWithGigs;
+}
+
+function VarianceText({ value }: { value: number }) {
+  if (Math.abs(value) < 0.5) {
+    return <Text style={[styles.cell, styles.mutedText]}>—</Text>;
+  }
+  return (
+    <Text style={[styles.cell, value > 0 ? styles.favorable : styles.unfavorable]}>
+      {value > 0 ? '+' : '−'}{formatCurrency(Math.abs(value))}
+    </Text>
+  );
+}
+
+function FiguresRow({ label, figures, strong }: { label: string; figures: BudgetFigures; strong?: boolean }) {
+  return (
+    <View style={styles.tableRow}>
+      <Text style={[styles.labelCell, strong && styles.strong]}>{label}</Text>
+      <Text style={[styles.cell, strong && styles.strong]}>{formatCurrency(figures.budget)}</Text>
+      <Text style={[styles.cell, strong && styles.strong]}>{formatCurrency(figures.actual)}</Text>
+      <Text style={[styles.cell, strong && styles.strong]}>{formatCurrency(figures.projected)}</Text>
+      <VarianceText value={figures.variance} />
+    </View>
+  );
+}
+
+export function TourBudgetSection({ tour }: TourBudgetSectionProps) {
+  const { data: budgetItems = [] } = useTourBudget(tour.id);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<TourBudgetItem | null>(null);
+
+  const gigs = useMemo(() => tour.gigs ?? [], [tour.gigs]);
+
+  const report = useMemo(() => buildTourBudgetReport({
+    budgetItems,
+    gigs,
+    settlements: (tour.settlements ?? []).map((s) => ({
+      amount: s.amount,
+      allocation_mode: s.allocation_mode as AllocationMode,
+      allocation_json: s.allocation_json as AllocationJson | null,
+    })),
+    tourExpenses: tour.tour_expenses ?? [],
+  }), [budgetItems, gigs, tour.settlements, tour.tour_expenses]);
+
+  const gigsById = new Map(gigs.map((gig) => [gig.id, gig]));
+
+  const openModal = (item: TourBudgetItem | null) => {
+    setEditingItem(item);
+    setModalOpen(true);
+  };
+
+  return (
+    <Card variant="elevated" style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <H2 style={styles.sectionTitle}>Budget vs Actual</H2>
+        <Button size="sm" onPress={() => openModal(null)}>
+          Add Budget Line
+        </Button>
+      </View>
+
+      {!report.hasBudget ? (
+        <Text style={styles.mutedText}>
+          No budget yet. Add expected guarantees, fuel, hotels, per diems and crew pay to track the run against plan.
+        </Text>
+      ) : (
+        <>
+          <View style={[styles.tableRow, styles.headerRow]}>
+            <Text style={styles.labelCell} />
+            <Text style={styles.headerCell}>Budget</Text>
+            <Text style={styles.headerCell}>Actual</Text>
+            <Text style={styles.headerCell}>Projected</Text>
+            <Text style={styles.headerCell}>Variance</Text>
+          </View>
+          {report.categories
+            .filter((line) => line.budget !== 0 || line.actual !== 0)
+            .map((line) => (
+              <FiguresRow key={line.category} label={line.label} figures={line} />
+            ))}
+          <View style={styles.divider} />
+          <FiguresRow label="Income" figures={report.income} />
+          <FiguresRow label="Expenses" figures={report.expenses} />
+          <FiguresRow label="Net" figures={report.net} strong />
+
+          {report.shows.length > 0 && (
+            <>
+              <H3 style={styles.subheading}>By Show (net)</H3>
+              {report.shows.map((show) => (
+                <View key={show.gigId} style={styles.tableRow}>
+                  <View style={styles.labelCell}>
+                    <Text style={styles.showTitle}>{show.title}</Text>
+                    <Text style={styles.mutedText}>
+                      {formatDate(show.date)}{show.played ? '' : ' · upcoming'}
+                    </Text>
+                  </View>
+                  <Text style={styles.cell}>{formatCurrency(show.net.budget)}</Text>
+                  <Text style={styles.cell}>{formatCurrency(show.net.actual)}</Text>
+                  <Text style={styles.cell}>{formatCurrency(show.net.projected)}</Text>
+                  <VarianceText value={show.net.variance} />
+                </View>
+              ))}
+            </>
+          )}
+
+          <H3 style={styles.subheading}>Budget Lines</H3>
+          {budgetItems.map((item) => {
+            const gig = item.gig_id ? gigsById.get(item.gig_id) : undefined;
+            const category = TOUR_BUDGET_CATEGORIES.find((c) => c.value === item.category);
+            return (
+              <TouchableOpacity key={item.id} style={styles.lineRow} onPress={() => openModal(item)}>
+                <View style={styles.lineInfo}>
+                  <Text style={styles.showTitle}>{item.description || category?.label || item.category}</Text>
+                  <Text style={styles.mutedText}>
+                    {category?.label ?? item.category} · {gig ? `${formatDate(gig.date)} · ${gig.title || 'Untitled Gig'}` : 'Whole tour'}
+                  </Text>
+                </View>
+                <Text style={styles.lineAmount}>{formatCurrency(item.amount)}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </>
+      )}
+
+      <AddBudgetItemModal
+        visible={modalOpen}
+        tourId={tour.id}
+        gigs={gigs}
+        item={editingItem}
+        onClose={() => setModalOpen(false)}
+      />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    margin: spacingNum[4],
+    padding: spacingNum[6],
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingNum[4],
+  },
+  sectionTitle: {
+    marginBottom: 0,
+  },
+  subheading: {
+    marginTop: spacingNum[5],
+    marginBottom: spacingNum[2],
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacingNum[2],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  headerRow: {
+    paddingVertical: spacingNum[1],
+  },
+  labelCell: {
+    flex: 2,
+    color: colors.text.DEFAULT,
+  },
+  headerCell: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 12,
+    color: colors.text.subtle,
+  },
+  cell: {
+    flex: 1,
+    textAlign: 'right',
+    color: colors.text.DEFAULT,
+  },
+  strong: {
+    fontWeight: '700',
+  },
+  favorable: {
+    color: colors.success.DEFAULT,
+  },
+  unfavorable: {
+    color: colors.danger.DEFAULT,
+  },
+  mutedText: {
+    color: colors.text.muted,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.border.DEFAULT,
+    marginVertical: spacingNum[2],
+  },
+  showTitle: {
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacingNum[3],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineAmount: {
+    fontWeight: '500',
+    color: colors.text.DEFAULT,
+  },
+});
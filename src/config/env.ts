@@ -65,13 +65,6 @@ export const env = {
   
   // Tax Configuration
   taxYear: parseInt(getEnvVar('EXPO_PUBLIC_TAX_YEAR') || '2025', 10),
-  federalFlatRateSingle: parseFloat(getEnvVar('EXPO_PUBLIC_FEDERAL_FLAT_RATE_SINGLE') || '0.12'),
-  federalFlatRateMarried: parseFloat(getEnvVar('EXPO_PUBLIC_FEDERAL_FLAT_RATE_MARRIED') || '0.12'),
-  federalFlatRateHOH: parseFloat(getEnvVar('EXPO_PUBLIC_FEDERAL_FLAT_RATE_HOH') || '0.12'),
-  useFederalBrackets: getEnvVar('EXPO_PUBLIC_USE_FEDERAL_BRACKETS') === 'true',
-  
-  // Mileage
-  defaultMileageRate: parseFloat(getEnvVar('EXPO_PUBLIC_DEFAULT_MILEAGE_RATE') || '0.67'),
   
   // Stripe Price IDs (public identifiers - safe to bundle)
   stripeMonthlyPriceId: getEnvVar('EXPO_PUBLIC_STRIPE_MONTHLY_PRICE_ID_PROD') || '',
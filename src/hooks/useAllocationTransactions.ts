@@ -4,7 +4,7 @@ import { queryKeys } from '../lib/queryKeys';
 import { useUserId } from './useCurrentUser';
 import type { Database } from '../types/database.types';
 import type { AllocationTransaction, AllocationBucket, BucketYTDTotal } from '../types/allocation';
-import { calculateAllocations } from '../utils/allocationEngine';
+import { applyTaxPayments, calculateAllocations } from '../utils/allocationEngine';
 
 type DbAllocationTransaction = Database['public']['Tables']['allocation_transactions']['Row'];
 type DbAllocationBucket = Database['public']['Tables']['allocation_buckets']['Row'];
@@ -102,6 +102,33 @@ export async function createAllocationForGig(
   return data || [];
 }
 
+/**
+ * Estimated tax payments for a tax year and the active buckets they draw down
+ */
+async function fetchTaxPaymentDrawdowns(userId: string, year: number) {
+  const [bucketsRes, paymentsRes] = await Promise.all([
+    supabase
+      .from('allocation_buckets')
+      .select('id, bucket_type')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('estimated_tax_payments')
+      .select('jurisdiction, amount')
+      .eq('user_id', userId)
+      .eq('tax_year', year),
+  ]);
+
+  if (bucketsRes.error) throw bucketsRes.error;
+  if (paymentsRes.error) throw paymentsRes.error;
+
+  return {
+    buckets: bucketsRes.data || [],
+    payments: paymentsRes.data || [],
+  };
+}
+
 async function getYTDTotals(userId: string, year?: number): Promise<BucketYTDTotal[]> {
   const currentYear = year || new Date().getFullYear();
   const startDate = `${currentYear}-01-01`;
@@ -125,10 +152,9 @@ async function getYTDTotals(userId: string, year?: number): Promise<BucketYTDTot
     totals[transaction.bucket_id] += transaction.allocated_amount;
   });
 
-  return Object.entries(totals).map(([bucket_id, total]) => ({
-    bucket_id,
-    total: Math.round(total * 100) / 100,
-  }));
+  // Estimated tax payments for the year come out of the tax buckets
+  const { buckets, payments } = await fetchTaxPaymentDrawdowns(userId, currentYear);
+  return applyTaxPayments(totals, buckets, payments);
 }
 
 async function getBucketBalance(
@@ -150,8 +176,11 @@ async function getBucketBalance(
 
   if (error) throw error;
 
-  const total = (data || []).reduce((sum, t) => sum + t.allocated_amount, 0);
-  return Math.round(total * 100) / 100;
+  const allocated = (data || []).reduce((sum, t) => sum + t.allocated_amount, 0);
+  const { buckets, payments } = await fetchTaxPaymentDrawdowns(userId, currentYear);
+  const balance = applyTaxPayments({ [bucketId]: allocated }, buckets, payments)
+    .find(t => t.bucket_id === bucketId);
+  return balance?.total ?? 0;
 }
 
 export function useAllocationTransactions(filters?: TransactionFilters) {
@@ -21,7 +21,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '../lib/queryKeys';
 import { initializeUserData } from '../services/profileService';
 import type { Session } from '@supabase/supabase-js';
-import type { TaxProfile } from '../tax/engine';
+import type { PayrollFrequency, TaxProfile } from '../tax/engine';
 import type { StateCode } from '../tax/config/2025';
 
 export interface BootstrapStatus {
@@ -181,9 +181,15 @@ export function useAppBootstrap() {
             county: row.county || undefined,
             nycResident: row.nyc_resident || undefined,
             yonkersResident: row.yonkers_resident || undefined,
+            localJurisdiction: row.local_jurisdiction || undefined,
+            schoolDistrict: row.school_district || undefined,
+            localTaxRate: row.local_tax_rate ?? undefined,
+            schoolDistrictRate: row.school_district_rate ?? undefined,
             deductionMethod: row.deduction_method as 'standard' | 'itemized',
             itemizedAmount: row.itemized_amount || undefined,
             seIncome: row.se_income,
+            sCorpSalary: row.scorp_reasonable_salary ?? undefined,
+            payrollFrequency: (row.scorp_payroll_frequency as PayrollFrequency | null) ?? undefined,
           };
           queryClient.setQueryData(queryKeys.taxProfile(session.user.id), transformedProfile);
         }
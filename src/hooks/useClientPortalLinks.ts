@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { queryKeys } from '../lib/queryKeys';
+import type { Database } from '../types/database.types';
+import { useUserId } from './useCurrentUser';
+import { generateShareToken } from '../utils/shareToken';
+
+export type ClientPortalLink = Database['public']['Tables']['client_portal_links']['Row'];
+
+// Active portal links for all of the user's payers, newest first
+export function useClientPortalLinks() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: queryKeys.clientPortalLinks(userId!),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('client_portal_links')
+        .select('*')
+        .eq('user_id', userId!)
+        .eq('is_active', true)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!userId,
+  });
+}
+
+// Create a portal link for a payer; expiresAt null keeps it open until revoked
+export function useCreateClientPortalLink() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async ({ payerId, expiresAt }: { payerId: string; expiresAt: string | null }) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('client_portal_links')
+        .insert({
+          user_id: userId,
+          payer_id: payerId,
+          token: generateShareToken(),
+          expires_at: expiresAt,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.clientPortalLinks(userId!) });
+    },
+  });
+}
+
+// Revoke a link; the token stops working immediately
+export function useRevokeClientPortalLink() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('client_portal_links')
+        .update({ is_active: false })
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.clientPortalLinks(userId!) });
+    },
+  });
+}
@@ -1,12 +1,12 @@
 import { useMemo, useEffect, useState, useRef } from 'react';
-import { calculateMileageDeduction } from './useMileage';
 import { useTaxCalculation } from './useTaxCalculation';
 import { useDashboardDataAggregated } from './useDashboardDataAggregated';
 import { supabase } from '../lib/supabase';
 import { debugTotals } from '../lib/debugTotals';
 import type { Database } from '../types/database.types';
+import type { StateCode } from '../tax/config/2025';
 import { parseStoredDate } from '../lib/date';
-import { sumMileageDeduction } from '../lib/mileage';
+import { calculateMileageDeduction, sumMileageDeduction } from '../tax/service';
 
 type GigRow = Database['public']['Tables']['gigs']['Row'];
 
@@ -67,6 +67,7 @@ export interface DashboardData {
   gigIncome1099: number; // NEW: Income from 1099/contractor payers
   gigIncomeW2: number; // NEW: Income from W-2/payroll payers
   gigIncomeOther: number; // NEW: Income from other/unknown tax treatment
+  gigIncome1099ByState: Partial<Record<StateCode, number>>; // 1099 income by gig state (untagged gigs omitted)
   totals: {
     net: number;
     taxes: number;
@@ -78,6 +79,8 @@ export interface DashboardData {
     local: number;
     seTax: number;
   } | null; // NULL when not ready
+  taxYear: number; // Tax year used for estimates (year the range ends in)
+  taxConfigNotice?: string; // Set when that year's tax tables aren't available yet
 }
 
 interface DateRangeConfig {
@@ -223,11 +226,14 @@ export function useDashboardData(
     return { netProfit: netBeforeTax, totalIncome, totalDeductions };
   }, [isReadyForTotals, allGigs, allExpenses, allMileage, dateRange, customStart, customEnd, payerId]);
 
+  // Estimates use the tax tables for the year the selected range ends in
+  const taxYear = getDateRangeConfig(dateRange, customStart, customEnd).endDate.getFullYear();
+
   // Calculate taxes using new tax engine (must be called at top level)
   // Pass 0 if not ready to avoid calculations with incomplete data
   const { taxResult } = useTaxCalculation(
     isReadyForTotals ? netProfit : 0, 
-    isReadyForTotals ? totalIncome : 0
+    taxYear
   );
   const totalTaxes = isReadyForTotals ? (taxResult?.total || 0) : 0;
   const effectiveTaxRate = isReadyForTotals && netProfit > 0 ? (totalTaxes / netProfit) * 100 : 0;
@@ -268,6 +274,7 @@ export function useDashboardData(
     let gigIncome1099 = 0;
     let gigIncomeW2 = 0;
     let gigIncomeOther = 0;
+    const gigIncome1099ByState: Partial<Record<StateCode, number>> = {};
 
     gigs.forEach((gig) => {
       const gigWithPayer = gig as GigWithRelations;
@@ -292,6 +299,10 @@ export function useDashboardData(
         // Everything else defaults to 1099 (including null, undefined, '1099', 'contractor', etc.)
         // This is conservative for tax purposes - better to overestimate than underestimate
         gigIncome1099 += gigTotalIncome;
+        if (gig.state_code) {
+          const stateCode = gig.state_code.toUpperCase() as StateCode;
+          gigIncome1099ByState[stateCode] = (gigIncome1099ByState[stateCode] ?? 0) + gigTotalIncome;
+        }
       }
     });
 
@@ -465,6 +476,7 @@ export function useDashboardData(
       gigIncome1099,
       gigIncomeW2,
       gigIncomeOther,
+      gigIncome1099ByState,
       isReady: isReadyForTotals,
       totals: totalsToReturn,
       taxBreakdown: isReadyForTotals ? {
@@ -473,8 +485,10 @@ export function useDashboardData(
         local: taxResult?.local || 0,
         seTax: taxResult?.seTax || 0,
       } : null, // NULL when not ready
+      taxYear: taxResult?.taxYear ?? taxYear,
+      taxConfigNotice: taxResult?.configNotice,
     };
-  }, [isReadyForTotals, isInitialLoad, allGigs, allExpenses, allMileage, dateRange, customStart, customEnd, payerId, netProfit, totalTaxes, effectiveTaxRate, taxResult]);
+  }, [isReadyForTotals, isInitialLoad, allGigs, allExpenses, allMileage, dateRange, customStart, customEnd, payerId, netProfit, totalTaxes, effectiveTaxRate, taxResult, taxYear]);
 
   // Debug logging
   useEffect(() => {
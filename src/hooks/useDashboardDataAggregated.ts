@@ -55,6 +55,7 @@ export function useDashboardDataAggregated() {
           .from('expenses')
           .select('*')
           .eq('user_id', userId)
+          .or('is_draft.is.null,is_draft.eq.false')
           .order('date', { ascending: false }),
         
         // Mileage - fetch all fields
@@ -0,0 +1,235 @@
+/**
+ * Estimated tax planner hook
+ *
+ * Loads the prior-year safe harbor inputs, the estimated payments ledger
+ * (federal and state) and dated Schedule C net profit for a tax year, and runs
+ * the 1040-ES planner on the federal payments.
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { queryKeys } from '../lib/queryKeys';
+import { useUserId } from './useCurrentUser';
+import { useTaxProfile } from './useTaxProfile';
+import type { Database } from '../types/database.types';
+import type { EstimatedTaxPlan, NetProfitEntry, Quarter } from '../tax/estimatedPayments';
+import {
+  basicTaxProfile,
+  calculateMileageDeduction,
+  planEstimatedPayments,
+  projectNetProfitByPeriod,
+} from '../tax/service';
+
+type DbEstimatedTaxPlan = Database['public']['Tables']['estimated_tax_plans']['Row'];
+export type EstimatedTaxPaymentRow = Database['public']['Tables']['estimated_tax_payments']['Row'];
+
+export interface PriorYearInput {
+  priorYearTax: number | null;
+  priorYearAGI: number | null;
+}
+
+export interface AddEstimatedTaxPaymentInput {
+  quarter: Quarter;
+  amount: number;
+  paidOn: string;
+  jurisdiction?: string;             // 'federal' (default) or a state code
+  confirmationNumber?: string | null;
+}
+
+/**
+ * Dated net profit for a tax year: 1099 gig income less fees and
+ * subcontractors on the gig date, expenses and mileage on their own dates
+ */
+async function fetchNetProfitEntries(taxYear: number): Promise<NetProfitEntry[]> {
+  const start = `${taxYear}-01-01`;
+  const end = `${taxYear}-12-31`;
+
+  const { data: gigs, error: gigsError } = await supabase
+    .from('gigs')
+    .select('date, gross_amount, tips, per_diem, other_income, fees, tax_treatment, payers!inner(tax_treatment), subcontractor_payments:gig_subcontractor_payments(amount)')
+    .gte('date', start)
+    .lte('date', end);
+  if (gigsError) throw gigsError;
+
+  const { data: expenses, error: expensesError } = await supabase
+    .from('expenses')
+    .select('amount, date')
+    .or('is_draft.is.null,is_draft.eq.false')
+    .gte('date', start)
+    .lte('date', end);
+  if (expensesError) throw expensesError;
+
+  const { data: mileage, error: mileageError } = await supabase
+    .from('mileage')
+    .select('miles, date')
+    .gte('date', start)
+    .lte('date', end);
+  if (mileageError) throw mileageError;
+
+  const entries: NetProfitEntry[] = [];
+
+  (gigs || []).forEach(gig => {
+    // Exclude W-2 gigs (gig override or payer default)
+    const effectiveTreatment = gig.tax_treatment || gig.payers?.tax_treatment || 'contractor_1099';
+    if (effectiveTreatment === 'w2') return;
+
+    const subcontractors = (gig.subcontractor_payments || []).reduce((s, p) => s + (p.amount || 0), 0);
+    entries.push({
+      date: gig.date,
+      amount: (gig.gross_amount || 0) + (gig.tips || 0) + (gig.per_diem || 0) + (gig.other_income || 0)
+        - (gig.fees || 0) - subcontractors,
+    });
+  });
+
+  (expenses || []).forEach(expense => {
+    entries.push({ date: expense.date, amount: -(expense.amount || 0) });
+  });
+
+  (mileage || []).forEach(trip => {
+    entries.push({ date: trip.date, amount: -calculateMileageDeduction(trip.miles || 0, trip.date) });
+  });
+
+  return entries;
+}
+
+export function useEstimatedTaxPlanner(taxYear: number = new Date().getFullYear()) {
+  const userId = useUserId();
+  const queryClient = useQueryClient();
+  const { data: taxProfile, isLoading: taxProfileLoading } = useTaxProfile();
+
+  const settingsQuery = useQuery({
+    queryKey: queryKeys.estimatedTaxPlan(userId!, taxYear),
+    queryFn: async (): Promise<DbEstimatedTaxPlan | null> => {
+      const { data, error } = await supabase
+        .from('estimated_tax_plans')
+        .select('*')
+        .eq('user_id', userId!)
+        .eq('tax_year', taxYear)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const paymentsQuery = useQuery({
+    queryKey: queryKeys.estimatedTaxPayments(userId!, taxYear),
+    queryFn: async (): Promise<EstimatedTaxPaymentRow[]> => {
+      const { data, error } = await supabase
+        .from('estimated_tax_payments')
+        .select('*')
+        .eq('user_id', userId!)
+        .eq('tax_year', taxYear)
+        .order('paid_on', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!userId,
+  });
+
+  const incomeQuery = useQuery({
+    queryKey: queryKeys.estimatedTaxIncome(userId!, taxYear),
+    queryFn: () => fetchNetProfitEntries(taxYear),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const settings = settingsQuery.data ?? null;
+  const payments = paymentsQuery.data ?? [];
+
+  const plan = useMemo((): EstimatedTaxPlan | null => {
+    if (!incomeQuery.data || taxProfileLoading) {
+      return null;
+    }
+
+    const asOf = new Date().toISOString().slice(0, 10);
+    const profile = taxProfile?.state ? taxProfile : basicTaxProfile(null, taxProfile?.filingStatus);
+    const { netProfitByPeriod, projectedNetProfit } = projectNetProfitByPeriod(incomeQuery.data, taxYear, asOf);
+
+    return planEstimatedPayments({
+      taxYear,
+      profile,
+      netProfitByPeriod,
+      projectedNetProfit,
+      priorYearTax: settings?.prior_year_tax,
+      priorYearAGI: settings?.prior_year_agi,
+      payments: payments
+        .filter(p => p.jurisdiction === 'federal')
+        .map(p => ({ amount: p.amount, paidOn: p.paid_on })),
+      asOf,
+    });
+  }, [incomeQuery.data, taxProfile, taxProfileLoading, taxYear, settings, payments]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.estimatedTaxPlan(userId!, taxYear) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.estimatedTaxPayments(userId!, taxYear) });
+    // Payments draw down the tax bucket balances and feed the tax export
+    queryClient.invalidateQueries({ queryKey: queryKeys.allocationYTD(userId!) });
+    queryClient.invalidateQueries({ queryKey: ['taxExportPackage', userId] });
+  };
+
+  const savePriorYear = useMutation({
+    mutationFn: async (input: PriorYearInput) => {
+      const { error } = await supabase
+        .from('estimated_tax_plans')
+        .upsert({
+          user_id: userId!,
+          tax_year: taxYear,
+          prior_year_tax: input.priorYearTax,
+          prior_year_agi: input.priorYearAGI,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,tax_year' });
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const addPayment = useMutation({
+    mutationFn: async (input: AddEstimatedTaxPaymentInput) => {
+      const { error } = await supabase
+        .from('estimated_tax_payments')
+        .insert({
+          user_id: userId!,
+          tax_year: taxYear,
+          quarter: input.quarter,
+          amount: input.amount,
+          paid_on: input.paidOn,
+          jurisdiction: input.jurisdiction ?? 'federal',
+          confirmation_number: input.confirmationNumber || null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deletePayment = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const { error } = await supabase
+        .from('estimated_tax_payments')
+        .delete()
+        .eq('id', paymentId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    plan,
+    priorYear: {
+      priorYearTax: settings?.prior_year_tax ?? null,
+      priorYearAGI: settings?.prior_year_agi ?? null,
+    },
+    payments,
+    isLoading: settingsQuery.isLoading || paymentsQuery.isLoading || incomeQuery.isLoading || taxProfileLoading,
+    error: settingsQuery.error || paymentsQuery.error || incomeQuery.error,
+    savePriorYear,
+    addPayment,
+    deletePayment,
+  };
+}
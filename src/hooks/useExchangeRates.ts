@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { queryKeys } from '../lib/queryKeys';
+import type { Database } from '../types/database.types';
+import { useUserId } from './useCurrentUser';
+import type { ExchangeRate } from '../utils/exchangeRates';
+
+export type ExchangeRateRow = Database['public']['Tables']['exchange_rates']['Row'];
+
+// Fetch the user's imported exchange rates, newest first
+export function useExchangeRates() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: queryKeys.exchangeRates(userId!),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('user_id', userId!)
+        .order('rate_date', { ascending: false })
+        .order('currency', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(row => ({ ...row, usd_per_unit: Number(row.usd_per_unit) }));
+    },
+    enabled: !!userId,
+  });
+}
+
+// Import rates from a parsed CSV; a currency/date already on file is replaced
+export function useImportExchangeRates() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async (rates: ExchangeRate[]) => {
+      if (!userId) throw new Error('Not authenticated');
+      if (rates.length === 0) return 0;
+
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          rates.map(rate => ({ ...rate, user_id: userId })),
+          { onConflict: 'user_id,currency,rate_date' }
+        );
+
+      if (error) throw error;
+      return rates.length;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates(userId!) });
+    },
+  });
+}
+
+// Delete a single imported rate
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates(userId!) });
+    },
+  });
+}
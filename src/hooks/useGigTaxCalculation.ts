@@ -1,5 +1,5 @@
 /**
- * Hook to calculate tax set-aside for individual gigs using the 2025 tax engine
+ * Hook to calculate tax set-aside for individual gigs using the tax engine
  * This ensures gig cards and Edit Gig form use the same tax calculation
  */
 
@@ -8,9 +8,9 @@ import { supabase } from '../lib/supabase';
 import { useTaxProfile } from './useTaxProfile';
 import { useProfile, type BusinessStructure } from './useProfile';
 import { useSubscription } from './useSubscription';
-import { taxDeltaForGig, type YTDData, type GigData } from '../tax/engine';
-import { getResolvedPlan, isSCalcEligibleForBusinessStructure, type PlanId } from '../lib/businessStructure';
-import { sumMileageDeduction } from '../lib/mileage';
+import type { GigData } from '../tax/engine';
+import { estimateGigSetAside, sumMileageDeduction, toGigData } from '../tax/service';
+import { getResolvedPlan, isSCalcEligibleForBusinessStructure } from '../lib/businessStructure';
 import type { GigWithPayer } from './useGigs';
 
 export interface GigTaxResult {
@@ -21,18 +21,84 @@ export interface GigTaxResult {
     state: number;
     local: number;
     seTax: number;
+    additionalMedicare: number;
   };
   mode: 'self_employment' | 'no_se_tax';
   business_structure: BusinessStructure;
 }
 
+export interface YTDTaxBasis {
+  ytdGross: number;     // 1099 income less fees
+  ytdExpenses: number;  // Expenses, subcontractor payments and mileage deduction
+}
+
+/**
+ * Year-to-date Schedule C totals the gig set-asides are measured against.
+ * Shared by gig cards, the stats bar and the Add/Edit Gig form.
+ */
+export function useYTDTaxBasis() {
+  return useQuery<YTDTaxBasis>({
+    queryKey: ['ytd-tax-data'],
+    queryFn: async () => {
+      const yearStart = new Date(new Date().getFullYear(), 0, 1).toISOString();
+      
+      // Get YTD gigs with payer info to determine tax treatment
+      const { data: gigs, error: gigsError } = await supabase
+        .from('gigs')
+        .select('gross_amount, tips, per_diem, other_income, fees, tax_treatment, payer_id, payers!inner(tax_treatment), subcontractor_payments:gig_subcontractor_payments(amount)')
+        .gte('date', yearStart);
+      
+      if (gigsError) throw gigsError;
+      
+      // Get YTD expenses
+      const { data: expenses, error: expensesError } = await supabase
+        .from('expenses')
+        .select('amount')
+        .or('is_draft.is.null,is_draft.eq.false')
+        .gte('date', yearStart);
+      
+      if (expensesError) throw expensesError;
+
+      // Get YTD mileage
+      const { data: mileage, error: mileageError } = await supabase
+        .from('mileage')
+        .select('miles, date')
+        .gte('date', yearStart);
+
+      if (mileageError) throw mileageError;
+      
+      // Exclude W-2 gigs from the tax basis
+      const contractorGigs = (gigs || []).filter((gig: any) => {
+        // Get effective tax treatment (gig override or payer default)
+        const effectiveTreatment = gig.tax_treatment || gig.payers?.tax_treatment || 'contractor_1099';
+        return effectiveTreatment !== 'w2';
+      });
+
+      const ytdGross = contractorGigs.reduce((sum, gig: any) =>
+        sum + (gig.gross_amount || 0) + (gig.tips || 0) +
+          (gig.per_diem || 0) + (gig.other_income || 0) - (gig.fees || 0), 0);
+      
+      const subcontractorTotal = contractorGigs.reduce((sum, gig: any) =>
+        sum + (gig.subcontractor_payments || []).reduce((s: number, p: any) => s + (p.amount || 0), 0), 0);
+      const ytdExpenses = (expenses || []).reduce((sum, exp: any) => sum + (exp.amount || 0), 0)
+        + subcontractorTotal
+        + sumMileageDeduction(mileage || []);
+      
+      return { ytdGross, ytdExpenses };
+    },
+  });
+}
+
 /**
- * Calculate tax set-aside for a specific gig using the 2025 tax engine
+ * Calculate tax set-aside for a specific gig using the tax engine
  * This is the same calculation used in the Edit Gig form
+ * 
+ * @param gigDate - Gig date (YYYY-MM-DD); selects which tax year's tables apply
  */
 export function useGigTaxCalculation(
   gigGross: number,
-  gigExpenses: number
+  gigExpenses: number,
+  gigDate?: string
 ): {
   taxResult: GigTaxResult | null;
   loading: boolean;
@@ -62,50 +128,7 @@ export function useGigTaxCalculation(
       ? 'individual'
       : businessStructure;
 
-  // Get YTD data for tax calculation
-  const { data: ytdData, isLoading: ytdLoading } = useQuery<{
-    ytdGross: number;
-    ytdExpenses: number;
-  }>({
-    queryKey: ['ytd-tax-data'],
-    queryFn: async () => {
-      const yearStart = new Date(new Date().getFullYear(), 0, 1).toISOString();
-      
-      // Get YTD gigs with payer info to determine tax treatment
-      const { data: gigs, error: gigsError } = await supabase
-        .from('gigs')
-        .select('gross_amount, tips, per_diem, other_income, fees, tax_treatment, payer_id, payers!inner(tax_treatment)')
-        .gte('date', yearStart);
-      
-      if (gigsError) throw gigsError;
-      
-      // Get YTD expenses
-      const { data: expenses, error: expensesError } = await supabase
-        .from('expenses')
-        .select('amount')
-        .gte('date', yearStart);
-      
-      if (expensesError) throw expensesError;
-      
-      // Calculate YTD gross, excluding W-2 gigs from tax basis
-      const ytdGross = (gigs || []).reduce((sum, gig: any) => {
-        // Get effective tax treatment (gig override or payer default)
-        const effectiveTreatment = gig.tax_treatment || gig.payers?.tax_treatment || 'contractor_1099';
-        
-        // Exclude W-2 gigs from tax set-aside calculation
-        if (effectiveTreatment === 'w2') {
-          return sum;
-        }
-        
-        return sum + (gig.gross_amount || 0) + (gig.tips || 0) + 
-          (gig.per_diem || 0) + (gig.other_income || 0) - (gig.fees || 0);
-      }, 0);
-      
-      const ytdExpenses = (expenses || []).reduce((sum, exp: any) => sum + (exp.amount || 0), 0);
-      
-      return { ytdGross, ytdExpenses };
-    },
-  });
+  const { data: ytdData, isLoading: ytdLoading } = useYTDTaxBasis();
 
   // Calculate tax result
   if (!taxProfile || !ytdData || profileLoading || ytdLoading || profileDataLoading || subscriptionLoading) {
@@ -124,6 +147,7 @@ export function useGigTaxCalculation(
           state: 0,
           local: 0,
           seTax: 0,
+          additionalMedicare: 0,
         },
         mode: 'no_se_tax',
         business_structure: calcBusinessStructure,
@@ -133,18 +157,13 @@ export function useGigTaxCalculation(
   }
 
   try {
-    const ytdInput: YTDData = {
-      grossIncome: ytdData.ytdGross,
-      adjustments: 0,
-      netSE: ytdData.ytdGross - ytdData.ytdExpenses,
-    };
-
     const gigData: GigData = {
       gross: gigGross,
       expenses: gigExpenses,
+      date: gigDate,
     };
 
-    const result = taxDeltaForGig(ytdInput, gigData, taxProfile);
+    const result = estimateGigSetAside(ytdData.ytdGross - ytdData.ytdExpenses, gigData, taxProfile);
 
     return {
       taxResult: {
@@ -192,58 +211,18 @@ export function useTotalTaxSetAsideForGigs(gigs: GigWithPayer[] | undefined): nu
       ? 'individual'
       : businessStructure;
 
-  const { data: ytdData } = useQuery<{ ytdGross: number; ytdExpenses: number }>({
-    queryKey: ['ytd-tax-data'],
-    queryFn: async () => {
-      const yearStart = new Date(new Date().getFullYear(), 0, 1).toISOString();
-      const { data: gigsYTD, error: gigsError } = await supabase
-        .from('gigs')
-        .select('gross_amount, tips, per_diem, other_income, fees, tax_treatment, payer_id, payers!inner(tax_treatment)')
-        .gte('date', yearStart);
-      if (gigsError) throw gigsError;
-      const { data: expenses, error: expensesError } = await supabase
-        .from('expenses')
-        .select('amount')
-        .gte('date', yearStart);
-      if (expensesError) throw expensesError;
-      const ytdGross = (gigsYTD || []).reduce((sum, gig: any) => {
-        const effectiveTreatment = gig.tax_treatment || gig.payers?.tax_treatment || 'contractor_1099';
-        if (effectiveTreatment === 'w2') return sum;
-        return sum + (gig.gross_amount || 0) + (gig.tips || 0) + (gig.per_diem || 0) + (gig.other_income || 0) - (gig.fees || 0);
-      }, 0);
-      const ytdExpenses = (expenses || []).reduce((sum, exp: any) => sum + (exp.amount || 0), 0);
-      return { ytdGross, ytdExpenses };
-    },
-  });
+  const { data: ytdData } = useYTDTaxBasis();
 
   if (!taxProfile || !ytdData) return 0;
 
   const eligibility = isSCalcEligibleForBusinessStructure(calcBusinessStructure, plan);
   if (!eligibility.usesSelfEmploymentTax) return 0;
 
-  const ytdInput: YTDData = {
-    grossIncome: ytdData.ytdGross,
-    adjustments: 0,
-    netSE: ytdData.ytdGross - ytdData.ytdExpenses,
-  };
+  const ytdNetProfit = ytdData.ytdGross - ytdData.ytdExpenses;
 
   return (gigs || []).reduce((sum, gig) => {
-    const gross =
-      gig.gross_amount +
-      (gig.tips || 0) +
-      (gig.per_diem || 0) +
-      (gig.other_income || 0);
-    const gigExpensesTotal = (gig.expenses || []).reduce((s, e) => s + e.amount, 0);
-    const subcontractorTotal = (gig.subcontractor_payments || []).reduce(
-      (s: number, p: any) => s + p.amount,
-      0
-    );
-    const mileageDeduction = sumMileageDeduction(gig.mileage || []);
-    const expensesForTax =
-      (gig.fees || 0) + gigExpensesTotal + subcontractorTotal + mileageDeduction;
     try {
-      const result = taxDeltaForGig(ytdInput, { gross, expenses: expensesForTax }, taxProfile);
-      return sum + result.amount;
+      return sum + estimateGigSetAside(ytdNetProfit, toGigData(gig), taxProfile).amount;
     } catch {
       return sum;
     }
@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { useInvoicesDataAggregated } from './useInvoicesDataAggregated';
+import { getTodayDateString } from '../lib/date';
+import { buildAgingReport, type AgingSourceInvoice } from '../utils/invoiceAging';
+
+/**
+ * A/R aging as of today, built from the aggregated invoices query
+ */
+export function useInvoiceAging() {
+  const { data, isLoading, error } = useInvoicesDataAggregated();
+
+  const report = useMemo(
+    () => buildAgingReport((data?.invoices ?? []) as AgingSourceInvoice[], getTodayDateString()),
+    [data?.invoices]
+  );
+
+  return { report, settings: data?.settings, isLoading, error };
+}
@@ -2,6 +2,8 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { InvoiceSettings } from '../types/invoice';
 import { useUserId } from './useCurrentUser';
+import { INVOICE_TEMPLATE_SELECT } from './useInvoiceTemplates';
+import { formatInvoiceNumber } from '../utils/recurringInvoices';
 
 export function useInvoiceSettings() {
   const queryClient = useQueryClient();
@@ -14,7 +16,7 @@ export function useInvoiceSettings() {
 
       const { data, error: fetchError } = await supabase
         .from('invoice_settings')
-        .select('*')
+        .select(`*, default_template:invoice_templates(${INVOICE_TEMPLATE_SELECT})`)
         .eq('user_id', userId)
         .single();
 
@@ -102,7 +104,7 @@ export function useInvoiceSettings() {
         }
 
         const nextNumber = latestSettings.next_invoice_number;
-        const invoiceNumber = `${latestSettings.invoice_prefix}${new Date().getFullYear()}-${String(nextNumber).padStart(3, '0')}`;
+        const invoiceNumber = formatInvoiceNumber(latestSettings.invoice_prefix, new Date().getFullYear(), nextNumber);
 
         const { data: updatedRows, error: updateError } = await supabase
           .from('invoice_settings')
@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { queryKeys } from '../lib/queryKeys';
+import { SavedInvoiceTemplate } from '../types/invoice';
+import { useUserId } from './useCurrentUser';
+import { InvoiceTemplateConfig, toInvoiceTemplateColumns } from '../utils/invoiceTemplates';
+
+// Columns embedded with invoices and invoice settings
+export const INVOICE_TEMPLATE_SELECT =
+  'id, user_id, name, layout, color_scheme, font_style, show_tax_id, show_payment_qr, show_payment_terms, show_gig_details, created_at, updated_at';
+
+export interface InvoiceTemplateInput {
+  name: string;
+  config: InvoiceTemplateConfig;
+}
+
+// Saved invoice templates, by name
+export function useInvoiceTemplates() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: queryKeys.invoiceTemplates(userId!),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoice_templates')
+        .select(INVOICE_TEMPLATE_SELECT)
+        .eq('user_id', userId!)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SavedInvoiceTemplate[];
+    },
+    enabled: !!userId,
+  });
+}
+
+// Create a template, or update it when an id is given
+export function useSaveInvoiceTemplate() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async ({ id, name, config }: InvoiceTemplateInput & { id?: string }) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const columns = { name: name.trim(), ...toInvoiceTemplateColumns(config) };
+      const query = id
+        ? supabase
+          .from('invoice_templates')
+          .update({ ...columns, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', userId)
+        : supabase
+          .from('invoice_templates')
+          .insert({ ...columns, user_id: userId });
+
+      const { data, error } = await query.select(INVOICE_TEMPLATE_SELECT).single();
+
+      if (error) throw error;
+      return data as SavedInvoiceTemplate;
+    },
+    onSuccess: () => {
+      // Invoices and settings embed their template
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoiceTemplates(userId!) });
+      queryClient.invalidateQueries({ queryKey: ['invoices', userId] });
+      queryClient.invalidateQueries({ queryKey: ['invoice_settings', userId] });
+    },
+  });
+}
+
+// Delete a template; invoices using it fall back to the default template
+export function useDeleteInvoiceTemplate() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('invoice_templates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoiceTemplates(userId!) });
+      queryClient.invalidateQueries({ queryKey: ['invoices', userId] });
+      queryClient.invalidateQueries({ queryKey: ['invoice_settings', userId] });
+    },
+  });
+}
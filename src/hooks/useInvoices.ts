@@ -1,11 +1,28 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import type { Database, Json } from '../types/database.types';
-import { Invoice, InvoiceFormData, InvoiceStatus, PaymentMethodDetail } from '../types/invoice';
+import {
+  Invoice,
+  InvoiceFormData,
+  InvoiceLineItemGig,
+  InvoiceLineItemKind,
+  InvoiceStatus,
+  PaymentMethodDetail,
+  SavedInvoiceTemplate,
+} from '../types/invoice';
 import { useUserId } from './useCurrentUser';
-import { calculateInvoiceTotals, getEffectiveInvoiceStatus, roundCurrencyAmount } from '../utils/invoiceCalculations';
+import { INVOICE_TEMPLATE_SELECT } from './useInvoiceTemplates';
+import {
+  calculateInvoiceBalanceDue,
+  calculateInvoiceTotals,
+  getEffectiveInvoiceStatus,
+  getInvoiceAmountOwed,
+  roundCurrencyAmount,
+} from '../utils/invoiceCalculations';
+import { normalizeLateFeeType, normalizePaymentTerms } from '../utils/invoicePaymentTerms';
 import { getTodayDateString, parseStoredDate } from '../lib/date';
 import { getSharedUser } from '../lib/sharedAuth';
+import { isHomeCurrency } from '../utils/exchangeRates';
 
 export interface InvoiceQueryFilters {
   startDate?: string;
@@ -19,10 +36,16 @@ type InvoiceLineItemRow = Database['public']['Tables']['invoice_line_items']['Ro
 type InvoiceLineItemInsert = Database['public']['Tables']['invoice_line_items']['Insert'];
 type InvoicePaymentRow = Database['public']['Tables']['invoice_payments']['Row'];
 type InvoicePaymentInsert = Database['public']['Tables']['invoice_payments']['Insert'];
-type ExistingInvoiceLineItem = Pick<InvoiceLineItemRow, 'description' | 'quantity' | 'rate' | 'amount' | 'sort_order'>;
+type InvoiceReminderRow = Database['public']['Tables']['invoice_reminders']['Row'];
+type InvoiceCreditNoteRow = Database['public']['Tables']['invoice_credit_notes']['Row'];
+type ExistingInvoiceLineItem = Pick<InvoiceLineItemRow, 'description' | 'quantity' | 'rate' | 'amount' | 'sort_order' | 'gig_id' | 'kind'>;
+type InvoiceQueryLineItem = InvoiceLineItemRow & { gig?: InvoiceLineItemGig | null };
 type InvoiceQueryRow = InvoiceRow & {
-  line_items: InvoiceLineItemRow[] | null;
+  line_items: InvoiceQueryLineItem[] | null;
+  template: SavedInvoiceTemplate | null;
   payments: InvoicePaymentRow[] | null;
+  credit_notes: InvoiceCreditNoteRow[] | null;
+  reminders: InvoiceReminderRow[] | null;
 };
 
 const INVOICE_SELECT_FIELDS = [
@@ -44,17 +67,34 @@ const INVOICE_SELECT_FIELDS = [
   'tax_rate',
   'discount_amount',
   'currency',
+  'exchange_rate',
   'notes',
   'private_notes',
   'payment_terms',
+  'net_days',
+  'late_fee_type',
+  'late_fee_amount',
+  'early_discount_percent',
+  'early_discount_days',
   'accepted_payment_methods',
   'sent_at',
   'viewed_at',
   'paid_at',
+  'reminder_schedule',
+  'reminders_stopped_at',
+  'recurring_invoice_id',
+  'credited_amount',
+  'written_off_amount',
+  'written_off_on',
+  'write_off_reason',
+  'template_id',
   'created_at',
   'updated_at',
-  'line_items:invoice_line_items(id, description, quantity, rate, amount, sort_order)',
+  'line_items:invoice_line_items(id, description, quantity, rate, amount, sort_order, gig_id, kind, gig:gigs(date, title, location, city, state_code))',
   'payments:invoice_payments(id, amount, payment_date, payment_method, reference_number, notes, created_at)',
+  'credit_notes:invoice_credit_notes(id, invoice_id, credit_number, issue_date, amount, reason, created_at)',
+  'reminders:invoice_reminders(id, offset_days, recipient_email, status, error, sent_at)',
+  `template:invoice_templates(${INVOICE_TEMPLATE_SELECT})`,
 ] as const;
 
 function toJson(value: unknown): Json {
@@ -70,6 +110,7 @@ function normalizeInvoiceStatus(status: string): InvoiceStatus {
     case 'paid':
     case 'overdue':
     case 'cancelled':
+    case 'written_off':
       return status;
     default:
       return 'draft';
@@ -98,6 +139,29 @@ function normalizeAcceptedPaymentMethods(value: Json | null): PaymentMethodDetai
   });
 }
 
+function normalizeLineItemKind(kind: string | null | undefined): InvoiceLineItemKind {
+  return kind === 'late_fee' ? 'late_fee' : 'item';
+}
+
+// Terms snapshot for an invoice row; payment_terms stays the display label
+function buildInvoiceTermsPayload(formData: Partial<InvoiceFormData>): Pick<
+  InvoiceUpdate,
+  'net_days' | 'late_fee_type' | 'late_fee_amount' | 'early_discount_percent' | 'early_discount_days'
+> {
+  if (formData.late_fee_type === undefined && formData.early_discount_percent === undefined && formData.net_days === undefined) {
+    return {};
+  }
+
+  const terms = normalizePaymentTerms(formData);
+  return {
+    net_days: formData.net_days ?? null,
+    late_fee_type: terms.late_fee_type,
+    late_fee_amount: terms.late_fee_amount,
+    early_discount_percent: terms.early_discount_percent,
+    early_discount_days: terms.early_discount_days,
+  };
+}
+
 function mapInvoicePayments(payments: InvoicePaymentRow[]): Invoice['payments'] {
   return payments.map((payment) => ({
     ...payment,
@@ -106,10 +170,49 @@ function mapInvoicePayments(payments: InvoicePaymentRow[]): Invoice['payments']
   }));
 }
 
+function mapInvoiceCreditNotes(creditNotes: InvoiceCreditNoteRow[]): Invoice['credit_notes'] {
+  return [...creditNotes]
+    .sort((a, b) => a.issue_date.localeCompare(b.issue_date) || a.created_at.localeCompare(b.created_at))
+    .map((note) => ({
+      id: note.id,
+      invoice_id: note.invoice_id,
+      credit_number: note.credit_number,
+      issue_date: note.issue_date,
+      amount: Number(note.amount),
+      reason: note.reason ?? undefined,
+      created_at: note.created_at,
+    }));
+}
+
+// Credit notes are numbered after their invoice: INV-0042-CR1, INV-0042-CR2, ...
+function getNextCreditNumber(invoice: Invoice): string {
+  const prefix = `${invoice.invoice_number}-CR`;
+  const lastSequence = (invoice.credit_notes ?? []).reduce((max, note) => {
+    const sequence = note.credit_number.startsWith(prefix)
+      ? parseInt(note.credit_number.slice(prefix.length), 10)
+      : NaN;
+    return Number.isFinite(sequence) ? Math.max(max, sequence) : max;
+  }, 0);
+  return `${prefix}${lastSequence + 1}`;
+}
+
+function mapInvoiceReminders(reminders: InvoiceReminderRow[]): Invoice['reminders'] {
+  return [...reminders]
+    .sort((a, b) => new Date(b.sent_at).getTime() - new Date(a.sent_at).getTime())
+    .map((reminder) => ({
+      id: reminder.id,
+      offset_days: reminder.offset_days,
+      recipient_email: reminder.recipient_email,
+      status: reminder.status === 'failed' ? 'failed' : 'sent',
+      error: reminder.error ?? undefined,
+      sent_at: reminder.sent_at,
+    }));
+}
+
 function mapInvoiceRecord(
   invoice: InvoiceQueryRow,
   status: InvoiceStatus,
-  lineItems: InvoiceLineItemRow[],
+  lineItems: InvoiceQueryLineItem[],
   payments: InvoicePaymentRow[],
   totalPaid: number,
   balanceDue: number
@@ -133,23 +236,58 @@ function mapInvoiceRecord(
     discount_amount: invoice.discount_amount ?? undefined,
     total_amount: invoice.total_amount,
     currency: invoice.currency,
+    exchange_rate: invoice.exchange_rate,
     payment_terms: invoice.payment_terms ?? undefined,
+    net_days: invoice.net_days ?? null,
+    late_fee_type: normalizeLateFeeType(invoice.late_fee_type),
+    late_fee_amount: Number(invoice.late_fee_amount ?? 0),
+    early_discount_percent: Number(invoice.early_discount_percent ?? 0),
+    early_discount_days: Number(invoice.early_discount_days ?? 0),
     notes: invoice.notes ?? undefined,
     private_notes: invoice.private_notes ?? undefined,
     accepted_payment_methods: normalizeAcceptedPaymentMethods(invoice.accepted_payment_methods),
     gig_id: invoice.gig_id ?? undefined,
+    template_id: invoice.template_id ?? null,
+    template: invoice.template ?? null,
     created_at: invoice.created_at,
     updated_at: invoice.updated_at,
     sent_at: invoice.sent_at ?? undefined,
     viewed_at: invoice.viewed_at ?? undefined,
     paid_at: invoice.paid_at ?? undefined,
-    line_items: lineItems,
+    reminder_schedule: invoice.reminder_schedule ?? null,
+    reminders_stopped_at: invoice.reminders_stopped_at ?? undefined,
+    recurring_invoice_id: invoice.recurring_invoice_id ?? undefined,
+    credited_amount: Number(invoice.credited_amount ?? 0),
+    written_off_amount: Number(invoice.written_off_amount ?? 0),
+    written_off_on: invoice.written_off_on ?? undefined,
+    write_off_reason: invoice.write_off_reason ?? undefined,
+    line_items: lineItems.map((item) => ({ ...item, kind: normalizeLineItemKind(item.kind) })),
     payments: mapInvoicePayments(payments),
+    credit_notes: mapInvoiceCreditNotes(invoice.credit_notes || []),
+    reminders: mapInvoiceReminders(invoice.reminders || []),
     total_paid: totalPaid,
     balance_due: balanceDue,
   };
 }
 
+// Latest imported rate on or before the invoice date; null when none is on file
+async function lookupExchangeRate(userId: string, currency: string, invoiceDate: string): Promise<number | null> {
+  if (isHomeCurrency(currency)) return 1;
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('usd_per_unit')
+    .eq('user_id', userId)
+    .eq('currency', currency)
+    .lte('rate_date', invoiceDate)
+    .order('rate_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? Number(data.usd_per_unit) : null;
+}
+
 function getErrorMessage(error: unknown, fallback: string): string {
   if (error instanceof Error && error.message) {
     return error.message;
@@ -240,7 +378,7 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         const totalPaid = roundCurrencyAmount(
           payments.reduce((sum: number, payment) => sum + Number(payment.amount ?? 0), 0)
         );
-        const balanceDue = roundCurrencyAmount(Number(invoice.total_amount ?? 0) - totalPaid);
+        const balanceDue = calculateInvoiceBalanceDue({ ...invoice, total_paid: totalPaid });
         const status = normalizeInvoiceStatus(getEffectiveInvoiceStatus({
           status: normalizeInvoiceStatus(invoice.status),
           due_date: invoice.due_date,
@@ -269,6 +407,12 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
     ]);
   };
 
+  // Paying an invoice marks the gigs it bills paid (database trigger)
+  const refreshBilledGigs = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['gigs', userId] }),
+    queryClient.invalidateQueries({ queryKey: ['tour'] }),
+  ]);
+
   const createInvoice = async (formData: InvoiceFormData, invoiceNumber: string) => {
     try {
       const user = await getSharedUser();
@@ -279,10 +423,13 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         quantity: Number(item.quantity),
         rate: Number(item.rate),
         amount: roundCurrencyAmount(Number(item.quantity) * Number(item.rate)),
-        sort_order: index
+        sort_order: index,
+        gig_id: item.kind === 'late_fee' ? null : item.gig_id ?? null,
+        kind: normalizeLineItemKind(item.kind),
       }));
 
       const totals = calculateInvoiceTotals(lineItems, formData.tax_rate, formData.discount_amount);
+      const currency = formData.currency ?? 'USD';
       const invoicePayload: InvoiceInsert = {
         user_id: user.id,
         client_id: formData.client_id,
@@ -299,11 +446,17 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         tax_amount: totals.taxAmount,
         discount_amount: totals.discountAmount,
         total_amount: totals.totalAmount,
-        currency: formData.currency ?? 'USD',
+        currency,
+        exchange_rate: formData.exchange_rate !== undefined
+          ? formData.exchange_rate
+          : await lookupExchangeRate(user.id, currency, formData.invoice_date),
         payment_terms: formData.payment_terms,
+        ...buildInvoiceTermsPayload(formData),
+        template_id: formData.template_id ?? null,
         notes: formData.notes,
         private_notes: formData.private_notes,
         accepted_payment_methods: toJson(formData.accepted_payment_methods),
+        reminder_schedule: formData.reminder_schedule,
       };
 
       const { data: invoiceData, error: invoiceError } = await supabase
@@ -356,7 +509,7 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
 
       const { data: existingLineItems, error: existingLineItemsError } = await supabase
         .from('invoice_line_items')
-        .select('description, quantity, rate, amount, sort_order')
+        .select('description, quantity, rate, amount, sort_order, gig_id, kind')
         .eq('invoice_id', invoiceId)
         .order('sort_order', { ascending: true });
 
@@ -371,6 +524,8 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         invoice_date: formData.invoice_date,
         due_date: formData.due_date,
         payment_terms: formData.payment_terms,
+        ...buildInvoiceTermsPayload(formData),
+        template_id: formData.template_id,
         notes: formData.notes,
         private_notes: formData.private_notes,
         tax_rate: formData.tax_rate,
@@ -380,6 +535,8 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
             ? undefined
             : toJson(formData.accepted_payment_methods),
         currency: formData.currency,
+        exchange_rate: formData.exchange_rate,
+        reminder_schedule: formData.reminder_schedule,
       } as InvoiceUpdate;
 
       if (formData.line_items) {
@@ -398,7 +555,9 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
           quantity: Number(item.quantity),
           rate: Number(item.rate),
           amount: roundCurrencyAmount(Number(item.quantity) * Number(item.rate)),
-          sort_order: index
+          sort_order: index,
+          gig_id: item.kind === 'late_fee' ? null : item.gig_id ?? null,
+          kind: normalizeLineItemKind(item.kind),
         }));
 
         const totals = calculateInvoiceTotals(lineItems, formData.tax_rate, formData.discount_amount);
@@ -421,6 +580,8 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
               rate: item.rate,
               amount: item.amount,
               sort_order: item.sort_order,
+              gig_id: item.gig_id,
+              kind: item.kind,
             }));
 
             await supabase
@@ -500,7 +661,7 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         trackInvoiceMarkedPaid({ entity_id: invoiceId, source: 'invoice_screen' });
       }
 
-      await fetchInvoices();
+      await Promise.all([fetchInvoices(), refreshBilledGigs()]);
     } catch (err) {
       console.error('Error updating invoice status:', err);
       throw err;
@@ -534,12 +695,31 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
 
       if (paymentError) {
         console.error('Payment insert error:', paymentError);
+        if (paymentError.code === '23505') {
+          throw new Error('This Stripe payment is already recorded on this invoice');
+        }
         throw new Error(paymentError.message || 'Failed to record payment');
       }
 
+      // A full payment stops the reminder schedule
+      const invoice = invoices.find(i => i.id === invoiceId);
+      const balanceDue = invoice ? invoice.balance_due ?? invoice.total_amount : null;
+      if (balanceDue !== null && roundCurrencyAmount(balanceDue - paymentPayload.amount) <= 0) {
+        const { error: stopError } = await supabase
+          .from('invoices')
+          .update({ reminders_stopped_at: new Date().toISOString() })
+          .eq('id', invoiceId)
+          .eq('user_id', user.id);
+
+        if (stopError) {
+          console.error('Error stopping invoice reminders:', stopError);
+        }
+      }
+
       await Promise.all([
         queryClient.refetchQueries({ queryKey: ['invoices', userId] }),
         queryClient.invalidateQueries({ queryKey: ['invoices_aggregated', userId] }),
+        refreshBilledGigs(),
       ]);
     } catch (err: unknown) {
       console.error('Error recording payment:', err);
@@ -563,13 +743,228 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         throw new Error(deleteError.message || 'Failed to delete payment');
       }
 
-      await fetchInvoices();
+      // The invoice has a balance again, so its reminders resume
+      const invoice = invoices.find(i => i.payments?.some(p => p.id === paymentId));
+      if (invoice?.reminders_stopped_at) {
+        await supabase
+          .from('invoices')
+          .update({ reminders_stopped_at: null })
+          .eq('id', invoice.id)
+          .eq('user_id', user.id);
+      }
+
+      await Promise.all([fetchInvoices(), refreshBilledGigs()]);
     } catch (err: unknown) {
       console.error('Error deleting payment:', err);
       throw new Error(getErrorMessage(err, 'Failed to delete payment'));
     }
   };
 
+  // A refund is stored as a negative payment
+  const recordRefund = async (
+    invoiceId: string,
+    refundData: {
+      payment_date: string;
+      amount: number;
+      payment_method: string;
+      reference_number?: string;
+      notes?: string;
+    }
+  ) => {
+    try {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const refundPayload: InvoicePaymentInsert = {
+        invoice_id: invoiceId,
+        ...refundData,
+        amount: -roundCurrencyAmount(Math.abs(refundData.amount)),
+      };
+
+      const { error: refundError } = await supabase
+        .from('invoice_payments')
+        .insert(refundPayload);
+
+      if (refundError) {
+        throw new Error(refundError.message || 'Failed to record refund');
+      }
+
+      await Promise.all([fetchInvoices(), refreshBilledGigs()]);
+    } catch (err: unknown) {
+      console.error('Error recording refund:', err);
+      throw new Error(getErrorMessage(err, 'Failed to record refund'));
+    }
+  };
+
+  const issueCreditNote = async (
+    invoiceId: string,
+    creditData: {
+      issue_date: string;
+      amount: number;
+      reason?: string;
+    }
+  ) => {
+    try {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const invoice = invoices.find(i => i.id === invoiceId);
+      if (!invoice) throw new Error('Invoice not found');
+
+      const { error: creditError } = await supabase
+        .from('invoice_credit_notes')
+        .insert({
+          user_id: user.id,
+          invoice_id: invoiceId,
+          credit_number: getNextCreditNumber(invoice),
+          issue_date: creditData.issue_date,
+          amount: roundCurrencyAmount(creditData.amount),
+          reason: creditData.reason || null,
+        });
+
+      if (creditError) {
+        throw new Error(creditError.message || 'Failed to issue credit note');
+      }
+
+      await Promise.all([fetchInvoices(), refreshBilledGigs()]);
+    } catch (err: unknown) {
+      console.error('Error issuing credit note:', err);
+      throw new Error(getErrorMessage(err, 'Failed to issue credit note'));
+    }
+  };
+
+  const deleteCreditNote = async (creditNoteId: string) => {
+    try {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error: deleteError } = await supabase
+        .from('invoice_credit_notes')
+        .delete()
+        .eq('id', creditNoteId)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        throw new Error(deleteError.message || 'Failed to delete credit note');
+      }
+
+      await Promise.all([fetchInvoices(), refreshBilledGigs()]);
+    } catch (err: unknown) {
+      console.error('Error deleting credit note:', err);
+      throw new Error(getErrorMessage(err, 'Failed to delete credit note'));
+    }
+  };
+
+  // Write the open balance off as a bad debt; the invoice closes as written off
+  const writeOffInvoice = async (invoiceId: string, writeOff: { date: string; reason?: string }) => {
+    try {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const invoice = invoices.find(i => i.id === invoiceId);
+      if (!invoice) throw new Error('Invoice not found');
+
+      const balanceDue = roundCurrencyAmount(invoice.balance_due ?? invoice.total_amount);
+      if (balanceDue <= 0) throw new Error('This invoice has no balance to write off');
+
+      const { error: updateError } = await supabase
+        .from('invoices')
+        .update({
+          written_off_amount: roundCurrencyAmount(Number(invoice.written_off_amount ?? 0) + balanceDue),
+          written_off_on: writeOff.date,
+          write_off_reason: writeOff.reason || null,
+          reminders_stopped_at: invoice.reminders_stopped_at ?? new Date().toISOString(),
+        })
+        .eq('id', invoiceId)
+        .eq('user_id', user.id);
+
+      if (updateError) throw updateError;
+
+      await fetchInvoices();
+    } catch (err: unknown) {
+      console.error('Error writing off invoice:', err);
+      throw new Error(getErrorMessage(err, 'Failed to write off invoice'));
+    }
+  };
+
+  const reverseWriteOff = async (invoiceId: string) => {
+    try {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error: updateError } = await supabase
+        .from('invoices')
+        .update({
+          written_off_amount: 0,
+          written_off_on: null,
+          write_off_reason: null,
+          reminders_stopped_at: null,
+        })
+        .eq('id', invoiceId)
+        .eq('user_id', user.id);
+
+      if (updateError) throw updateError;
+
+      await fetchInvoices();
+    } catch (err: unknown) {
+      console.error('Error reversing write-off:', err);
+      throw new Error(getErrorMessage(err, 'Failed to reverse write-off'));
+    }
+  };
+
+  // Add the late fee accrued as of a date as its own line item; the fee is
+  // not taxed, so the invoice total grows by exactly the fee
+  const applyLateFee = async (invoiceId: string, asOfDate: string = getTodayDateString()) => {
+    try {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const invoice = invoices.find(i => i.id === invoiceId);
+      if (!invoice) throw new Error('Invoice not found');
+
+      const { lateFee, daysLate } = getInvoiceAmountOwed(invoice, asOfDate);
+      if (lateFee <= 0) throw new Error('No late fee is due on this invoice');
+
+      const terms = normalizePaymentTerms(invoice);
+      const basis = terms.late_fee_type === 'percent'
+        ? `${terms.late_fee_amount}% per month, ${daysLate} ${daysLate === 1 ? 'day' : 'days'} past due`
+        : `${daysLate} ${daysLate === 1 ? 'day' : 'days'} past due`;
+      const sortOrder = (invoice.line_items ?? []).reduce((max, item) => Math.max(max, item.sort_order), -1) + 1;
+
+      const { error: lineItemError } = await supabase
+        .from('invoice_line_items')
+        .insert({
+          invoice_id: invoiceId,
+          description: `Late fee as of ${asOfDate} (${basis})`,
+          quantity: 1,
+          rate: lateFee,
+          amount: lateFee,
+          sort_order: sortOrder,
+          kind: 'late_fee',
+        });
+
+      if (lineItemError) throw lineItemError;
+
+      const { error: updateError } = await supabase
+        .from('invoices')
+        .update({
+          subtotal: roundCurrencyAmount(Number(invoice.subtotal ?? 0) + lateFee),
+          total_amount: roundCurrencyAmount(Number(invoice.total_amount ?? 0) + lateFee),
+          reminders_stopped_at: null,
+        })
+        .eq('id', invoiceId)
+        .eq('user_id', user.id);
+
+      if (updateError) throw updateError;
+
+      await fetchInvoices();
+      return lateFee;
+    } catch (err: unknown) {
+      console.error('Error applying late fee:', err);
+      throw new Error(getErrorMessage(err, 'Failed to apply late fee'));
+    }
+  };
+
   const duplicateInvoice = async (invoiceId: string) => {
     try {
       const invoice = invoices.find(i => i.id === invoiceId);
@@ -598,12 +993,20 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
         invoice_date: today,
         due_date: dueDate,
         payment_terms: invoice.payment_terms,
+        net_days: invoice.net_days,
+        late_fee_type: invoice.late_fee_type,
+        late_fee_amount: invoice.late_fee_amount,
+        early_discount_percent: invoice.early_discount_percent,
+        early_discount_days: invoice.early_discount_days,
+        template_id: invoice.template_id,
         notes: invoice.notes,
         private_notes: invoice.private_notes,
         tax_rate: invoice.tax_rate,
         discount_amount: invoice.discount_amount,
         accepted_payment_methods: invoice.accepted_payment_methods,
-        line_items: invoice.line_items?.map(item => ({
+        reminder_schedule: invoice.reminder_schedule,
+        // Late fees belong to the original invoice's payment history
+        line_items: invoice.line_items?.filter(item => item.kind !== 'late_fee').map(item => ({
           description: item.description,
           quantity: item.quantity,
           rate: item.rate
@@ -627,6 +1030,12 @@ export function useInvoices(filters?: InvoiceQueryFilters) {
     updateInvoiceStatus,
     recordPayment,
     deletePayment,
+    recordRefund,
+    issueCreditNote,
+    deleteCreditNote,
+    writeOffInvoice,
+    reverseWriteOff,
+    applyLateFee,
     duplicateInvoice,
     refetch: fetchInvoices
   };
@@ -11,6 +11,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useUserId } from './useCurrentUser';
+import { calculateInvoiceBalanceDue } from '../utils/invoiceCalculations';
 
 interface InvoicesDataAggregated {
   invoices: any[];
@@ -48,6 +49,10 @@ export function useInvoicesDataAggregated() {
             due_date,
             status,
             total_amount,
+            currency,
+            exchange_rate,
+            credited_amount,
+            written_off_amount,
             tax_rate,
             discount_amount,
             notes,
@@ -95,7 +100,7 @@ export function useInvoicesDataAggregated() {
         return {
           ...invoice,
           total_paid: totalPaid,
-          balance_due: parseFloat(invoice.total_amount) - totalPaid
+          balance_due: calculateInvoiceBalanceDue({ ...invoice, total_paid: totalPaid })
         };
       });
 
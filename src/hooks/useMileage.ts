@@ -4,19 +4,11 @@ import type { Database } from '../types/database.types';
 import { queryKeys } from '../lib/queryKeys';
 import { getCachedUserId, getSharedUser } from '../lib/sharedAuth';
 import { useUserId } from './useCurrentUser';
-import {
-  calculateMileageDeduction as calculateMileageDeductionForDate,
-  getLatestSupportedMileageYear,
-  getStandardMileageRate,
-} from '../lib/mileage';
 
 type Mileage = Database['public']['Tables']['mileage']['Row'];
 type MileageInsert = Database['public']['Tables']['mileage']['Insert'];
 type MileageUpdate = Database['public']['Tables']['mileage']['Update'];
 
-export const IRS_MILEAGE_RATE_YEAR = getLatestSupportedMileageYear();
-export const IRS_MILEAGE_RATE = getStandardMileageRate();
-
 export interface MileageQueryFilters {
   startDate?: string;
   endDate?: string;
@@ -139,8 +131,3 @@ export function useDeleteMileage() {
     },
   });
 }
-
-// Calculate total deductible amount
-export function calculateMileageDeduction(miles: number, date?: string | Date | null): number {
-  return calculateMileageDeductionForDate(miles, date);
-}
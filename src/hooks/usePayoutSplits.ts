@@ -0,0 +1,170 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { buildSplitPayments, parsePayoutShares } from '../utils/payoutSplits';
+import type { AllocationJson, PayoutSplitTemplate, PayoutSplitTemplateInsert } from '../types/tours.types';
+import { useUserId } from './useCurrentUser';
+
+export function usePayoutSplitTemplates() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: ['payout-split-templates'],
+    queryFn: async () => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('payout_split_templates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as PayoutSplitTemplate[];
+    },
+    enabled: !!userId,
+  });
+}
+
+// Create a split template, or update it when an id is given
+export function useSavePayoutSplitTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...template }: Omit<PayoutSplitTemplateInsert, 'user_id'> & { id?: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const query = id
+        ? supabase
+          .from('payout_split_templates')
+          .update({ ...template, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id)
+        : supabase
+          .from('payout_split_templates')
+          .insert({ ...template, user_id: user.id });
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data as PayoutSplitTemplate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payout-split-templates'] });
+    },
+  });
+}
+
+export function useDeletePayoutSplitTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('payout_split_templates')
+        .delete()
+        .eq('id', templateId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payout-split-templates'] });
+      queryClient.invalidateQueries({ queryKey: ['tour-member-payments'] });
+    },
+  });
+}
+
+// Subcontractor payments on a tour's gigs, with the member and show for each
+export function useTourMemberPayments(tourId: string | undefined) {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: tourId ? ['tour-member-payments', tourId] : ['tour-member-payments-loading'],
+    queryFn: async () => {
+      if (!userId || !tourId) throw new Error('Not authenticated or no tour ID');
+
+      const { data, error } = await supabase
+        .from('gig_subcontractor_payments')
+        .select(`
+          id,
+          amount,
+          note,
+          gig_id,
+          settlement_id,
+          split_template_id,
+          subcontractor:subcontractors(id, name),
+          gig:gigs!inner(id, date, title, location, tour_id)
+        `)
+        .eq('user_id', userId)
+        .eq('gig.tour_id', tourId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId && !!tourId,
+  });
+}
+
+interface ApplyPayoutSplitParams {
+  template: PayoutSplitTemplate;
+  tourId: string;
+  settlementId: string | null; // null when splitting a single gig's own income
+  allocations: AllocationJson;
+}
+
+/**
+ * Generate member payments for a settlement or gig from a split template,
+ * replacing any payments an earlier split generated for the same income
+ */
+export function useApplyPayoutSplit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ template, settlementId, allocations }: ApplyPayoutSplitParams) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const payments = buildSplitPayments(allocations, parsePayoutShares(template.shares));
+
+      let deleteQuery = supabase
+        .from('gig_subcontractor_payments')
+        .delete()
+        .eq('user_id', user.id);
+      deleteQuery = settlementId
+        ? deleteQuery.eq('settlement_id', settlementId)
+        : deleteQuery
+          .in('gig_id', Object.keys(allocations))
+          .is('settlement_id', null)
+          .not('split_template_id', 'is', null);
+
+      const { error: deleteError } = await deleteQuery;
+      if (deleteError) throw deleteError;
+
+      if (payments.length === 0) return 0;
+
+      const { error } = await supabase
+        .from('gig_subcontractor_payments')
+        .insert(payments.map((payment) => ({
+          ...payment,
+          user_id: user.id,
+          note: `${template.name} split`,
+          split_template_id: template.id,
+          settlement_id: settlementId,
+        })));
+
+      if (error) throw error;
+      return payments.length;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tour-member-payments', variables.tourId] });
+      queryClient.invalidateQueries({ queryKey: ['gig-subcontractor-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['subcontractor-ytd'] });
+      queryClient.invalidateQueries({ queryKey: ['gigs'] });
+    },
+  });
+}
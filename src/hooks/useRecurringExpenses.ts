@@ -1,48 +1,10 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { mapUiToDbCategory } from '../lib/categoryMapping';
-
-// Client-side calculation of next due date
-function calculateNextDueDate(
-  frequency: 'weekly' | 'monthly' | 'yearly',
-  dayOfWeek?: number | null,
-  dayOfMonth?: number | null,
-  monthOfYear?: number | null,
-  fromDate: Date = new Date()
-): string {
-  let nextDate = new Date(fromDate);
-  
-  switch (frequency) {
-    case 'weekly':
-      if (dayOfWeek !== null && dayOfWeek !== undefined) {
-        const currentDay = nextDate.getDay();
-        const daysUntilTarget = (dayOfWeek - currentDay + 7) % 7;
-        nextDate.setDate(nextDate.getDate() + (daysUntilTarget || 7));
-      }
-      break;
-      
-    case 'monthly':
-      if (dayOfMonth !== null && dayOfMonth !== undefined) {
-        nextDate.setDate(dayOfMonth);
-        if (nextDate <= fromDate) {
-          nextDate.setMonth(nextDate.getMonth() + 1);
-        }
-      }
-      break;
-      
-    case 'yearly':
-      if (monthOfYear !== null && monthOfYear !== undefined && dayOfMonth !== null && dayOfMonth !== undefined) {
-        nextDate.setMonth(monthOfYear - 1);
-        nextDate.setDate(dayOfMonth);
-        if (nextDate <= fromDate) {
-          nextDate.setFullYear(nextDate.getFullYear() + 1);
-        }
-      }
-      break;
-  }
-  
-  return nextDate.toISOString().split('T')[0];
-}
+import { getTodayDateString } from '../lib/date';
+import { getNextRecurringExpenseDate, type RecurringExpensePostMode } from '../utils/recurringExpenses';
+import { useUserId } from './useCurrentUser';
 
 export type RecurringExpense = {
   id: string;
@@ -58,11 +20,17 @@ export type RecurringExpense = {
   month_of_year?: number | null;
   next_due_date?: string | null;
   is_active: boolean;
+  post_mode: RecurringExpensePostMode;
+  last_posted_date?: string | null;
+  last_error?: string | null;
   created_at: string;
   updated_at: string;
 };
 
-export type RecurringExpenseInput = Omit<RecurringExpense, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type RecurringExpenseInput = Omit<
+  RecurringExpense,
+  'id' | 'user_id' | 'created_at' | 'updated_at' | 'last_posted_date' | 'last_error'
+>;
 
 // Fetch all recurring expenses
 export function useRecurringExpenses() {
@@ -140,13 +108,7 @@ export function useCreateRecurringExpense() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      // Calculate next due date using client-side function
-      const nextDueDate = calculateNextDueDate(
-        input.frequency as 'monthly' | 'yearly' | 'weekly',
-        input.day_of_week,
-        input.day_of_month,
-        input.month_of_year
-      );
+      const nextDueDate = getNextRecurringExpenseDate(input, getTodayDateString());
 
       const { data, error } = await supabase
         .from('recurring_expenses')
@@ -187,12 +149,12 @@ export function useUpdateRecurringExpense() {
           .single();
 
         if (current) {
-          nextDueDate = calculateNextDueDate(
-            (input.frequency || current.frequency) as 'monthly' | 'yearly' | 'weekly',
-            input.day_of_week !== undefined ? input.day_of_week : current.day_of_week,
-            input.day_of_month !== undefined ? input.day_of_month : current.day_of_month,
-            input.month_of_year !== undefined ? input.month_of_year : current.month_of_year
-          );
+          nextDueDate = getNextRecurringExpenseDate({
+            frequency: (input.frequency || current.frequency) as RecurringExpense['frequency'],
+            day_of_week: input.day_of_week !== undefined ? input.day_of_week : current.day_of_week,
+            day_of_month: input.day_of_month !== undefined ? input.day_of_month : current.day_of_month,
+            month_of_year: input.month_of_year !== undefined ? input.month_of_year : current.month_of_year,
+          }, getTodayDateString());
         }
       }
 
@@ -238,7 +200,8 @@ export function useDeleteRecurringExpense() {
   });
 }
 
-// Quick-add: Create expense from recurring template
+// Quick-add: Create expense from recurring template. Only manual rules;
+// the others are posted by post-recurring-expenses
 export function useQuickAddExpense() {
   const queryClient = useQueryClient();
 
@@ -257,9 +220,12 @@ export function useQuickAddExpense() {
 
       if (fetchError) throw fetchError;
       if (!template) throw new Error('Recurring expense not found');
+      if (template.post_mode !== 'manual') {
+        throw new Error(`${template.name} is posted automatically on its due date`);
+      }
 
       // Create expense from template
-      const expenseDate = date || new Date().toISOString().split('T')[0];
+      const expenseDate = date || getTodayDateString();
 
       const mappedCategory = mapUiToDbCategory(template.category);
       
@@ -274,23 +240,23 @@ export function useQuickAddExpense() {
           vendor: template.vendor,
           notes: template.notes,
           recurring_expense_id: recurringExpenseId,
+          recurring_due_date: expenseDate,
           meals_percent_allowed: mappedCategory === 'Meals' ? 0.5 : null,
         })
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`${template.name} is already added for ${expenseDate}`);
+        }
+        throw error;
+      }
 
       // Update next_due_date on the recurring expense
-      const [year, month, day] = expenseDate.split('-').map(Number);
-      const fromDate = new Date(year, month - 1, day);
-      
-      const nextDueDate = calculateNextDueDate(
-        template.frequency as 'weekly' | 'monthly' | 'yearly',
-        template.day_of_week,
-        template.day_of_month,
-        template.month_of_year,
-        fromDate
+      const nextDueDate = getNextRecurringExpenseDate(
+        { ...template, frequency: template.frequency as RecurringExpense['frequency'] },
+        expenseDate
       );
 
       await supabase
@@ -306,3 +272,81 @@ export function useQuickAddExpense() {
     },
   });
 }
+
+// Auto-posted drafts waiting to be reviewed
+export function useRecurringExpenseDrafts() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: ['expenses', 'recurring-drafts', userId],
+    queryFn: async () => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_draft', true)
+        .not('recurring_expense_id', 'is', null)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+}
+
+// Post or discard an auto-posted draft
+export function useReviewRecurringExpenseDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ expenseId, action }: { expenseId: string; action: 'post' | 'discard' }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = action === 'post'
+        ? await supabase
+          .from('expenses')
+          .update({ is_draft: false })
+          .eq('id', expenseId)
+          .eq('user_id', user.id)
+        : await supabase
+          .from('expenses')
+          .delete()
+          .eq('id', expenseId)
+          .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+  });
+}
+
+// Catch up on recurring expenses that came due while the app was closed.
+// The daily job does the same for everyone; posting twice is prevented on
+// the server, so overlapping runs are harmless.
+export function usePostDueRecurringExpenses() {
+  const userId = useUserId();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase.functions
+      .invoke('post-recurring-expenses', { body: { today: getTodayDateString() } })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Failed to post recurring expenses:', error);
+          return;
+        }
+        if (data?.posted > 0 || data?.drafts > 0) {
+          queryClient.invalidateQueries({ queryKey: ['expenses'] });
+          queryClient.invalidateQueries({ queryKey: ['recurring-expenses'] });
+        }
+      });
+  }, [userId, queryClient]);
+}
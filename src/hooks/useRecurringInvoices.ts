@@ -0,0 +1,244 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { queryKeys } from '../lib/queryKeys';
+import { getTodayDateString } from '../lib/date';
+import type { Database, Json } from '../types/database.types';
+import type {
+  Invoice,
+  PaymentMethodDetail,
+  RecurringInvoice,
+  RecurringInvoiceScheduleInput,
+} from '../types/invoice';
+import { useUserId } from './useCurrentUser';
+import {
+  getResumedRunDate,
+  type RecurringInvoiceFrequency,
+  type RecurringInvoiceSendMode,
+} from '../utils/recurringInvoices';
+
+type RecurringInvoiceRow = Database['public']['Tables']['recurring_invoices']['Row'];
+type RecurringInvoiceInsert = Database['public']['Tables']['recurring_invoices']['Insert'];
+
+function toJson(value: unknown): Json {
+  return value as Json;
+}
+
+function mapRecurringInvoice(row: RecurringInvoiceRow): RecurringInvoice {
+  const lineItems = Array.isArray(row.line_items) ? row.line_items as RecurringInvoice['line_items'] : [];
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    client_id: row.client_id ?? undefined,
+    client_name: row.client_name,
+    client_email: row.client_email ?? undefined,
+    client_company: row.client_company ?? undefined,
+    client_address: row.client_address ?? undefined,
+    line_items: lineItems.map(item => ({
+      description: item.description,
+      quantity: Number(item.quantity),
+      rate: Number(item.rate),
+    })),
+    tax_rate: row.tax_rate ?? undefined,
+    discount_amount: row.discount_amount ?? undefined,
+    currency: row.currency,
+    payment_terms: row.payment_terms ?? undefined,
+    due_in_days: row.due_in_days,
+    notes: row.notes ?? undefined,
+    private_notes: row.private_notes ?? undefined,
+    accepted_payment_methods: Array.isArray(row.accepted_payment_methods)
+      ? row.accepted_payment_methods as unknown as PaymentMethodDetail[]
+      : [],
+    reminder_schedule: row.reminder_schedule,
+    frequency: row.frequency as RecurringInvoiceFrequency,
+    start_date: row.start_date,
+    end_date: row.end_date ?? undefined,
+    next_run_date: row.next_run_date ?? undefined,
+    send_mode: row.send_mode as RecurringInvoiceSendMode,
+    is_paused: row.is_paused,
+    last_run_date: row.last_run_date ?? undefined,
+    last_error: row.last_error ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function validateSchedule(schedule: RecurringInvoiceScheduleInput) {
+  if (schedule.end_date && schedule.end_date < schedule.start_date) {
+    throw new Error('End date must be on or after the start date');
+  }
+  if (!Number.isInteger(schedule.due_in_days) || schedule.due_in_days < 0) {
+    throw new Error('Due in days must be a whole number of days');
+  }
+}
+
+// Fetch all recurring invoice schedules
+export function useRecurringInvoices() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: queryKeys.recurringInvoices(userId!),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .select('*')
+        .eq('user_id', userId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapRecurringInvoice);
+    },
+    enabled: !!userId,
+  });
+}
+
+// Create a schedule that repeats an existing invoice's bill-to and line items
+export function useCreateRecurringInvoice() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async ({ invoice, schedule }: { invoice: Invoice; schedule: RecurringInvoiceScheduleInput }) => {
+      if (!userId) throw new Error('Not authenticated');
+      validateSchedule(schedule);
+
+      if (schedule.send_mode === 'auto_send' && !invoice.client_email) {
+        throw new Error('Add a client email to the invoice before turning on auto-send');
+      }
+
+      const payload: RecurringInvoiceInsert = {
+        user_id: userId,
+        client_id: invoice.client_id,
+        client_name: invoice.client_name,
+        client_email: invoice.client_email,
+        client_company: invoice.client_company,
+        client_address: invoice.client_address,
+        line_items: toJson((invoice.line_items || []).map(item => ({
+          description: item.description,
+          quantity: item.quantity,
+          rate: item.rate,
+        }))),
+        tax_rate: invoice.tax_rate,
+        discount_amount: invoice.discount_amount,
+        currency: invoice.currency,
+        payment_terms: invoice.payment_terms,
+        notes: invoice.notes,
+        private_notes: invoice.private_notes,
+        accepted_payment_methods: toJson(invoice.accepted_payment_methods),
+        reminder_schedule: invoice.reminder_schedule ?? null,
+        frequency: schedule.frequency,
+        start_date: schedule.start_date,
+        end_date: schedule.end_date || null,
+        due_in_days: schedule.due_in_days,
+        send_mode: schedule.send_mode,
+        next_run_date: getResumedRunDate(schedule, getTodayDateString()),
+      };
+
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .insert(payload)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapRecurringInvoice(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurringInvoices(userId!) });
+    },
+  });
+}
+
+// Update a schedule's cadence, dates or send mode
+export function useUpdateRecurringInvoice() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async ({ recurringInvoice, schedule }: {
+      recurringInvoice: RecurringInvoice;
+      schedule: RecurringInvoiceScheduleInput;
+    }) => {
+      if (!userId) throw new Error('Not authenticated');
+      validateSchedule(schedule);
+
+      if (schedule.send_mode === 'auto_send' && !recurringInvoice.client_email) {
+        throw new Error('This client has no email address, so invoices can only be saved as drafts');
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .update({
+          frequency: schedule.frequency,
+          start_date: schedule.start_date,
+          end_date: schedule.end_date || null,
+          due_in_days: schedule.due_in_days,
+          send_mode: schedule.send_mode,
+          next_run_date: getResumedRunDate(schedule, getTodayDateString()),
+          last_error: null,
+        })
+        .eq('id', recurringInvoice.id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapRecurringInvoice(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurringInvoices(userId!) });
+    },
+  });
+}
+
+// Pause or resume a schedule; resuming skips occurrences missed while paused
+export function useSetRecurringInvoicePaused() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async ({ recurringInvoice, paused }: { recurringInvoice: RecurringInvoice; paused: boolean }) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('recurring_invoices')
+        .update(paused
+          ? { is_paused: true }
+          : {
+              is_paused: false,
+              next_run_date: getResumedRunDate(recurringInvoice, getTodayDateString()),
+              last_error: null,
+            })
+        .eq('id', recurringInvoice.id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurringInvoices(userId!) });
+    },
+  });
+}
+
+// Delete a schedule; invoices it already generated are kept
+export function useDeleteRecurringInvoice() {
+  const queryClient = useQueryClient();
+  const userId = useUserId();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('recurring_invoices')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurringInvoices(userId!) });
+    },
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Stripe Connect account that receives online invoice payments
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { getSharedUser } from '../lib/sharedAuth';
+import { useUserId } from './useCurrentUser';
+
+export function useStripeConnectAccount() {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: ['stripe_connect_account', userId],
+    queryFn: async () => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('stripe_connect_accounts')
+        .select('charges_enabled, details_submitted')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Onboarding link for a new or unfinished account, or the Express dashboard
+ * once the account can take charges
+ */
+export function useCreateStripeConnectLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ url: string; chargesEnabled: boolean }> => {
+      const user = await getSharedUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase.functions.invoke('create-stripe-connect-link', {
+        body: {},
+      });
+
+      if (error) {
+        console.error('[Stripe Connect] Error:', error);
+        throw new Error(error.context?.error || error.message || 'Failed to open Stripe');
+      }
+
+      if (!data?.url) {
+        throw new Error('No Stripe URL returned');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stripe_connect_account'] });
+    },
+  });
+}
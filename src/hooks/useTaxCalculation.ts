@@ -6,12 +6,9 @@
  */
 
 import { useMemo } from 'react';
-import { 
-  calcTotalTax, 
-  type TaxProfile as EngineTaxProfile,
-  type YTDData,
-  type TaxResult 
-} from '../tax/engine';
+import type { TaxProfile as EngineTaxProfile, TaxResult } from '../tax/engine';
+import { basicTaxProfile, estimateSCorpTaxOnNetProfit, estimateTaxOnNetProfit } from '../tax/service';
+import { getTaxConfig } from '../tax/config';
 import { useProfile } from './useProfile';
 import { useSubscription } from './useSubscription';
 import { getResolvedPlan, isSCalcEligibleForBusinessStructure } from '../lib/businessStructure';
@@ -32,12 +29,12 @@ interface UseTaxCalculationResult {
  * This eliminates ~30 duplicate requests per Dashboard load
  * 
  * @param netProfit - Year-to-date net profit (gross - expenses)
- * @param grossIncome - Year-to-date gross income
+ * @param taxYear - Tax year whose tables to use (defaults to the current year)
  * @returns Tax calculation result with federal, state, local, and SE tax
  */
 export function useTaxCalculation(
   netProfit: number,
-  grossIncome: number
+  taxYear?: number
 ): UseTaxCalculationResult {
   // Use shared hooks to avoid duplicate fetches
   const userId = useUserId();
@@ -67,20 +64,7 @@ export function useTaxCalculation(
     try {
       // If no profile exists, use defaults with null state
       if (!taxProfile || !taxProfile.state) {
-        const defaultProfile: EngineTaxProfile = {
-          filingStatus: 'single',
-          state: 'US' as any, // Fallback for calculation only
-          deductionMethod: 'standard',
-          seIncome: true,
-        };
-
-        const ytd: YTDData = {
-          grossIncome,
-          adjustments: 0,
-          netSE: netProfit,
-        };
-
-        taxResult = calcTotalTax(ytd, defaultProfile);
+        taxResult = estimateTaxOnNetProfit(netProfit, basicTaxProfile(null), taxYear);
         hasProfile = false;
       } else {
         // Map tax profile to engine format
@@ -91,29 +75,35 @@ export function useTaxCalculation(
           county: taxProfile.county,
           nycResident: taxProfile.nycResident,
           yonkersResident: taxProfile.yonkersResident,
+          localJurisdiction: taxProfile.localJurisdiction,
+          schoolDistrict: taxProfile.schoolDistrict,
+          localTaxRate: taxProfile.localTaxRate,
+          schoolDistrictRate: taxProfile.schoolDistrictRate,
           deductionMethod: taxProfile.deductionMethod,
           itemizedAmount: taxProfile.itemizedAmount,
           seIncome: taxProfile.seIncome,
-        };
-
-        const ytd: YTDData = {
-          grossIncome,
-          adjustments: 0,
-          netSE: netProfit,
+          sCorpSalary: taxProfile.sCorpSalary,
+          payrollFrequency: taxProfile.payrollFrequency,
         };
 
         // Check if SE tax should be calculated based on business structure
-        if (!eligibility.usesSelfEmploymentTax) {
+        if (businessStructure === 'llc_scorp' && engineProfile.sCorpSalary) {
+          // S-Corp with a reasonable salary set: payroll FICA instead of SE tax
+          taxResult = estimateSCorpTaxOnNetProfit(netProfit, engineProfile, taxYear);
+        } else if (!eligibility.usesSelfEmploymentTax) {
           taxResult = {
             federal: 0,
             state: 0,
             local: 0,
             seTax: 0,
+            additionalMedicare: 0,
+            qbiDeduction: 0,
             total: 0,
             effectiveRate: 0,
+            taxYear: getTaxConfig(taxYear).taxYear,
           };
         } else {
-          taxResult = calcTotalTax(ytd, engineProfile);
+          taxResult = estimateTaxOnNetProfit(netProfit, engineProfile, taxYear);
         }
       }
     } catch (err) {
@@ -121,24 +111,11 @@ export function useTaxCalculation(
       error = err instanceof Error ? err : new Error('Failed to calculate taxes');
       
       // Provide fallback calculation
-      const fallbackProfile: EngineTaxProfile = {
-        filingStatus: 'single',
-        state: 'TN',
-        deductionMethod: 'standard',
-        seIncome: true,
-      };
-
-      const ytd: YTDData = {
-        grossIncome,
-        adjustments: 0,
-        netSE: netProfit,
-      };
-
-      taxResult = calcTotalTax(ytd, fallbackProfile);
+      taxResult = estimateTaxOnNetProfit(netProfit, basicTaxProfile('TN'), taxYear);
     }
 
     return { taxResult, error, hasProfile };
-  }, [netProfit, grossIncome, taxProfile, businessStructure, eligibility, taxProfileLoading, userId]);
+  }, [netProfit, taxYear, taxProfile, businessStructure, eligibility, taxProfileLoading, userId]);
 
   return {
     taxResult: result.taxResult,
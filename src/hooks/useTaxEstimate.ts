@@ -1,37 +1,12 @@
 /**
  * Tax estimation hook for inline gig calculations
- * Provides simple SE tax, federal, and state estimates
+ * Provides SE tax, federal, and state estimates from the shared tax service
  */
 
 import { useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../lib/supabase';
-import {
-  calculateMileageDeduction as calculateMileageDeductionForDate,
-  getLatestSupportedMileageYear,
-  getStandardMileageRate,
-} from '../lib/mileage';
-
-export const IRS_MILEAGE_RATE_YEAR = getLatestSupportedMileageYear();
-export const IRS_MILEAGE_RATE = getStandardMileageRate();
-
-// Self-Employment tax rate (Social Security + Medicare)
-const SE_TAX_RATE = 0.153; // 15.3%
-
-// Simplified federal income tax brackets for 2025 (single filer)
-// These are approximations for quick estimates
-const FEDERAL_BRACKETS = [
-  { upTo: 11600, rate: 0.10 },
-  { upTo: 47150, rate: 0.12 },
-  { upTo: 100525, rate: 0.22 },
-  { upTo: 191950, rate: 0.24 },
-  { upTo: 243725, rate: 0.32 },
-  { upTo: 609350, rate: 0.35 },
-  { upTo: Infinity, rate: 0.37 },
-];
-
-// State tax rates (no income tax states)
-const NO_TAX_STATES = ['TN', 'FL', 'TX', 'WA', 'NV', 'SD', 'WY', 'AK', 'NH'];
+import { useTaxProfile } from './useTaxProfile';
+import type { TaxProfile } from '../tax/engine';
+import { basicTaxProfile, estimateTaxOnNetProfit } from '../tax/service';
 
 export interface TaxEstimate {
   selfEmployment: number;
@@ -40,33 +15,18 @@ export interface TaxEstimate {
   total: number;
 }
 
-/**
- * Calculate progressive tax using brackets
- */
-function calculateBracketTax(income: number, brackets: Array<{ upTo: number; rate: number }>): number {
-  let tax = 0;
-  let previousThreshold = 0;
-
-  for (const bracket of brackets) {
-    if (income <= previousThreshold) break;
-
-    const taxableInBracket = Math.min(income, bracket.upTo) - previousThreshold;
-    tax += taxableInBracket * bracket.rate;
-    previousThreshold = bracket.upTo;
-
-    if (income <= bracket.upTo) break;
-  }
-
-  return tax;
-}
-
 /**
  * Estimate taxes for a given net income before tax
  * @param netBeforeTax - Income after expenses but before taxes
- * @param stateCode - Two-letter state code (optional)
- * @returns Tax breakdown
+ * @param profile - Engine tax profile, or a two-letter state code (optional)
+ * @param taxYear - Tax year whose tables to use (defaults to the current year)
+ * @returns Tax breakdown (state includes local; SE includes Additional Medicare)
  */
-export function estimateTaxes(netBeforeTax: number, stateCode?: string | null): TaxEstimate {
+export function estimateTaxes(
+  netBeforeTax: number,
+  profile?: TaxProfile | string | null,
+  taxYear?: number
+): TaxEstimate {
   if (netBeforeTax <= 0) {
     return {
       selfEmployment: 0,
@@ -76,68 +36,31 @@ export function estimateTaxes(netBeforeTax: number, stateCode?: string | null):
     };
   }
 
-  // 1. Self-Employment Tax (15.3% on 92.35% of net income)
-  const seIncome = netBeforeTax * 0.9235;
-  const selfEmployment = seIncome * SE_TAX_RATE;
-
-  // 2. Federal Income Tax (on net minus 1/2 SE tax deduction)
-  const federalTaxableIncome = netBeforeTax - (selfEmployment / 2);
-  const federalIncome = calculateBracketTax(federalTaxableIncome, FEDERAL_BRACKETS);
-
-  // 3. State Income Tax (simplified - use 0% for no-tax states, 5% average for others)
-  let stateIncome = 0;
-  if (stateCode && !NO_TAX_STATES.includes(stateCode)) {
-    // Simple 5% estimate for states with income tax
-    // In production, this would query the state_tax_rates table
-    stateIncome = netBeforeTax * 0.05;
-  }
-
-  const total = selfEmployment + federalIncome + stateIncome;
+  const taxProfile = profile && typeof profile === 'object' ? profile : basicTaxProfile(profile);
+  const result = estimateTaxOnNetProfit(netBeforeTax, taxProfile, taxYear);
 
   return {
-    selfEmployment,
-    federalIncome,
-    stateIncome,
-    total,
+    selfEmployment: result.seTax + result.additionalMedicare,
+    federalIncome: result.federal,
+    stateIncome: result.state + result.local,
+    total: result.total,
   };
 }
 
 /**
- * Hook to get tax estimate with user's state from profile
+ * Hook to get tax estimate with the user's tax profile
  */
 export function useTaxEstimate(netBeforeTax: number) {
-  // Fetch user's state from profile
-  const { data: profile } = useQuery<{ state_code: string | null } | null>({
-    queryKey: ['profile'],
-    queryFn: async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return null;
-
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('state_code')
-        .eq('id', user.id)
-        .single();
-
-      if (error) return null;
-      return data as any;
-    },
-  });
+  const { data: taxProfile } = useTaxProfile();
+  const hasProfile = !!taxProfile?.state;
 
   const estimate = useMemo(() => {
-    return estimateTaxes(netBeforeTax, profile?.state_code);
-  }, [netBeforeTax, profile?.state_code]);
+    return estimateTaxes(netBeforeTax, hasProfile ? taxProfile : null);
+  }, [netBeforeTax, hasProfile, taxProfile]);
 
   return {
     estimate,
-    stateCode: profile?.state_code,
-    hasProfile: !!profile,
+    stateCode: taxProfile?.state ?? null,
+    hasProfile,
   };
 }
-
-/**
- * Calculate mileage deduction
- */
-export function calculateMileageDeduction(miles: number, date?: string | Date | null): number {
-  return calculateMileageDeductionForDate(miles, date);
-}
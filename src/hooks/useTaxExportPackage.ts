@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { buildTaxExportPackage, TaxExportError } from '../lib/exports/buildTaxExportPackage';
-import type { TaxExportPackage } from '../lib/exports/taxExportPackage';
+import type { TaxExportBasis, TaxExportPackage } from '../lib/exports/taxExportPackage';
+import { useTaxProfile } from './useTaxProfile';
 
 export interface UseTaxExportPackageOptions {
   userId: string;
@@ -8,6 +9,8 @@ export interface UseTaxExportPackageOptions {
   timezone?: string;
   includeTips?: boolean;
   includeFees?: boolean;
+  includePerDiem?: boolean;
+  basis?: TaxExportBasis;
   dateStart?: string;
   dateEnd?: string;
   enabled?: boolean;
@@ -20,23 +23,28 @@ export function useTaxExportPackage(options: UseTaxExportPackageOptions) {
     timezone = 'America/New_York',
     includeTips = true,
     includeFees = true,
+    includePerDiem = false,
+    basis = 'cash',
     dateStart,
     dateEnd,
     enabled = true,
   } = options;
+  const { data: taxProfile } = useTaxProfile();
 
   return useQuery<TaxExportPackage, TaxExportError>({
-    queryKey: ['taxExportPackage', userId, taxYear, timezone, includeTips, includeFees, dateStart, dateEnd],
+    queryKey: ['taxExportPackage', userId, taxYear, timezone, includeTips, includeFees, includePerDiem, basis, dateStart, dateEnd, taxProfile],
     queryFn: async () => {
       return await buildTaxExportPackage({
         userId,
         taxYear,
         timezone,
-        basis: 'cash',
+        basis,
         includeTips,
         includeFeesAsDeduction: includeFees,
+        includePerDiem,
         dateStart,
         dateEnd,
+        taxProfile,
       });
     },
     enabled: enabled && !!userId && !!taxYear,
@@ -4,7 +4,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import type { TaxProfile } from '../tax/engine';
+import type { PayrollFrequency, TaxProfile } from '../tax/engine';
 import type { StateCode } from '../tax/config/2025';
 import { queryKeys } from '../lib/queryKeys';
 import { useState, useEffect, useRef } from 'react';
@@ -18,9 +18,15 @@ interface TaxProfileRow {
   county: string | null;
   nyc_resident: boolean;
   yonkers_resident: boolean;
+  local_jurisdiction: string | null;
+  school_district: string | null;
+  local_tax_rate: number | null;
+  school_district_rate: number | null;
   deduction_method: string;
   itemized_amount: number | null;
   se_income: boolean;
+  scorp_reasonable_salary: number | null;
+  scorp_payroll_frequency: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -71,6 +77,10 @@ export function useTaxProfile() {
           county: undefined,
           nycResident: undefined,
           yonkersResident: undefined,
+          localJurisdiction: undefined,
+          schoolDistrict: undefined,
+          localTaxRate: undefined,
+          schoolDistrictRate: undefined,
           deductionMethod: 'standard' as const,
           seIncome: true, // Assume self-employment for Bozzy users
         };
@@ -84,9 +94,15 @@ export function useTaxProfile() {
         county: row.county || undefined,
         nycResident: row.nyc_resident || undefined,
         yonkersResident: row.yonkers_resident || undefined,
+        localJurisdiction: row.local_jurisdiction || undefined,
+        schoolDistrict: row.school_district || undefined,
+        localTaxRate: row.local_tax_rate ?? undefined,
+        schoolDistrictRate: row.school_district_rate ?? undefined,
         deductionMethod: row.deduction_method as 'standard' | 'itemized',
         itemizedAmount: row.itemized_amount || undefined,
         seIncome: row.se_income,
+        sCorpSalary: row.scorp_reasonable_salary ?? undefined,
+        payrollFrequency: (row.scorp_payroll_frequency as PayrollFrequency | null) ?? undefined,
       };
     },
     enabled: !!userId,
@@ -124,9 +140,15 @@ export function useUpsertTaxProfile() {
         county: profile.county || null,
         nyc_resident: profile.nycResident || false,
         yonkers_resident: profile.yonkersResident || false,
+        local_jurisdiction: profile.localJurisdiction || null,
+        school_district: profile.schoolDistrict || null,
+        local_tax_rate: profile.localTaxRate ?? null,
+        school_district_rate: profile.schoolDistrictRate ?? null,
         deduction_method: profile.deductionMethod,
         itemized_amount: profile.itemizedAmount || null,
         se_income: profile.seIncome,
+        scorp_reasonable_salary: profile.sCorpSalary ?? null,
+        scorp_payroll_frequency: profile.payrollFrequency ?? null,
       };
 
       const { error } = await supabase
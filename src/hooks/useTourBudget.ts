@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import type { TourBudgetItem, TourBudgetItemInsert } from '../types/tours.types';
+import { useUserId } from './useCurrentUser';
+
+export function useTourBudget(tourId: string | undefined) {
+  const userId = useUserId();
+
+  return useQuery({
+    queryKey: tourId ? ['tour-budget', tourId] : ['tour-budget-loading'],
+    queryFn: async () => {
+      if (!userId || !tourId) throw new Error('Not authenticated or no tour ID');
+
+      const { data, error } = await supabase
+        .from('tour_budget_items')
+        .select('*')
+        .eq('tour_id', tourId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as TourBudgetItem[];
+    },
+    enabled: !!userId && !!tourId,
+  });
+}
+
+// Create a budget line, or update it when an id is given
+export function useSaveTourBudgetItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...item }: Omit<TourBudgetItemInsert, 'user_id'> & { id?: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const query = id
+        ? supabase
+          .from('tour_budget_items')
+          .update({ ...item, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id)
+        : supabase
+          .from('tour_budget_items')
+          .insert({ ...item, user_id: user.id });
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data as TourBudgetItem;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['tour-budget', data.tour_id] });
+    },
+  });
+}
+
+export function useDeleteTourBudgetItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ itemId }: { itemId: string; tourId: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('tour_budget_items')
+        .delete()
+        .eq('id', itemId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tour-budget', variables.tourId] });
+    },
+  });
+}
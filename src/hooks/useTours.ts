@@ -45,12 +45,18 @@ export function useTour(tourId: string | undefined) {
             date,
             title,
             location,
+            city,
+            state,
             gross_amount,
             tips,
             per_diem,
             other_income,
             fees,
-            payer:payers(id, name)
+            currency,
+            exchange_rate,
+            paid,
+            payer:payers(id, name),
+            expenses(id, description, amount, category)
           ),
           settlements(*),
           tour_expenses:expenses!expenses_tour_id_fkey(
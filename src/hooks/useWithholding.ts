@@ -4,7 +4,7 @@
 
 import { useState, useEffect } from 'react';
 import { calculateWithholding, type WithholdingBreakdown, type WithholdingInput } from '../lib/tax/withholding';
-import { getStateRate, getUserTaxProfile } from '../services/taxService';
+import { getUserTaxProfile } from '../services/taxService';
 import type { FilingStatus } from '../lib/tax/withholding';
 
 interface UseWithholdingResult {
@@ -50,10 +50,6 @@ export function useWithholding(
         const stateCode = profile.stateCode || 'TN'; // Default to TN (no state tax)
         const filingStatus = mapFilingStatus(profile.filingStatus);
 
-        // Get state rate (will return null if table doesn't exist)
-        const stateRate = await getStateRate(stateCode);
-
-        // Calculate withholding (works even if stateRate is null)
         const input: WithholdingInput = {
           amount,
           stateCode,
@@ -61,7 +57,7 @@ export function useWithholding(
           ytdNetIncome,
         };
 
-        const result = calculateWithholding(input, stateRate);
+        const result = calculateWithholding(input);
 
         if (isMounted) {
           setBreakdown(result);
@@ -72,8 +68,7 @@ export function useWithholding(
         // Provide fallback calculation even on error
         if (isMounted) {
           const fallbackResult = calculateWithholding(
-            { amount, stateCode: 'TN', filingStatus: 'single', ytdNetIncome },
-            null
+            { amount, stateCode: 'TN', filingStatus: 'single', ytdNetIncome }
           );
           setBreakdown(fallbackResult);
           setError(err instanceof Error ? err : new Error('Failed to calculate withholding'));
@@ -88,6 +83,7 @@ export function useWithholding(
       setBreakdown({
         federalIncome: 0,
         selfEmployment: 0,
+        additionalMedicare: 0,
         stateIncome: 0,
         total: 0,
       });
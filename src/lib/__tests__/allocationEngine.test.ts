@@ -4,6 +4,7 @@ import {
   getDefaultBuckets,
   validateBucketPercentages,
   getNextQuarterlyDueDate,
+  applyTaxPayments,
 } from '../../utils/allocationEngine';
 import type { AllocationBucket } from '../../types/allocation';
 
@@ -669,4 +670,50 @@ describe('allocationEngine', () => {
       expect(isValid).toBe(true);
     });
   });
+
+  describe('applyTaxPayments', () => {
+    const buckets = [
+      { id: 'fed', bucket_type: 'federal_tax' },
+      { id: 'state', bucket_type: 'state_tax' },
+      { id: 'spend', bucket_type: 'spendable' },
+    ];
+
+    it('should draw federal payments from the federal tax bucket', () => {
+      const result = applyTaxPayments(
+        { fed: 5000, spend: 10000 },
+        buckets,
+        [{ jurisdiction: 'federal', amount: 1200 }, { jurisdiction: 'federal', amount: 800 }]
+      );
+
+      expect(result.find(t => t.bucket_id === 'fed')).toEqual({ bucket_id: 'fed', total: 3000, allocated: 5000, paid: 2000 });
+      expect(result.find(t => t.bucket_id === 'spend')).toEqual({ bucket_id: 'spend', total: 10000, allocated: 10000, paid: 0 });
+    });
+
+    it('should draw state payments from the state tax bucket', () => {
+      const result = applyTaxPayments(
+        { fed: 5000, state: 1500 },
+        buckets,
+        [{ jurisdiction: 'CA', amount: 400 }, { jurisdiction: 'NY', amount: 100 }]
+      );
+
+      expect(result.find(t => t.bucket_id === 'state')?.total).toBe(1000);
+      expect(result.find(t => t.bucket_id === 'fed')?.total).toBe(5000);
+    });
+
+    it('should show a bucket that was paid from before anything was allocated', () => {
+      const result = applyTaxPayments({}, buckets, [{ jurisdiction: 'federal', amount: 250 }]);
+
+      expect(result).toEqual([{ bucket_id: 'fed', total: -250, allocated: 0, paid: 250 }]);
+    });
+
+    it('should ignore payments with no matching tax bucket', () => {
+      const result = applyTaxPayments(
+        { spend: 100 },
+        [{ id: 'spend', bucket_type: 'spendable' }],
+        [{ jurisdiction: 'federal', amount: 50 }]
+      );
+
+      expect(result).toEqual([{ bucket_id: 'spend', total: 100, allocated: 100, paid: 0 }]);
+    });
+  });
 });
@@ -0,0 +1,148 @@
+import {
+  buildCheckoutPayment,
+  createInvoiceCheckout,
+  resolveCheckoutAmount,
+  InvoiceCheckoutError,
+  type CheckoutInvoice,
+  type CheckoutSessionRequest,
+  type CompletedCheckoutSession,
+  type InvoicePaymentProvider,
+} from '../invoiceCheckout';
+
+function invoice(overrides: Partial<CheckoutInvoice> = {}): CheckoutInvoice {
+  return {
+    id: 'inv-1',
+    invoice_number: 'INV-2026-001',
+    client_email: 'venue@example.com',
+    status: 'sent',
+    currency: 'USD',
+    total_amount: 1200,
+    total_paid: 0,
+    ...overrides,
+  };
+}
+
+function mockProvider() {
+  const requests: CheckoutSessionRequest[] = [];
+  const provider: InvoicePaymentProvider = {
+    async createCheckoutSession(request) {
+      requests.push(request);
+      return { id: `cs_test_${requests.length}`, url: `https://pay.example.test/${requests.length}` };
+    },
+  };
+  return { provider, requests };
+}
+
+function session(overrides: Partial<CompletedCheckoutSession> = {}): CompletedCheckoutSession {
+  return {
+    id: 'cs_test_1',
+    amount_total: 50000,
+    payment_status: 'paid',
+    payment_intent: 'pi_123',
+    metadata: { type: 'invoice_payment', invoice_id: 'inv-1', public_token: 'tok' },
+    ...overrides,
+  };
+}
+
+describe('resolveCheckoutAmount', () => {
+  it('defaults to the balance due', () => {
+    expect(resolveCheckoutAmount(invoice({ total_paid: 200 }))).toBe(1000);
+  });
+
+  it('allows a partial payment up to the balance', () => {
+    expect(resolveCheckoutAmount(invoice(), 500)).toBe(500);
+    expect(() => resolveCheckoutAmount(invoice({ total_paid: 1000 }), 250)).toThrow(InvoiceCheckoutError);
+  });
+
+  it('subtracts credit notes and write-offs from the balance', () => {
+    expect(resolveCheckoutAmount(invoice({ total_paid: 200, credited_amount: 150.5 }))).toBe(849.5);
+    expect(() => resolveCheckoutAmount(invoice({ total_paid: 200, written_off_amount: 1000 }))).toThrow('already paid');
+  });
+
+  it('rejects paid, draft, cancelled and written-off invoices', () => {
+    expect(() => resolveCheckoutAmount(invoice({ total_paid: 1200 }))).toThrow('already paid');
+    expect(() => resolveCheckoutAmount(invoice({ status: 'written_off' }))).toThrow('not open for payment');
+    expect(() => resolveCheckoutAmount(invoice({ status: 'draft' }))).toThrow('not open for payment');
+    expect(() => resolveCheckoutAmount(invoice({ status: 'cancelled' }))).toThrow('not open for payment');
+  });
+});
+
+describe('createInvoiceCheckout', () => {
+  it('opens a session for the balance with invoice metadata', async () => {
+    const { provider, requests } = mockProvider();
+
+    const result = await createInvoiceCheckout(provider, invoice({ total_paid: 200.5 }), {
+      returnUrl: 'https://app.example.test/invoices/inv-1?token=tok',
+      publicToken: 'tok',
+      connectedAccountId: 'acct_musician',
+    });
+
+    expect(result.url).toBe('https://pay.example.test/1');
+    expect(requests[0]).toEqual(expect.objectContaining({
+      amountCents: 99950,
+      currency: 'USD',
+      customerEmail: 'venue@example.com',
+      paymentMethods: ['card', 'ach'],
+      successUrl: 'https://app.example.test/invoices/inv-1?token=tok&payment=success',
+      metadata: { type: 'invoice_payment', invoice_id: 'inv-1', public_token: 'tok' },
+      destinationAccountId: 'acct_musician',
+    }));
+  });
+
+  it('offers card only for non-USD invoices', async () => {
+    const { provider, requests } = mockProvider();
+
+    await createInvoiceCheckout(provider, invoice({ currency: 'EUR' }), { returnUrl: 'https://x.test', publicToken: 't', connectedAccountId: 'acct_1' });
+
+    expect(requests[0].paymentMethods).toEqual(['card']);
+  });
+
+  it('does not call the provider when the amount is invalid', async () => {
+    const { provider, requests } = mockProvider();
+
+    await expect(createInvoiceCheckout(provider, invoice(), {
+      amount: 5000,
+      returnUrl: 'https://x.test',
+      publicToken: 't',
+      connectedAccountId: 'acct_1',
+    })).rejects.toThrow('cannot exceed');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('buildCheckoutPayment', () => {
+  it('records a partial card payment', () => {
+    const payment = buildCheckoutPayment(session(), 'card', 1200, '2026-10-19');
+
+    expect(payment).toEqual({
+      invoice_id: 'inv-1',
+      amount: 500,
+      payment_date: '2026-10-19',
+      payment_method: 'Credit Card',
+      reference_number: 'pi_123',
+      notes: 'Paid online by card',
+    });
+  });
+
+  it('records nothing while an ACH debit is still processing', () => {
+    expect(buildCheckoutPayment(session({ payment_status: 'unpaid' }), 'card', 1200, '2026-10-19')).toBeNull();
+  });
+
+  it('records a settled ACH payment', () => {
+    const payment = buildCheckoutPayment(session(), 'ach', 1200, '2026-10-22');
+
+    expect(payment?.payment_method).toBe('Bank Transfer');
+    expect(payment?.notes).toBe('Paid online by bank transfer (ACH)');
+  });
+
+  it('caps the amount at the balance and notes the overpayment', () => {
+    const payment = buildCheckoutPayment(session({ amount_total: 50000 }), 'card', 300, '2026-10-19');
+
+    expect(payment?.amount).toBe(300);
+    expect(payment?.notes).toContain('overpaid by 200.00');
+  });
+
+  it('ignores sessions that are not invoice payments', () => {
+    expect(buildCheckoutPayment(session({ metadata: { userId: 'u1' } }), 'card', 1200, '2026-10-19')).toBeNull();
+  });
+});
@@ -14,6 +14,18 @@ describe('mileage helpers', () => {
     expect(getMileageRateForDate('2026-06-01')).toBe(0.725);
   });
 
+  it('splits 2022 at the July 1 rate change', () => {
+    expect(getMileageRateForDate('2022-01-15')).toBe(0.585);
+    expect(getMileageRateForDate('2022-06-30')).toBe(0.585);
+    expect(getMileageRateForDate('2022-07-01')).toBe(0.625);
+    expect(getMileageRateForDate(new Date(2022, 11, 31))).toBe(0.625);
+    expect(getStandardMileageRate(2022)).toBe(0.625);
+    expect(sumMileageDeduction([
+      { miles: 100, date: '2022-05-01' },
+      { miles: 100, date: '2022-08-01' },
+    ])).toBe(121);
+  });
+
   it('falls back to the latest configured rate for unsupported years', () => {
     expect(getStandardMileageRate(2026)).toBe(0.725);
     expect(getStandardMileageRate(2027)).toBe(0.725);
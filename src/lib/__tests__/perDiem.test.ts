@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTravelPerDiem, getMieRate, getPerDiemFiscalYear } from '../perDiem';
+
+describe('per diem helpers', () => {
+  it('uses the federal fiscal year starting in October', () => {
+    expect(getPerDiemFiscalYear('2025-09-30')).toBe(2025);
+    expect(getPerDiemFiscalYear('2025-10-01')).toBe(2026);
+  });
+
+  it('looks up non-standard areas by city and state', () => {
+    expect(getMieRate('Chicago', 'IL', '2025-06-01')).toEqual({ fiscalYear: 2025, locality: 'Chicago, IL', rate: 92 });
+    expect(getMieRate('  brooklyn ', 'ny', '2025-06-01').locality).toBe('New York City, NY');
+    // Same city name in another state gets the standard rate
+    expect(getMieRate('Austin', 'MN', '2025-06-01')).toEqual({ fiscalYear: 2025, locality: null, rate: 68 });
+    expect(getMieRate(null, null, '2025-06-01').rate).toBe(68);
+  });
+
+  it('falls back to the nearest configured fiscal year', () => {
+    expect(getMieRate('Chicago', 'IL', '2031-03-01').fiscalYear).toBe(2026);
+    expect(getMieRate('Chicago', 'IL', '2019-03-01').fiscalYear).toBe(2025);
+  });
+
+  it('applies 75% on the first and last travel day', () => {
+    const days = calculateTravelPerDiem('2025-06-01', '2025-06-04', [
+      { date: '2025-06-02', city: 'Chicago', state: 'IL' },
+      { date: '2025-06-03', city: 'Madison', state: 'WI' },
+    ]);
+
+    expect(days.map((day) => [day.date, day.city, day.allowance])).toEqual([
+      ['2025-06-01', 'Chicago', 69], // Travelling to Chicago: 75% of $92
+      ['2025-06-02', 'Chicago', 92],
+      ['2025-06-03', 'Madison', 68],
+      ['2025-06-04', 'Madison', 51], // Heading home: 75% of $68
+    ]);
+  });
+
+  it('gives nothing for a trip without an overnight stay', () => {
+    expect(calculateTravelPerDiem('2025-06-01', '2025-06-01', [
+      { date: '2025-06-01', city: 'Chicago', state: 'IL' },
+    ])).toEqual([]);
+  });
+});
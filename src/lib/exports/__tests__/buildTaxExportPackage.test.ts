@@ -0,0 +1,482 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../supabase', () => ({
+  supabase: {},
+}));
+
+import { buildTaxExportPackageFromData } from '../buildTaxExportPackage';
+import type { Database } from '../../../types/database.types';
+import type { ExchangeRate } from '../../../utils/exchangeRates';
+
+type GigRow = Database['public']['Tables']['gigs']['Row'];
+type InvoiceRow = Database['public']['Tables']['invoices']['Row'];
+type InvoicePaymentRow = Database['public']['Tables']['invoice_payments']['Row'];
+type CreditNoteRow = Database['public']['Tables']['invoice_credit_notes']['Row'];
+type SubcontractorPaymentRow = Database['public']['Tables']['gig_subcontractor_payments']['Row'];
+type ExpenseRow = Database['public']['Tables']['expenses']['Row'];
+type TourRunRow = Database['public']['Tables']['tour_runs']['Row'];
+
+function gig(overrides: Partial<GigRow>): GigRow {
+  return {
+    id: 'gig',
+    date: '2025-06-01',
+    gross_amount: 0,
+    tips: 0,
+    fees: 0,
+    per_diem: 0,
+    other_income: 0,
+    paid: true,
+    payer_id: 'payer-1',
+    title: 'Gig',
+    tax_treatment: 'contractor_1099',
+    state_code: null,
+    ...overrides,
+  } as GigRow;
+}
+
+function invoice(overrides: Partial<InvoiceRow>): InvoiceRow {
+  return {
+    id: 'inv',
+    invoice_number: 'INV-1',
+    client_name: 'Venue Co',
+    client_email: null,
+    invoice_date: '2025-12-15',
+    due_date: '2026-01-15',
+    status: 'sent',
+    total_amount: 0,
+    currency: 'USD',
+    gig_id: null,
+    ...overrides,
+  } as InvoiceRow;
+}
+
+function payment(
+  overrides: Partial<InvoicePaymentRow>,
+  invoiceDate = '2025-12-15',
+  invoiceOverrides: { currency?: string; exchange_rate?: number | null } = {}
+) {
+  return {
+    id: 'pay',
+    invoice_id: 'inv',
+    amount: 0,
+    payment_date: '2026-01-10',
+    payment_method: 'Check',
+    created_at: '2026-01-10T00:00:00Z',
+    notes: null,
+    reference_number: null,
+    ...overrides,
+    invoice: { id: 'inv', invoice_number: 'INV-1', client_name: 'Venue Co', currency: 'USD', invoice_date: invoiceDate, ...invoiceOverrides },
+  };
+}
+
+function creditNote(overrides: Partial<CreditNoteRow>) {
+  return {
+    id: 'cn',
+    user_id: 'user',
+    invoice_id: 'inv',
+    credit_number: 'INV-1-CR1',
+    issue_date: '2025-12-20',
+    amount: 0,
+    reason: null,
+    created_at: '2025-12-20T00:00:00Z',
+    ...overrides,
+    invoice: { id: 'inv', invoice_number: 'INV-1', client_name: 'Venue Co', currency: 'USD', invoice_date: '2025-12-15' },
+  };
+}
+
+function build(basis: 'cash' | 'accrual', data: {
+  gigs?: GigRow[];
+  invoices?: InvoiceRow[];
+  invoicePayments?: ReturnType<typeof payment>[];
+  creditNotes?: ReturnType<typeof creditNote>[];
+  writtenOffInvoices?: InvoiceRow[];
+  billedGigs?: Array<{ gigId: string; amount: number; hasPayments: boolean }>;
+  exchangeRates?: ExchangeRate[];
+  subcontractorPayments?: Array<SubcontractorPaymentRow & { gig?: { date: string } | null }>;
+  expenses?: ExpenseRow[];
+  tours?: TourRunRow[];
+  includePerDiem?: boolean;
+}) {
+  return buildTaxExportPackageFromData({
+    taxYear: 2025,
+    timezone: 'America/Chicago',
+    dateStart: '2025-01-01',
+    dateEnd: '2025-12-31',
+    includeTips: true,
+    includeFeesAsDeduction: true,
+    includePerDiem: data.includePerDiem,
+    basis,
+    gigs: data.gigs ?? [],
+    expenses: data.expenses ?? [],
+    mileage: [],
+    invoices: data.invoices ?? [],
+    invoicePayments: data.invoicePayments ?? [],
+    creditNotes: data.creditNotes,
+    writtenOffInvoices: data.writtenOffInvoices,
+    billedGigs: data.billedGigs,
+    exchangeRates: data.exchangeRates,
+    subcontractorPayments: data.subcontractorPayments ?? [],
+    payers: [],
+    tours: data.tours,
+  });
+}
+
+describe('buildTaxExportPackageFromData — basis', () => {
+  const gigs = [
+    gig({ id: 'paid-gig', gross_amount: 1000, paid: true }),
+    gig({ id: 'unpaid-gig', gross_amount: 400, paid: false, date: '2025-12-20' }),
+  ];
+
+  it('defaults to cash basis and skips unpaid gigs', () => {
+    const pkg = build('cash', { gigs });
+
+    expect(pkg.metadata.basis).toBe('cash');
+    expect(pkg.scheduleC.grossReceipts).toBe(1000);
+    expect(pkg.receivableRows).toEqual([]);
+    expect(pkg.accrualSummary).toEqual({ receivablesTotal: 0, payablesTotal: 0 });
+  });
+
+  it('recognizes unpaid gigs on accrual basis and lists them as receivables', () => {
+    const pkg = build('accrual', { gigs });
+
+    expect(pkg.metadata.basis).toBe('accrual');
+    expect(pkg.scheduleC.grossReceipts).toBe(1400);
+    expect(pkg.receivableRows).toEqual([
+      expect.objectContaining({ id: 'unpaid-gig', source: 'gig', amount: 400, paidDate: null }),
+    ]);
+    expect(pkg.accrualSummary.receivablesTotal).toBe(400);
+  });
+
+  it('counts invoice payments on the payment date on cash basis', () => {
+    const pkg = build('cash', {
+      invoicePayments: [payment({ id: 'pay-1', amount: 300, payment_date: '2025-03-01' }, '2024-12-20')],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(300);
+    expect(pkg.incomeRows[0]).toEqual(expect.objectContaining({
+      source: 'invoice_payment',
+      receivedDate: '2025-03-01',
+      invoiceDate: '2024-12-20',
+    }));
+  });
+
+  it('counts invoices on the invoice date on accrual basis with the open balance as a receivable', () => {
+    const pkg = build('accrual', {
+      invoices: [
+        invoice({ id: 'inv', total_amount: 800 }),
+        invoice({ id: 'draft', total_amount: 999, status: 'draft' }),
+      ],
+      invoicePayments: [
+        payment({ id: 'pay-1', amount: 200, payment_date: '2025-12-20' }),
+        payment({ id: 'pay-2', amount: 600, payment_date: '2026-01-10' }),
+      ],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(800);
+    expect(pkg.incomeRows).toEqual([
+      expect.objectContaining({ id: 'inv', source: 'invoice', receivedDate: '2025-12-15', paidDate: '2026-01-10' }),
+    ]);
+    expect(pkg.receivableRows).toEqual([
+      expect.objectContaining({ id: 'inv', source: 'invoice', amount: 600, paidDate: '2026-01-10' }),
+    ]);
+  });
+
+  it('counts a gig billed on an invoice once on accrual basis', () => {
+    const pkg = build('accrual', {
+      gigs: [
+        gig({ id: 'billed-gig', gross_amount: 800, paid: false }),
+        gig({ id: 'line-item-gig', gross_amount: 500, paid: false }),
+        gig({ id: 'other-gig', gross_amount: 100, paid: false }),
+      ],
+      invoices: [
+        invoice({ id: 'inv', total_amount: 800, gig_id: 'billed-gig' }),
+        invoice({ id: 'inv-2', invoice_number: 'INV-2', total_amount: 500 }),
+      ],
+      billedGigs: [
+        { gigId: 'billed-gig', amount: 800, hasPayments: false },
+        { gigId: 'line-item-gig', amount: 500, hasPayments: false },
+      ],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(1400);
+    expect(pkg.incomeRows.map(r => r.id)).toEqual(['other-gig', 'inv', 'inv-2']);
+    expect(pkg.receivableRows.map(r => r.id)).toEqual(['other-gig', 'inv', 'inv-2']);
+  });
+
+  it('counts gigs on a paid invoice once on cash basis', () => {
+    // Paying the invoice marks its line-item gigs paid
+    const pkg = build('cash', {
+      gigs: [
+        gig({ id: 'line-item-gig-1', gross_amount: 300, paid: true }),
+        gig({ id: 'line-item-gig-2', gross_amount: 200, paid: true }),
+        gig({ id: 'other-gig', gross_amount: 100, paid: true }),
+      ],
+      invoices: [invoice({ id: 'inv', total_amount: 500, status: 'paid' })],
+      invoicePayments: [payment({ id: 'pay-1', amount: 500, payment_date: '2025-12-20' })],
+      billedGigs: [
+        { gigId: 'line-item-gig-1', amount: 300, hasPayments: true },
+        { gigId: 'line-item-gig-2', amount: 200, hasPayments: true },
+      ],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(600);
+    expect(pkg.incomeRows.map(r => r.id)).toEqual(['other-gig', 'pay-1']);
+  });
+
+  it('keeps the tips, other income and per diem an invoice did not bill with the gig', () => {
+    const gigs = [gig({ id: 'billed-gig', gross_amount: 500, tips: 80, other_income: 20, per_diem: 50, paid: true })];
+    const billedGigs = [{ gigId: 'billed-gig', amount: 500, hasPayments: true }];
+
+    const cash = build('cash', {
+      gigs,
+      invoicePayments: [payment({ id: 'pay-1', amount: 500, payment_date: '2025-12-20' })],
+      billedGigs,
+    });
+    expect(cash.scheduleC.grossReceipts).toBe(650);
+    expect(cash.incomeRows).toEqual([
+      expect.objectContaining({ id: 'billed-gig', amount: 150 }),
+      expect.objectContaining({ id: 'pay-1', amount: 500 }),
+    ]);
+
+    const accrual = build('accrual', {
+      gigs,
+      invoices: [invoice({ id: 'inv', total_amount: 500, status: 'paid', invoice_date: '2025-06-01' })],
+      invoicePayments: [payment({ id: 'pay-1', amount: 500, payment_date: '2025-06-10' })],
+      billedGigs,
+    });
+    expect(accrual.scheduleC.grossReceipts).toBe(650);
+  });
+
+  it('counts a paid gig on cash basis when its invoice has no recorded payments', () => {
+    // A legacy invoices.gig_id invoice, with the gig marked paid directly
+    const pkg = build('cash', {
+      gigs: [gig({ id: 'billed-gig', gross_amount: 800, paid: true })],
+      billedGigs: [{ gigId: 'billed-gig', amount: 800, hasPayments: false }],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(800);
+    expect(pkg.incomeRows.map(r => r.id)).toEqual(['billed-gig']);
+  });
+
+  it('keeps counting a gig whose only invoice is a draft', () => {
+    const pkg = build('accrual', {
+      gigs: [gig({ id: 'billed-gig', gross_amount: 800, paid: false })],
+      invoices: [invoice({ id: 'inv', total_amount: 800, gig_id: 'billed-gig', status: 'draft' })],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(800);
+    expect(pkg.incomeRows.map(r => r.id)).toEqual(['billed-gig']);
+  });
+
+  it('lists gigs paid after period end as receivables on accrual basis', () => {
+    const pkg = build('accrual', {
+      gigs: [
+        gig({ id: 'paid-late', gross_amount: 600, date: '2025-12-20', paid_on: '2026-01-08' }),
+        gig({ id: 'paid-in-period', gross_amount: 300, date: '2025-12-20', paid_on: '2025-12-30' }),
+      ],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(900);
+    expect(pkg.receivableRows).toEqual([
+      expect.objectContaining({ id: 'paid-late', amount: 600, paidDate: '2026-01-08' }),
+    ]);
+  });
+
+  it('lists subcontractors paid after period end as payables on accrual basis', () => {
+    // Re-saving a gig re-inserts its payouts, so created_at isn't when they were paid
+    const subcontractorPayments = [
+      {
+        id: 'sub-1',
+        gig_id: 'paid-gig',
+        subcontractor_id: 's1',
+        user_id: 'u1',
+        amount: 150,
+        note: null,
+        split_template_id: null,
+        settlement_id: null,
+        paid_on: '2026-01-05',
+        created_at: '2025-12-29T12:00:00Z',
+        gig: { date: '2025-12-28' },
+      },
+      {
+        id: 'sub-2',
+        gig_id: 'paid-gig',
+        subcontractor_id: 's1',
+        user_id: 'u1',
+        amount: 75,
+        note: null,
+        split_template_id: null,
+        settlement_id: null,
+        paid_on: '2025-12-29',
+        created_at: '2026-01-12T12:00:00Z',
+        gig: { date: '2025-12-28' },
+      },
+    ];
+
+    const accrual = build('accrual', { gigs, subcontractorPayments });
+    const cash = build('cash', { gigs, subcontractorPayments });
+
+    expect(accrual.payableRows).toEqual([
+      expect.objectContaining({ id: 'sub-1', date: '2025-12-28', amount: 150, paidDate: '2026-01-05' }),
+    ]);
+    expect(accrual.accrualSummary.payablesTotal).toBe(150);
+    expect(cash.payableRows).toEqual([]);
+  });
+});
+
+describe('buildTaxExportPackageFromData — currency', () => {
+  it('converts foreign-currency invoice payments to USD with the invoice rate', () => {
+    const pkg = build('cash', {
+      invoicePayments: [payment({ amount: 1000, payment_date: '2025-08-01' }, '2025-07-15', { currency: 'CAD', exchange_rate: 0.73 })],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(730);
+    expect(pkg.incomeRows[0]).toEqual(expect.objectContaining({ amount: 730, currency: 'USD' }));
+  });
+
+  it('converts cash payments and refunds at the rate on their payment date', () => {
+    const invoiceCurrency = { currency: 'CAD', exchange_rate: 0.73 };
+    const pkg = build('cash', {
+      invoicePayments: [
+        payment({ id: 'pay-1', amount: 1000, payment_date: '2025-08-01' }, '2025-07-15', invoiceCurrency),
+        payment({ id: 'refund-1', amount: -100, payment_date: '2025-09-15' }, '2025-07-15', invoiceCurrency),
+      ],
+      exchangeRates: [
+        { currency: 'CAD', rate_date: '2025-07-15', usd_per_unit: 0.73 },
+        { currency: 'CAD', rate_date: '2025-07-31', usd_per_unit: 0.72 },
+        { currency: 'CAD', rate_date: '2025-09-01', usd_per_unit: 0.75 },
+      ],
+    });
+
+    expect(pkg.incomeRows[0]).toEqual(expect.objectContaining({ id: 'pay-1', amount: 720 }));
+    expect(pkg.incomeAdjustmentRows[0]).toEqual(expect.objectContaining({ id: 'refund-1', amount: 75 }));
+  });
+
+  it('converts accrual invoices and their receivables', () => {
+    const pkg = build('accrual', {
+      invoices: [invoice({ total_amount: 1000, currency: 'EUR', exchange_rate: 1.1 })],
+      invoicePayments: [payment({ amount: 400, payment_date: '2025-12-20' })],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(1100);
+    expect(pkg.receivableRows).toEqual([expect.objectContaining({ amount: 660 })]);
+    expect(pkg.invoiceRows[0]).toEqual(expect.objectContaining({ totalAmount: 1100, currency: 'USD' }));
+  });
+
+  it('rejects a foreign-currency invoice without a rate', () => {
+    expect(() => build('accrual', {
+      invoices: [invoice({ total_amount: 1000, currency: 'EUR', exchange_rate: null })],
+    })).toThrow(/INV-1 is in EUR and has no exchange rate/);
+  });
+});
+
+describe('buildTaxExportPackageFromData — credits, refunds and write-offs', () => {
+  it('reports cash-basis refunds as returns and allowances', () => {
+    const pkg = build('cash', {
+      invoicePayments: [
+        payment({ id: 'pay-1', amount: 500, payment_date: '2025-03-01' }, '2025-02-15'),
+        payment({ id: 'refund-1', amount: -120, payment_date: '2025-04-01' }, '2025-02-15'),
+      ],
+      creditNotes: [creditNote({ amount: 120, issue_date: '2025-04-01' })],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(500);
+    expect(pkg.scheduleC.returnsAllowances).toBe(120);
+    expect(pkg.scheduleC.netProfit).toBe(380);
+    expect(pkg.incomeRows.map(r => r.id)).toEqual(['pay-1']);
+    expect(pkg.incomeAdjustmentRows).toEqual([
+      expect.objectContaining({ id: 'refund-1', source: 'refund', amount: 120, date: '2025-04-01' }),
+    ]);
+  });
+
+  it('reduces accrual income and receivables by credit notes', () => {
+    const pkg = build('accrual', {
+      invoices: [invoice({ total_amount: 1000 })],
+      invoicePayments: [payment({ amount: 600, payment_date: '2025-12-20' })],
+      creditNotes: [creditNote({ amount: 150 })],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(1000);
+    expect(pkg.scheduleC.returnsAllowances).toBe(150);
+    expect(pkg.receivableRows).toEqual([expect.objectContaining({ amount: 250 })]);
+    expect(pkg.incomeAdjustmentRows).toEqual([
+      expect.objectContaining({ source: 'credit_note', amount: 150, description: 'Credit note INV-1-CR1 (Invoice INV-1)' }),
+    ]);
+  });
+
+  it('deducts accrual write-offs as bad debts and clears the receivable', () => {
+    const writtenOff = invoice({
+      total_amount: 1000,
+      status: 'written_off',
+      written_off_amount: 400,
+      written_off_on: '2025-12-28',
+    });
+    const pkg = build('accrual', {
+      invoices: [writtenOff],
+      invoicePayments: [payment({ amount: 600, payment_date: '2025-12-20' })],
+      writtenOffInvoices: [writtenOff],
+    });
+
+    expect(pkg.scheduleC.grossReceipts).toBe(1000);
+    expect(pkg.scheduleC.returnsAllowances).toBe(0);
+    expect(pkg.scheduleC.otherExpensesBreakdown).toEqual([{ name: 'Bozzy: Bad Debts', amount: 400 }]);
+    expect(pkg.scheduleC.netProfit).toBe(600);
+    expect(pkg.receivableRows).toEqual([]);
+  });
+
+  it('ignores credit notes and write-offs on cash basis', () => {
+    const pkg = build('cash', {
+      creditNotes: [creditNote({ amount: 150 })],
+      writtenOffInvoices: [invoice({ total_amount: 1000, written_off_amount: 1000, written_off_on: '2025-12-28' })],
+    });
+
+    expect(pkg.incomeAdjustmentRows).toEqual([]);
+    expect(pkg.scheduleC.returnsAllowances).toBe(0);
+    expect(pkg.scheduleC.otherExpensesBreakdown).toEqual([]);
+  });
+});
+
+describe('buildTaxExportPackageFromData — per diem', () => {
+  const tour = {
+    id: 'tour-1',
+    name: 'Midwest Run',
+    start_date: '2025-12-29',
+    end_date: '2026-01-02',
+  } as TourRunRow;
+  const gigs = [
+    gig({ id: 'chicago', date: '2025-12-30', tour_id: 'tour-1', city: 'Chicago', state_code: 'IL', gross_amount: 800 }),
+    gig({ id: 'madison', date: '2025-12-31', tour_id: 'tour-1', city: 'Madison', state_code: 'WI', gross_amount: 600 }),
+  ];
+
+  it('deducts tour travel days in the period on line 24b', () => {
+    const pkg = build('cash', { gigs, tours: [tour], includePerDiem: true });
+
+    // Dec 29 is the first travel day (75%); Jan 1-2 fall in the next tax year
+    expect(pkg.perDiemRows.map((r) => [r.date, r.mieRate, r.allowance, r.deductibleAmount])).toEqual([
+      ['2025-12-29', 92, 69, 34.5],
+      ['2025-12-30', 92, 92, 46],
+      ['2025-12-31', 68, 68, 34],
+    ]);
+    expect(pkg.scheduleC.expenseTotalsByScheduleCRefNumber[294]).toBe(114.5);
+    expect(pkg.scheduleCLineItems.find((item) => item.scheduleCRefNumber === 294)?.notes).toContain('per diem');
+  });
+
+  it('warns about meal receipts on per diem days', () => {
+    const pkg = build('cash', {
+      gigs,
+      tours: [tour],
+      includePerDiem: true,
+      expenses: [{ id: 'meal', date: '2025-12-30', amount: 40, category: 'Meals', description: 'Dinner' } as ExpenseRow],
+    });
+
+    expect(pkg.scheduleC.expenseTotalsByScheduleCRefNumber[294]).toBe(134.5);
+    expect(pkg.scheduleC.warnings.some((w) => w.includes('meal expense falls on per diem travel days'))).toBe(true);
+  });
+
+  it('leaves per diem out unless chosen, and skips W-2 tours', () => {
+    expect(build('cash', { gigs, tours: [tour] }).perDiemRows).toEqual([]);
+
+    const w2Gigs = gigs.map((g) => ({ ...g, tax_treatment: 'w2' }));
+    expect(build('cash', { gigs: w2Gigs, tours: [tour], includePerDiem: true }).perDiemRows).toEqual([]);
+  });
+});
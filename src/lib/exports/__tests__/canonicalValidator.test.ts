@@ -40,6 +40,7 @@ function makePackage(overrides: Partial<TaxExportPackage> = {}): TaxExportPackag
         currency: 'USD',
       },
     ],
+    incomeAdjustmentRows: [],
     expenseRows: [
       {
         id: 'expense-1',
@@ -68,6 +69,7 @@ function makePackage(overrides: Partial<TaxExportPackage> = {}): TaxExportPackag
         isEstimate: true,
       },
     ],
+    perDiemRows: [],
     invoiceRows: [],
     subcontractorPayoutRows: [],
     receiptsManifest: [],
@@ -81,6 +83,12 @@ function makePackage(overrides: Partial<TaxExportPackage> = {}): TaxExportPackag
       isEstimateAny: true,
       notes: 'Standard mileage rate applied.',
     },
+    stateAllocationRows: [],
+    estimatedTaxPaymentRows: [],
+    estimatedTaxPayments: { federalTotal: 0, stateTotals: [] },
+    receivableRows: [],
+    payableRows: [],
+    accrualSummary: { receivablesTotal: 0, payablesTotal: 0 },
     ...overrides,
   };
 }
@@ -149,4 +157,54 @@ describe('validateTaxExportPackage', () => {
       expect.arrayContaining(['payerName', 'purpose', 'origin', 'destination'])
     );
   });
+
+  it('flags cash-basis invoice payments for invoices issued in an earlier year', () => {
+    const result = validateTaxExportPackage(
+      makePackage({
+        incomeRows: [
+          {
+            id: 'pay-1',
+            source: 'invoice_payment',
+            receivedDate: '2025-01-05',
+            payerName: 'Venue Co',
+            description: 'Invoice Payment INV-9',
+            amount: 500,
+            fees: 0,
+            netAmount: 500,
+            currency: 'USD',
+            invoiceDate: '2024-12-20',
+          },
+        ],
+      })
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ category: 'invoice', id: 'pay-1', field: 'invoiceDate' }),
+    ]);
+  });
+
+  it('flags accrual-basis receivables and payables open at period end', () => {
+    const base = makePackage();
+    const result = validateTaxExportPackage(
+      makePackage({
+        metadata: { ...base.metadata, basis: 'accrual' },
+        receivableRows: [
+          { id: 'inv-1', source: 'invoice', date: '2025-12-15', counterparty: 'Venue Co', description: 'Invoice INV-1', amount: 600, paidDate: '2026-01-10' },
+          { id: 'gig-2', source: 'gig', date: '2025-12-20', counterparty: 'Club', description: 'NYE', amount: 400, paidDate: null },
+        ],
+        payableRows: [
+          { id: 'sub-1', source: 'subcontractor', date: '2025-12-28', counterparty: 'Drummer', description: 'Sub', amount: 150, paidDate: '2026-01-05' },
+        ],
+      })
+    );
+
+    expect(result.warnings.map((issue) => [issue.category, issue.id])).toEqual([
+      ['invoice', 'inv-1'],
+      ['gig', 'gig-2'],
+      ['subcontractor', 'sub-1'],
+    ]);
+    expect(result.warnings[0].message).toContain('paid 2026-01-10');
+    expect(result.warnings[1].message).toContain('still unpaid');
+  });
 });
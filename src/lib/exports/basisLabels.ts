@@ -0,0 +1,14 @@
+import type { TaxExportBasis } from './taxExportPackage';
+
+/**
+ * Human-readable accounting basis lines for pack READMEs and PDFs
+ */
+export const BASIS_LABELS: Record<TaxExportBasis, string> = {
+  cash: 'Cash',
+  accrual: 'Accrual',
+};
+
+export const BASIS_DESCRIPTIONS: Record<TaxExportBasis, string> = {
+  cash: 'CASH BASIS accounting (income when received, expenses when paid)',
+  accrual: 'ACCRUAL BASIS accounting (income on the gig or invoice date, whether or not paid yet)',
+};
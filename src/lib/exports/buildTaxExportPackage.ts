@@ -2,10 +2,13 @@ import { supabase } from '../supabase';
 import type { Database } from '../../types/database.types';
 import type {
   TaxExportPackage,
+  TaxExportBasis,
   TaxExportCurrency,
   IncomeRow,
+  IncomeAdjustmentRow,
   ExpenseRow,
   MileageRow,
+  PerDiemRow,
   InvoiceRow,
   SubcontractorPayoutRow,
   ReceiptsManifestItem,
@@ -13,21 +16,41 @@ import type {
   PayerSummaryRow,
   MileageSummary,
   ScheduleCLineItem,
+  StateAllocationRow,
+  EstimatedTaxPaymentRow,
+  EstimatedTaxPaymentsSummary,
+  ReceivableRow,
+  PayableRow,
 } from './taxExportPackage';
 import { mapCategoryToScheduleCRef } from './scheduleCRefMapping';
-import { getStandardMileageRate } from './mileageRates';
 import { roundCents } from './rounding';
 import { getScheduleCLineName } from './scheduleCLineNames';
 import { getEffectiveTaxTreatment } from '../taxTreatment';
-import { getMileageRateForDate } from '../mileage';
+import { findExchangeRate, getInvoiceExchangeRate, type ExchangeRate } from '../../utils/exchangeRates';
+import type { TaxProfile } from '../../tax/engine';
+import {
+  calcMultiStateTax,
+  calculateTravelPerDiem,
+  getMileageRateForDate,
+  getStandardMileageRate,
+  PER_DIEM_MEALS_DEDUCTIBLE_PERCENT,
+  toYTDData,
+} from '../../tax/service';
+import type { StateCode } from '../../tax/config/types';
 
 type GigRow = Database['public']['Tables']['gigs']['Row'];
 type ExpenseDbRow = Database['public']['Tables']['expenses']['Row'];
 type MileageExportRow = Database['public']['Views']['v_mileage_export']['Row'];
 type InvoiceDbRow = Database['public']['Tables']['invoices']['Row'];
 type InvoicePaymentRow = Database['public']['Tables']['invoice_payments']['Row'];
+type InvoicePaymentInvoice = Pick<InvoiceDbRow, 'id' | 'invoice_number' | 'client_name' | 'currency' | 'invoice_date'>
+  & Partial<Pick<InvoiceDbRow, 'exchange_rate'>>;
 type InvoicePaymentQueryRow = InvoicePaymentRow & {
-  invoice: Pick<InvoiceDbRow, 'id' | 'invoice_number' | 'client_name' | 'currency'> | null;
+  invoice: InvoicePaymentInvoice | null;
+};
+type CreditNoteRow = Database['public']['Tables']['invoice_credit_notes']['Row'];
+type CreditNoteQueryRow = CreditNoteRow & {
+  invoice: InvoicePaymentInvoice | null;
 };
 type SubcontractorPaymentRow = Database['public']['Tables']['gig_subcontractor_payments']['Row'];
 type SubcontractorRow = Database['public']['Tables']['subcontractors']['Row'];
@@ -35,17 +58,39 @@ type SubcontractorPaymentQueryRow = SubcontractorPaymentRow & {
   subcontractor: Pick<SubcontractorRow, 'id' | 'name'> | null;
   gig: Pick<GigRow, 'date'> | null;
 };
+type BilledGigInvoice = Pick<InvoiceDbRow, 'invoice_number' | 'currency' | 'exchange_rate'> & {
+  payments: Array<Pick<InvoicePaymentRow, 'id'>>;
+};
+type BilledGigInvoiceQueryRow = BilledGigInvoice & Pick<InvoiceDbRow, 'gig_id' | 'subtotal'>;
+type BilledGigLineQueryRow = Pick<Database['public']['Tables']['invoice_line_items']['Row'], 'gig_id' | 'amount'> & {
+  invoice: BilledGigInvoice;
+};
 type PayerRow = Database['public']['Tables']['payers']['Row'];
 
+// What a sent invoice (invoices.gig_id or an invoice line item) billed for a
+// gig, in USD. The invoice counts that part of the gig's income; tips, other
+// income and per diem left off the invoice stay with the gig.
+type BilledGig = {
+  gigId: string;
+  amount: number;
+  // On cash basis an invoice counts income only through recorded payments;
+  // a gig paid outside an invoice with none keeps all of its income
+  hasPayments: boolean;
+};
+type EstimatedTaxPaymentDbRow = Database['public']['Tables']['estimated_tax_payments']['Row'];
+type TourRunRow = Database['public']['Tables']['tour_runs']['Row'];
+
 type BuildTaxExportPackageOptions = {
   userId: string;
   taxYear: number;
   timezone: string;
-  basis?: 'cash';
+  basis?: TaxExportBasis;
   dateStart?: string;
   dateEnd?: string;
   includeTips?: boolean;
   includeFeesAsDeduction?: boolean;
+  includePerDiem?: boolean;
+  taxProfile?: TaxProfile | null;
 };
 
 export class TaxExportError extends Error {
@@ -61,14 +106,180 @@ export class TaxExportError extends Error {
   }
 }
 
-function assertUsdCurrency(value: string | null | undefined) {
-  if (!value) return;
-  if (value !== 'USD') {
+/**
+ * USD per unit of an invoice's currency. Gig and expense amounts are already
+ * stored in USD; invoices keep the client's currency and need a rate.
+ */
+function getUsdRate(invoice: Pick<InvoiceDbRow, 'invoice_number' | 'currency'> & Partial<Pick<InvoiceDbRow, 'exchange_rate'>>): number {
+  const rate = getInvoiceExchangeRate(invoice);
+  if (rate === null) {
     throw new TaxExportError(
       'NON_USD_CURRENCY',
-      'Tax exports currently support USD only. Please convert to USD or remove non-USD items.'
+      `Invoice ${invoice.invoice_number} is in ${invoice.currency} and has no exchange rate. Add the rate to the invoice to include it in a USD export.`
     );
   }
+  return rate;
+}
+
+/**
+ * USD per unit for cash received or refunded on an invoice: the imported
+ * rate on the payment date, or the invoice's own rate when none is on file
+ * for that date
+ */
+function getPaymentUsdRate(
+  payment: Pick<InvoicePaymentRow, 'payment_date'> & { invoice?: InvoicePaymentInvoice | null },
+  exchangeRates: ExchangeRate[]
+): number {
+  if (!payment.invoice) return 1;
+  return findExchangeRate(exchangeRates, payment.invoice.currency, payment.payment_date)
+    ?? getUsdRate(payment.invoice);
+}
+
+/**
+ * Allocate Schedule C net profit to the states gigs were performed in.
+ * With a tax profile, income without a gig state is sourced to the resident
+ * state and each row carries the engine's nonresident / resident-credit estimate.
+ */
+function buildStateAllocationRows(
+  rows: IncomeRow[],
+  netProfit: number,
+  taxYear: number,
+  taxProfile?: TaxProfile | null
+): StateAllocationRow[] {
+  // A profile without a state (not set up yet) can't source income
+  const profile = taxProfile?.state ? taxProfile : null;
+
+  const grossByState = new Map<string | null, number>();
+  for (const row of rows) {
+    const key = row.stateCode?.toUpperCase() || profile?.state || null;
+    grossByState.set(key, (grossByState.get(key) ?? 0) + row.amount);
+  }
+  const totalGross = Array.from(grossByState.values()).reduce((sum, amount) => sum + amount, 0);
+  if (totalGross <= 0) return [];
+
+  if (!profile) {
+    return Array.from(grossByState.entries()).map(([stateCode, gross]) => ({
+      stateCode,
+      isResident: null,
+      grossReceipts: roundCents(gross),
+      allocatedNetProfit: roundCents(netProfit * (gross / totalGross)),
+      sharePercent: roundCents((gross / totalGross) * 100),
+      estimatedTax: null,
+      residentCredit: null,
+      estimatedOwed: null,
+    }));
+  }
+
+  const incomeByState = Object.fromEntries(grossByState) as Partial<Record<StateCode, number>>;
+  const result = calcMultiStateTax(toYTDData(netProfit), profile, incomeByState, taxYear);
+
+  return result.states.map((liability) => ({
+    stateCode: liability.state,
+    isResident: liability.isResident,
+    grossReceipts: roundCents(grossByState.get(liability.state) ?? 0),
+    allocatedNetProfit: roundCents(liability.allocatedIncome),
+    sharePercent: roundCents(liability.share * 100),
+    estimatedTax: roundCents(liability.tax),
+    residentCredit: roundCents(liability.credit),
+    estimatedOwed: roundCents(liability.owed),
+  }));
+}
+
+/**
+ * Estimated payments made for the tax year: federal total for Form 1040 line 26
+ * and per-state totals for each state return's estimated payments credit
+ */
+function buildEstimatedTaxPayments(payments: EstimatedTaxPaymentDbRow[]): {
+  rows: EstimatedTaxPaymentRow[];
+  summary: EstimatedTaxPaymentsSummary;
+} {
+  const rows = [...payments]
+    .sort((a, b) => a.paid_on.localeCompare(b.paid_on))
+    .map((p) => ({
+      id: p.id,
+      paidOn: p.paid_on,
+      quarter: p.quarter,
+      jurisdiction: p.jurisdiction,
+      amount: roundCents(p.amount),
+      confirmationNumber: p.confirmation_number,
+    }));
+
+  let federalTotal = 0;
+  const byState = new Map<string, number>();
+  for (const row of rows) {
+    if (row.jurisdiction === 'federal') {
+      federalTotal += row.amount;
+    } else {
+      byState.set(row.jurisdiction, (byState.get(row.jurisdiction) ?? 0) + row.amount);
+    }
+  }
+
+  return {
+    rows,
+    summary: {
+      federalTotal: roundCents(federalTotal),
+      stateTotals: Array.from(byState.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([stateCode, amount]) => ({ stateCode, amount: roundCents(amount) })),
+    },
+  };
+}
+
+/**
+ * Per diem M&IE for each tour travel day in the period. A tour runs from its
+ * start to end date (or its first to last gig) and takes the rate for each
+ * day from its gigs' cities. Tours with only W-2 gigs are left out; an
+ * employer's per diem isn't a Schedule C deduction.
+ */
+function buildPerDiemRows(
+  tours: TourRunRow[],
+  gigs: GigRow[],
+  payerById: Map<string, PayerRow>,
+  dateStart: string,
+  dateEnd: string
+): PerDiemRow[] {
+  const rows: PerDiemRow[] = [];
+
+  for (const tour of tours) {
+    const tourGigs = gigs
+      .filter(gig => gig.tour_id === tour.id)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const hasScheduleCGig = tourGigs.some((gig) => {
+      const payer = payerById.get(gig.payer_id);
+      return getEffectiveTaxTreatment(
+        { tax_treatment: gig.tax_treatment },
+        payer ? { tax_treatment: payer.tax_treatment } : null
+      ) !== 'w2';
+    });
+    if (!hasScheduleCGig) continue;
+
+    const startDate = tour.start_date || tourGigs[0].date;
+    const endDate = tour.end_date || tourGigs[tourGigs.length - 1].date;
+    const stops = tourGigs.map(gig => ({ date: gig.date, city: gig.city, state: gig.state_code || gig.state }));
+
+    // The 75% days are the trip's real first and last day, even when the
+    // period cuts the trip short
+    for (const day of calculateTravelPerDiem(startDate, endDate, stops)) {
+      if (day.date < dateStart || day.date > dateEnd) continue;
+      rows.push({
+        id: `${tour.id}:${day.date}`,
+        tourId: tour.id,
+        tourName: tour.name,
+        date: day.date,
+        city: day.city,
+        stateCode: day.state,
+        locality: day.locality,
+        mieRate: day.rate,
+        travelDayPercent: day.percent,
+        allowance: day.allowance,
+        deductiblePercent: PER_DIEM_MEALS_DEDUCTIBLE_PERCENT,
+        deductibleAmount: roundCents(day.allowance * PER_DIEM_MEALS_DEDUCTIBLE_PERCENT),
+        currency: 'USD',
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.date.localeCompare(b.date) || a.tourName.localeCompare(b.tourName));
 }
 
 function sumScheduleCMap(map: Partial<Record<ScheduleCRefNumber, number>>): number {
@@ -82,31 +293,67 @@ export function buildTaxExportPackageFromData(input: {
   dateEnd: string;
   includeTips: boolean;
   includeFeesAsDeduction: boolean;
+  // Deduct tour travel days at GSA M&IE rates instead of actual meal costs
+  includePerDiem?: boolean;
+  basis?: TaxExportBasis;
   gigs: GigRow[];
   expenses: ExpenseDbRow[];
   mileage: MileageExportRow[];
   invoices: InvoiceDbRow[];
-  invoicePayments: Array<InvoicePaymentRow & { invoice?: Pick<InvoiceDbRow, 'id' | 'invoice_number' | 'client_name' | 'currency'> | null }>;
-  subcontractorPayments: Array<SubcontractorPaymentRow & { subcontractor?: Pick<SubcontractorRow, 'id' | 'name'> | null }>;
+  invoicePayments: Array<InvoicePaymentRow & { invoice?: InvoicePaymentInvoice | null }>;
+  // Credit notes issued and invoices written off in the period (accrual basis)
+  creditNotes?: Array<CreditNoteRow & { invoice?: InvoicePaymentInvoice | null }>;
+  writtenOffInvoices?: InvoiceDbRow[];
+  // Gig amounts billed on sent invoices, whatever the invoice date
+  billedGigs?: BilledGig[];
+  // Imported USD rates; cash-basis payments convert at their payment date
+  exchangeRates?: ExchangeRate[];
+  subcontractorPayments: Array<SubcontractorPaymentRow & {
+    subcontractor?: Pick<SubcontractorRow, 'id' | 'name'> | null;
+    gig?: Pick<GigRow, 'date'> | null;
+  }>;
   payers: PayerRow[];
+  tours?: TourRunRow[];
+  estimatedTaxPayments?: EstimatedTaxPaymentDbRow[];
+  taxProfile?: TaxProfile | null;
 }): TaxExportPackage {
   const createdAt = new Date().toISOString();
   const currency: TaxExportCurrency = 'USD';
+  const basis = input.basis ?? 'cash';
 
-  input.invoices.forEach(inv => assertUsdCurrency(inv.currency));
+  const usdRateByInvoiceId = new Map(input.invoices.map(inv => [inv.id, getUsdRate(inv)]));
+  const exchangeRates = input.exchangeRates ?? [];
 
   // Create payer lookup map
   const payerById = new Map<string, PayerRow>(input.payers.map((p) => [p.id, p]));
 
   const incomeRows: IncomeRow[] = [];
+  const incomeAdjustmentRows: IncomeAdjustmentRow[] = [];
+  const receivableRows: ReceivableRow[] = [];
+  const creditNotes = input.creditNotes ?? [];
+
+  // Billed amounts the invoices count as income: on accrual every sent
+  // invoice, on cash only invoices with recorded payments
+  const billedByGigId = new Map<string, number>();
+  for (const billed of input.billedGigs ?? []) {
+    if (basis === 'cash' && !billed.hasPayments) continue;
+    billedByGigId.set(billed.gigId, (billedByGigId.get(billed.gigId) ?? 0) + billed.amount);
+  }
 
   for (const gig of input.gigs) {
+    // Cash basis counts paid gigs; accrual counts every gig on its date.
+    // What an invoice billed for the gig counts through the invoice instead
+    // (paying the invoice also marks the gig paid), so the gig keeps the rest.
     const isPaid = gig.paid === true;
-    if (!isPaid) continue;
+    if (!isPaid && basis === 'cash') continue;
 
     const gross = (gig.gross_amount || 0) + (input.includeTips ? (gig.tips || 0) : 0) + (gig.per_diem || 0) + (gig.other_income || 0);
+    // Reimbursed expenses on the invoice line aren't gig income
+    const billed = Math.min(billedByGigId.get(gig.id) ?? 0, (gig.gross_amount || 0) + (gig.per_diem || 0));
+    const unbilled = gross - billed;
     const fees = gig.fees || 0;
-    const netAmount = gross - fees;
+    if (billed > 0 && unbilled < 0.005 && fees === 0) continue;
+    const netAmount = unbilled - fees;
 
     // Resolve payer information and tax treatment
     const payer = payerById.get(gig.payer_id);
@@ -144,33 +391,156 @@ export function buildTaxExportPackageFromData(input: {
       payerEmail,
       payerPhone,
       description,
-      amount: roundCents(gross),
+      amount: roundCents(unbilled),
       fees: roundCents(fees),
       netAmount: roundCents(netAmount),
       currency,
       relatedGigId: gig.id,
       taxTreatment: effectiveTaxTreatment, // Track tax treatment for filtering
+      stateCode: gig.state_code,
     });
+
+    // 1099 gigs not paid by period end are receivables
+    const paidAfterPeriod = isPaid && !!gig.paid_on && gig.paid_on > input.dateEnd;
+    if ((!isPaid || paidAfterPeriod) && effectiveTaxTreatment === 'contractor_1099' && unbilled >= 0.005) {
+      receivableRows.push({
+        id: gig.id,
+        source: 'gig',
+        date: gig.date,
+        counterparty: payerName,
+        description,
+        amount: roundCents(unbilled),
+        paidDate: paidAfterPeriod ? gig.paid_on : null,
+      });
+    }
   }
 
-  for (const payment of input.invoicePayments) {
-    assertUsdCurrency(payment.invoice?.currency);
+  if (basis === 'cash') {
+    // Cash moved in the period: payments are income, refunds give it back.
+    // Credit notes and write-offs move no cash, so they don't count here.
+    for (const payment of input.invoicePayments) {
+      const usdAmount = roundCents(payment.amount * getPaymentUsdRate(payment, exchangeRates));
 
-    incomeRows.push({
-      id: payment.id,
-      source: 'invoice_payment',
-      receivedDate: payment.payment_date,
-      payerId: null, // Invoice payments don't have payer_id
-      payerName: payment.invoice?.client_name || null,
-      payerEmail: null,
-      payerPhone: null,
-      description: payment.invoice?.invoice_number ? `Invoice Payment ${payment.invoice.invoice_number}` : 'Invoice Payment',
-      amount: roundCents(payment.amount),
-      fees: 0,
-      netAmount: roundCents(payment.amount),
-      currency,
-      relatedInvoiceId: payment.invoice_id,
-    });
+      if (usdAmount < 0) {
+        incomeAdjustmentRows.push({
+          id: payment.id,
+          source: 'refund',
+          date: payment.payment_date,
+          counterparty: payment.invoice?.client_name || null,
+          description: payment.invoice?.invoice_number ? `Refund ${payment.invoice.invoice_number}` : 'Invoice Refund',
+          amount: -usdAmount,
+          currency,
+          relatedInvoiceId: payment.invoice_id,
+        });
+        continue;
+      }
+
+      incomeRows.push({
+        id: payment.id,
+        source: 'invoice_payment',
+        receivedDate: payment.payment_date,
+        payerId: null, // Invoice payments don't have payer_id
+        payerName: payment.invoice?.client_name || null,
+        payerEmail: null,
+        payerPhone: null,
+        description: payment.invoice?.invoice_number ? `Invoice Payment ${payment.invoice.invoice_number}` : 'Invoice Payment',
+        amount: usdAmount,
+        fees: 0,
+        netAmount: usdAmount,
+        currency,
+        relatedInvoiceId: payment.invoice_id,
+        invoiceDate: payment.invoice?.invoice_date ?? null,
+      });
+    }
+  } else {
+    // Accrual: invoices are income on the invoice date; the unpaid balance
+    // at period end is a receivable
+    for (const invoice of input.invoices) {
+      if (invoice.status === 'draft' || invoice.status === 'cancelled') continue;
+
+      const payments = input.invoicePayments
+        .filter(p => p.invoice_id === invoice.id)
+        .sort((a, b) => a.payment_date.localeCompare(b.payment_date));
+      const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+      const paidByPeriodEnd = payments
+        .filter(p => p.payment_date <= input.dateEnd)
+        .reduce((sum, p) => sum + p.amount, 0);
+      const credited = creditNotes
+        .filter(note => note.invoice_id === invoice.id && note.issue_date <= input.dateEnd)
+        .reduce((sum, note) => sum + note.amount, 0);
+      const writtenOff = invoice.written_off_on && invoice.written_off_on <= input.dateEnd
+        ? invoice.written_off_amount ?? 0
+        : 0;
+      const paidDate = payments.length > 0 && totalPaid + credited >= invoice.total_amount - 0.005
+        ? payments[payments.length - 1].payment_date
+        : null;
+      const description = `Invoice ${invoice.invoice_number}`;
+      const usdRate = usdRateByInvoiceId.get(invoice.id) ?? 1;
+      const usdTotal = roundCents(invoice.total_amount * usdRate);
+
+      incomeRows.push({
+        id: invoice.id,
+        source: 'invoice',
+        receivedDate: invoice.invoice_date,
+        payerId: null,
+        payerName: invoice.client_name || null,
+        payerEmail: invoice.client_email,
+        payerPhone: null,
+        description,
+        amount: usdTotal,
+        fees: 0,
+        netAmount: usdTotal,
+        currency,
+        relatedInvoiceId: invoice.id,
+        relatedGigId: invoice.gig_id,
+        paidDate,
+      });
+
+      const openBalance = roundCents((invoice.total_amount - paidByPeriodEnd - credited - writtenOff) * usdRate);
+      if (openBalance > 0) {
+        receivableRows.push({
+          id: invoice.id,
+          source: 'invoice',
+          date: invoice.invoice_date,
+          counterparty: invoice.client_name || null,
+          description,
+          amount: openBalance,
+          paidDate,
+        });
+      }
+    }
+
+    // Credit notes reduce income when issued, even for an earlier year's invoice
+    for (const note of creditNotes) {
+      incomeAdjustmentRows.push({
+        id: note.id,
+        source: 'credit_note',
+        date: note.issue_date,
+        counterparty: note.invoice?.client_name || null,
+        description: note.invoice?.invoice_number
+          ? `Credit note ${note.credit_number} (Invoice ${note.invoice.invoice_number})`
+          : `Credit note ${note.credit_number}`,
+        amount: roundCents(note.amount * (note.invoice ? getUsdRate(note.invoice) : 1)),
+        currency,
+        relatedInvoiceId: note.invoice_id,
+      });
+    }
+
+    // Income already reported that won't be collected is a bad debt
+    for (const invoice of input.writtenOffInvoices ?? []) {
+      if (!invoice.written_off_on || !(invoice.written_off_amount > 0)) continue;
+
+      incomeAdjustmentRows.push({
+        id: invoice.id,
+        source: 'write_off',
+        date: invoice.written_off_on,
+        counterparty: invoice.client_name || null,
+        description: `Bad debt: Invoice ${invoice.invoice_number}`,
+        amount: roundCents(invoice.written_off_amount * getUsdRate(invoice)),
+        currency,
+        relatedInvoiceId: invoice.id,
+      });
+    }
   }
 
   const expenseRows: ExpenseRow[] = [];
@@ -246,6 +616,10 @@ export function buildTaxExportPackageFromData(input: {
     };
   });
 
+  const perDiemRows = input.includePerDiem
+    ? buildPerDiemRows(input.tours ?? [], input.gigs, payerById, input.dateStart, input.dateEnd)
+    : [];
+
   const invoices: InvoiceRow[] = input.invoices.map((inv) => ({
     id: inv.id,
     invoiceNumber: inv.invoice_number,
@@ -253,10 +627,25 @@ export function buildTaxExportPackageFromData(input: {
     invoiceDate: inv.invoice_date,
     dueDate: inv.due_date,
     status: inv.status,
-    totalAmount: roundCents(inv.total_amount),
-    currency: inv.currency,
+    totalAmount: roundCents(inv.total_amount * (usdRateByInvoiceId.get(inv.id) ?? 1)),
+    currency,
   }));
 
+  // Accrual: subcontractors paid after period end for gigs within it are payables
+  const payableRows: PayableRow[] = basis === 'accrual'
+    ? input.subcontractorPayments
+      .filter(p => p.gig?.date && p.paid_on > input.dateEnd)
+      .map((p) => ({
+        id: p.id,
+        source: 'subcontractor' as const,
+        date: p.gig!.date,
+        counterparty: p.subcontractor?.name || null,
+        description: p.note || 'Subcontractor payout',
+        amount: roundCents(p.amount),
+        paidDate: p.paid_on,
+      }))
+    : [];
+
   const subcontractorPayoutRows: SubcontractorPayoutRow[] = input.subcontractorPayments.map((p) => ({
     id: p.id,
     gigId: p.gig_id,
@@ -282,10 +671,10 @@ export function buildTaxExportPackageFromData(input: {
     r.source === 'gig' && r.taxTreatment === 'w2'
   );
   
-  // Invoice payments are included in Schedule C (they're business income)
-  const invoicePaymentRows = incomeRows.filter(r => r.source === 'invoice_payment');
+  // Invoice payments (cash) / invoices (accrual) are included in Schedule C (they're business income)
+  const invoicePaymentRows = incomeRows.filter(r => r.source !== 'gig');
   
-  // Schedule C gross receipts = 1099 gigs + invoice payments (excludes W-2)
+  // Schedule C gross receipts = 1099 gigs + invoice income (excludes W-2)
   const grossReceipts = roundCents(
     [...scheduleCIncomeRows, ...invoicePaymentRows].reduce((sum, r) => sum + r.amount, 0)
   );
@@ -293,7 +682,14 @@ export function buildTaxExportPackageFromData(input: {
   // Fees total for Schedule C (only from 1099 gigs)
   const feesTotal = roundCents(scheduleCIncomeRows.reduce((sum, r) => sum + r.fees, 0));
 
-  const returnsAllowances = input.includeFeesAsDeduction ? 0 : feesTotal;
+  // Refunds and credit notes are returns and allowances; write-offs are bad debts
+  const returnedIncome = roundCents(
+    incomeAdjustmentRows.filter(r => r.source !== 'write_off').reduce((sum, r) => sum + r.amount, 0)
+  );
+  const badDebts = roundCents(
+    incomeAdjustmentRows.filter(r => r.source === 'write_off').reduce((sum, r) => sum + r.amount, 0)
+  );
+  const returnsAllowances = roundCents((input.includeFeesAsDeduction ? 0 : feesTotal) + returnedIncome);
   
   // Add warning if W-2 gigs were excluded
   if (w2IncomeRows.length > 0) {
@@ -325,6 +721,35 @@ export function buildTaxExportPackageFromData(input: {
     }
   }
 
+  const perDiemDeductionTotal = roundCents(perDiemRows.reduce((sum, r) => sum + r.deductibleAmount, 0));
+  if (perDiemDeductionTotal > 0) {
+    expenseTotalsByScheduleCRefNumber[294] = roundCents((expenseTotalsByScheduleCRefNumber[294] || 0) + perDiemDeductionTotal);
+    warnings.push(
+      `Meals include a per diem deduction for ${perDiemRows.length} tour travel day${perDiemRows.length > 1 ? 's' : ''} ` +
+      `at GSA M&IE rates (75% on first and last days, 50% limit). See Per_Diem CSV.`
+    );
+
+    const perDiemDates = new Set(perDiemRows.map(r => r.date));
+    const overlappingMeals = expenseRows.filter(r => r.scheduleCRefNumber === 294 && perDiemDates.has(r.date));
+    if (overlappingMeals.length > 0) {
+      warnings.push(
+        `${overlappingMeals.length} meal expense${overlappingMeals.length > 1 ? 's fall' : ' falls'} on per diem travel days. ` +
+        `The per diem replaces actual meal costs for those days; remove them to avoid deducting meals twice.`
+      );
+    }
+  }
+
+  if (badDebts > 0) {
+    otherExpensesBreakdownMap['Bozzy: Bad Debts'] = badDebts;
+  }
+
+  if (incomeAdjustmentRows.length > 0) {
+    warnings.push(
+      `Refunds, credit notes and bad-debt write-offs reduced income by $${roundCents(returnedIncome + badDebts).toFixed(2)}. ` +
+      `See Income_Adjustments CSV.`
+    );
+  }
+
   if (input.includeFeesAsDeduction && feesTotal > 0) {
     expenseTotalsByScheduleCRefNumber[307] = roundCents((expenseTotalsByScheduleCRefNumber[307] || 0) + feesTotal);
   }
@@ -343,6 +768,24 @@ export function buildTaxExportPackageFromData(input: {
   const expensesTotal = roundCents(sumScheduleCMap(expenseTotalsByScheduleCRefNumber));
   const netProfit = roundCents(grossReceipts - returnsAllowances - cogs - expensesTotal + otherIncome);
 
+  // Allocate net profit by gig state for nonresident returns
+  const stateAllocationRows = buildStateAllocationRows(
+    [...scheduleCIncomeRows, ...invoicePaymentRows],
+    netProfit,
+    input.taxYear,
+    input.taxProfile
+  );
+  const nonresidentStates = stateAllocationRows.filter(r => r.isResident === false).length;
+  if (nonresidentStates > 0) {
+    warnings.push(
+      `Income was earned in ${nonresidentStates} state${nonresidentStates > 1 ? 's' : ''} other than your home state. ` +
+      `Nonresident returns may be required; see State_Allocation CSV.`
+    );
+  }
+
+  // Estimated payments made (1040 line 26 / state credits)
+  const estimatedTaxPayments = buildEstimatedTaxPayments(input.estimatedTaxPayments ?? []);
+
   // Derive payer summary rows for CPA reconciliation
   const payerSummaryMap = new Map<string, {
     payerId: string | null;
@@ -482,7 +925,11 @@ export function buildTaxExportPackageFromData(input: {
       lineDescription: getScheduleCLineName(refNumber),
       rawSignedAmount: -amount, // Negative to show it reduces income
       amountForEntry: Math.abs(amount), // Positive for manual entry
-      notes: refNumber === 302 ? 'See Other_Expenses_Breakdown CSV for itemized detail' : null,
+      notes: refNumber === 302
+        ? 'See Other_Expenses_Breakdown CSV for itemized detail'
+        : refNumber === 294 && perDiemDeductionTotal > 0
+          ? `Includes $${perDiemDeductionTotal.toFixed(2)} per diem M&IE; see Per_Diem CSV`
+          : null,
     });
   }
 
@@ -497,7 +944,7 @@ export function buildTaxExportPackageFromData(input: {
       dateEnd: input.dateEnd,
       createdAt,
       timezone: input.timezone,
-      basis: 'cash',
+      basis,
       currency,
       rounding: { mode: 'half_away_from_zero', precision: 2 },
       schemaVersion: '2026-01-26.1',
@@ -515,33 +962,45 @@ export function buildTaxExportPackageFromData(input: {
     },
     scheduleCLineItems,
     incomeRows,
+    incomeAdjustmentRows,
     expenseRows,
     mileageRows,
+    perDiemRows,
     invoiceRows: invoices,
     subcontractorPayoutRows,
     receiptsManifest,
     payerSummaryRows,
     mileageSummary,
+    stateAllocationRows,
+    estimatedTaxPaymentRows: estimatedTaxPayments.rows,
+    estimatedTaxPayments: estimatedTaxPayments.summary,
+    receivableRows: basis === 'accrual' ? receivableRows : [],
+    payableRows,
+    accrualSummary: {
+      receivablesTotal: basis === 'accrual' ? roundCents(receivableRows.reduce((sum, r) => sum + r.amount, 0)) : 0,
+      payablesTotal: roundCents(payableRows.reduce((sum, r) => sum + r.amount, 0)),
+    },
   };
 }
 
 export async function buildTaxExportPackage(options: BuildTaxExportPackageOptions): Promise<TaxExportPackage> {
   const basis = options.basis ?? 'cash';
-  if (basis !== 'cash') {
-    throw new TaxExportError('UNSUPPORTED', 'Only cash basis exports are supported.');
+  if (basis !== 'cash' && basis !== 'accrual') {
+    throw new TaxExportError('UNSUPPORTED', 'Only cash and accrual basis exports are supported.');
   }
 
   const dateStart = options.dateStart ?? `${options.taxYear}-01-01`;
   const dateEnd = options.dateEnd ?? `${options.taxYear}-12-31`;
   const includeTips = options.includeTips ?? true;
   const includeFeesAsDeduction = options.includeFeesAsDeduction ?? true;
+  const includePerDiem = options.includePerDiem ?? false;
 
   const { data: { user } } = await supabase.auth.getUser();
   if (!user || user.id !== options.userId) {
     throw new TaxExportError('NOT_AUTHORIZED', 'Not authorized to export this data.');
   }
 
-  const [gigsRes, expRes, mileageRes, invoicesRes, invoicePaymentsRes, subcontractorPaymentsRes, payersRes] = await Promise.all([
+  const [gigsRes, expRes, mileageRes, invoicesRes, invoicePaymentsRes, creditNotesRes, writtenOffRes, invoicedGigsRes, invoicedLineGigsRes, subcontractorPaymentsRes, payersRes, toursRes, estimatedPaymentsRes, exchangeRatesRes] = await Promise.all([
     supabase
       .from('gigs')
       .select('*')
@@ -552,6 +1011,7 @@ export async function buildTaxExportPackage(options: BuildTaxExportPackageOption
       .from('expenses')
       .select('*')
       .eq('user_id', options.userId)
+      .or('is_draft.is.null,is_draft.eq.false')
       .gte('date', dateStart)
       .lte('date', dateEnd),
     supabase
@@ -566,12 +1026,46 @@ export async function buildTaxExportPackage(options: BuildTaxExportPackageOption
       .eq('user_id', options.userId)
       .gte('invoice_date', dateStart)
       .lte('invoice_date', dateEnd),
+    // Cash: payments received in the period. Accrual: every payment on invoices
+    // dated in the period, to work out what was still open at period end
+    basis === 'cash'
+      ? supabase
+        .from('invoice_payments')
+        .select('*, invoice:invoices!inner(id, invoice_number, client_name, currency, exchange_rate, invoice_date, user_id)')
+        .eq('invoice.user_id', options.userId)
+        .gte('payment_date', dateStart)
+        .lte('payment_date', dateEnd)
+      : supabase
+        .from('invoice_payments')
+        .select('*, invoice:invoices!inner(id, invoice_number, client_name, currency, exchange_rate, invoice_date, user_id)')
+        .eq('invoice.user_id', options.userId)
+        .gte('invoice.invoice_date', dateStart)
+        .lte('invoice.invoice_date', dateEnd),
+    supabase
+      .from('invoice_credit_notes')
+      .select('*, invoice:invoices!inner(id, invoice_number, client_name, currency, exchange_rate, invoice_date, user_id)')
+      .eq('user_id', options.userId)
+      .gte('issue_date', dateStart)
+      .lte('issue_date', dateEnd),
+    supabase
+      .from('invoices')
+      .select('*')
+      .eq('user_id', options.userId)
+      .gte('written_off_on', dateStart)
+      .lte('written_off_on', dateEnd),
+    // What sent invoices from any period billed for gigs, so it isn't counted twice
     supabase
-      .from('invoice_payments')
-      .select('*, invoice:invoices!inner(id, invoice_number, client_name, currency, user_id)')
+      .from('invoices')
+      .select('gig_id, subtotal, invoice_number, currency, exchange_rate, payments:invoice_payments(id)')
+      .eq('user_id', options.userId)
+      .not('gig_id', 'is', null)
+      .not('status', 'in', '(draft,cancelled)'),
+    supabase
+      .from('invoice_line_items')
+      .select('gig_id, amount, invoice:invoices!inner(user_id, status, invoice_number, currency, exchange_rate, payments:invoice_payments(id))')
       .eq('invoice.user_id', options.userId)
-      .gte('payment_date', dateStart)
-      .lte('payment_date', dateEnd),
+      .not('gig_id', 'is', null)
+      .not('invoice.status', 'in', '(draft,cancelled)'),
     supabase
       .from('gig_subcontractor_payments')
       .select('*, subcontractor:subcontractors(id, name), gig:gigs!inner(date)')
@@ -582,9 +1076,24 @@ export async function buildTaxExportPackage(options: BuildTaxExportPackageOption
       .from('payers')
       .select('*')
       .eq('user_id', options.userId),
+    supabase
+      .from('tour_runs')
+      .select('*')
+      .eq('user_id', options.userId),
+    // By tax year, not date range: the Q4 payment is made the following January
+    supabase
+      .from('estimated_tax_payments')
+      .select('*')
+      .eq('user_id', options.userId)
+      .eq('tax_year', options.taxYear),
+    supabase
+      .from('exchange_rates')
+      .select('currency, rate_date, usd_per_unit')
+      .eq('user_id', options.userId)
+      .lte('rate_date', dateEnd),
   ]);
 
-  if (gigsRes.error || expRes.error || mileageRes.error || invoicesRes.error || invoicePaymentsRes.error || subcontractorPaymentsRes.error || payersRes.error) {
+  if (gigsRes.error || expRes.error || mileageRes.error || invoicesRes.error || invoicePaymentsRes.error || creditNotesRes.error || writtenOffRes.error || invoicedGigsRes.error || invoicedLineGigsRes.error || subcontractorPaymentsRes.error || payersRes.error || toursRes.error || estimatedPaymentsRes.error || exchangeRatesRes.error) {
     throw new TaxExportError('DATA_LOAD_FAILED', 'Failed to load export data. Please try again.');
   }
 
@@ -593,22 +1102,38 @@ export async function buildTaxExportPackage(options: BuildTaxExportPackageOption
   const mileage = (mileageRes.data || []) as MileageExportRow[];
   const invoices = ((invoicesRes.data || []) as unknown) as InvoiceDbRow[];
 
-  for (const inv of invoices) assertUsdCurrency(inv.currency);
-
   // invoice_payments already joined to invoices (with user_id filter) via the query above
   const invoicePayments = ((invoicePaymentsRes.data || []) as InvoicePaymentQueryRow[]).map((payment) => {
     const inv = payment.invoice;
-    assertUsdCurrency(inv?.currency);
     return {
       ...payment,
       invoice: inv ?? null,
     } as InvoicePaymentRow & {
-      invoice?: Pick<InvoiceDbRow, 'id' | 'invoice_number' | 'client_name' | 'currency'> | null;
+      invoice?: InvoicePaymentInvoice | null;
     };
   });
 
+  const creditNotes = ((creditNotesRes.data || []) as unknown) as CreditNoteQueryRow[];
+  const writtenOffInvoices = ((writtenOffRes.data || []) as unknown) as InvoiceDbRow[];
+  // A gig invoiced on its own billed the invoice subtotal
+  const billedGigs: BilledGig[] = [
+    ...((invoicedGigsRes.data || []) as unknown as BilledGigInvoiceQueryRow[]).map(inv => ({
+      gigId: inv.gig_id as string,
+      amount: roundCents(inv.subtotal * getUsdRate(inv)),
+      hasPayments: inv.payments.length > 0,
+    })),
+    ...((invoicedLineGigsRes.data || []) as unknown as BilledGigLineQueryRow[]).map(line => ({
+      gigId: line.gig_id as string,
+      amount: roundCents(line.amount * getUsdRate(line.invoice)),
+      hasPayments: line.invoice.payments.length > 0,
+    })),
+  ];
   const subcontractorPayments = (subcontractorPaymentsRes.data || []) as SubcontractorPaymentQueryRow[];
   const payers = (payersRes.data || []) as PayerRow[];
+  const tours = (toursRes.data || []) as TourRunRow[];
+  const estimatedTaxPayments = (estimatedPaymentsRes.data || []) as EstimatedTaxPaymentDbRow[];
+  const exchangeRates: ExchangeRate[] = (exchangeRatesRes.data || [])
+    .map(rate => ({ ...rate, usd_per_unit: Number(rate.usd_per_unit) }));
 
   return buildTaxExportPackageFromData({
     taxYear: options.taxYear,
@@ -617,12 +1142,21 @@ export async function buildTaxExportPackage(options: BuildTaxExportPackageOption
     dateEnd,
     includeTips,
     includeFeesAsDeduction,
+    includePerDiem,
+    basis,
     gigs,
     expenses,
     mileage,
     invoices,
     invoicePayments,
+    creditNotes,
+    writtenOffInvoices,
+    billedGigs,
+    exchangeRates,
     subcontractorPayments,
     payers,
+    tours,
+    estimatedTaxPayments,
+    taxProfile: options.taxProfile,
   });
 }
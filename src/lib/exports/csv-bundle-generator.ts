@@ -61,6 +61,54 @@ export async function generateCSVBundle(pkg: TaxExportPackage): Promise<void> {
   }];
   zip.file(`Mileage_Summary_${taxYear}.csv`, stringifyCsv(mileageSummaryRows));
 
+  // State Allocation CSV (net profit by gig state, nonresident estimates)
+  const stateAllocationRows = pkg.stateAllocationRows.map((r) => ({
+    state_code: r.stateCode || 'Unassigned',
+    is_resident: r.isResident,
+    gross_receipts: r.grossReceipts,
+    allocated_net_profit: r.allocatedNetProfit,
+    share_percent: r.sharePercent,
+    estimated_tax: r.estimatedTax,
+    resident_credit: r.residentCredit,
+    estimated_owed: r.estimatedOwed,
+  }));
+  zip.file(`State_Allocation_${taxYear}.csv`, stringifyCsv(stateAllocationRows));
+
+  // Estimated Tax Payments CSV (federal total is 1040 line 26; state rows credit each state return)
+  const estimatedTaxPaymentRows = pkg.estimatedTaxPaymentRows.map((r) => ({
+    paid_on: r.paidOn,
+    quarter: r.quarter,
+    jurisdiction: r.jurisdiction === 'federal' ? 'Federal' : r.jurisdiction,
+    amount: r.amount,
+    confirmation_number: r.confirmationNumber || '',
+  }));
+  zip.file(`Estimated_Tax_Payments_${taxYear}.csv`, stringifyCsv(estimatedTaxPaymentRows));
+
+  // Receivables / Payables CSVs (accrual basis: open at period end)
+  if (pkg.metadata.basis === 'accrual') {
+    const receivableRows = pkg.receivableRows.map((r) => ({
+      id: r.id,
+      source: r.source,
+      date: r.date,
+      counterparty: r.counterparty || '',
+      description: r.description,
+      open_amount: r.amount,
+      paid_date: r.paidDate || '',
+    }));
+    zip.file(`Receivables_${taxYear}.csv`, stringifyCsv(receivableRows));
+
+    const payableRows = pkg.payableRows.map((r) => ({
+      id: r.id,
+      source: r.source,
+      date: r.date,
+      counterparty: r.counterparty || '',
+      description: r.description,
+      amount: r.amount,
+      paid_date: r.paidDate || '',
+    }));
+    zip.file(`Payables_${taxYear}.csv`, stringifyCsv(payableRows));
+  }
+
   // Income Detail CSV
   const incomeRows = pkg.incomeRows.map((r) => ({
     id: r.id,
@@ -79,6 +127,18 @@ export async function generateCSVBundle(pkg: TaxExportPackage): Promise<void> {
   }));
   zip.file(`Income_Detail_${taxYear}.csv`, stringifyCsv(incomeRows));
 
+  // Income Adjustments CSV (refunds and credit notes are returns and allowances; write-offs are bad debts)
+  const incomeAdjustmentRows = pkg.incomeAdjustmentRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    amount: r.amount,
+    related_invoice_id: r.relatedInvoiceId,
+  }));
+  zip.file(`Income_Adjustments_${taxYear}.csv`, stringifyCsv(incomeAdjustmentRows));
+
   // Expense Detail CSV
   const expenseRows = pkg.expenseRows.map((r) => ({
     id: r.id,
@@ -114,6 +174,23 @@ export async function generateCSVBundle(pkg: TaxExportPackage): Promise<void> {
   }));
   zip.file(`Mileage_${taxYear}.csv`, stringifyCsv(mileageRows));
 
+  // Per Diem CSV (tour travel days at GSA M&IE rates; deductible total is in line 24b)
+  if (pkg.perDiemRows.length > 0) {
+    const perDiemRows = pkg.perDiemRows.map((r) => ({
+      date: r.date,
+      tour: r.tourName,
+      city: r.city || '',
+      state_code: r.stateCode || '',
+      gsa_locality: r.locality || 'Standard CONUS',
+      mie_rate: r.mieRate,
+      travel_day_percent: r.travelDayPercent,
+      allowance: r.allowance,
+      deductible_percent: r.deductiblePercent,
+      deductible_amount: r.deductibleAmount,
+    }));
+    zip.file(`Per_Diem_${taxYear}.csv`, stringifyCsv(perDiemRows));
+  }
+
   // Generate and download the ZIP file
   const zipBytes = await zip.generateAsync({ type: 'uint8array' });
   downloadZip(zipBytes, `Bozzy_CSV_Bundle_${taxYear}.zip`);
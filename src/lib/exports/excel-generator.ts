@@ -6,7 +6,7 @@
 
 import type { GigExportRow, ExpenseExportRow, MileageExportRow, PayerExportRow, ScheduleCSummaryRow } from './schemas';
 import type { WithholdingBreakdown } from '../tax/withholding';
-import { getStandardMileageRate } from './mileageRates';
+import { calculateMileageDeduction } from '../../tax/service';
 
 // Type aliases for easier use with actual data from hooks
 type GigExport = any; // Will use actual data from useExports hook
@@ -52,9 +52,8 @@ export function generateExcelData(input: ExcelGeneratorInput) {
       expensesByCategory[cat] = (expensesByCategory[cat] || 0) + e.amount;
     });
     
-    // Mileage deduction
-    const mileageRate = getStandardMileageRate(taxYear);
-    const mileageDeduction = mileage.reduce((sum, m) => sum + (m.deduction_amount || m.miles * mileageRate), 0);
+    // Mileage deduction (IRS rate for each trip date when not stored)
+    const mileageDeduction = mileage.reduce((sum, m) => sum + (m.deduction_amount || calculateMileageDeduction(m.miles, m.date)), 0);
     
     // Map to Schedule C lines
     const advertising = expensesByCategory['Marketing'] || 0;
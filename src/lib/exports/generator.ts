@@ -18,8 +18,7 @@ import {
   SCHEDULE_C_SUMMARY_CSV_HEADERS,
   IRS_SCHEDULE_C_LINE_CODES,
 } from './schemas';
-import { getStandardMileageRate } from './mileageRates';
-import { SS_WAGE_BASE_2025 } from '../tax/constants';
+import { basicTaxProfile, calculateMileageDeduction, estimateTaxOnNetProfit } from '../../tax/service';
 
 // ============================================================================
 // CSV UTILITIES
@@ -99,7 +98,7 @@ export type ScheduleCCalculationInput = {
   standardOrItemized: 'standard' | 'itemized';
   includeTips: boolean;
   includeFeesAsDeduction: boolean;
-  mileageRate?: number; // IRS standard mileage rate (defaults by tax year)
+  mileageRate?: number; // IRS standard mileage rate (defaults to the rate for each trip date)
   taxBreakdown?: {
     selfEmployment: number;
     federalIncome: number;
@@ -115,7 +114,7 @@ export function calculateScheduleCSummary(
   input: ScheduleCCalculationInput
 ): ScheduleCSummaryRow {
   const { gigs, expenses, mileage, taxYear, filingStatus, stateOfResidence, standardOrItemized } = input;
-  const mileageRate = input.mileageRate || getStandardMileageRate(taxYear);
+  const { mileageRate } = input;
 
   // ============================================================================
   // PART I: INCOME
@@ -258,7 +257,9 @@ export function calculateScheduleCSummary(
 
   // Add mileage deduction to car/truck expenses
   const mileageDeduction = mileage.reduce((sum, trip) => {
-    return sum + (trip.business_miles * mileageRate);
+    return sum + (mileageRate
+      ? trip.business_miles * mileageRate
+      : calculateMileageDeduction(trip.business_miles, trip.date));
   }, 0);
   expenseCategories.car_truck += mileageDeduction;
 
@@ -283,8 +284,8 @@ export function calculateScheduleCSummary(
   // SE tax basis (92.35% of net profit) - always calculate for informational purposes
   const seTaxBasis = Math.max(0, netProfit * 0.9235);
 
-  // Use tax breakdown from withholding hook if provided (accurate state-specific rates)
-  // Otherwise fall back to simplified calculations
+  // Use tax breakdown from the caller if provided; otherwise estimate with the
+  // tax service so the export matches the dashboard
   let estSETax: number;
   let estFederalIncomeTax: number;
   let estStateIncomeTax: number;
@@ -298,20 +299,15 @@ export function calculateScheduleCSummary(
     estStateIncomeTax = input.taxBreakdown.stateIncome;
     estTotalTax = input.taxBreakdown.total;
   } else {
-    // Fallback: simplified calculations (should rarely be used)
-    // Estimated SE tax (15.3% of SE tax basis, capped at SS wage base)
-    const ssTax = Math.min(seTaxBasis, SS_WAGE_BASE_2025) * 0.124; // 12.4% SS
-    const medicareTax = seTaxBasis * 0.029; // 2.9% Medicare
-    estSETax = ssTax + medicareTax;
-
-    // Estimated federal income tax (simplified - 12% bracket assumption)
-    estFederalIncomeTax = Math.max(0, (netProfit - estSETax * 0.5) * 0.12);
-
-    // State income tax: DO NOT use hardcoded rate - default to 0
-    // Caller should always provide taxBreakdown for accurate state tax
-    estStateIncomeTax = 0;
-
-    estTotalTax = estSETax + estFederalIncomeTax + estStateIncomeTax;
+    const estimate = estimateTaxOnNetProfit(
+      netProfit,
+      basicTaxProfile(stateOfResidence, filingStatus),
+      taxYear
+    );
+    estSETax = estimate.seTax + estimate.additionalMedicare;
+    estFederalIncomeTax = estimate.federal;
+    estStateIncomeTax = estimate.state + estimate.local;
+    estTotalTax = estimate.total;
   }
 
   // Suggested set-aside amount
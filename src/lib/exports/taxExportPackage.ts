@@ -1,5 +1,6 @@
-export type TaxExportBasis = 'cash';
+export type TaxExportBasis = 'cash' | 'accrual';
 
+// Every export amount is in USD; foreign-currency invoices are converted with their exchange rate
 export type TaxExportCurrency = 'USD';
 
 export type TaxExportSchemaVersion = '2026-01-26.1';
@@ -66,8 +67,8 @@ export interface ScheduleCSection {
 
 export interface IncomeRow {
   id: string;
-  source: 'gig' | 'invoice_payment';
-  receivedDate: string;
+  source: 'gig' | 'invoice_payment' | 'invoice'; // 'invoice' rows are accrual-basis income on the invoice date
+  receivedDate: string; // Date the income is recognized (payment date on cash basis, gig/invoice date on accrual)
   payerId?: string | null;
   payerName?: string | null;
   payerEmail?: string | null;
@@ -80,6 +81,9 @@ export interface IncomeRow {
   relatedInvoiceId?: string | null;
   relatedGigId?: string | null;
   taxTreatment?: 'w2' | 'contractor_1099' | 'other' | null; // Tax treatment for filtering W-2 from Schedule C
+  stateCode?: string | null; // State the gig was performed in (gigs only)
+  invoiceDate?: string | null; // Invoice date behind a cash-basis invoice payment
+  paidDate?: string | null; // Date an accrual-basis invoice was paid in full (null while open)
 }
 
 export interface ExpenseRow {
@@ -115,6 +119,26 @@ export interface MileageRow {
   relatedGigId?: string | null;
 }
 
+/**
+ * One tour travel day deducted with the per diem method: the GSA M&IE rate
+ * for where the day was spent, 75% on the trip's first and last day
+ */
+export interface PerDiemRow {
+  id: string;
+  tourId: string;
+  tourName: string;
+  date: string;
+  city: string | null;
+  stateCode: string | null;
+  locality: string | null; // GSA non-standard area, null for the standard rate
+  mieRate: number;
+  travelDayPercent: number;
+  allowance: number;
+  deductiblePercent: number;
+  deductibleAmount: number; // Included in Schedule C line 24b (ref 294)
+  currency: TaxExportCurrency;
+}
+
 export interface InvoiceRow {
   id: string;
   invoiceNumber: string;
@@ -166,6 +190,71 @@ export interface MileageSummary {
   notes: string;
 }
 
+export interface StateAllocationRow {
+  stateCode: string | null; // null = income without a gig state (no tax profile to assign it)
+  isResident: boolean | null; // null when no tax profile was provided
+  grossReceipts: number;
+  allocatedNetProfit: number;
+  sharePercent: number;
+  estimatedTax: number | null; // Estimates are null when no tax profile was provided
+  residentCredit: number | null;
+  estimatedOwed: number | null;
+}
+
+export interface EstimatedTaxPaymentRow {
+  id: string;
+  paidOn: string;
+  quarter: number;
+  jurisdiction: string; // 'federal' or a state code
+  amount: number;
+  confirmationNumber: string | null;
+}
+
+export interface EstimatedTaxPaymentsSummary {
+  federalTotal: number; // Form 1040 line 26
+  stateTotals: { stateCode: string; amount: number }[]; // Estimated payments credit on each state return
+}
+
+/**
+ * Invoice income given back. Refunds (cash basis) and credit notes (accrual)
+ * are returns and allowances; write-offs (accrual) are bad debts.
+ */
+export interface IncomeAdjustmentRow {
+  id: string;
+  source: 'refund' | 'credit_note' | 'write_off';
+  date: string; // Refund, credit note or write-off date
+  counterparty: string | null;
+  description: string;
+  amount: number; // Positive; reduces income
+  currency: TaxExportCurrency;
+  relatedInvoiceId: string;
+}
+
+export interface ReceivableRow {
+  id: string;
+  source: 'gig' | 'invoice';
+  date: string; // Gig or invoice date the income was recognized on
+  counterparty: string | null;
+  description: string;
+  amount: number; // Open balance at period end
+  paidDate: string | null; // Date paid after period end, if known
+}
+
+export interface PayableRow {
+  id: string;
+  source: 'subcontractor';
+  date: string; // Gig date the cost was incurred on
+  counterparty: string | null;
+  description: string;
+  amount: number;
+  paidDate: string | null; // Date recorded as paid, after period end
+}
+
+export interface AccrualSummary {
+  receivablesTotal: number;
+  payablesTotal: number;
+}
+
 export interface ScheduleCLineItem {
   scheduleCRefNumber: ScheduleCRefNumber;
   scheduleCLineName: string;
@@ -180,11 +269,20 @@ export interface TaxExportPackage {
   scheduleC: ScheduleCSection;
   scheduleCLineItems: ScheduleCLineItem[];
   incomeRows: IncomeRow[];
+  incomeAdjustmentRows: IncomeAdjustmentRow[];
   expenseRows: ExpenseRow[];
   mileageRows: MileageRow[];
+  perDiemRows: PerDiemRow[]; // Empty unless the per diem method was chosen
   invoiceRows: InvoiceRow[];
   subcontractorPayoutRows: SubcontractorPayoutRow[];
   receiptsManifest: ReceiptsManifestItem[];
   payerSummaryRows: PayerSummaryRow[];
   mileageSummary: MileageSummary;
+  stateAllocationRows: StateAllocationRow[];
+  estimatedTaxPaymentRows: EstimatedTaxPaymentRow[];
+  estimatedTaxPayments: EstimatedTaxPaymentsSummary;
+  // Accrual basis only (empty on cash basis)
+  receivableRows: ReceivableRow[];
+  payableRows: PayableRow[];
+  accrualSummary: AccrualSummary;
 }
@@ -2,6 +2,7 @@ import JSZip from 'jszip';
 import type { TaxExportPackage } from './taxExportPackage';
 import { generateScheduleCSummaryPdf } from './taxpdf';
 import { stringifyCsv } from './textCsv';
+import { BASIS_DESCRIPTIONS, BASIS_LABELS } from './basisLabels';
 
 export async function generateTaxActPackZip(input: {
   pkg: TaxExportPackage;
@@ -37,6 +38,23 @@ export async function generateTaxActPackZip(input: {
   // Add Mileage Detail CSV
   zip.file(`Mileage_${taxYear}.csv`, stringifyCsv(buildMileageRows(pkg)));
 
+  // Add Estimated Tax Payments CSV (1040 line 26 / state credits)
+  const estimatedPaymentRows = buildEstimatedTaxPaymentRows(pkg);
+  if (estimatedPaymentRows.length > 0) {
+    zip.file(`Estimated_Tax_Payments_${taxYear}.csv`, stringifyCsv(estimatedPaymentRows));
+  }
+
+  // Add Income Adjustments CSV (refunds, credit notes, bad-debt write-offs)
+  if (pkg.incomeAdjustmentRows.length > 0) {
+    zip.file(`Income_Adjustments_${taxYear}.csv`, stringifyCsv(buildIncomeAdjustmentRows(pkg)));
+  }
+
+  // Add Receivables / Payables CSVs (accrual basis)
+  if (pkg.metadata.basis === 'accrual') {
+    zip.file(`Receivables_${taxYear}.csv`, stringifyCsv(buildReceivableRows(pkg)));
+    zip.file(`Payables_${taxYear}.csv`, stringifyCsv(buildPayableRows(pkg)));
+  }
+
   // Add PDF Summary
   const pdfBytes = await generateScheduleCSummaryPdf({ pkg, appVersion });
   zip.file(`PDF_Summary_${taxYear}.pdf`, pdfBytes);
@@ -150,6 +168,52 @@ function buildOtherExpensesBreakdownRows(pkg: TaxExportPackage) {
   }));
 }
 
+function buildEstimatedTaxPaymentRows(pkg: TaxExportPackage) {
+  return pkg.estimatedTaxPaymentRows.map((r) => ({
+    paid_on: r.paidOn,
+    quarter: r.quarter,
+    jurisdiction: r.jurisdiction === 'federal' ? 'Federal' : r.jurisdiction,
+    amount: r.amount,
+    confirmation_number: r.confirmationNumber || '',
+  }));
+}
+
+function buildIncomeAdjustmentRows(pkg: TaxExportPackage) {
+  return pkg.incomeAdjustmentRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    amount: r.amount,
+    related_invoice_id: r.relatedInvoiceId,
+  }));
+}
+
+function buildReceivableRows(pkg: TaxExportPackage) {
+  return pkg.receivableRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    open_amount: r.amount,
+    paid_date: r.paidDate || '',
+  }));
+}
+
+function buildPayableRows(pkg: TaxExportPackage) {
+  return pkg.payableRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    amount: r.amount,
+    paid_date: r.paidDate || '',
+  }));
+}
+
 function buildReadmeText(pkg: TaxExportPackage): string {
   const year = pkg.metadata.taxYear;
   const warnings = pkg.scheduleC.warnings;
@@ -158,7 +222,7 @@ function buildReadmeText(pkg: TaxExportPackage): string {
     `Bozzy TaxAct Tax Prep Pack (${year})`,
     '',
     `Date range: ${pkg.metadata.dateStart} to ${pkg.metadata.dateEnd}`,
-    `Basis: cash`,
+    `Basis: ${BASIS_LABELS[pkg.metadata.basis].toLowerCase()}`,
     `Currency: USD`,
     `Rounding: 2 decimals (amounts include cents; some tax software may round)`,
     '',
@@ -172,7 +236,9 @@ function buildReadmeText(pkg: TaxExportPackage): string {
     `6. Expense_Detail_${year}.csv - Detailed expenses with asset review flags`,
     `7. Mileage_${year}.csv - Mileage log with standard deduction calculations`,
     `8. PDF_Summary_${year}.pdf - Visual summary for verification`,
-    '9. This README file',
+    `9. Estimated_Tax_Payments_${year}.csv - Federal and state estimated payments made (if any)`,
+    `10. Receivables_${year}.csv / Payables_${year}.csv - Open items at period end (accrual basis only)`,
+    '11. This README file',
     '',
     'IMPORTANT: Other_Expenses_Breakdown is supporting detail for line 302 (Other expenses).',
     'Enter ONLY the 302 total from ScheduleC_Summary. Do NOT enter the breakdown items separately.',
@@ -204,13 +270,19 @@ function buildReadmeText(pkg: TaxExportPackage): string {
     '   - Mileage detail log provides trip-by-trip backup',
     '   - Share these with your CPA if needed',
     '',
-    'Step 6: Verify your totals',
+    'Step 6: Enter estimated tax payments',
+    `   - Federal estimated payments (Form 1040 line 26): $${pkg.estimatedTaxPayments.federalTotal.toFixed(2)}`,
+    ...(pkg.estimatedTaxPayments.stateTotals.length
+      ? pkg.estimatedTaxPayments.stateTotals.map(s => `   - ${s.stateCode} estimated payments (state return credit): $${s.amount.toFixed(2)}`)
+      : ['   - No state estimated payments recorded']),
+    '',
+    'Step 7: Verify your totals',
     '   - Compare TaxAct\'s final Schedule C with the PDF summary',
     `   - Net profit should match: $${pkg.scheduleC.netProfit.toFixed(2)}`,
     '',
     'IMPORTANT DISCLAIMERS',
     '---------------------',
-    '✓ This export uses CASH BASIS accounting (income when received, expenses when paid)',
+    `✓ This export uses ${BASIS_DESCRIPTIONS[pkg.metadata.basis]}`,
     '✓ All amounts are in USD',
     '✓ Meals expenses are calculated at 50% deductible (IRS standard)',
     `✓ Mileage uses IRS standard rates for ${year}`,
@@ -228,7 +300,13 @@ function buildReadmeText(pkg: TaxExportPackage): string {
     '',
     'DATA QUALITY NOTES',
     '------------------',
-    `✓ Cash basis: ${pkg.metadata.basis}`,
+    `✓ Basis: ${BASIS_LABELS[pkg.metadata.basis]}`,
+    ...(pkg.metadata.basis === 'accrual'
+      ? [
+        `✓ Receivables at period end: $${pkg.accrualSummary.receivablesTotal.toFixed(2)} (${pkg.receivableRows.length})`,
+        `✓ Payables at period end: $${pkg.accrualSummary.payablesTotal.toFixed(2)} (${pkg.payableRows.length})`,
+      ]
+      : []),
     `✓ Currency: ${pkg.metadata.currency}`,
     `✓ Rounding: ${pkg.metadata.rounding.precision} decimal places`,
     `✓ Income transactions: ${pkg.incomeRows.length}`,
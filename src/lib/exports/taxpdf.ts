@@ -1,6 +1,7 @@
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
 import type { TaxExportPackage } from './taxExportPackage';
 import { formatCents } from './rounding';
+import { BASIS_LABELS } from './basisLabels';
 
 export async function generateScheduleCSummaryPdf(input: {
   pkg: TaxExportPackage;
@@ -31,7 +32,7 @@ export async function generateScheduleCSummaryPdf(input: {
   drawLine(`Bozzy Schedule C Summary (organized for tax prep)`, { bold: true });
   drawLine(`Tax year: ${pkg.metadata.taxYear}`);
   drawLine(`Date range: ${pkg.metadata.dateStart} to ${pkg.metadata.dateEnd}`);
-  drawLine(`Basis: cash`);
+  drawLine(`Basis: ${BASIS_LABELS[pkg.metadata.basis].toLowerCase()}`);
   drawLine(`Currency: USD`);
   drawLine(`Generated by Bozzy ${appVersion} at ${pkg.metadata.createdAt}`);
 
@@ -54,6 +55,23 @@ export async function generateScheduleCSummaryPdf(input: {
   y -= 8;
   drawLine(`Net profit: $${formatCents(pkg.scheduleC.netProfit)}`, { bold: true });
 
+  if (pkg.metadata.basis === 'accrual') {
+    y -= 8;
+    drawLine('Open at period end (accrual basis):', { bold: true });
+    drawLine(`Receivables: $${formatCents(pkg.accrualSummary.receivablesTotal)}`);
+    drawLine(`Payables: $${formatCents(pkg.accrualSummary.payablesTotal)}`);
+  }
+
+  const { federalTotal, stateTotals } = pkg.estimatedTaxPayments;
+  if (federalTotal > 0 || stateTotals.length > 0) {
+    y -= 8;
+    drawLine('Estimated tax payments made:', { bold: true });
+    drawLine(`Federal (Form 1040 line 26): $${formatCents(federalTotal)}`);
+    for (const s of stateTotals) {
+      drawLine(`${s.stateCode} (state return credit): $${formatCents(s.amount)}`);
+    }
+  }
+
   if (pkg.scheduleC.warnings.length > 0) {
     y -= 8;
     drawLine('Notes:', { bold: true });
@@ -2,6 +2,7 @@ import JSZip from 'jszip';
 import type { TaxExportPackage } from './taxExportPackage';
 import { stringifyCsv } from './textCsv';
 import { generateScheduleCSummaryPdf } from './taxpdf';
+import { BASIS_DESCRIPTIONS, BASIS_LABELS } from './basisLabels';
 
 /**
  * TurboTax Online Manual Entry Pack
@@ -49,7 +50,7 @@ function buildIncomeDetailRows(pkg: TaxExportPackage) {
   // CRITICAL: Filter to only 1099 contractor income for Schedule C
   // W-2 gigs are excluded from Schedule C exports
   const scheduleCIncomeRows = pkg.incomeRows.filter(r => 
-    r.source === 'invoice_payment' || r.taxTreatment === 'contractor_1099'
+    r.source !== 'gig' || r.taxTreatment === 'contractor_1099'
   );
   
   return scheduleCIncomeRows.map((r) => ({
@@ -141,6 +142,52 @@ function buildOtherExpensesBreakdownRows(pkg: TaxExportPackage) {
   }));
 }
 
+function buildEstimatedTaxPaymentRows(pkg: TaxExportPackage) {
+  return pkg.estimatedTaxPaymentRows.map((r) => ({
+    paid_on: r.paidOn,
+    quarter: r.quarter,
+    jurisdiction: r.jurisdiction === 'federal' ? 'Federal' : r.jurisdiction,
+    amount: r.amount,
+    confirmation_number: r.confirmationNumber || '',
+  }));
+}
+
+function buildIncomeAdjustmentRows(pkg: TaxExportPackage) {
+  return pkg.incomeAdjustmentRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    amount: r.amount,
+    related_invoice_id: r.relatedInvoiceId,
+  }));
+}
+
+function buildReceivableRows(pkg: TaxExportPackage) {
+  return pkg.receivableRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    open_amount: r.amount,
+    paid_date: r.paidDate || '',
+  }));
+}
+
+function buildPayableRows(pkg: TaxExportPackage) {
+  return pkg.payableRows.map((r) => ({
+    id: r.id,
+    source: r.source,
+    date: r.date,
+    counterparty: r.counterparty || '',
+    description: r.description,
+    amount: r.amount,
+    paid_date: r.paidDate || '',
+  }));
+}
+
 function buildReadmeText(pkg: TaxExportPackage): string {
   const { taxYear } = pkg.metadata;
   
@@ -163,7 +210,9 @@ CONTENTS
 7. Expense_Detail_${taxYear}.csv - Detailed expenses with asset review flags
 8. Mileage_${taxYear}.csv - Mileage log with standard deduction calculations
 9. PDF_Summary_${taxYear}.pdf - Visual summary for verification
-10. This README file
+10. Estimated_Tax_Payments_${taxYear}.csv - Federal and state estimated payments made (if any)
+11. Receivables_${taxYear}.csv / Payables_${taxYear}.csv - Open items at period end (accrual basis only)
+12. This README file
 
 CRITICAL: W-2 vs 1099 Income Treatment
 ---------------------------------------
@@ -202,13 +251,18 @@ Step 5: Keep detail CSVs for your records
    - Mileage detail log provides trip-by-trip backup
    - Share these with your CPA if needed
 
-Step 6: Verify your totals
+Step 6: Enter estimated tax payments
+   - Federal estimated payments (Form 1040 line 26): $${pkg.estimatedTaxPayments.federalTotal.toFixed(2)}
+${pkg.estimatedTaxPayments.stateTotals.map(s => `   - ${s.stateCode} estimated payments (state return credit): $${s.amount.toFixed(2)}`).join('\n') || '   - No state estimated payments recorded'}
+   - TurboTax asks for these under Deductions & Credits > Estimates and Other Taxes Paid
+
+Step 7: Verify your totals
    - Compare TurboTax's final Schedule C with the PDF summary
    - Net profit should match: $${pkg.scheduleC.netProfit.toFixed(2)}
 
 IMPORTANT DISCLAIMERS
 ---------------------
-✓ This export uses CASH BASIS accounting (income when received, expenses when paid)
+✓ This export uses ${BASIS_DESCRIPTIONS[pkg.metadata.basis]}
 ✓ All amounts are in USD
 ✓ Meals expenses are calculated at 50% deductible (IRS standard)
 ✓ Mileage uses IRS standard rates for ${taxYear}
@@ -226,7 +280,9 @@ NET PROFIT:               $${pkg.scheduleC.netProfit.toFixed(2)}
 
 DATA QUALITY NOTES
 ------------------
-✓ Cash basis: ${pkg.metadata.basis}
+✓ Basis: ${BASIS_LABELS[pkg.metadata.basis]}${pkg.metadata.basis === 'accrual'
+    ? `\n✓ Receivables at period end: $${pkg.accrualSummary.receivablesTotal.toFixed(2)} (${pkg.receivableRows.length})\n✓ Payables at period end: $${pkg.accrualSummary.payablesTotal.toFixed(2)} (${pkg.payableRows.length})`
+    : ''}
 ✓ Currency: ${pkg.metadata.currency}
 ✓ Rounding: ${pkg.metadata.rounding.precision} decimal places
 ✓ Income transactions: ${pkg.incomeRows.length}
@@ -290,6 +346,23 @@ export async function generateTurboTaxOnlinePack(pkg: TaxExportPackage): Promise
   const mileageCsv = stringifyCsv(mileageRows);
   zip.file(`Mileage_${taxYear}.csv`, mileageCsv);
 
+  // Add Estimated Tax Payments CSV (1040 line 26 / state credits)
+  const estimatedPaymentRows = buildEstimatedTaxPaymentRows(pkg);
+  if (estimatedPaymentRows.length > 0) {
+    zip.file(`Estimated_Tax_Payments_${taxYear}.csv`, stringifyCsv(estimatedPaymentRows));
+  }
+
+  // Add Income Adjustments CSV (refunds, credit notes, bad-debt write-offs)
+  if (pkg.incomeAdjustmentRows.length > 0) {
+    zip.file(`Income_Adjustments_${taxYear}.csv`, stringifyCsv(buildIncomeAdjustmentRows(pkg)));
+  }
+
+  // Add Receivables / Payables CSVs (accrual basis)
+  if (pkg.metadata.basis === 'accrual') {
+    zip.file(`Receivables_${taxYear}.csv`, stringifyCsv(buildReceivableRows(pkg)));
+    zip.file(`Payables_${taxYear}.csv`, stringifyCsv(buildPayableRows(pkg)));
+  }
+
   // Add PDF Summary
   const pdfBytes = await generateScheduleCSummaryPdf({ pkg, appVersion: 'Bozzy v1.0' });
   zip.file(`PDF_Summary_${taxYear}.pdf`, pdfBytes);
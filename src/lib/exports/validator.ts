@@ -9,7 +9,7 @@ import type { TaxExportPackage } from './taxExportPackage';
 
 export type ValidationIssue = {
   type: 'error' | 'warning';
-  category: 'expense' | 'gig' | 'mileage';
+  category: 'expense' | 'gig' | 'mileage' | 'invoice' | 'subcontractor';
   id: string; // Record ID
   field: string;
   message: string;
@@ -272,6 +272,8 @@ export function validateTaxExportPackage(pkg: TaxExportPackage): ValidationResul
     }
   }
 
+  warnings.push(...findCrossYearItems(pkg));
+
   for (const trip of pkg.mileageRows) {
     if (trip.miles < 0) {
       errors.push({
@@ -336,6 +338,57 @@ export function validateTaxExportPackage(pkg: TaxExportPackage): ValidationResul
   };
 }
 
+/**
+ * Items whose income or cost falls in the export period but whose cash moves
+ * in another year (or the reverse). These are where cash and accrual totals
+ * differ, so they're worth a second look before filing.
+ */
+function findCrossYearItems(pkg: TaxExportPackage): ValidationIssue[] {
+  const { dateStart, dateEnd, basis } = pkg.metadata;
+  const issues: ValidationIssue[] = [];
+
+  for (const income of pkg.incomeRows) {
+    // Cash: payment received this period for an invoice issued before it
+    if (income.source === 'invoice_payment' && income.invoiceDate && income.invoiceDate < dateStart) {
+      issues.push({
+        type: 'warning',
+        category: 'invoice',
+        id: income.id,
+        field: 'invoiceDate',
+        message: `${income.description} was invoiced ${income.invoiceDate} but paid ${income.receivedDate}. On cash basis it counts in the year paid.`,
+      });
+    }
+  }
+
+  if (basis !== 'accrual') {
+    return issues;
+  }
+
+  for (const receivable of pkg.receivableRows) {
+    issues.push({
+      type: 'warning',
+      category: receivable.source === 'gig' ? 'gig' : 'invoice',
+      id: receivable.id,
+      field: 'paidDate',
+      message: receivable.paidDate
+        ? `${receivable.description} (${receivable.date}) was paid ${receivable.paidDate}, after ${dateEnd}. On accrual basis it counts in this period.`
+        : `${receivable.description} (${receivable.date}) was still unpaid at ${dateEnd}. On accrual basis it counts in this period.`,
+    });
+  }
+
+  for (const payable of pkg.payableRows) {
+    issues.push({
+      type: 'warning',
+      category: 'subcontractor',
+      id: payable.id,
+      field: 'paidDate',
+      message: `${payable.counterparty || 'Subcontractor'} payout for the ${payable.date} gig was paid ${payable.paidDate}, after ${dateEnd}.`,
+    });
+  }
+
+  return issues;
+}
+
 /**
  * Check if date string is valid YYYY-MM-DD format
  */
@@ -0,0 +1,233 @@
+/**
+ * Online invoice payments (card / ACH)
+ *
+ * Used by api/invoices/checkout.ts to open a checkout session for an invoice
+ * balance, and by api/stripe-webhook.ts to turn the completed session into an
+ * invoice_payments row. The payment provider is an interface so the flow can
+ * be exercised with a local mock; Stripe Checkout is the production provider.
+ *
+ * Charges are destination charges to the invoice owner's Stripe Connect
+ * account (stripe_connect_accounts), so the money settles to the musician
+ * rather than the platform account.
+ */
+
+import type Stripe from 'stripe';
+
+export const INVOICE_PAYMENT_METADATA_TYPE = 'invoice_payment';
+
+// Stripe's US bank account (ACH) method only settles USD
+const ACH_CURRENCIES = ['USD'];
+
+export class InvoiceCheckoutError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type OnlinePaymentMethod = 'card' | 'ach';
+
+export interface CheckoutInvoice {
+  id: string;
+  invoice_number: string;
+  client_email?: string | null;
+  status: string;
+  currency: string;
+  total_amount: number;
+  total_paid: number;
+  credited_amount?: number;
+  written_off_amount?: number;
+}
+
+export interface CheckoutSessionRequest {
+  amountCents: number;
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  paymentMethods: OnlinePaymentMethod[];
+  successUrl: string;
+  cancelUrl: string;
+  metadata: Record<string, string>;
+  // Invoice owner's Connect account; the charge settles there
+  destinationAccountId: string;
+}
+
+export interface CheckoutSessionResult {
+  id: string;
+  url: string;
+}
+
+export interface InvoicePaymentProvider {
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSessionResult>;
+}
+
+/** Fields of a completed checkout session the webhook needs */
+export interface CompletedCheckoutSession {
+  id: string;
+  amount_total: number | null;
+  payment_status: string;
+  payment_intent: string | null;
+  metadata: Record<string, string> | null;
+}
+
+export interface CheckoutPaymentInsert {
+  invoice_id: string;
+  amount: number;
+  payment_date: string;
+  payment_method: string;
+  reference_number: string;
+  notes: string;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100 + Number.EPSILON);
+}
+
+export function getCheckoutBalanceDue(
+  invoice: Pick<CheckoutInvoice, 'total_amount' | 'total_paid' | 'credited_amount' | 'written_off_amount'>
+): number {
+  const settledCents = toCents(invoice.total_paid)
+    + toCents(invoice.credited_amount ?? 0)
+    + toCents(invoice.written_off_amount ?? 0);
+  return Math.max(0, toCents(invoice.total_amount) - settledCents) / 100;
+}
+
+/**
+ * Amount to charge: the balance due, or a partial amount up to it
+ */
+export function resolveCheckoutAmount(invoice: CheckoutInvoice, requestedAmount?: number | null): number {
+  if (invoice.status === 'draft' || invoice.status === 'cancelled' || invoice.status === 'written_off') {
+    throw new InvoiceCheckoutError('This invoice is not open for payment', 409);
+  }
+
+  const balanceDue = getCheckoutBalanceDue(invoice);
+  if (balanceDue <= 0) {
+    throw new InvoiceCheckoutError('This invoice is already paid', 409);
+  }
+
+  if (requestedAmount === undefined || requestedAmount === null) {
+    return balanceDue;
+  }
+
+  if (!Number.isFinite(requestedAmount) || requestedAmount < 0.5) {
+    throw new InvoiceCheckoutError('Payment amount must be at least 0.50');
+  }
+
+  if (toCents(requestedAmount) > toCents(balanceDue)) {
+    throw new InvoiceCheckoutError('Payment amount cannot exceed the balance due');
+  }
+
+  return toCents(requestedAmount) / 100;
+}
+
+/**
+ * Open a checkout session for an invoice found by its public link
+ */
+export async function createInvoiceCheckout(
+  provider: InvoicePaymentProvider,
+  invoice: CheckoutInvoice,
+  options: { amount?: number | null; returnUrl: string; publicToken: string; connectedAccountId: string }
+): Promise<CheckoutSessionResult> {
+  const amount = resolveCheckoutAmount(invoice, options.amount);
+  const currency = invoice.currency || 'USD';
+  const separator = options.returnUrl.includes('?') ? '&' : '?';
+
+  return provider.createCheckoutSession({
+    amountCents: toCents(amount),
+    currency,
+    description: `Invoice ${invoice.invoice_number}`,
+    customerEmail: invoice.client_email || undefined,
+    paymentMethods: ACH_CURRENCIES.includes(currency.toUpperCase()) ? ['card', 'ach'] : ['card'],
+    successUrl: `${options.returnUrl}${separator}payment=success`,
+    cancelUrl: `${options.returnUrl}${separator}payment=canceled`,
+    metadata: {
+      type: INVOICE_PAYMENT_METADATA_TYPE,
+      invoice_id: invoice.id,
+      public_token: options.publicToken,
+    },
+    destinationAccountId: options.connectedAccountId,
+  });
+}
+
+export function isInvoiceCheckoutSession(session: Pick<CompletedCheckoutSession, 'metadata'>): boolean {
+  return session.metadata?.type === INVOICE_PAYMENT_METADATA_TYPE && !!session.metadata.invoice_id;
+}
+
+/**
+ * invoice_payments row for a paid checkout session, or null when nothing
+ * should be recorded yet (ACH still pending, or not an invoice session)
+ *
+ * The amount is capped at the balance due: the database rejects overpayments,
+ * so a payment that crosses a manually recorded one is noted for a refund.
+ */
+export function buildCheckoutPayment(
+  session: CompletedCheckoutSession,
+  method: OnlinePaymentMethod,
+  balanceDue: number,
+  paidOn: string
+): CheckoutPaymentInsert | null {
+  if (!isInvoiceCheckoutSession(session) || session.payment_status !== 'paid' || !session.amount_total) {
+    return null;
+  }
+
+  const paidCents = session.amount_total;
+  const recordedCents = Math.min(paidCents, toCents(balanceDue));
+  if (recordedCents <= 0) {
+    return null;
+  }
+
+  const methodNote = method === 'ach' ? 'Paid online by bank transfer (ACH)' : 'Paid online by card';
+  const overpaidNote = paidCents > recordedCents
+    ? ` — overpaid by ${((paidCents - recordedCents) / 100).toFixed(2)}, refund required`
+    : '';
+
+  return {
+    invoice_id: session.metadata!.invoice_id,
+    amount: recordedCents / 100,
+    payment_date: paidOn,
+    payment_method: method === 'ach' ? 'Bank Transfer' : 'Credit Card',
+    reference_number: session.payment_intent ?? session.id,
+    notes: `${methodNote}${overpaidNote}`,
+  };
+}
+
+/**
+ * Stripe Checkout implementation of the payment provider
+ */
+export function createStripeInvoicePaymentProvider(stripe: Stripe): InvoicePaymentProvider {
+  return {
+    async createCheckoutSession(request) {
+      const session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        payment_method_types: request.paymentMethods.map(method => (method === 'ach' ? 'us_bank_account' : 'card')),
+        customer_email: request.customerEmail,
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: request.currency.toLowerCase(),
+              unit_amount: request.amountCents,
+              product_data: { name: request.description },
+            },
+          },
+        ],
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        metadata: request.metadata,
+        payment_intent_data: {
+          metadata: request.metadata,
+          on_behalf_of: request.destinationAccountId,
+          transfer_data: { destination: request.destinationAccountId },
+        },
+      });
+
+      if (!session.url) {
+        throw new InvoiceCheckoutError('Checkout session has no URL', 502);
+      }
+
+      return { id: session.id, url: session.url };
+    },
+  };
+}
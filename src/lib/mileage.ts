@@ -1,12 +1,20 @@
 import { parseStoredDate } from './date';
 
+// Rate in effect at the end of each year; see MID_YEAR_MILEAGE_RATES for
+// years the IRS changed the rate partway through
 export const STANDARD_MILEAGE_RATES = {
+  2022: 0.625,
   2023: 0.655,
   2024: 0.67,
   2025: 0.70,
   2026: 0.725,
 } as const;
 
+// Rate for trips before the mid-year change (2022: 58.5¢ Jan–Jun, 62.5¢ Jul–Dec)
+export const MID_YEAR_MILEAGE_RATES: Record<number, { before: string; rate: number }> = {
+  2022: { before: '2022-07-01', rate: 0.585 },
+};
+
 export const MAX_REASONABLE_MILES_PER_TRIP = 10000;
 
 const MILEAGE_INPUT_PATTERN = /^\d+(\.\d{1,2})?$/;
@@ -26,7 +34,18 @@ export function getStandardMileageRate(taxYear?: number): number {
 }
 
 export function getMileageRateForDate(date?: string | Date | null): number {
-  return getStandardMileageRate(getMileageRateYearForDate(date));
+  const year = getMileageRateYearForDate(date);
+  const earlier = MID_YEAR_MILEAGE_RATES[year];
+  if (earlier && date) {
+    const parsed = typeof date === 'string' ? parseStoredDate(date) : date;
+    const isoDate = [
+      parsed.getFullYear(),
+      String(parsed.getMonth() + 1).padStart(2, '0'),
+      String(parsed.getDate()).padStart(2, '0'),
+    ].join('-');
+    if (isoDate < earlier.before) return earlier.rate;
+  }
+  return getStandardMileageRate(year);
 }
 
 export function getMileageRateYearForDate(date?: string | Date | null): number {
@@ -0,0 +1,141 @@
+import { addDays } from 'date-fns';
+import { fromUtcDateString, parseStoredDate, toUtcDateString } from './date';
+
+export interface MieLocality {
+  state: string;
+  cities: string[];
+  name: string;
+  rate: number;
+}
+
+interface MieRateTable {
+  standard: number;
+  localities: MieLocality[];
+}
+
+// GSA non-standard areas with a higher M&IE rate than the standard CONUS rate.
+// Each area is matched by state and its primary cities.
+const MIE_LOCALITIES_FY2025: MieLocality[] = [
+  { state: 'CA', cities: ['Los Angeles', 'Santa Monica', 'West Hollywood'], name: 'Los Angeles, CA', rate: 86 },
+  { state: 'CA', cities: ['San Francisco'], name: 'San Francisco, CA', rate: 92 },
+  { state: 'CO', cities: ['Denver', 'Aurora'], name: 'Denver / Aurora, CO', rate: 92 },
+  { state: 'DC', cities: ['Washington'], name: 'District of Columbia', rate: 92 },
+  { state: 'GA', cities: ['Atlanta'], name: 'Atlanta, GA', rate: 80 },
+  { state: 'IL', cities: ['Chicago'], name: 'Chicago, IL', rate: 92 },
+  { state: 'LA', cities: ['New Orleans'], name: 'New Orleans, LA', rate: 92 },
+  { state: 'MA', cities: ['Boston', 'Cambridge'], name: 'Boston / Cambridge, MA', rate: 92 },
+  { state: 'NY', cities: ['New York', 'New York City', 'Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'], name: 'New York City, NY', rate: 92 },
+  { state: 'TN', cities: ['Nashville'], name: 'Nashville, TN', rate: 92 },
+  { state: 'TX', cities: ['Austin'], name: 'Austin, TX', rate: 80 },
+  { state: 'WA', cities: ['Seattle'], name: 'Seattle, WA', rate: 92 },
+];
+
+/**
+ * GSA meals & incidental expenses (M&IE) rates by federal fiscal year, which
+ * runs October 1 – September 30. Update from gsa.gov/perdiem each October by
+ * adding the new year; dates past the last year use the latest table.
+ */
+export const GSA_MIE_RATES: Record<number, MieRateTable> = {
+  2025: { standard: 68, localities: MIE_LOCALITIES_FY2025 },
+  2026: { standard: 68, localities: MIE_LOCALITIES_FY2025 },
+};
+
+// The first and last day of a trip get 75% of the M&IE rate
+export const FIRST_LAST_DAY_PERCENT = 0.75;
+
+// Per diem meals are subject to the same 50% limit as actual meal costs
+export const PER_DIEM_MEALS_DEDUCTIBLE_PERCENT = 0.5;
+
+export interface MieRate {
+  fiscalYear: number;
+  locality: string | null; // Non-standard area name, null for the standard rate
+  rate: number;
+}
+
+export interface PerDiemStop {
+  date: string;
+  city: string | null;
+  state: string | null;
+}
+
+export interface PerDiemDay extends MieRate {
+  date: string;
+  city: string | null;
+  state: string | null;
+  percent: number;
+  allowance: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function normalizeCity(city: string): string {
+  return city.trim().toLowerCase().replace(/\./g, '').replace(/^saint\s/, 'st ');
+}
+
+function getSupportedFiscalYears(): number[] {
+  return Object.keys(GSA_MIE_RATES).map(Number).sort((a, b) => a - b);
+}
+
+/**
+ * Federal fiscal year for a date; October onward belongs to the next year
+ */
+export function getPerDiemFiscalYear(date: string): number {
+  const parsed = parseStoredDate(date);
+  return parsed.getMonth() >= 9 ? parsed.getFullYear() + 1 : parsed.getFullYear();
+}
+
+export function getMieRate(city: string | null, state: string | null, date: string): MieRate {
+  const years = getSupportedFiscalYears();
+  const requested = getPerDiemFiscalYear(date);
+  const fiscalYear = years.includes(requested)
+    ? requested
+    : requested < years[0] ? years[0] : years[years.length - 1];
+  const table = GSA_MIE_RATES[fiscalYear];
+
+  const stateCode = state?.trim().toUpperCase();
+  const cityKey = city ? normalizeCity(city) : null;
+  const locality = stateCode && cityKey
+    ? table.localities.find((l) => l.state === stateCode && l.cities.some((c) => normalizeCity(c) === cityKey))
+    : undefined;
+
+  return locality
+    ? { fiscalYear, locality: locality.name, rate: locality.rate }
+    : { fiscalYear, locality: null, rate: table.standard };
+}
+
+/**
+ * M&IE allowance for each day of an overnight trip
+ *
+ * Show days use the show's city. Travel days between shows use the next
+ * show's city, and days after the last show use the last show's city. The
+ * first and last day of the trip get 75% of the rate. A trip that starts and
+ * ends on the same day has no overnight stay and gets nothing.
+ */
+export function calculateTravelPerDiem(startDate: string, endDate: string, stops: PerDiemStop[]): PerDiemDay[] {
+  if (!(startDate < endDate) || stops.length === 0) return [];
+
+  const sortedStops = [...stops].sort((a, b) => a.date.localeCompare(b.date));
+  const days: PerDiemDay[] = [];
+
+  for (let day = fromUtcDateString(startDate); ; day = addDays(day, 1)) {
+    const date = toUtcDateString(day);
+    if (date > endDate) break;
+
+    const stop = sortedStops.find((s) => s.date >= date) ?? sortedStops[sortedStops.length - 1];
+    const rate = getMieRate(stop.city, stop.state, date);
+    const percent = date === startDate || date === endDate ? FIRST_LAST_DAY_PERCENT : 1;
+
+    days.push({
+      date,
+      city: stop.city,
+      state: stop.state,
+      ...rate,
+      percent,
+      allowance: roundCents(rate.rate * percent),
+    });
+  }
+
+  return days;
+}
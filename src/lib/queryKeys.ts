@@ -44,6 +44,11 @@ export const queryKeys = {
   
   // Tax profile
   taxProfile: (userId: string) => ['tax-profile', userId] as const,
+
+  // Estimated tax planner
+  estimatedTaxPlan: (userId: string, taxYear: number) => ['estimated-tax-plan', userId, taxYear] as const,
+  estimatedTaxPayments: (userId: string, taxYear: number) => ['estimated-tax-payments', userId, taxYear] as const,
+  estimatedTaxIncome: (userId: string, taxYear: number) => ['estimated-tax-income', userId, taxYear] as const,
   
   // Onboarding
   onboarding: (userId: string) => ['onboarding', userId] as const,
@@ -58,6 +63,11 @@ export const queryKeys = {
   // Invoices
   invoices: (userId: string) => ['invoices', userId] as const,
   invoice: (userId: string, invoiceId: string) => ['invoices', userId, invoiceId] as const,
+  recurringInvoices: (userId: string) => ['recurring-invoices', userId] as const,
+  invoiceTemplates: (userId: string) => ['invoice-templates', userId] as const,
+
+  // Exchange rates (multi-currency gigs, expenses and invoices)
+  exchangeRates: (userId: string) => ['exchange-rates', userId] as const,
   
   // Saved routes (for mileage)
   savedRoutes: (userId: string) => ['saved-routes', userId] as const,
@@ -87,6 +97,9 @@ export const queryKeys = {
 
   // Shared schedule links
   sharedSchedule: (userId: string) => ['sharedSchedule', userId] as const,
+
+  // Client portal links
+  clientPortalLinks: (userId: string) => ['client-portal-links', userId] as const,
 } as const;
 
 /**
@@ -102,10 +115,16 @@ export function invalidateUserQueries(queryClient: any, userId: string) {
     'expenses',
     'mileage',
     'recurring-expenses',
+    'recurring-invoices',
+    'client-portal-links',
+    'exchange-rates',
     'dashboard',
     'map-stats',
     'subscription',
     'tax-profile',
+    'estimated-tax-plan',
+    'estimated-tax-payments',
+    'estimated-tax-income',
     'onboarding',
     'exports',
     'tours',
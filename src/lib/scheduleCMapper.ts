@@ -4,6 +4,8 @@
  * Reference: https://www.irs.gov/forms-pubs/about-schedule-c-form-1040
  */
 
+import { getStandardMileageRate } from '../tax/service';
+
 export type ScheduleCLine = {
   lineNumber: string;
   lineName: string;
@@ -141,21 +143,10 @@ export function groupExpensesByScheduleC(
 }
 
 /**
- * IRS standard mileage rate (updated annually)
- */
-export const IRS_MILEAGE_RATE = {
-  2026: 0.725,
-  2025: 0.70,
-  2024: 0.67,
-  2023: 0.655,
-  2022: 0.625,
-};
-
-/**
- * Gets the IRS mileage rate for a given year
+ * Gets the IRS mileage rate for a given year (shared tax service rates)
  */
 export function getMileageRate(year: number): number {
-  return IRS_MILEAGE_RATE[year as keyof typeof IRS_MILEAGE_RATE] || IRS_MILEAGE_RATE[2026];
+  return getStandardMileageRate(year);
 }
 
 /**
@@ -1,20 +1,21 @@
 import { Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import { getEstimatedTaxPeriods } from '../tax/service';
+import type { Quarter } from '../tax/estimatedPayments';
 
 const NOTIFICATION_TITLE = 'Quarterly tax payment coming up';
 
 export interface QuarterDeadline {
-  quarter: number;
+  quarter: Quarter;
   date: Date;
 }
 
 export function getQuarterlyDeadlines(year: number): QuarterDeadline[] {
-  return [
-    { quarter: 1, date: new Date(year, 3, 15) },   // Apr 15
-    { quarter: 2, date: new Date(year, 5, 15) },   // Jun 15
-    { quarter: 3, date: new Date(year, 8, 15) },   // Sep 15
-    { quarter: 4, date: new Date(year + 1, 0, 15) }, // Jan 15 next year
-  ];
+  // Apr 15, Jun 15, Sep 15, Jan 15 next year
+  return getEstimatedTaxPeriods(year).map(({ quarter, dueDate }) => {
+    const [y, m, d] = dueDate.split('-').map(Number);
+    return { quarter, date: new Date(y, m - 1, d) };
+  });
 }
 
 /**
@@ -22,9 +23,12 @@ export function getQuarterlyDeadlines(year: number): QuarterDeadline[] {
  * tax deadline for the current year. Safe to call on app launch —
  * skips deadlines where a matching notification is already scheduled.
  * Never throws — all errors are silent and non-blocking.
+ *
+ * @param amounts - Amount due per quarter (from the estimated payment planner),
+ *   or one flat amount for every quarter. Quarters with nothing due are skipped.
  */
 export async function scheduleQuarterlyReminders(
-  estimatedQuarterlyAmount: number
+  amounts: number | Partial<Record<Quarter, number>>
 ): Promise<void> {
   if (Platform.OS === 'web') return;
 
@@ -47,7 +51,9 @@ export async function scheduleQuarterlyReminders(
 
       if (scheduledTitles.includes(NOTIFICATION_TITLE)) continue;
 
-      const amount = Math.round(estimatedQuarterlyAmount);
+      const amount = Math.round(typeof amounts === 'number' ? amounts : amounts[quarter] ?? 0);
+      if (amount <= 0) continue;
+
       await Notifications.scheduleNotificationAsync({
         content: {
           title: NOTIFICATION_TITLE,
@@ -36,6 +36,8 @@ export const gigSchema = z.object({
   per_diem: z.number().min(0, 'Must be 0 or greater').default(0),
   other_income: z.number().min(0, 'Must be 0 or greater').default(0),
   net_amount: z.number(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Use a 3-letter currency code').default('USD'), // amounts above are in USD
+  exchange_rate: z.number().positive('Exchange rate must be greater than 0').default(1), // USD per unit of currency
   payment_method: z.string().optional(),
   invoice_link: z.string().url('Must be a valid URL').optional().or(z.literal('')),
   paid: z.boolean().default(false),
@@ -57,6 +59,8 @@ export const expenseSchema = z.object({
   category: z.enum(UI_EXPENSE_CATEGORIES),
   description: z.string().min(1, 'Description is required'),
   amount: z.number().positive('Amount must be greater than 0'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Use a 3-letter currency code').default('USD'), // amount is in USD
+  exchange_rate: z.number().positive('Exchange rate must be greater than 0').default(1), // USD per unit of currency
   vendor: z.string().optional(),
   notes: z.string().optional(),
   gig_id: z.string().optional(),
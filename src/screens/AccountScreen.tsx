@@ -28,6 +28,7 @@ import { getStateName } from '../tax/engine';
 import { resolvePlaceDetails } from '../lib/placeDetails';
 import { ThemeToggleButton } from '../components/ThemeToggleButton';
 import { ShareScheduleSection } from '../components/settings/ShareScheduleSection';
+import { ExchangeRatesSection } from '../components/settings/ExchangeRatesSection';
 
 const ALL_PAYMENT_METHODS: { key: string; label: string }[] = [
   { key: 'venmo', label: 'Venmo' },
@@ -638,6 +639,8 @@ export function AccountScreen({
 
         <ShareScheduleSection />
 
+        <ExchangeRatesSection />
+
         <RNText style={styles.sectionLabel}>Security</RNText>
         <View style={styles.settingsCard}>
           <TouchableOpacity
@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
 import { BusinessStructureWizard } from '../components/BusinessStructureWizard';
+import { SCorpComparison } from '../components/SCorpComparison';
 import { useSubscription } from '../hooks/useSubscription';
 import { getResolvedPlan } from '../lib/businessStructure';
 
@@ -95,13 +96,15 @@ export function BusinessStructuresScreen({ onNavigateBack, onNavigateToSubscript
             • Self-employment tax does not apply the same way to S-Corp profits{'\n'}
             • Usually only worth it once your music profit is high enough (often around ~$60k+/year, depending on your situation){'\n'}
             • Requires running payroll and doing more advanced bookkeeping outside of Bozzy{'\n'}
-            • In Bozzy, S-Corp mode switches to "tax tracking only": we track income and expenses, but do not calculate self-employment tax estimates for you
+            • In Bozzy, S-Corp mode uses your reasonable salary and payroll schedule: we estimate employer and employee FICA, withholding on your paychecks, and tax on the profit you take as distributions
           </Text>
 
+          <SCorpComparison />
+
           {!isProPlan && (
             <View style={styles.upgradeBox}>
               <Text style={styles.upgradeText}>
-                🔓 LLC taxed as S-Corp is a Bozzy Pro feature. Upgrade to Pro to turn off self-employment tax estimates and track your S-Corp income more cleanly.
+                🔓 LLC taxed as S-Corp is a Bozzy Pro feature. Upgrade to Pro to swap self-employment tax for payroll estimates based on your salary.
               </Text>
               {onNavigateToSubscription && (
                 <TouchableOpacity style={styles.upgradeButton} onPress={onNavigateToSubscription}>
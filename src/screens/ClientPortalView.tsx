@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+  Linking,
+} from 'react-native';
+import {
+  ClientPortalPayload,
+  Invoice,
+  InvoiceSettings,
+  formatCurrency,
+  getStatusLabel,
+} from '../types/invoice';
+import { buildClientStatements } from '../utils/clientStatement';
+import { downloadInvoiceHTML } from '../utils/generateInvoicePDF';
+import { getBaseUrl } from '../lib/getBaseUrl';
+import { formatStoredDate } from '../lib/date';
+import { colors } from '../styles/theme';
+
+type PageStatus = 'loading' | 'success' | 'not-found' | 'expired' | 'error';
+
+type PortalInvoice = ClientPortalPayload['invoices'][number];
+
+export function ClientPortalView({ token }: { token: string }) {
+  const [data, setData] = useState<ClientPortalPayload | null>(null);
+  const [status, setStatus] = useState<PageStatus>('loading');
+
+  const fetchData = useCallback(async () => {
+    setStatus('loading');
+    try {
+      const res = await fetch(`${getBaseUrl()}/api/portal/${encodeURIComponent(token)}`);
+      if (res.status === 404) { setStatus('not-found'); return; }
+      if (res.status === 410) { setStatus('expired'); return; }
+      if (!res.ok) { setStatus('error'); return; }
+      setData(await res.json() as ClientPortalPayload);
+      setStatus('success');
+    } catch {
+      setStatus('error');
+    }
+  }, [token]);
+
+  useEffect(() => { void fetchData(); }, [fetchData]);
+
+  useEffect(() => {
+    if (Platform.OS === 'web' && data) {
+      document.title = `${data.settings.business_name} · Invoices`;
+    }
+  }, [data]);
+
+  const statements = useMemo(() => buildClientStatements(data?.invoices ?? []), [data]);
+
+  const handleDownload = (invoice: PortalInvoice) => {
+    if (!data) return;
+    downloadInvoiceHTML(invoice as Invoice, data.settings as InvoiceSettings);
+  };
+
+  const handleOpenInvoice = (invoice: PortalInvoice) => {
+    if (!invoice.public_token) return;
+    const url = `${getBaseUrl()}/invoices/${encodeURIComponent(invoice.id)}?token=${encodeURIComponent(invoice.public_token)}`;
+    if (Platform.OS === 'web') {
+      window.open(url, '_blank');
+    } else {
+      void Linking.openURL(url);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <View style={S.center}>
+        <ActivityIndicator color={colors.brand.DEFAULT} />
+      </View>
+    );
+  }
+
+  if (status !== 'success' || !data) {
+    const message = status === 'expired'
+      ? 'This portal link has expired. Ask for a new link to see your invoices.'
+      : status === 'not-found'
+        ? 'This portal link is invalid or has been revoked.'
+        : "We couldn't load your invoices. Please try again.";
+
+    return (
+      <View style={S.center}>
+        <Text style={S.errorTitle}>{status === 'expired' ? 'Link expired' : 'Portal unavailable'}</Text>
+        <Text style={S.errorText}>{message}</Text>
+        {status === 'error' ? (
+          <TouchableOpacity style={S.retryBtn} onPress={() => void fetchData()}>
+            <Text style={S.retryBtnText}>Try again</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={S.container} contentContainerStyle={S.content}>
+      <Text style={S.businessName}>{data.settings.business_name}</Text>
+      <Text style={S.title}>Invoices for {data.client_name}</Text>
+
+      <View style={S.summaryRow}>
+        {statements.length === 0 ? (
+          <View style={S.summaryCard}>
+            <Text style={S.summaryLabel}>BALANCE</Text>
+            <Text style={S.summaryValue}>{formatCurrency(0, data.settings.default_currency)}</Text>
+          </View>
+        ) : statements.map((statement) => (
+          <View key={statement.currency} style={S.summaryCard}>
+            <Text style={S.summaryLabel}>
+              {statement.balance < 0 ? 'CREDIT' : 'BALANCE DUE'}
+              {statements.length > 1 ? ` · ${statement.currency}` : ''}
+            </Text>
+            <Text style={S.summaryValue}>{formatCurrency(Math.abs(statement.balance), statement.currency)}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={S.sectionLabel}>INVOICES</Text>
+      <View style={S.card}>
+        {data.invoices.length === 0 ? (
+          <Text style={S.emptyText}>No invoices yet.</Text>
+        ) : data.invoices.map((invoice) => (
+          <View key={invoice.id} style={S.invoiceRow}>
+            <View style={S.invoiceInfo}>
+              <Text style={S.invoiceNumber}>{invoice.invoice_number}</Text>
+              <Text style={S.invoiceMeta}>
+                {formatStoredDate(invoice.invoice_date)} · Due {formatStoredDate(invoice.due_date)} · {getStatusLabel(invoice.status)}
+              </Text>
+            </View>
+            <View style={S.invoiceAmounts}>
+              <Text style={S.invoiceTotal}>{formatCurrency(invoice.total_amount, invoice.currency)}</Text>
+              {invoice.balance_due > 0 ? (
+                <Text style={S.invoiceBalance}>{formatCurrency(invoice.balance_due, invoice.currency)} due</Text>
+              ) : null}
+              <View style={S.invoiceActions}>
+                {Platform.OS === 'web' ? (
+                  <TouchableOpacity onPress={() => handleDownload(invoice)}>
+                    <Text style={S.linkText}>Download</Text>
+                  </TouchableOpacity>
+                ) : null}
+                {invoice.public_token ? (
+                  <TouchableOpacity onPress={() => handleOpenInvoice(invoice)}>
+                    <Text style={S.linkText}>{invoice.balance_due > 0 ? 'View & Pay' : 'View'}</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+            </View>
+          </View>
+        ))}
+      </View>
+
+      {statements.map((statement) => (
+        <View key={statement.currency}>
+          <Text style={S.sectionLabel}>
+            STATEMENT OF ACCOUNT{statements.length > 1 ? ` · ${statement.currency}` : ''}
+          </Text>
+          <View style={S.card}>
+            <View style={[S.statementRow, S.statementHeader]}>
+              <Text style={[S.statementHeaderText, S.dateCol]}>Date</Text>
+              <Text style={[S.statementHeaderText, S.descCol]}>Description</Text>
+              <Text style={[S.statementHeaderText, S.amountCol]}>Charges</Text>
+              <Text style={[S.statementHeaderText, S.amountCol]}>Credits</Text>
+              <Text style={[S.statementHeaderText, S.amountCol]}>Balance</Text>
+            </View>
+            {statement.entries.map((entry) => (
+              <View key={`${entry.type}:${entry.id}`} style={S.statementRow}>
+                <Text style={[S.statementText, S.dateCol]}>{formatStoredDate(entry.date)}</Text>
+                <Text style={[S.statementText, S.descCol]}>
+                  {entry.type === 'invoice' ? entry.description : `${entry.description} · ${entry.invoiceNumber}`}
+                </Text>
+                <Text style={[S.statementText, S.amountCol]}>
+                  {entry.charge ? formatCurrency(entry.charge, statement.currency) : ''}
+                </Text>
+                <Text style={[S.statementText, S.amountCol]}>
+                  {entry.credit ? formatCurrency(entry.credit, statement.currency) : ''}
+                </Text>
+                <Text style={[S.statementText, S.amountCol, S.balanceText]}>
+                  {formatCurrency(entry.balance, statement.currency)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <Text style={S.footerText}>
+        Questions about your account? Contact {data.settings.business_name}
+        {data.settings.email ? ` at ${data.settings.email}` : ''}.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const S = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface.canvas,
+  },
+  content: {
+    padding: 20,
+    maxWidth: 900,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    backgroundColor: colors.surface.canvas,
+  },
+  errorTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+    marginBottom: 10,
+  },
+  errorText: {
+    fontSize: 15,
+    color: colors.text.muted,
+    textAlign: 'center',
+  },
+  retryBtn: {
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.brand.DEFAULT,
+  },
+  retryBtnText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.brand.foreground,
+  },
+  businessName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 24,
+  },
+  summaryCard: {
+    flexGrow: 1,
+    minWidth: 180,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  summaryLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  summaryValue: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    letterSpacing: 0.6,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: colors.surface.DEFAULT,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    marginBottom: 24,
+    overflow: 'hidden',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.subtle,
+    padding: 16,
+  },
+  invoiceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+    gap: 12,
+  },
+  invoiceInfo: {
+    flex: 1,
+  },
+  invoiceNumber: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+    marginBottom: 4,
+  },
+  invoiceMeta: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  invoiceAmounts: {
+    alignItems: 'flex-end',
+  },
+  invoiceTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.DEFAULT,
+  },
+  invoiceBalance: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.danger.DEFAULT,
+    marginTop: 2,
+  },
+  invoiceActions: {
+    flexDirection: 'row',
+    gap: 14,
+    marginTop: 6,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.brand.DEFAULT,
+  },
+  statementHeader: {
+    backgroundColor: colors.surface.muted,
+  },
+  statementRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.muted,
+    gap: 8,
+  },
+  statementHeaderText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.subtle,
+    textTransform: 'uppercase',
+  },
+  statementText: {
+    fontSize: 13,
+    color: colors.text.DEFAULT,
+  },
+  balanceText: {
+    fontWeight: '600',
+  },
+  dateCol: {
+    width: 96,
+  },
+  descCol: {
+    flex: 1,
+  },
+  amountCol: {
+    width: 96,
+    textAlign: 'right',
+  },
+  footerText: {
+    fontSize: 13,
+    color: colors.text.subtle,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+});
@@ -23,6 +23,7 @@ import { DashboardThemeOverride } from '../contexts/ThemeContext';
 import { PayerFilter } from '../components/PayerFilter';
 import { usePayers } from '../hooks/usePayers';
 import { useAllocationBuckets } from '../hooks/useAllocationBuckets';
+import { usePostDueRecurringExpenses } from '../hooks/useRecurringExpenses';
 import { Toast } from '../components/Toast';
 import { TaxProfileBanner } from '../components/TaxProfileBanner';
 import { RangePopover } from '../components/RangePopover';
@@ -59,6 +60,9 @@ export function DashboardScreen({ onNavigateToBusinessStructures, onNavigateToMF
     perf.mark('dashboard-mounted');
   }, []);
 
+  // Post recurring expenses that came due since the app was last opened
+  usePostDueRecurringExpenses();
+
   // Simple check: if we have profile, render dashboard
   // Don't wait for loading states - just render with what we have
 
@@ -19,6 +19,8 @@ import { OnboardingHelperCard } from '../components/OnboardingHelperCard';
 import {
   useActiveRecurringExpenses,
   useQuickAddExpense,
+  useRecurringExpenseDrafts,
+  useReviewRecurringExpenseDraft,
   type RecurringExpense,
 } from '../hooks/useRecurringExpenses';
 import { useEntitlements } from '../hooks/useEntitlements';
@@ -92,8 +94,12 @@ export function ExpensesScreen({ onNavigateToSubscription }: ExpensesScreenProps
       : undefined
   );
   const { data: activeRecurring } = useActiveRecurringExpenses();
+  // Draft and automatic rules are posted on their due dates
+  const quickAddRules = activeRecurring?.filter((recurring) => recurring.post_mode === 'manual');
   const deleteExpense = useDeleteExpense();
   const quickAdd = useQuickAddExpense();
+  const { data: recurringDrafts } = useRecurringExpenseDrafts();
+  const reviewDraft = useReviewRecurringExpenseDraft();
 
   const entitlements = useEntitlements();
   const expenseCount = entitlements.usage.expensesCount;
@@ -171,6 +177,19 @@ export function ExpensesScreen({ onNavigateToSubscription }: ExpensesScreenProps
     }
   };
 
+  const handleReviewDraft = async (expenseId: string, action: 'post' | 'discard') => {
+    try {
+      await reviewDraft.mutateAsync({ expenseId, action });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update draft';
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${message}`);
+      } else {
+        Alert.alert('Error', message);
+      }
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const [year, month, day] = dateString.split('-').map(Number);
     const date = new Date(year, month - 1, day);
@@ -349,11 +368,11 @@ export function ExpensesScreen({ onNavigateToSubscription }: ExpensesScreenProps
             ListHeaderComponent={
               <>
                 {/* Quick Add strip */}
-                {activeRecurring && activeRecurring.length > 0 && (
+                {quickAddRules && quickAddRules.length > 0 && (
                   <View style={styles.quickAddStrip}>
                     <RNText style={styles.quickAddLabel}>QUICK ADD</RNText>
                     <View style={styles.quickAddChips}>
-                      {activeRecurring.map((recurring) => (
+                      {quickAddRules.map((recurring) => (
                         <TouchableOpacity
                           key={recurring.id}
                           style={styles.quickAddChip}
@@ -370,6 +389,36 @@ export function ExpensesScreen({ onNavigateToSubscription }: ExpensesScreenProps
                   </View>
                 )}
 
+                {/* Auto-posted recurring drafts */}
+                {recurringDrafts && recurringDrafts.length > 0 && (
+                  <View style={styles.quickAddStrip}>
+                    <RNText style={styles.quickAddLabel}>RECURRING DRAFTS TO REVIEW</RNText>
+                    <View style={styles.quickAddChips}>
+                      {recurringDrafts.map((draft) => (
+                        <View key={draft.id} style={styles.quickAddChip}>
+                          <RNText style={styles.quickAddChipRecurIcon}>🔄</RNText>
+                          <RNText style={styles.quickAddChipName} numberOfLines={1}>
+                            {draft.description} · {formatDate(draft.date)}
+                          </RNText>
+                          <RNText style={styles.quickAddChipAmount}>{formatCurrency(draft.amount)}</RNText>
+                          <TouchableOpacity
+                            onPress={() => handleReviewDraft(draft.id, 'post')}
+                            disabled={reviewDraft.isPending}
+                          >
+                            <RNText style={styles.footerActionBlue}>Post</RNText>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            onPress={() => handleReviewDraft(draft.id, 'discard')}
+                            disabled={reviewDraft.isPending}
+                          >
+                            <RNText style={styles.footerActionRed}>Discard</RNText>
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
                 {/* Edu card */}
                 <DeductionInfoCard />
               </>
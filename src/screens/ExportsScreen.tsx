@@ -27,6 +27,7 @@ import { TaxExportError } from '../lib/exports/buildTaxExportPackage';
 import { type DateRange, dateRangeToStrings } from '../lib/dateRangeUtils';
 import { StatsSummaryBar } from '../components/ui/StatsSummaryBar';
 import { getQuarterlyDeadlines } from '../lib/scheduleQuarterlyReminders';
+import { EstimatedTaxPlanner } from '../components/EstimatedTaxPlanner';
 import { formatCurrency } from '../utils/format';
 
 interface ExportsScreenProps {
@@ -74,6 +75,8 @@ export function ExportsScreen({ dateRange, customStart, customEnd }: ExportsScre
   }, [dateRange, customStart, customEnd]);
   const [includeTips, setIncludeTips] = useState(true);
   const [includeFees, setIncludeFees] = useState(true);
+  const [accrualBasis, setAccrualBasis] = useState(false);
+  const [includePerDiem, setIncludePerDiem] = useState(false);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [showValidationDetails, setShowValidationDetails] = useState(false);
   const [showTXFInfo, setShowTXFInfo] = useState(false);
@@ -98,6 +101,8 @@ export function ExportsScreen({ dateRange, customStart, customEnd }: ExportsScre
     timezone: 'America/New_York',
     includeTips,
     includeFees,
+    basis: accrualBasis ? 'accrual' : 'cash',
+    includePerDiem,
     dateStart: customDateRange ? startDate : undefined,
     dateEnd: customDateRange ? endDate : undefined,
     enabled: !!resolvedCurrentUserId,
@@ -542,6 +547,20 @@ export function ExportsScreen({ dateRange, customStart, customEnd }: ExportsScre
             <View style={[styles.toggleThumb, includeFees ? styles.toggleThumbOn : styles.toggleThumbOff]} />
           </View>
         </TouchableOpacity>
+        {/* Toggle: Accrual Basis */}
+        <TouchableOpacity style={[styles.toggleRow, styles.toggleRowBorder]} onPress={() => setAccrualBasis(!accrualBasis)} activeOpacity={0.8}>
+          <Text style={styles.toggleLabel}>Accrual Basis (income on gig/invoice date)</Text>
+          <View style={[styles.toggleTrack, accrualBasis ? styles.toggleTrackOn : styles.toggleTrackOff]}>
+            <View style={[styles.toggleThumb, accrualBasis ? styles.toggleThumbOn : styles.toggleThumbOff]} />
+          </View>
+        </TouchableOpacity>
+        {/* Toggle: Per Diem */}
+        <TouchableOpacity style={[styles.toggleRow, styles.toggleRowBorder]} onPress={() => setIncludePerDiem(!includePerDiem)} activeOpacity={0.8}>
+          <Text style={styles.toggleLabel}>Per Diem for Tour Travel Days (GSA M&IE)</Text>
+          <View style={[styles.toggleTrack, includePerDiem ? styles.toggleTrackOn : styles.toggleTrackOff]}>
+            <View style={[styles.toggleThumb, includePerDiem ? styles.toggleThumbOn : styles.toggleThumbOff]} />
+          </View>
+        </TouchableOpacity>
       </View>
 
       {/* ── Schedule C Totals (live with toggles) ────── */}
@@ -565,8 +584,24 @@ export function ExportsScreen({ dateRange, customStart, customEnd }: ExportsScre
             {taxPackage.data ? formatCurrency(taxPackage.data.scheduleC.netProfit, true) : '—'}
           </Text>
         </View>
+        {accrualBasis && taxPackage.data && (
+          <>
+            <View style={[styles.totalsRow, styles.totalsRowBorder]}>
+              <Text style={styles.totalsLabel}>Receivables at Period End</Text>
+              <Text style={styles.totalsValue}>
+                {formatCurrency(taxPackage.data.accrualSummary.receivablesTotal, true)}
+              </Text>
+            </View>
+            <View style={[styles.totalsRow, styles.totalsRowBorder]}>
+              <Text style={styles.totalsLabel}>Payables at Period End</Text>
+              <Text style={styles.totalsValue}>
+                {formatCurrency(taxPackage.data.accrualSummary.payablesTotal, true)}
+              </Text>
+            </View>
+          </>
+        )}
         <Text style={styles.totalsDisclaimer}>
-          Reflects the Include Tips / Include Fees settings above. Estimates only — verify with your tax professional.
+          Reflects the Include Tips / Include Fees / Accrual Basis settings above. Estimates only — verify with your tax professional.
         </Text>
       </View>
 
@@ -596,6 +631,10 @@ export function ExportsScreen({ dateRange, customStart, customEnd }: ExportsScre
         </Text>
       </View>
 
+      {/* ── Estimated Payment Planner ────────────────── */}
+      <Text style={styles.sectionLabel}>ESTIMATED PAYMENT PLANNER</Text>
+      <EstimatedTaxPlanner taxYear={taxYear} />
+
       {/* ── Tax Software ────────────────────────────── */}
       <Text style={styles.sectionLabel}>TAX SOFTWARE</Text>
       <View style={styles.exportGroupCard}>
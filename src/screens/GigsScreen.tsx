@@ -16,6 +16,7 @@ import { useTours, useRemoveGigFromTour } from '../hooks/useTours';
 import { AddGigModal } from '../components/AddGigModal';
 import { CreateTourModal } from '../components/tours/CreateTourModal';
 import { AssignGigsToTourModal } from '../components/tours/AssignGigsToTourModal';
+import { BillGigsModal } from '../components/BillGigsModal';
 import { CSVImportWizard } from '../components/csv/CSVImportWizard';
 import { PaywallModal } from '../components/PaywallModal';
 import { UsageLimitBanner } from '../components/UsageLimitBanner';
@@ -35,7 +36,7 @@ import { addGigToCalendar } from '../utils/nativeCalendar';
 import { useDateRange } from '../hooks/useDateRange';
 import { DateRangeFilter } from '../components/DateRangeFilter';
 import { StatsSummaryBar } from '../components/ui/StatsSummaryBar';
-import { sumMileageDeduction } from '../lib/mileage';
+import { sumMileageDeduction } from '../tax/service';
 import { MapCard } from '../components/dashboard/maps/MapCard';
 import { AllocationCard } from '../components/AllocationCard';
 import { useAllocationTransactions } from '../hooks/useAllocationTransactions';
@@ -114,7 +115,7 @@ function GigCard({
   const expensesForTax = cashDeductions + mileageDeductionAmount;
   const netBeforeTax = gross - expensesForTax;
 
-  const { taxResult } = useGigTaxCalculation(gross, expensesForTax);
+  const { taxResult } = useGigTaxCalculation(gross, expensesForTax, item.date);
   const taxToSetAside = taxResult?.setAside || 0;
   const takeHome = gross - cashDeductions - taxToSetAside;
 
@@ -397,6 +398,7 @@ export function GigsScreen({ onNavigateToSubscription, onNavigateToBucketSetup,
   // Selection mode state
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedGigIds, setSelectedGigIds] = useState<string[]>([]);
+  const [billGigsModalVisible, setBillGigsModalVisible] = useState(false);
   
   // Date range state - managed independently per page
   const { range: dateRange, customStart, customEnd, setRange, setCustomRange } = useDateRange();
@@ -533,6 +535,11 @@ export function GigsScreen({ onNavigateToSubscription, onNavigateToBucketSetup,
     setAssignToTourModalVisible(true);
   };
 
+  const handleBillGigs = () => {
+    if (selectedGigIds.length === 0) return;
+    setBillGigsModalVisible(true);
+  };
+
   const handleRemoveFromTour = async () => {
     if (selectedGigIds.length === 0) return;
 
@@ -751,15 +758,24 @@ export function GigsScreen({ onNavigateToSubscription, onNavigateToBucketSetup,
           <NativeText style={styles.selectCount}>
             {selectedGigIds.length} gig{selectedGigIds.length !== 1 ? 's' : ''} selected
           </NativeText>
-          <TouchableOpacity
-            style={[styles.assignBtn, selectedGigIds.length > 0 && styles.assignBtnEnabled]}
-            onPress={handleAddToTour}
-            disabled={selectedGigIds.length === 0}
-          >
-            <NativeText style={styles.assignBtnText}>
-              {selectedGigIds.length > 0 ? `Add ${selectedGigIds.length} to Tour →` : 'Add to Tour'}
-            </NativeText>
-          </TouchableOpacity>
+          <View style={styles.selectActions}>
+            <TouchableOpacity
+              style={[styles.assignBtn, selectedGigIds.length > 0 && styles.assignBtnEnabled]}
+              onPress={handleBillGigs}
+              disabled={selectedGigIds.length === 0}
+            >
+              <NativeText style={styles.assignBtnText}>Bill →</NativeText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.assignBtn, selectedGigIds.length > 0 && styles.assignBtnEnabled]}
+              onPress={handleAddToTour}
+              disabled={selectedGigIds.length === 0}
+            >
+              <NativeText style={styles.assignBtnText}>
+                {selectedGigIds.length > 0 ? `Add ${selectedGigIds.length} to Tour →` : 'Add to Tour'}
+              </NativeText>
+            </TouchableOpacity>
+          </View>
         </View>
       ) : (
         <View style={styles.filterRow}>
@@ -975,6 +991,17 @@ export function GigsScreen({ onNavigateToSubscription, onNavigateToBucketSetup,
         }}
       />
 
+      {/* Bill Gigs Modal */}
+      <BillGigsModal
+        visible={billGigsModalVisible}
+        gigs={(filteredGigs ?? []).filter(gig => selectedGigIds.includes(gig.id))}
+        onClose={() => setBillGigsModalVisible(false)}
+        onCreated={() => {
+          setIsSelectionMode(false);
+          setSelectedGigIds([]);
+        }}
+      />
+
       {allocationCardGig && (
         <AllocationCard
           visible={showAllocationCard}
@@ -1205,6 +1232,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: T.textPrimary,
   },
+  selectActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   assignBtn: {
     paddingHorizontal: 14,
     paddingVertical: 8,
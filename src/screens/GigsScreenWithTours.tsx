@@ -25,7 +25,7 @@ import { H1, H3, Text, Button, Card, Badge, EmptyState } from '../ui';
 import { colors, spacing, radius, typography } from '../styles/theme';
 import { formatCurrency as formatCurrencyUtil, formatDate as formatDateUtil } from '../utils/format';
 import { getGigDisplayName } from '../lib/gigDisplayName';
-import { sumMileageDeduction } from '../lib/mileage';
+import { sumMileageDeduction } from '../tax/service';
 
 // Gig card with tour badge
 function GigCard({ 
@@ -69,7 +69,7 @@ function GigCard({
   const cashDeductions = cashExpenses + subcontractorPaymentsTotal;
   const expensesForTax = cashDeductions + mileageDeductionAmount;
 
-  const { taxResult } = useGigTaxCalculation(gross, expensesForTax);
+  const { taxResult } = useGigTaxCalculation(gross, expensesForTax, item.date);
   const taxToSetAside = taxResult?.setAside || 0;
   const isNoSeTaxMode = taxResult?.mode === 'no_se_tax';
 
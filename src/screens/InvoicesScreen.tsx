@@ -5,14 +5,19 @@ import { InvoiceForm } from '../components/InvoiceForm';
 import { InvoiceTemplate } from '../components/InvoiceTemplate';
 import { InvoiceSettings } from '../components/InvoiceSettings';
 import { RecordPaymentModal } from '../components/RecordPaymentModal';
+import { InvoiceAdjustmentModal, type InvoiceAdjustmentMode } from '../components/InvoiceAdjustmentModal';
 import { SendInvoiceModal } from '../components/SendInvoiceModal';
+import { InvoiceReminderHistory } from '../components/InvoiceReminderHistory';
+import { RecurringInvoiceList } from '../components/RecurringInvoiceList';
+import { RecurringInvoiceModal } from '../components/RecurringInvoiceModal';
+import { InvoiceAgingReport } from '../components/InvoiceAgingReport';
 import { PaywallModal } from '../components/PaywallModal';
 import { UsageLimitBanner } from '../components/UsageLimitBanner';
 import { StatsSummaryBar } from '../components/ui/StatsSummaryBar';
 import { useInvoices } from '../hooks/useInvoices';
 import { useEntitlements } from '../hooks/useEntitlements';
 import { usePayers } from '../hooks/usePayers';
-import { Invoice } from '../types/invoice';
+import { Invoice, RecurringInvoice, formatCurrency } from '../types/invoice';
 import { downloadInvoiceHTML, printInvoice } from '../utils/generateInvoicePDF';
 import { formatCurrency as formatCurrencyUtil } from '../utils/format';
 import { dateRangeToStrings } from '../lib/dateRangeUtils';
@@ -23,8 +28,12 @@ import { useInvoiceSettings } from '../hooks/useInvoiceSettings';
 import { usePaymentMethodDetails } from '../hooks/usePaymentMethodDetails';
 import { useUserId } from '../hooks/useCurrentUser';
 import { colors } from '../styles/theme';
+import { getTodayDateString, parseStoredDate } from '../lib/date';
+import type { AgingInvoiceLine } from '../utils/invoiceAging';
+import { formatMissingRateNote, sumInvoiceHomeAmounts } from '../utils/exchangeRates';
+import { getInvoiceAmountOwed } from '../utils/invoiceCalculations';
 
-type ViewMode = 'list' | 'create' | 'edit' | 'view' | 'settings';
+type ViewMode = 'list' | 'create' | 'edit' | 'view' | 'settings' | 'recurring' | 'aging';
 
 interface InvoicesScreenProps {
   onNavigateToAccount?: () => void;
@@ -61,6 +70,10 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
     error: invoicesError,
     deleteInvoice,
     deletePayment,
+    deleteCreditNote,
+    writeOffInvoice,
+    reverseWriteOff,
+    applyLateFee,
     refetch: refetchInvoices,
   } = useInvoices(
     queryDateRange
@@ -78,9 +91,12 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
   const [duplicatingInvoice, setDuplicatingInvoice] = useState<Invoice | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [adjustmentMode, setAdjustmentMode] = useState<InvoiceAdjustmentMode | null>(null);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showPaywallModal, setShowPaywallModal] = useState(false);
   const [paywallReason, setPaywallReason] = useState<'invoice_limit' | 'export_limit'>('invoice_limit');
+  const [recurringSource, setRecurringSource] = useState<Invoice | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<RecurringInvoice | null>(null);
 
   const selectedInvoice = useMemo(
     () => invoices.find((invoice) => invoice.id === selectedInvoiceId) ?? null,
@@ -92,30 +108,28 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
       return null;
     }
 
-    const unpaidInvoices = invoices.filter((invoice) => !['paid', 'cancelled'].includes(invoice.status));
-    const totalOutstanding = unpaidInvoices.reduce(
-      (sum, invoice) => sum + (invoice.balance_due ?? invoice.total_amount),
-      0
-    );
+    const unpaidInvoices = invoices.filter((invoice) => !['paid', 'cancelled', 'written_off'].includes(invoice.status));
+    const outstanding = sumInvoiceHomeAmounts(unpaidInvoices, (invoice) => invoice.balance_due ?? invoice.total_amount);
 
     const overdueInvoices = invoices.filter((invoice) => invoice.status === 'overdue');
-    const overdueAmount = overdueInvoices.reduce(
-      (sum, invoice) => sum + (invoice.balance_due ?? invoice.total_amount),
-      0
-    );
+    const overdue = sumInvoiceHomeAmounts(overdueInvoices, (invoice) => invoice.balance_due ?? invoice.total_amount);
 
     const thisMonth = new Date();
     thisMonth.setDate(1);
     thisMonth.setHours(0, 0, 0, 0);
 
-    const totalPaidThisMonth = invoices
-      .filter((invoice) => invoice.status === 'paid' && invoice.paid_at && new Date(invoice.paid_at) >= thisMonth)
-      .reduce((sum, invoice) => sum + invoice.total_amount, 0);
+    const paidThisMonth = sumInvoiceHomeAmounts(
+      invoices.filter((invoice) => invoice.status === 'paid' && invoice.paid_at && new Date(invoice.paid_at) >= thisMonth),
+      (invoice) => invoice.total_amount
+    );
 
+    // Non-USD invoices without a rate are left out of the USD totals
     return {
-      totalOutstanding,
-      overdueAmount,
-      totalPaidThisMonth,
+      totalOutstanding: outstanding.total,
+      overdueAmount: overdue.total,
+      totalPaidThisMonth: paidThisMonth.total,
+      outstandingNote: formatMissingRateNote(outstanding.missingRate),
+      paidThisMonthNote: formatMissingRateNote(paidThisMonth.missingRate),
     };
   }, [invoices, invoicesLoading]);
 
@@ -142,6 +156,15 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
     setViewMode('view');
   };
 
+  const handleSelectAgingInvoice = (line: AgingInvoiceLine) => {
+    // Aging covers every open invoice; widen the list filter if this one is outside it
+    if (!invoices.some((invoice) => invoice.id === line.id)) {
+      setCustomRange(parseStoredDate(line.invoice_date), new Date());
+    }
+    setSelectedInvoiceId(line.id);
+    setViewMode('view');
+  };
+
   const handleCreateNew = async () => {
     try {
       if (!settings) {
@@ -267,6 +290,81 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
     }
   };
 
+  const handleDeleteCreditNote = async (creditNoteId: string) => {
+    try {
+      await deleteCreditNote(creditNoteId);
+      showAlert('Success', 'Credit note deleted. Invoice balance updated.');
+    } catch (error: unknown) {
+      showAlert('Error', getErrorMessage(error, 'Failed to delete credit note'));
+    }
+  };
+
+  const handleWriteOff = async () => {
+    if (!selectedInvoice) {
+      return;
+    }
+
+    const balanceDue = selectedInvoice.balance_due ?? selectedInvoice.total_amount;
+    const confirmed = await confirmDialog(
+      'Write Off Invoice',
+      `Write off the ${formatCurrency(balanceDue, selectedInvoice.currency)} balance on ${selectedInvoice.invoice_number} as a bad debt? Reminders will stop and the invoice will no longer count as outstanding.`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await writeOffInvoice(selectedInvoice.id, { date: getTodayDateString() });
+      showAlert('Invoice written off', 'The balance has been recorded as a bad debt.');
+    } catch (error: unknown) {
+      showAlert('Error', getErrorMessage(error, 'Failed to write off invoice'));
+    }
+  };
+
+  const handleApplyLateFee = async () => {
+    if (!selectedInvoice) {
+      return;
+    }
+
+    const { lateFee, daysLate } = getInvoiceAmountOwed(selectedInvoice, getTodayDateString());
+    const confirmed = await confirmDialog(
+      'Apply Late Fee',
+      `Add a ${formatCurrency(lateFee, selectedInvoice.currency)} late fee to ${selectedInvoice.invoice_number}? It is ${daysLate} day${daysLate === 1 ? '' : 's'} past due. The fee is added as a line item and the client will see it on the invoice.`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await applyLateFee(selectedInvoice.id);
+    } catch (error: unknown) {
+      showAlert('Error', getErrorMessage(error, 'Failed to apply late fee'));
+    }
+  };
+
+  const handleReverseWriteOff = async () => {
+    if (!selectedInvoice) {
+      return;
+    }
+
+    const confirmed = await confirmDialog(
+      'Undo Write-off',
+      `Reopen ${selectedInvoice.invoice_number} with its balance due?`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await reverseWriteOff(selectedInvoice.id);
+    } catch (error: unknown) {
+      showAlert('Error', getErrorMessage(error, 'Failed to reverse write-off'));
+    }
+  };
+
   if (settingsLoading) {
     return (
       <View style={styles.centerContainer}>
@@ -301,11 +399,13 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
                 label: 'OUTSTANDING',
                 value: invoiceMetrics ? formatSummaryCurrency(invoiceMetrics.totalOutstanding) : '...',
                 valueColor: invoiceMetrics && invoiceMetrics.totalOutstanding > 0 ? T.amber : undefined,
+                subtitle: invoiceMetrics?.outstandingNote,
               },
               {
                 label: 'PAID THIS MONTH',
                 value: invoiceMetrics ? formatSummaryCurrency(invoiceMetrics.totalPaidThisMonth) : '...',
                 valueColor: invoiceMetrics && invoiceMetrics.totalPaidThisMonth > 0 ? T.green : undefined,
+                subtitle: invoiceMetrics?.paidThisMonthNote,
               },
             ]}
           />
@@ -320,6 +420,12 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
                 customEnd={customEnd}
                 onCustomRangeChange={setCustomRange}
               />
+              <TouchableOpacity style={styles.btnGhost} onPress={() => setViewMode('aging')}>
+                <Text style={styles.btnGhostText}>Aging</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.btnGhost} onPress={() => setViewMode('recurring')}>
+                <Text style={styles.btnGhostText}>Recurring</Text>
+              </TouchableOpacity>
               <TouchableOpacity style={styles.btnGhost} onPress={() => setViewMode('settings')}>
                 <Text style={styles.btnGhostText}>Settings</Text>
               </TouchableOpacity>
@@ -433,12 +539,43 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
               <Text style={styles.actionButtonText}>Print</Text>
             </TouchableOpacity>
 
-            {selectedInvoice.status !== 'paid' && selectedInvoice.status !== 'cancelled' ? (
+            {!['paid', 'cancelled', 'written_off'].includes(selectedInvoice.status) ? (
               <TouchableOpacity style={styles.actionButton} onPress={() => setShowPaymentModal(true)}>
                 <Text style={styles.actionButtonText}>Record Payment</Text>
               </TouchableOpacity>
             ) : null}
 
+            {!['draft', 'cancelled'].includes(selectedInvoice.status) ? (
+              <TouchableOpacity style={styles.actionButton} onPress={() => setAdjustmentMode('credit_note')}>
+                <Text style={styles.actionButtonText}>Issue Credit</Text>
+              </TouchableOpacity>
+            ) : null}
+
+            {(selectedInvoice.total_paid ?? 0) > 0 ? (
+              <TouchableOpacity style={styles.actionButton} onPress={() => setAdjustmentMode('refund')}>
+                <Text style={styles.actionButtonText}>Refund</Text>
+              </TouchableOpacity>
+            ) : null}
+
+            {!['draft', 'cancelled', 'written_off'].includes(selectedInvoice.status)
+              && (selectedInvoice.balance_due ?? 0) > 0 ? (
+              <TouchableOpacity style={styles.actionButton} onPress={handleWriteOff}>
+                <Text style={styles.actionButtonText}>Write Off</Text>
+              </TouchableOpacity>
+            ) : null}
+
+            {getInvoiceAmountOwed(selectedInvoice, getTodayDateString()).lateFee > 0 ? (
+              <TouchableOpacity style={styles.actionButton} onPress={handleApplyLateFee}>
+                <Text style={styles.actionButtonText}>Apply Late Fee</Text>
+              </TouchableOpacity>
+            ) : null}
+
+            {(selectedInvoice.written_off_amount ?? 0) > 0 ? (
+              <TouchableOpacity style={styles.actionButton} onPress={handleReverseWriteOff}>
+                <Text style={styles.actionButtonText}>Undo Write-off</Text>
+              </TouchableOpacity>
+            ) : null}
+
             {selectedInvoice.status === 'draft' ? (
               <TouchableOpacity style={styles.actionButton} onPress={() => setViewMode('edit')}>
                 <Text style={styles.actionButtonText}>Edit</Text>
@@ -455,17 +592,63 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
               <Text style={styles.actionButtonText}>Repeat</Text>
             </TouchableOpacity>
 
+            {!selectedInvoice.recurring_invoice_id ? (
+              <TouchableOpacity style={styles.actionButton} onPress={() => setRecurringSource(selectedInvoice)}>
+                <Text style={styles.actionButtonText}>Make Recurring</Text>
+              </TouchableOpacity>
+            ) : null}
+
             <TouchableOpacity style={[styles.actionButton, styles.deleteButton]} onPress={handleDelete}>
               <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Delete</Text>
             </TouchableOpacity>
           </View>
 
+          <InvoiceReminderHistory invoice={selectedInvoice} settings={settings} />
+
           <View style={styles.detailContent}>
             <InvoiceTemplate
               invoice={selectedInvoice}
               settings={settings}
               paymentMethodDetails={paymentMethods}
               onDeletePayment={handleDeletePayment}
+              onDeleteCreditNote={handleDeleteCreditNote}
+            />
+          </View>
+        </>
+      )}
+
+      {viewMode === 'recurring' && (
+        <>
+          <View style={styles.detailHeader}>
+            <TouchableOpacity onPress={() => setViewMode('list')}>
+              <Text style={styles.backButton}>← Back</Text>
+            </TouchableOpacity>
+            <Text style={styles.detailTitle}>Recurring Invoices</Text>
+            <View style={styles.detailSpacer} />
+          </View>
+          <View style={styles.detailContent}>
+            <RecurringInvoiceList onEdit={setEditingSchedule} />
+          </View>
+        </>
+      )}
+
+      {viewMode === 'aging' && (
+        <>
+          <View style={styles.detailHeader}>
+            <TouchableOpacity onPress={() => setViewMode('list')}>
+              <Text style={styles.backButton}>← Back</Text>
+            </TouchableOpacity>
+            <Text style={styles.detailTitle}>A/R Aging</Text>
+            <View style={styles.detailSpacer} />
+          </View>
+          <View style={styles.detailContent}>
+            <InvoiceAgingReport
+              canExport={entitlements.can.exportData}
+              onExportBlocked={() => {
+                setPaywallReason('export_limit');
+                setShowPaywallModal(true);
+              }}
+              onSelectInvoice={handleSelectAgingInvoice}
             />
           </View>
         </>
@@ -495,6 +678,16 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
         />
       ) : null}
 
+      {adjustmentMode && selectedInvoice ? (
+        <InvoiceAdjustmentModal
+          invoice={selectedInvoice}
+          mode={adjustmentMode}
+          visible
+          onClose={() => setAdjustmentMode(null)}
+          onSuccess={() => void refetchInvoices()}
+        />
+      ) : null}
+
       {showEmailModal && selectedInvoice ? (
         <SendInvoiceModal
           invoice={selectedInvoice}
@@ -510,6 +703,23 @@ export function InvoicesScreen({ onNavigateToAccount, onNavigateToSubscription }
         />
       ) : null}
 
+      {recurringSource || editingSchedule ? (
+        <RecurringInvoiceModal
+          visible
+          sourceInvoice={recurringSource}
+          editingSchedule={editingSchedule}
+          onClose={() => {
+            setRecurringSource(null);
+            setEditingSchedule(null);
+          }}
+          onSaved={() => {
+            if (recurringSource) {
+              showAlert('Recurring invoice started', `${recurringSource.client_name} will be billed on this schedule.`);
+            }
+          }}
+        />
+      ) : null}
+
       {showPaywallModal ? (
         <PaywallModal
           visible={showPaywallModal}
@@ -13,9 +13,6 @@ import { Text } from '../ui';
 import {
   useMileage,
   useDeleteMileage,
-  calculateMileageDeduction,
-  IRS_MILEAGE_RATE,
-  IRS_MILEAGE_RATE_YEAR,
   useCreateMileage,
 } from '../hooks/useMileage';
 import { AddMileageModal } from '../components/AddMileageModal';
@@ -25,7 +22,12 @@ import { type DateRange, dateRangeToStrings } from '../lib/dateRangeUtils';
 import { useDateRange } from '../hooks/useDateRange';
 import { DateRangeFilter } from '../components/DateRangeFilter';
 import { colors } from '../styles/theme';
-import { sumMileageDeduction } from '../lib/mileage';
+import {
+  calculateMileageDeduction,
+  getLatestSupportedMileageYear,
+  getStandardMileageRate,
+  sumMileageDeduction,
+} from '../tax/service';
 
 interface MileageScreenProps {
   onNavigateToAccount?: () => void;
@@ -199,7 +201,7 @@ export function MileageScreen({ onNavigateToAccount }: MileageScreenProps = {})
       {/* IRS rate chip */}
       <View style={styles.irsChipWrap}>
         <View style={styles.irsChip}>
-          <Text style={styles.irsChipText}>🚗 Year-specific IRS rates. Latest configured: ${IRS_MILEAGE_RATE}/mile ({IRS_MILEAGE_RATE_YEAR})</Text>
+          <Text style={styles.irsChipText}>🚗 Year-specific IRS rates. Latest configured: ${getStandardMileageRate()}/mile ({getLatestSupportedMileageYear()})</Text>
         </View>
       </View>
 
@@ -14,6 +14,7 @@ import { useSubcontractors, useDeleteSubcontractor } from '../hooks/useSubcontra
 import { useGigs } from '../hooks/useGigs';
 import { AddPayerModal } from '../components/AddPayerModal';
 import { SubcontractorFormModal } from '../components/SubcontractorFormModal';
+import { ClientPortalModal } from '../components/ClientPortalModal';
 import { Subcontractor1099Center } from '../components/Subcontractor1099Center';
 import { StatsSummaryBar } from '../components/ui/StatsSummaryBar';
 import { colors } from '../styles/theme';
@@ -49,6 +50,7 @@ export function PayersScreen({ onNavigateToExports }: PayersScreenProps = {}) {
   const [modalVisible, setModalVisible] = useState(false);
   const [editingPayer, setEditingPayer] = useState<Payer | null>(null);
   const [editingSubcontractor, setEditingSubcontractor] = useState<Subcontractor | null>(null);
+  const [portalPayer, setPortalPayer] = useState<Payer | null>(null);
 
   const { data: payers, isLoading: payersLoading, error: payersError } = usePayers();
   const { data: subcontractors, isLoading: subcontractorsLoading, error: subcontractorsError } = useSubcontractors();
@@ -311,6 +313,9 @@ export function PayersScreen({ onNavigateToExports }: PayersScreenProps = {}) {
                         </View>
                       </View>
                       <View style={styles.cardFooter}>
+                        <TouchableOpacity onPress={() => setPortalPayer(payer)} activeOpacity={0.7}>
+                          <Text style={styles.footerEdit}>Client Portal</Text>
+                        </TouchableOpacity>
                         <TouchableOpacity
                           onPress={() => {
                             setEditingPayer(payer);
@@ -418,6 +423,14 @@ export function PayersScreen({ onNavigateToExports }: PayersScreenProps = {}) {
         />
       ) : null}
 
+      {portalPayer ? (
+        <ClientPortalModal
+          payer={portalPayer}
+          visible
+          onClose={() => setPortalPayer(null)}
+        />
+      ) : null}
+
       {activeTab === 'subcontractors' ? (
         <SubcontractorFormModal
           visible={modalVisible}
@@ -1,20 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
-import { Invoice, InvoiceSettings, PublicInvoicePayload } from '../types/invoice';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator, Linking } from 'react-native';
+import { Invoice, InvoiceSettings, PublicInvoicePayload, formatCurrency } from '../types/invoice';
 import { InvoiceTemplate } from '../components/InvoiceTemplate';
 import { downloadInvoiceHTML, printInvoice } from '../utils/generateInvoicePDF';
 import { getBaseUrl } from '../lib/getBaseUrl';
+import { formatStoredDate, getTodayDateString } from '../lib/date';
+import { getInvoiceAmountOwed } from '../utils/invoiceCalculations';
+import { colors } from '../styles/theme';
 
 interface PublicInvoiceViewProps {
   invoiceId: string;
   token: string | null;
 }
 
+type PaymentReturn = 'success' | 'canceled' | null;
+
+function getPaymentReturn(): PaymentReturn {
+  if (typeof window === 'undefined' || !window.location?.search) {
+    return null;
+  }
+
+  const payment = new URLSearchParams(window.location.search).get('payment');
+  return payment === 'success' || payment === 'canceled' ? payment : null;
+}
+
 export function PublicInvoiceView({ invoiceId, token }: PublicInvoiceViewProps) {
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [settings, setSettings] = useState<InvoiceSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [onlinePaymentsEnabled, setOnlinePaymentsEnabled] = useState(false);
+  const [payAmount, setPayAmount] = useState('');
+  const [paying, setPaying] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
+  const [paymentReturn] = useState<PaymentReturn>(getPaymentReturn);
 
   useEffect(() => {
     void fetchInvoice();
@@ -48,8 +67,11 @@ export function PublicInvoiceView({ invoiceId, token }: PublicInvoiceViewProps)
 
       const payload = (await response.json()) as PublicInvoicePayload;
 
-      setInvoice(payload.invoice as Invoice);
+      // The link token is the invoice's share token, used for its payment QR
+      setInvoice({ ...(payload.invoice as Invoice), public_token: token });
       setSettings(payload.settings as InvoiceSettings);
+      setOnlinePaymentsEnabled(!!payload.settings.online_payments_enabled);
+      setPayAmount(payload.invoice.balance_due.toFixed(2));
     } catch (err) {
       console.error('Error fetching invoice:', err);
       setError(err instanceof Error ? err.message : 'Failed to load invoice');
@@ -70,6 +92,43 @@ export function PublicInvoiceView({ invoiceId, token }: PublicInvoiceViewProps)
     }
   };
 
+  const handlePayNow = async () => {
+    const amount = parseFloat(payAmount);
+    if (!invoice || !token || isNaN(amount) || amount <= 0) {
+      setPayError('Enter the amount you want to pay.');
+      return;
+    }
+
+    try {
+      setPaying(true);
+      setPayError(null);
+
+      const response = await fetch(new URL('/api/invoices/checkout', getBaseUrl()).toString(), {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ invoiceId, token, amount }),
+      });
+
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.url) {
+        throw new Error(payload.error || 'Could not start the payment');
+      }
+
+      if (typeof window !== 'undefined' && window.location) {
+        window.location.assign(payload.url);
+      } else {
+        await Linking.openURL(payload.url);
+      }
+    } catch (err) {
+      console.error('Error starting invoice payment:', err);
+      setPayError(err instanceof Error ? err.message : 'Could not start the payment');
+      setPaying(false);
+    }
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -90,6 +149,8 @@ export function PublicInvoiceView({ invoiceId, token }: PublicInvoiceViewProps)
     );
   }
 
+  const amountOwed = getInvoiceAmountOwed(invoice, getTodayDateString());
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -104,6 +165,62 @@ export function PublicInvoiceView({ invoiceId, token }: PublicInvoiceViewProps)
         </View>
       </View>
 
+      {paymentReturn === 'success' ? (
+        <View style={styles.noticeSuccess}>
+          <Text style={styles.noticeText}>
+            Thank you! Your payment was submitted. Card payments appear on the invoice within a minute; bank
+            transfers can take a few business days to clear.
+          </Text>
+        </View>
+      ) : null}
+
+      {onlinePaymentsEnabled && (invoice.balance_due ?? 0) > 0 && invoice.status !== 'draft' && invoice.status !== 'cancelled' && invoice.status !== 'written_off' ? (
+        <View style={styles.payPanel}>
+          <Text style={styles.payTitle}>
+            Balance due {formatCurrency(invoice.balance_due, invoice.currency)}
+          </Text>
+          {amountOwed.earlyPaymentDiscount > 0 && amountOwed.discountDeadline ? (
+            <Text style={styles.payHint}>
+              Pay {formatCurrency(amountOwed.amountOwed, invoice.currency)} by {formatStoredDate(amountOwed.discountDeadline)} to
+              take the early-payment discount.
+            </Text>
+          ) : null}
+          {amountOwed.lateFee > 0 ? (
+            <Text style={styles.payHint}>
+              A late fee of {formatCurrency(amountOwed.lateFee, invoice.currency)} has accrued; {formatCurrency(amountOwed.amountOwed, invoice.currency)} is
+              owed as of today.
+            </Text>
+          ) : null}
+          <View style={styles.payRow}>
+            <TextInput
+              style={styles.payInput}
+              value={payAmount}
+              onChangeText={setPayAmount}
+              keyboardType="decimal-pad"
+              placeholder="0.00"
+              editable={!paying}
+            />
+            <TouchableOpacity
+              style={[styles.payButton, paying && styles.payButtonDisabled]}
+              onPress={handlePayNow}
+              disabled={paying}
+            >
+              {paying ? (
+                <ActivityIndicator color={colors.brand.foreground} />
+              ) : (
+                <Text style={styles.payButtonText}>Pay Now</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.payHint}>
+            {paymentReturn === 'canceled'
+              ? 'Payment was canceled. You can try again at any time.'
+              : 'Pay by card or bank transfer. You can pay part of the balance now.'}
+          </Text>
+          {payError ? <Text style={styles.payError}>{payError}</Text> : null}
+        </View>
+      ) : null}
+
       <InvoiceTemplate invoice={invoice} settings={settings} />
     </View>
   );
@@ -172,4 +289,70 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  noticeSuccess: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: colors.success.muted,
+  },
+  noticeText: {
+    fontSize: 14,
+    color: colors.success.DEFAULT,
+  },
+  payPanel: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    backgroundColor: colors.surface.elevated,
+  },
+  payTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.DEFAULT,
+    marginBottom: 10,
+  },
+  payRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  payInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border.DEFAULT,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text.DEFAULT,
+    backgroundColor: colors.surface.DEFAULT,
+  },
+  payButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 11,
+    borderRadius: 8,
+    backgroundColor: colors.brand.DEFAULT,
+  },
+  payButtonDisabled: {
+    opacity: 0.6,
+  },
+  payButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.brand.foreground,
+  },
+  payHint: {
+    fontSize: 13,
+    color: colors.text.subtle,
+    marginTop: 8,
+  },
+  payError: {
+    fontSize: 13,
+    color: colors.danger.DEFAULT,
+    marginTop: 6,
+  },
 });
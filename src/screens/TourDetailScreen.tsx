@@ -7,15 +7,22 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Alert,
+  Platform,
 } from 'react-native';
 import { useTour, useUpdateTour } from '../hooks/useTours';
 import { useSettlements } from '../hooks/useSettlements';
 import { AddGigsToTourModal } from '../components/tours/AddGigsToTourModal';
 import { AddSettlementModal } from '../components/tours/AddSettlementModal';
+import { TourBudgetSection } from '../components/tours/TourBudgetSection';
+import { BandPayoutsSection } from '../components/tours/BandPayoutsSection';
+import { BillGigsModal } from '../components/BillGigsModal';
 import { H1, H2, H3, Text, Button, Card } from '../ui';
 import { colors, spacingNum } from '../styles/theme';
 import { formatCurrency, formatDate } from '../utils/format';
 import { buildTourFinancials } from '../utils/tourAllocations';
+import { describeSettlementDeal, parseSettlementWorksheet } from '../utils/settlementDeal';
+import { printSettlementSheet } from '../utils/settlementSheetExport';
+import { showAlert } from '../lib/dialog';
 import type { AllocationMode } from '../types/tours.types';
 
 interface TourDetailScreenProps {
@@ -32,6 +39,7 @@ export function TourDetailScreen({ route }: TourDetailScreenProps) {
   const { data: settlements } = useSettlements(tourId);
   const [addGigsModalOpen, setAddGigsModalOpen] = useState(false);
   const [addSettlementModalOpen, setAddSettlementModalOpen] = useState(false);
+  const [billGigsModalOpen, setBillGigsModalOpen] = useState(false);
 
   if (isLoading) {
     return (
@@ -84,6 +92,25 @@ export function TourDetailScreen({ route }: TourDetailScreenProps) {
     gigExpenses
   );
 
+  const handlePrintSettlement = (settlement: typeof tourSettlements[number]) => {
+    if (Platform.OS !== 'web') {
+      showAlert('Web only', 'Printing settlement sheets is currently available on web.');
+      return;
+    }
+    const worksheet = parseSettlementWorksheet(settlement.worksheet);
+    if (!worksheet) return;
+
+    printSettlementSheet({
+      worksheet,
+      artistName: tour.artist_name,
+      tourName: tour.name,
+      payerName: settlement.payer_name,
+      show: gigs.find(g => g.id === settlement.gig_id) ?? null,
+      signedOffAt: settlement.signed_off_at,
+      notes: settlement.notes,
+    });
+  };
+
   const dateRange = tour.start_date && tour.end_date
     ? `${formatDate(tour.start_date)} - ${formatDate(tour.end_date)}`
     : tour.start_date
@@ -140,9 +167,16 @@ export function TourDetailScreen({ route }: TourDetailScreenProps) {
       <Card variant="elevated" style={styles.section}>
         <View style={styles.sectionHeader}>
           <H2 style={styles.sectionTitle}>Gigs ({gigs.length})</H2>
-          <Button size="sm" onPress={() => setAddGigsModalOpen(true)}>
-            Add Gigs
-          </Button>
+          <View style={styles.sectionActions}>
+            {gigs.length > 0 && (
+              <Button size="sm" variant="secondary" onPress={() => setBillGigsModalOpen(true)}>
+                Bill Gigs
+              </Button>
+            )}
+            <Button size="sm" onPress={() => setAddGigsModalOpen(true)}>
+              Add Gigs
+            </Button>
+          </View>
         </View>
 
         {gigs.length === 0 ? (
@@ -174,6 +208,9 @@ export function TourDetailScreen({ route }: TourDetailScreenProps) {
         )}
       </Card>
 
+      {/* Budget vs Actual */}
+      <TourBudgetSection tour={tour} />
+
       {/* Settlements */}
       <Card variant="elevated" style={styles.section}>
         <View style={styles.sectionHeader}>
@@ -187,28 +224,53 @@ export function TourDetailScreen({ route }: TourDetailScreenProps) {
           <Text muted>No settlements yet. Add a settlement to track tour-level payments.</Text>
         ) : (
           <View style={styles.settlementsList}>
-            {tourSettlements.map((settlement) => (
-              <View key={settlement.id} style={styles.settlementRow}>
-                <View style={styles.settlementInfo}>
-                  {settlement.payer_name && (
-                    <Text style={styles.settlementPayer}>{settlement.payer_name}</Text>
-                  )}
-                  {settlement.paid_at && (
-                    <Text muted>{formatDate(settlement.paid_at)}</Text>
-                  )}
-                  <Text subtle>
-                    Allocation: {settlement.allocation_mode}
-                  </Text>
+            {tourSettlements.map((settlement) => {
+              const worksheet = parseSettlementWorksheet(settlement.worksheet);
+              const show = gigs.find(g => g.id === settlement.gig_id);
+
+              return (
+                <View key={settlement.id} style={styles.settlementRow}>
+                  <View style={styles.settlementInfo}>
+                    {settlement.payer_name && (
+                      <Text style={styles.settlementPayer}>{settlement.payer_name}</Text>
+                    )}
+                    {show && (
+                      <Text muted>{formatDate(show.date)} · {show.title || 'Untitled Gig'}</Text>
+                    )}
+                    {settlement.paid_at && (
+                      <Text muted>{formatDate(settlement.paid_at)}</Text>
+                    )}
+                    {worksheet ? (
+                      <Text subtle>
+                        Deal: {describeSettlementDeal(worksheet.deal)}
+                        {settlement.signed_off_at ? ' · Signed off' : ''}
+                      </Text>
+                    ) : (
+                      <Text subtle>
+                        Allocation: {settlement.allocation_mode}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.settlementActions}>
+                    <Text style={styles.settlementAmount}>
+                      {formatCurrency(settlement.amount)}
+                    </Text>
+                    {worksheet && (
+                      <TouchableOpacity onPress={() => handlePrintSettlement(settlement)}>
+                        <Text style={styles.settlementLink}>Settlement Sheet</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 </View>
-                <Text style={styles.settlementAmount}>
-                  {formatCurrency(settlement.amount)}
-                </Text>
-              </View>
-            ))}
+              );
+            })}
           </View>
         )}
       </Card>
 
+      {/* Band Payouts */}
+      <BandPayoutsSection tour={tour} settlements={tourSettlements} />
+
       {/* Tour Expenses */}
       <Card variant="elevated" style={styles.section}>
         <View style={styles.sectionHeader}>
@@ -240,6 +302,12 @@ export function TourDetailScreen({ route }: TourDetailScreenProps) {
         onClose={() => setAddGigsModalOpen(false)}
       />
 
+      <BillGigsModal
+        visible={billGigsModalOpen}
+        gigs={gigs}
+        onClose={() => setBillGigsModalOpen(false)}
+      />
+
       <AddSettlementModal
         visible={addSettlementModalOpen}
         tourId={tourId}
@@ -278,6 +346,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: spacingNum[4],
   },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: spacingNum[2],
+  },
   sectionTitle: {
     marginBottom: 0,
   },
@@ -365,6 +437,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.success.DEFAULT,
   },
+  settlementActions: {
+    alignItems: 'flex-end',
+    gap: spacingNum[1],
+  },
+  settlementLink: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.brand.DEFAULT,
+  },
   expensesList: {
     gap: spacingNum[3],
   },
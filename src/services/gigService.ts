@@ -35,6 +35,9 @@ export interface InlineSubcontractorPaymentData {
   subcontractor_id: string;
   amount: number;
   note?: string;
+  split_template_id?: string | null;
+  settlement_id?: string | null;
+  paid_on?: string; // Omit for new payouts (defaults to today)
 }
 
 export interface CreateGigWithLinesParams {
@@ -98,6 +101,9 @@ export async function updateGigWithLines({
       category: exp.category,
       description: exp.description || exp.category,
       amount: exp.amount,
+      // Inline expenses are paid in the gig's currency
+      currency: gig.currency,
+      exchange_rate: gig.exchange_rate,
       notes: exp.note || null,
       date: gig.date || new Date().toISOString().split('T')[0], // Use gig date or today
     }));
@@ -146,6 +152,9 @@ export async function updateGigWithLines({
         subcontractor_id: payment.subcontractor_id,
         amount: payment.amount,
         note: payment.note || null,
+        split_template_id: payment.split_template_id ?? null,
+        settlement_id: payment.settlement_id ?? null,
+        paid_on: payment.paid_on,
       }));
 
     if (paymentInserts.length > 0) {
@@ -242,6 +251,8 @@ export async function createGigWithLines({
         category: exp.category,
         description: exp.description || exp.category, // Use provided description or fallback to category
         amount: exp.amount,
+        currency: gig.currency, // Inline expenses are paid in the gig's currency
+        exchange_rate: gig.exchange_rate,
         notes: exp.note || null,
         date: gig.date, // Use gig date for expenses
       }));
@@ -3,7 +3,7 @@
  */
 
 import Constants from 'expo-constants';
-import { IRS_MILEAGE_RATE } from '../hooks/useTaxEstimate';
+import { calculateMileageDeduction as calculateMileageDeductionForDate } from '../tax/service';
 
 export interface MileageCalculation {
   miles: number;
@@ -97,10 +97,10 @@ export async function calculateDrivingDistance(
 }
 
 /**
- * Calculate mileage deduction amount
+ * Calculate mileage deduction amount at the IRS rate for the trip date
  */
-export function calculateMileageDeduction(miles: number): number {
-  return miles * IRS_MILEAGE_RATE;
+export function calculateMileageDeduction(miles: number, date?: string | Date | null): number {
+  return calculateMileageDeductionForDate(miles, date);
 }
 
 /**
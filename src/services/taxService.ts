@@ -3,9 +3,17 @@
  */
 
 import { supabase } from '../lib/supabase';
-import type { StateRate } from '../lib/tax/withholding';
 import { CURRENT_TAX_YEAR } from '../lib/tax/constants';
 
+export interface StateRate {
+  state_code: string;
+  effective_year: number;
+  type: 'flat' | 'bracket';
+  flat_rate: number | null;
+  brackets: Array<{ upTo: number | null; rate: number }> | null;
+  notes: string | null;
+}
+
 // In-memory cache for state rates
 const stateRateCache = new Map<string, StateRate>();
 
@@ -0,0 +1,25 @@
+/**
+ * Invoice Document Colors
+ *
+ * Invoices are printed and shared with clients, so they keep a light paper
+ * palette whatever the app theme is. Accent colors come from the invoice
+ * template's color scheme (COLOR_SCHEMES in types/invoice).
+ */
+
+export const invoicePalette = {
+  paper: '#ffffff',
+  canvas: '#f9fafb',
+  text: '#111827',
+  body: '#374151',
+  muted: '#6b7280',
+  subtle: '#9ca3af',
+  border: '#e5e7eb',
+  rule: '#f3f4f6',
+  stripe: '#f9fafb',
+  onAccent: '#ffffff',
+  paid: '#059669',
+  danger: '#dc2626',
+  dangerMuted: '#fee2e2',
+} as const;
+
+export type InvoicePalette = typeof invoicePalette;
@@ -0,0 +1,223 @@
+/**
+ * Cross-check: every tax and mileage path agrees with the tax service
+ *
+ * The dashboard (useTaxCalculation, HeroNetProfit, TaxSummaryCard), the gig
+ * form and gig cards (taxDeltaForGig), withholding, the inline estimate and
+ * the exports all go through src/tax/service.ts. These tests pin them to the
+ * same numbers for the same income.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { TaxProfile } from '../engine';
+import {
+  basicTaxProfile,
+  calcYTDEffectiveRate,
+  calculateMileageDeduction,
+  calculateSplitTax,
+  estimateGigSetAside,
+  estimateTaxOnNetProfit,
+  getStandardMileageRate,
+  sumMileageDeduction,
+  toFilingStatus,
+  toGigData,
+  toYTDData,
+} from '../service';
+import { estimateTaxes } from '../../hooks/useTaxEstimate';
+import { calculateWithholding } from '../../lib/tax/withholding';
+import { calculateScheduleCSummary } from '../../lib/exports/generator';
+import { calculateMileageDeduction as scheduleCMileageDeduction } from '../../lib/scheduleCMapper';
+import { calculateMileageDeduction as distanceMileageDeduction } from '../../utils/distanceCalculation';
+import type { MileageExportRow } from '../../lib/exports/schemas';
+
+vi.mock('../../hooks/useTaxProfile', () => ({
+  useTaxProfile: () => ({ data: null }),
+}));
+
+const PROFILES: Record<string, TaxProfile> = {
+  'TX single': basicTaxProfile('TX'),
+  'CA single': basicTaxProfile('CA'),
+  'NY joint, NYC resident': { ...basicTaxProfile('NY', 'married_joint'), nycResident: true },
+  'OH head of household, Columbus': { ...basicTaxProfile('OH', 'head'), localJurisdiction: 'OH-COLUMBUS' },
+};
+
+const NET_PROFITS = [8000, 45000, 120000, 260000];
+
+describe.each(Object.entries(PROFILES))('%s', (_name, profile) => {
+  describe.each(NET_PROFITS)('net profit %d', (netProfit) => {
+    const expected = estimateTaxOnNetProfit(netProfit, profile, 2025);
+
+    it('TaxSummaryCard (calculateSplitTax) matches the YTD estimate', () => {
+      const split = calculateSplitTax(netProfit + 5000, 0, 5000, profile, 2025);
+
+      expect(split.seTax).toBeCloseTo(expected.seTax, 2);
+      expect(split.additionalMedicareTax).toBeCloseTo(expected.additionalMedicare, 2);
+      expect(split.federalTax1099).toBeCloseTo(expected.federal, 2);
+      expect(split.stateTax1099).toBeCloseTo(expected.state, 2);
+      expect(split.localTax1099).toBeCloseTo(expected.local, 2);
+      expect(split.totalOwed1099).toBeCloseTo(expected.total, 2);
+    });
+
+    it('HeroNetProfit (calcYTDEffectiveRate) matches the YTD estimate', () => {
+      const hero = calcYTDEffectiveRate(toYTDData(netProfit), profile, 2025);
+
+      expect(hero.totalTax).toBeCloseTo(expected.total, 2);
+      expect(hero.effectiveRate).toBeCloseTo(expected.total / netProfit, 6);
+    });
+
+    it('inline estimate (estimateTaxes) matches the YTD estimate', () => {
+      const estimate = estimateTaxes(netProfit, profile, 2025);
+
+      expect(estimate.total).toBeCloseTo(expected.total, 2);
+      expect(estimate.selfEmployment).toBeCloseTo(expected.seTax + expected.additionalMedicare, 2);
+      expect(estimate.stateIncome).toBeCloseTo(expected.state + expected.local, 2);
+    });
+
+    it('export fallback (calculateScheduleCSummary) matches the YTD estimate', () => {
+      const summary = calculateScheduleCSummary({
+        gigs: [{
+          gig_id: '1',
+          date: '2025-03-01',
+          title: 'Gig',
+          payer_name: 'Payer',
+          payer_ein_or_ssn: null,
+          city: null,
+          state: null,
+          country: 'US',
+          gross_amount: netProfit,
+          tips: 0,
+          per_diem: 0,
+          fees: 0,
+          other_income: 0,
+          payment_method: null,
+          invoice_url: null,
+          paid: true,
+          withholding_federal: 0,
+          withholding_state: 0,
+          notes: null,
+        }],
+        expenses: [],
+        mileage: [],
+        taxYear: 2025,
+        filingStatus: profile.filingStatus,
+        stateOfResidence: profile.state,
+        standardOrItemized: 'standard',
+        includeTips: true,
+        includeFeesAsDeduction: false,
+      });
+
+      // The export has no locality fields; compare against the same profile without them
+      const exportExpected = estimateTaxOnNetProfit(
+        netProfit,
+        basicTaxProfile(profile.state, profile.filingStatus),
+        2025
+      );
+      expect(summary.est_total_tax).toBeCloseTo(exportExpected.total, 2);
+    });
+  });
+
+  it('gig set-asides add up to the YTD estimate', () => {
+    // Start above the low-earner federal threshold so every gig carries federal tax
+    const start = 60000;
+    const gigs = [
+      { gross: 3000, expenses: 400, date: '2025-03-01' },
+      { gross: 12000, expenses: 1500, date: '2025-05-10' },
+      { gross: 800, expenses: 0, date: '2025-06-20' },
+      { gross: 45000, expenses: 5000, date: '2025-09-01' },
+    ];
+
+    let ytdNetProfit = start;
+    let setAside = 0;
+    for (const gig of gigs) {
+      setAside += estimateGigSetAside(ytdNetProfit, gig, profile).amount;
+      ytdNetProfit += gig.gross - gig.expenses;
+    }
+
+    const owed = estimateTaxOnNetProfit(ytdNetProfit, profile, 2025).total
+      - estimateTaxOnNetProfit(start, profile, 2025).total;
+    expect(setAside).toBeCloseTo(owed, 2);
+  });
+});
+
+describe('Withholding', () => {
+  it.each([
+    ['TN', 'single', 0],
+    ['CA', 'married', 80000],
+    ['NY', 'hoh', 150000],
+  ] as const)('%s %s from $%d matches the gig set-aside', (stateCode, filingStatus, ytdNetIncome) => {
+    const withholding = calculateWithholding({ amount: 4000, stateCode, filingStatus, ytdNetIncome, year: 2025 });
+    const gig = estimateGigSetAside(
+      ytdNetIncome,
+      { gross: 4000, expenses: 0, date: '2025-01-01' },
+      basicTaxProfile(stateCode, filingStatus)
+    );
+
+    expect(withholding.total).toBeCloseTo(gig.amount, 2);
+  });
+
+  it('maps legacy filing statuses to the engine', () => {
+    expect(toFilingStatus('married')).toBe('married_joint');
+    expect(toFilingStatus('hoh')).toBe('head');
+    expect(toFilingStatus('married_separate')).toBe('married_separate');
+    expect(toFilingStatus(null)).toBe('single');
+  });
+});
+
+describe('Gig lines', () => {
+  it('deducts fees, expenses, subcontractors and mileage the same way everywhere', () => {
+    const gig = toGigData({
+      gross_amount: 1000,
+      tips: 100,
+      per_diem: 50,
+      other_income: 25,
+      fees: 30,
+      expenses: [{ amount: 40 }, { amount: 10 }],
+      subcontractor_payments: [{ amount: 200 }],
+      mileage: [{ miles: 100, date: '2025-04-01' }],
+      date: '2025-04-01',
+    });
+
+    expect(gig.gross).toBe(1175);
+    expect(gig.expenses).toBeCloseTo(30 + 50 + 200 + 70, 2);
+    expect(gig.date).toBe('2025-04-01');
+  });
+});
+
+describe('Mileage', () => {
+  it.each([2024, 2025, 2026])('every mileage helper uses the %d IRS rate', (year) => {
+    const date = `${year}-07-01`;
+    const expected = calculateMileageDeduction(123.4, date);
+
+    expect(expected).toBeCloseTo(123.4 * getStandardMileageRate(year), 2);
+    expect(scheduleCMileageDeduction(123.4, year)).toBeCloseTo(expected, 2);
+    expect(distanceMileageDeduction(123.4, date)).toBeCloseTo(expected, 2);
+  });
+
+  it('prices distance-helper trips at the rate for the trip date', () => {
+    expect(distanceMileageDeduction(100, '2024-03-01')).toBeCloseTo(67, 2);
+    expect(distanceMileageDeduction(100, '2022-03-01')).toBeCloseTo(58.5, 2);
+    expect(distanceMileageDeduction(100)).toBeCloseTo(100 * getStandardMileageRate(), 2);
+  });
+
+  it('exports the same car and truck deduction as the mileage log', () => {
+    const trips: MileageExportRow[] = [
+      { trip_id: '1', date: '2025-02-01', origin: 'Home', destination: 'Venue', business_miles: 42.5, purpose: 'Gig', vehicle: null, standard_rate: 0.7, calculated_deduction: 29.75 },
+      { trip_id: '2', date: '2025-08-15', origin: 'Home', destination: 'Club', business_miles: 18, purpose: 'Gig', vehicle: null, standard_rate: 0.7, calculated_deduction: 12.6 },
+    ];
+    const summary = calculateScheduleCSummary({
+      gigs: [],
+      expenses: [],
+      mileage: trips,
+      taxYear: 2025,
+      filingStatus: 'single',
+      stateOfResidence: 'TN',
+      standardOrItemized: 'standard',
+      includeTips: true,
+      includeFeesAsDeduction: false,
+    });
+
+    expect(summary.car_truck).toBeCloseTo(
+      sumMileageDeduction(trips.map(t => ({ miles: t.business_miles, date: t.date }))),
+      2
+    );
+  });
+});
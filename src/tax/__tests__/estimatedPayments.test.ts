@@ -0,0 +1,202 @@
+/**
+ * Tests for the 1040-ES safe harbor planner and Form 2210 penalty estimate
+ *
+ * Golden values use 2025 config: 90% current-year / 100% prior-year (110% over
+ * $150,000 AGI), $1,000 minimum and a 7% underpayment rate.
+ */
+
+import {
+  getEstimatedTaxPeriods,
+  getReturnDueDate,
+  planEstimatedPayments,
+  projectNetProfitByPeriod,
+  type EstimatedTaxInput,
+} from '../estimatedPayments';
+import { calcTotalTax, type TaxProfile } from '../engine';
+import type { StateCode } from '../config/types';
+
+const profile: TaxProfile = {
+  filingStatus: 'single',
+  state: 'TX' as StateCode,
+  deductionMethod: 'standard',
+  seIncome: true,
+};
+
+function taxOn(netProfit: number): number {
+  return calcTotalTax({ grossIncome: netProfit, adjustments: 0, netSE: netProfit }, profile, 2025).total;
+}
+
+function input(overrides: Partial<EstimatedTaxInput> = {}): EstimatedTaxInput {
+  return {
+    taxYear: 2025,
+    profile,
+    netProfitByPeriod: [20000, 33333.33, 50000, 80000],
+    projectedNetProfit: 80000,
+    payments: [],
+    asOf: '2025-01-01',
+    ...overrides,
+  };
+}
+
+describe('getEstimatedTaxPeriods', () => {
+  it('returns Schedule AI periods with 1040-ES due dates', () => {
+    const periods = getEstimatedTaxPeriods(2025);
+
+    expect(periods.map(p => p.dueDate)).toEqual(['2025-04-15', '2025-06-15', '2025-09-15', '2026-01-15']);
+    expect(periods.map(p => p.periodEnd)).toEqual(['2025-03-31', '2025-05-31', '2025-08-31', '2025-12-31']);
+    expect(periods.map(p => p.annualizationFactor)).toEqual([4, 2.4, 1.5, 1]);
+    expect(periods.map(p => p.applicablePercent)).toEqual([0.225, 0.45, 0.675, 0.90]);
+  });
+
+  it('runs the penalty to April 15 of the following year', () => {
+    expect(getReturnDueDate(2025)).toBe('2026-04-15');
+  });
+});
+
+describe('planEstimatedPayments — required annual payment', () => {
+  it('uses 90% of current-year tax without a prior-year amount', () => {
+    const plan = planEstimatedPayments(input());
+
+    expect(plan.currentYearTax).toBeCloseTo(taxOn(80000), 2);
+    expect(plan.requiredAnnualPayment).toBeCloseTo(taxOn(80000) * 0.9, 2);
+    expect(plan.safeHarbor).toBe('current_year');
+    expect(plan.priorYearRequired).toBeNull();
+  });
+
+  it('uses 100% of prior-year tax when that is lower', () => {
+    const plan = planEstimatedPayments(input({ priorYearTax: 8000, priorYearAGI: 60000 }));
+
+    expect(plan.priorYearPercent).toBe(1);
+    expect(plan.requiredAnnualPayment).toBeCloseTo(8000, 2);
+    expect(plan.safeHarbor).toBe('prior_year');
+    expect(plan.installments[0].regularInstallment).toBeCloseTo(2000, 2);
+  });
+
+  it('uses 110% of prior-year tax when prior-year AGI is over $150,000', () => {
+    const plan = planEstimatedPayments(input({ priorYearTax: 8000, priorYearAGI: 160000 }));
+
+    expect(plan.priorYearPercent).toBeCloseTo(1.1, 5);
+    expect(plan.requiredAnnualPayment).toBeCloseTo(8800, 2);
+  });
+
+  it('leaves state income tax out of the federal installments', () => {
+    const caProfile: TaxProfile = { ...profile, state: 'CA' as StateCode };
+    const tax = calcTotalTax({ grossIncome: 80000, adjustments: 0, netSE: 80000 }, caProfile, 2025);
+    const plan = planEstimatedPayments(input({ profile: caProfile }));
+
+    expect(tax.state).toBeGreaterThan(0);
+    expect(plan.currentYearTax).toBeCloseTo(tax.federal + tax.seTax + tax.additionalMedicare, 2);
+    expect(plan.currentYearTax).toBeCloseTo(taxOn(80000), 2);
+  });
+
+  it('requires nothing when current-year tax is under $1,000', () => {
+    const plan = planEstimatedPayments(input({
+      netProfitByPeriod: [1000, 1500, 2000, 3000],
+      projectedNetProfit: 3000,
+      asOf: '2026-03-01',
+    }));
+
+    expect(plan.currentYearTax).toBeLessThan(1000);
+    expect(plan.requiredAnnualPayment).toBe(0);
+    expect(plan.safeHarbor).toBe('none');
+    expect(plan.totalPenalty).toBe(0);
+  });
+});
+
+describe('planEstimatedPayments — annualized installment method', () => {
+  it('uses regular installments for evenly earned income', () => {
+    const plan = planEstimatedPayments(input({ priorYearTax: 8000 }));
+
+    expect(plan.usesAnnualizedMethod).toBe(false);
+    plan.installments.forEach(i => expect(i.requiredInstallment).toBeCloseTo(2000, 2));
+  });
+
+  it('lowers early installments when income is back-loaded and catches up later', () => {
+    const plan = planEstimatedPayments(input({
+      priorYearTax: 8000,
+      netProfitByPeriod: [0, 0, 20000, 80000],
+    }));
+
+    expect(plan.usesAnnualizedMethod).toBe(true);
+    expect(plan.installments[0].requiredInstallment).toBe(0);
+    expect(plan.installments[1].requiredInstallment).toBe(0);
+    const total = plan.installments.reduce((sum, i) => sum + i.requiredInstallment, 0);
+    expect(total).toBeCloseTo(8000, 2);
+  });
+});
+
+describe('planEstimatedPayments — payments and penalty', () => {
+  it('applies payments to the earliest installment with a balance', () => {
+    const plan = planEstimatedPayments(input({
+      priorYearTax: 8000,
+      payments: [{ amount: 3000, paidOn: '2025-04-10' }],
+      asOf: '2025-07-01',
+    }));
+
+    expect(plan.installments[0].paid).toBeCloseTo(2000, 2);
+    expect(plan.installments[0].shortfall).toBeCloseTo(0, 2);
+    expect(plan.installments[1].paid).toBeCloseTo(1000, 2);
+    expect(plan.installments[1].shortfall).toBeCloseTo(1000, 2);
+    expect(plan.installments[1].isPastDue).toBe(true);
+    expect(plan.installments[2].isPastDue).toBe(false);
+  });
+
+  it('charges interest from the due date to the return due date on a shortfall', () => {
+    const plan = planEstimatedPayments(input({ priorYearTax: 8000, asOf: '2026-02-01' }));
+
+    // Q1: 2025-04-15 → 2026-04-15 is 365 days
+    expect(plan.installments[0].penalty).toBeCloseTo(2000 * 0.07, 2);
+    // Q4: 2026-01-15 → 2026-04-15 is 90 days
+    expect(plan.installments[3].penalty).toBeCloseTo(2000 * 0.07 * 90 / 365, 2);
+    expect(plan.totalShortfall).toBeCloseTo(8000, 2);
+  });
+
+  it('charges interest on a late payment only until it was paid', () => {
+    const plan = planEstimatedPayments(input({
+      priorYearTax: 8000,
+      payments: [{ amount: 2000, paidOn: '2025-05-15' }],
+      asOf: '2025-05-20',
+    }));
+
+    expect(plan.installments[0].shortfall).toBeCloseTo(0, 2);
+    expect(plan.installments[0].penalty).toBeCloseTo(2000 * 0.07 * 30 / 365, 2);
+  });
+
+  it('reports payments beyond the required installments as overpayment', () => {
+    const plan = planEstimatedPayments(input({
+      priorYearTax: 8000,
+      payments: [{ amount: 9000, paidOn: '2025-04-01' }],
+    }));
+
+    expect(plan.totalPaid).toBe(9000);
+    expect(plan.totalShortfall).toBeCloseTo(0, 2);
+    expect(plan.overpayment).toBeCloseTo(1000, 2);
+    expect(plan.totalPenalty).toBeCloseTo(0, 2);
+  });
+});
+
+describe('projectNetProfitByPeriod', () => {
+  const entries = [
+    { date: '2025-02-01', amount: 10000 },
+    { date: '2025-04-20', amount: 5000 },
+    { date: '2025-05-10', amount: -1000 },
+    { date: '2024-12-31', amount: 99999 },
+  ];
+
+  it('uses actual amounts once the year is over', () => {
+    const result = projectNetProfitByPeriod(entries, 2025, '2026-01-10');
+
+    expect(result.netProfitByPeriod).toEqual([10000, 14000, 14000, 14000]);
+    expect(result.projectedNetProfit).toBe(14000);
+  });
+
+  it('projects later periods from the year-to-date run rate', () => {
+    const result = projectNetProfitByPeriod(entries, 2025, '2025-06-30');
+
+    expect(result.netProfitByPeriod[0]).toBe(10000);
+    expect(result.netProfitByPeriod[1]).toBe(14000);
+    expect(result.projectedNetProfit).toBeCloseTo(14000 * 365 / 181, 2);
+    expect(result.netProfitByPeriod[2]).toBeCloseTo(result.projectedNetProfit * 243 / 365, 2);
+    expect(result.netProfitByPeriod[3]).toBeCloseTo(result.projectedNetProfit, 2);
+  });
+});
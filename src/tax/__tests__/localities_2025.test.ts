@@ -0,0 +1,160 @@
+/**
+ * Tests for Local (Municipal / School District) Income Taxes
+ *
+ * Validates config/localities_2025.ts and the engine's local tax path:
+ * - Jurisdiction metadata
+ * - Resident rate applied to the right base
+ * - Inclusion in calcTotalTax's `local`
+ */
+
+import config2025 from '../config/2025';
+import {
+  calcLocalTax,
+  calcStateTax,
+  calcStateTaxBase,
+  calcTotalTax,
+  getStateLocalities,
+  stateHasLocalTax,
+  type TaxProfile,
+  type YTDData,
+} from '../engine';
+
+const YTD: YTDData = {
+  grossIncome: 60000,
+  adjustments: 0,
+  netSE: 50000,
+  w2Wages: 10000,
+};
+
+function profile(overrides: Partial<TaxProfile>): TaxProfile {
+  return {
+    filingStatus: 'single',
+    state: 'OH',
+    deductionMethod: 'standard',
+    seIncome: true,
+    ...overrides,
+  };
+}
+
+describe('Local Income Taxes 2025', () => {
+  describe('Configuration Validation', () => {
+    it.each(Object.entries(config2025.localities))('%s has valid metadata', (_code, locality) => {
+      expect(locality.name).toBeTruthy();
+      if (locality.rate !== null) {
+        expect(locality.rate).toBeGreaterThan(0);
+        expect(locality.rate).toBeLessThan(0.05);
+      }
+      expect(config2025.states[locality.state]).toBeDefined();
+      expect(locality.source).toMatch(/^https:\/\//);
+    });
+  });
+
+  describe('Resident Rates', () => {
+    it('taxes Ohio municipal residents on wages + net profit', () => {
+      const local = calcLocalTax(YTD, profile({ localJurisdiction: 'OH-COLUMBUS' }), 2025);
+      expect(local).toBeCloseTo(60000 * 0.025, 2);
+    });
+
+    it('applies Philadelphia wage / net profits tax', () => {
+      const local = calcLocalTax(YTD, profile({ state: 'PA', localJurisdiction: 'PA-PHILADELPHIA' }), 2025);
+      expect(local).toBeCloseTo(60000 * 0.0374, 2);
+    });
+
+    it('adds municipal and school district EIT together', () => {
+      const local = calcLocalTax(
+        YTD,
+        profile({ state: 'PA', localJurisdiction: 'PA-PITTSBURGH', schoolDistrict: 'PA-PITTSBURGH-SD' }),
+        2025
+      );
+      expect(local).toBeCloseTo(60000 * 0.03, 2);
+    });
+
+    it('subtracts Detroit per-person exemptions', () => {
+      const single = calcLocalTax(YTD, profile({ state: 'MI', localJurisdiction: 'MI-DETROIT' }), 2025);
+      const joint = calcLocalTax(
+        YTD,
+        profile({ state: 'MI', filingStatus: 'married_joint', localJurisdiction: 'MI-DETROIT' }),
+        2025
+      );
+      expect(single).toBeCloseTo((60000 - 600) * 0.024, 2);
+      expect(joint).toBeCloseTo((60000 - 1200) * 0.024, 2);
+    });
+
+    it('applies Kansas City and St. Louis 1% earnings tax', () => {
+      for (const code of ['MO-KANSAS-CITY', 'MO-ST-LOUIS']) {
+        expect(calcLocalTax(YTD, profile({ state: 'MO', localJurisdiction: code }), 2025)).toBeCloseTo(600, 2);
+      }
+    });
+
+    it('applies the PSD rate entered for other Pennsylvania municipalities', () => {
+      const p = profile({ state: 'PA', localJurisdiction: 'PA-OTHER' });
+      expect(calcLocalTax(YTD, { ...p, localTaxRate: 0.012 }, 2025)).toBeCloseTo(720, 2);
+      expect(calcLocalTax(YTD, p, 2025)).toBe(0);
+    });
+
+    it('ignores unknown codes and jurisdictions in another state', () => {
+      expect(calcLocalTax(YTD, profile({ localJurisdiction: 'OH-NOWHERE' }), 2025)).toBe(0);
+      expect(calcLocalTax(YTD, profile({ state: 'PA', localJurisdiction: 'OH-COLUMBUS' }), 2025)).toBe(0);
+    });
+
+    it('returns 0 without a local jurisdiction', () => {
+      expect(calcLocalTax(YTD, profile({}), 2025)).toBe(0);
+    });
+  });
+
+  describe('Ohio School District Income Tax', () => {
+    it('taxes earned-income-base districts on wages + net profit', () => {
+      const p = profile({ schoolDistrict: 'OH-SD-EARNED-INCOME', schoolDistrictRate: 0.0175 });
+      expect(calcLocalTax(YTD, p, 2025)).toBeCloseTo(60000 * 0.0175, 2);
+    });
+
+    it('taxes traditional-base districts on Ohio taxable income', () => {
+      const p = profile({ schoolDistrict: 'OH-SD-TRADITIONAL', schoolDistrictRate: 0.0125 });
+
+      // Business income is fully deducted under $250k; less the $2,400 exemption
+      expect(calcStateTaxBase(YTD, p, 2025)).toBe(60000 - 50000 - 2400);
+      expect(calcLocalTax(YTD, p, 2025)).toBeCloseTo(7600 * 0.0125, 2);
+    });
+
+    it('keeps business income over the deduction in the traditional base', () => {
+      const ytd: YTDData = { grossIncome: 310000, adjustments: 0, netSE: 300000, w2Wages: 10000 };
+      const p = profile({ schoolDistrict: 'OH-SD-TRADITIONAL', schoolDistrictRate: 0.01 });
+      expect(calcStateTaxBase(ytd, p, 2025)).toBe(310000 - 250000 - 2400);
+    });
+
+    it('uses each slot\'s own entered rate', () => {
+      const p = profile({
+        state: 'PA',
+        localJurisdiction: 'PA-OTHER',
+        localTaxRate: 0.01,
+        schoolDistrict: 'PA-PITTSBURGH-SD',
+        schoolDistrictRate: 0.05,
+      });
+      // The fixed Pittsburgh SD rate wins over an entered one
+      expect(calcLocalTax(YTD, p, 2025)).toBeCloseTo(60000 * 0.03, 2);
+    });
+  });
+
+  describe('Engine Integration', () => {
+    it('includes local tax in calcStateTax and calcTotalTax', () => {
+      const p = profile({ localJurisdiction: 'OH-CLEVELAND' });
+      const { local } = calcStateTax(YTD, p, 2025);
+      const total = calcTotalTax(YTD, p, 2025);
+
+      expect(local).toBeCloseTo(1500, 2);
+      expect(total.local).toBeCloseTo(1500, 2);
+      expect(total.total).toBeCloseTo(total.federal + total.state + total.seTax + 1500, 2);
+    });
+
+    it('lists selectable localities by state and kind', () => {
+      expect(stateHasLocalTax('OH')).toBe(true);
+      expect(stateHasLocalTax('TX')).toBe(false);
+      expect(getStateLocalities('PA', 'school_district').map(l => l.code)).toEqual(['PA-PITTSBURGH-SD']);
+      expect(getStateLocalities('OH', 'school_district')).toEqual([
+        { code: 'OH-SD-EARNED-INCOME', name: 'Ohio school district (earned income base)', entersRate: true },
+        { code: 'OH-SD-TRADITIONAL', name: 'Ohio school district (traditional base)', entersRate: true },
+      ]);
+      expect(getStateLocalities('MO').map(l => l.name)).toEqual(['Kansas City', 'St. Louis']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for Multi-State (Nonresident) Allocation
+ *
+ * Validates calcMultiStateTax and the calculateSplitTax touring mode:
+ * - Income share by gig state
+ * - Nonresident tax (income-percentage method)
+ * - Resident credit limitation
+ */
+
+import {
+  calcMultiStateTax,
+  calcStateTax,
+  calculateSplitTax,
+  type TaxProfile,
+  type YTDData,
+} from '../engine';
+import type { StateCode } from '../config/2025';
+
+const YTD: YTDData = {
+  grossIncome: 100000,
+  adjustments: 0,
+  netSE: 100000,
+};
+
+function profile(state: StateCode): TaxProfile {
+  return {
+    filingStatus: 'single',
+    state,
+    deductionMethod: 'standard',
+    seIncome: true,
+  };
+}
+
+function fullYearStateTax(state: StateCode): number {
+  return calcStateTax(YTD, profile(state), 2025).state;
+}
+
+describe('Multi-State Allocation', () => {
+  it('taxes nonresident income and credits it at home (limited to home tax on that share)', () => {
+    const result = calcMultiStateTax(YTD, profile('PA'), { PA: 6000, NJ: 4000 }, 2025);
+    const [pa, nj] = result.states;
+
+    expect(pa.state).toBe('PA');
+    expect(pa.isResident).toBe(true);
+    expect(pa.share).toBeCloseTo(0.6, 10);
+    expect(pa.allocatedIncome).toBeCloseTo(60000, 2);
+    expect(pa.tax).toBeCloseTo(fullYearStateTax('PA'), 2);
+
+    expect(nj.state).toBe('NJ');
+    expect(nj.isResident).toBe(false);
+    expect(nj.tax).toBeCloseTo(fullYearStateTax('NJ') * 0.4, 2);
+
+    const expectedCredit = Math.min(nj.tax, fullYearStateTax('PA') * 0.4);
+    expect(pa.credit).toBeCloseTo(expectedCredit, 2);
+    expect(result.residentCredit).toBeCloseTo(expectedCredit, 2);
+    expect(result.totalStateTax).toBeCloseTo(pa.tax - expectedCredit + nj.tax, 2);
+  });
+
+  it('gives no credit for gigs in states without income tax', () => {
+    const result = calcMultiStateTax(YTD, profile('PA'), { PA: 5000, TN: 5000 }, 2025);
+
+    expect(result.residentCredit).toBe(0);
+    expect(result.states[1]).toMatchObject({ state: 'TN', tax: 0, owed: 0 });
+    expect(result.totalStateTax).toBeCloseTo(fullYearStateTax('PA'), 2);
+  });
+
+  it('charges nonresident tax to residents of no-income-tax states', () => {
+    const result = calcMultiStateTax(YTD, profile('TX'), { TX: 7500, CA: 2500 }, 2025);
+
+    expect(result.states[0]).toMatchObject({ state: 'TX', tax: 0, credit: 0 });
+    expect(result.states[1].tax).toBeCloseTo(fullYearStateTax('CA') * 0.25, 2);
+    expect(result.totalStateTax).toBeCloseTo(result.states[1].tax, 2);
+  });
+
+  it('folds unknown state codes into the resident state', () => {
+    const result = calcMultiStateTax(YTD, profile('PA'), { PA: 5000, ['PR' as StateCode]: 5000 }, 2025);
+
+    expect(result.states).toHaveLength(1);
+    expect(result.states[0].share).toBe(1);
+  });
+
+  it('sorts nonresident states by amount owed', () => {
+    const result = calcMultiStateTax(YTD, profile('TX'), { TX: 1000, CO: 1000, CA: 8000 }, 2025);
+    expect(result.states.map(s => s.state)).toEqual(['TX', 'CA', 'CO']);
+  });
+});
+
+describe('calculateSplitTax touring mode', () => {
+  it('omits the breakdown without gig states', () => {
+    const result = calculateSplitTax(50000, 0, 0, profile('PA'), 2025);
+    expect(result.stateBreakdown).toBeUndefined();
+  });
+
+  it('sources untagged 1099 income to the resident state', () => {
+    const result = calculateSplitTax(50000, 0, 0, profile('PA'), 2025, { NY: 10000 });
+    const [pa, ny] = result.stateBreakdown!;
+
+    expect(pa.share).toBeCloseTo(0.8, 10);
+    expect(ny.share).toBeCloseTo(0.2, 10);
+    expect(result.stateTax1099).toBeCloseTo(pa.owed + ny.owed, 2);
+  });
+
+  it('matches resident-only state tax when every gig is at home', () => {
+    const home = calculateSplitTax(50000, 0, 0, profile('PA'), 2025);
+    const touring = calculateSplitTax(50000, 0, 0, profile('PA'), 2025, { PA: 50000 });
+    expect(touring.stateTax1099).toBeCloseTo(home.stateTax1099, 2);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for the Section 199A QBI deduction and Additional Medicare Tax
+ *
+ * Golden values use 2025 tables (Rev. Proc. 2024-40):
+ * - QBI threshold $197,300 single / $394,600 MFJ, phase-in range $50,000 / $100,000
+ * - Additional Medicare 0.9% over $200,000 single / $250,000 MFJ
+ */
+
+import {
+  calcAdditionalMedicareTax,
+  calcFederalTax,
+  calcQBIDeduction,
+  calcSETax,
+  calcTotalTax,
+  calculateSplitTax,
+  taxDeltaForGig,
+  type TaxProfile,
+  type YTDData,
+} from '../engine';
+import type { FilingStatus } from '../config/2025';
+
+function profile(filingStatus: FilingStatus = 'single'): TaxProfile {
+  return {
+    filingStatus,
+    state: 'TX',
+    deductionMethod: 'standard',
+    seIncome: true,
+  };
+}
+
+function ytd(netSE: number, w2Wages?: number): YTDData {
+  return { grossIncome: netSE, adjustments: 0, netSE, w2Wages };
+}
+
+describe('QBI Deduction (Section 199A)', () => {
+  it('is limited to 20% of taxable income below the threshold', () => {
+    // QBI = 80,000 - 5,651.82 half SE; taxable income = 59,348.18
+    expect(calcQBIDeduction(ytd(80000), profile(), 2025)).toBeCloseTo(11869.636, 2);
+  });
+
+  it('reduces federal taxable income', () => {
+    // Taxable income 59,348.18 - 11,869.636 = 47,478.544
+    // 10% x 11,925 + 12% x (47,478.544 - 11,925)
+    expect(calcFederalTax(ytd(80000), profile(), 2025)).toBeCloseTo(5458.92528, 2);
+  });
+
+  it('uses 20% of QBI when other income keeps taxable income high enough', () => {
+    // $50,000 of W-2 wages on top of $150,000 net profit
+    const data: YTDData = { grossIncome: 200000, adjustments: 0, netSE: 150000, w2Wages: 50000 };
+    const halfSE = calcSETax(data, profile(), 2025) / 2;
+    expect(calcQBIDeduction(data, profile(), 2025)).toBeCloseTo(0.2 * (150000 - halfSE), 2);
+  });
+
+  it('phases out across the SSTB phase-in range', () => {
+    // Solve for net profit that puts taxable income $25,000 over the threshold
+    const p = profile();
+    let netSE = 240000;
+    for (let i = 0; i < 20; i++) {
+      const halfSE = calcSETax(ytd(netSE), p, 2025) / 2;
+      netSE += 222300 - (netSE - halfSE - 15000);
+    }
+    const halfSE = calcSETax(ytd(netSE), p, 2025) / 2;
+    const qbi = netSE - halfSE;
+
+    // Applicable percentage 50% -> 20% x QBI x 0.5 x 0.5
+    expect(calcQBIDeduction(ytd(netSE), p, 2025)).toBeCloseTo(0.2 * qbi * 0.25, 1);
+  });
+
+  it('is zero above the phase-in range', () => {
+    expect(calcQBIDeduction(ytd(300000), profile(), 2025)).toBe(0);
+  });
+
+  it('uses the married-filing-jointly threshold', () => {
+    expect(calcQBIDeduction(ytd(300000), profile('married_joint'), 2025)).toBeGreaterThan(0);
+  });
+
+  it('is zero without self-employment income', () => {
+    expect(calcQBIDeduction(ytd(80000), { ...profile(), seIncome: false }, 2025)).toBe(0);
+  });
+
+  describe('2026 minimum deduction', () => {
+    // $18,000 of W-2 wages keeps taxable income positive without making the minimum moot
+    function withWages(netSE: number): YTDData {
+      return { grossIncome: 18000 + netSE, adjustments: 0, netSE, w2Wages: 18000 };
+    }
+
+    it('allows at least $400 once QBI reaches $1,000', () => {
+      // 20% of QBI would be about $215
+      expect(calcQBIDeduction(withWages(1150), profile(), 2026)).toBe(400);
+      expect(calcQBIDeduction(withWages(1150), profile(), 2025)).toBeLessThan(400);
+    });
+
+    it('does not apply below $1,000 of QBI', () => {
+      expect(calcQBIDeduction(withWages(1000), profile(), 2026)).toBeLessThan(400);
+    });
+
+    it('still applies above the SSTB phase-in range', () => {
+      expect(calcQBIDeduction(ytd(400000), profile(), 2026)).toBe(400);
+    });
+
+    it('never exceeds taxable income', () => {
+      // Net profit of 17,700 leaves about 350 of taxable income after the 16,100 standard deduction
+      const data = ytd(17700);
+      const halfSE = calcSETax(data, profile(), 2026) / 2;
+      expect(calcQBIDeduction(data, profile(), 2026)).toBeCloseTo(17700 - halfSE - 16100, 2);
+    });
+  });
+});
+
+describe('Additional Medicare Tax', () => {
+  it('applies 0.9% to SE earnings over the threshold', () => {
+    // 92.35% x 300,000 = 277,050; 77,050 over $200,000
+    expect(calcAdditionalMedicareTax(ytd(300000), profile(), 2025)).toBeCloseTo(693.45, 2);
+    expect(calcAdditionalMedicareTax(ytd(300000), profile('married_joint'), 2025)).toBeCloseTo(243.45, 2);
+  });
+
+  it('lets W-2 wages use up the threshold first', () => {
+    expect(calcAdditionalMedicareTax(ytd(300000, 150000), profile(), 2025)).toBeCloseTo(2043.45, 2);
+  });
+
+  it('is zero below the threshold', () => {
+    expect(calcAdditionalMedicareTax(ytd(150000), profile(), 2025)).toBe(0);
+  });
+
+  it('is not part of SE tax or the half-SE deduction', () => {
+    // 12.4% x 176,100 + 2.9% x 277,050
+    expect(calcSETax(ytd(300000), profile(), 2025)).toBeCloseTo(29870.85, 2);
+  });
+});
+
+describe('Breakdown lines', () => {
+  it('reports both in calcTotalTax and includes Additional Medicare in the total', () => {
+    const result = calcTotalTax(ytd(300000), profile('married_joint'), 2025);
+
+    expect(result.additionalMedicare).toBeCloseTo(243.45, 2);
+    expect(result.qbiDeduction).toBeGreaterThan(0);
+    expect(result.total).toBeCloseTo(
+      result.federal + result.state + result.local + result.seTax + result.additionalMedicare,
+      2
+    );
+  });
+
+  it('adds an Additional Medicare line to the gig set-aside breakdown', () => {
+    const result = taxDeltaForGig(ytd(250000), { gross: 10000, expenses: 0, date: '2025-06-01' }, profile());
+
+    expect(result.breakdown.additionalMedicare).toBeCloseTo(10000 * 0.9235 * 0.009, 2);
+  });
+
+  it('reports both in calculateSplitTax', () => {
+    const result = calculateSplitTax(260000, 100000, 0, profile(), 2025);
+
+    expect(result.additionalMedicareTax).toBeGreaterThan(0);
+    expect(result.qbiDeduction).toBeGreaterThanOrEqual(0);
+    expect(result.totalOwed1099).toBeCloseTo(
+      result.seTax + result.additionalMedicareTax + result.federalTax1099 + result.stateTax1099 + result.localTax1099,
+      2
+    );
+  });
+});
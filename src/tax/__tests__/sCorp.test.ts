@@ -0,0 +1,146 @@
+/**
+ * Tests for S-Corp payroll modeling and the sole prop vs S-Corp comparison
+ *
+ * Golden values use 2025 tables: 6.2% Social Security on the first $176,100
+ * of wages and 1.45% Medicare, each paid by both employer and employee.
+ */
+
+import {
+  calcBracketTax,
+  calcSCorpTax,
+  calcTotalTax,
+  compareSoleProprietorToSCorp,
+  type TaxProfile,
+} from '../engine';
+import { getTaxConfig } from '../config';
+import type { StateCode } from '../config/2025';
+
+function profile(overrides: Partial<TaxProfile> = {}): TaxProfile {
+  return {
+    filingStatus: 'single',
+    state: 'TX' as StateCode,
+    deductionMethod: 'standard',
+    seIncome: true,
+    sCorpSalary: 40000,
+    payrollFrequency: 'monthly',
+    ...overrides,
+  };
+}
+
+describe('calcSCorpTax', () => {
+  it('splits profit into salary, employer FICA and distribution', () => {
+    const result = calcSCorpTax(100000, profile(), 2025);
+
+    expect(result.salary).toBe(40000);
+    expect(result.payroll.employerFica).toBeCloseTo(3060, 2);
+    expect(result.payroll.employeeFica).toBeCloseTo(3060, 2);
+    expect(result.distribution).toBeCloseTo(56940, 2);
+    expect(result.payroll.additionalMedicare).toBe(0);
+  });
+
+  it('taxes salary + distribution with the QBI deduction on the distribution', () => {
+    const result = calcSCorpTax(100000, profile(), 2025);
+    const { config } = getTaxConfig(2025);
+    const taxableBeforeQBI = 96940 - config.federal.standardDeduction.single;
+
+    expect(result.qbiDeduction).toBeCloseTo(56940 * 0.2, 2);
+    expect(result.federal).toBeCloseTo(
+      calcBracketTax(taxableBeforeQBI - result.qbiDeduction, config.federal.brackets.single),
+      2
+    );
+    expect(result.total).toBeCloseTo(3060 * 2 + result.federal, 2);
+  });
+
+  it('spreads payroll across the pay periods', () => {
+    const monthly = calcSCorpTax(100000, profile(), 2025);
+    const biweekly = calcSCorpTax(100000, profile({ payrollFrequency: 'biweekly' }), 2025);
+
+    expect(monthly.payPeriods).toBe(12);
+    expect(monthly.perPaycheck.grossPay).toBeCloseTo(40000 / 12, 2);
+    expect(biweekly.payPeriods).toBe(26);
+    expect(biweekly.perPaycheck.employeeFica).toBeCloseTo(3060 / 26, 2);
+    expect(biweekly.total).toBeCloseTo(monthly.total, 2);
+  });
+
+  it('defaults to monthly payroll', () => {
+    const result = calcSCorpTax(100000, profile({ payrollFrequency: undefined }), 2025);
+
+    expect(result.payrollFrequency).toBe('monthly');
+  });
+
+  it('withholds income tax on the salary and leaves distribution tax for estimated payments', () => {
+    const result = calcSCorpTax(120000, profile({ state: 'CA', sCorpSalary: 50000 }), 2025);
+    const { payroll } = result;
+
+    expect(payroll.federalWithholding).toBeGreaterThan(0);
+    expect(payroll.stateWithholding).toBeGreaterThan(0);
+    expect(payroll.netPay).toBeCloseTo(
+      50000 - payroll.employeeFica - payroll.federalWithholding - payroll.stateWithholding,
+      2
+    );
+    expect(result.distributionTax).toBeCloseTo(
+      result.federal + result.state + result.local - payroll.federalWithholding - payroll.stateWithholding,
+      2
+    );
+  });
+
+  it('caps salary at what profit can fund after employer FICA', () => {
+    const result = calcSCorpTax(50000, profile({ sCorpSalary: 60000 }), 2025);
+
+    expect(result.salary).toBeCloseTo(50000 / 1.0765, 2);
+    expect(result.salary + result.payroll.employerFica).toBeCloseTo(50000, 2);
+    expect(result.distribution).toBeCloseTo(0, 2);
+  });
+
+  it('stops Social Security at the wage base', () => {
+    const result = calcSCorpTax(400000, profile({ sCorpSalary: 200000 }), 2025);
+
+    expect(result.payroll.employerFica).toBeCloseTo(176100 * 0.062 + 200000 * 0.0145, 2);
+  });
+
+  it('adds Additional Medicare on wages above the threshold', () => {
+    const result = calcSCorpTax(400000, profile({ sCorpSalary: 250000 }), 2025);
+
+    expect(result.payroll.additionalMedicare).toBeCloseTo(50000 * 0.009, 2);
+  });
+
+  it('treats all profit as distribution when no salary is set', () => {
+    const result = calcSCorpTax(60000, profile({ sCorpSalary: undefined }), 2025);
+
+    expect(result.salary).toBe(0);
+    expect(result.distribution).toBe(60000);
+    expect(result.payroll.employerFica).toBe(0);
+    expect(result.total).toBeCloseTo(result.federal, 2);
+  });
+
+  it('handles a loss', () => {
+    const result = calcSCorpTax(-5000, profile(), 2025);
+
+    expect(result.salary).toBe(0);
+    expect(result.total).toBe(0);
+    expect(result.effectiveRate).toBe(0);
+  });
+});
+
+describe('compareSoleProprietorToSCorp', () => {
+  it('compares against Schedule C tax on the same profit', () => {
+    const comparison = compareSoleProprietorToSCorp(100000, profile(), 2025);
+    const soleProp = calcTotalTax({ grossIncome: 100000, adjustments: 0, netSE: 100000 }, profile(), 2025);
+
+    expect(comparison.soleProprietor.total).toBeCloseTo(soleProp.total, 2);
+    expect(comparison.sCorp.total).toBeCloseTo(calcSCorpTax(100000, profile(), 2025).total, 2);
+    expect(comparison.savings).toBeCloseTo(comparison.soleProprietor.total - comparison.sCorp.total, 2);
+  });
+
+  it('shows savings when salary is well below profit', () => {
+    const comparison = compareSoleProprietorToSCorp(100000, profile(), 2025);
+
+    expect(comparison.savings).toBeGreaterThan(0);
+  });
+
+  it('shows no savings when all profit is paid as salary', () => {
+    const comparison = compareSoleProprietorToSCorp(60000, profile({ sCorpSalary: 60000 }), 2025);
+
+    expect(comparison.savings).toBeLessThan(0);
+  });
+});
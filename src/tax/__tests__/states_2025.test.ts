@@ -0,0 +1,192 @@
+/**
+ * Tests for 2025 State Tax Tables
+ * 
+ * Validates every state entry in config/2025.ts:
+ * - Bracket structure (ascending, open-ended top bracket)
+ * - Standard deduction / personal exemption shape
+ * - Verification metadata
+ * - Golden values for representative states
+ */
+
+import config2025, { type FilingStatus, type StateCode } from '../config/2025';
+import { calcStateTax, isStateTaxVerified, stateHasIncomeTax, type TaxProfile, type YTDData } from '../engine';
+
+const ALL_STATES = Object.keys(config2025.states) as StateCode[];
+const FILING_STATUSES: FilingStatus[] = ['single', 'married_joint', 'married_separate', 'head'];
+
+function stateTax(state: StateCode, income: number, filingStatus: FilingStatus = 'single'): number {
+  const profile: TaxProfile = {
+    filingStatus,
+    state,
+    deductionMethod: 'standard',
+    seIncome: true,
+  };
+  const ytd: YTDData = {
+    grossIncome: income,
+    adjustments: 0,
+    netSE: income,
+  };
+  return calcStateTax(ytd, profile).state;
+}
+
+describe('State 2025 Tax Tables', () => {
+  // ==========================================================================
+  // CONFIGURATION VALIDATION
+  // ==========================================================================
+
+  describe('Configuration Validation', () => {
+    it('should cover all 50 states plus DC', () => {
+      expect(ALL_STATES).toHaveLength(51);
+    });
+
+    ALL_STATES.forEach(state => {
+      describe(`${state}`, () => {
+        const config = config2025.states[state];
+
+        it('should have a state source and verified flag', () => {
+          expect(config.source).toMatch(/^https:\/\//);
+          expect(typeof config.verified).toBe('boolean');
+        });
+
+        FILING_STATUSES.forEach(status => {
+          it(`should have valid ${status} brackets`, () => {
+            const brackets = config.brackets[status];
+            expect(brackets.length).toBeGreaterThan(0);
+            expect(brackets[brackets.length - 1].upTo).toBeNull();
+
+            for (let i = 0; i < brackets.length - 1; i++) {
+              expect(brackets[i].upTo).not.toBeNull();
+              const next = brackets[i + 1].upTo;
+              if (next !== null) {
+                expect(brackets[i].upTo!).toBeLessThan(next);
+              }
+            }
+
+            brackets.forEach(bracket => {
+              expect(bracket.rate).toBeGreaterThanOrEqual(0);
+              expect(bracket.rate).toBeLessThan(0.15);
+            });
+          });
+
+          it(`should have non-negative ${status} deduction and exemption`, () => {
+            expect(config.standardDeduction[status]).toBeGreaterThanOrEqual(0);
+            expect(config.personalExemption?.[status] ?? 0).toBeGreaterThanOrEqual(0);
+          });
+        });
+      });
+    });
+
+    it('should no longer contain the 5% flat placeholder', () => {
+      const placeholders = ALL_STATES.filter(state => {
+        const brackets = config2025.states[state].brackets.single;
+        return brackets.length === 1 && brackets[0].rate === 0.05 &&
+          config2025.states[state].standardDeduction.single === 0 &&
+          !config2025.states[state].personalExemption;
+      });
+      expect(placeholders).toEqual([]);
+    });
+  });
+
+  // ==========================================================================
+  // NO INCOME TAX STATES
+  // ==========================================================================
+
+  describe('States without wage/SE income tax', () => {
+    const noTaxStates: StateCode[] = ['AK', 'FL', 'NV', 'NH', 'SD', 'TN', 'TX', 'WA', 'WY'];
+
+    noTaxStates.forEach(state => {
+      it(`should return $0 and be verified for ${state}`, () => {
+        expect(stateHasIncomeTax(state)).toBe(false);
+        expect(isStateTaxVerified(state)).toBe(true);
+        expect(stateTax(state, 100000)).toBe(0);
+      });
+    });
+
+    it('should report income tax for every other state', () => {
+      ALL_STATES
+        .filter(state => !noTaxStates.includes(state))
+        .forEach(state => expect(stateHasIncomeTax(state)).toBe(true));
+    });
+  });
+
+  // ==========================================================================
+  // GOLDEN VALUES
+  // ==========================================================================
+
+  describe('Golden values (Single, $60,000 net SE income)', () => {
+    it('PA: 3.07% flat, no deductions', () => {
+      expect(stateTax('PA', 60000)).toBeCloseTo(1842.00, 2);
+    });
+
+    it('IL: 4.95% after $2,850 exemption', () => {
+      // (60,000 - 2,850) × 4.95%
+      expect(stateTax('IL', 60000)).toBeCloseTo(2828.925, 2);
+    });
+
+    it('NC: 4.25% after $12,750 standard deduction', () => {
+      // (60,000 - 12,750) × 4.25%
+      expect(stateTax('NC', 60000)).toBeCloseTo(2008.125, 2);
+    });
+
+    it('CO: 4.4% on federal taxable income', () => {
+      // (60,000 - 15,000) × 4.4%
+      expect(stateTax('CO', 60000)).toBeCloseTo(1980.00, 2);
+    });
+
+    it('GA: 5.19% after $12,000 standard deduction', () => {
+      // (60,000 - 12,000) × 5.19%
+      expect(stateTax('GA', 60000)).toBeCloseTo(2491.20, 2);
+    });
+
+    it('VA: progressive brackets after deduction and exemption', () => {
+      // Taxable = 60,000 - 8,500 - 930 = 50,570
+      // 60 + 60 + 600 + (50,570 - 17,000) × 5.75%
+      expect(stateTax('VA', 60000)).toBeCloseTo(2650.275, 2);
+    });
+
+    it('NJ: single schedule after $1,000 exemption', () => {
+      // Taxable = 59,000
+      // 280 + 262.50 + 175 + (59,000 - 40,000) × 5.525%
+      expect(stateTax('NJ', 60000)).toBeCloseTo(1767.25, 2);
+    });
+
+    it('MS: first $10,000 exempt, 4.4% above', () => {
+      // Taxable = 60,000 - 2,300 - 6,000 = 51,700
+      // (51,700 - 10,000) × 4.4%
+      expect(stateTax('MS', 60000)).toBeCloseTo(1834.80, 2);
+    });
+
+    it('DE: zero-rate first bracket', () => {
+      // Taxable = 60,000 - 3,250 = 56,750
+      // 0 + 66 + 195 + 480 + 260 + (56,750 - 25,000) × 5.55%
+      expect(stateTax('DE', 60000)).toBeCloseTo(2763.125, 2);
+    });
+  });
+
+  describe('Golden values (other filing statuses)', () => {
+    it('KS Married Filing Jointly, $100,000', () => {
+      // Taxable = 100,000 - 8,240 - 18,320 = 73,440
+      // 46,000 × 5.2% + 27,440 × 5.58%
+      expect(stateTax('KS', 100000, 'married_joint')).toBeCloseTo(3923.152, 2);
+    });
+
+    it('CT Head of Household, $80,000', () => {
+      // Taxable = 80,000 - 19,000 = 61,000
+      // 16,000 × 2% + 45,000 × 4.5%
+      expect(stateTax('CT', 80000, 'head')).toBeCloseTo(2345.00, 2);
+    });
+  });
+
+  describe('Millionaire surtax', () => {
+    it('MA: 4% surtax over $1,083,150', () => {
+      // Taxable = 1,200,000 - 4,400 = 1,195,600
+      // 5% × 1,195,600 + 4% × (1,195,600 - 1,083,150)
+      expect(stateTax('MA', 1200000)).toBeCloseTo(64278.00, 2);
+    });
+
+    it('MA: no surtax below threshold', () => {
+      // (500,000 - 4,400) × 5%
+      expect(stateTax('MA', 500000)).toBeCloseTo(24780.00, 2);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for the year-keyed tax config registry
+ * 
+ * Validates:
+ * - Registry lookups for 2024, 2025, 2026
+ * - Fallback to the latest year (with notice) for unconfigured years
+ * - Engine picks the config from the gig date / requested tax year
+ */
+
+import { getTaxConfig, getTaxYear, LATEST_TAX_YEAR, SUPPORTED_TAX_YEARS, TAX_CONFIGS } from '../config';
+import config2025 from '../config/2025';
+import {
+  calcTotalTax,
+  calcFederalTax,
+  calcSETax,
+  taxDeltaForGig,
+  calculateSplitTax,
+  isStateTaxVerified,
+  type TaxProfile,
+  type YTDData,
+} from '../engine';
+
+const profile: TaxProfile = {
+  filingStatus: 'single',
+  state: 'TX',
+  deductionMethod: 'standard',
+  seIncome: true,
+};
+
+const ytd: YTDData = {
+  grossIncome: 80000,
+  adjustments: 0,
+  netSE: 80000,
+};
+
+describe('Tax Year Registry', () => {
+  describe('getTaxConfig', () => {
+    it('should register 2024, 2025 and 2026', () => {
+      expect(SUPPORTED_TAX_YEARS).toEqual([2024, 2025, 2026]);
+      expect(LATEST_TAX_YEAR).toBe(2026);
+    });
+
+    it('should return the 2025 config for 2025', () => {
+      const resolved = getTaxConfig(2025);
+      expect(resolved.config).toBe(config2025);
+      expect(resolved.taxYear).toBe(2025);
+      expect(resolved.isFallback).toBe(false);
+      expect(resolved.notice).toBeUndefined();
+    });
+
+    it('should use year-specific federal standard deductions', () => {
+      expect(TAX_CONFIGS[2024].federal.standardDeduction.single).toBe(14600);
+      expect(TAX_CONFIGS[2025].federal.standardDeduction.single).toBe(15000);
+      expect(TAX_CONFIGS[2026].federal.standardDeduction.single).toBe(16100);
+    });
+
+    it('should use year-specific Social Security wage bases', () => {
+      expect(TAX_CONFIGS[2024].seTax.socialSecurityWageBase).toBe(168600);
+      expect(TAX_CONFIGS[2025].seTax.socialSecurityWageBase).toBe(176100);
+      expect(TAX_CONFIGS[2026].seTax.socialSecurityWageBase).toBe(184500);
+    });
+
+    it('should fall back to the latest year and say so', () => {
+      const resolved = getTaxConfig(2030);
+      expect(resolved.taxYear).toBe(LATEST_TAX_YEAR);
+      expect(resolved.requestedYear).toBe(2030);
+      expect(resolved.isFallback).toBe(true);
+      expect(resolved.notice).toContain('2030');
+      expect(resolved.notice).toContain(String(LATEST_TAX_YEAR));
+    });
+
+    it('should fall back for years before the registry starts', () => {
+      const resolved = getTaxConfig(2019);
+      expect(resolved.isFallback).toBe(true);
+      expect(resolved.taxYear).toBe(LATEST_TAX_YEAR);
+    });
+  });
+
+  describe('getTaxYear', () => {
+    it('should read the year from a YYYY-MM-DD string', () => {
+      expect(getTaxYear('2026-01-01')).toBe(2026);
+      expect(getTaxYear('2025-12-31')).toBe(2025);
+    });
+
+    it('should default to the current year', () => {
+      expect(getTaxYear()).toBe(new Date().getFullYear());
+      expect(getTaxYear('')).toBe(new Date().getFullYear());
+    });
+  });
+
+  describe('State tables carried forward', () => {
+    it('should keep no-income-tax states verified in other years', () => {
+      expect(isStateTaxVerified('FL', 2026)).toBe(true);
+      expect(isStateTaxVerified('TX', 2024)).toBe(true);
+    });
+
+    it('should mark carried-forward income tax states unverified', () => {
+      expect(isStateTaxVerified('NC', 2025)).toBe(true);
+      expect(isStateTaxVerified('NC', 2026)).toBe(false);
+      expect(isStateTaxVerified('NC', 2024)).toBe(false);
+    });
+  });
+});
+
+describe('Engine tax year selection', () => {
+  it('should compute lower federal tax in 2026 than 2025 for the same income', () => {
+    // Higher 2026 standard deduction and wider brackets
+    expect(calcFederalTax(ytd, profile, 2026)).toBeLessThan(calcFederalTax(ytd, profile, 2025));
+  });
+
+  it('should apply the year-specific SS wage base', () => {
+    const highIncome: YTDData = { grossIncome: 250000, adjustments: 0, netSE: 250000 };
+    const se2024 = calcSETax(highIncome, profile, 2024);
+    const se2025 = calcSETax(highIncome, profile, 2025);
+    // Difference is 12.4% × (176,100 - 168,600)
+    expect(se2025 - se2024).toBeCloseTo(0.124 * (176100 - 168600), 2);
+  });
+
+  it('should report the tax year used in calcTotalTax', () => {
+    const result = calcTotalTax(ytd, profile, 2025);
+    expect(result.taxYear).toBe(2025);
+    expect(result.configNotice).toBeUndefined();
+  });
+
+  it('should report a notice when state tables are carried forward from another year', () => {
+    expect(calcTotalTax(ytd, profile, 2024).configNotice).toBe(
+      "State tax tables for 2024 aren't available yet. State estimates use 2025 tables."
+    );
+    expect(getTaxConfig(2026).notice).toContain('State estimates use 2025 tables');
+    expect(getTaxConfig(2031).notice).toContain('2025 state tables');
+  });
+
+  it('should report a notice when calcTotalTax falls back', () => {
+    const result = calcTotalTax(ytd, profile, 2031);
+    expect(result.taxYear).toBe(LATEST_TAX_YEAR);
+    expect(result.configNotice).toBeDefined();
+    expect(result.total).toBeCloseTo(calcTotalTax(ytd, profile, LATEST_TAX_YEAR).total, 6);
+  });
+
+  it('should pick the tax year from the gig date', () => {
+    // Near the 2025 12%/22% boundary, below the wider 2026 boundary
+    const nearBoundary: YTDData = { grossIncome: 68000, adjustments: 0, netSE: 68000 };
+    const decemberGig = taxDeltaForGig(nearBoundary, { gross: 2000, expenses: 0, date: '2025-12-31' }, profile);
+    const januaryGig = taxDeltaForGig(nearBoundary, { gross: 2000, expenses: 0, date: '2026-01-02' }, profile);
+
+    expect(decemberGig.taxYear).toBe(2025);
+    expect(januaryGig.taxYear).toBe(2026);
+    expect(januaryGig.breakdown.federal).toBeLessThan(decemberGig.breakdown.federal);
+  });
+
+  it('should report the tax year for zero-net gigs', () => {
+    const result = taxDeltaForGig(ytd, { gross: 100, expenses: 200, date: '2024-06-01' }, profile);
+    expect(result.amount).toBe(0);
+    expect(result.taxYear).toBe(2024);
+  });
+
+  it('should re-run split tax estimates for a prior year', () => {
+    const result2024 = calculateSplitTax(80000, 0, 10000, profile, 2024);
+    const result2025 = calculateSplitTax(80000, 0, 10000, profile, 2025);
+
+    expect(result2024.taxYear).toBe(2024);
+    expect(result2025.taxYear).toBe(2025);
+    expect(result2024.federalTax1099).toBeGreaterThan(result2025.federalTax1099);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * 2024 Tax Configuration
+ * 
+ * Used to re-run estimates for 2024 returns (gigs dated in 2024).
+ * 
+ * FEDERAL: Official 2024 values from IRS Revenue Procedure 2023-34 ✅
+ * STATES: carried forward from the 2025 tables and marked unverified; most
+ * states index brackets annually, so 2024 state figures are approximate.
+ */
+
+import type { FilingStatus, TaxConfig } from './types';
+import { carryForwardLocalities, carryForwardStates } from './helpers';
+import config2025 from './2025';
+
+const FEDERAL_STANDARD_DEDUCTION_2024: Record<FilingStatus, number> = {
+  single: 14600,
+  married_joint: 29200,
+  married_separate: 14600,
+  head: 21900,
+};
+
+const SINGLE_BRACKETS_2024 = [
+  { upTo: 11600, rate: 0.10 },
+  { upTo: 47150, rate: 0.12 },
+  { upTo: 100525, rate: 0.22 },
+  { upTo: 191950, rate: 0.24 },
+  { upTo: 243725, rate: 0.32 },
+  { upTo: 609350, rate: 0.35 },
+  { upTo: null, rate: 0.37 },
+];
+
+const config2024: TaxConfig = {
+  // ============================================================================
+  // FEDERAL TAX (2024) - Official IRS Values
+  // ============================================================================
+  // Source: IRS Revenue Procedure 2023-34
+  // https://www.irs.gov/pub/irs-drop/rp-23-34.pdf
+  federal: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION_2024,
+    brackets: {
+      single: SINGLE_BRACKETS_2024,
+      married_joint: [
+        { upTo: 23200, rate: 0.10 },
+        { upTo: 94300, rate: 0.12 },
+        { upTo: 201050, rate: 0.22 },
+        { upTo: 383900, rate: 0.24 },
+        { upTo: 487450, rate: 0.32 },
+        { upTo: 731200, rate: 0.35 },
+        { upTo: null, rate: 0.37 },
+      ],
+      married_separate: SINGLE_BRACKETS_2024,  // MFS uses same brackets as Single
+      head: [
+        { upTo: 16550, rate: 0.10 },
+        { upTo: 63100, rate: 0.12 },
+        { upTo: 100500, rate: 0.22 },
+        { upTo: 191950, rate: 0.24 },
+        { upTo: 243700, rate: 0.32 },
+        { upTo: 609350, rate: 0.35 },
+        { upTo: null, rate: 0.37 },
+      ],
+    },
+  },
+
+  // ============================================================================
+  // STATE TAXES
+  // ============================================================================
+  // Replace with 2024 tables; until then the registry notice tells users
+  // state estimates use 2025 tables
+  states: carryForwardStates(config2025.states),
+  statesCarriedFrom: 2025,
+  localities: carryForwardLocalities(config2025.localities),
+
+  // ============================================================================
+  // QBI DEDUCTION (2024)
+  // ============================================================================
+  // Source: IRS Revenue Procedure 2023-34, section 3.27
+  qbi: {
+    rate: 0.20,
+    threshold: {
+      single: 191950,
+      married_joint: 383900,
+      married_separate: 191950,
+      head: 191950,
+    },
+    phaseInRange: {
+      single: 50000,
+      married_joint: 100000,
+      married_separate: 50000,
+      head: 50000,
+    },
+  },
+
+  // ============================================================================
+  // SELF-EMPLOYMENT TAX (2024)
+  // ============================================================================
+  seTax: {
+    socialSecurityRate: 0.124,
+    socialSecurityWageBase: 168600,
+    medicareRate: 0.029,
+    additionalMedicareThreshold: {
+      single: 200000,
+      married_joint: 250000,
+      married_separate: 125000,
+      head: 200000,
+    },
+    additionalMedicareRate: 0.009,
+  },
+
+  // ============================================================================
+  // ESTIMATED TAX (SAFE HARBOR / UNDERPAYMENT PENALTY) (2024)
+  // ============================================================================
+  // Source: Form 1040-ES and Form 2210 instructions; underpayment rate 8% for every quarter of 2024
+  estimatedTax: {
+    currentYearPercent: 0.90,
+    priorYearPercent: 1.00,
+    highIncomePriorYearPercent: 1.10,
+    highIncomeAGI: {
+      single: 150000,
+      married_joint: 150000,
+      married_separate: 75000,
+      head: 150000,
+    },
+    minimumBalanceDue: 1000,
+    underpaymentRate: 0.08,
+  },
+};
+
+export default config2024;
@@ -4,76 +4,50 @@
  * This file contains all tax rates, brackets, and deductions for tax year 2025.
  * 
  * FEDERAL: Official 2025 values from IRS Revenue Procedure 2024-40 ✅
- * STATES: mixed support. Some entries are still planning estimates and must not be
- * treated as filing-ready tax tables until verified against the relevant state source.
+ * STATES: every state and DC has brackets, a standard deduction and (where the
+ * state has one) a personal exemption. Each entry carries a `verified` flag:
+ * entries with `verified: false` are planning estimates and must not be treated
+ * as filing-ready tax tables until checked against the linked state source.
  *
- * Verification targets:
- * - California: CA Franchise Tax Board annual tables
- * - New York: NY Dept of Taxation + NYC Finance + Yonkers
- * - Maryland: MD Comptroller state brackets + county piggyback rates
- * - Tennessee: No state income tax on wages
- * - Texas: No state income tax
+ * Not modeled: phase-outs, recapture, credits that replace deductions (UT, CA
+ * personal exemption credit) and state-specific business income deductions (OH).
  */
 
-import { FEDERAL_2025, type FilingStatus as FederalFilingStatus } from './federal_2025';
+import { FEDERAL_2025 } from './federal_2025';
+import { LOCALITIES_2025 } from './localities_2025';
+import type { FilingStatus, TaxConfig } from './types';
+import { allStatuses, flat, noIncomeTax } from './helpers';
 
-export type FilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head';
+export type {
+  FilingStatus,
+  Bracket,
+  JurisdictionConfig,
+  StateJurisdictionConfig,
+  StateCode,
+  TaxConfig,
+  LocalJurisdictionConfig,
+  LocalTaxBase,
+} from './types';
 
-export interface Bracket {
-  upTo: number | null; // null = top bracket (no upper limit)
-  rate: number;        // decimal (e.g., 0.10 for 10%)
-}
+/** @deprecated Use TaxConfig; kept for existing imports */
+export type TaxConfig2025 = TaxConfig;
 
-export interface JurisdictionConfig {
-  standardDeduction: Record<FilingStatus, number>;
-  brackets: Record<FilingStatus, Bracket[]>;
-  
-  // Optional state-specific features
-  local?: {
-    // Maryland: County flat rates (% of Maryland taxable income)
-    mdCountyRates?: Record<string, number>;
-    
-    // New York City: Resident tax brackets
-    nycResidentRates?: Record<FilingStatus, Bracket[]>;
-    
-    // Yonkers: Surcharge as % of NYS tax
-    yonkersSurcharge?: number;
-    
-    // California: Millionaire surtax
-    millionaireSurtax?: {
-      threshold: number;
-      extraRate: number;
-    };
-  };
-}
-
-export type StateCode = 
-  | 'AL' | 'AK' | 'AZ' | 'AR' | 'CA' | 'CO' | 'CT' | 'DE' | 'FL' | 'GA'
-  | 'HI' | 'ID' | 'IL' | 'IN' | 'IA' | 'KS' | 'KY' | 'LA' | 'ME' | 'MD'
-  | 'MA' | 'MI' | 'MN' | 'MS' | 'MO' | 'MT' | 'NE' | 'NV' | 'NH' | 'NJ'
-  | 'NM' | 'NY' | 'NC' | 'ND' | 'OH' | 'OK' | 'OR' | 'PA' | 'RI' | 'SC'
-  | 'SD' | 'TN' | 'TX' | 'UT' | 'VT' | 'VA' | 'WA' | 'WV' | 'WI' | 'WY'
-  | 'DC';
-
-export interface TaxConfig2025 {
-  federal: JurisdictionConfig;
-  states: Record<StateCode, JurisdictionConfig>;
-  seTax: {
-    socialSecurityRate: number;      // Combined employer + employee
-    socialSecurityWageBase: number;  // 2025 wage base limit
-    medicareRate: number;            // Combined rate
-    additionalMedicareThreshold: Record<FilingStatus, number>; // For 0.9% additional
-  };
-}
+// States that start from federal taxable income use the federal standard deduction
+const FEDERAL_STANDARD_DEDUCTION: Record<FilingStatus, number> = {
+  single: FEDERAL_2025.standardDeduction.single,
+  married_joint: FEDERAL_2025.standardDeduction.married_joint,
+  married_separate: FEDERAL_2025.standardDeduction.single,
+  head: FEDERAL_2025.standardDeduction.head,
+};
 
 /**
  * 2025 Tax Configuration
  * 
  * Mixed 2025 configuration:
  * - Federal values are verified.
- * - State values marked TODO remain planning estimates for reserve guidance only.
+ * - State values with `verified: false` remain planning estimates for reserve guidance only.
  */
-const config2025: TaxConfig2025 = {
+const config2025: TaxConfig = {
   // ============================================================================
   // FEDERAL TAX (2025) - Official IRS Values 
   // ============================================================================
@@ -99,36 +73,10 @@ const config2025: TaxConfig2025 = {
   // ============================================================================
   states: {
     // Tennessee: No state income tax on wages
-    TN: {
-    standardDeduction: {
-      single: 0,
-      married_joint: 0,
-      married_separate: 0,
-      head: 0,
-    },
-    brackets: {
-      single: [{ upTo: null, rate: 0 }],
-      married_joint: [{ upTo: null, rate: 0 }],
-      married_separate: [{ upTo: null, rate: 0 }],
-      head: [{ upTo: null, rate: 0 }],
-    },
-  },
+    TN: noIncomeTax('https://www.tn.gov/revenue/taxes/hall-income-tax.html'),
 
   // Texas: No state income tax
-  TX: {
-    standardDeduction: {
-      single: 0,
-      married_joint: 0,
-      married_separate: 0,
-      head: 0,
-    },
-    brackets: {
-      single: [{ upTo: null, rate: 0 }],
-      married_joint: [{ upTo: null, rate: 0 }],
-      married_separate: [{ upTo: null, rate: 0 }],
-      head: [{ upTo: null, rate: 0 }],
-    },
-  },
+  TX: noIncomeTax('https://comptroller.texas.gov/taxes/'),
 
   // California
   // TODO: Update from CA Franchise Tax Board
@@ -193,6 +141,8 @@ const config2025: TaxConfig2025 = {
         extraRate: 0.01,
       },
     },
+    verified: false,
+    source: 'https://www.ftb.ca.gov/forms/2025/2025-540-tax-rate-schedules.html',
   },
 
   // New York
@@ -284,6 +234,8 @@ const config2025: TaxConfig2025 = {
       // Yonkers: 16.75% surcharge on NYS tax (if resident)
       yonkersSurcharge: 0.1675,
     },
+    verified: false,
+    source: 'https://www.tax.ny.gov/pit/file/tax_tables.htm',
   },
 
   // Maryland
@@ -370,78 +322,1074 @@ const config2025: TaxConfig2025 = {
         'Worcester': 0.0125,
       },
     },
+    verified: false,
+    source: 'https://www.marylandtaxes.gov/individual/income/tax-info/tax-rates.php',
   },
 
   // ============================================================================
-  // FALLBACK STATES (Conservative 5% flat rate estimate)
+  // NO WAGE / SELF-EMPLOYMENT INCOME TAX
   // ============================================================================
-  // For states without full tax engine support, we use a conservative 5% flat rate.
-  // This provides reasonable estimates until we add full bracket support.
-  // States with no income tax are marked with 0% rate.
-  
-  // No income tax states
-  AL: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  AK: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  FL: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  NV: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  NH: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  SD: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  WA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  WY: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0 }], married_joint: [{ upTo: null, rate: 0 }], married_separate: [{ upTo: null, rate: 0 }], head: [{ upTo: null, rate: 0 }] } },
-  
-  // States with income tax (5% flat rate estimate)
-  AZ: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  AR: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  CO: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  CT: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  DE: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  GA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  HI: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  ID: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  IL: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  IN: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  IA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  KS: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  KY: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  LA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  ME: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  MA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  MI: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  MN: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  MS: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  MO: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  MT: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  NE: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  NJ: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  NM: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  NC: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  ND: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  OH: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  OK: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  OR: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  PA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  RI: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  SC: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  UT: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  VT: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  VA: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  WV: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  WI: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
-  DC: { standardDeduction: { single: 0, married_joint: 0, married_separate: 0, head: 0 }, brackets: { single: [{ upTo: null, rate: 0.05 }], married_joint: [{ upTo: null, rate: 0.05 }], married_separate: [{ upTo: null, rate: 0.05 }], head: [{ upTo: null, rate: 0.05 }] } },
+  // WA taxes long-term capital gains only; NH's interest & dividends tax was
+  // repealed starting with tax year 2025.
+  AK: noIncomeTax('https://tax.alaska.gov/'),
+  FL: noIncomeTax('https://floridarevenue.com/taxes/taxesfees/Pages/individual.aspx'),
+  NV: noIncomeTax('https://tax.nv.gov/'),
+  NH: noIncomeTax('https://www.revenue.nh.gov/taxes-glance/interest-dividends-tax'),
+  SD: noIncomeTax('https://dor.sd.gov/'),
+  WA: noIncomeTax('https://dor.wa.gov/taxes-rates/other-taxes/capital-gains-tax'),
+  WY: noIncomeTax('https://revenue.wyo.gov/'),
+
+  // ============================================================================
+  // FLAT-RATE STATES
+  // ============================================================================
+
+  // Arizona: 2.5% flat, standard deduction tracks federal
+  // TODO: Confirm AZ conformity to the 2025 federal standard deduction
+  AZ: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: allStatuses(flat(0.025)),
+    verified: false,
+    source: 'https://azdor.gov/forms/individual/form-140-arizona-resident-personal-income-tax-booklet',
+  },
+
+  // Colorado: 4.4% flat on federal taxable income
+  CO: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: allStatuses(flat(0.044)),
+    verified: true,
+    source: 'https://tax.colorado.gov/individual-income-tax-guide',
+  },
+
+  // Georgia: 5.19% flat (HB 111), personal exemptions folded into standard deduction
+  GA: {
+    standardDeduction: {
+      single: 12000,
+      married_joint: 24000,
+      married_separate: 12000,
+      head: 12000,
+    },
+    brackets: allStatuses(flat(0.0519)),
+    verified: true,
+    source: 'https://dor.georgia.gov/tax-tables-georgia-tax-rate-schedule',
+  },
+
+  // Idaho: 5.3% over a zero-rate band (HB 40), standard deduction tracks federal
+  // TODO: Confirm 2025 zero-rate band thresholds from Form 40 instructions
+  ID: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: {
+      single: [{ upTo: 4811, rate: 0 }, { upTo: null, rate: 0.053 }],
+      married_joint: [{ upTo: 9622, rate: 0 }, { upTo: null, rate: 0.053 }],
+      married_separate: [{ upTo: 4811, rate: 0 }, { upTo: null, rate: 0.053 }],
+      head: [{ upTo: 9622, rate: 0 }, { upTo: null, rate: 0.053 }],
+    },
+    verified: false,
+    source: 'https://tax.idaho.gov/taxes/income-tax/individual-income/',
+  },
+
+  // Illinois: 4.95% flat, no standard deduction
+  IL: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 2850,
+      married_joint: 5700,
+      married_separate: 2850,
+      head: 2850,
+    },
+    brackets: allStatuses(flat(0.0495)),
+    verified: true,
+    source: 'https://tax.illinois.gov/research/taxrates/income.html',
+  },
+
+  // Indiana: 3.0% flat state rate (county taxes are separate)
+  IN: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 1000,
+      married_joint: 2000,
+      married_separate: 1000,
+      head: 1000,
+    },
+    brackets: allStatuses(flat(0.03)),
+    verified: true,
+    source: 'https://www.in.gov/dor/individual-income-taxes/',
+  },
+
+  // Iowa: 3.8% flat on federal taxable income
+  IA: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: allStatuses(flat(0.038)),
+    verified: true,
+    source: 'https://revenue.iowa.gov/taxes/tax-guidance/individual-income-tax/iowa-individual-income-tax-rates',
+  },
+
+  // Kentucky: 4.0% flat, per-person standard deduction
+  KY: {
+    standardDeduction: {
+      single: 3270,
+      married_joint: 6540,
+      married_separate: 3270,
+      head: 3270,
+    },
+    brackets: allStatuses(flat(0.04)),
+    verified: true,
+    source: 'https://revenue.ky.gov/Individual/Individual-Income-Tax/Pages/default.aspx',
+  },
+
+  // Louisiana: 3.0% flat starting 2025 (Act 11, 2024 special session)
+  LA: {
+    standardDeduction: {
+      single: 12500,
+      married_joint: 25000,
+      married_separate: 12500,
+      head: 25000,
+    },
+    brackets: allStatuses(flat(0.03)),
+    verified: true,
+    source: 'https://revenue.louisiana.gov/IndividualIncomeTax',
+  },
+
+  // Massachusetts: 5.0% flat plus 4% surtax over the indexed threshold
+  MA: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 4400,
+      married_joint: 8800,
+      married_separate: 4400,
+      head: 6800,
+    },
+    brackets: allStatuses(flat(0.05)),
+    local: {
+      millionaireSurtax: {
+        threshold: 1083150,
+        extraRate: 0.04,
+      },
+    },
+    verified: true,
+    source: 'https://www.mass.gov/info-details/massachusetts-tax-rates',
+  },
+
+  // Michigan: 4.25% flat state rate (city taxes are separate)
+  MI: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 5800,
+      married_joint: 11600,
+      married_separate: 5800,
+      head: 5800,
+    },
+    brackets: allStatuses(flat(0.0425)),
+    verified: true,
+    source: 'https://www.michigan.gov/taxes/iit',
+  },
+
+  // North Carolina: 4.25% flat
+  NC: {
+    standardDeduction: {
+      single: 12750,
+      married_joint: 25500,
+      married_separate: 12750,
+      head: 19125,
+    },
+    brackets: allStatuses(flat(0.0425)),
+    verified: true,
+    source: 'https://www.ncdor.gov/taxes-forms/individual-income-tax',
+  },
+
+  // Pennsylvania: 3.07% flat, no standard deduction or exemptions
+  PA: {
+    standardDeduction: allStatuses(0),
+    brackets: allStatuses(flat(0.0307)),
+    verified: true,
+    source: 'https://www.revenue.pa.gov/TaxTypes/PIT/Pages/default.aspx',
+  },
+
+  // Utah: 4.5% flat (HB 106). The taxpayer credit is not modeled, so this
+  // slightly overstates tax for lower incomes.
+  UT: {
+    standardDeduction: allStatuses(0),
+    brackets: allStatuses(flat(0.045)),
+    verified: true,
+    source: 'https://incometax.utah.gov/paying/tax-rates',
+  },
+
+  // ============================================================================
+  // PROGRESSIVE-BRACKET STATES
+  // ============================================================================
+
+  // Alabama: standard deduction shown at its maximum (phases down above $23,000 AGI).
+  // The deduction for federal income tax paid is not modeled.
+  AL: {
+    standardDeduction: {
+      single: 3000,
+      married_joint: 8500,
+      married_separate: 4250,
+      head: 5200,
+    },
+    personalExemption: {
+      single: 1500,
+      married_joint: 3000,
+      married_separate: 1500,
+      head: 3000,
+    },
+    brackets: {
+      single: [
+        { upTo: 500, rate: 0.02 },
+        { upTo: 3000, rate: 0.04 },
+        { upTo: null, rate: 0.05 },
+      ],
+      married_joint: [
+        { upTo: 1000, rate: 0.02 },
+        { upTo: 6000, rate: 0.04 },
+        { upTo: null, rate: 0.05 },
+      ],
+      married_separate: [
+        { upTo: 500, rate: 0.02 },
+        { upTo: 3000, rate: 0.04 },
+        { upTo: null, rate: 0.05 },
+      ],
+      head: [
+        { upTo: 500, rate: 0.02 },
+        { upTo: 3000, rate: 0.04 },
+        { upTo: null, rate: 0.05 },
+      ],
+    },
+    verified: true,
+    source: 'https://www.revenue.alabama.gov/individual-corporate/individual-income-tax/',
+  },
+
+  // Arkansas: 3.9% top rate, same schedule for every filing status
+  // TODO: Confirm 2025 inflation-indexed bracket thresholds
+  AR: {
+    standardDeduction: {
+      single: 2410,
+      married_joint: 4820,
+      married_separate: 2410,
+      head: 2410,
+    },
+    brackets: allStatuses([
+      { upTo: 5499, rate: 0 },
+      { upTo: 10899, rate: 0.02 },
+      { upTo: 15599, rate: 0.03 },
+      { upTo: 25699, rate: 0.034 },
+      { upTo: null, rate: 0.039 },
+    ]),
+    verified: false,
+    source: 'https://www.dfa.arkansas.gov/office/taxes/income-tax-administration/',
+  },
+
+  // Connecticut: no standard deduction; personal exemption shown before phase-out
+  CT: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 15000,
+      married_joint: 24000,
+      married_separate: 12000,
+      head: 19000,
+    },
+    brackets: {
+      single: [
+        { upTo: 10000, rate: 0.02 },
+        { upTo: 50000, rate: 0.045 },
+        { upTo: 100000, rate: 0.055 },
+        { upTo: 200000, rate: 0.06 },
+        { upTo: 250000, rate: 0.065 },
+        { upTo: 500000, rate: 0.069 },
+        { upTo: null, rate: 0.0699 },
+      ],
+      married_joint: [
+        { upTo: 20000, rate: 0.02 },
+        { upTo: 100000, rate: 0.045 },
+        { upTo: 200000, rate: 0.055 },
+        { upTo: 400000, rate: 0.06 },
+        { upTo: 500000, rate: 0.065 },
+        { upTo: 1000000, rate: 0.069 },
+        { upTo: null, rate: 0.0699 },
+      ],
+      married_separate: [
+        { upTo: 10000, rate: 0.02 },
+        { upTo: 50000, rate: 0.045 },
+        { upTo: 100000, rate: 0.055 },
+        { upTo: 200000, rate: 0.06 },
+        { upTo: 250000, rate: 0.065 },
+        { upTo: 500000, rate: 0.069 },
+        { upTo: null, rate: 0.0699 },
+      ],
+      head: [
+        { upTo: 16000, rate: 0.02 },
+        { upTo: 80000, rate: 0.045 },
+        { upTo: 160000, rate: 0.055 },
+        { upTo: 320000, rate: 0.06 },
+        { upTo: 400000, rate: 0.065 },
+        { upTo: 800000, rate: 0.069 },
+        { upTo: null, rate: 0.0699 },
+      ],
+    },
+    verified: true,
+    source: 'https://portal.ct.gov/drs/individuals/individual-income-tax-portal',
+  },
+
+  // Delaware: same schedule for every filing status
+  DE: {
+    standardDeduction: {
+      single: 3250,
+      married_joint: 6500,
+      married_separate: 3250,
+      head: 3250,
+    },
+    brackets: allStatuses([
+      { upTo: 2000, rate: 0 },
+      { upTo: 5000, rate: 0.022 },
+      { upTo: 10000, rate: 0.039 },
+      { upTo: 20000, rate: 0.048 },
+      { upTo: 25000, rate: 0.052 },
+      { upTo: 60000, rate: 0.0555 },
+      { upTo: null, rate: 0.066 },
+    ]),
+    verified: true,
+    source: 'https://revenue.delaware.gov/personal-income-tax/',
+  },
+
+  // District of Columbia: same schedule for every filing status, federal standard deduction
+  DC: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: allStatuses([
+      { upTo: 10000, rate: 0.04 },
+      { upTo: 40000, rate: 0.06 },
+      { upTo: 60000, rate: 0.065 },
+      { upTo: 250000, rate: 0.085 },
+      { upTo: 500000, rate: 0.0925 },
+      { upTo: 1000000, rate: 0.0975 },
+      { upTo: null, rate: 0.1075 },
+    ]),
+    verified: true,
+    source: 'https://otr.cfo.dc.gov/page/dc-individual-and-fiduciary-income-tax-rates',
+  },
+
+  // Hawaii: 2025 schedule from Act 46 (2024)
+  // TODO: Confirm 2025 standard deduction against Form N-11 instructions
+  HI: {
+    standardDeduction: {
+      single: 4400,
+      married_joint: 8800,
+      married_separate: 4400,
+      head: 6424,
+    },
+    personalExemption: {
+      single: 1144,
+      married_joint: 2288,
+      married_separate: 1144,
+      head: 1144,
+    },
+    brackets: {
+      single: [
+        { upTo: 9600, rate: 0.014 },
+        { upTo: 14400, rate: 0.032 },
+        { upTo: 19200, rate: 0.055 },
+        { upTo: 24000, rate: 0.064 },
+        { upTo: 36000, rate: 0.068 },
+        { upTo: 48000, rate: 0.072 },
+        { upTo: 125000, rate: 0.076 },
+        { upTo: 175000, rate: 0.079 },
+        { upTo: 225000, rate: 0.0825 },
+        { upTo: 275000, rate: 0.09 },
+        { upTo: 325000, rate: 0.10 },
+        { upTo: null, rate: 0.11 },
+      ],
+      married_joint: [
+        { upTo: 19200, rate: 0.014 },
+        { upTo: 28800, rate: 0.032 },
+        { upTo: 38400, rate: 0.055 },
+        { upTo: 48000, rate: 0.064 },
+        { upTo: 72000, rate: 0.068 },
+        { upTo: 96000, rate: 0.072 },
+        { upTo: 250000, rate: 0.076 },
+        { upTo: 350000, rate: 0.079 },
+        { upTo: 450000, rate: 0.0825 },
+        { upTo: 550000, rate: 0.09 },
+        { upTo: 650000, rate: 0.10 },
+        { upTo: null, rate: 0.11 },
+      ],
+      married_separate: [
+        { upTo: 9600, rate: 0.014 },
+        { upTo: 14400, rate: 0.032 },
+        { upTo: 19200, rate: 0.055 },
+        { upTo: 24000, rate: 0.064 },
+        { upTo: 36000, rate: 0.068 },
+        { upTo: 48000, rate: 0.072 },
+        { upTo: 125000, rate: 0.076 },
+        { upTo: 175000, rate: 0.079 },
+        { upTo: 225000, rate: 0.0825 },
+        { upTo: 275000, rate: 0.09 },
+        { upTo: 325000, rate: 0.10 },
+        { upTo: null, rate: 0.11 },
+      ],
+      head: [
+        { upTo: 14400, rate: 0.014 },
+        { upTo: 21600, rate: 0.032 },
+        { upTo: 28800, rate: 0.055 },
+        { upTo: 36000, rate: 0.064 },
+        { upTo: 54000, rate: 0.068 },
+        { upTo: 72000, rate: 0.072 },
+        { upTo: 187500, rate: 0.076 },
+        { upTo: 262500, rate: 0.079 },
+        { upTo: 337500, rate: 0.0825 },
+        { upTo: 412500, rate: 0.09 },
+        { upTo: 487500, rate: 0.10 },
+        { upTo: null, rate: 0.11 },
+      ],
+    },
+    verified: false,
+    source: 'https://tax.hawaii.gov/forms/a1_b1_1income/',
+  },
+
+  // Kansas: two-bracket schedule from SB 1 (2024)
+  KS: {
+    standardDeduction: {
+      single: 3605,
+      married_joint: 8240,
+      married_separate: 4120,
+      head: 6180,
+    },
+    personalExemption: {
+      single: 9160,
+      married_joint: 18320,
+      married_separate: 9160,
+      head: 9160,
+    },
+    brackets: {
+      single: [{ upTo: 23000, rate: 0.052 }, { upTo: null, rate: 0.0558 }],
+      married_joint: [{ upTo: 46000, rate: 0.052 }, { upTo: null, rate: 0.0558 }],
+      married_separate: [{ upTo: 23000, rate: 0.052 }, { upTo: null, rate: 0.0558 }],
+      head: [{ upTo: 23000, rate: 0.052 }, { upTo: null, rate: 0.0558 }],
+    },
+    verified: true,
+    source: 'https://www.ksrevenue.gov/perstaxtypesii.html',
+  },
+
+  // Maine: standard deduction tracks federal
+  // TODO: Confirm 2025 inflation-indexed thresholds and exemption amount
+  ME: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    personalExemption: {
+      single: 5150,
+      married_joint: 10300,
+      married_separate: 5150,
+      head: 5150,
+    },
+    brackets: {
+      single: [
+        { upTo: 26800, rate: 0.058 },
+        { upTo: 63450, rate: 0.0675 },
+        { upTo: null, rate: 0.0715 },
+      ],
+      married_joint: [
+        { upTo: 53600, rate: 0.058 },
+        { upTo: 126900, rate: 0.0675 },
+        { upTo: null, rate: 0.0715 },
+      ],
+      married_separate: [
+        { upTo: 26800, rate: 0.058 },
+        { upTo: 63450, rate: 0.0675 },
+        { upTo: null, rate: 0.0715 },
+      ],
+      head: [
+        { upTo: 40200, rate: 0.058 },
+        { upTo: 95150, rate: 0.0675 },
+        { upTo: null, rate: 0.0715 },
+      ],
+    },
+    verified: false,
+    source: 'https://www.maine.gov/revenue/taxes/income-estate-tax/individual-income-tax',
+  },
+
+  // Minnesota
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  MN: {
+    standardDeduction: {
+      single: 14950,
+      married_joint: 29900,
+      married_separate: 14950,
+      head: 22500,
+    },
+    brackets: {
+      single: [
+        { upTo: 32570, rate: 0.0535 },
+        { upTo: 106990, rate: 0.068 },
+        { upTo: 198630, rate: 0.0785 },
+        { upTo: null, rate: 0.0985 },
+      ],
+      married_joint: [
+        { upTo: 47620, rate: 0.0535 },
+        { upTo: 189180, rate: 0.068 },
+        { upTo: 330410, rate: 0.0785 },
+        { upTo: null, rate: 0.0985 },
+      ],
+      married_separate: [
+        { upTo: 23810, rate: 0.0535 },
+        { upTo: 94590, rate: 0.068 },
+        { upTo: 165205, rate: 0.0785 },
+        { upTo: null, rate: 0.0985 },
+      ],
+      head: [
+        { upTo: 40100, rate: 0.0535 },
+        { upTo: 161130, rate: 0.068 },
+        { upTo: 264050, rate: 0.0785 },
+        { upTo: null, rate: 0.0985 },
+      ],
+    },
+    verified: false,
+    source: 'https://www.revenue.state.mn.us/minnesota-income-tax-rates-and-brackets',
+  },
+
+  // Mississippi: first $10,000 exempt, 4.4% above
+  MS: {
+    standardDeduction: {
+      single: 2300,
+      married_joint: 4600,
+      married_separate: 2300,
+      head: 3400,
+    },
+    personalExemption: {
+      single: 6000,
+      married_joint: 12000,
+      married_separate: 6000,
+      head: 9500,
+    },
+    brackets: allStatuses([
+      { upTo: 10000, rate: 0 },
+      { upTo: null, rate: 0.044 },
+    ]),
+    verified: true,
+    source: 'https://www.dor.ms.gov/individual/tax-rates',
+  },
+
+  // Missouri: same schedule for every filing status, federal standard deduction
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  MO: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: allStatuses([
+      { upTo: 1313, rate: 0 },
+      { upTo: 2626, rate: 0.02 },
+      { upTo: 3939, rate: 0.025 },
+      { upTo: 5252, rate: 0.03 },
+      { upTo: 6565, rate: 0.035 },
+      { upTo: 7878, rate: 0.04 },
+      { upTo: 9191, rate: 0.045 },
+      { upTo: null, rate: 0.047 },
+    ]),
+    verified: false,
+    source: 'https://dor.mo.gov/taxation/individual/tax-types/income/',
+  },
+
+  // Montana: two brackets on federal taxable income
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  MT: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: {
+      single: [{ upTo: 21100, rate: 0.047 }, { upTo: null, rate: 0.059 }],
+      married_joint: [{ upTo: 42200, rate: 0.047 }, { upTo: null, rate: 0.059 }],
+      married_separate: [{ upTo: 21100, rate: 0.047 }, { upTo: null, rate: 0.059 }],
+      head: [{ upTo: 31700, rate: 0.047 }, { upTo: null, rate: 0.059 }],
+    },
+    verified: false,
+    source: 'https://revenue.mt.gov/taxes/individual-income-tax',
+  },
+
+  // Nebraska
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  NE: {
+    standardDeduction: {
+      single: 8600,
+      married_joint: 17200,
+      married_separate: 8600,
+      head: 12650,
+    },
+    brackets: {
+      single: [
+        { upTo: 4030, rate: 0.0246 },
+        { upTo: 24120, rate: 0.0351 },
+        { upTo: 38870, rate: 0.0501 },
+        { upTo: null, rate: 0.052 },
+      ],
+      married_joint: [
+        { upTo: 8040, rate: 0.0246 },
+        { upTo: 48250, rate: 0.0351 },
+        { upTo: 77730, rate: 0.0501 },
+        { upTo: null, rate: 0.052 },
+      ],
+      married_separate: [
+        { upTo: 4030, rate: 0.0246 },
+        { upTo: 24120, rate: 0.0351 },
+        { upTo: 38870, rate: 0.0501 },
+        { upTo: null, rate: 0.052 },
+      ],
+      head: [
+        { upTo: 7510, rate: 0.0246 },
+        { upTo: 38590, rate: 0.0351 },
+        { upTo: 57630, rate: 0.0501 },
+        { upTo: null, rate: 0.052 },
+      ],
+    },
+    verified: false,
+    source: 'https://revenue.nebraska.gov/individuals',
+  },
+
+  // New Jersey: no standard deduction, $1,000 exemption per taxpayer
+  NJ: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 1000,
+      married_joint: 2000,
+      married_separate: 1000,
+      head: 1000,
+    },
+    brackets: {
+      single: [
+        { upTo: 20000, rate: 0.014 },
+        { upTo: 35000, rate: 0.0175 },
+        { upTo: 40000, rate: 0.035 },
+        { upTo: 75000, rate: 0.05525 },
+        { upTo: 500000, rate: 0.0637 },
+        { upTo: 1000000, rate: 0.0897 },
+        { upTo: null, rate: 0.1075 },
+      ],
+      married_joint: [
+        { upTo: 20000, rate: 0.014 },
+        { upTo: 50000, rate: 0.0175 },
+        { upTo: 70000, rate: 0.0245 },
+        { upTo: 80000, rate: 0.035 },
+        { upTo: 150000, rate: 0.05525 },
+        { upTo: 500000, rate: 0.0637 },
+        { upTo: 1000000, rate: 0.0897 },
+        { upTo: null, rate: 0.1075 },
+      ],
+      married_separate: [
+        { upTo: 20000, rate: 0.014 },
+        { upTo: 35000, rate: 0.0175 },
+        { upTo: 40000, rate: 0.035 },
+        { upTo: 75000, rate: 0.05525 },
+        { upTo: 500000, rate: 0.0637 },
+        { upTo: 1000000, rate: 0.0897 },
+        { upTo: null, rate: 0.1075 },
+      ],
+      head: [
+        { upTo: 20000, rate: 0.014 },
+        { upTo: 50000, rate: 0.0175 },
+        { upTo: 70000, rate: 0.0245 },
+        { upTo: 80000, rate: 0.035 },
+        { upTo: 150000, rate: 0.05525 },
+        { upTo: 500000, rate: 0.0637 },
+        { upTo: 1000000, rate: 0.0897 },
+        { upTo: null, rate: 0.1075 },
+      ],
+    },
+    verified: true,
+    source: 'https://www.nj.gov/treasury/taxation/taxtables.shtml',
+  },
+
+  // New Mexico: 2025 schedule from HB 252 (2024), federal standard deduction
+  // TODO: Confirm MFS thresholds against PIT-1 instructions
+  NM: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: {
+      single: [
+        { upTo: 5500, rate: 0.015 },
+        { upTo: 16500, rate: 0.032 },
+        { upTo: 33500, rate: 0.043 },
+        { upTo: 66500, rate: 0.047 },
+        { upTo: 210000, rate: 0.049 },
+        { upTo: null, rate: 0.059 },
+      ],
+      married_joint: [
+        { upTo: 8000, rate: 0.015 },
+        { upTo: 25000, rate: 0.032 },
+        { upTo: 50000, rate: 0.043 },
+        { upTo: 100000, rate: 0.047 },
+        { upTo: 315000, rate: 0.049 },
+        { upTo: null, rate: 0.059 },
+      ],
+      married_separate: [
+        { upTo: 4000, rate: 0.015 },
+        { upTo: 12500, rate: 0.032 },
+        { upTo: 25000, rate: 0.043 },
+        { upTo: 50000, rate: 0.047 },
+        { upTo: 157500, rate: 0.049 },
+        { upTo: null, rate: 0.059 },
+      ],
+      head: [
+        { upTo: 8000, rate: 0.015 },
+        { upTo: 25000, rate: 0.032 },
+        { upTo: 50000, rate: 0.043 },
+        { upTo: 100000, rate: 0.047 },
+        { upTo: 315000, rate: 0.049 },
+        { upTo: null, rate: 0.059 },
+      ],
+    },
+    verified: false,
+    source: 'https://www.tax.newmexico.gov/individuals/personal-income-tax-information-overview/',
+  },
+
+  // North Dakota: starts from federal taxable income
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  ND: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: {
+      single: [
+        { upTo: 48475, rate: 0 },
+        { upTo: 244825, rate: 0.0195 },
+        { upTo: null, rate: 0.025 },
+      ],
+      married_joint: [
+        { upTo: 80975, rate: 0 },
+        { upTo: 298075, rate: 0.0195 },
+        { upTo: null, rate: 0.025 },
+      ],
+      married_separate: [
+        { upTo: 40475, rate: 0 },
+        { upTo: 149025, rate: 0.0195 },
+        { upTo: null, rate: 0.025 },
+      ],
+      head: [
+        { upTo: 64950, rate: 0 },
+        { upTo: 271450, rate: 0.0195 },
+        { upTo: null, rate: 0.025 },
+      ],
+    },
+    verified: false,
+    source: 'https://www.tax.nd.gov/individual',
+  },
+
+  // Ohio: same schedule for every filing status. The business income deduction
+  // exempts the first $250,000 of Schedule C income ($125,000 married filing
+  // separately) and taxes business income above it at a flat 3% (Schedule IT BUS).
+  OH: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 2400,
+      married_joint: 4800,
+      married_separate: 2400,
+      head: 2400,
+    },
+    brackets: allStatuses([
+      { upTo: 26050, rate: 0 },
+      { upTo: 100000, rate: 0.0275 },
+      { upTo: null, rate: 0.03125 },
+    ]),
+    businessIncomeDeduction: {
+      amount: {
+        single: 250000,
+        married_joint: 250000,
+        married_separate: 125000,
+        head: 250000,
+      },
+      flatRate: 0.03,
+    },
+    verified: false,
+    source: 'https://tax.ohio.gov/individual/resources/annual-tax-rates',
+  },
+
+  // Oklahoma: HOH uses the married-joint schedule
+  OK: {
+    standardDeduction: {
+      single: 6350,
+      married_joint: 12700,
+      married_separate: 6350,
+      head: 9350,
+    },
+    personalExemption: {
+      single: 1000,
+      married_joint: 2000,
+      married_separate: 1000,
+      head: 1000,
+    },
+    brackets: {
+      single: [
+        { upTo: 1000, rate: 0.0025 },
+        { upTo: 2500, rate: 0.0075 },
+        { upTo: 3750, rate: 0.0175 },
+        { upTo: 4900, rate: 0.0275 },
+        { upTo: 7200, rate: 0.0375 },
+        { upTo: null, rate: 0.0475 },
+      ],
+      married_joint: [
+        { upTo: 2000, rate: 0.0025 },
+        { upTo: 5000, rate: 0.0075 },
+        { upTo: 7500, rate: 0.0175 },
+        { upTo: 9800, rate: 0.0275 },
+        { upTo: 14400, rate: 0.0375 },
+        { upTo: null, rate: 0.0475 },
+      ],
+      married_separate: [
+        { upTo: 1000, rate: 0.0025 },
+        { upTo: 2500, rate: 0.0075 },
+        { upTo: 3750, rate: 0.0175 },
+        { upTo: 4900, rate: 0.0275 },
+        { upTo: 7200, rate: 0.0375 },
+        { upTo: null, rate: 0.0475 },
+      ],
+      head: [
+        { upTo: 2000, rate: 0.0025 },
+        { upTo: 5000, rate: 0.0075 },
+        { upTo: 7500, rate: 0.0175 },
+        { upTo: 9800, rate: 0.0275 },
+        { upTo: 14400, rate: 0.0375 },
+        { upTo: null, rate: 0.0475 },
+      ],
+    },
+    verified: true,
+    source: 'https://oklahoma.gov/tax/individuals/income-tax.html',
+  },
+
+  // Oregon: HOH uses the married-joint schedule. The federal tax subtraction is not modeled.
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  OR: {
+    standardDeduction: {
+      single: 2835,
+      married_joint: 5670,
+      married_separate: 2835,
+      head: 4560,
+    },
+    brackets: {
+      single: [
+        { upTo: 4400, rate: 0.0475 },
+        { upTo: 11050, rate: 0.0675 },
+        { upTo: 125000, rate: 0.0875 },
+        { upTo: null, rate: 0.099 },
+      ],
+      married_joint: [
+        { upTo: 8800, rate: 0.0475 },
+        { upTo: 22100, rate: 0.0675 },
+        { upTo: 250000, rate: 0.0875 },
+        { upTo: null, rate: 0.099 },
+      ],
+      married_separate: [
+        { upTo: 4400, rate: 0.0475 },
+        { upTo: 11050, rate: 0.0675 },
+        { upTo: 125000, rate: 0.0875 },
+        { upTo: null, rate: 0.099 },
+      ],
+      head: [
+        { upTo: 8800, rate: 0.0475 },
+        { upTo: 22100, rate: 0.0675 },
+        { upTo: 250000, rate: 0.0875 },
+        { upTo: null, rate: 0.099 },
+      ],
+    },
+    verified: false,
+    source: 'https://www.oregon.gov/dor/programs/individuals/pages/pit.aspx',
+  },
+
+  // Rhode Island: same schedule for every filing status
+  // TODO: Confirm 2025 inflation-indexed thresholds and exemption amount
+  RI: {
+    standardDeduction: {
+      single: 10900,
+      married_joint: 21800,
+      married_separate: 10900,
+      head: 16350,
+    },
+    personalExemption: {
+      single: 5100,
+      married_joint: 10200,
+      married_separate: 5100,
+      head: 5100,
+    },
+    brackets: allStatuses([
+      { upTo: 79900, rate: 0.0375 },
+      { upTo: 181650, rate: 0.0475 },
+      { upTo: null, rate: 0.0599 },
+    ]),
+    verified: false,
+    source: 'https://tax.ri.gov/tax-sections/personal-income-tax',
+  },
+
+  // South Carolina: same schedule for every filing status, federal standard deduction
+  // TODO: Confirm 2025 top rate and thresholds
+  SC: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION,
+    brackets: allStatuses([
+      { upTo: 3560, rate: 0 },
+      { upTo: 17830, rate: 0.03 },
+      { upTo: null, rate: 0.06 },
+    ]),
+    verified: false,
+    source: 'https://dor.sc.gov/iit',
+  },
+
+  // Vermont
+  // TODO: Confirm 2025 inflation-indexed thresholds and exemption amount
+  VT: {
+    standardDeduction: {
+      single: 7400,
+      married_joint: 14850,
+      married_separate: 7400,
+      head: 11100,
+    },
+    personalExemption: {
+      single: 5300,
+      married_joint: 10600,
+      married_separate: 5300,
+      head: 5300,
+    },
+    brackets: {
+      single: [
+        { upTo: 49400, rate: 0.0335 },
+        { upTo: 119700, rate: 0.066 },
+        { upTo: 249700, rate: 0.076 },
+        { upTo: null, rate: 0.0875 },
+      ],
+      married_joint: [
+        { upTo: 82500, rate: 0.0335 },
+        { upTo: 199450, rate: 0.066 },
+        { upTo: 304000, rate: 0.076 },
+        { upTo: null, rate: 0.0875 },
+      ],
+      married_separate: [
+        { upTo: 41250, rate: 0.0335 },
+        { upTo: 99725, rate: 0.066 },
+        { upTo: 152000, rate: 0.076 },
+        { upTo: null, rate: 0.0875 },
+      ],
+      head: [
+        { upTo: 66200, rate: 0.0335 },
+        { upTo: 170900, rate: 0.066 },
+        { upTo: 276900, rate: 0.076 },
+        { upTo: null, rate: 0.0875 },
+      ],
+    },
+    verified: false,
+    source: 'https://tax.vermont.gov/individuals/personal-income-tax',
+  },
+
+  // Virginia: same schedule for every filing status
+  VA: {
+    standardDeduction: {
+      single: 8500,
+      married_joint: 17000,
+      married_separate: 8500,
+      head: 8500,
+    },
+    personalExemption: {
+      single: 930,
+      married_joint: 1860,
+      married_separate: 930,
+      head: 930,
+    },
+    brackets: allStatuses([
+      { upTo: 3000, rate: 0.02 },
+      { upTo: 5000, rate: 0.03 },
+      { upTo: 17000, rate: 0.05 },
+      { upTo: null, rate: 0.0575 },
+    ]),
+    verified: true,
+    source: 'https://www.tax.virginia.gov/individual-income-tax',
+  },
+
+  // West Virginia: same schedule for every filing status, no standard deduction
+  // TODO: Confirm 2025 rates after the SB 2033 reduction
+  WV: {
+    standardDeduction: allStatuses(0),
+    personalExemption: {
+      single: 2000,
+      married_joint: 4000,
+      married_separate: 2000,
+      head: 2000,
+    },
+    brackets: allStatuses([
+      { upTo: 10000, rate: 0.0222 },
+      { upTo: 25000, rate: 0.0296 },
+      { upTo: 40000, rate: 0.0333 },
+      { upTo: 60000, rate: 0.0444 },
+      { upTo: null, rate: 0.0482 },
+    ]),
+    verified: false,
+    source: 'https://tax.wv.gov/Individuals/Pages/default.aspx',
+  },
+
+  // Wisconsin: standard deduction shown at its maximum (sliding scale phases it out)
+  // TODO: Confirm 2025 inflation-indexed thresholds
+  WI: {
+    standardDeduction: {
+      single: 13560,
+      married_joint: 25110,
+      married_separate: 11920,
+      head: 17530,
+    },
+    personalExemption: {
+      single: 700,
+      married_joint: 1400,
+      married_separate: 700,
+      head: 700,
+    },
+    brackets: {
+      single: [
+        { upTo: 14680, rate: 0.035 },
+        { upTo: 29370, rate: 0.044 },
+        { upTo: 323290, rate: 0.053 },
+        { upTo: null, rate: 0.0765 },
+      ],
+      married_joint: [
+        { upTo: 19580, rate: 0.035 },
+        { upTo: 39150, rate: 0.044 },
+        { upTo: 431060, rate: 0.053 },
+        { upTo: null, rate: 0.0765 },
+      ],
+      married_separate: [
+        { upTo: 9790, rate: 0.035 },
+        { upTo: 19575, rate: 0.044 },
+        { upTo: 215530, rate: 0.053 },
+        { upTo: null, rate: 0.0765 },
+      ],
+      head: [
+        { upTo: 14680, rate: 0.035 },
+        { upTo: 29370, rate: 0.044 },
+        { upTo: 323290, rate: 0.053 },
+        { upTo: null, rate: 0.0765 },
+      ],
+    },
+    verified: false,
+    source: 'https://www.revenue.wi.gov/Pages/FAQS/pcs-taxrates.aspx',
+  },
   }, // end states
 
+  // ============================================================================
+  // LOCAL INCOME TAXES (municipal / school district)
+  // ============================================================================
+  // See localities_2025.ts for sources
+  localities: LOCALITIES_2025,
+
+  // ============================================================================
+  // QBI DEDUCTION (2025)
+  // ============================================================================
+  // Source: IRS Revenue Procedure 2024-40, section 3.27
+  qbi: {
+    rate: 0.20,
+    threshold: {
+      single: 197300,
+      married_joint: 394600,
+      married_separate: 197300,
+      head: 197300,
+    },
+    phaseInRange: {
+      single: 50000,
+      married_joint: 100000,
+      married_separate: 50000,
+      head: 50000,
+    },
+  },
+
   // ============================================================================
   // SELF-EMPLOYMENT TAX (2025)
   // ============================================================================
-  // TODO: Update from IRS for 2025
   // Source: https://www.irs.gov/businesses/small-businesses-self-employed/self-employment-tax-social-security-and-medicare-taxes
+  // Wage base: SSA 2025 COLA fact sheet
   seTax: {
     // Social Security: 12.4% (employer 6.2% + employee 6.2%)
     socialSecurityRate: 0.124,
     
-    // 2025 Social Security wage base
-    // TODO: Update when announced (2024 was $168,600)
-    socialSecurityWageBase: 168600,
+    // 2025 Social Security wage base (2024 was $168,600)
+    socialSecurityWageBase: 176100,
     
     // Medicare: 2.9% (employer 1.45% + employee 1.45%)
     medicareRate: 0.029,
@@ -454,6 +1402,25 @@ const config2025: TaxConfig2025 = {
       married_separate: 125000,
       head: 200000,
     },
+    additionalMedicareRate: 0.009,
+  },
+
+  // ============================================================================
+  // ESTIMATED TAX (SAFE HARBOR / UNDERPAYMENT PENALTY) (2025)
+  // ============================================================================
+  // Source: Form 1040-ES and Form 2210 instructions; underpayment rate 7% for every quarter of 2025
+  estimatedTax: {
+    currentYearPercent: 0.90,
+    priorYearPercent: 1.00,
+    highIncomePriorYearPercent: 1.10,
+    highIncomeAGI: {
+      single: 150000,
+      married_joint: 150000,
+      married_separate: 75000,
+      head: 150000,
+    },
+    minimumBalanceDue: 1000,
+    underpaymentRate: 0.07,
   },
 };
 
@@ -0,0 +1,133 @@
+/**
+ * 2026 Tax Configuration
+ * 
+ * FEDERAL: Official 2026 values from IRS Revenue Procedure 2025-32 ✅
+ * (reflects the standard deduction increases enacted in July 2025)
+ * STATES: carried forward from the 2025 tables and marked unverified until
+ * states publish 2026 tables.
+ */
+
+import type { FilingStatus, TaxConfig } from './types';
+import { carryForwardLocalities, carryForwardStates } from './helpers';
+import config2025 from './2025';
+
+const FEDERAL_STANDARD_DEDUCTION_2026: Record<FilingStatus, number> = {
+  single: 16100,
+  married_joint: 32200,
+  married_separate: 16100,
+  head: 24150,
+};
+
+const SINGLE_BRACKETS_2026 = [
+  { upTo: 12400, rate: 0.10 },
+  { upTo: 50400, rate: 0.12 },
+  { upTo: 105700, rate: 0.22 },
+  { upTo: 201775, rate: 0.24 },
+  { upTo: 256225, rate: 0.32 },
+  { upTo: 640600, rate: 0.35 },
+  { upTo: null, rate: 0.37 },
+];
+
+const config2026: TaxConfig = {
+  // ============================================================================
+  // FEDERAL TAX (2026) - Official IRS Values
+  // ============================================================================
+  // Source: IRS Revenue Procedure 2025-32
+  // https://www.irs.gov/pub/irs-drop/rp-25-32.pdf
+  federal: {
+    standardDeduction: FEDERAL_STANDARD_DEDUCTION_2026,
+    brackets: {
+      single: SINGLE_BRACKETS_2026,
+      married_joint: [
+        { upTo: 24800, rate: 0.10 },
+        { upTo: 100800, rate: 0.12 },
+        { upTo: 211400, rate: 0.22 },
+        { upTo: 403550, rate: 0.24 },
+        { upTo: 512450, rate: 0.32 },
+        { upTo: 768700, rate: 0.35 },
+        { upTo: null, rate: 0.37 },
+      ],
+      married_separate: SINGLE_BRACKETS_2026,  // MFS uses same brackets as Single
+      head: [
+        { upTo: 17700, rate: 0.10 },
+        { upTo: 67450, rate: 0.12 },
+        { upTo: 105700, rate: 0.22 },
+        { upTo: 201750, rate: 0.24 },
+        { upTo: 256200, rate: 0.32 },
+        { upTo: 640600, rate: 0.35 },
+        { upTo: null, rate: 0.37 },
+      ],
+    },
+  },
+
+  // ============================================================================
+  // STATE TAXES
+  // ============================================================================
+  // Replace with 2026 tables as states publish them; until then the registry
+  // notice tells users state estimates use 2025 tables
+  states: carryForwardStates(config2025.states),
+  statesCarriedFrom: 2025,
+  localities: carryForwardLocalities(config2025.localities),
+
+  // ============================================================================
+  // QBI DEDUCTION (2026)
+  // ============================================================================
+  // Source: IRS Revenue Procedure 2025-32; phase-in range widened to
+  // $75,000 / $150,000 by Public Law 119-21 (OBBBA), which also adds a $400
+  // minimum deduction for at least $1,000 of active QBI.
+  qbi: {
+    rate: 0.20,
+    threshold: {
+      single: 201750,
+      married_joint: 403500,
+      married_separate: 201750,
+      head: 201750,
+    },
+    phaseInRange: {
+      single: 75000,
+      married_joint: 150000,
+      married_separate: 75000,
+      head: 75000,
+    },
+    minimumDeduction: {
+      amount: 400,
+      minimumQbi: 1000,
+    },
+  },
+
+  // ============================================================================
+  // SELF-EMPLOYMENT TAX (2026)
+  // ============================================================================
+  seTax: {
+    socialSecurityRate: 0.124,
+    socialSecurityWageBase: 184500,
+    medicareRate: 0.029,
+    additionalMedicareThreshold: {
+      single: 200000,
+      married_joint: 250000,
+      married_separate: 125000,
+      head: 200000,
+    },
+    additionalMedicareRate: 0.009,
+  },
+
+  // ============================================================================
+  // ESTIMATED TAX (SAFE HARBOR / UNDERPAYMENT PENALTY) (2026)
+  // ============================================================================
+  // Source: Form 1040-ES and Form 2210 instructions; underpayment rate 7% (Q1 2026; later quarters not yet announced)
+  estimatedTax: {
+    currentYearPercent: 0.90,
+    priorYearPercent: 1.00,
+    highIncomePriorYearPercent: 1.10,
+    highIncomeAGI: {
+      single: 150000,
+      married_joint: 150000,
+      married_separate: 75000,
+      head: 150000,
+    },
+    minimumBalanceDue: 1000,
+    underpaymentRate: 0.07,
+  },
+};
+
+export default config2026;
@@ -0,0 +1,71 @@
+/**
+ * Tax Configuration Helpers
+ * 
+ * Small builders used by the per-year config files to keep state tables compact.
+ */
+
+import type {
+  Bracket,
+  FilingStatus,
+  LocalJurisdictionConfig,
+  StateCode,
+  StateJurisdictionConfig,
+} from './types';
+
+/** Same value for every filing status */
+export function allStatuses<T>(value: T): Record<FilingStatus, T> {
+  return {
+    single: value,
+    married_joint: value,
+    married_separate: value,
+    head: value,
+  };
+}
+
+/** Single-bracket schedule */
+export function flat(rate: number): Bracket[] {
+  return [{ upTo: null, rate }];
+}
+
+/** States with no tax on wages or self-employment income */
+export function noIncomeTax(source: string): StateJurisdictionConfig {
+  return {
+    standardDeduction: allStatuses(0),
+    brackets: allStatuses(flat(0)),
+    verified: true,
+    source,
+  };
+}
+
+/**
+ * Reuse another year's state tables until year-specific tables are added.
+ * No-income-tax states stay verified; everything else is marked unverified
+ * because brackets and deductions are indexed or legislated year to year.
+ */
+export function carryForwardStates(
+  states: Record<StateCode, StateJurisdictionConfig>
+): Record<StateCode, StateJurisdictionConfig> {
+  const carried = {} as Record<StateCode, StateJurisdictionConfig>;
+  for (const code of Object.keys(states) as StateCode[]) {
+    const state = states[code];
+    const hasIncomeTax = Object.values(state.brackets).some(brackets =>
+      brackets.some(bracket => bracket.rate > 0)
+    );
+    carried[code] = { ...state, verified: state.verified && !hasIncomeTax };
+  }
+  return carried;
+}
+
+/**
+ * Reuse another year's local tax table; every entry is marked unverified
+ * because cities and school districts change rates by ordinance.
+ */
+export function carryForwardLocalities(
+  localities: Record<string, LocalJurisdictionConfig>
+): Record<string, LocalJurisdictionConfig> {
+  const carried: Record<string, LocalJurisdictionConfig> = {};
+  for (const [code, locality] of Object.entries(localities)) {
+    carried[code] = { ...locality, verified: false };
+  }
+  return carried;
+}
@@ -0,0 +1,78 @@
+/**
+ * Tax Configuration Registry
+ * 
+ * Year-keyed registry of TaxConfig. The engine resolves a config from the
+ * tax year (usually the gig date's year). Years without a config fall back to
+ * the latest configured year, and the resolution says so via `isFallback`/`notice`.
+ * 
+ * To add a year: create config/<year>.ts and register it in TAX_CONFIGS.
+ */
+
+import type { TaxConfig } from './types';
+import config2024 from './2024';
+import config2025 from './2025';
+import config2026 from './2026';
+
+export const TAX_CONFIGS: Record<number, TaxConfig> = {
+  2024: config2024,
+  2025: config2025,
+  2026: config2026,
+};
+
+export const SUPPORTED_TAX_YEARS: number[] = Object.keys(TAX_CONFIGS)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+export const LATEST_TAX_YEAR = SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1];
+
+export interface ResolvedTaxConfig {
+  config: TaxConfig;
+  taxYear: number;        // Year whose config is actually used
+  requestedYear: number;  // Year the caller asked for
+  isFallback: boolean;    // true when requestedYear has no config
+  notice?: string;        // Human-readable explanation when falling back or using another year's state tables
+}
+
+/**
+ * Get the tax year for a date (YYYY-MM-DD string or Date); defaults to the current year
+ */
+export function getTaxYear(date?: string | Date | null): number {
+  if (!date) return new Date().getFullYear();
+  if (typeof date === 'string') {
+    // Read the year directly so UTC date strings don't shift across time zones
+    const year = parseInt(date.slice(0, 4), 10);
+    return Number.isNaN(year) ? new Date().getFullYear() : year;
+  }
+  return date.getFullYear();
+}
+
+/**
+ * Resolve the tax config for a year, falling back to the latest configured year
+ */
+export function getTaxConfig(year: number = getTaxYear()): ResolvedTaxConfig {
+  const config = TAX_CONFIGS[year];
+  if (config) {
+    return {
+      config,
+      taxYear: year,
+      requestedYear: year,
+      isFallback: false,
+      notice: config.statesCarriedFrom
+        ? `State tax tables for ${year} aren't available yet. State estimates use ${config.statesCarriedFrom} tables.`
+        : undefined,
+    };
+  }
+
+  const latest = TAX_CONFIGS[LATEST_TAX_YEAR];
+  return {
+    config: latest,
+    taxYear: LATEST_TAX_YEAR,
+    requestedYear: year,
+    isFallback: true,
+    notice: latest.statesCarriedFrom
+      ? `Tax tables for ${year} aren't available yet. Estimates use ${LATEST_TAX_YEAR} federal and ${latest.statesCarriedFrom} state tables.`
+      : `Tax tables for ${year} aren't available yet. Estimates use ${LATEST_TAX_YEAR} tables.`,
+  };
+}
+
+export type { TaxConfig } from './types';
@@ -0,0 +1,196 @@
+/**
+ * Tax Year 2025 Local (Municipal / School District) Income Taxes
+ *
+ * Resident rates for city, municipal and school district income taxes that are
+ * not covered by the state piggyback fields in `JurisdictionConfig.local`
+ * (MD counties, NYC, Yonkers). Keyed by jurisdiction code; the code is what
+ * gets stored on the user's tax profile.
+ *
+ * Only resident rates are modeled. Nonresident/work-location rates, Ohio
+ * municipal credits for tax paid to a work city, and Philadelphia BIRT are not.
+ *
+ * Ohio school districts and Pennsylvania PSDs number in the hundreds, so those
+ * entries have a null rate and the user enters their district's rate (from
+ * The Finder or the DCED EIT register) on the tax profile.
+ */
+
+import type { LocalJurisdictionConfig } from './types';
+import { allStatuses } from './helpers';
+
+export const LOCALITIES_2025: Record<string, LocalJurisdictionConfig> = {
+  // ============================================================================
+  // OHIO MUNICIPALITIES
+  // ============================================================================
+  // Municipal income tax on wages and net profits (ORC 718)
+  'OH-AKRON': {
+    name: 'Akron',
+    state: 'OH',
+    kind: 'municipality',
+    rate: 0.025,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.akronohio.gov/departments/finance/income_tax/index.php',
+  },
+  'OH-CINCINNATI': {
+    name: 'Cincinnati',
+    state: 'OH',
+    kind: 'municipality',
+    rate: 0.018,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.cincinnati-oh.gov/finance/income-taxes/',
+  },
+  'OH-CLEVELAND': {
+    name: 'Cleveland',
+    state: 'OH',
+    kind: 'municipality',
+    rate: 0.025,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://ccatax.ci.cleveland.oh.us/',
+  },
+  'OH-COLUMBUS': {
+    name: 'Columbus',
+    state: 'OH',
+    kind: 'municipality',
+    rate: 0.025,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.columbus.gov/Services/Income-Tax',
+  },
+  'OH-DAYTON': {
+    name: 'Dayton',
+    state: 'OH',
+    kind: 'municipality',
+    rate: 0.025,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.daytonohio.gov/165/Income-Tax',
+  },
+  'OH-TOLEDO': {
+    name: 'Toledo',
+    state: 'OH',
+    kind: 'municipality',
+    rate: 0.025,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://toledo.oh.gov/residents/taxation',
+  },
+
+  // ============================================================================
+  // OHIO SCHOOL DISTRICT INCOME TAX (SD 100)
+  // ============================================================================
+  // Each district levies on one of two bases; The Finder lists the district's
+  // 4-digit SD number, rate and base type
+  'OH-SD-TRADITIONAL': {
+    name: 'Ohio school district (traditional base)',
+    state: 'OH',
+    kind: 'school_district',
+    rate: null,
+    base: 'state_taxable_income',
+    verified: true,
+    source: 'https://thefinder.tax.ohio.gov/StreamlineSalesTaxWeb/default_SchoolDistrict.aspx',
+  },
+  'OH-SD-EARNED-INCOME': {
+    name: 'Ohio school district (earned income base)',
+    state: 'OH',
+    kind: 'school_district',
+    rate: null,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://thefinder.tax.ohio.gov/StreamlineSalesTaxWeb/default_SchoolDistrict.aspx',
+  },
+
+  // ============================================================================
+  // PENNSYLVANIA EARNED INCOME TAX (EIT)
+  // ============================================================================
+  // Act 32 EIT on compensation and net profits, split between the municipality
+  // and the school district. Philadelphia levies its own wage / net profits tax.
+  'PA-PHILADELPHIA': {
+    name: 'Philadelphia (wage / net profits tax)',
+    state: 'PA',
+    kind: 'municipality',
+    rate: 0.0374,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.phila.gov/services/payments-assistance-taxes/taxes/business-taxes/business-taxes-by-type/net-profits-tax/',
+  },
+  'PA-PITTSBURGH': {
+    name: 'Pittsburgh',
+    state: 'PA',
+    kind: 'municipality',
+    rate: 0.01,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://pittsburghpa.gov/finance/tax-descriptions',
+  },
+  'PA-PITTSBURGH-SD': {
+    name: 'Pittsburgh School District',
+    state: 'PA',
+    kind: 'school_district',
+    rate: 0.02,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://pittsburghpa.gov/finance/tax-descriptions',
+  },
+  // Any other PSD: the resident rate is the combined municipal + school
+  // district EIT listed for the PSD code in the DCED register
+  'PA-OTHER': {
+    name: 'Other Pennsylvania municipality (enter PSD rate)',
+    state: 'PA',
+    kind: 'municipality',
+    rate: null,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://munstats.pa.gov/Public/FindLocalIncomeTax.aspx',
+  },
+
+  // ============================================================================
+  // MICHIGAN CITY INCOME TAX
+  // ============================================================================
+  // City Income Tax Act: taxable income less a per-person exemption
+  // ($600 per exemption; joint filers claim two)
+  'MI-DETROIT': {
+    name: 'Detroit',
+    state: 'MI',
+    kind: 'municipality',
+    rate: 0.024,
+    base: 'adjusted_income',
+    exemption: { ...allStatuses(600), married_joint: 1200 },
+    verified: true,
+    source: 'https://detroitmi.gov/departments/office-chief-financial-officer/ocfo-divisions/office-treasury/income-tax',
+  },
+  'MI-GRAND-RAPIDS': {
+    name: 'Grand Rapids',
+    state: 'MI',
+    kind: 'municipality',
+    rate: 0.015,
+    base: 'adjusted_income',
+    exemption: { ...allStatuses(600), married_joint: 1200 },
+    verified: true,
+    source: 'https://www.grandrapidsmi.gov/Government/Departments/Income-Tax',
+  },
+
+  // ============================================================================
+  // MISSOURI EARNINGS TAX
+  // ============================================================================
+  // 1% earnings tax on wages and net profits of residents
+  'MO-KANSAS-CITY': {
+    name: 'Kansas City',
+    state: 'MO',
+    kind: 'municipality',
+    rate: 0.01,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.kcmo.gov/city-hall/departments/finance/earnings-tax',
+  },
+  'MO-ST-LOUIS': {
+    name: 'St. Louis',
+    state: 'MO',
+    kind: 'municipality',
+    rate: 0.01,
+    base: 'earned_income',
+    verified: true,
+    source: 'https://www.stlouis-mo.gov/government/departments/collector-revenue/earnings-tax/',
+  },
+};
@@ -0,0 +1,120 @@
+/**
+ * Tax Configuration Types
+ * 
+ * Shape shared by every tax-year config (2024.ts, 2025.ts, 2026.ts).
+ * Year-specific values live in the per-year files; see index.ts for the registry.
+ */
+
+export type FilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head';
+
+export interface Bracket {
+  upTo: number | null; // null = top bracket (no upper limit)
+  rate: number;        // decimal (e.g., 0.10 for 10%)
+}
+
+export interface JurisdictionConfig {
+  standardDeduction: Record<FilingStatus, number>;
+  brackets: Record<FilingStatus, Bracket[]>;
+
+  // Personal exemption subtracted alongside the standard deduction (states only)
+  personalExemption?: Record<FilingStatus, number>;
+  
+  // Optional state-specific features
+  local?: {
+    // Maryland: County flat rates (% of Maryland taxable income)
+    mdCountyRates?: Record<string, number>;
+    
+    // New York City: Resident tax brackets
+    nycResidentRates?: Record<FilingStatus, Bracket[]>;
+    
+    // Yonkers: Surcharge as % of NYS tax
+    yonkersSurcharge?: number;
+    
+    // Millionaire surtax (CA Mental Health Services Tax, MA 4% surtax)
+    millionaireSurtax?: {
+      threshold: number;
+      extraRate: number;
+    };
+  };
+}
+
+export interface StateJurisdictionConfig extends JurisdictionConfig {
+  // Business income deduction (Ohio): the first `amount` of business income is
+  // exempt and business income above it is taxed at a flat rate instead of the brackets
+  businessIncomeDeduction?: {
+    amount: Record<FilingStatus, number>;
+    flatRate: number;
+  };
+
+  // true once brackets/deductions are checked against the state's tables for the year
+  verified: boolean;
+  source: string;
+}
+
+export type StateCode = 
+  | 'AL' | 'AK' | 'AZ' | 'AR' | 'CA' | 'CO' | 'CT' | 'DE' | 'FL' | 'GA'
+  | 'HI' | 'ID' | 'IL' | 'IN' | 'IA' | 'KS' | 'KY' | 'LA' | 'ME' | 'MD'
+  | 'MA' | 'MI' | 'MN' | 'MS' | 'MO' | 'MT' | 'NE' | 'NV' | 'NH' | 'NJ'
+  | 'NM' | 'NY' | 'NC' | 'ND' | 'OH' | 'OK' | 'OR' | 'PA' | 'RI' | 'SC'
+  | 'SD' | 'TN' | 'TX' | 'UT' | 'VT' | 'VA' | 'WA' | 'WV' | 'WI' | 'WY'
+  | 'DC';
+
+/**
+ * Income a local tax is levied on. Each base has a calculator in the engine
+ * (LOCAL_TAX_BASES); add a base there to support a new kind of local tax.
+ * - earned_income: wages + net self-employment profit (OH municipal, PA EIT,
+ *   Philadelphia wage/net-profits tax, Kansas City and St. Louis earnings tax)
+ * - adjusted_income: gross income less above-the-line adjustments (MI city income tax)
+ * - state_taxable_income: the state income tax base after deductions and
+ *   exemptions (Ohio school district traditional base, IT 1040 line 5)
+ */
+export type LocalTaxBase = 'earned_income' | 'adjusted_income' | 'state_taxable_income';
+
+export type LocalJurisdictionKind = 'municipality' | 'school_district';
+
+export interface LocalJurisdictionConfig {
+  name: string;
+  state: StateCode;                 // Resident rate applies only to residents of this state
+  kind: LocalJurisdictionKind;
+  rate: number | null;              // Resident rate (decimal); null = entered on the tax profile
+  base: LocalTaxBase;
+  exemption?: Record<FilingStatus, number>; // Subtracted from the base before the rate
+  verified: boolean;
+  source: string;
+}
+
+export interface TaxConfig {
+  federal: JurisdictionConfig;
+  states: Record<StateCode, StateJurisdictionConfig>;
+  // Year whose state and local tables are reused until this year's are added
+  statesCarriedFrom?: number;
+  // Municipal / school district income taxes keyed by jurisdiction code (e.g. 'OH-COLUMBUS')
+  localities: Record<string, LocalJurisdictionConfig>;
+  seTax: {
+    socialSecurityRate: number;      // Combined employer + employee
+    socialSecurityWageBase: number;  // Wage base limit for the tax year
+    medicareRate: number;            // Combined rate
+    additionalMedicareThreshold: Record<FilingStatus, number>; // For 0.9% additional
+    additionalMedicareRate: number;  // Additional Medicare Tax (Form 8959)
+  };
+  // Section 199A qualified business income deduction (Form 8995 / 8995-A)
+  qbi: {
+    rate: number;                                // 20% of QBI
+    threshold: Record<FilingStatus, number>;     // Taxable income where the SSTB phase-out starts
+    phaseInRange: Record<FilingStatus, number>;  // Width of the phase-out above the threshold
+    // Minimum deduction when active QBI is at least minimumQbi (2026 on, Public Law 119-21)
+    minimumDeduction?: {
+      amount: number;
+      minimumQbi: number;
+    };
+  };
+  // Estimated tax safe harbors (Form 1040-ES) and underpayment penalty (Form 2210)
+  estimatedTax: {
+    currentYearPercent: number;                  // 90% of current-year tax
+    priorYearPercent: number;                    // 100% of prior-year tax
+    highIncomePriorYearPercent: number;          // 110% when prior-year AGI is over highIncomeAGI
+    highIncomeAGI: Record<FilingStatus, number>; // $150,000 ($75,000 married filing separately)
+    minimumBalanceDue: number;                   // No penalty when tax due after withholding is under this
+    underpaymentRate: number;                    // IRS underpayment interest rate (annual)
+  };
+}
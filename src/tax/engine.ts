@@ -1,11 +1,22 @@
 /**
- * 2025 Tax Engine
+ * Tax Engine
  * 
  * Pure functions for calculating federal, state, and SE taxes.
- * All calculations are based on the 2025 tax configuration.
+ * Every calculation takes an optional tax year and resolves its config from the
+ * year-keyed registry in ./config (defaulting to the current year). Years without
+ * a config fall back to the latest configured year and report a `configNotice`.
  */
 
-import config2025, { type FilingStatus, type Bracket, type StateCode, type JurisdictionConfig } from './config/2025';
+import type {
+  FilingStatus,
+  Bracket,
+  StateCode,
+  JurisdictionConfig,
+  LocalJurisdictionConfig,
+  LocalTaxBase,
+  TaxConfig,
+} from './config/types';
+import { getTaxConfig, getTaxYear } from './config';
 
 // ============================================================================
 // TYPES
@@ -17,11 +28,19 @@ export interface TaxProfile {
   county?: string;          // MD only
   nycResident?: boolean;    // NY only
   yonkersResident?: boolean; // NY only
+  localJurisdiction?: string; // Municipality code (config localities, e.g. 'OH-COLUMBUS')
+  schoolDistrict?: string;    // School district code (e.g. 'PA-PITTSBURGH-SD')
+  localTaxRate?: number;      // Rate entered for a municipality without a fixed rate (e.g. 'PA-OTHER')
+  schoolDistrictRate?: number; // Rate entered for a school district without a fixed rate (Ohio SD)
   deductionMethod: 'standard' | 'itemized';
   itemizedAmount?: number;
   seIncome: boolean;        // Has self-employment income
+  sCorpSalary?: number;     // Owner's reasonable salary (LLC taxed as S-Corp)
+  payrollFrequency?: PayrollFrequency; // S-Corp payroll schedule
 }
 
+export type PayrollFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly' | 'quarterly' | 'annually';
+
 export interface YTDData {
   grossIncome: number;      // Total gross income
   adjustments: number;      // Above-the-line deductions
@@ -33,33 +52,60 @@ export interface GigData {
   gross: number;
   expenses: number;
   // net = gross - expenses (this is what gets added to YTD)
+  date?: string;            // Gig date (YYYY-MM-DD); selects the tax year
 }
 
 export interface TaxResult {
   federal: number;
   state: number;
-  local: number;           // NYC, MD county, etc.
+  local: number;           // NYC, MD county, municipal/school district, etc.
   seTax: number;
+  additionalMedicare: number; // 0.9% Additional Medicare Tax on SE earnings (Form 8959)
+  qbiDeduction: number;    // Section 199A deduction applied to federal taxable income
   total: number;
   effectiveRate: number;   // total / gross income
+  taxYear: number;         // Config year actually used
+  configNotice?: string;   // Set when the requested year fell back to another year's tables
 }
 
 export interface SetAsideResult {
   amount: number;          // Dollar amount to set aside
   rate: number;            // As percentage of gig net
+  taxYear: number;
+  configNotice?: string;
   breakdown: {
     federal: number;
     state: number;
     local: number;
     seTax: number;
+    additionalMedicare: number;
   };
 }
 
+export interface StateLiability {
+  state: StateCode;
+  isResident: boolean;
+  allocatedIncome: number;  // Net Schedule C income sourced to this state
+  share: number;            // allocatedIncome / total net income (0-1)
+  tax: number;              // State income tax before the resident credit
+  credit: number;           // Credit for tax paid to other states (resident state only)
+  owed: number;             // tax - credit
+  verified: boolean;
+}
+
+export interface MultiStateTaxResult {
+  states: StateLiability[]; // Resident state first, then nonresident states by amount owed
+  residentCredit: number;
+  totalStateTax: number;    // Sum of `owed` across states
+}
+
 export interface SplitTaxResult {
   income1099: number;
   incomeW2: number;
   netIncome1099: number;
   seTax: number;
+  additionalMedicareTax: number;
+  qbiDeduction: number;
   federalTax1099: number;
   stateTax1099: number;
   localTax1099: number;
@@ -70,6 +116,45 @@ export interface SplitTaxResult {
   setAsidePercent: number;
   quarterlyPaymentEstimate: number;
   hasUnsupportedState: boolean;
+  stateTaxVerified: boolean;  // false = state tables are planning estimates
+  stateBreakdown?: StateLiability[]; // Set when income was allocated by gig state
+  taxYear: number;
+  configNotice?: string;
+}
+
+export interface PayrollAmounts {
+  grossPay: number;
+  employeeFica: number;       // Social Security + Medicare withheld from the owner
+  employerFica: number;       // Matching FICA the S-Corp pays
+  additionalMedicare: number; // 0.9% withheld on wages above the threshold
+  federalWithholding: number;
+  stateWithholding: number;   // State + local
+  netPay: number;
+}
+
+export interface SCorpTaxResult {
+  netProfit: number;          // Business profit before the owner's salary
+  salary: number;             // Salary actually paid (capped at what profit can fund)
+  distribution: number;       // Profit left after salary and employer FICA (K-1 income)
+  payrollFrequency: PayrollFrequency;
+  payPeriods: number;
+  payroll: PayrollAmounts;    // Annual totals
+  perPaycheck: PayrollAmounts;
+  federal: number;            // Federal income tax on salary + distribution
+  state: number;
+  local: number;
+  qbiDeduction: number;       // Section 199A deduction on the distribution
+  distributionTax: number;    // Income tax not covered by payroll withholding (estimated payments)
+  total: number;              // FICA (both halves) + Additional Medicare + income taxes
+  effectiveRate: number;      // total / net profit
+  taxYear: number;
+  configNotice?: string;
+}
+
+export interface EntityComparison {
+  soleProprietor: TaxResult;
+  sCorp: SCorpTaxResult;
+  savings: number;            // soleProprietor.total - sCorp.total (negative = S-Corp costs more)
 }
 
 // ============================================================================
@@ -122,6 +207,16 @@ export function getDeduction(
   return jurisdiction.standardDeduction[profile.filingStatus];
 }
 
+/**
+ * Get personal exemption amount (states only; federal exemption is $0 under TCJA)
+ */
+export function getPersonalExemption(
+  profile: TaxProfile,
+  jurisdiction: JurisdictionConfig
+): number {
+  return jurisdiction.personalExemption?.[profile.filingStatus] ?? 0;
+}
+
 // ============================================================================
 // FEDERAL TAX
 // ============================================================================
@@ -140,19 +235,97 @@ export function getDeduction(
  */
 export function calcFederalTax(
   ytd: YTDData,
-  profile: TaxProfile
+  profile: TaxProfile,
+  taxYear?: number
 ): number {
+  const { config } = getTaxConfig(taxYear);
+
   // Calculate SE tax first to get the half-SE-tax deduction
-  const seTax = calcSETax(ytd, profile);
+  const seTax = calcSETax(ytd, profile, taxYear);
   const halfSETaxDeduction = seTax * 0.5;
   
   // Total adjustments = provided adjustments + half SE tax
   const totalAdjustments = ytd.adjustments + halfSETaxDeduction;
   
-  const deduction = getDeduction(profile, config2025.federal);
-  const taxableIncome = calcTaxableIncome(ytd.grossIncome, totalAdjustments, deduction);
+  const deduction = getDeduction(profile, config.federal);
+  const taxableIncomeBeforeQBI = calcTaxableIncome(ytd.grossIncome, totalAdjustments, deduction);
+
+  // Section 199A deduction comes off taxable income, after the standard/itemized deduction
+  const qbiDeduction = calcQBIDeduction(ytd, profile, taxYear);
+  const taxableIncome = Math.max(0, taxableIncomeBeforeQBI - qbiDeduction);
   
-  return calcBracketTax(taxableIncome, config2025.federal.brackets[profile.filingStatus]);
+  return calcBracketTax(taxableIncome, config.federal.brackets[profile.filingStatus]);
+}
+
+/**
+ * Calculate the Section 199A qualified business income (QBI) deduction
+ *
+ * - QBI = net Schedule C profit less the deductible half of SE tax
+ * - Below the threshold: 20% of QBI, limited to 20% of taxable income
+ * - Performing arts is a specified service trade or business (SSTB), and a
+ *   sole proprietor pays no W-2 wages, so above the threshold the deduction
+ *   phases out completely across the phase-in range
+ * - From 2026, at least $400 when QBI is $1,000 or more, even above the range
+ */
+export function calcQBIDeduction(
+  ytd: YTDData,
+  profile: TaxProfile,
+  taxYear?: number
+): number {
+  if (!profile.seIncome || ytd.netSE <= 0) {
+    return 0;
+  }
+
+  const { config } = getTaxConfig(taxYear);
+  const halfSETaxDeduction = calcSETax(ytd, profile, taxYear) * 0.5;
+  const qbi = Math.max(0, ytd.netSE - halfSETaxDeduction);
+
+  const deduction = getDeduction(profile, config.federal);
+  const taxableIncome = calcTaxableIncome(ytd.grossIncome, ytd.adjustments + halfSETaxDeduction, deduction);
+  if (taxableIncome <= 0) {
+    return 0;
+  }
+
+  return calcSSTBQualifiedDeduction(qbi, 0, taxableIncome, profile.filingStatus, config.qbi);
+}
+
+/**
+ * Section 199A deduction for a specified service trade or business (SSTB)
+ *
+ * SSTB applicable percentage: 100% at the threshold, 0% at threshold + range.
+ * It scales both QBI and W-2 wages paid by the business, and the W-2 wage limit
+ * (50% of wages) phases in by the same fraction. With no wages (sole proprietor)
+ * the deduction falls with the square of the applicable percentage.
+ */
+function calcSSTBQualifiedDeduction(
+  qbi: number,
+  wagesPaid: number,
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  qbiConfig: TaxConfig['qbi']
+): number {
+  if (qbi <= 0 || taxableIncome <= 0) {
+    return 0;
+  }
+
+  const { rate, threshold, phaseInRange } = qbiConfig;
+  const excess = Math.max(0, taxableIncome - threshold[filingStatus]);
+  const phaseIn = Math.min(1, excess / phaseInRange[filingStatus]);
+  const applicable = 1 - phaseIn;
+
+  const qbiComponent = rate * qbi * applicable;
+  const wageLimit = 0.5 * wagesPaid * applicable;
+  const reduction = Math.max(0, qbiComponent - wageLimit) * phaseIn;
+
+  const deduction = Math.min(qbiComponent - reduction, rate * taxableIncome);
+
+  // Minimum deduction for active QBI, still never more than taxable income
+  const minimum = qbiConfig.minimumDeduction;
+  if (minimum && qbi >= minimum.minimumQbi) {
+    return Math.min(Math.max(deduction, minimum.amount), taxableIncome);
+  }
+
+  return deduction;
 }
 
 // ============================================================================
@@ -164,31 +337,38 @@ export function calcFederalTax(
  */
 export function calcStateTax(
   ytd: YTDData,
-  profile: TaxProfile
+  profile: TaxProfile,
+  taxYear?: number
 ): { state: number; local: number } {
-  const stateConfig = config2025.states[profile.state];
+  const stateConfig = getTaxConfig(taxYear).config.states[profile.state];
   
-  // TN and TX have no state income tax
-  if (profile.state === 'TN' || profile.state === 'TX') {
+  // No state income tax (TN, TX, FL, WA, ...)
+  if (!stateConfig || !stateHasIncomeTax(profile.state, taxYear)) {
     return { state: 0, local: 0 };
   }
 
-  const deduction = getDeduction(profile, stateConfig);
-  const taxableIncome = calcTaxableIncome(ytd.grossIncome, ytd.adjustments, deduction);
-  
+  const deduction = getDeduction(profile, stateConfig) + getPersonalExemption(profile, stateConfig);
+
+  // Business income deduction: exempt business income comes out of the
+  // bracketed income and the excess is taxed at the flat rate
+  const bid = stateConfig.businessIncomeDeduction;
+  const businessIncome = bid ? getBusinessIncome(ytd) : 0;
+  const taxableIncome = calcTaxableIncome(ytd.grossIncome - businessIncome, ytd.adjustments, deduction);
+
   let stateTax = calcBracketTax(taxableIncome, stateConfig.brackets[profile.filingStatus]);
+  if (bid) {
+    stateTax += Math.max(0, businessIncome - bid.amount[profile.filingStatus]) * bid.flatRate;
+  }
   let localTax = 0;
 
+  // Millionaire surtax (CA Mental Health Services Tax 1% over $1M, MA 4% surtax)
+  const surtax = stateConfig.local?.millionaireSurtax;
+  if (surtax && taxableIncome > surtax.threshold) {
+    stateTax += (taxableIncome - surtax.threshold) * surtax.extraRate;
+  }
+
   // State-specific additions
   switch (profile.state) {
-    case 'CA':
-      // California Mental Health Services Tax (1% over $1M)
-      if (stateConfig.local?.millionaireSurtax && taxableIncome > stateConfig.local.millionaireSurtax.threshold) {
-        const excessIncome = taxableIncome - stateConfig.local.millionaireSurtax.threshold;
-        stateTax += excessIncome * stateConfig.local.millionaireSurtax.extraRate;
-      }
-      break;
-
     case 'NY':
       // NYC resident tax
       if (profile.nycResident && stateConfig.local?.nycResidentRates) {
@@ -213,30 +393,114 @@ export function calcStateTax(
       break;
   }
 
+  // Municipal / school district income tax
+  localTax += calcLocalTax(ytd, profile, taxYear);
+
   return { state: stateTax, local: localTax };
 }
 
+/**
+ * Schedule C income that a business income deduction can apply to
+ */
+function getBusinessIncome(ytd: YTDData): number {
+  return Math.min(Math.max(0, ytd.netSE), Math.max(0, ytd.grossIncome - ytd.adjustments));
+}
+
+/**
+ * State income tax base after the standard deduction, personal exemption and
+ * business income deduction (Ohio IT 1040 line 5). Business income over the
+ * deduction stays in the base.
+ */
+export function calcStateTaxBase(
+  ytd: YTDData,
+  profile: TaxProfile,
+  taxYear?: number
+): number {
+  const stateConfig = getTaxConfig(taxYear).config.states[profile.state];
+  if (!stateConfig) {
+    return 0;
+  }
+
+  const deduction = getDeduction(profile, stateConfig) + getPersonalExemption(profile, stateConfig);
+  const bid = stateConfig.businessIncomeDeduction;
+  const deducted = bid ? Math.min(getBusinessIncome(ytd), bid.amount[profile.filingStatus]) : 0;
+  return calcTaxableIncome(ytd.grossIncome - deducted, ytd.adjustments, deduction);
+}
+
+// ============================================================================
+// LOCAL (MUNICIPAL / SCHOOL DISTRICT) TAX
+// ============================================================================
+
+/**
+ * Income each local tax base is levied on
+ */
+const LOCAL_TAX_BASES: Record<LocalTaxBase, (ytd: YTDData, profile: TaxProfile, taxYear?: number) => number> = {
+  earned_income: (ytd) => ytd.netSE + (ytd.w2Wages ?? 0),
+  adjusted_income: (ytd) => ytd.grossIncome - ytd.adjustments,
+  state_taxable_income: (ytd, profile, taxYear) => calcStateTaxBase(ytd, profile, taxYear),
+};
+
+/**
+ * Get the local jurisdictions (municipality, school district) on a profile,
+ * with the rate entered on the profile filled in where the config has none.
+ * Unknown codes and jurisdictions outside the profile's state are ignored.
+ */
+export function getLocalJurisdictions(
+  profile: TaxProfile,
+  taxYear?: number
+): (LocalJurisdictionConfig & { rate: number })[] {
+  const localities = getTaxConfig(taxYear).config.localities;
+  const selected: [string | undefined, number | undefined][] = [
+    [profile.localJurisdiction, profile.localTaxRate],
+    [profile.schoolDistrict, profile.schoolDistrictRate],
+  ];
+
+  return selected.flatMap(([code, enteredRate]) => {
+    const locality = code ? localities[code] : undefined;
+    if (!locality || locality.state !== profile.state) return [];
+    return [{ ...locality, rate: locality.rate ?? enteredRate ?? 0 }];
+  });
+}
+
+/**
+ * Calculate municipal / school district income tax (resident rates)
+ */
+export function calcLocalTax(
+  ytd: YTDData,
+  profile: TaxProfile,
+  taxYear?: number
+): number {
+  return getLocalJurisdictions(profile, taxYear).reduce((total, locality) => {
+    const exemption = locality.exemption?.[profile.filingStatus] ?? 0;
+    const base = Math.max(0, LOCAL_TAX_BASES[locality.base](ytd, profile, taxYear) - exemption);
+    return total + base * locality.rate;
+  }, 0);
+}
+
 // ============================================================================
 // SELF-EMPLOYMENT TAX
 // ============================================================================
 
 /**
- * Calculate self-employment tax
+ * Calculate self-employment tax (Schedule SE)
  * 
- * SE tax = Social Security + Medicare + Additional Medicare
+ * SE tax = Social Security + Medicare
  * - Social Security: 12.4% on first $X of SE income (92.35% of net)
  * - Medicare: 2.9% on all SE income (92.35% of net)
- * - Additional Medicare: 0.9% on SE income over threshold
+ * 
+ * The 0.9% Additional Medicare Tax is separate (calcAdditionalMedicareTax) and
+ * is not part of the half-SE-tax deduction.
  */
 export function calcSETax(
   ytd: YTDData,
-  profile: TaxProfile
+  profile: TaxProfile,
+  taxYear?: number
 ): number {
   if (!profile.seIncome || ytd.netSE <= 0) {
     return 0;
   }
 
-  const { seTax } = config2025;
+  const { seTax } = getTaxConfig(taxYear).config;
   
   // SE tax base is 92.35% of net SE income
   const seTaxBase = ytd.netSE * 0.9235;
@@ -248,11 +512,29 @@ export function calcSETax(
   // Medicare tax (no cap)
   const medicareTax = seTaxBase * seTax.medicareRate;
   
-  // Additional Medicare tax (0.9% over threshold)
-  const additionalMedicareThreshold = seTax.additionalMedicareThreshold[profile.filingStatus];
-  const additionalMedicareTax = Math.max(0, seTaxBase - additionalMedicareThreshold) * 0.009;
-  
-  return socialSecurityTax + medicareTax + additionalMedicareTax;
+  return socialSecurityTax + medicareTax;
+}
+
+/**
+ * Calculate Additional Medicare Tax on self-employment income (Form 8959)
+ * 
+ * 0.9% of SE earnings (92.35% of net) above the filing-status threshold.
+ * W-2 wages use up the threshold first; the employer withholds the wage portion.
+ */
+export function calcAdditionalMedicareTax(
+  ytd: YTDData,
+  profile: TaxProfile,
+  taxYear?: number
+): number {
+  if (!profile.seIncome || ytd.netSE <= 0) {
+    return 0;
+  }
+
+  const { seTax } = getTaxConfig(taxYear).config;
+  const seTaxBase = ytd.netSE * 0.9235;
+  const threshold = Math.max(0, seTax.additionalMedicareThreshold[profile.filingStatus] - (ytd.w2Wages ?? 0));
+
+  return Math.max(0, seTaxBase - threshold) * seTax.additionalMedicareRate;
 }
 
 // ============================================================================
@@ -264,20 +546,25 @@ export function calcSETax(
  * 
  * CALCULATION ORDER MATTERS:
  * 1. Calculate SE tax first (needed for federal income tax deduction)
- * 2. Calculate federal income tax (uses half SE tax as adjustment)
+ * 2. Calculate federal income tax (uses half SE tax as adjustment, then QBI deduction)
  * 3. Calculate state/local tax
- * 4. Sum all components
+ * 4. Sum all components (Additional Medicare is its own line)
  */
 export function calcTotalTax(
   ytd: YTDData,
-  profile: TaxProfile
+  profile: TaxProfile,
+  taxYear?: number
 ): TaxResult {
+  const resolved = getTaxConfig(taxYear);
+
   // Calculate in correct order (SE tax first, then federal)
-  const seTax = calcSETax(ytd, profile);
-  const federal = calcFederalTax(ytd, profile);
-  const { state, local } = calcStateTax(ytd, profile);
+  const seTax = calcSETax(ytd, profile, resolved.taxYear);
+  const additionalMedicare = calcAdditionalMedicareTax(ytd, profile, resolved.taxYear);
+  const qbiDeduction = calcQBIDeduction(ytd, profile, resolved.taxYear);
+  const federal = calcFederalTax(ytd, profile, resolved.taxYear);
+  const { state, local } = calcStateTax(ytd, profile, resolved.taxYear);
   
-  const total = federal + state + local + seTax;
+  const total = federal + state + local + seTax + additionalMedicare;
   const effectiveRate = ytd.grossIncome > 0 ? total / ytd.grossIncome : 0;
   
   // Debug logging (dev mode only)
@@ -289,8 +576,12 @@ export function calcTotalTax(
     state,
     local,
     seTax,
+    additionalMedicare,
+    qbiDeduction,
     total,
     effectiveRate,
+    taxYear: resolved.taxYear,
+    configNotice: resolved.notice,
   };
 }
 
@@ -300,13 +591,16 @@ export function calcTotalTax(
 
 /**
  * Add a gig to YTD data
+ *
+ * Only the gig's net counts toward income and SE tax (Schedule C expenses
+ * come off before AGI)
  */
 function addGig(ytd: YTDData, gig: GigData): YTDData {
   const gigNet = gig.gross - gig.expenses;
   
   return {
     ...ytd,
-    grossIncome: ytd.grossIncome + gig.gross,
+    grossIncome: ytd.grossIncome + gigNet,
     netSE: ytd.netSE + gigNet,
   };
 }
@@ -327,7 +621,8 @@ const FEDERAL_TAX_THRESHOLDS: Record<FilingStatus, number> = {
  * Calculate marginal tax effect of a gig
  * 
  * This is the key function for "Set Aside for this Gig"
- * It computes how much additional tax the gig creates
+ * It computes how much additional tax the gig creates, using the tax year
+ * of `gig.date` (current year when the gig has no date)
  * 
  * SMART THRESHOLDS:
  * - If projected annual income < threshold, federal income tax is zeroed out
@@ -340,19 +635,22 @@ export function taxDeltaForGig(
   profile: TaxProfile
 ): SetAsideResult {
   const gigNet = gig.gross - gig.expenses;
+  const { taxYear, notice: configNotice } = getTaxConfig(getTaxYear(gig.date));
   
   // Edge case: no net income from gig
   if (gigNet <= 0) {
     return {
       amount: 0,
       rate: 0,
-      breakdown: { federal: 0, state: 0, local: 0, seTax: 0 },
+      taxYear,
+      configNotice,
+      breakdown: { federal: 0, state: 0, local: 0, seTax: 0, additionalMedicare: 0 },
     };
   }
   
   // Calculate tax before and after adding this gig
-  const before = calcTotalTax(ytd, profile);
-  const after = calcTotalTax(addGig(ytd, gig), profile);
+  const before = calcTotalTax(ytd, profile, taxYear);
+  const after = calcTotalTax(addGig(ytd, gig), profile, taxYear);
   
   // Marginal tax increase
   let delta = {
@@ -360,6 +658,7 @@ export function taxDeltaForGig(
     state: after.state - before.state,
     local: after.local - before.local,
     seTax: after.seTax - before.seTax,
+    additionalMedicare: after.additionalMedicare - before.additionalMedicare,
   };
   
   // SMART THRESHOLD: Don't recommend federal tax for low earners
@@ -376,12 +675,14 @@ export function taxDeltaForGig(
     };
   }
   
-  const totalDelta = delta.federal + delta.state + delta.local + delta.seTax;
+  const totalDelta = delta.federal + delta.state + delta.local + delta.seTax + delta.additionalMedicare;
   const rate = totalDelta / gigNet;
   
   return {
     amount: totalDelta,
     rate,
+    taxYear,
+    configNotice,
     breakdown: delta,
   };
 }
@@ -397,27 +698,36 @@ export function taxDeltaForGig(
  */
 export function calcYTDEffectiveRate(
   ytd: YTDData,
-  profile: TaxProfile
+  profile: TaxProfile,
+  taxYear?: number
 ): {
   effectiveRate: number;
   totalTax: number;
+  taxYear: number;
+  configNotice?: string;
   breakdown: {
     federal: number;
     state: number;
     local: number;
     seTax: number;
+    additionalMedicare: number;
+    qbiDeduction: number;
   };
 } {
-  const result = calcTotalTax(ytd, profile);
+  const result = calcTotalTax(ytd, profile, taxYear);
   
   return {
     effectiveRate: result.effectiveRate,
     totalTax: result.total,
+    taxYear: result.taxYear,
+    configNotice: result.configNotice,
     breakdown: {
       federal: result.federal,
       state: result.state,
       local: result.local,
       seTax: result.seTax,
+      additionalMedicare: result.additionalMedicare,
+      qbiDeduction: result.qbiDeduction,
     },
   };
 }
@@ -462,8 +772,20 @@ export function getStateName(code: StateCode): string {
 /**
  * Check if state has income tax
  */
-export function stateHasIncomeTax(state: StateCode): boolean {
-  return state !== 'TN' && state !== 'TX';
+export function stateHasIncomeTax(state: StateCode, taxYear?: number): boolean {
+  const stateConfig = getTaxConfig(taxYear).config.states[state];
+  if (!stateConfig) return false;
+  return Object.values(stateConfig.brackets).some(brackets =>
+    brackets.some(bracket => bracket.rate > 0)
+  );
+}
+
+/**
+ * Check if a state's tables have been verified against the state's published values
+ * (unverified states still get estimates, but the UI should label them as such)
+ */
+export function isStateTaxVerified(state: StateCode, taxYear?: number): boolean {
+  return getTaxConfig(taxYear).config.states[state]?.verified ?? false;
 }
 
 /**
@@ -477,18 +799,121 @@ export function stateNeedsCounty(state: StateCode): boolean {
  * Check if state has local tax options
  */
 export function stateHasLocalTax(state: StateCode): boolean {
-  return state === 'NY' || state === 'MD';
+  return state === 'NY' || state === 'MD' || getStateLocalities(state).length > 0;
+}
+
+/**
+ * Get selectable local jurisdictions for a state, sorted by name
+ */
+export function getStateLocalities(
+  state: StateCode,
+  kind?: LocalJurisdictionConfig['kind']
+): { code: string; name: string; entersRate: boolean }[] {
+  return Object.entries(getTaxConfig().config.localities)
+    .filter(([, locality]) => locality.state === state && (!kind || locality.kind === kind))
+    .map(([code, locality]) => ({ code, name: locality.name, entersRate: locality.rate === null }))
+    .sort((a, b) => a.name.localeCompare(b.name));
 }
 
 /**
  * Get available counties for Maryland
  */
 export function getMDCounties(): string[] {
-  const mdConfig = config2025.states.MD;
+  const mdConfig = getTaxConfig().config.states.MD;
   if (!mdConfig.local?.mdCountyRates) return [];
   return Object.keys(mdConfig.local.mdCountyRates).sort();
 }
 
+// ============================================================================
+// MULTI-STATE (NONRESIDENT) ALLOCATION
+// ============================================================================
+
+/**
+ * Estimate state tax for income earned across several states (touring)
+ *
+ * - Net Schedule C income is allocated to states in proportion to gross income
+ *   by gig state (`incomeByState`); income in unknown states stays with the resident state.
+ * - Nonresident tax uses the income-percentage method most states apply:
+ *   tax on total income as if earned in the state x the state's share of income.
+ * - The resident state taxes all income and credits tax paid to other states,
+ *   limited to the resident tax on that state's share of income.
+ * - Local taxes are resident-only and not part of this breakdown.
+ */
+export function calcMultiStateTax(
+  ytd: YTDData,
+  profile: TaxProfile,
+  incomeByState: Partial<Record<StateCode, number>>,
+  taxYear?: number
+): MultiStateTaxResult {
+  const { config } = getTaxConfig(taxYear);
+
+  // Gross income by state; unknown codes fold into the resident state
+  const grossByState = new Map<StateCode, number>();
+  for (const [code, amount] of Object.entries(incomeByState) as [StateCode, number][]) {
+    if (!amount || amount <= 0) continue;
+    const state = config.states[code] ? code : profile.state;
+    grossByState.set(state, (grossByState.get(state) ?? 0) + amount);
+  }
+  const totalGross = Array.from(grossByState.values()).reduce((sum, amount) => sum + amount, 0);
+
+  const shareOf = (state: StateCode): number => {
+    if (totalGross <= 0) return state === profile.state ? 1 : 0;
+    return (grossByState.get(state) ?? 0) / totalGross;
+  };
+
+  // Resident state: tax on all income
+  const residentTax = calcStateTax(ytd, profile, taxYear).state;
+
+  // Nonresident states: full-income tax x share; resident credit per state
+  const nonresidents: StateLiability[] = [];
+  let residentCredit = 0;
+  for (const state of grossByState.keys()) {
+    if (state === profile.state) continue;
+
+    const share = shareOf(state);
+    const nonresidentProfile: TaxProfile = {
+      filingStatus: profile.filingStatus,
+      state,
+      deductionMethod: profile.deductionMethod,
+      itemizedAmount: profile.itemizedAmount,
+      seIncome: profile.seIncome,
+    };
+    const tax = calcStateTax(ytd, nonresidentProfile, taxYear).state * share;
+    residentCredit += Math.min(tax, residentTax * share);
+
+    nonresidents.push({
+      state,
+      isResident: false,
+      allocatedIncome: ytd.netSE * share,
+      share,
+      tax,
+      credit: 0,
+      owed: tax,
+      verified: isStateTaxVerified(state, taxYear),
+    });
+  }
+  nonresidents.sort((a, b) => b.owed - a.owed);
+
+  const residentShare = shareOf(profile.state);
+  const resident: StateLiability = {
+    state: profile.state,
+    isResident: true,
+    allocatedIncome: ytd.netSE * residentShare,
+    share: residentShare,
+    tax: residentTax,
+    credit: residentCredit,
+    owed: residentTax - residentCredit,
+    verified: isStateTaxVerified(profile.state, taxYear),
+  };
+
+  const states = [resident, ...nonresidents];
+  return {
+    states,
+    residentCredit,
+    totalStateTax: states.reduce((sum, s) => sum + s.owed, 0),
+  };
+}
+
 // ============================================================================
 // SPLIT TAX CALCULATION (W-2 + 1099)
 // ============================================================================
@@ -510,15 +935,24 @@ export function getMDCounties(): string[] {
  * @param gigIncomeW2 - Total gross income from W-2/employee payers
  * @param totalDeductions - Schedule C deductions (only apply to 1099 income)
  * @param profile - Tax profile with filing status, state, etc.
+ * @param taxYear - Tax year to estimate (defaults to the current year)
+ * @param incomeByState - 1099 gross income by gig state; when it includes states other
+ *   than the resident state, state tax is allocated with calcMultiStateTax
  * @returns Comprehensive tax breakdown with quarterly payment estimate
  */
 export function calculateSplitTax(
   gigIncome1099: number,
   gigIncomeW2: number,
   totalDeductions: number,
-  profile: TaxProfile
+  profile: TaxProfile,
+  taxYear?: number,
+  incomeByState?: Partial<Record<StateCode, number>>
 ): SplitTaxResult {
-  const SUPPORTED_STATES: StateCode[] = ['CA', 'NY', 'MD', 'TN', 'TX'];
+  const { config, taxYear: resolvedYear, notice: configNotice } = getTaxConfig(taxYear);
+
+  // Every state has a config entry; only an unknown code is unsupported
+  const hasUnsupportedState = !config.states[profile.state];
+  const stateTaxVerified = isStateTaxVerified(profile.state, resolvedYear);
   
   // Determine W-2 note based on income mix
   let w2Note: string;
@@ -532,6 +966,8 @@ export function calculateSplitTax(
       incomeW2: gigIncomeW2,
       netIncome1099: 0,
       seTax: 0,
+      additionalMedicareTax: 0,
+      qbiDeduction: 0,
       federalTax1099: 0,
       stateTax1099: 0,
       localTax1099: 0,
@@ -541,7 +977,10 @@ export function calculateSplitTax(
       setAsideAmount: 0,
       setAsidePercent: 0,
       quarterlyPaymentEstimate: 0,
-      hasUnsupportedState: !SUPPORTED_STATES.includes(profile.state),
+      hasUnsupportedState,
+      stateTaxVerified,
+      taxYear: resolvedYear,
+      configNotice,
     };
   }
   
@@ -554,30 +993,46 @@ export function calculateSplitTax(
   // Calculate 1099 net income (gross - deductions)
   const netIncome1099 = Math.max(0, gigIncome1099 - totalDeductions);
   
-  // Calculate SE tax on 1099 net income only
-  // SE tax base = 92.35% of net SE income
-  const seTaxBase = netIncome1099 * 0.9235;
-  const seTax = seTaxBase * 0.153; // 15.3% (12.4% SS + 2.9% Medicare)
-  
-  // Half of SE tax is deductible
-  const seDeduction = seTax * 0.5;
-  
-  // Calculate federal taxable income (1099 net - SE deduction)
+  // Same YTD input as calcTotalTax on net profit, so the dashboard card and the
+  // YTD estimate agree. W-2 wages are excluded from this calculation.
   const ytdFor1099: YTDData = {
     grossIncome: netIncome1099,
-    adjustments: seDeduction,
+    adjustments: 0,
     netSE: netIncome1099,
-    w2Wages: 0, // W-2 excluded from this calculation
+    w2Wages: 0,
   };
   
-  // Calculate federal tax on 1099 income
-  const federalTax1099 = calcFederalTax(ytdFor1099, profile);
+  // SE tax on 1099 net income only (capped at the Social Security wage base)
+  const seTax = calcSETax(ytdFor1099, profile, resolvedYear);
+  
+  // Federal tax on 1099 income (half-SE adjustment, then the QBI deduction)
+  const federalTax1099 = calcFederalTax(ytdFor1099, profile, resolvedYear);
+  const qbiDeduction = calcQBIDeduction(ytdFor1099, profile, resolvedYear);
+
+  // Additional Medicare: W-2 wages count toward the threshold before SE earnings
+  const additionalMedicareTax = calcAdditionalMedicareTax(
+    { ...ytdFor1099, w2Wages: gigIncomeW2 },
+    profile,
+    resolvedYear
+  );
   
   // Calculate state and local tax on 1099 income
-  const { state: stateTax1099, local: localTax1099 } = calcStateTax(ytdFor1099, profile);
+  const { state: residentStateTax, local: localTax1099 } = calcStateTax(ytdFor1099, profile, resolvedYear);
+
+  // Touring income: allocate state tax across gig states (nonresident tax + resident credit).
+  // 1099 income without a gig state is sourced to the resident state.
+  let multiState: MultiStateTaxResult | undefined;
+  if (incomeByState && !hasUnsupportedState) {
+    const assigned = Object.values(incomeByState).reduce((sum, amount) => sum + (amount ?? 0), 0);
+    multiState = calcMultiStateTax(ytdFor1099, profile, {
+      ...incomeByState,
+      [profile.state]: (incomeByState[profile.state] ?? 0) + Math.max(0, gigIncome1099 - assigned),
+    }, resolvedYear);
+  }
+  const stateTax1099 = multiState ? multiState.totalStateTax : residentStateTax;
   
   // Total tax owed on 1099 income
-  const totalOwed1099 = seTax + federalTax1099 + stateTax1099 + localTax1099;
+  const totalOwed1099 = seTax + additionalMedicareTax + federalTax1099 + stateTax1099 + localTax1099;
   
   // Effective rate on 1099 income
   const effectiveRate1099 = gigIncome1099 > 0 ? totalOwed1099 / gigIncome1099 : 0;
@@ -597,14 +1052,13 @@ export function calculateSplitTax(
     ? Math.round(setAsideAmount / remainingQuarters)
     : setAsideAmount;
   
-  // Check if state is unsupported
-  const hasUnsupportedState = stateTax1099 === 0 && !SUPPORTED_STATES.includes(profile.state);
-  
   return {
     income1099: gigIncome1099,
     incomeW2: gigIncomeW2,
     netIncome1099,
     seTax,
+    additionalMedicareTax,
+    qbiDeduction,
     federalTax1099,
     stateTax1099,
     localTax1099,
@@ -615,5 +1069,198 @@ export function calculateSplitTax(
     setAsidePercent,
     quarterlyPaymentEstimate,
     hasUnsupportedState,
+    stateTaxVerified,
+    stateBreakdown: multiState?.states,
+    taxYear: resolvedYear,
+    configNotice,
+  };
+}
+
+// ============================================================================
+// S-CORP PAYROLL (LLC TAXED AS S-CORP)
+// ============================================================================
+
+/**
+ * Paychecks per year for each payroll schedule
+ */
+export const PAY_PERIODS: Record<PayrollFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+  quarterly: 4,
+  annually: 1,
+};
+
+/**
+ * One side (employer or employee) of FICA on wages:
+ * Social Security up to the wage base plus Medicare, at half the combined rates
+ */
+function calcFicaShare(wages: number, seTax: TaxConfig['seTax']): number {
+  const ssWages = Math.min(wages, seTax.socialSecurityWageBase);
+  return (ssWages * seTax.socialSecurityRate + wages * seTax.medicareRate) / 2;
+}
+
+/**
+ * Largest salary the business profit can fund once the employer's FICA is paid
+ */
+function calcMaxFundableSalary(netProfit: number, seTax: TaxConfig['seTax']): number {
+  if (netProfit <= 0) {
+    return 0;
+  }
+
+  const belowWageBase = netProfit / (1 + (seTax.socialSecurityRate + seTax.medicareRate) / 2);
+  if (belowWageBase <= seTax.socialSecurityWageBase) {
+    return belowWageBase;
+  }
+
+  const ssAtWageBase = seTax.socialSecurityWageBase * seTax.socialSecurityRate / 2;
+  return (netProfit - ssAtWageBase) / (1 + seTax.medicareRate / 2);
+}
+
+/**
+ * Federal, state and local income tax on an S-Corp owner's salary (W-2) plus
+ * distributive share of profit (K-1)
+ *
+ * - No SE tax and no half-SE adjustment: FICA is paid through payroll
+ * - The distribution is QBI; the owner's salary counts as W-2 wages paid
+ * - Local earned-income taxes apply to the salary only
+ */
+function calcSCorpIncomeTax(
+  salary: number,
+  distribution: number,
+  profile: TaxProfile,
+  taxYear: number
+): { federal: number; state: number; local: number; qbiDeduction: number } {
+  const { config } = getTaxConfig(taxYear);
+  const ytd: YTDData = {
+    grossIncome: salary + distribution,
+    adjustments: 0,
+    netSE: 0,
+    w2Wages: salary,
+  };
+
+  const deduction = getDeduction(profile, config.federal);
+  const taxableIncomeBeforeQBI = calcTaxableIncome(ytd.grossIncome, ytd.adjustments, deduction);
+  const qbiDeduction = calcSSTBQualifiedDeduction(
+    distribution,
+    salary,
+    taxableIncomeBeforeQBI,
+    profile.filingStatus,
+    config.qbi
+  );
+  const federal = calcBracketTax(
+    Math.max(0, taxableIncomeBeforeQBI - qbiDeduction),
+    config.federal.brackets[profile.filingStatus]
+  );
+  const { state, local } = calcStateTax(ytd, profile, taxYear);
+
+  return { federal, state, local, qbiDeduction };
+}
+
+function dividePayroll(amounts: PayrollAmounts, periods: number): PayrollAmounts {
+  return {
+    grossPay: amounts.grossPay / periods,
+    employeeFica: amounts.employeeFica / periods,
+    employerFica: amounts.employerFica / periods,
+    additionalMedicare: amounts.additionalMedicare / periods,
+    federalWithholding: amounts.federalWithholding / periods,
+    stateWithholding: amounts.stateWithholding / periods,
+    netPay: amounts.netPay / periods,
+  };
+}
+
+/**
+ * Calculate taxes for an LLC taxed as an S-Corp
+ *
+ * The owner is paid `profile.sCorpSalary` through payroll on
+ * `profile.payrollFrequency` (monthly by default):
+ * 1. Salary is capped at what net profit can fund after the employer's FICA
+ * 2. Employer and employee FICA on the salary; Additional Medicare on wages
+ *    above the filing-status threshold
+ * 3. Withholding = income tax on the salary alone, spread across paychecks
+ * 4. Remaining profit is a distribution: income tax but no FICA; tax on it that
+ *    withholding doesn't cover is paid with estimated payments
+ */
+export function calcSCorpTax(
+  netProfit: number,
+  profile: TaxProfile,
+  taxYear?: number
+): SCorpTaxResult {
+  const resolved = getTaxConfig(taxYear);
+  const { seTax } = resolved.config;
+  const profit = Math.max(0, netProfit);
+  const payrollFrequency = profile.payrollFrequency ?? 'monthly';
+  const payPeriods = PAY_PERIODS[payrollFrequency];
+
+  const salary = Math.min(Math.max(0, profile.sCorpSalary ?? 0), calcMaxFundableSalary(profit, seTax));
+  const employerFica = calcFicaShare(salary, seTax);
+  const employeeFica = calcFicaShare(salary, seTax);
+  const additionalMedicare = Math.max(0, salary - seTax.additionalMedicareThreshold[profile.filingStatus])
+    * seTax.additionalMedicareRate;
+  const distribution = Math.max(0, profit - salary - employerFica);
+
+  const incomeTax = calcSCorpIncomeTax(salary, distribution, profile, resolved.taxYear);
+  const withheld = calcSCorpIncomeTax(salary, 0, profile, resolved.taxYear);
+  const federalWithholding = withheld.federal;
+  const stateWithholding = withheld.state + withheld.local;
+
+  const payroll: PayrollAmounts = {
+    grossPay: salary,
+    employeeFica,
+    employerFica,
+    additionalMedicare,
+    federalWithholding,
+    stateWithholding,
+    netPay: salary - employeeFica - additionalMedicare - federalWithholding - stateWithholding,
+  };
+
+  const totalIncomeTax = incomeTax.federal + incomeTax.state + incomeTax.local;
+  const distributionTax = Math.max(0, totalIncomeTax - federalWithholding - stateWithholding);
+  const total = employerFica + employeeFica + additionalMedicare + totalIncomeTax;
+
+  return {
+    netProfit: profit,
+    salary,
+    distribution,
+    payrollFrequency,
+    payPeriods,
+    payroll,
+    perPaycheck: dividePayroll(payroll, payPeriods),
+    federal: incomeTax.federal,
+    state: incomeTax.state,
+    local: incomeTax.local,
+    qbiDeduction: incomeTax.qbiDeduction,
+    distributionTax,
+    total,
+    effectiveRate: profit > 0 ? total / profit : 0,
+    taxYear: resolved.taxYear,
+    configNotice: resolved.notice,
+  };
+}
+
+/**
+ * Compare total tax on the same net profit as a sole proprietor (Schedule C +
+ * SE tax) and as an S-Corp paying `profile.sCorpSalary`
+ *
+ * Payroll service fees and state S-Corp franchise taxes are not included.
+ */
+export function compareSoleProprietorToSCorp(
+  netProfit: number,
+  profile: TaxProfile,
+  taxYear?: number
+): EntityComparison {
+  const net = Math.max(0, netProfit);
+  const soleProprietor = calcTotalTax(
+    { grossIncome: net, adjustments: 0, netSE: net },
+    { ...profile, seIncome: true },
+    taxYear
+  );
+  const sCorp = calcSCorpTax(net, profile, taxYear);
+
+  return {
+    soleProprietor,
+    sCorp,
+    savings: soleProprietor.total - sCorp.total,
   };
 }
@@ -0,0 +1,298 @@
+/**
+ * Estimated Tax Planner (Form 1040-ES / Form 2210)
+ *
+ * Pure functions for the four federal estimated tax installments:
+ * - Required annual payment: the smaller of 90% of current-year tax and 100%
+ *   of prior-year tax (110% when prior-year AGI is over $150,000)
+ * - Regular installments: 25% of the required annual payment each quarter
+ * - Annualized income installment method (Form 2210 Schedule AI), which lowers
+ *   early installments when gig income is back-loaded
+ * - Shortfall per installment and the Form 2210 penalty on it
+ *
+ * Rates and thresholds come from the year-keyed config (`estimatedTax`).
+ * W-2 withholding is not part of the plan; it only covers Schedule C income.
+ */
+
+import { calcTotalTax, type TaxProfile } from './engine';
+import { getTaxConfig } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Quarter = 1 | 2 | 3 | 4;
+
+export interface EstimatedTaxPeriod {
+  quarter: Quarter;
+  periodEnd: string;           // Last day of the Schedule AI period (YYYY-MM-DD)
+  dueDate: string;             // 1040-ES due date (YYYY-MM-DD)
+  annualizationFactor: number; // 4, 2.4, 1.5, 1
+  applicablePercent: number;   // 22.5%, 45%, 67.5%, 90%
+}
+
+export interface EstimatedTaxPayment {
+  amount: number;
+  paidOn: string;              // YYYY-MM-DD
+}
+
+/** Dated net profit (income positive, expenses negative) */
+export interface NetProfitEntry {
+  date: string;                // YYYY-MM-DD
+  amount: number;
+}
+
+export interface EstimatedTaxInput {
+  taxYear: number;
+  profile: TaxProfile;
+  netProfitByPeriod: [number, number, number, number]; // Cumulative net profit through each period end
+  projectedNetProfit: number;  // Full-year net profit for the 90% current-year method
+  priorYearTax?: number | null; // Total tax on last year's return (Form 1040 line 24)
+  priorYearAGI?: number | null;
+  payments: EstimatedTaxPayment[];
+  asOf?: string;               // Today (YYYY-MM-DD); decides which installments are past due
+}
+
+export interface InstallmentPlan {
+  quarter: Quarter;
+  dueDate: string;
+  regularInstallment: number;    // 25% of the required annual payment
+  annualizedInstallment: number; // Schedule AI installment
+  requiredInstallment: number;   // Smaller of the two (with regular carryover)
+  paid: number;                  // Payments applied to this installment
+  shortfall: number;
+  penalty: number;               // Form 2210 penalty if the shortfall is paid on the return due date
+  isPastDue: boolean;
+}
+
+export interface EstimatedTaxPlan {
+  taxYear: number;
+  currentYearTax: number;
+  currentYearRequired: number;       // 90% of current-year tax
+  priorYearPercent: number;          // 100%, or 110% when prior-year AGI is over the threshold
+  priorYearRequired: number | null;  // priorYearPercent of prior-year tax (null when not entered)
+  requiredAnnualPayment: number;
+  safeHarbor: 'prior_year' | 'current_year' | 'none';
+  usesAnnualizedMethod: boolean;     // Some installment is lower under Schedule AI
+  installments: InstallmentPlan[];
+  totalPaid: number;
+  totalShortfall: number;
+  totalPenalty: number;
+  overpayment: number;               // Payments beyond the required installments
+  configNotice?: string;
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+/**
+ * Schedule AI periods and 1040-ES due dates for a tax year
+ * (Q4 is due January 15 of the following year; weekend shifts are ignored)
+ */
+export function getEstimatedTaxPeriods(year: number): EstimatedTaxPeriod[] {
+  return [
+    { quarter: 1, periodEnd: `${year}-03-31`, dueDate: `${year}-04-15`, annualizationFactor: 4, applicablePercent: 0.225 },
+    { quarter: 2, periodEnd: `${year}-05-31`, dueDate: `${year}-06-15`, annualizationFactor: 2.4, applicablePercent: 0.45 },
+    { quarter: 3, periodEnd: `${year}-08-31`, dueDate: `${year}-09-15`, annualizationFactor: 1.5, applicablePercent: 0.675 },
+    { quarter: 4, periodEnd: `${year}-12-31`, dueDate: `${year + 1}-01-15`, annualizationFactor: 1, applicablePercent: 0.90 },
+  ];
+}
+
+/**
+ * Return due date the Form 2210 penalty runs to (April 15 of the following year)
+ */
+export function getReturnDueDate(year: number): string {
+  return `${year + 1}-04-15`;
+}
+
+function toDayNumber(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(0, toDayNumber(to) - toDayNumber(from));
+}
+
+// ============================================================================
+// INCOME BY PERIOD
+// ============================================================================
+
+/**
+ * Cumulative net profit through each Schedule AI period end, plus a full-year
+ * projection
+ *
+ * Periods that have ended use actual entries. Later periods (and the full year)
+ * are projected from the year-to-date run rate, never below what's already earned.
+ */
+export function projectNetProfitByPeriod(
+  entries: NetProfitEntry[],
+  taxYear: number,
+  asOf: string
+): { netProfitByPeriod: [number, number, number, number]; projectedNetProfit: number } {
+  const yearStart = `${taxYear}-01-01`;
+  const yearEnd = `${taxYear}-12-31`;
+  const sumThrough = (date: string) => entries
+    .filter(e => e.date >= yearStart && e.date <= date)
+    .reduce((sum, e) => sum + e.amount, 0);
+
+  const daysInYear = daysBetween(yearStart, `${taxYear + 1}-01-01`);
+  const elapsedDays = Math.min(daysInYear, daysBetween(yearStart, asOf) + 1);
+  const toDate = sumThrough(asOf < yearEnd ? asOf : yearEnd);
+
+  let projectedNetProfit: number;
+  if (asOf >= yearEnd) {
+    projectedNetProfit = toDate;
+  } else if (asOf < yearStart) {
+    projectedNetProfit = 0;
+  } else {
+    projectedNetProfit = toDate * (daysInYear / elapsedDays);
+  }
+
+  const netProfitByPeriod = getEstimatedTaxPeriods(taxYear).map(period => {
+    if (period.periodEnd <= asOf) {
+      return sumThrough(period.periodEnd);
+    }
+    const share = (daysBetween(yearStart, period.periodEnd) + 1) / daysInYear;
+    return Math.max(toDate, projectedNetProfit * share);
+  }) as [number, number, number, number];
+
+  return { netProfitByPeriod, projectedNetProfit };
+}
+
+// ============================================================================
+// PLANNER
+// ============================================================================
+
+// Federal tax only (income, SE and Additional Medicare): 1040-ES covers
+// what's owed on the federal return, not state or local income tax
+function taxOnNetProfit(netProfit: number, profile: TaxProfile, taxYear: number): number {
+  const net = Math.max(0, netProfit);
+  const tax = calcTotalTax({ grossIncome: net, adjustments: 0, netSE: net }, profile, taxYear);
+  return tax.federal + tax.seTax + tax.additionalMedicare;
+}
+
+/**
+ * Plan required 1040-ES installments, apply payments made, and estimate the
+ * Form 2210 underpayment penalty
+ *
+ * - Payments apply to the earliest installment with a balance (Form 2210 rule);
+ *   payments before the first due date count toward Q1
+ * - Penalty = shortfall x underpayment rate x days late / 365, from the due date
+ *   until paid or the return due date
+ * - No penalty (and no required payments) when current-year tax is under $1,000
+ */
+export function planEstimatedPayments(input: EstimatedTaxInput): EstimatedTaxPlan {
+  const { config, taxYear, notice: configNotice } = getTaxConfig(input.taxYear);
+  const rules = config.estimatedTax;
+  const { profile } = input;
+  const periods = getEstimatedTaxPeriods(taxYear);
+  const asOf = input.asOf ?? new Date().toISOString().slice(0, 10);
+
+  // Required annual payment (Form 2210 Part I)
+  const currentYearTax = taxOnNetProfit(input.projectedNetProfit, profile, taxYear);
+  const currentYearRequired = currentYearTax * rules.currentYearPercent;
+
+  const highIncome = (input.priorYearAGI ?? 0) > rules.highIncomeAGI[profile.filingStatus];
+  const priorYearPercent = highIncome ? rules.highIncomePriorYearPercent : rules.priorYearPercent;
+  const priorYearRequired = input.priorYearTax != null
+    ? Math.max(0, input.priorYearTax) * priorYearPercent
+    : null;
+
+  const belowMinimum = currentYearTax < rules.minimumBalanceDue;
+  let requiredAnnualPayment = priorYearRequired != null
+    ? Math.min(currentYearRequired, priorYearRequired)
+    : currentYearRequired;
+  if (belowMinimum) {
+    requiredAnnualPayment = 0;
+  }
+
+  let safeHarbor: EstimatedTaxPlan['safeHarbor'] = 'current_year';
+  if (requiredAnnualPayment <= 0) {
+    safeHarbor = 'none';
+  } else if (priorYearRequired != null && priorYearRequired <= currentYearRequired) {
+    safeHarbor = 'prior_year';
+  }
+
+  // Required installments: Schedule AI lines 21-27
+  const regularInstallment = requiredAnnualPayment / 4;
+  let previousRequired = 0;
+  let regularCarryover = 0;
+  const required = periods.map((period, i) => {
+    const annualizedTax = taxOnNetProfit(
+      input.netProfitByPeriod[i] * period.annualizationFactor,
+      profile,
+      taxYear
+    );
+    const annualizedInstallment = belowMinimum
+      ? 0
+      : Math.max(0, annualizedTax * period.applicablePercent - previousRequired);
+
+    const regularWithCarryover = regularInstallment + regularCarryover;
+    const requiredInstallment = Math.min(annualizedInstallment, regularWithCarryover);
+    regularCarryover = regularWithCarryover - requiredInstallment;
+    previousRequired += requiredInstallment;
+
+    return { period, annualizedInstallment, requiredInstallment };
+  });
+
+  // Apply payments to the earliest installment with a balance
+  const returnDueDate = getReturnDueDate(taxYear);
+  const balances = required.map(r => r.requiredInstallment);
+  const paid = required.map(() => 0);
+  const penalties = required.map(() => 0);
+  let overpayment = 0;
+
+  const payments = [...input.payments]
+    .filter(p => p.amount > 0)
+    .sort((a, b) => a.paidOn.localeCompare(b.paidOn));
+
+  for (const payment of payments) {
+    let remaining = payment.amount;
+    for (let i = 0; i < balances.length && remaining > 0; i++) {
+      if (balances[i] <= 0) continue;
+      const applied = Math.min(balances[i], remaining);
+      const paidOn = payment.paidOn < returnDueDate ? payment.paidOn : returnDueDate;
+      penalties[i] += applied * rules.underpaymentRate * daysBetween(required[i].period.dueDate, paidOn) / 365;
+      balances[i] -= applied;
+      paid[i] += applied;
+      remaining -= applied;
+    }
+    overpayment += remaining;
+  }
+
+  const installments: InstallmentPlan[] = required.map((r, i) => {
+    const shortfall = balances[i];
+    const penalty = penalties[i]
+      + shortfall * rules.underpaymentRate * daysBetween(r.period.dueDate, returnDueDate) / 365;
+
+    return {
+      quarter: r.period.quarter,
+      dueDate: r.period.dueDate,
+      regularInstallment,
+      annualizedInstallment: r.annualizedInstallment,
+      requiredInstallment: r.requiredInstallment,
+      paid: paid[i],
+      shortfall,
+      penalty: belowMinimum ? 0 : penalty,
+      isPastDue: shortfall > 0 && asOf > r.period.dueDate,
+    };
+  });
+
+  return {
+    taxYear,
+    currentYearTax,
+    currentYearRequired,
+    priorYearPercent,
+    priorYearRequired,
+    requiredAnnualPayment,
+    safeHarbor,
+    usesAnnualizedMethod: installments.some(i => i.requiredInstallment < i.regularInstallment - 0.005),
+    installments,
+    totalPaid: payments.reduce((sum, p) => sum + p.amount, 0),
+    totalShortfall: installments.reduce((sum, i) => sum + i.shortfall, 0),
+    totalPenalty: installments.reduce((sum, i) => sum + i.penalty, 0),
+    overpayment,
+    configNotice,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Tax Service
+ *
+ * The one API hooks, components and exports use for set-aside and mileage math.
+ * Callers go through these functions instead of keeping their own rate tables
+ * or building engine inputs by hand, so the dashboard, gig form and exports
+ * come up with the same numbers.
+ *
+ * - Tax math delegates to ./engine and the year-keyed configs in ./config
+ * - Mileage math delegates to lib/mileage (IRS standard rate by entry date)
+ * - Per diem M&IE delegates to lib/perDiem (GSA rates by city and fiscal year)
+ * - Quarterly estimated payments delegate to ./estimatedPayments
+ */
+
+import {
+  calcSCorpTax,
+  calcTotalTax,
+  taxDeltaForGig,
+  type GigData,
+  type SetAsideResult,
+  type TaxProfile,
+  type TaxResult,
+  type YTDData,
+} from './engine';
+import type { FilingStatus, StateCode } from './config/types';
+import { sumMileageDeduction } from '../lib/mileage';
+
+export {
+  PAY_PERIODS,
+  calcMultiStateTax,
+  calcSCorpTax,
+  calcYTDEffectiveRate,
+  calculateSplitTax,
+  compareSoleProprietorToSCorp,
+} from './engine';
+export {
+  getEstimatedTaxPeriods,
+  getReturnDueDate,
+  planEstimatedPayments,
+  projectNetProfitByPeriod,
+} from './estimatedPayments';
+export {
+  calculateMileageDeduction,
+  getLatestSupportedMileageYear,
+  getMileageRateForDate,
+  getMileageRateYearForDate,
+  getStandardMileageRate,
+  sumMileageDeduction,
+} from '../lib/mileage';
+export {
+  calculateTravelPerDiem,
+  getMieRate,
+  getPerDiemFiscalYear,
+  PER_DIEM_MEALS_DEDUCTIBLE_PERCENT,
+} from '../lib/perDiem';
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+/**
+ * Normalize the filing status spellings used around the app
+ * ('married', 'hoh', legacy profile values) to the engine's FilingStatus
+ */
+export function toFilingStatus(status: string | null | undefined): FilingStatus {
+  switch (status) {
+    case 'married':
+    case 'married_joint':
+      return 'married_joint';
+    case 'married_separate':
+      return 'married_separate';
+    case 'hoh':
+    case 'head':
+      return 'head';
+    default:
+      return 'single';
+  }
+}
+
+/**
+ * Engine profile from just a state and filing status (standard deduction,
+ * self-employed). An unknown or missing state gets no state tax.
+ */
+export function basicTaxProfile(
+  stateCode?: string | null,
+  filingStatus?: string | null
+): TaxProfile {
+  return {
+    filingStatus: toFilingStatus(filingStatus),
+    state: (stateCode ?? '').toUpperCase() as StateCode,
+    deductionMethod: 'standard',
+    seIncome: true,
+  };
+}
+
+// ============================================================================
+// YEAR-TO-DATE ESTIMATES
+// ============================================================================
+
+/**
+ * Engine input for year-to-date Schedule C net profit
+ *
+ * Net profit (not gross receipts) is what flows into AGI, so it is both the
+ * income and the SE base. A loss is treated as zero.
+ */
+export function toYTDData(netProfit: number): YTDData {
+  const net = Math.max(0, netProfit);
+  return { grossIncome: net, adjustments: 0, netSE: net };
+}
+
+/**
+ * Estimate the full-year tax on Schedule C net profit
+ */
+export function estimateTaxOnNetProfit(
+  netProfit: number,
+  profile: TaxProfile,
+  taxYear?: number
+): TaxResult {
+  return calcTotalTax(toYTDData(netProfit), profile, taxYear);
+}
+
+/**
+ * Estimate the full-year tax on business net profit for an LLC taxed as an
+ * S-Corp, in the same shape as estimateTaxOnNetProfit
+ *
+ * Payroll FICA (employer and employee halves) takes the place of SE tax, so it
+ * is reported as `seTax`; `effectiveRate` is against net profit.
+ */
+export function estimateSCorpTaxOnNetProfit(
+  netProfit: number,
+  profile: TaxProfile,
+  taxYear?: number
+): TaxResult {
+  const result = calcSCorpTax(netProfit, profile, taxYear);
+
+  return {
+    federal: result.federal,
+    state: result.state,
+    local: result.local,
+    seTax: result.payroll.employerFica + result.payroll.employeeFica,
+    additionalMedicare: result.payroll.additionalMedicare,
+    qbiDeduction: result.qbiDeduction,
+    total: result.total,
+    effectiveRate: result.effectiveRate,
+    taxYear: result.taxYear,
+    configNotice: result.configNotice,
+  };
+}
+
+// ============================================================================
+// GIG SET-ASIDE
+// ============================================================================
+
+/**
+ * A gig's income and deduction lines, as stored on the gig row
+ */
+export interface GigTaxLines {
+  gross_amount: number;
+  tips?: number | null;
+  per_diem?: number | null;
+  other_income?: number | null;
+  fees?: number | null;
+  expenses?: Array<{ amount: number }>;
+  subcontractor_payments?: Array<{ amount: number }>;
+  mileage?: Array<{ miles: number; date?: string | null }>;
+  date?: string | null;
+}
+
+/**
+ * Engine input for one gig: every income line against fees, expenses,
+ * subcontractor payments and the mileage deduction
+ */
+export function toGigData(gig: GigTaxLines): GigData {
+  const gross = gig.gross_amount + (gig.tips || 0) + (gig.per_diem || 0) + (gig.other_income || 0);
+  const expenses = (gig.fees || 0)
+    + (gig.expenses || []).reduce((sum, e) => sum + e.amount, 0)
+    + (gig.subcontractor_payments || []).reduce((sum, p) => sum + p.amount, 0)
+    + sumMileageDeduction(gig.mileage || []);
+
+  return { gross, expenses, date: gig.date || undefined };
+}
+
+/**
+ * Estimate how much to set aside for a gig, given year-to-date net profit
+ * before the gig
+ */
+export function estimateGigSetAside(
+  ytdNetProfit: number,
+  gig: GigData,
+  profile: TaxProfile
+): SetAsideResult {
+  return taxDeltaForGig(toYTDData(ytdNetProfit), gig, profile);
+}
@@ -68,5 +68,12 @@ export interface BucketValidation {
 
 export interface BucketYTDTotal {
   bucket_id: string;
-  total: number;
+  total: number;      // Balance: allocated less tax payments drawn from the bucket
+  allocated: number;
+  paid: number;
+}
+
+export interface TaxPaymentDrawdown {
+  jurisdiction: string; // 'federal' or a state code
+  amount: number;
 }
@@ -183,6 +183,140 @@ export type Database = {
         }
         Relationships: []
       }
+      client_portal_links: {
+        Row: {
+          access_count: number
+          created_at: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          last_accessed: string | null
+          payer_id: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          access_count?: number
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          last_accessed?: string | null
+          payer_id: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          access_count?: number
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          last_accessed?: string | null
+          payer_id?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_portal_links_payer_id_fkey"
+            columns: ["payer_id"]
+            isOneToOne: false
+            referencedRelation: "payers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      estimated_tax_payments: {
+        Row: {
+          amount: number
+          confirmation_number: string | null
+          created_at: string
+          id: string
+          jurisdiction: string
+          paid_on: string
+          quarter: number
+          tax_year: number
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          confirmation_number?: string | null
+          created_at?: string
+          id?: string
+          jurisdiction?: string
+          paid_on: string
+          quarter: number
+          tax_year: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          confirmation_number?: string | null
+          created_at?: string
+          id?: string
+          jurisdiction?: string
+          paid_on?: string
+          quarter?: number
+          tax_year?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      estimated_tax_plans: {
+        Row: {
+          created_at: string
+          prior_year_agi: number | null
+          prior_year_tax: number | null
+          tax_year: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          prior_year_agi?: number | null
+          prior_year_tax?: number | null
+          tax_year: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          prior_year_agi?: number | null
+          prior_year_tax?: number | null
+          tax_year?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          id: string
+          rate_date: string
+          usd_per_unit: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          id?: string
+          rate_date: string
+          usd_per_unit: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          id?: string
+          rate_date?: string
+          usd_per_unit?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       expenses: {
         Row: {
           allocation_json: Json | null
@@ -193,8 +327,10 @@ export type Database = {
           category_confidence: number | null
           category_suggestion: string | null
           created_at: string
+          currency: string
           date: string
           description: string
+          exchange_rate: number
           gig_id: string | null
           id: string
           irs_schedule_c_line: string | null
@@ -213,6 +349,7 @@ export type Database = {
           receipt_total: number | null
           receipt_url: string | null
           receipt_vendor: string | null
+          recurring_due_date: string | null
           recurring_expense_id: string | null
           tour_id: string | null
           updated_at: string
@@ -228,8 +365,10 @@ export type Database = {
           category_confidence?: number | null
           category_suggestion?: string | null
           created_at?: string
+          currency?: string
           date: string
           description: string
+          exchange_rate?: number
           gig_id?: string | null
           id?: string
           irs_schedule_c_line?: string | null
@@ -248,6 +387,7 @@ export type Database = {
           receipt_total?: number | null
           receipt_url?: string | null
           receipt_vendor?: string | null
+          recurring_due_date?: string | null
           recurring_expense_id?: string | null
           tour_id?: string | null
           updated_at?: string
@@ -263,8 +403,10 @@ export type Database = {
           category_confidence?: number | null
           category_suggestion?: string | null
           created_at?: string
+          currency?: string
           date?: string
           description?: string
+          exchange_rate?: number
           gig_id?: string | null
           id?: string
           irs_schedule_c_line?: string | null
@@ -283,6 +425,7 @@ export type Database = {
           receipt_total?: number | null
           receipt_url?: string | null
           receipt_vendor?: string | null
+          recurring_due_date?: string | null
           recurring_expense_id?: string | null
           tour_id?: string | null
           updated_at?: string
@@ -355,6 +498,9 @@ export type Database = {
           gig_id: string
           id: string
           note: string | null
+          paid_on: string
+          settlement_id: string | null
+          split_template_id: string | null
           subcontractor_id: string
           user_id: string
         }
@@ -364,6 +510,9 @@ export type Database = {
           gig_id: string
           id?: string
           note?: string | null
+          paid_on?: string
+          settlement_id?: string | null
+          split_template_id?: string | null
           subcontractor_id: string
           user_id: string
         }
@@ -373,6 +522,9 @@ export type Database = {
           gig_id?: string
           id?: string
           note?: string | null
+          paid_on?: string
+          settlement_id?: string | null
+          split_template_id?: string | null
           subcontractor_id?: string
           user_id?: string
         }
@@ -391,6 +543,20 @@ export type Database = {
             referencedRelation: "gigs_with_tax_treatment"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "gig_subcontractor_payments_settlement_id_fkey"
+            columns: ["settlement_id"]
+            isOneToOne: false
+            referencedRelation: "settlements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gig_subcontractor_payments_split_template_id_fkey"
+            columns: ["split_template_id"]
+            isOneToOne: false
+            referencedRelation: "payout_split_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "gig_subcontractor_payments_subcontractor_id_fkey"
             columns: ["subcontractor_id"]
@@ -409,8 +575,10 @@ export type Database = {
           country: string | null
           country_code: string | null
           created_at: string
+          currency: string
           date: string
           end_time: string | null
+          exchange_rate: number
           fees: number
           gross_amount: number
           id: string
@@ -422,6 +590,7 @@ export type Database = {
           notes: string | null
           other_income: number | null
           paid: boolean | null
+          paid_on: string | null
           payer_id: string
           payment_method: string | null
           per_diem: number | null
@@ -445,8 +614,10 @@ export type Database = {
           country?: string | null
           country_code?: string | null
           created_at?: string
+          currency?: string
           date: string
           end_time?: string | null
+          exchange_rate?: number
           fees?: number
           gross_amount?: number
           id?: string
@@ -458,6 +629,7 @@ export type Database = {
           notes?: string | null
           other_income?: number | null
           paid?: boolean | null
+          paid_on?: string | null
           payer_id: string
           payment_method?: string | null
           per_diem?: number | null
@@ -481,8 +653,10 @@ export type Database = {
           country?: string | null
           country_code?: string | null
           created_at?: string
+          currency?: string
           date?: string
           end_time?: string | null
+          exchange_rate?: number
           fees?: number
           gross_amount?: number
           id?: string
@@ -494,6 +668,7 @@ export type Database = {
           notes?: string | null
           other_income?: number | null
           paid?: boolean | null
+          paid_on?: string | null
           payer_id?: string
           payment_method?: string | null
           per_diem?: number | null
@@ -581,13 +756,56 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_credit_notes: {
+        Row: {
+          amount: number
+          created_at: string
+          credit_number: string
+          id: string
+          invoice_id: string
+          issue_date: string
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          credit_number: string
+          id?: string
+          invoice_id: string
+          issue_date?: string
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          credit_number?: string
+          id?: string
+          invoice_id?: string
+          issue_date?: string
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoice_line_items: {
         Row: {
           amount: number
           created_at: string
           description: string
+          gig_id: string | null
           id: string
           invoice_id: string
+          kind: string
           quantity: number
           rate: number
           sort_order: number
@@ -596,8 +814,10 @@ export type Database = {
           amount: number
           created_at?: string
           description: string
+          gig_id?: string | null
           id?: string
           invoice_id: string
+          kind?: string
           quantity?: number
           rate: number
           sort_order?: number
@@ -606,8 +826,10 @@ export type Database = {
           amount?: number
           created_at?: string
           description?: string
+          gig_id?: string | null
           id?: string
           invoice_id?: string
+          kind?: string
           quantity?: number
           rate?: number
           sort_order?: number
@@ -620,6 +842,13 @@ export type Database = {
             referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoice_line_items_gig_id_fkey"
+            columns: ["gig_id"]
+            isOneToOne: false
+            referencedRelation: "gigs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       invoice_payments: {
@@ -663,6 +892,47 @@ export type Database = {
           },
         ]
       }
+      invoice_reminders: {
+        Row: {
+          error: string | null
+          id: string
+          invoice_id: string
+          offset_days: number
+          recipient_email: string
+          sent_at: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          error?: string | null
+          id?: string
+          invoice_id: string
+          offset_days: number
+          recipient_email: string
+          sent_at?: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          error?: string | null
+          id?: string
+          invoice_id?: string
+          offset_days?: number
+          recipient_email?: string
+          sent_at?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoice_settings: {
         Row: {
           accepted_payment_methods: Json | null
@@ -671,17 +941,26 @@ export type Database = {
           color_scheme: string
           created_at: string
           default_currency: string
+          default_net_days: number
           default_payment_terms: string | null
           default_tax_rate: number | null
+          default_template_id: string | null
+          early_discount_days: number
+          early_discount_percent: number
           email: string
           font_style: string
           id: string
           invoice_prefix: string
+          late_fee_amount: number
+          late_fee_type: string
           layout_style: string
           logo_url: string | null
           next_invoice_number: number
+          online_payments_enabled: boolean
           payment_methods_config: Json | null
           phone: string | null
+          reminder_schedule: number[]
+          reminders_enabled: boolean
           tax_id: string | null
           updated_at: string
           user_id: string
@@ -694,17 +973,26 @@ export type Database = {
           color_scheme?: string
           created_at?: string
           default_currency?: string
+          default_net_days?: number
           default_payment_terms?: string | null
           default_tax_rate?: number | null
+          default_template_id?: string | null
+          early_discount_days?: number
+          early_discount_percent?: number
           email: string
           font_style?: string
           id?: string
           invoice_prefix?: string
+          late_fee_amount?: number
+          late_fee_type?: string
           layout_style?: string
           logo_url?: string | null
           next_invoice_number?: number
+          online_payments_enabled?: boolean
           payment_methods_config?: Json | null
           phone?: string | null
+          reminder_schedule?: number[]
+          reminders_enabled?: boolean
           tax_id?: string | null
           updated_at?: string
           user_id: string
@@ -717,22 +1005,84 @@ export type Database = {
           color_scheme?: string
           created_at?: string
           default_currency?: string
+          default_net_days?: number
           default_payment_terms?: string | null
           default_tax_rate?: number | null
+          default_template_id?: string | null
+          early_discount_days?: number
+          early_discount_percent?: number
           email?: string
           font_style?: string
           id?: string
           invoice_prefix?: string
+          late_fee_amount?: number
+          late_fee_type?: string
           layout_style?: string
           logo_url?: string | null
           next_invoice_number?: number
+          online_payments_enabled?: boolean
           payment_methods_config?: Json | null
           phone?: string | null
+          reminder_schedule?: number[]
+          reminders_enabled?: boolean
           tax_id?: string | null
           updated_at?: string
           user_id?: string
           website?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_settings_default_template_id_fkey"
+            columns: ["default_template_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_templates: {
+        Row: {
+          color_scheme: string
+          created_at: string
+          font_style: string
+          id: string
+          layout: string
+          name: string
+          show_gig_details: boolean
+          show_payment_qr: boolean
+          show_payment_terms: boolean
+          show_tax_id: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color_scheme?: string
+          created_at?: string
+          font_style?: string
+          id?: string
+          layout?: string
+          name: string
+          show_gig_details?: boolean
+          show_payment_qr?: boolean
+          show_payment_terms?: boolean
+          show_tax_id?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color_scheme?: string
+          created_at?: string
+          font_style?: string
+          id?: string
+          layout?: string
+          name?: string
+          show_gig_details?: boolean
+          show_payment_qr?: boolean
+          show_payment_terms?: boolean
+          show_tax_id?: boolean
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
       invoices: {
@@ -744,28 +1094,43 @@ export type Database = {
           client_id: string | null
           client_name: string
           created_at: string
+          credited_amount: number
           currency: string
           discount_amount: number | null
           due_date: string
+          early_discount_days: number
+          early_discount_percent: number
+          exchange_rate: number | null
           gig_id: string | null
           id: string
           invoice_date: string
           invoice_number: string
+          late_fee_amount: number
+          late_fee_type: string
+          net_days: number | null
           notes: string | null
           paid_at: string | null
           payment_methods_config: Json | null
           payment_terms: string | null
           private_notes: string | null
           public_token: string | null
+          recurring_invoice_id: string | null
+          recurring_run_date: string | null
+          reminder_schedule: number[] | null
+          reminders_stopped_at: string | null
           sent_at: string | null
           status: string
           subtotal: number
           tax_amount: number | null
           tax_rate: number | null
+          template_id: string | null
           total_amount: number
           updated_at: string
           user_id: string
           viewed_at: string | null
+          write_off_reason: string | null
+          written_off_amount: number
+          written_off_on: string | null
         }
         Insert: {
           accepted_payment_methods?: Json | null
@@ -775,28 +1140,43 @@ export type Database = {
           client_id?: string | null
           client_name: string
           created_at?: string
+          credited_amount?: number
           currency?: string
           discount_amount?: number | null
           due_date: string
+          early_discount_days?: number
+          early_discount_percent?: number
+          exchange_rate?: number | null
           gig_id?: string | null
           id?: string
           invoice_date?: string
           invoice_number: string
+          late_fee_amount?: number
+          late_fee_type?: string
+          net_days?: number | null
           notes?: string | null
           paid_at?: string | null
           payment_methods_config?: Json | null
           payment_terms?: string | null
           private_notes?: string | null
           public_token?: string | null
+          recurring_invoice_id?: string | null
+          recurring_run_date?: string | null
+          reminder_schedule?: number[] | null
+          reminders_stopped_at?: string | null
           sent_at?: string | null
           status?: string
           subtotal?: number
           tax_amount?: number | null
           tax_rate?: number | null
+          template_id?: string | null
           total_amount?: number
           updated_at?: string
           user_id: string
           viewed_at?: string | null
+          write_off_reason?: string | null
+          written_off_amount?: number
+          written_off_on?: string | null
         }
         Update: {
           accepted_payment_methods?: Json | null
@@ -806,28 +1186,43 @@ export type Database = {
           client_id?: string | null
           client_name?: string
           created_at?: string
+          credited_amount?: number
           currency?: string
           discount_amount?: number | null
           due_date?: string
+          early_discount_days?: number
+          early_discount_percent?: number
+          exchange_rate?: number | null
           gig_id?: string | null
           id?: string
           invoice_date?: string
           invoice_number?: string
+          late_fee_amount?: number
+          late_fee_type?: string
+          net_days?: number | null
           notes?: string | null
           paid_at?: string | null
           payment_methods_config?: Json | null
           payment_terms?: string | null
           private_notes?: string | null
           public_token?: string | null
+          recurring_invoice_id?: string | null
+          recurring_run_date?: string | null
+          reminder_schedule?: number[] | null
+          reminders_stopped_at?: string | null
           sent_at?: string | null
           status?: string
           subtotal?: number
           tax_amount?: number | null
           tax_rate?: number | null
+          template_id?: string | null
           total_amount?: number
           updated_at?: string
           user_id?: string
           viewed_at?: string | null
+          write_off_reason?: string | null
+          written_off_amount?: number
+          written_off_on?: string | null
         }
         Relationships: [
           {
@@ -851,6 +1246,20 @@ export type Database = {
             referencedRelation: "gigs_with_tax_treatment"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoices_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       location_history: {
@@ -1101,6 +1510,54 @@ export type Database = {
         }
         Relationships: []
       }
+      payout_split_templates: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          payer_id: string | null
+          shares: Json
+          tour_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          payer_id?: string | null
+          shares?: Json
+          tour_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          payer_id?: string | null
+          shares?: Json
+          tour_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_split_templates_payer_id_fkey"
+            columns: ["payer_id"]
+            isOneToOne: false
+            referencedRelation: "payers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_split_templates_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "tour_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       processed_stripe_events: {
         Row: {
           event_id: string
@@ -1237,10 +1694,13 @@ export type Database = {
           frequency: string
           id: string
           is_active: boolean | null
+          last_error: string | null
+          last_posted_date: string | null
           month_of_year: number | null
           name: string
           next_due_date: string | null
           notes: string | null
+          post_mode: string
           updated_at: string | null
           user_id: string
           vendor: string | null
@@ -1254,10 +1714,13 @@ export type Database = {
           frequency: string
           id?: string
           is_active?: boolean | null
+          last_error?: string | null
+          last_posted_date?: string | null
           month_of_year?: number | null
           name: string
           next_due_date?: string | null
           notes?: string | null
+          post_mode?: string
           updated_at?: string | null
           user_id: string
           vendor?: string | null
@@ -1271,16 +1734,117 @@ export type Database = {
           frequency?: string
           id?: string
           is_active?: boolean | null
+          last_error?: string | null
+          last_posted_date?: string | null
           month_of_year?: number | null
           name?: string
           next_due_date?: string | null
           notes?: string | null
+          post_mode?: string
           updated_at?: string | null
           user_id?: string
           vendor?: string | null
         }
         Relationships: []
       }
+      recurring_invoices: {
+        Row: {
+          accepted_payment_methods: Json
+          client_address: string | null
+          client_company: string | null
+          client_email: string | null
+          client_id: string | null
+          client_name: string
+          created_at: string
+          currency: string
+          discount_amount: number | null
+          due_in_days: number
+          end_date: string | null
+          frequency: string
+          id: string
+          is_paused: boolean
+          last_error: string | null
+          last_run_date: string | null
+          line_items: Json
+          next_run_date: string | null
+          notes: string | null
+          payment_terms: string | null
+          private_notes: string | null
+          reminder_schedule: number[] | null
+          send_mode: string
+          start_date: string
+          tax_rate: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accepted_payment_methods?: Json
+          client_address?: string | null
+          client_company?: string | null
+          client_email?: string | null
+          client_id?: string | null
+          client_name: string
+          created_at?: string
+          currency?: string
+          discount_amount?: number | null
+          due_in_days?: number
+          end_date?: string | null
+          frequency: string
+          id?: string
+          is_paused?: boolean
+          last_error?: string | null
+          last_run_date?: string | null
+          line_items?: Json
+          next_run_date?: string | null
+          notes?: string | null
+          payment_terms?: string | null
+          private_notes?: string | null
+          reminder_schedule?: number[] | null
+          send_mode?: string
+          start_date: string
+          tax_rate?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accepted_payment_methods?: Json
+          client_address?: string | null
+          client_company?: string | null
+          client_email?: string | null
+          client_id?: string | null
+          client_name?: string
+          created_at?: string
+          currency?: string
+          discount_amount?: number | null
+          due_in_days?: number
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          is_paused?: boolean
+          last_error?: string | null
+          last_run_date?: string | null
+          line_items?: Json
+          next_run_date?: string | null
+          notes?: string | null
+          payment_terms?: string | null
+          private_notes?: string | null
+          reminder_schedule?: number[] | null
+          send_mode?: string
+          start_date?: string
+          tax_rate?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "payers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saved_routes: {
         Row: {
           created_at: string | null
@@ -1365,41 +1929,57 @@ export type Database = {
           allocation_mode: string
           amount: number
           created_at: string
+          gig_id: string | null
           id: string
           notes: string | null
           paid_at: string | null
           payer_name: string | null
+          signed_off_at: string | null
           tour_id: string | null
           updated_at: string
           user_id: string
+          worksheet: Json | null
         }
         Insert: {
           allocation_json?: Json | null
           allocation_mode?: string
           amount: number
           created_at?: string
+          gig_id?: string | null
           id?: string
           notes?: string | null
           paid_at?: string | null
           payer_name?: string | null
+          signed_off_at?: string | null
           tour_id?: string | null
           updated_at?: string
           user_id: string
+          worksheet?: Json | null
         }
         Update: {
           allocation_json?: Json | null
           allocation_mode?: string
           amount?: number
           created_at?: string
+          gig_id?: string | null
           id?: string
           notes?: string | null
           paid_at?: string | null
           payer_name?: string | null
+          signed_off_at?: string | null
           tour_id?: string | null
           updated_at?: string
           user_id?: string
+          worksheet?: Json | null
         }
         Relationships: [
+          {
+            foreignKeyName: "settlements_gig_id_fkey"
+            columns: ["gig_id"]
+            isOneToOne: false
+            referencedRelation: "gigs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "settlements_tour_id_fkey"
             columns: ["tour_id"]
@@ -1497,6 +2077,33 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_connect_accounts: {
+        Row: {
+          charges_enabled: boolean
+          created_at: string
+          details_submitted: boolean
+          stripe_account_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          charges_enabled?: boolean
+          created_at?: string
+          details_submitted?: boolean
+          stripe_account_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          charges_enabled?: boolean
+          created_at?: string
+          details_submitted?: boolean
+          stripe_account_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       subcontractor_1099_deliveries: {
         Row: {
           amount: number
@@ -1676,6 +2283,57 @@ export type Database = {
         }
         Relationships: []
       }
+      tour_budget_items: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          description: string | null
+          gig_id: string | null
+          id: string
+          tour_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          description?: string | null
+          gig_id?: string | null
+          id?: string
+          tour_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          description?: string | null
+          gig_id?: string | null
+          id?: string
+          tour_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tour_budget_items_gig_id_fkey"
+            columns: ["gig_id"]
+            isOneToOne: false
+            referencedRelation: "gigs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tour_budget_items_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "tour_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tour_runs: {
         Row: {
           artist_name: string | null
@@ -1788,7 +2446,13 @@ export type Database = {
           deduction_method: string
           filing_status: string
           itemized_amount: number | null
+          local_jurisdiction: string | null
+          local_tax_rate: number | null
           nyc_resident: boolean | null
+          school_district: string | null
+          school_district_rate: number | null
+          scorp_payroll_frequency: string | null
+          scorp_reasonable_salary: number | null
           se_income: boolean
           state: string
           tax_year: number
@@ -1802,7 +2466,13 @@ export type Database = {
           deduction_method?: string
           filing_status: string
           itemized_amount?: number | null
+          local_jurisdiction?: string | null
+          local_tax_rate?: number | null
           nyc_resident?: boolean | null
+          school_district?: string | null
+          school_district_rate?: number | null
+          scorp_payroll_frequency?: string | null
+          scorp_reasonable_salary?: number | null
           se_income?: boolean
           state: string
           tax_year?: number
@@ -1816,7 +2486,13 @@ export type Database = {
           deduction_method?: string
           filing_status?: string
           itemized_amount?: number | null
+          local_jurisdiction?: string | null
+          local_tax_rate?: number | null
           nyc_resident?: boolean | null
+          school_district?: string | null
+          school_district_rate?: number | null
+          scorp_payroll_frequency?: string | null
+          scorp_reasonable_salary?: number | null
           se_income?: boolean
           state?: string
           tax_year?: number
@@ -1,3 +1,7 @@
+import type { RecurringInvoiceFrequency, RecurringInvoiceSendMode } from '../utils/recurringInvoices';
+import { normalizeLateFeeType, parsePaymentTerms, type LateFeeType } from '../utils/invoicePaymentTerms';
+import type { InvoiceTemplateColumns } from '../utils/invoiceTemplates';
+
 export type InvoiceStatus = 
   | 'draft' 
   | 'sent' 
@@ -5,7 +9,8 @@ export type InvoiceStatus =
   | 'partially_paid' 
   | 'paid' 
   | 'overdue' 
-  | 'cancelled';
+  | 'cancelled'
+  | 'written_off';
 
 export type PaymentMethod = 
   | 'Cash' 
@@ -15,6 +20,7 @@ export type PaymentMethod =
   | 'PayPal' 
   | 'Cash App' 
   | 'Wire Transfer' 
+  | 'Bank Transfer'
   | 'Credit Card'
   | 'Other';
 
@@ -35,14 +41,24 @@ export interface InvoiceSettings {
   tax_id?: string;
   invoice_prefix: string;
   next_invoice_number: number;
-  default_payment_terms: string;
+  default_payment_terms: string; // Display label, kept in step with the structured terms below
+  default_net_days?: number;
+  late_fee_type?: LateFeeType;
+  late_fee_amount?: number; // Flat amount, or percent per month
+  early_discount_percent?: number;
+  early_discount_days?: number;
   default_tax_rate?: number;
   default_currency: string;
   color_scheme: string;
   font_style: string;
   layout_style: string;
+  default_template_id?: string | null; // Template for new invoices
+  default_template?: SavedInvoiceTemplate | null;
   accepted_payment_methods: PaymentMethodDetail[]; // Legacy - kept for backward compatibility
   payment_methods_config?: any; // New structured config - typed as any to avoid circular dependency, use PaymentMethodsConfig from paymentMethods.ts
+  reminders_enabled?: boolean;
+  reminder_schedule?: number[]; // Default reminder cadence, days from the due date
+  online_payments_enabled?: boolean; // Clients can pay by card / ACH from the public invoice page (needs a Stripe Connect account)
   created_at: string;
   updated_at: string;
 }
@@ -55,20 +71,68 @@ export interface InvoiceLineItem {
   rate: number;
   amount: number;
   sort_order: number;
+  gig_id?: string | null; // Set when the line bills a gig; paying the invoice marks the gig paid
+  kind?: InvoiceLineItemKind;
+  gig?: InvoiceLineItemGig | null;
   created_at: string;
 }
 
+export type InvoiceLineItemKind = 'item' | 'late_fee';
+
+/** Gig billed by a line item, printed under it when the template shows gig details */
+export interface InvoiceLineItemGig {
+  date: string;
+  title?: string | null;
+  location?: string | null;
+  city?: string | null;
+  state_code?: string | null;
+}
+
+export interface SavedInvoiceTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  layout: string;
+  color_scheme: string;
+  font_style: string;
+  show_tax_id: boolean;
+  show_payment_qr: boolean;
+  show_payment_terms: boolean;
+  show_gig_details: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface InvoicePayment {
   id: string;
   invoice_id: string;
   payment_date: string;
-  amount: number;
+  amount: number; // Negative for a refund
   payment_method: string;
   reference_number?: string;
   notes?: string;
   created_at: string;
 }
 
+export interface InvoiceCreditNote {
+  id: string;
+  invoice_id: string;
+  credit_number: string;
+  issue_date: string;
+  amount: number;
+  reason?: string;
+  created_at: string;
+}
+
+export interface InvoiceReminder {
+  id: string;
+  offset_days: number;
+  recipient_email: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  sent_at: string;
+}
+
 export interface Invoice {
   id: string;
   user_id: string;
@@ -88,21 +152,80 @@ export interface Invoice {
   discount_amount?: number;
   total_amount: number;
   currency: string;
+  exchange_rate?: number | null; // USD per unit of currency; null when a non-USD invoice has no rate yet
   payment_terms?: string;
+  net_days?: number | null; // null on invoices created before structured terms
+  late_fee_type?: LateFeeType;
+  late_fee_amount?: number;
+  early_discount_percent?: number;
+  early_discount_days?: number;
   notes?: string;
   private_notes?: string;
   accepted_payment_methods: PaymentMethodDetail[]; // Legacy - kept for backward compatibility
   payment_methods_config?: any; // New structured config - snapshot at invoice creation
   gig_id?: string;
+  template_id?: string | null; // null renders with the default template from settings
+  template?: SavedInvoiceTemplate | null;
   created_at: string;
   updated_at: string;
   sent_at?: string;
   viewed_at?: string;
   paid_at?: string;
+  reminder_schedule?: number[] | null; // null uses the default from settings
+  reminders_stopped_at?: string;
+  recurring_invoice_id?: string; // Set when generated from a recurring schedule
+  credited_amount?: number; // Total of credit notes issued against the invoice
+  written_off_amount?: number; // Balance written off as a bad debt
+  written_off_on?: string;
+  write_off_reason?: string;
   line_items?: InvoiceLineItem[];
   payments?: InvoicePayment[];
-  total_paid?: number;
-  balance_due?: number;
+  credit_notes?: InvoiceCreditNote[];
+  reminders?: InvoiceReminder[];
+  total_paid?: number; // Net of refunds
+  balance_due?: number; // Negative when credits leave money owed to the client
+}
+
+export interface RecurringInvoice {
+  id: string;
+  user_id: string;
+  client_id?: string;
+  client_name: string;
+  client_email?: string;
+  client_company?: string;
+  client_address?: string;
+  line_items: {
+    description: string;
+    quantity: number;
+    rate: number;
+  }[];
+  tax_rate?: number;
+  discount_amount?: number;
+  currency: string;
+  payment_terms?: string;
+  due_in_days: number;
+  notes?: string;
+  private_notes?: string;
+  accepted_payment_methods: PaymentMethodDetail[];
+  reminder_schedule?: number[] | null;
+  frequency: RecurringInvoiceFrequency;
+  start_date: string;
+  end_date?: string;
+  next_run_date?: string; // Unset once the schedule has ended
+  send_mode: RecurringInvoiceSendMode;
+  is_paused: boolean;
+  last_run_date?: string;
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringInvoiceScheduleInput {
+  frequency: RecurringInvoiceFrequency;
+  start_date: string;
+  end_date?: string | null;
+  send_mode: RecurringInvoiceSendMode;
+  due_in_days: number;
 }
 
 export interface PublicInvoicePayload {
@@ -129,13 +252,24 @@ export interface PublicInvoicePayload {
     | 'sent_at'
     | 'viewed_at'
     | 'paid_at'
+    | 'credited_amount'
+    | 'written_off_amount'
+    | 'net_days'
+    | 'late_fee_type'
+    | 'late_fee_amount'
+    | 'early_discount_percent'
+    | 'early_discount_days'
   > & {
+    template?: InvoiceTemplateColumns | null;
     line_items: Array<
-      Pick<InvoiceLineItem, 'id' | 'description' | 'quantity' | 'rate' | 'amount' | 'sort_order'>
+      Pick<InvoiceLineItem, 'id' | 'description' | 'quantity' | 'rate' | 'amount' | 'sort_order' | 'kind' | 'gig'>
     >;
     payments: Array<
       Pick<InvoicePayment, 'id' | 'payment_date' | 'amount' | 'payment_method' | 'reference_number'>
     >;
+    credit_notes: Array<
+      Pick<InvoiceCreditNote, 'id' | 'credit_number' | 'issue_date' | 'amount' | 'reason'>
+    >;
     total_paid: number;
     balance_due: number;
   };
@@ -147,13 +281,165 @@ export interface PublicInvoicePayload {
     | 'address'
     | 'website'
     | 'logo_url'
+    | 'tax_id'
     | 'default_currency'
     | 'color_scheme'
     | 'font_style'
     | 'layout_style'
     | 'accepted_payment_methods'
     | 'payment_methods_config'
-  >;
+    | 'online_payments_enabled'
+  > & {
+    default_template?: InvoiceTemplateColumns | null;
+  };
+}
+
+/** Response of /api/portal/[token]: every sent invoice for one client */
+export interface ClientPortalPayload {
+  client_name: string;
+  invoices: Array<PublicInvoicePayload['invoice'] & { public_token?: string }>;
+  settings: PublicInvoicePayload['settings'];
+  expires_at?: string;
+  generated_at: string;
+}
+
+type EmbeddedRow<T> = T | T[] | null | undefined;
+
+/** Invoice row as selected by the public invoice and client portal endpoints */
+export interface PublicInvoiceRow {
+  id: string;
+  client_name: string;
+  client_company: string | null;
+  client_email: string | null;
+  client_address: string | null;
+  invoice_number: string;
+  invoice_date: string;
+  due_date: string;
+  status: string;
+  subtotal: number | null;
+  tax_rate: number | null;
+  tax_amount: number | null;
+  discount_amount: number | null;
+  total_amount: number | null;
+  credited_amount: number | null;
+  written_off_amount: number | null;
+  currency: string;
+  payment_terms: string | null;
+  net_days: number | null;
+  late_fee_type: string | null;
+  late_fee_amount: number | null;
+  early_discount_percent: number | null;
+  early_discount_days: number | null;
+  notes: string | null;
+  accepted_payment_methods: unknown;
+  sent_at: string | null;
+  viewed_at: string | null;
+  paid_at: string | null;
+  template: EmbeddedRow<InvoiceTemplateColumns>;
+  invoice_line_items: Array<{
+    id: string;
+    description: string;
+    quantity: number | null;
+    rate: number | null;
+    amount: number | null;
+    sort_order: number;
+    kind: string | null;
+    gig: EmbeddedRow<InvoiceLineItemGig>;
+  }> | null;
+  invoice_payments: Array<{
+    id: string;
+    payment_date: string;
+    amount: number | null;
+    payment_method: string;
+    reference_number: string | null;
+  }> | null;
+  invoice_credit_notes: Array<{
+    id: string;
+    credit_number: string;
+    issue_date: string;
+    amount: number | null;
+    reason: string | null;
+  }> | null;
+}
+
+// Embedded many-to-one rows come back as an object, typed as an array by the untyped client
+export function embeddedRow<T>(value: EmbeddedRow<T>): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
+
+/**
+ * Map an invoice row to what the public invoice view and client portal show.
+ * Payments are newest first, credit notes in issue order.
+ */
+export function toPublicInvoice(invoice: PublicInvoiceRow): PublicInvoicePayload['invoice'] {
+  const payments = invoice.invoice_payments ?? [];
+  const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount ?? 0), 0);
+  const creditedAmount = Number(invoice.credited_amount ?? 0);
+  const writtenOffAmount = Number(invoice.written_off_amount ?? 0);
+
+  return {
+    id: invoice.id,
+    client_name: invoice.client_name,
+    client_company: invoice.client_company ?? undefined,
+    client_email: invoice.client_email ?? undefined,
+    client_address: invoice.client_address ?? undefined,
+    invoice_number: invoice.invoice_number,
+    invoice_date: invoice.invoice_date,
+    due_date: invoice.due_date,
+    status: invoice.status as InvoiceStatus,
+    subtotal: Number(invoice.subtotal ?? 0),
+    tax_rate: invoice.tax_rate === null ? undefined : Number(invoice.tax_rate),
+    tax_amount: invoice.tax_amount === null ? undefined : Number(invoice.tax_amount),
+    discount_amount: invoice.discount_amount === null ? undefined : Number(invoice.discount_amount),
+    total_amount: Number(invoice.total_amount ?? 0),
+    currency: invoice.currency,
+    payment_terms: invoice.payment_terms ?? undefined,
+    net_days: invoice.net_days ?? null,
+    late_fee_type: normalizeLateFeeType(invoice.late_fee_type),
+    late_fee_amount: Number(invoice.late_fee_amount ?? 0),
+    early_discount_percent: Number(invoice.early_discount_percent ?? 0),
+    early_discount_days: Number(invoice.early_discount_days ?? 0),
+    notes: invoice.notes ?? undefined,
+    accepted_payment_methods: (invoice.accepted_payment_methods as PaymentMethodDetail[] | null) ?? [],
+    sent_at: invoice.sent_at ?? undefined,
+    viewed_at: invoice.viewed_at ?? undefined,
+    paid_at: invoice.paid_at ?? undefined,
+    credited_amount: creditedAmount,
+    written_off_amount: writtenOffAmount,
+    template: embeddedRow(invoice.template),
+    line_items: [...(invoice.invoice_line_items ?? [])]
+      .sort((a, b) => Number(a.sort_order ?? 0) - Number(b.sort_order ?? 0))
+      .map((item) => ({
+        id: item.id,
+        description: item.description,
+        quantity: Number(item.quantity ?? 0),
+        rate: Number(item.rate ?? 0),
+        amount: Number(item.amount ?? 0),
+        sort_order: item.sort_order,
+        kind: item.kind === 'late_fee' ? 'late_fee' : 'item',
+        gig: embeddedRow(item.gig),
+      })),
+    payments: [...payments]
+      .sort((a, b) => b.payment_date.localeCompare(a.payment_date))
+      .map((payment) => ({
+        id: payment.id,
+        payment_date: payment.payment_date,
+        amount: Number(payment.amount ?? 0),
+        payment_method: payment.payment_method,
+        reference_number: payment.reference_number ?? undefined,
+      })),
+    credit_notes: [...(invoice.invoice_credit_notes ?? [])]
+      .sort((a, b) => a.issue_date.localeCompare(b.issue_date))
+      .map((note) => ({
+        id: note.id,
+        credit_number: note.credit_number,
+        issue_date: note.issue_date,
+        amount: Number(note.amount ?? 0),
+        reason: note.reason ?? undefined,
+      })),
+    total_paid: totalPaid,
+    balance_due: Math.max(0, Number(invoice.total_amount ?? 0) - totalPaid - creditedAmount - writtenOffAmount),
+  };
 }
 
 export interface InvoiceFormData {
@@ -165,16 +451,26 @@ export interface InvoiceFormData {
   invoice_date: string;
   due_date: string;
   currency?: string;
+  exchange_rate?: number | null;
   payment_terms?: string;
+  net_days?: number | null;
+  late_fee_type?: LateFeeType;
+  late_fee_amount?: number;
+  early_discount_percent?: number;
+  early_discount_days?: number;
+  template_id?: string | null;
   notes?: string;
   private_notes?: string;
   tax_rate?: number;
   discount_amount?: number;
   accepted_payment_methods: PaymentMethodDetail[];
+  reminder_schedule?: number[] | null;
   line_items: {
     description: string;
     quantity: number;
     rate: number;
+    gig_id?: string | null;
+    kind?: InvoiceLineItemKind;
   }[];
 }
 
@@ -192,6 +488,7 @@ export interface InvoiceMetrics {
     paid: number;
     overdue: number;
     cancelled: number;
+    written_off: number;
   };
 }
 
@@ -203,6 +500,7 @@ export const PAYMENT_METHODS: PaymentMethod[] = [
   'PayPal',
   'Cash App',
   'Wire Transfer',
+  'Bank Transfer',
   'Credit Card',
   'Other'
 ];
@@ -228,12 +526,6 @@ export const FONT_STYLES = [
   { name: 'Minimal', value: 'minimal' }
 ];
 
-export const LAYOUT_STYLES = [
-  { name: 'Classic', value: 'classic' },
-  { name: 'Modern', value: 'modern' },
-  { name: 'Minimal', value: 'minimal' }
-];
-
 export const CURRENCIES = [
   { code: 'USD', symbol: '$', name: 'US Dollar' },
   { code: 'EUR', symbol: '€', name: 'Euro' },
@@ -258,6 +550,8 @@ export function getStatusColor(status: InvoiceStatus): string {
       return 'red';
     case 'cancelled':
       return 'gray';
+    case 'written_off':
+      return 'gray';
     default:
       return 'gray';
   }
@@ -279,6 +573,8 @@ export function getStatusLabel(status: InvoiceStatus): string {
       return 'Overdue';
     case 'cancelled':
       return 'Cancelled';
+    case 'written_off':
+      return 'Written Off';
     default:
       return status;
   }
@@ -294,9 +590,10 @@ export function formatCurrency(amount: number | null | undefined, currency: stri
 export function calculateDueDate(invoiceDate: string, paymentTerms: string): string {
   const date = parseDateOnly(invoiceDate);
   const preset = PAYMENT_TERM_PRESETS.find(p => p.value === paymentTerms);
+  const days = preset ? preset.days : parsePaymentTerms(paymentTerms)?.net_days;
   
-  if (preset && preset.days !== null) {
-    date.setDate(date.getDate() + preset.days);
+  if (days !== null && days !== undefined) {
+    date.setDate(date.getDate() + days);
   }
   
   return formatDateOnly(date);
@@ -8,27 +8,104 @@ export type Settlement = Database['public']['Tables']['settlements']['Row'];
 export type SettlementInsert = Database['public']['Tables']['settlements']['Insert'];
 export type SettlementUpdate = Database['public']['Tables']['settlements']['Update'];
 
+export type TourBudgetItem = Database['public']['Tables']['tour_budget_items']['Row'];
+export type TourBudgetItemInsert = Database['public']['Tables']['tour_budget_items']['Insert'];
+export type TourBudgetItemUpdate = Database['public']['Tables']['tour_budget_items']['Update'];
+
+export type TourBudgetCategory = 'guarantee' | 'fuel' | 'lodging' | 'per_diem' | 'crew' | 'other';
+
+export type PayoutSplitTemplate = Database['public']['Tables']['payout_split_templates']['Row'];
+export type PayoutSplitTemplateInsert = Database['public']['Tables']['payout_split_templates']['Insert'];
+export type PayoutSplitTemplateUpdate = Database['public']['Tables']['payout_split_templates']['Update'];
+
+/** One entry in payout_split_templates.shares; a null subcontractor_id is the leader's own share */
+export interface PayoutShare {
+  subcontractor_id: string | null;
+  percent: number;
+}
+
 export type AllocationMode = 'even' | 'custom' | 'weighted' | 'none';
 
 export interface AllocationJson {
   [gigId: string]: number;
 }
 
+export type SettlementDealType = 'guarantee' | 'versus' | 'percentage';
+
+export interface SettlementTicketTier {
+  label: string;
+  price: number;
+  sold: number; // Paid tickets
+  comps: number;
+}
+
+export interface SettlementHouseExpense {
+  label: string;
+  amount: number;
+}
+
+export interface SettlementBonusTier {
+  tickets: number; // Paid tickets needed to earn the bonus
+  amount: number;
+}
+
+export interface SettlementMerch {
+  gross: number;
+  venue_percent: number; // House cut of merch sales
+  sold_by: 'artist' | 'venue';
+}
+
+/**
+ * Deal terms and show numbers a settlement is worked out from
+ *
+ * 'versus' pays the greater of the guarantee or door_percent of the net
+ * box office (gross less ticket fees and house expenses).
+ */
+export interface SettlementDeal {
+  deal_type: SettlementDealType;
+  guarantee: number;
+  door_percent: number;
+  tickets: SettlementTicketTier[];
+  ticket_fees: number; // Taxes and ticketing fees taken off the gross
+  house_expenses: SettlementHouseExpense[];
+  bonuses: SettlementBonusTier[];
+  merch: SettlementMerch | null;
+  deposit: number; // Paid ahead of the show
+}
+
+/** Stored in settlements.worksheet */
+export interface SettlementWorksheet {
+  deal: SettlementDeal;
+  signatures: {
+    venue_rep: string | null;
+    artist_rep: string | null;
+  };
+}
+
 export interface TourWithGigs extends TourRun {
   gigs?: Array<{
     id: string;
     date: string;
     title: string | null;
     location: string | null;
+    city: string | null;
+    state: string | null;
     gross_amount: number;
     tips: number;
     per_diem: number | null;
     other_income: number | null;
     fees: number;
+    paid: boolean | null;
     payer: {
       id: string;
       name: string;
     } | null;
+    expenses?: Array<{
+      id: string;
+      description: string;
+      amount: number;
+      category?: string;
+    }>;
   }>;
   settlements?: Settlement[];
   tour_expenses?: Array<{
@@ -0,0 +1,82 @@
+import { buildClientStatements, type StatementInvoice } from '../clientStatement';
+
+function invoice(overrides: Partial<StatementInvoice>): StatementInvoice {
+  return {
+    id: 'inv-1',
+    invoice_number: 'INV-1',
+    invoice_date: '2026-03-01',
+    currency: 'USD',
+    total_amount: 0,
+    ...overrides,
+  };
+}
+
+describe('buildClientStatements', () => {
+  it('lists activity in date order with a running balance', () => {
+    const [statement] = buildClientStatements([
+      invoice({
+        id: 'inv-2',
+        invoice_number: 'INV-2',
+        invoice_date: '2026-04-01',
+        total_amount: 500,
+        payments: [{ id: 'pay-2', payment_date: '2026-04-01', amount: 200, payment_method: 'Check' }],
+      }),
+      invoice({
+        total_amount: 1000,
+        payments: [{ id: 'pay-1', payment_date: '2026-03-15', amount: 1000 }],
+        credit_notes: [{ id: 'cn-1', credit_number: 'INV-1-CR1', issue_date: '2026-03-20', amount: 100 }],
+      }),
+    ]);
+
+    expect(statement.entries.map((e) => [e.id, e.balance])).toEqual([
+      ['inv-1', 1000],
+      ['pay-1', 0],
+      ['cn-1', -100],
+      ['inv-2', 400],
+      ['pay-2', 200],
+    ]);
+    expect(statement.entries[4].description).toBe('Payment (Check)');
+    expect(statement).toEqual(expect.objectContaining({
+      currency: 'USD',
+      totalInvoiced: 1500,
+      totalPaid: 1200,
+      totalCredited: 100,
+      balance: 200,
+    }));
+  });
+
+  it('adds refunds back and closes written-off balances', () => {
+    const [statement] = buildClientStatements([
+      invoice({
+        total_amount: 300,
+        payments: [
+          { id: 'pay-1', payment_date: '2026-03-02', amount: 300 },
+          { id: 'refund-1', payment_date: '2026-03-05', amount: -50 },
+        ],
+        written_off_amount: 50,
+        written_off_on: '2026-06-30',
+      }),
+    ]);
+
+    expect(statement.entries.map((e) => [e.type, e.charge, e.credit, e.balance])).toEqual([
+      ['invoice', 300, 0, 300],
+      ['payment', 0, 300, 0],
+      ['refund', 50, 0, 50],
+      ['write_off', 0, 50, 0],
+    ]);
+    expect(statement.totalPaid).toBe(250);
+    expect(statement.totalWrittenOff).toBe(50);
+  });
+
+  it('keeps each currency on its own statement', () => {
+    const statements = buildClientStatements([
+      invoice({ id: 'usd', total_amount: 100 }),
+      invoice({ id: 'cad', currency: 'cad', total_amount: 250 }),
+    ]);
+
+    expect(statements.map((s) => [s.currency, s.balance])).toEqual([
+      ['CAD', 250],
+      ['USD', 100],
+    ]);
+  });
+});
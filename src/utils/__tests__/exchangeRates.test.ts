@@ -0,0 +1,72 @@
+import {
+  findExchangeRate,
+  fromHomeAmount,
+  getInvoiceExchangeRate,
+  toHomeAmount,
+  sumInvoiceHomeAmounts,
+  toInvoiceHomeAmount,
+  type ExchangeRate,
+} from '../exchangeRates';
+import { parseExchangeRatesCSV } from '../csvImport';
+
+const rates: ExchangeRate[] = [
+  { currency: 'CAD', rate_date: '2026-06-01', usd_per_unit: 0.73 },
+  { currency: 'CAD', rate_date: '2026-07-01', usd_per_unit: 0.74 },
+  { currency: 'EUR', rate_date: '2026-06-15', usd_per_unit: 1.08 },
+];
+
+describe('findExchangeRate', () => {
+  it('uses the latest rate on or before the date', () => {
+    expect(findExchangeRate(rates, 'CAD', '2026-06-20')).toBe(0.73);
+    expect(findExchangeRate(rates, 'CAD', '2026-07-01')).toBe(0.74);
+    expect(findExchangeRate(rates, 'cad', '2026-12-31')).toBe(0.74);
+  });
+
+  it('returns 1 for USD and null when no rate is on file yet', () => {
+    expect(findExchangeRate(rates, 'USD', '2026-01-01')).toBe(1);
+    expect(findExchangeRate(rates, 'EUR', '2026-06-14')).toBeNull();
+    expect(findExchangeRate(rates, 'GBP', '2026-06-20')).toBeNull();
+  });
+});
+
+describe('home-currency conversion', () => {
+  it('converts to USD and back to the original amount', () => {
+    expect(toHomeAmount(500, 0.73)).toBe(365);
+    expect(fromHomeAmount(365, 0.73)).toBe(500);
+    expect(fromHomeAmount(250, null)).toBe(250);
+  });
+
+  it('converts invoices with their own rate', () => {
+    expect(getInvoiceExchangeRate({ currency: 'USD', exchange_rate: null })).toBe(1);
+    expect(getInvoiceExchangeRate({ currency: 'EUR', exchange_rate: null })).toBeNull();
+    expect(toInvoiceHomeAmount({ currency: 'EUR', exchange_rate: 1.08 }, 1000)).toBe(1080);
+    expect(toInvoiceHomeAmount({ currency: 'EUR', exchange_rate: null }, 1000)).toBeNull();
+  });
+
+  it('leaves invoices without a rate out of USD totals and counts them', () => {
+    const invoices = [
+      { currency: 'USD', exchange_rate: null, amount: 500 },
+      { currency: 'EUR', exchange_rate: 1.08, amount: 1000 },
+      { currency: 'CAD', exchange_rate: null, amount: 2000 },
+    ];
+
+    expect(sumInvoiceHomeAmounts(invoices, invoice => invoice.amount)).toEqual({ total: 1580, missingRate: 1 });
+  });
+});
+
+describe('parseExchangeRatesCSV', () => {
+  it('parses rates and reports bad rows', () => {
+    const { data, errors } = parseExchangeRatesCSV([
+      'Date,Currency,USD per Unit',
+      '2026-06-01,cad,0.73',
+      '2026-06-01,CAD,0.7301',
+      '06/02/2026,EUR,1.08',
+      '2026-06-02,USD,1',
+      '2026-06-02,GBP,-1',
+    ].join('\n'));
+
+    expect(data).toEqual([{ currency: 'CAD', rate_date: '2026-06-01', usd_per_unit: 0.7301 }]);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^Row 4: Invalid date/);
+  });
+});
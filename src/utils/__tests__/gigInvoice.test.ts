@@ -0,0 +1,76 @@
+import {
+  buildGigInvoiceLineItems,
+  buildGigLineItem,
+  getSharedGigPayer,
+  type BillableGig,
+} from '../gigInvoice';
+
+function gig(overrides: Partial<BillableGig> = {}): BillableGig {
+  return {
+    id: 'gig-1',
+    date: '2026-10-12',
+    title: 'Fall Gala',
+    location: 'Blue Note',
+    city: 'Chicago',
+    state: 'IL',
+    gross_amount: 600,
+    per_diem: 50,
+    payer: { id: 'payer-1', name: 'Acme Events' },
+    expenses: [
+      { description: 'Parking', amount: 20 },
+      { description: 'Strings', amount: 12.5 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('buildGigLineItem', () => {
+  it('bills fee, per diem and expenses on one linked line', () => {
+    expect(buildGigLineItem(gig(), { includePerDiem: true, includeExpenses: true })).toEqual({
+      description:
+        'Oct 12, 2026 · Blue Note, Chicago, IL — Fall Gala · fee $600.00 + per diem $50.00 + reimbursable expenses $32.50 (Parking, Strings)',
+      quantity: 1,
+      rate: 682.5,
+      gig_id: 'gig-1',
+    });
+  });
+
+  it('leaves out per diem and expenses when excluded', () => {
+    const line = buildGigLineItem(gig(), { includePerDiem: false, includeExpenses: false });
+
+    expect(line.rate).toBe(600);
+    expect(line.description).toBe('Oct 12, 2026 · Blue Note, Chicago, IL — Fall Gala');
+  });
+
+  it('falls back to the city when the gig has no venue', () => {
+    const line = buildGigLineItem(
+      gig({ title: null, location: null, per_diem: null, expenses: null }),
+      { includePerDiem: true, includeExpenses: true }
+    );
+
+    expect(line.description).toBe('Oct 12, 2026 · Chicago, IL');
+  });
+});
+
+describe('buildGigInvoiceLineItems', () => {
+  it('orders lines by gig date', () => {
+    const lines = buildGigInvoiceLineItems(
+      [gig({ id: 'late', date: '2026-10-20' }), gig({ id: 'early', date: '2026-10-01' })],
+      { includePerDiem: true, includeExpenses: true }
+    );
+
+    expect(lines.map(line => line.gig_id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('getSharedGigPayer', () => {
+  it('returns the payer shared by every gig', () => {
+    expect(getSharedGigPayer([gig(), gig({ id: 'gig-2' })])).toEqual({ id: 'payer-1', name: 'Acme Events' });
+  });
+
+  it('returns null for mixed or missing payers', () => {
+    expect(getSharedGigPayer([gig(), gig({ payer: { id: 'payer-2', name: 'Other' } })])).toBeNull();
+    expect(getSharedGigPayer([gig({ payer: null })])).toBeNull();
+    expect(getSharedGigPayer([])).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import { buildAgingReport, getAgingBucket, getAgingInvoices, type AgingSourceInvoice } from '../invoiceAging';
+import { agingReportToCsv } from '../agingReportExport';
+
+const AS_OF = '2026-10-19';
+
+function invoice(overrides: Partial<AgingSourceInvoice> = {}): AgingSourceInvoice {
+  return {
+    id: 'inv-1',
+    invoice_number: 'INV-2026-001',
+    client_id: 'payer-1',
+    client_name: 'Acme Events',
+    invoice_date: '2026-09-01',
+    due_date: '2026-10-01',
+    status: 'sent',
+    total_amount: 500,
+    balance_due: 500,
+    payments: [],
+    ...overrides,
+  };
+}
+
+describe('getAgingBucket', () => {
+  it('buckets by days past due', () => {
+    expect(getAgingBucket(-3)).toBe('current');
+    expect(getAgingBucket(0)).toBe('current');
+    expect(getAgingBucket(1)).toBe('1_30');
+    expect(getAgingBucket(30)).toBe('1_30');
+    expect(getAgingBucket(31)).toBe('31_60');
+    expect(getAgingBucket(90)).toBe('61_90');
+    expect(getAgingBucket(91)).toBe('90_plus');
+  });
+});
+
+describe('buildAgingReport', () => {
+  const invoices = [
+    invoice(),
+    invoice({ id: 'inv-2', invoice_number: 'INV-2026-002', due_date: '2026-11-01', total_amount: 300, balance_due: 300 }),
+    invoice({
+      id: 'inv-3',
+      invoice_number: 'INV-2026-003',
+      client_id: 'payer-2',
+      client_name: 'Blue Note',
+      invoice_date: '2026-06-01',
+      due_date: '2026-07-01',
+      total_amount: 1000,
+      balance_due: 400,
+      status: 'partially_paid',
+    }),
+    invoice({
+      id: 'inv-4',
+      invoice_number: 'INV-2026-004',
+      status: 'paid',
+      invoice_date: '2026-08-01',
+      balance_due: 0,
+      payments: [
+        { amount: 200, payment_date: '2026-08-11' },
+        { amount: 300, payment_date: '2026-08-21' },
+      ],
+    }),
+    invoice({ id: 'inv-5', status: 'draft' }),
+  ];
+
+  it('buckets open balances per payer, largest first', () => {
+    const report = buildAgingReport(invoices, AS_OF);
+
+    expect(report.rows.map(row => row.client_name)).toEqual(['Acme Events', 'Blue Note']);
+    expect(report.rows[0].buckets).toEqual({ current: 300, '1_30': 500, '31_60': 0, '61_90': 0, '90_plus': 0 });
+    expect(report.rows[1].buckets['90_plus']).toBe(400);
+    expect(report.buckets).toEqual({ current: 300, '1_30': 500, '31_60': 0, '61_90': 0, '90_plus': 400 });
+    expect(report.total).toBe(1200);
+  });
+
+  it('computes DSO from the last 90 days of sales and days to pay from settled invoices', () => {
+    const report = buildAgingReport(invoices, AS_OF);
+
+    // Acme: $800 open over $1,300 invoiced in the period
+    expect(report.rows[0].dso).toBe(55);
+    expect(report.rows[0].average_days_to_pay).toBe(20);
+    // Blue Note invoiced nothing in the last 90 days
+    expect(report.rows[1].dso).toBeNull();
+    expect(report.rows[1].average_days_to_pay).toBeNull();
+    expect(report.dso).toBe(83);
+  });
+
+  it('lists the invoices behind a cell', () => {
+    const report = buildAgingReport(invoices, AS_OF);
+
+    expect(getAgingInvoices(report, { payerKey: 'payer-1', bucket: '1_30' }).map(line => line.id)).toEqual(['inv-1']);
+    expect(getAgingInvoices(report, { bucket: '90_plus' })[0]).toMatchObject({ id: 'inv-3', days_past_due: 110 });
+    expect(getAgingInvoices(report, { payerKey: 'payer-1' })).toHaveLength(2);
+  });
+
+  it('groups invoices without a payer by client name', () => {
+    const report = buildAgingReport(
+      [invoice({ client_id: null, client_name: 'Walk-in' }), invoice({ id: 'inv-2', client_id: null, client_name: 'walk-in ' })],
+      AS_OF
+    );
+
+    expect(report.rows).toHaveLength(1);
+    expect(report.rows[0].total).toBe(1000);
+  });
+
+  it('leaves out non-USD invoices without an exchange rate and lists them', () => {
+    const report = buildAgingReport(
+      [
+        invoice(),
+        invoice({ id: 'inv-2', invoice_number: 'INV-2026-002', currency: 'EUR', exchange_rate: 1.1, balance_due: 100, total_amount: 100 }),
+        invoice({ id: 'inv-3', invoice_number: 'INV-2026-003', currency: 'CAD', exchange_rate: null }),
+      ],
+      AS_OF
+    );
+
+    expect(report.total).toBe(610);
+    expect(report.invoices.map(line => line.id)).toEqual(['inv-1', 'inv-2']);
+    expect(report.missing_rate_invoices).toEqual(['INV-2026-003']);
+  });
+});
+
+describe('agingReportToCsv', () => {
+  it('writes one row per payer and a total row', () => {
+    const csv = agingReportToCsv(buildAgingReport([invoice()], AS_OF));
+
+    expect(csv.split('\n')).toEqual([
+      'Payer,Current,1–30,31–60,61–90,90+,Total,DSO (days),Avg Days to Pay',
+      'Acme Events,0.00,500.00,0.00,0.00,0.00,500.00,90,',
+      'Total,0.00,500.00,0.00,0.00,0.00,500.00,90,',
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { buildInvoiceDocument } from '../invoiceDocument';
+import { renderInvoiceDocumentHTML } from '../generateInvoicePDF';
+import {
+  DEFAULT_TEMPLATE_FIELDS,
+  resolveInvoiceTemplate,
+  type InvoiceLayout,
+  type InvoiceTemplateConfig,
+} from '../invoiceTemplates';
+import type { Invoice, InvoiceSettings, SavedInvoiceTemplate } from '../../types/invoice';
+
+const settings: InvoiceSettings = {
+  id: 'settings-1',
+  user_id: 'user-1',
+  business_name: 'The Night Owls',
+  email: 'booking@nightowls.test',
+  phone: '555-0100',
+  address: '12 Main St, Austin, TX',
+  logo_url: 'https://cdn.test/logo.png',
+  tax_id: '12-3456789',
+  invoice_prefix: 'INV-',
+  next_invoice_number: 8,
+  default_payment_terms: 'Net 30',
+  default_net_days: 30,
+  default_currency: 'USD',
+  color_scheme: 'purple',
+  font_style: 'classic',
+  layout_style: 'minimal',
+  accepted_payment_methods: [],
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+const invoice: Invoice = {
+  id: 'invoice-1',
+  user_id: 'user-1',
+  public_token: 'tok123',
+  client_name: 'Blue Door Venue',
+  client_company: 'Blue Door LLC',
+  client_email: 'ap@bluedoor.test',
+  invoice_number: 'INV-007',
+  invoice_date: '2026-03-01',
+  due_date: '2026-03-31',
+  status: 'sent',
+  subtotal: 1200,
+  tax_rate: 8.25,
+  tax_amount: 99,
+  total_amount: 1299,
+  currency: 'USD',
+  payment_terms: 'Net 30',
+  net_days: 30,
+  notes: 'Load-in at 6pm.',
+  accepted_payment_methods: [],
+  created_at: '2026-03-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+  line_items: [
+    {
+      id: 'line-1',
+      invoice_id: 'invoice-1',
+      description: 'Friday show',
+      quantity: 1,
+      rate: 1200,
+      amount: 1200,
+      sort_order: 0,
+      gig_id: 'gig-1',
+      gig: { date: '2026-02-27', title: 'Spring Kickoff', location: 'Blue Door', city: 'Austin', state_code: 'TX' },
+      created_at: '2026-03-01T00:00:00Z',
+    },
+  ],
+  payments: [
+    {
+      id: 'payment-1',
+      invoice_id: 'invoice-1',
+      payment_date: '2026-03-03',
+      amount: 299,
+      payment_method: 'Zelle',
+      reference_number: 'Z-42',
+      created_at: '2026-03-03T00:00:00Z',
+    },
+  ],
+  total_paid: 299,
+  balance_due: 1000,
+};
+
+function template(layout: InvoiceLayout, fields: Partial<InvoiceTemplateConfig['fields']> = {}): InvoiceTemplateConfig {
+  return {
+    layout,
+    color_scheme: 'green',
+    font_style: 'modern',
+    fields: { ...DEFAULT_TEMPLATE_FIELDS, payment_qr: true, gig_details: true, ...fields },
+  };
+}
+
+describe('invoice document', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-05T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe.each<InvoiceLayout>(['classic', 'minimal', 'press_kit'])('%s layout', (layout) => {
+    it('matches the document snapshot', () => {
+      expect(buildInvoiceDocument(invoice, settings, [], template(layout))).toMatchSnapshot();
+    });
+
+    it('matches the HTML snapshot', () => {
+      expect(renderInvoiceDocumentHTML(buildInvoiceDocument(invoice, settings, [], template(layout)))).toMatchSnapshot();
+    });
+  });
+
+  it('prints only the fields the template turns on', () => {
+    const on = buildInvoiceDocument(invoice, settings, [], template('classic'));
+    const off = buildInvoiceDocument(invoice, settings, [], template('classic', {
+      tax_id: false,
+      payment_qr: false,
+      payment_terms: false,
+      gig_details: false,
+    }));
+
+    expect(on.header.contactLines).toContain('Tax ID: 12-3456789');
+    expect(on.sections.map((s) => s.title)).toContain('Payment Terms');
+    expect(on.lineItems[0].detail).toBe('2/27/2026 · Spring Kickoff · Blue Door · Austin, TX');
+    expect(on.paymentQr?.url).toContain('/invoices/invoice-1?token=tok123');
+
+    expect(off.header.contactLines).not.toContain('Tax ID: 12-3456789');
+    expect(off.sections.map((s) => s.title)).not.toContain('Payment Terms');
+    expect(off.lineItems[0].detail).toBeUndefined();
+    expect(off.paymentQr).toBeNull();
+
+    const html = renderInvoiceDocumentHTML(off);
+    expect(html).not.toContain('Tax ID');
+    expect(html).not.toContain('Spring Kickoff');
+    expect(html).not.toContain('<svg');
+  });
+
+  it('leaves the payment QR off once nothing is owed', () => {
+    const paid = { ...invoice, status: 'paid' as const, total_paid: 1299, balance_due: 0 };
+    expect(buildInvoiceDocument(paid, settings, [], template('classic')).paymentQr).toBeNull();
+  });
+
+  it('only shows the logo on the press kit layout', () => {
+    expect(buildInvoiceDocument(invoice, settings, [], template('press_kit')).header.logoUrl).toBe(settings.logo_url);
+    expect(buildInvoiceDocument(invoice, settings, [], template('classic')).header.logoUrl).toBeUndefined();
+  });
+});
+
+describe('resolveInvoiceTemplate', () => {
+  const saved = (layout: string, color_scheme: string): SavedInvoiceTemplate => ({
+    id: `template-${layout}`,
+    user_id: 'user-1',
+    name: layout,
+    layout,
+    color_scheme,
+    font_style: 'minimal',
+    show_tax_id: false,
+    show_payment_qr: true,
+    show_payment_terms: true,
+    show_gig_details: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  });
+
+  it("uses the invoice's template, then the default template, then the legacy branding", () => {
+    const withDefault = { ...settings, default_template: saved('minimal', 'gray') };
+
+    expect(resolveInvoiceTemplate({ template: saved('press_kit', 'blue') }, withDefault)).toEqual(expect.objectContaining({
+      layout: 'press_kit',
+      color_scheme: 'blue',
+    }));
+    expect(resolveInvoiceTemplate({ template: null }, withDefault)).toEqual(expect.objectContaining({
+      layout: 'minimal',
+      color_scheme: 'gray',
+      fields: { tax_id: false, payment_qr: true, payment_terms: true, gig_details: true },
+    }));
+    expect(resolveInvoiceTemplate({}, settings)).toEqual({
+      layout: 'minimal',
+      color_scheme: 'purple',
+      font_style: 'classic',
+      fields: DEFAULT_TEMPLATE_FIELDS,
+    });
+  });
+
+  it('maps the legacy modern layout to classic', () => {
+    expect(resolveInvoiceTemplate({}, { ...settings, layout_style: 'modern' }).layout).toBe('classic');
+  });
+});
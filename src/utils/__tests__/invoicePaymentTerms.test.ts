@@ -0,0 +1,101 @@
+import {
+  calculateAmountOwed,
+  formatLateFee,
+  formatPaymentTerms,
+  getDefaultPaymentTerms,
+  parsePaymentTerms,
+  type AmountOwedInput,
+} from '../invoicePaymentTerms';
+import { calculateInvoiceTotals } from '../invoiceCalculations';
+
+function owed(overrides: Partial<AmountOwedInput>): AmountOwedInput {
+  return {
+    terms: { net_days: 30 },
+    invoice_date: '2026-03-01',
+    due_date: '2026-03-31',
+    balance_due: 1000,
+    ...overrides,
+  };
+}
+
+describe('payment terms labels', () => {
+  it('formats and parses "2/10 net 30" style terms', () => {
+    expect(formatPaymentTerms({ net_days: 30, early_discount_percent: 2, early_discount_days: 10 })).toBe('2/10 Net 30');
+    expect(formatPaymentTerms({ net_days: 0 })).toBe('Due on Receipt');
+    expect(parsePaymentTerms('2/10 net 30')).toEqual({ net_days: 30, early_discount_percent: 2, early_discount_days: 10 });
+    expect(parsePaymentTerms('Due on Receipt')).toEqual({ net_days: 0 });
+    expect(parsePaymentTerms('Pay whenever')).toBeNull();
+  });
+
+  it('describes late fees', () => {
+    expect(formatLateFee({ late_fee_type: 'percent', late_fee_amount: 1.5 })).toBe('Late fee: 1.5% per month on overdue balances');
+    expect(formatLateFee({ late_fee_type: 'flat', late_fee_amount: 25 })).toBe('Late fee: $25.00 once overdue');
+    expect(formatLateFee({ late_fee_type: 'none', late_fee_amount: 25 })).toBeNull();
+  });
+
+  it('falls back to the free-text default for settings saved before structured terms', () => {
+    expect(getDefaultPaymentTerms({ default_payment_terms: 'Net 45' }).net_days).toBe(45);
+    expect(getDefaultPaymentTerms({ default_payment_terms: 'Net 45', default_net_days: 15 }).net_days).toBe(15);
+  });
+});
+
+describe('calculateAmountOwed', () => {
+  it('takes the early-payment discount through the last day of the window', () => {
+    const input = owed({ terms: { net_days: 30, early_discount_percent: 2, early_discount_days: 10 } });
+
+    expect(calculateAmountOwed(input, '2026-03-11')).toEqual(expect.objectContaining({
+      earlyPaymentDiscount: 20,
+      amountOwed: 980,
+      discountDeadline: '2026-03-11',
+    }));
+    expect(calculateAmountOwed(input, '2026-03-12').amountOwed).toBe(1000);
+  });
+
+  it('charges a percentage late fee per started month, less fees already applied', () => {
+    const terms = { net_days: 30, late_fee_type: 'percent' as const, late_fee_amount: 1.5 };
+
+    expect(calculateAmountOwed(owed({ terms }), '2026-03-31').lateFee).toBe(0);
+    expect(calculateAmountOwed(owed({ terms }), '2026-04-01').lateFee).toBe(15);
+    expect(calculateAmountOwed(owed({ terms }), '2026-05-01').lateFee).toBe(30);
+    // $15 applied in April is in the balance but doesn't compound
+    expect(calculateAmountOwed(owed({ terms, balance_due: 1015, late_fees_applied: 15 }), '2026-05-01'))
+      .toEqual(expect.objectContaining({ lateFee: 15, amountOwed: 1030 }));
+  });
+
+  it('charges a flat late fee once', () => {
+    const terms = { late_fee_type: 'flat' as const, late_fee_amount: 25 };
+
+    expect(calculateAmountOwed(owed({ terms }), '2026-06-01').lateFee).toBe(25);
+    expect(calculateAmountOwed(owed({ terms, balance_due: 1025, late_fees_applied: 25 }), '2026-06-01').lateFee).toBe(0);
+    expect(calculateAmountOwed(owed({ terms, balance_due: 0 }), '2026-06-01').lateFee).toBe(0);
+  });
+});
+
+describe('calculateInvoiceTotals with payment terms', () => {
+  it('leaves late fees out of the taxable amount and prices the invoice for a date', () => {
+    const totals = calculateInvoiceTotals(
+      [
+        { quantity: 1, rate: 1000 },
+        { quantity: 1, rate: 15, kind: 'late_fee' },
+      ],
+      10,
+      0,
+      {
+        terms: { late_fee_type: 'percent', late_fee_amount: 1.5 },
+        invoiceDate: '2026-03-01',
+        dueDate: '2026-03-31',
+        asOfDate: '2026-05-01',
+        settledAmount: 100,
+      }
+    );
+
+    expect(totals).toEqual(expect.objectContaining({
+      subtotal: 1015,
+      taxAmount: 100,
+      totalAmount: 1115,
+      lateFees: 15,
+    }));
+    // Principal 1000: 1100 total - 100 paid; two months at 1.5% less the $15 applied
+    expect(totals.amountOwed).toEqual(expect.objectContaining({ balanceDue: 1015, lateFee: 15, amountOwed: 1030 }));
+  });
+});
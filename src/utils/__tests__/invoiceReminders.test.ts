@@ -0,0 +1,122 @@
+import {
+  DEFAULT_REMINDER_SCHEDULE,
+  formatReminderOffset,
+  getDueReminderOffset,
+  getNextReminderDate,
+  getReminderDate,
+  isReminderEligible,
+  parseReminderSchedule,
+  resolveReminderSchedule,
+  type ReminderInvoice,
+} from '../invoiceReminders';
+
+function invoice(overrides: Partial<ReminderInvoice> = {}): ReminderInvoice {
+  return {
+    status: 'sent',
+    due_date: '2026-03-15',
+    client_email: 'venue@example.com',
+    balance_due: 500,
+    reminder_schedule: null,
+    reminders_stopped_at: null,
+    ...overrides,
+  };
+}
+
+describe('parseReminderSchedule', () => {
+  it('parses, sorts and de-duplicates offsets', () => {
+    expect(parseReminderSchedule('14, -3, 0, 7, 7')).toEqual([-3, 0, 7, 14]);
+  });
+
+  it('rejects fractional, non-numeric and out-of-range entries', () => {
+    expect(parseReminderSchedule('1.5')).toBeNull();
+    expect(parseReminderSchedule('soon')).toBeNull();
+    expect(parseReminderSchedule('400')).toBeNull();
+  });
+
+  it('returns an empty schedule for blank input', () => {
+    expect(parseReminderSchedule('  ')).toEqual([]);
+  });
+});
+
+describe('resolveReminderSchedule', () => {
+  it('uses the invoice schedule over the default', () => {
+    const result = resolveReminderSchedule(
+      invoice({ reminder_schedule: [30, 1] }),
+      { reminders_enabled: true, reminder_schedule: [0] }
+    );
+    expect(result).toEqual([1, 30]);
+  });
+
+  it('uses the default schedule only when reminders are enabled', () => {
+    expect(resolveReminderSchedule(invoice(), { reminders_enabled: true })).toEqual(DEFAULT_REMINDER_SCHEDULE);
+    expect(resolveReminderSchedule(invoice(), { reminders_enabled: false, reminder_schedule: [0] })).toEqual([]);
+    expect(resolveReminderSchedule(invoice(), null)).toEqual([]);
+  });
+
+  it('treats an empty invoice schedule as reminders off', () => {
+    expect(resolveReminderSchedule(invoice({ reminder_schedule: [] }), { reminders_enabled: true })).toEqual([]);
+  });
+});
+
+describe('isReminderEligible', () => {
+  it('requires a sent, unpaid invoice with a client email', () => {
+    expect(isReminderEligible(invoice())).toBe(true);
+    expect(isReminderEligible(invoice({ status: 'draft' }))).toBe(false);
+    expect(isReminderEligible(invoice({ status: 'paid' }))).toBe(false);
+    expect(isReminderEligible(invoice({ balance_due: 0 }))).toBe(false);
+    expect(isReminderEligible(invoice({ client_email: null }))).toBe(false);
+  });
+
+  it('stops once a full payment was recorded', () => {
+    expect(isReminderEligible(invoice({ reminders_stopped_at: '2026-03-10T12:00:00Z' }))).toBe(false);
+  });
+});
+
+describe('getDueReminderOffset', () => {
+  const schedule = [-3, 0, 7, 14];
+
+  it('sends nothing before the first offset', () => {
+    expect(getDueReminderOffset(invoice(), schedule, [], '2026-03-11')).toBeNull();
+  });
+
+  it('sends each offset on its day', () => {
+    expect(getDueReminderOffset(invoice(), schedule, [], '2026-03-12')).toBe(-3);
+    expect(getDueReminderOffset(invoice(), schedule, [-3], '2026-03-15')).toBe(0);
+    expect(getDueReminderOffset(invoice(), schedule, [-3, 0], '2026-03-22')).toBe(7);
+  });
+
+  it('does not resend an offset already sent', () => {
+    expect(getDueReminderOffset(invoice(), schedule, [-3], '2026-03-13')).toBeNull();
+  });
+
+  it('sends only the latest missed offset after a gap', () => {
+    expect(getDueReminderOffset(invoice(), schedule, [-3], '2026-03-30')).toBe(14);
+  });
+
+  it('sends nothing for a paid invoice', () => {
+    expect(getDueReminderOffset(invoice({ status: 'paid', balance_due: 0 }), schedule, [], '2026-03-22')).toBeNull();
+  });
+});
+
+describe('getNextReminderDate', () => {
+  it('returns the next unsent reminder date', () => {
+    expect(getNextReminderDate(invoice(), [-3, 0, 7], [-3], '2026-03-13')).toBe('2026-03-15');
+  });
+
+  it('returns null once the schedule is exhausted', () => {
+    expect(getNextReminderDate(invoice(), [-3, 0, 7], [-3, 0, 7], '2026-03-25')).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('computes reminder dates across month boundaries', () => {
+    expect(getReminderDate('2026-03-01', -3)).toBe('2026-02-26');
+    expect(getReminderDate('2026-12-28', 7)).toBe('2027-01-04');
+  });
+
+  it('labels offsets relative to the due date', () => {
+    expect(formatReminderOffset(-3)).toBe('3 days before due');
+    expect(formatReminderOffset(0)).toBe('On the due date');
+    expect(formatReminderOffset(1)).toBe('1 day overdue');
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  buildMemberStatements,
+  buildSplitPayments,
+  calculatePayoutSplit,
+  getPayoutSharesError,
+  parsePayoutShares,
+  pickDefaultSplitTemplate,
+} from '../payoutSplits';
+import type { PayoutShare, PayoutSplitTemplate } from '../../types/tours.types';
+
+const quintet: PayoutShare[] = [
+  { subcontractor_id: null, percent: 30 },
+  { subcontractor_id: 'sax', percent: 17.5 },
+  { subcontractor_id: 'keys', percent: 17.5 },
+  { subcontractor_id: 'bass', percent: 17.5 },
+  { subcontractor_id: 'drums', percent: 17.5 },
+];
+
+function template(overrides: Partial<PayoutSplitTemplate>): PayoutSplitTemplate {
+  return {
+    id: 't1',
+    user_id: 'u1',
+    name: 'Quintet',
+    tour_id: null,
+    payer_id: null,
+    shares: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('calculatePayoutSplit', () => {
+  it('splits by fixed shares', () => {
+    const lines = calculatePayoutSplit(2000, quintet);
+    expect(lines.map((line) => line.amount)).toEqual([600, 350, 350, 350, 350]);
+  });
+
+  it('gives leftover cents to the leader so the split adds back up', () => {
+    const lines = calculatePayoutSplit(1000.01, quintet);
+    expect(lines.map((line) => line.amount)).toEqual([300.01, 175, 175, 175, 175]);
+
+    const thirds = calculatePayoutSplit(100, [
+      { subcontractor_id: 'a', percent: 33.333 },
+      { subcontractor_id: null, percent: 33.334 },
+      { subcontractor_id: 'b', percent: 33.333 },
+    ]);
+    expect(thirds.map((line) => line.amount)).toEqual([33.33, 33.34, 33.33]);
+  });
+
+  it('gives leftover cents to the largest share when the leader takes none', () => {
+    const lines = calculatePayoutSplit(100, [
+      { subcontractor_id: 'a', percent: 30 },
+      { subcontractor_id: 'b', percent: 40 },
+      { subcontractor_id: 'c', percent: 30 },
+    ]);
+    expect(lines.map((line) => line.amount)).toEqual([30, 40, 30]);
+
+    const uneven = calculatePayoutSplit(10.01, [
+      { subcontractor_id: 'a', percent: 50 },
+      { subcontractor_id: 'b', percent: 50 },
+    ]);
+    expect(uneven.map((line) => line.amount)).toEqual([5.01, 5]);
+  });
+
+  it('pays nothing on zero or negative amounts', () => {
+    expect(calculatePayoutSplit(0, quintet).every((line) => line.amount === 0)).toBe(true);
+    expect(calculatePayoutSplit(-50, quintet).every((line) => line.amount === 0)).toBe(true);
+  });
+});
+
+describe('buildSplitPayments', () => {
+  it('creates one payment per member per show, leaving out the leader', () => {
+    const payments = buildSplitPayments({ denver: 1000, slc: 500.01 }, quintet);
+
+    expect(payments).toHaveLength(8);
+    expect(payments.filter((p) => p.gig_id === 'denver').map((p) => p.amount)).toEqual([175, 175, 175, 175]);
+    expect(payments.filter((p) => p.gig_id === 'slc').map((p) => p.amount)).toEqual([87.5, 87.5, 87.5, 87.5]);
+    expect(payments.some((p) => p.subcontractor_id === null)).toBe(false);
+  });
+
+  it('skips shows with nothing allocated', () => {
+    expect(buildSplitPayments({ denver: 0 }, quintet)).toEqual([]);
+  });
+});
+
+describe('getPayoutSharesError', () => {
+  it('accepts shares that add up to 100%', () => {
+    expect(getPayoutSharesError(quintet)).toBeNull();
+  });
+
+  it('rejects bad splits', () => {
+    expect(getPayoutSharesError([])).toBe('Add at least one share');
+    expect(getPayoutSharesError([{ subcontractor_id: 'a', percent: 60 }, { subcontractor_id: null, percent: 30 }]))
+      .toBe('Shares add up to 90%, not 100%');
+    expect(getPayoutSharesError([{ subcontractor_id: 'a', percent: 50 }, { subcontractor_id: 'a', percent: 50 }]))
+      .toBe('Each member can only have one share');
+    expect(getPayoutSharesError([{ subcontractor_id: null, percent: 50 }, { subcontractor_id: null, percent: 50 }]))
+      .toBe('Only one share can be yours');
+  });
+});
+
+describe('parsePayoutShares', () => {
+  it('reads stored shares and drops malformed entries', () => {
+    expect(parsePayoutShares([
+      { subcontractor_id: 'a', percent: 70 },
+      { subcontractor_id: null, percent: '30' },
+      { percent: 'lots' },
+      'junk',
+    ])).toEqual([
+      { subcontractor_id: 'a', percent: 70 },
+      { subcontractor_id: null, percent: 30 },
+    ]);
+    expect(parsePayoutShares(null)).toEqual([]);
+  });
+});
+
+describe('pickDefaultSplitTemplate', () => {
+  it('prefers the tour split over the payer split', () => {
+    const byPayer = template({ id: 'payer', payer_id: 'p1' });
+    const byTour = template({ id: 'tour', tour_id: 'tour1' });
+
+    expect(pickDefaultSplitTemplate([byPayer, byTour], { tourId: 'tour1', payerId: 'p1' })?.id).toBe('tour');
+    expect(pickDefaultSplitTemplate([byPayer, byTour], { tourId: 'tour2', payerId: 'p1' })?.id).toBe('payer');
+    expect(pickDefaultSplitTemplate([byPayer, byTour], { tourId: 'tour2', payerId: 'p2' })).toBeNull();
+  });
+});
+
+describe('buildMemberStatements', () => {
+  it('totals each member across the tour in show order', () => {
+    const statements = buildMemberStatements([
+      {
+        id: '1', amount: 87.5, note: 'Quintet split',
+        subcontractor: { id: 'sax', name: 'Sam' },
+        gig: { id: 'slc', date: '2026-05-03', title: 'Salt Lake City', location: 'The State Room' },
+      },
+      {
+        id: '2', amount: 175, note: 'Quintet split',
+        subcontractor: { id: 'sax', name: 'Sam' },
+        gig: { id: 'denver', date: '2026-05-01', title: 'Denver', location: null },
+      },
+      {
+        id: '3', amount: 175, note: null,
+        subcontractor: { id: 'bass', name: 'Alex' },
+        gig: { id: 'denver', date: '2026-05-01', title: 'Denver', location: null },
+      },
+    ]);
+
+    expect(statements.map((s) => [s.name, s.total])).toEqual([['Alex', 175], ['Sam', 262.5]]);
+    expect(statements[1].lines.map((line) => line.title)).toEqual(['Denver', 'Salt Lake City']);
+  });
+});
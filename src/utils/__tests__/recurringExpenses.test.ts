@@ -0,0 +1,70 @@
+import {
+  MAX_CATCH_UP_POSTINGS,
+  getDueRecurringExpenseDates,
+  getNextRecurringExpenseDate,
+  type RecurringExpenseSchedule,
+} from '../recurringExpenses';
+
+function rule(overrides: Partial<RecurringExpenseSchedule>): RecurringExpenseSchedule {
+  return {
+    frequency: 'monthly',
+    day_of_week: null,
+    day_of_month: 1,
+    month_of_year: null,
+    next_due_date: '2026-01-01',
+    is_active: true,
+    post_mode: 'final',
+    ...overrides,
+  };
+}
+
+describe('getNextRecurringExpenseDate', () => {
+  it('moves weekly rules to the same weekday next week', () => {
+    // 2026-03-02 is a Monday
+    expect(getNextRecurringExpenseDate(rule({ frequency: 'weekly', day_of_week: 1 }), '2026-03-02')).toBe('2026-03-09');
+    expect(getNextRecurringExpenseDate(rule({ frequency: 'weekly', day_of_week: 5 }), '2026-03-02')).toBe('2026-03-06');
+  });
+
+  it('clamps monthly rules to the end of short months without drifting', () => {
+    const endOfMonth = rule({ day_of_month: 31 });
+    expect(getNextRecurringExpenseDate(endOfMonth, '2026-01-31')).toBe('2026-02-28');
+    expect(getNextRecurringExpenseDate(endOfMonth, '2026-02-28')).toBe('2026-03-31');
+    expect(getNextRecurringExpenseDate(endOfMonth, '2026-12-31')).toBe('2027-01-31');
+  });
+
+  it('moves yearly rules to the same month and day next year', () => {
+    const renewal = rule({ frequency: 'yearly', month_of_year: 2, day_of_month: 29 });
+    expect(getNextRecurringExpenseDate(renewal, '2026-01-10')).toBe('2026-02-28');
+    expect(getNextRecurringExpenseDate(renewal, '2027-02-28')).toBe('2028-02-29');
+  });
+});
+
+describe('getDueRecurringExpenseDates', () => {
+  it('posts every missed period through today', () => {
+    expect(getDueRecurringExpenseDates(rule({ next_due_date: '2026-06-15', day_of_month: 15 }), '2026-10-19')).toEqual({
+      dates: ['2026-06-15', '2026-07-15', '2026-08-15', '2026-09-15', '2026-10-15'],
+      nextDueDate: '2026-11-15',
+    });
+  });
+
+  it('posts on the due date itself and nothing before it', () => {
+    const monthly = rule({ next_due_date: '2026-10-19', day_of_month: 19 });
+    expect(getDueRecurringExpenseDates(monthly, '2026-10-19').dates).toEqual(['2026-10-19']);
+    expect(getDueRecurringExpenseDates(monthly, '2026-10-18')).toEqual({ dates: [], nextDueDate: '2026-10-19' });
+  });
+
+  it('never posts manual or paused rules', () => {
+    expect(getDueRecurringExpenseDates(rule({ post_mode: 'manual' }), '2026-10-19').dates).toEqual([]);
+    expect(getDueRecurringExpenseDates(rule({ is_active: false }), '2026-10-19').dates).toEqual([]);
+    expect(getDueRecurringExpenseDates(rule({ next_due_date: null }), '2026-10-19').dates).toEqual([]);
+  });
+
+  it('caps a long catch-up and leaves the rest due for the next run', () => {
+    const weekly = rule({ frequency: 'weekly', day_of_week: 4, next_due_date: '2024-01-04' });
+    const { dates, nextDueDate } = getDueRecurringExpenseDates(weekly, '2026-10-19');
+
+    expect(dates).toHaveLength(MAX_CATCH_UP_POSTINGS);
+    expect(nextDueDate! <= '2026-10-19').toBe(true);
+    expect(getDueRecurringExpenseDates({ ...weekly, next_due_date: nextDueDate }, '2026-10-19').dates[0]).toBe(nextDueDate);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  formatInvoiceNumber,
+  getDueRecurringRun,
+  getFirstOccurrenceOnOrAfter,
+  getFollowingOccurrence,
+  getOccurrenceDate,
+  getRecurringInvoiceTotals,
+  getResumedRunDate,
+  type RecurringSchedule,
+} from '../recurringInvoices';
+
+function schedule(overrides: Partial<RecurringSchedule> = {}): RecurringSchedule {
+  return {
+    frequency: 'monthly',
+    start_date: '2026-01-15',
+    end_date: null,
+    next_run_date: '2026-03-15',
+    is_paused: false,
+    ...overrides,
+  };
+}
+
+describe('getOccurrenceDate', () => {
+  it('steps weekly from the start date', () => {
+    expect(getOccurrenceDate('2026-12-28', 'weekly', 1)).toBe('2027-01-04');
+  });
+
+  it('clamps month-end starts without drifting', () => {
+    expect(getOccurrenceDate('2026-01-31', 'monthly', 1)).toBe('2026-02-28');
+    expect(getOccurrenceDate('2026-01-31', 'monthly', 2)).toBe('2026-03-31');
+  });
+
+  it('steps quarterly and yearly across years', () => {
+    expect(getOccurrenceDate('2026-11-30', 'quarterly', 1)).toBe('2027-02-28');
+    expect(getOccurrenceDate('2028-02-29', 'yearly', 1)).toBe('2029-02-28');
+  });
+});
+
+describe('getFirstOccurrenceOnOrAfter', () => {
+  it('returns the occurrence on the date itself', () => {
+    expect(getFirstOccurrenceOnOrAfter(schedule(), '2026-06-15')).toBe('2026-06-15');
+  });
+
+  it('returns the next occurrence after the date', () => {
+    expect(getFirstOccurrenceOnOrAfter(schedule(), '2026-06-16')).toBe('2026-07-15');
+    expect(getFirstOccurrenceOnOrAfter(schedule({ frequency: 'weekly', start_date: '2026-10-05' }), '2026-10-19'))
+      .toBe('2026-10-19');
+  });
+
+  it('returns null past the end date', () => {
+    expect(getFirstOccurrenceOnOrAfter(schedule({ end_date: '2026-06-30' }), '2026-06-16')).toBeNull();
+  });
+});
+
+describe('getDueRecurringRun', () => {
+  it('bills the next run once its date arrives', () => {
+    expect(getDueRecurringRun(schedule(), '2026-03-14')).toBeNull();
+    expect(getDueRecurringRun(schedule(), '2026-03-15')).toBe('2026-03-15');
+  });
+
+  it('bills a missed run on the following day', () => {
+    expect(getDueRecurringRun(schedule(), '2026-03-17')).toBe('2026-03-15');
+  });
+
+  it('skips paused and ended schedules', () => {
+    expect(getDueRecurringRun(schedule({ is_paused: true }), '2026-03-15')).toBeNull();
+    expect(getDueRecurringRun(schedule({ next_run_date: null }), '2026-03-15')).toBeNull();
+    expect(getDueRecurringRun(schedule({ end_date: '2026-03-01' }), '2026-03-15')).toBeNull();
+  });
+});
+
+describe('getFollowingOccurrence', () => {
+  it('advances past the billed occurrence', () => {
+    expect(getFollowingOccurrence(schedule(), '2026-03-15')).toBe('2026-04-15');
+  });
+
+  it('ends the schedule after its last occurrence', () => {
+    expect(getFollowingOccurrence(schedule({ end_date: '2026-04-14' }), '2026-03-15')).toBeNull();
+  });
+});
+
+describe('getResumedRunDate', () => {
+  it('starts on the start date when it is in the future', () => {
+    expect(getResumedRunDate(schedule({ start_date: '2026-11-01' }), '2026-10-19')).toBe('2026-11-01');
+  });
+
+  it('skips occurrences missed while paused', () => {
+    expect(getResumedRunDate(schedule(), '2026-10-19')).toBe('2026-11-15');
+  });
+});
+
+describe('getRecurringInvoiceTotals', () => {
+  it('matches invoice totals with tax and discount', () => {
+    expect(getRecurringInvoiceTotals(
+      [{ description: 'Sunday services', quantity: 4, rate: 150 }, { description: 'Rehearsal', quantity: 1, rate: 75.5 }],
+      8.25,
+      25
+    )).toEqual({ subtotal: 675.5, taxAmount: 55.73, discountAmount: 25, totalAmount: 706.23 });
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  it('pads the sequence', () => {
+    expect(formatInvoiceNumber('INV-', 2026, 7)).toBe('INV-2026-007');
+    expect(formatInvoiceNumber('INV-', 2026, 1234)).toBe('INV-2026-1234');
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  calculateSettlement,
+  createSettlementDeal,
+  describeSettlementDeal,
+  parseSettlementWorksheet,
+} from '../settlementDeal';
+import { generateSettlementSheetHTML } from '../settlementSheetExport';
+import type { SettlementDeal } from '../../types/tours.types';
+
+function deal(overrides: Partial<SettlementDeal>): SettlementDeal {
+  return {
+    ...createSettlementDeal(),
+    guarantee: 1500,
+    door_percent: 80,
+    tickets: [
+      { label: 'Advance', price: 20, sold: 150, comps: 10 },
+      { label: 'Door', price: 25, sold: 50, comps: 0 },
+    ],
+    ticket_fees: 250,
+    house_expenses: [
+      { label: 'Sound & lights', amount: 400 },
+      { label: 'Security', amount: 150 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('calculateSettlement', () => {
+  it('pays the greater of the guarantee or the door percentage', () => {
+    const result = calculateSettlement(deal({}));
+
+    expect(result).toEqual(expect.objectContaining({
+      tickets_sold: 200,
+      comps: 10,
+      gross_box_office: 4250,
+      house_expenses: 550,
+      net_box_office: 3450,
+      percentage_amount: 2760,
+      deal_amount: 2760,
+      paid_on: 'percentage',
+    }));
+    expect(calculateSettlement(deal({ guarantee: 3000 }))).toEqual(expect.objectContaining({
+      deal_amount: 3000,
+      paid_on: 'guarantee',
+    }));
+  });
+
+  it('pays flat guarantees and door deals on their own terms', () => {
+    expect(calculateSettlement(deal({ deal_type: 'guarantee' })).deal_amount).toBe(1500);
+    expect(calculateSettlement(deal({ deal_type: 'percentage' })).deal_amount).toBe(2760);
+  });
+
+  it('pays nothing on the door when expenses exceed the gross', () => {
+    const result = calculateSettlement(deal({ deal_type: 'percentage', house_expenses: [{ label: 'Room', amount: 5000 }] }));
+
+    expect(result.net_box_office).toBe(-1000);
+    expect(result.percentage_amount).toBe(0);
+    expect(result.total_payout).toBe(0);
+  });
+
+  it('stacks every bonus tier that is reached', () => {
+    const bonuses = [
+      { tickets: 150, amount: 250 },
+      { tickets: 200, amount: 250 },
+      { tickets: 250, amount: 500 },
+    ];
+
+    expect(calculateSettlement(deal({ bonuses })).bonus).toBe(500);
+    expect(calculateSettlement(deal({ bonuses })).total_payout).toBe(3260);
+  });
+
+  it('adds venue-sold merch and takes the house cut of artist-sold merch', () => {
+    expect(calculateSettlement(deal({ merch: { gross: 1000, venue_percent: 20, sold_by: 'venue' } })).merch_amount).toBe(800);
+
+    const artistSold = calculateSettlement(deal({ merch: { gross: 1000, venue_percent: 20, sold_by: 'artist' } }));
+    expect(artistSold.merch_amount).toBe(-200);
+    expect(artistSold.total_payout).toBe(2560);
+  });
+
+  it('takes the deposit off what is due at settlement', () => {
+    const result = calculateSettlement(deal({ deposit: 750 }));
+
+    expect(result.total_payout).toBe(2760);
+    expect(result.due_at_settlement).toBe(2010);
+  });
+});
+
+describe('settlement worksheets', () => {
+  it('describes the deal', () => {
+    expect(describeSettlementDeal(deal({}))).toBe('$1,500 vs 80% of net');
+    expect(describeSettlementDeal(deal({ deal_type: 'guarantee' }))).toBe('$1,500 guarantee');
+    expect(describeSettlementDeal(deal({ deal_type: 'percentage', door_percent: 70 }))).toBe('70% of net door');
+  });
+
+  it('reads stored worksheets and ignores plain settlements', () => {
+    expect(parseSettlementWorksheet(null)).toBeNull();
+    expect(parseSettlementWorksheet({ foo: 1 })).toBeNull();
+
+    const parsed = parseSettlementWorksheet({ deal: { deal_type: 'guarantee', guarantee: 500 } });
+    expect(parsed?.deal).toEqual(expect.objectContaining({ deal_type: 'guarantee', guarantee: 500, house_expenses: [] }));
+    expect(parsed?.signatures).toEqual({ venue_rep: null, artist_rep: null });
+  });
+
+  it('prints the worksheet and sign-off on the settlement sheet', () => {
+    const html = generateSettlementSheetHTML({
+      worksheet: { deal: deal({ deposit: 750 }), signatures: { venue_rep: 'Sam <House>', artist_rep: null } },
+      artistName: 'The Night Owls',
+      show: { title: 'Spring Kickoff', date: '2026-03-06', location: 'Blue Door', city: 'Austin', state: 'TX' },
+      signedOffAt: '2026-03-07T04:15:00Z',
+    });
+
+    expect(html).toContain('Settlement — Spring Kickoff');
+    expect(html).toContain('3/6/2026 · Blue Door · Austin, TX');
+    expect(html).toContain('$2,760.00');
+    expect(html).toContain('Due at settlement');
+    expect(html).toContain('Sam &lt;House&gt;');
+    expect(html).toContain('Signed off 3/7/2026');
+  });
+});
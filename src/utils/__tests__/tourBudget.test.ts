@@ -0,0 +1,86 @@
+import { buildTourBudgetReport, getBudgetCategoryForExpense, type TourBudgetInput } from '../tourBudget';
+
+const gigs: TourBudgetInput['gigs'] = [
+  { id: 'denver', title: 'Denver', date: '2026-05-01', gross_amount: 0, tips: 0, fees: 0, expenses: [] },
+  { id: 'slc', title: 'Salt Lake City', date: '2026-05-03', gross_amount: 0, tips: 0, fees: 0, expenses: [] },
+];
+
+function input(overrides: Partial<TourBudgetInput> = {}): TourBudgetInput {
+  return {
+    budgetItems: [
+      { gig_id: 'denver', category: 'guarantee', amount: 1500 },
+      { gig_id: 'slc', category: 'guarantee', amount: 1200 },
+      { gig_id: 'denver', category: 'lodging', amount: 200 },
+      { gig_id: 'slc', category: 'lodging', amount: 200 },
+      { gig_id: null, category: 'fuel', amount: 400 },
+      { gig_id: null, category: 'crew', amount: 600 },
+    ],
+    gigs,
+    settlements: [],
+    tourExpenses: [],
+    ...overrides,
+  };
+}
+
+describe('buildTourBudgetReport', () => {
+  it('projects the budget before the run starts', () => {
+    const report = buildTourBudgetReport(input(), '2026-04-20');
+
+    expect(report.income).toEqual({ budget: 2700, actual: 0, projected: 2700, variance: 0 });
+    expect(report.expenses).toEqual({ budget: 1400, actual: 0, projected: 1400, variance: 0 });
+    expect(report.net).toEqual({ budget: 1300, actual: 0, projected: 1300, variance: 0 });
+    expect(report.shows.map((show) => show.net.budget)).toEqual([1300, 1000]);
+  });
+
+  it('swaps in actuals as shows are played and expenses come in', () => {
+    const report = buildTourBudgetReport(input({
+      settlements: [{ amount: 1800, allocation_mode: 'custom', allocation_json: { denver: 1800 } }],
+      gigs: [
+        { ...gigs[0], expenses: [{ amount: 260, category: 'Lodging' }] },
+        gigs[1],
+      ],
+      tourExpenses: [{ amount: 150, category: 'Travel', allocation_mode: 'none', allocation_json: null }],
+    }), '2026-05-02');
+
+    const denver = report.shows[0];
+    expect(denver.played).toBe(true);
+    expect(denver.income).toEqual({ budget: 1500, actual: 1800, projected: 1800, variance: 300 });
+    expect(denver.expenses).toEqual({ budget: 200, actual: 260, projected: 260, variance: -60 });
+    expect(denver.net.variance).toBe(240);
+
+    // Salt Lake hasn't happened yet, and fuel so far is under the tour-wide budget
+    expect(report.shows[1].net.projected).toBe(1000);
+    const fuel = report.categories.find((line) => line.category === 'fuel');
+    expect(fuel).toEqual(expect.objectContaining({ budget: 400, actual: 150, projected: 400, variance: 0 }));
+
+    expect(report.net.projected).toBe(1800 + 1200 - 260 - 200 - 400 - 600);
+    expect(report.net.variance).toBe(240);
+  });
+
+  it('settles tour-wide lines once the last show is played', () => {
+    const report = buildTourBudgetReport(input({
+      tourExpenses: [{ amount: 520, category: 'Travel', allocation_mode: 'even', allocation_json: null }],
+    }), '2026-05-10');
+
+    const fuel = report.categories.find((line) => line.category === 'fuel');
+    expect(fuel).toEqual(expect.objectContaining({ budget: 400, actual: 520, projected: 520, variance: -120 }));
+    // Nothing was spent on crew, so that budget is fully saved
+    const crew = report.categories.find((line) => line.category === 'crew');
+    expect(crew).toEqual(expect.objectContaining({ projected: 0, variance: 600 }));
+  });
+
+  it("counts a gig's own gross when no settlement covers it", () => {
+    const report = buildTourBudgetReport(input({
+      gigs: [{ ...gigs[0], gross_amount: 1400, tips: 75 }, gigs[1]],
+    }), '2026-05-02');
+
+    expect(report.shows[0].income.actual).toBe(1475);
+  });
+
+  it('maps expense categories onto budget categories', () => {
+    expect(getBudgetCategoryForExpense('Travel')).toBe('fuel');
+    expect(getBudgetCategoryForExpense('Meals')).toBe('per_diem');
+    expect(getBudgetCategoryForExpense('Equipment/Gear')).toBe('other');
+    expect(getBudgetCategoryForExpense(undefined)).toBe('other');
+  });
+});
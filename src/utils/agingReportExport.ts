@@ -0,0 +1,109 @@
+import { stringifyCsv } from '../lib/exports/textCsv';
+import { formatStoredDate } from '../lib/date';
+import { AGING_BUCKETS, type AgingReport } from './invoiceAging';
+
+// HTML sanitization helper to prevent injection attacks
+function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDays(days: number | null): string {
+  return days === null ? '' : String(days);
+}
+
+export function agingReportToCsv(report: AgingReport): string {
+  const rows = [...report.rows, {
+    client_name: 'Total',
+    buckets: report.buckets,
+    total: report.total,
+    dso: report.dso,
+    average_days_to_pay: report.average_days_to_pay,
+  }];
+
+  return stringifyCsv(rows.map((row) => ({
+    'Payer': row.client_name,
+    ...Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.label, row.buckets[bucket.key].toFixed(2)])),
+    'Total': row.total.toFixed(2),
+    'DSO (days)': formatDays(row.dso),
+    'Avg Days to Pay': formatDays(row.average_days_to_pay),
+  })));
+}
+
+export function generateAgingReportHTML(report: AgingReport, businessName?: string): string {
+  const headerCells = AGING_BUCKETS.map((bucket) => `<th>${escapeHtml(bucket.label)}</th>`).join('');
+  const bodyRows = report.rows.map((row) => `
+        <tr>
+          <td>${escapeHtml(row.client_name)}</td>
+          ${AGING_BUCKETS.map((bucket) => `<td class="num">${formatAmount(row.buckets[bucket.key])}</td>`).join('')}
+          <td class="num strong">${formatAmount(row.total)}</td>
+          <td class="num">${formatDays(row.dso)}</td>
+          <td class="num">${formatDays(row.average_days_to_pay)}</td>
+        </tr>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>A/R Aging — ${formatStoredDate(report.as_of)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color: #111827; padding: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .meta { color: #6b7280; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    th { background: #f9fafb; font-weight: 600; }
+    .num { text-align: right; }
+    .strong { font-weight: 600; }
+    tfoot td { font-weight: 700; border-top: 2px solid #111827; }
+  </style>
+</head>
+<body>
+  <h1>Accounts Receivable Aging</h1>
+  <div class="meta">
+    ${businessName ? `${escapeHtml(businessName)} · ` : ''}As of ${formatStoredDate(report.as_of)}
+    · DSO ${report.dso ?? '—'} days · Avg days to pay ${report.average_days_to_pay ?? '—'}
+  </div>
+  <table>
+    <thead>
+      <tr><th>Payer</th>${headerCells}<th class="num">Total</th><th class="num">DSO</th><th class="num">Avg Days to Pay</th></tr>
+    </thead>
+    <tbody>${bodyRows}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td>Total</td>
+        ${AGING_BUCKETS.map((bucket) => `<td class="num">${formatAmount(report.buckets[bucket.key])}</td>`).join('')}
+        <td class="num">${formatAmount(report.total)}</td>
+        <td class="num">${formatDays(report.dso)}</td>
+        <td class="num">${formatDays(report.average_days_to_pay)}</td>
+      </tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+export function printAgingReport(report: AgingReport, businessName?: string) {
+  const html = generateAgingReportHTML(report, businessName);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
@@ -1,4 +1,11 @@
-import type { AllocationBucket, AllocationResult, BucketValidation, BucketType } from '../types/allocation';
+import type {
+  AllocationBucket,
+  AllocationResult,
+  BucketValidation,
+  BucketType,
+  BucketYTDTotal,
+  TaxPaymentDrawdown,
+} from '../types/allocation';
 
 const NO_INCOME_TAX_STATES = ['TX', 'FL', 'WA', 'NV', 'WY', 'SD', 'AK', 'NH', 'TN'];
 
@@ -155,6 +162,40 @@ export function validateBucketPercentages(buckets: AllocationBucket[]): BucketVa
   };
 }
 
+/**
+ * Build bucket balances from allocated totals, drawing estimated tax payments
+ * down from the tax buckets: federal payments from the federal_tax bucket,
+ * state payments from the state_tax bucket.
+ */
+export function applyTaxPayments(
+  allocatedByBucket: Record<string, number>,
+  buckets: { id: string; bucket_type: string }[],
+  payments: TaxPaymentDrawdown[]
+): BucketYTDTotal[] {
+  const paidByBucket: Record<string, number> = {};
+  const federalBucket = buckets.find(b => b.bucket_type === 'federal_tax');
+  const stateBucket = buckets.find(b => b.bucket_type === 'state_tax');
+
+  for (const payment of payments) {
+    const bucket = payment.jurisdiction === 'federal' ? federalBucket : stateBucket;
+    if (!bucket) continue;
+    paidByBucket[bucket.id] = (paidByBucket[bucket.id] ?? 0) + payment.amount;
+  }
+
+  const bucketIds = new Set([...Object.keys(allocatedByBucket), ...Object.keys(paidByBucket)]);
+
+  return Array.from(bucketIds).map(bucket_id => {
+    const allocated = Math.round((allocatedByBucket[bucket_id] ?? 0) * 100) / 100;
+    const paid = Math.round((paidByBucket[bucket_id] ?? 0) * 100) / 100;
+    return {
+      bucket_id,
+      total: Math.round((allocated - paid) * 100) / 100,
+      allocated,
+      paid,
+    };
+  });
+}
+
 export function getNextQuarterlyDueDate(): Date {
   const today = new Date();
   const currentYear = today.getFullYear();
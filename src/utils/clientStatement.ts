@@ -0,0 +1,159 @@
+/**
+ * Statement of account for a client
+ *
+ * Lists every invoice, payment, refund, credit note and write-off for one
+ * client in date order with a running balance. Invoices in different
+ * currencies get separate statements so balances are never mixed.
+ */
+
+export interface StatementInvoice {
+  id: string;
+  invoice_number: string;
+  invoice_date: string;
+  currency?: string | null;
+  total_amount: number;
+  written_off_amount?: number | null;
+  written_off_on?: string | null;
+  payments?: Array<{ id: string; payment_date: string; amount: number; payment_method?: string | null }>;
+  credit_notes?: Array<{ id: string; credit_number: string; issue_date: string; amount: number }>;
+}
+
+export type StatementEntryType = 'invoice' | 'payment' | 'refund' | 'credit_note' | 'write_off';
+
+export interface StatementEntry {
+  id: string;
+  date: string;
+  type: StatementEntryType;
+  invoiceId: string;
+  invoiceNumber: string;
+  description: string;
+  /** Increases what the client owes (invoices, refunds) */
+  charge: number;
+  /** Decreases what the client owes (payments, credits, write-offs) */
+  credit: number;
+  balance: number;
+}
+
+export interface ClientStatement {
+  currency: string;
+  entries: StatementEntry[];
+  totalInvoiced: number;
+  totalPaid: number;
+  totalCredited: number;
+  totalWrittenOff: number;
+  /** Closing balance; negative when the client has credit */
+  balance: number;
+}
+
+// Same-day entries: the invoice comes before anything applied to it
+const TYPE_ORDER: Record<StatementEntryType, number> = {
+  invoice: 0,
+  credit_note: 1,
+  payment: 2,
+  refund: 3,
+  write_off: 4,
+};
+
+function toCents(amount: number): number {
+  return Math.round(Number(amount || 0) * 100);
+}
+
+function buildInvoiceEntries(invoice: StatementInvoice): Array<Omit<StatementEntry, 'balance'>> {
+  const base = { invoiceId: invoice.id, invoiceNumber: invoice.invoice_number };
+  const entries: Array<Omit<StatementEntry, 'balance'>> = [
+    {
+      ...base,
+      id: invoice.id,
+      date: invoice.invoice_date,
+      type: 'invoice',
+      description: `Invoice ${invoice.invoice_number}`,
+      charge: Number(invoice.total_amount || 0),
+      credit: 0,
+    },
+  ];
+
+  for (const payment of invoice.payments ?? []) {
+    const isRefund = payment.amount < 0;
+    const method = payment.payment_method ? ` (${payment.payment_method})` : '';
+    entries.push({
+      ...base,
+      id: payment.id,
+      date: payment.payment_date,
+      type: isRefund ? 'refund' : 'payment',
+      description: `${isRefund ? 'Refund' : 'Payment'}${method}`,
+      charge: isRefund ? Math.abs(payment.amount) : 0,
+      credit: isRefund ? 0 : payment.amount,
+    });
+  }
+
+  for (const note of invoice.credit_notes ?? []) {
+    entries.push({
+      ...base,
+      id: note.id,
+      date: note.issue_date,
+      type: 'credit_note',
+      description: `Credit note ${note.credit_number}`,
+      charge: 0,
+      credit: Number(note.amount || 0),
+    });
+  }
+
+  const writtenOff = Number(invoice.written_off_amount || 0);
+  if (writtenOff > 0) {
+    entries.push({
+      ...base,
+      id: `${invoice.id}:write-off`,
+      date: invoice.written_off_on || invoice.invoice_date,
+      type: 'write_off',
+      description: 'Balance written off',
+      charge: 0,
+      credit: writtenOff,
+    });
+  }
+
+  return entries;
+}
+
+export function buildClientStatements(invoices: StatementInvoice[]): ClientStatement[] {
+  const byCurrency = new Map<string, StatementInvoice[]>();
+  for (const invoice of invoices) {
+    const currency = (invoice.currency || 'USD').toUpperCase();
+    byCurrency.set(currency, [...(byCurrency.get(currency) ?? []), invoice]);
+  }
+
+  return Array.from(byCurrency.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, currencyInvoices]) => {
+      const rawEntries = currencyInvoices
+        .flatMap(buildInvoiceEntries)
+        .sort((a, b) =>
+          a.date.localeCompare(b.date)
+          || TYPE_ORDER[a.type] - TYPE_ORDER[b.type]
+          || a.invoiceNumber.localeCompare(b.invoiceNumber)
+        );
+
+      let balanceCents = 0;
+      const totals = { invoiced: 0, paid: 0, credited: 0, writtenOff: 0 };
+      const entries = rawEntries.map((entry) => {
+        balanceCents += toCents(entry.charge) - toCents(entry.credit);
+
+        if (entry.type === 'invoice') totals.invoiced += toCents(entry.charge);
+        if (entry.type === 'payment') totals.paid += toCents(entry.credit);
+        if (entry.type === 'refund') totals.paid -= toCents(entry.charge);
+        if (entry.type === 'credit_note') totals.credited += toCents(entry.credit);
+        if (entry.type === 'write_off') totals.writtenOff += toCents(entry.credit);
+
+        return { ...entry, balance: balanceCents / 100 };
+      });
+
+      return {
+        currency,
+        entries,
+        totalInvoiced: totals.invoiced / 100,
+        totalPaid: totals.paid / 100,
+        totalCredited: totals.credited / 100,
+        totalWrittenOff: totals.writtenOff / 100,
+        balance: balanceCents / 100,
+      };
+    });
+}
@@ -1,5 +1,8 @@
 // CSV Import utilities for bulk data upload
 
+import { isDateOnlyString } from '../lib/date';
+import { HOME_CURRENCY, type ExchangeRate } from './exchangeRates';
+
 export interface CSVParseResult<T> {
   data: T[];
   errors: string[];
@@ -153,6 +156,45 @@ export function parseMileageCSV(csvText: string): CSVParseResult<any> {
   return { data, errors };
 }
 
+// Parse exchange rates from CSV
+export function parseExchangeRatesCSV(csvText: string): CSVParseResult<ExchangeRate> {
+  const rows = parseCSV(csvText);
+  const byKey = new Map<string, ExchangeRate>();
+  const errors: string[] = [];
+  if (rows.length === 0) return { data: [], errors };
+
+  // Expected columns: Date, Currency, USD per Unit
+  const headers = rows[0].map(h => h.toLowerCase().trim());
+  const rateIndex = headers.findIndex(h => h === 'usd per unit' || h === 'rate');
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.length < 3) continue;
+
+    const rateDate = row[headers.indexOf('date')]?.trim() || '';
+    const currency = row[headers.indexOf('currency')]?.trim().toUpperCase() || '';
+    const usdPerUnit = parseFloat(row[rateIndex]?.replace(/[$,]/g, '') || '');
+
+    if (!isDateOnlyString(rateDate)) {
+      errors.push(`Row ${i + 1}: Invalid date "${rateDate}". Use YYYY-MM-DD.`);
+      continue;
+    }
+    if (!/^[A-Z]{3}$/.test(currency) || currency === HOME_CURRENCY) {
+      errors.push(`Row ${i + 1}: Invalid currency "${currency}". Use a 3-letter code other than ${HOME_CURRENCY}.`);
+      continue;
+    }
+    if (!Number.isFinite(usdPerUnit) || usdPerUnit <= 0) {
+      errors.push(`Row ${i + 1}: Rate must be a positive number of ${HOME_CURRENCY} per ${currency}.`);
+      continue;
+    }
+
+    // Later rows win when a date is listed twice
+    byKey.set(`${currency}:${rateDate}`, { currency, rate_date: rateDate, usd_per_unit: usdPerUnit });
+  }
+
+  return { data: Array.from(byKey.values()), errors };
+}
+
 // Generate CSV template for download
 export function generateGigsTemplate(): string {
   return 'Date,Payer,Title,Location,City,State,Gross,Tips,Fees,Per Diem,Other Income,Payment Method,Paid,Taxes Withheld,Notes\n2024-01-15,Venue Name,Concert Title,123 Main St,Cincinnati,OH,500,50,25,0,0,Direct Deposit,Yes,No,Great show';
@@ -165,3 +207,7 @@ export function generateExpensesTemplate(): string {
 export function generateMileageTemplate(): string {
   return 'Date,Purpose,Start Location,End Location,Miles,Notes\n2024-01-15,Drive to gig,Cincinnati OH,Columbus OH,107.5,Round trip';
 }
+
+export function generateExchangeRatesTemplate(): string {
+  return 'Date,Currency,USD per Unit\n2024-01-15,CAD,0.7412\n2024-01-15,EUR,1.0875';
+}
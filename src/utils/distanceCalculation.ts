@@ -5,6 +5,8 @@
  * Phase 2 (future): Can upgrade to Google Maps Distance Matrix API for exact driving distance
  */
 
+import { getMileageRateForDate } from '../tax/service';
+
 /**
  * Geocode a location string to lat/lng coordinates
  * Uses Nominatim (OpenStreetMap) - free, no API key required
@@ -118,20 +120,24 @@ export function formatDistance(miles: number | null): string {
 /**
  * Calculate tax deduction for mileage
  * @param miles - Distance in miles
- * @param ratePerMile - IRS standard mileage rate (default: $0.70 for 2025)
+ * @param date - Trip date; the IRS standard mileage rate in effect that day is used
+ *   (latest configured year when omitted)
  * @returns Tax deduction amount
  */
-export function calculateMileageDeduction(miles: number, ratePerMile: number = 0.70): number {
-  return Math.round(miles * ratePerMile * 100) / 100; // Round to 2 decimal places
+export function calculateMileageDeduction(miles: number, date?: string | Date | null): number {
+  return Math.round(miles * getMileageRateForDate(date) * 100) / 100; // Round to 2 decimal places
 }
 
 /**
  * Format tax deduction for display
  * @param miles - Distance in miles
- * @param ratePerMile - IRS standard mileage rate
+ * @param date - Trip date
  * @returns Formatted string (e.g., "$74.90 (107 miles × $0.70/mile)")
  */
-export function formatMileageDeduction(miles: number, ratePerMile: number = 0.70): string {
-  const deduction = calculateMileageDeduction(miles, ratePerMile);
-  return `$${deduction.toFixed(2)} (${miles} miles × $${ratePerMile.toFixed(2)}/mile)`;
+export function formatMileageDeduction(miles: number, date?: string | Date | null): string {
+  const ratePerMile = getMileageRateForDate(date);
+  const deduction = calculateMileageDeduction(miles, date);
+  // 2022's first-half rate is 58.5¢, so keep a third decimal when there is one
+  const rateLabel = ratePerMile.toFixed(3).replace(/0$/, '');
+  return `$${deduction.toFixed(2)} (${miles} miles × $${rateLabel}/mile)`;
 }
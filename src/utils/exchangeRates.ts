@@ -0,0 +1,109 @@
+/**
+ * Home-currency conversion for gigs, expenses and invoices
+ *
+ * Rates are stored as US dollars per one unit of the foreign currency on a
+ * given date and come from a user-imported table, so conversion works
+ * offline. A transaction uses the latest rate on or before its date.
+ *
+ * Kept free of imports so edge functions can share it.
+ */
+
+export const HOME_CURRENCY = 'USD';
+
+export interface ExchangeRate {
+  currency: string;
+  rate_date: string;
+  usd_per_unit: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isHomeCurrency(currency: string | null | undefined): boolean {
+  return !currency || currency.toUpperCase() === HOME_CURRENCY;
+}
+
+/**
+ * USD per unit of `currency` on `date`, or null when no imported rate is on or
+ * before that date
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  currency: string,
+  date: string
+): number | null {
+  if (isHomeCurrency(currency)) return 1;
+
+  const code = currency.toUpperCase();
+  let match: ExchangeRate | null = null;
+  for (const rate of rates) {
+    if (rate.currency !== code || rate.rate_date > date) continue;
+    if (!match || rate.rate_date > match.rate_date) match = rate;
+  }
+
+  return match ? Number(match.usd_per_unit) : null;
+}
+
+/** Original-currency amount to USD */
+export function toHomeAmount(amount: number, usdPerUnit: number | null | undefined): number {
+  return roundCents(Number(amount || 0) * (usdPerUnit ?? 1));
+}
+
+/** Stored USD amount back to the original currency */
+export function fromHomeAmount(amount: number, usdPerUnit: number | null | undefined): number {
+  const rate = usdPerUnit && usdPerUnit > 0 ? usdPerUnit : 1;
+  return roundCents(Number(amount || 0) / rate);
+}
+
+/**
+ * USD per unit for an invoice. USD invoices are always 1; other currencies
+ * need a rate on the invoice.
+ */
+export function getInvoiceExchangeRate(invoice: {
+  currency?: string | null;
+  exchange_rate?: number | null;
+}): number | null {
+  if (isHomeCurrency(invoice.currency)) return 1;
+  return invoice.exchange_rate ? Number(invoice.exchange_rate) : null;
+}
+
+/**
+ * An invoice amount in USD, or null while a non-USD invoice has no rate.
+ * Converting those 1:1 would quietly misstate USD totals.
+ */
+export function toInvoiceHomeAmount(
+  invoice: { currency?: string | null; exchange_rate?: number | null },
+  amount: number
+): number | null {
+  const rate = getInvoiceExchangeRate(invoice);
+  return rate === null ? null : toHomeAmount(amount, rate);
+}
+
+/**
+ * USD total of an amount across invoices. Non-USD invoices without a rate
+ * are left out and counted in `missingRate` so the total can be flagged.
+ */
+export function sumInvoiceHomeAmounts<T extends { currency?: string | null; exchange_rate?: number | null }>(
+  invoices: T[],
+  getAmount: (invoice: T) => number
+): { total: number; missingRate: number } {
+  let total = 0;
+  let missingRate = 0;
+  for (const invoice of invoices) {
+    const amount = toInvoiceHomeAmount(invoice, getAmount(invoice));
+    if (amount === null) missingRate++;
+    else total += amount;
+  }
+  return { total: roundCents(total), missingRate };
+}
+
+/** Note for a USD total that leaves out invoices still waiting on a rate */
+export function formatMissingRateNote(missingRate: number): string | undefined {
+  if (missingRate === 0) return undefined;
+  return `Excludes ${missingRate} invoice${missingRate === 1 ? '' : 's'} with no exchange rate`;
+}
+
+export function formatExchangeRate(currency: string, usdPerUnit: number): string {
+  return `1 ${currency.toUpperCase()} = ${Number(usdPerUnit).toFixed(4)} ${HOME_CURRENCY}`;
+}
@@ -1,8 +1,7 @@
-import { Invoice, InvoiceSettings, formatCurrency } from '../types/invoice';
+import QRCode from 'qrcode';
+import { Invoice, InvoiceSettings } from '../types/invoice';
 import { PaymentMethodDetail } from '../hooks/usePaymentMethodDetails';
-import { buildInvoiceViewModel } from './invoiceViewModel';
-import { formatStoredDate } from '../lib/date';
-import { getEffectiveInvoiceStatus } from './invoiceCalculations';
+import { InvoiceDocument, InvoiceDocumentRow, buildInvoiceDocument } from './invoiceDocument';
 
 // HTML sanitization helper to prevent injection attacks
 function escapeHtml(text: string): string {
@@ -16,29 +15,103 @@ function escapeHtml(text: string): string {
   return text.replace(/[&<>"']/g, (m) => map[m]);
 }
 
-export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings, paymentMethodDetails?: PaymentMethodDetail[]): string {
-  // Build view model with correct calculations (pass settings for new payment methods)
-  const viewModel = buildInvoiceViewModel(invoice, paymentMethodDetails, settings);
-  const invoiceStatus = getEffectiveInvoiceStatus(invoice);
-  
-  const getColorScheme = () => {
-    switch (settings.color_scheme) {
-      case 'blue': return { primary: '#2563eb', secondary: '#dbeafe' };
-      case 'green': return { primary: '#059669', secondary: '#d1fae5' };
-      case 'purple': return { primary: '#7c3aed', secondary: '#ede9fe' };
-      case 'gray': return { primary: '#4b5563', secondary: '#f3f4f6' };
-      default: return { primary: '#2563eb', secondary: '#dbeafe' };
+// QR code as an inline SVG, one square per dark module
+function renderQrSvg(value: string, size: number, dark: string, light: string): string {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+  const quiet = 2;
+  const extent = modules.size + quiet * 2;
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) path += `M${col + quiet} ${row + quiet}h1v1h-1z`;
     }
-  };
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">`
+    + `<rect width="${extent}" height="${extent}" fill="${light}"/><path d="${path}" fill="${dark}"/></svg>`;
+}
+
+function renderTotalRow(row: InvoiceDocumentRow): string {
+  const rowClass = row.emphasis === 'grand' ? 'total-row grand-total' : 'total-row';
+  const labelClass = row.emphasis === 'grand' ? 'grand-total-label' : row.emphasis === 'accent' ? 'total-label accent' : 'total-label';
+  const valueClass = row.emphasis === 'grand' ? 'grand-total-value' : row.emphasis === 'accent' ? 'total-value accent' : 'total-value';
+  return `
+        <div class="${rowClass}">
+          <span class="${labelClass}">${escapeHtml(row.label)}:</span>
+          <span class="${valueClass}">${escapeHtml(row.value)}</span>
+        </div>`;
+}
+
+function renderHeader(doc: InvoiceDocument): string {
+  const contact = doc.header.contactLines.map(escapeHtml).join('<br>');
+
+  if (doc.theme.layout === 'press_kit') {
+    return `
+    <div class="banner">
+      ${doc.header.logoUrl ? `<img class="logo" src="${escapeHtml(doc.header.logoUrl)}" alt="">` : ''}
+      <div class="banner-text">
+        <div class="business-name">${escapeHtml(doc.header.businessName)}</div>
+        <div class="contact-info">${contact}</div>
+      </div>
+      <div class="invoice-title">${doc.title}</div>
+    </div>`;
+  }
 
-  const colors = getColorScheme();
+  return `
+    <div class="header">
+      <div class="business-name">${escapeHtml(doc.header.businessName)}</div>
+      <div class="contact-info">${contact}</div>
+    </div>
+    ${doc.theme.layout === 'classic' ? '<div class="divider"></div>' : ''}
+    <div class="invoice-title">${doc.title}</div>`;
+}
+
+// Layout-specific rules on top of the shared stylesheet
+function renderLayoutStyles(doc: InvoiceDocument): string {
+  const { primary, secondary, palette } = doc.theme;
+
+  switch (doc.theme.layout) {
+    case 'minimal':
+      return `
+    .business-name { font-size: 22px; color: ${palette.text}; }
+    .invoice-title { font-size: 14px; letter-spacing: 4px; text-align: left; color: ${palette.muted}; margin: 24px 0 16px; }
+    thead { border-bottom: 1px solid ${palette.text}; }
+    tbody tr:nth-child(even) { background-color: transparent; }
+    .grand-total { border-top: 1px solid ${palette.text}; }`;
+    case 'press_kit':
+      return `
+    .banner { display: flex; align-items: center; gap: 20px; background-color: ${primary}; color: ${palette.onAccent}; padding: 24px 28px; border-radius: 8px; margin-bottom: 30px; }
+    .banner .logo { width: 72px; height: 72px; object-fit: contain; border-radius: 8px; background-color: ${palette.paper}; }
+    .banner-text { flex: 1; }
+    .banner .business-name { color: ${palette.onAccent}; font-size: 30px; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 4px; }
+    .banner .contact-info { color: ${palette.onAccent}; opacity: 0.85; }
+    .banner .invoice-title { color: ${palette.onAccent}; font-size: 26px; margin: 0; letter-spacing: 3px; }
+    thead { background-color: ${secondary}; }`;
+    default:
+      return `
+    .divider { height: 2px; background-color: ${primary}; margin: 20px 0; }
+    .invoice-title { text-align: center; }
+    thead { background-color: ${secondary}; }`;
+  }
+}
+
+export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings, paymentMethodDetails?: PaymentMethodDetail[]): string {
+  const doc = buildInvoiceDocument(invoice, settings, paymentMethodDetails);
+  return renderInvoiceDocumentHTML(doc);
+}
+
+/**
+ * HTML / PDF rendering of an invoice document
+ */
+export function renderInvoiceDocumentHTML(doc: InvoiceDocument): string {
+  const { primary, fontFamily, palette } = doc.theme;
+  const invoiceNumber = doc.meta[0]?.value ?? '';
 
   const htmlContent = `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
-  <title>Invoice ${invoice.invoice_number}</title>
+  <title>Invoice ${escapeHtml(invoiceNumber)}</title>
   <style>
     * {
       margin: 0;
@@ -47,12 +120,12 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
     }
     
     body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      font-family: ${fontFamily};
       font-size: 14px;
       line-height: 1.5;
-      color: #111827;
+      color: ${palette.text};
       padding: 40px;
-      background: white;
+      background: ${palette.paper};
     }
     
     .invoice {
@@ -67,73 +140,64 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
     .business-name {
       font-size: 28px;
       font-weight: 700;
-      color: ${colors.primary};
+      color: ${primary};
       margin-bottom: 10px;
     }
     
     .contact-info {
       font-size: 13px;
-      color: #6b7280;
+      color: ${palette.muted};
       line-height: 1.6;
     }
     
-    .divider {
-      height: 2px;
-      background-color: ${colors.primary};
-      margin: 20px 0;
-    }
-    
     .invoice-title {
       font-size: 32px;
       font-weight: 700;
-      text-align: center;
-      color: ${colors.primary};
+      color: ${primary};
       margin: 20px 0;
     }
     
     .invoice-info {
       display: flex;
       justify-content: space-between;
+      align-items: flex-start;
       margin-bottom: 30px;
     }
     
     .info-row {
       display: flex;
       justify-content: space-between;
+      gap: 16px;
       margin-bottom: 8px;
     }
     
     .info-label {
       font-weight: 500;
-      color: #6b7280;
+      color: ${palette.muted};
     }
     
     .info-value {
       font-weight: 600;
-      color: #111827;
-    }
-    
-    .bill-to {
-      margin-bottom: 30px;
+      color: ${palette.text};
     }
     
     .bill-to-label {
       font-size: 14px;
       font-weight: 600;
-      color: #6b7280;
+      color: ${palette.muted};
       margin-bottom: 10px;
     }
     
     .client-name {
       font-size: 16px;
       font-weight: 600;
-      color: #111827;
+      color: ${palette.text};
       margin-bottom: 4px;
     }
     
     .client-info {
       font-size: 14px;
-      color: #374151;
+      color: ${palette.body};
       line-height: 1.6;
     }
     
@@ -143,16 +207,12 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
       margin-bottom: 30px;
     }
     
-    thead {
-      background-color: ${colors.secondary};
-    }
-    
     th {
       padding: 12px;
       text-align: left;
       font-weight: 700;
       font-size: 13px;
-      color: #111827;
+      color: ${palette.text};
     }
     
     th.right {
@@ -165,9 +225,9 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
     
     td {
       padding: 12px;
-      border-bottom: 1px solid #f3f4f6;
+      border-bottom: 1px solid ${palette.rule};
       font-size: 14px;
-      color: #374151;
+      color: ${palette.body};
     }
     
     td.right {
@@ -179,8 +239,14 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
       text-align: center;
     }
     
+    .item-detail {
+      font-size: 12px;
+      color: ${palette.muted};
+      margin-top: 2px;
+    }
+    
     tbody tr:nth-child(even) {
-      background-color: #f9fafb;
+      background-color: ${palette.stripe};
     }
     
     .totals {
@@ -199,17 +265,21 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
     
     .total-label {
       font-size: 15px;
-      color: #374151;
+      color: ${palette.body};
     }
     
     .total-value {
       font-size: 15px;
       font-weight: 600;
-      color: #111827;
+      color: ${palette.text};
+    }
+    
+    .accent {
+      color: ${primary};
     }
     
     .grand-total {
-      border-top: 2px solid ${colors.primary};
+      border-top: 2px solid ${primary};
       padding-top: 12px;
       margin-top: 8px;
     }
@@ -217,41 +287,62 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
     .grand-total-label {
       font-size: 18px;
       font-weight: 700;
-      color: ${colors.primary};
+      color: ${primary};
     }
     
     .grand-total-value {
       font-size: 22px;
       font-weight: 700;
-      color: ${colors.primary};
+      color: ${primary};
     }
     
     .terms-section {
       margin-top: 30px;
       padding-top: 20px;
-      border-top: 1px solid #e5e7eb;
+      border-top: 1px solid ${palette.border};
       page-break-inside: avoid;
     }
     
     .terms-label {
       font-size: 14px;
       font-weight: 600;
-      color: #111827;
+      color: ${palette.text};
       margin-bottom: 6px;
     }
     
     .terms-text {
       font-size: 13px;
-      color: #374151;
+      color: ${palette.body};
       line-height: 1.6;
       margin-bottom: 12px;
     }
     
+    .activity-row {
+      display: flex;
+      justify-content: space-between;
+      font-size: 13px;
+      color: ${palette.body};
+      margin-bottom: 6px;
+    }
+    
+    .payment-qr {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      margin-top: 24px;
+      page-break-inside: avoid;
+    }
+    
+    .payment-qr-caption {
+      font-size: 13px;
+      color: ${palette.muted};
+    }
+    
     .footer {
       margin-top: 40px;
       text-align: center;
       font-size: 14px;
-      color: #6b7280;
+      color: ${palette.muted};
       font-style: italic;
     }
     
@@ -260,15 +351,16 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
       top: 40%;
       left: 25%;
       transform: rotate(-25deg);
-      border: 6px solid #059669;
+      border: 6px solid ${palette.paid};
       border-radius: 8px;
       padding: 20px 40px;
       opacity: 0.3;
       font-size: 64px;
       font-weight: 900;
-      color: #059669;
+      color: ${palette.paid};
       pointer-events: none;
     }
+    ${renderLayoutStyles(doc)}
     
     @media print {
       body {
@@ -282,49 +374,25 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
   </style>
 </head>
 <body>
-  <div class="invoice">
-    ${invoiceStatus === 'paid' ? '<div class="paid-stamp">PAID</div>' : ''}
-    
-    <div class="header">
-      <div class="business-name">${escapeHtml(settings.business_name)}</div>
-      <div class="contact-info">
-        ${settings.email ? `${escapeHtml(settings.email)}<br>` : ''}
-        ${settings.phone ? `${escapeHtml(settings.phone)}<br>` : ''}
-        ${settings.address ? `${escapeHtml(settings.address)}<br>` : ''}
-        ${settings.website ? `${escapeHtml(settings.website)}<br>` : ''}
-        ${settings.tax_id ? `Tax ID: ${escapeHtml(settings.tax_id)}` : ''}
-      </div>
-    </div>
-    
-    <div class="divider"></div>
-    
-    <div class="invoice-title">INVOICE</div>
+  <div class="invoice layout-${doc.theme.layout}">
+    ${doc.paid ? '<div class="paid-stamp">PAID</div>' : ''}
+    ${renderHeader(doc)}
     
     <div class="invoice-info">
+      <div class="bill-to">
+        <div class="bill-to-label">Bill To:</div>
+        <div class="client-name">${escapeHtml(doc.billTo.name)}</div>
+        ${doc.billTo.lines.map(line => `<div class="client-info">${escapeHtml(line)}</div>`).join('')}
+      </div>
       <div>
+        ${doc.meta.map(row => `
         <div class="info-row">
-          <span class="info-label">Invoice #:</span>
-          <span class="info-value">${escapeHtml(invoice.invoice_number)}</span>
-        </div>
-        <div class="info-row">
-          <span class="info-label">Date:</span>
-          <span class="info-value">${formatStoredDate(invoice.invoice_date)}</span>
-        </div>
-        <div class="info-row">
-          <span class="info-label">Due Date:</span>
-          <span class="info-value">${formatStoredDate(invoice.due_date)}</span>
-        </div>
+          <span class="info-label">${escapeHtml(row.label)}:</span>
+          <span class="info-value">${escapeHtml(row.value)}</span>
+        </div>`).join('')}
       </div>
     </div>
     
-    <div class="bill-to">
-      <div class="bill-to-label">Bill To:</div>
-      <div class="client-name">${escapeHtml(invoice.client_name)}</div>
-      ${invoice.client_company ? `<div class="client-info">${escapeHtml(invoice.client_company)}</div>` : ''}
-      ${invoice.client_address ? `<div class="client-info">${escapeHtml(invoice.client_address)}</div>` : ''}
-      ${invoice.client_email ? `<div class="client-info">${escapeHtml(invoice.client_email)}</div>` : ''}
-    </div>
-    
     <table>
       <thead>
         <tr>
@@ -335,64 +403,67 @@ export function generateInvoicePDF(invoice: Invoice, settings: InvoiceSettings,
         </tr>
       </thead>
       <tbody>
-        ${viewModel.lineItems.map(item => `
+        ${doc.lineItems.map(item => `
           <tr>
-            <td>${escapeHtml(item.description)}</td>
+            <td>${escapeHtml(item.description)}${item.detail ? `<div class="item-detail">${escapeHtml(item.detail)}</div>` : ''}</td>
             <td class="center">${item.quantity}</td>
-            <td class="right">${formatCurrency(item.rate, invoice.currency)}</td>
-            <td class="right">${formatCurrency(item.amount, invoice.currency)}</td>
+            <td class="right">${escapeHtml(item.rate)}</td>
+            <td class="right">${escapeHtml(item.amount)}</td>
           </tr>
         `).join('')}
       </tbody>
     </table>
     
     <div class="totals">
-      <div class="total-row">
-        <span class="total-label">Subtotal:</span>
-        <span class="total-value">${formatCurrency(viewModel.subtotal, invoice.currency)}</span>
-      </div>
-      
-      ${viewModel.taxAmount > 0 ? `
-        <div class="total-row">
-          <span class="total-label">Tax (${invoice.tax_rate}%):</span>
-          <span class="total-value">${formatCurrency(viewModel.taxAmount, invoice.currency)}</span>
+      ${doc.totals.map(renderTotalRow).join('')}
+    </div>
+    
+    ${doc.paymentQr ? `
+    <div class="payment-qr">
+      ${renderQrSvg(doc.paymentQr.url, 112, palette.text, palette.paper)}
+      <div class="payment-qr-caption">${escapeHtml(doc.paymentQr.caption)}</div>
+    </div>
+    ` : ''}
+    
+    ${doc.sections.length > 0 ? `
+    <div class="terms-section">
+      ${doc.sections.map(section => `
+        <div class="terms-label">${escapeHtml(section.title)}:</div>
+        <div class="terms-text">
+          ${section.lines.map(line => line.label
+            ? `<strong>${escapeHtml(line.label)}:</strong> ${escapeHtml(line.text)}`
+            : escapeHtml(line.text)).join('<br>')}
         </div>
-      ` : ''}
-      
-      ${viewModel.discountAmount > 0 ? `
-        <div class="total-row">
-          <span class="total-label">Discount:</span>
-          <span class="total-value">-${formatCurrency(viewModel.discountAmount, invoice.currency)}</span>
+      `).join('')}
+    </div>
+    ` : ''}
+    
+    ${doc.payments.length > 0 ? `
+    <div class="terms-section">
+      <div class="terms-label">Payment History:</div>
+      ${doc.payments.map(payment => `
+        <div class="activity-row">
+          <span>${escapeHtml(payment.date)} · ${escapeHtml(payment.method)}${payment.reference ? ` · Ref: ${escapeHtml(payment.reference)}` : ''}</span>
+          <span>${escapeHtml(payment.formattedAmount)}</span>
         </div>
-      ` : ''}
-      
-      <div class="total-row grand-total">
-        <span class="grand-total-label">TOTAL DUE:</span>
-        <span class="grand-total-value">${formatCurrency(viewModel.totalDue, invoice.currency)}</span>
-      </div>
+      `).join('')}
     </div>
+    ` : ''}
     
+    ${doc.creditNotes.length > 0 ? `
     <div class="terms-section">
-      ${invoice.payment_terms ? `
-        <div class="terms-label">Payment Terms:</div>
-        <div class="terms-text">${escapeHtml(invoice.payment_terms)}</div>
-      ` : ''}
-      
-      ${viewModel.paymentMethodDisplays.length > 0 ? `
-        <div class="terms-label">Payment Methods:</div>
-        <div class="terms-text">
-          ${viewModel.paymentMethodDisplays.map(pm => `<strong>${escapeHtml(pm.label)}:</strong> ${escapeHtml(pm.details)}`).join('<br>')}
+      <div class="terms-label">Credit Notes:</div>
+      ${doc.creditNotes.map(note => `
+        <div class="activity-row">
+          <span>${escapeHtml(note.title)}${note.reason ? ` · ${escapeHtml(note.reason)}` : ''}</span>
+          <span>${escapeHtml(note.formattedAmount)}</span>
         </div>
-      ` : ''}
-      
-      ${invoice.notes ? `
-        <div class="terms-label">Notes:</div>
-        <div class="terms-text">${escapeHtml(invoice.notes)}</div>
-      ` : ''}
+      `).join('')}
     </div>
+    ` : ''}
     
     <div class="footer">
-      Thank you for your business!
+      ${escapeHtml(doc.footer)}
     </div>
   </div>
 </body>
@@ -0,0 +1,109 @@
+/**
+ * Invoice line items built from gigs
+ *
+ * One line per gig, in date order. The line description carries the date and
+ * venue, and the rate is the gig fee plus (optionally) its per diem and the
+ * expenses logged on the gig, billed back as reimbursements. Gigs earned in
+ * the invoice's currency are billed at their original amounts; otherwise the
+ * stored USD amounts are used.
+ */
+
+import { formatCurrency, formatDate } from './format';
+import { roundCurrencyAmount } from './invoiceCalculations';
+import { HOME_CURRENCY, fromHomeAmount, isHomeCurrency } from './exchangeRates';
+import { formatCurrency as formatInvoiceCurrency, type InvoiceFormData } from '../types/invoice';
+
+export interface BillableGig {
+  id: string;
+  date: string;
+  title?: string | null;
+  location?: string | null;
+  city?: string | null;
+  state?: string | null;
+  gross_amount: number;
+  per_diem?: number | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  paid?: boolean | null;
+  payer?: { id: string; name: string } | null;
+  expenses?: Array<{ description: string; amount: number }> | null;
+}
+
+export interface GigInvoiceOptions {
+  includePerDiem: boolean;
+  includeExpenses: boolean;
+  /** Invoice currency; defaults to USD */
+  currency?: string;
+}
+
+export type GigInvoiceLineItem = InvoiceFormData['line_items'][number];
+
+function getVenue(gig: BillableGig): string {
+  const place = [gig.city, gig.state].filter(Boolean).join(', ');
+  const venue = gig.location?.trim() || gig.title?.trim() || '';
+  if (venue && place && !venue.includes(place)) {
+    return `${venue}, ${place}`;
+  }
+  return venue || place || 'Performance';
+}
+
+export function getGigExpensesTotal(gig: BillableGig): number {
+  return roundCurrencyAmount((gig.expenses ?? []).reduce((sum, expense) => sum + Number(expense.amount || 0), 0));
+}
+
+export function buildGigLineItem(gig: BillableGig, options: GigInvoiceOptions): GigInvoiceLineItem {
+  const currency = options.currency ?? HOME_CURRENCY;
+  const inGigCurrency = !isHomeCurrency(currency) && gig.currency === currency;
+  const toBilled = (amount: number) => (inGigCurrency ? fromHomeAmount(amount, gig.exchange_rate) : roundCurrencyAmount(amount));
+  const format = (amount: number) =>
+    isHomeCurrency(currency) ? formatCurrency(amount, true) : formatInvoiceCurrency(amount, currency);
+
+  const fee = toBilled(gig.gross_amount);
+  const perDiem = options.includePerDiem ? toBilled(gig.per_diem ?? 0) : 0;
+  const expenses = options.includeExpenses ? toBilled(getGigExpensesTotal(gig)) : 0;
+
+  const parts = [`fee ${format(fee)}`];
+  if (perDiem > 0) {
+    parts.push(`per diem ${format(perDiem)}`);
+  }
+  if (expenses > 0) {
+    const labels = (gig.expenses ?? []).map(expense => expense.description.trim()).filter(Boolean);
+    parts.push(`reimbursable expenses ${format(expenses)}${labels.length ? ` (${labels.join(', ')})` : ''}`);
+  }
+
+  const title = gig.title?.trim() && gig.title.trim() !== gig.location?.trim() ? ` — ${gig.title.trim()}` : '';
+  const breakdown = parts.length > 1 ? ` · ${parts.join(' + ')}` : '';
+
+  return {
+    description: `${formatDate(gig.date)} · ${getVenue(gig)}${title}${breakdown}`,
+    quantity: 1,
+    rate: roundCurrencyAmount(fee + perDiem + expenses),
+    gig_id: gig.id,
+  };
+}
+
+export function buildGigInvoiceLineItems(gigs: BillableGig[], options: GigInvoiceOptions): GigInvoiceLineItem[] {
+  return [...gigs]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(gig => buildGigLineItem(gig, options));
+}
+
+/**
+ * The currency every gig was earned in, or USD when they differ
+ */
+export function getSharedGigCurrency(gigs: BillableGig[]): string {
+  const currency = gigs[0]?.currency || HOME_CURRENCY;
+  return gigs.every(gig => (gig.currency || HOME_CURRENCY) === currency) ? currency : HOME_CURRENCY;
+}
+
+/**
+ * The payer every gig shares, or null when the gigs are for different payers
+ * (an invoice has a single client)
+ */
+export function getSharedGigPayer(gigs: BillableGig[]): { id: string; name: string } | null {
+  const payer = gigs[0]?.payer ?? null;
+  if (!payer || gigs.some(gig => gig.payer?.id !== payer.id)) {
+    return null;
+  }
+  return payer;
+}
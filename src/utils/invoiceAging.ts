@@ -0,0 +1,259 @@
+/**
+ * Accounts-receivable aging
+ *
+ * Buckets the open balance of every sent invoice by days past due and rolls
+ * it up per payer, with days-sales-outstanding (open balance over the last
+ * 90 days of invoiced sales) and the average days from invoice to payment.
+ * Amounts are reported in USD using each invoice's exchange rate; non-USD
+ * invoices without a rate are left out and listed so the report can say so.
+ */
+
+import { calculateInvoiceBalanceDue, roundCurrencyAmount } from './invoiceCalculations';
+import { toInvoiceHomeAmount } from './exchangeRates';
+import { addDays, daysBetween } from './recurringInvoices';
+
+export type AgingBucketKey = 'current' | '1_30' | '31_60' | '61_90' | '90_plus';
+
+export const AGING_BUCKETS: { key: AgingBucketKey; label: string; minDaysPastDue: number }[] = [
+  { key: 'current', label: 'Current', minDaysPastDue: Number.NEGATIVE_INFINITY },
+  { key: '1_30', label: '1–30', minDaysPastDue: 1 },
+  { key: '31_60', label: '31–60', minDaysPastDue: 31 },
+  { key: '61_90', label: '61–90', minDaysPastDue: 61 },
+  { key: '90_plus', label: '90+', minDaysPastDue: 91 },
+];
+
+export const DSO_PERIOD_DAYS = 90;
+
+export interface AgingSourceInvoice {
+  id: string;
+  invoice_number: string;
+  client_id?: string | null;
+  client_name: string;
+  invoice_date: string;
+  due_date: string;
+  status: string;
+  total_amount: number | string;
+  balance_due?: number | null;
+  credited_amount?: number | string | null;
+  written_off_amount?: number | string | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  payments?: Array<{ amount: number | string; payment_date: string }> | null;
+}
+
+export interface AgingInvoiceLine {
+  id: string;
+  invoice_number: string;
+  payer_key: string;
+  client_name: string;
+  invoice_date: string;
+  due_date: string;
+  days_past_due: number;
+  balance_due: number;
+  bucket: AgingBucketKey;
+}
+
+export type AgingBucketTotals = Record<AgingBucketKey, number>;
+
+export interface AgingPayerRow {
+  payer_key: string;
+  client_id: string | null;
+  client_name: string;
+  buckets: AgingBucketTotals;
+  total: number;
+  dso: number | null;
+  average_days_to_pay: number | null;
+}
+
+export interface AgingReport {
+  as_of: string;
+  rows: AgingPayerRow[];
+  buckets: AgingBucketTotals;
+  total: number;
+  dso: number | null;
+  average_days_to_pay: number | null;
+  invoices: AgingInvoiceLine[];
+  // Invoice numbers left out because they have no exchange rate yet
+  missing_rate_invoices: string[];
+}
+
+export function getAgingBucket(daysPastDue: number): AgingBucketKey {
+  let bucket: AgingBucketKey = 'current';
+  for (const option of AGING_BUCKETS) {
+    if (daysPastDue >= option.minDaysPastDue) {
+      bucket = option.key;
+    }
+  }
+  return bucket;
+}
+
+function emptyBuckets(): AgingBucketTotals {
+  return { current: 0, '1_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 };
+}
+
+function getPayerKey(invoice: AgingSourceInvoice): string {
+  return invoice.client_id || `name:${invoice.client_name.trim().toLowerCase()}`;
+}
+
+function getBalanceDue(invoice: AgingSourceInvoice): number {
+  if (invoice.balance_due !== undefined && invoice.balance_due !== null) {
+    return roundCurrencyAmount(Number(invoice.balance_due));
+  }
+  const paid = (invoice.payments ?? []).reduce((sum, payment) => sum + Number(payment.amount), 0);
+  return calculateInvoiceBalanceDue({ ...invoice, total_paid: paid });
+}
+
+/**
+ * Days from the invoice date to the payment that settled it, or null when the
+ * invoice isn't fully paid
+ */
+export function getDaysToPay(invoice: AgingSourceInvoice): number | null {
+  const payments = invoice.payments ?? [];
+  if (invoice.status !== 'paid' || payments.length === 0) {
+    return null;
+  }
+  const lastPaymentDate = payments
+    .map(payment => payment.payment_date.slice(0, 10))
+    .sort()
+    .pop() as string;
+  return Math.max(0, daysBetween(invoice.invoice_date, lastPaymentDate));
+}
+
+function getDso(openBalance: number, periodSales: number): number | null {
+  if (periodSales <= 0) {
+    return null;
+  }
+  return Math.round((openBalance / periodSales) * DSO_PERIOD_DAYS);
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+export function buildAgingReport(invoices: AgingSourceInvoice[], asOf: string): AgingReport {
+  const periodStart = addDays(asOf, -DSO_PERIOD_DAYS);
+  const lines: AgingInvoiceLine[] = [];
+  const missingRateInvoices: string[] = [];
+  const payers = new Map<string, {
+    client_id: string | null;
+    client_name: string;
+    buckets: AgingBucketTotals;
+    periodSales: number;
+    daysToPay: number[];
+  }>();
+
+  for (const invoice of invoices) {
+    if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+      continue;
+    }
+
+    const payerKey = getPayerKey(invoice);
+    let payer = payers.get(payerKey);
+    if (!payer) {
+      payer = {
+        client_id: invoice.client_id ?? null,
+        client_name: invoice.client_name,
+        buckets: emptyBuckets(),
+        periodSales: 0,
+        daysToPay: [],
+      };
+      payers.set(payerKey, payer);
+    }
+
+    const daysToPay = getDaysToPay(invoice);
+    if (daysToPay !== null) {
+      payer.daysToPay.push(daysToPay);
+    }
+
+    const periodSales = toInvoiceHomeAmount(invoice, Number(invoice.total_amount));
+    const balanceDue = toInvoiceHomeAmount(invoice, getBalanceDue(invoice));
+    if (periodSales === null || balanceDue === null) {
+      missingRateInvoices.push(invoice.invoice_number);
+      continue;
+    }
+
+    if (invoice.invoice_date > periodStart && invoice.invoice_date <= asOf) {
+      payer.periodSales += periodSales;
+    }
+
+    if (invoice.status === 'paid' || balanceDue <= 0) {
+      continue;
+    }
+
+    const daysPastDue = daysBetween(invoice.due_date, asOf);
+    const bucket = getAgingBucket(daysPastDue);
+    payer.buckets[bucket] = roundCurrencyAmount(payer.buckets[bucket] + balanceDue);
+    lines.push({
+      id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      payer_key: payerKey,
+      client_name: invoice.client_name,
+      invoice_date: invoice.invoice_date,
+      due_date: invoice.due_date,
+      days_past_due: Math.max(0, daysPastDue),
+      balance_due: balanceDue,
+      bucket,
+    });
+  }
+
+  const rows: AgingPayerRow[] = [];
+  const buckets = emptyBuckets();
+  let totalPeriodSales = 0;
+  const allDaysToPay: number[] = [];
+
+  for (const [payerKey, payer] of payers) {
+    totalPeriodSales += payer.periodSales;
+    allDaysToPay.push(...payer.daysToPay);
+
+    const total = roundCurrencyAmount(Object.values(payer.buckets).reduce((sum, amount) => sum + amount, 0));
+    if (total <= 0) {
+      continue;
+    }
+
+    for (const option of AGING_BUCKETS) {
+      buckets[option.key] = roundCurrencyAmount(buckets[option.key] + payer.buckets[option.key]);
+    }
+    rows.push({
+      payer_key: payerKey,
+      client_id: payer.client_id,
+      client_name: payer.client_name,
+      buckets: payer.buckets,
+      total,
+      dso: getDso(total, payer.periodSales),
+      average_days_to_pay: average(payer.daysToPay),
+    });
+  }
+
+  rows.sort((a, b) => b.total - a.total || a.client_name.localeCompare(b.client_name));
+  lines.sort((a, b) => b.days_past_due - a.days_past_due || a.invoice_number.localeCompare(b.invoice_number));
+
+  const total = roundCurrencyAmount(Object.values(buckets).reduce((sum, amount) => sum + amount, 0));
+
+  return {
+    as_of: asOf,
+    rows,
+    buckets,
+    total,
+    dso: getDso(total, totalPeriodSales),
+    average_days_to_pay: average(allDaysToPay),
+    invoices: lines,
+    missing_rate_invoices: missingRateInvoices.sort(),
+  };
+}
+
+/**
+ * Open invoices behind one cell of the aging table; leave either filter off
+ * for a whole row or a whole column
+ */
+export function getAgingInvoices(
+  report: AgingReport,
+  filter: { payerKey?: string | null; bucket?: AgingBucketKey | null }
+): AgingInvoiceLine[] {
+  return report.invoices.filter(line =>
+    (!filter.payerKey || line.payer_key === filter.payerKey) &&
+    (!filter.bucket || line.bucket === filter.bucket)
+  );
+}
@@ -1,10 +1,13 @@
 import { roundCents } from '../lib/exports/rounding';
 import { getToday, isBeforeDay, parseStoredDate } from '../lib/date';
-import { Invoice, InvoiceStatus } from '../types/invoice';
+import { Invoice, InvoiceLineItemKind, InvoiceStatus } from '../types/invoice';
+import { AmountOwed, PaymentTermsInput, calculateAmountOwed } from './invoicePaymentTerms';
 
 type InvoiceLike = Pick<Invoice, 'status' | 'due_date' | 'total_amount'> & {
   balance_due?: number;
   total_paid?: number;
+  credited_amount?: number | null;
+  written_off_amount?: number | null;
 };
 
 export interface InvoiceTotals {
@@ -12,6 +15,20 @@ export interface InvoiceTotals {
   taxAmount: number;
   discountAmount: number;
   totalAmount: number;
+  /** Late fees already added as line items (included in the subtotal, never taxed) */
+  lateFees: number;
+  /** Set when amount-owed options are passed */
+  amountOwed?: AmountOwed;
+}
+
+export interface AmountOwedOptions {
+  terms: PaymentTermsInput | null | undefined;
+  invoiceDate: string;
+  dueDate: string;
+  /** Day to price the invoice for (YYYY-MM-DD) */
+  asOfDate: string;
+  /** Net payments, credit notes and write-offs already applied */
+  settledAmount?: number;
 }
 
 export function roundCurrencyAmount(value: number | null | undefined): number {
@@ -22,26 +39,72 @@ export function calculateLineItemAmount(quantity: number, rate: number): number
   return roundCurrencyAmount(Number(quantity ?? 0) * Number(rate ?? 0));
 }
 
+/**
+ * Invoice totals from its line items
+ *
+ * With amount-owed options, also prices the invoice for a given day: the
+ * balance less any early-payment discount, plus late fees accrued under the
+ * invoice's terms that haven't been applied yet.
+ */
 export function calculateInvoiceTotals(
-  lineItems: Array<{ quantity: number; rate: number }>,
+  lineItems: Array<{ quantity: number; rate: number; kind?: InvoiceLineItemKind | string | null }>,
   taxRate?: number | null,
-  discountAmount?: number | null
+  discountAmount?: number | null,
+  amountOwedOptions?: AmountOwedOptions
 ): InvoiceTotals {
   const subtotal = roundCurrencyAmount(
     lineItems.reduce((sum, item) => sum + calculateLineItemAmount(item.quantity, item.rate), 0)
   );
+  const lateFees = roundCurrencyAmount(
+    lineItems
+      .filter((item) => item.kind === 'late_fee')
+      .reduce((sum, item) => sum + calculateLineItemAmount(item.quantity, item.rate), 0)
+  );
   const normalizedTaxRate = Number(taxRate ?? 0);
   const taxAmount = normalizedTaxRate > 0
-    ? roundCurrencyAmount(subtotal * (normalizedTaxRate / 100))
+    ? roundCurrencyAmount((subtotal - lateFees) * (normalizedTaxRate / 100))
     : 0;
   const normalizedDiscount = roundCurrencyAmount(discountAmount ?? 0);
+  const totalAmount = roundCurrencyAmount(subtotal + taxAmount - normalizedDiscount);
 
-  return {
+  const totals: InvoiceTotals = {
     subtotal,
     taxAmount,
     discountAmount: normalizedDiscount,
-    totalAmount: roundCurrencyAmount(subtotal + taxAmount - normalizedDiscount),
+    totalAmount,
+    lateFees,
   };
+
+  if (amountOwedOptions) {
+    totals.amountOwed = calculateAmountOwed({
+      terms: amountOwedOptions.terms,
+      invoice_date: amountOwedOptions.invoiceDate,
+      due_date: amountOwedOptions.dueDate,
+      balance_due: roundCurrencyAmount(totalAmount - Number(amountOwedOptions.settledAmount ?? 0)),
+      late_fees_applied: lateFees,
+    }, amountOwedOptions.asOfDate);
+  }
+
+  return totals;
+}
+
+/**
+ * What the client still owes: the total less net payments (refunds are
+ * negative), credit notes and any amount written off. Negative when credits
+ * leave money owed back to the client.
+ */
+export function calculateInvoiceBalanceDue(invoice: {
+  total_amount: number | string | null;
+  total_paid?: number | null;
+  credited_amount?: number | string | null;
+  written_off_amount?: number | string | null;
+}): number {
+  return roundCurrencyAmount(
+    Number(invoice.total_amount ?? 0)
+      - Number(invoice.total_paid ?? 0)
+      - Number(invoice.credited_amount ?? 0)
+      - Number(invoice.written_off_amount ?? 0)
+  );
 }
 
 export function getInvoiceBalanceDue(invoice: InvoiceLike): number {
@@ -49,11 +112,65 @@ export function getInvoiceBalanceDue(invoice: InvoiceLike): number {
     return roundCurrencyAmount(invoice.balance_due);
   }
 
-  return roundCurrencyAmount(invoice.total_amount - Number(invoice.total_paid ?? 0));
+  return calculateInvoiceBalanceDue(invoice);
+}
+
+/**
+ * What the client owes on a given day under the invoice's payment terms
+ *
+ * Closed invoices (paid, cancelled, written off) accrue no late fees and get
+ * no discount.
+ */
+export function getInvoiceAmountOwed(
+  invoice: Pick<
+    Invoice,
+    | 'status'
+    | 'invoice_date'
+    | 'due_date'
+    | 'total_amount'
+    | 'tax_rate'
+    | 'discount_amount'
+    | 'net_days'
+    | 'late_fee_type'
+    | 'late_fee_amount'
+    | 'early_discount_percent'
+    | 'early_discount_days'
+    | 'total_paid'
+    | 'credited_amount'
+    | 'written_off_amount'
+  > & { line_items?: Array<{ quantity: number; rate: number; kind?: InvoiceLineItemKind }> },
+  asOfDate: string
+): AmountOwed {
+  const balanceDue = calculateInvoiceBalanceDue(invoice);
+  const isOpen = !['draft', 'paid', 'cancelled', 'written_off'].includes(invoice.status) && balanceDue > 0;
+  const lineItems = invoice.line_items ?? [];
+
+  const closed: AmountOwed = {
+    balanceDue,
+    earlyPaymentDiscount: 0,
+    lateFee: 0,
+    amountOwed: Math.max(0, balanceDue),
+    discountDeadline: null,
+    daysLate: 0,
+  };
+
+  if (!isOpen || lineItems.length === 0) {
+    return closed;
+  }
+
+  const totals = calculateInvoiceTotals(lineItems, invoice.tax_rate, invoice.discount_amount, {
+    terms: invoice,
+    invoiceDate: invoice.invoice_date,
+    dueDate: invoice.due_date,
+    asOfDate,
+    settledAmount: roundCurrencyAmount(Number(invoice.total_amount ?? 0) - balanceDue),
+  });
+
+  return totals.amountOwed ?? closed;
 }
 
 export function getEffectiveInvoiceStatus(invoice: InvoiceLike): InvoiceStatus {
-  if (invoice.status === 'paid' || invoice.status === 'cancelled') {
+  if (invoice.status === 'paid' || invoice.status === 'cancelled' || invoice.status === 'written_off') {
     return invoice.status;
   }
 
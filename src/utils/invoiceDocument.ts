@@ -0,0 +1,275 @@
+import { COLOR_SCHEMES, Invoice, InvoiceLineItemGig, InvoiceSettings, formatCurrency } from '../types/invoice';
+import { PaymentMethodDetail } from '../hooks/usePaymentMethodDetails';
+import { buildInvoiceViewModel } from './invoiceViewModel';
+import { InvoiceLayout, InvoiceTemplateConfig, resolveInvoiceTemplate } from './invoiceTemplates';
+import { getEffectiveInvoiceStatus } from './invoiceCalculations';
+import { buildInvoiceUrl } from './shareToken';
+import { formatStoredDate } from '../lib/date';
+import { InvoicePalette, invoicePalette } from '../styles/invoiceTheme';
+
+/**
+ * Resolved colors and type for one template
+ */
+export interface InvoiceDocumentTheme {
+  layout: InvoiceLayout;
+  primary: string;
+  secondary: string;
+  fontFamily: string; // CSS font stack
+  palette: InvoicePalette;
+}
+
+export interface InvoiceDocumentRow {
+  label: string;
+  value: string;
+  /** 'grand' is the invoice total; 'accent' rows are printed in the primary color */
+  emphasis?: 'grand' | 'accent';
+}
+
+export interface InvoiceDocumentLineItem {
+  id: string;
+  description: string;
+  detail?: string; // Gig date and venue
+  quantity: number;
+  rate: string;
+  amount: string;
+}
+
+export interface InvoiceDocumentSection {
+  title: string;
+  lines: { label?: string; text: string }[];
+}
+
+export interface InvoiceDocumentPayment {
+  id: string;
+  date: string;
+  method: string;
+  reference?: string;
+  amount: number;
+  formattedAmount: string;
+}
+
+export interface InvoiceDocumentCreditNote {
+  id: string;
+  creditNumber: string;
+  title: string;
+  reason?: string;
+  formattedAmount: string;
+}
+
+/**
+ * Everything printed on an invoice, in order, with all text formatted
+ *
+ * The in-app / public view and the HTML / PDF export both render from this,
+ * so a template's layout and field toggles come out the same in each.
+ */
+export interface InvoiceDocument {
+  template: InvoiceTemplateConfig;
+  theme: InvoiceDocumentTheme;
+  title: string;
+  header: {
+    businessName: string;
+    logoUrl?: string; // Press kit layout only
+    contactLines: string[];
+  };
+  meta: InvoiceDocumentRow[];
+  billTo: {
+    name: string;
+    lines: string[];
+  };
+  lineItems: InvoiceDocumentLineItem[];
+  totals: InvoiceDocumentRow[];
+  sections: InvoiceDocumentSection[];
+  payments: InvoiceDocumentPayment[];
+  creditNotes: InvoiceDocumentCreditNote[];
+  paymentQr: { url: string; caption: string } | null;
+  paid: boolean;
+  footer: string;
+}
+
+const FONT_FAMILIES: Record<string, string> = {
+  modern: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif",
+  classic: "Georgia, 'Times New Roman', Times, serif",
+  minimal: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+};
+
+const QR_CLOSED_STATUSES = new Set(['paid', 'cancelled', 'written_off']);
+
+export function getInvoiceDocumentTheme(template: InvoiceTemplateConfig): InvoiceDocumentTheme {
+  const scheme = COLOR_SCHEMES.find((s) => s.value === template.color_scheme) ?? COLOR_SCHEMES[0];
+
+  return {
+    layout: template.layout,
+    primary: scheme.primary,
+    secondary: scheme.secondary,
+    fontFamily: FONT_FAMILIES[template.font_style] ?? FONT_FAMILIES.modern,
+    palette: invoicePalette,
+  };
+}
+
+export function formatGigDetail(gig: InvoiceLineItemGig): string {
+  const place = [gig.city, gig.state_code].filter(Boolean).join(', ');
+  return [formatStoredDate(gig.date), gig.title, gig.location, place]
+    .filter((part): part is string => !!part && part.trim().length > 0)
+    .join(' · ');
+}
+
+/**
+ * Build the document for an invoice with its resolved template
+ */
+export function buildInvoiceDocument(
+  invoice: Invoice,
+  settings: InvoiceSettings,
+  paymentMethodDetails?: PaymentMethodDetail[],
+  template: InvoiceTemplateConfig = resolveInvoiceTemplate(invoice, settings)
+): InvoiceDocument {
+  const viewModel = buildInvoiceViewModel(invoice, paymentMethodDetails, settings);
+  const { fields } = template;
+  const currency = invoice.currency;
+  const money = (value: number) => formatCurrency(value, currency);
+  const status = getEffectiveInvoiceStatus(invoice);
+  const creditedAmount = Number(invoice.credited_amount ?? 0);
+  const writtenOffAmount = Number(invoice.written_off_amount ?? 0);
+  const balanceDue = invoice.balance_due ?? viewModel.totalDue;
+  const gigsById = new Map((invoice.line_items ?? []).map((item) => [item.id, item.gig]));
+
+  const contactLines = [settings.email, settings.phone, settings.address, settings.website]
+    .filter((line): line is string => !!line);
+  if (fields.tax_id && settings.tax_id) {
+    contactLines.push(`Tax ID: ${settings.tax_id}`);
+  }
+
+  const billToLines = [invoice.client_company, invoice.client_address, invoice.client_email]
+    .filter((line): line is string => !!line);
+
+  const lineItems: InvoiceDocumentLineItem[] = viewModel.lineItems.map((item) => {
+    const gig = fields.gig_details ? gigsById.get(item.id) : null;
+    return {
+      id: item.id,
+      description: item.description,
+      ...(gig ? { detail: formatGigDetail(gig) } : {}),
+      quantity: item.quantity,
+      rate: money(item.rate),
+      amount: money(item.amount),
+    };
+  });
+
+  const totals: InvoiceDocumentRow[] = [{ label: 'Subtotal', value: money(viewModel.subtotal) }];
+  if (viewModel.taxAmount > 0) {
+    totals.push({ label: `Tax (${invoice.tax_rate}%)`, value: money(viewModel.taxAmount) });
+  }
+  if (viewModel.discountAmount > 0) {
+    totals.push({ label: 'Discount', value: `-${money(viewModel.discountAmount)}` });
+  }
+  totals.push({ label: 'TOTAL DUE', value: money(viewModel.totalDue), emphasis: 'grand' });
+
+  if (creditedAmount > 0 || writtenOffAmount > 0) {
+    if (creditedAmount > 0) {
+      totals.push({ label: 'Credits', value: `-${money(creditedAmount)}` });
+    }
+    if ((invoice.total_paid ?? 0) !== 0) {
+      totals.push({ label: 'Paid', value: `-${money(invoice.total_paid ?? 0)}` });
+    }
+    if (writtenOffAmount > 0) {
+      totals.push({ label: 'Written off', value: `-${money(writtenOffAmount)}` });
+    }
+    totals.push({
+      label: balanceDue < 0 ? 'CREDIT OWED' : 'BALANCE DUE',
+      value: money(Math.abs(balanceDue)),
+      emphasis: 'accent',
+    });
+  }
+
+  const { amountOwed } = viewModel;
+  if (amountOwed.earlyPaymentDiscount > 0 && amountOwed.discountDeadline) {
+    totals.push({ label: 'Early-payment discount', value: `-${money(amountOwed.earlyPaymentDiscount)}` });
+    totals.push({
+      label: `PAY BY ${formatStoredDate(amountOwed.discountDeadline).toUpperCase()}`,
+      value: money(amountOwed.amountOwed),
+      emphasis: 'accent',
+    });
+  }
+  if (amountOwed.lateFee > 0) {
+    totals.push({ label: 'Late fee accrued', value: money(amountOwed.lateFee) });
+    totals.push({ label: 'AMOUNT OWED TODAY', value: money(amountOwed.amountOwed), emphasis: 'accent' });
+  }
+
+  const sections: InvoiceDocumentSection[] = [];
+  if (fields.payment_terms && viewModel.paymentTermsLabel) {
+    sections.push({
+      title: 'Payment Terms',
+      lines: [viewModel.paymentTermsLabel, viewModel.lateFeeTerms]
+        .filter((line): line is string => !!line)
+        .map((text) => ({ text })),
+    });
+  }
+  if (viewModel.paymentMethodDisplays.length > 0) {
+    sections.push({
+      title: 'Payment Methods Accepted',
+      lines: viewModel.paymentMethodDisplays.map((pm) => ({ label: pm.label, text: pm.details })),
+    });
+  }
+  if (invoice.notes) {
+    sections.push({ title: 'Notes', lines: [{ text: invoice.notes }] });
+  }
+  if (writtenOffAmount > 0 && invoice.written_off_on) {
+    sections.push({
+      title: 'Written Off',
+      lines: [{
+        text: `${money(writtenOffAmount)} on ${formatStoredDate(invoice.written_off_on)}`
+          + (invoice.write_off_reason ? ` · ${invoice.write_off_reason}` : ''),
+      }],
+    });
+  }
+
+  const payments: InvoiceDocumentPayment[] = (invoice.payments ?? []).map((payment) => ({
+    id: payment.id,
+    date: formatStoredDate(payment.payment_date),
+    method: payment.amount < 0 ? `Refund · ${payment.payment_method}` : payment.payment_method,
+    ...(payment.reference_number ? { reference: payment.reference_number } : {}),
+    amount: payment.amount,
+    formattedAmount: money(payment.amount),
+  }));
+
+  const creditNotes: InvoiceDocumentCreditNote[] = (invoice.credit_notes ?? []).map((note) => ({
+    id: note.id,
+    creditNumber: note.credit_number,
+    title: `${note.credit_number} · ${formatStoredDate(note.issue_date)}`,
+    ...(note.reason ? { reason: note.reason } : {}),
+    formattedAmount: `-${money(note.amount)}`,
+  }));
+
+  const showQr = fields.payment_qr
+    && !!invoice.public_token
+    && balanceDue > 0
+    && !QR_CLOSED_STATUSES.has(status);
+
+  return {
+    template,
+    theme: getInvoiceDocumentTheme(template),
+    title: 'INVOICE',
+    header: {
+      businessName: settings.business_name,
+      ...(template.layout === 'press_kit' && settings.logo_url ? { logoUrl: settings.logo_url } : {}),
+      contactLines,
+    },
+    meta: [
+      { label: 'Invoice #', value: invoice.invoice_number },
+      { label: 'Date', value: formatStoredDate(invoice.invoice_date) },
+      { label: 'Due Date', value: formatStoredDate(invoice.due_date) },
+    ],
+    billTo: {
+      name: invoice.client_name,
+      lines: billToLines,
+    },
+    lineItems,
+    totals,
+    sections,
+    payments,
+    creditNotes,
+    paymentQr: showQr && invoice.public_token
+      ? { url: buildInvoiceUrl(invoice.id, invoice.public_token), caption: 'Scan to view and pay online' }
+      : null,
+    paid: status === 'paid',
+    footer: 'Thank you for your business!',
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Structured invoice payment terms
+ *
+ * Net days set the due date. An early-payment discount ("2/10 net 30") takes
+ * a percentage off while the invoice is paid within the discount window. Once
+ * the invoice is past due a late fee accrues: either a one-time flat amount or
+ * a percentage of the unpaid balance for each month (or part month) late.
+ * Applied late fees become line items on the invoice, so they are counted in
+ * the balance and subtracted from what is still accruing.
+ *
+ * Kept free of imports so the send-invoice-reminders edge function can share it.
+ */
+
+export type LateFeeType = 'none' | 'flat' | 'percent';
+
+export interface PaymentTerms {
+  net_days: number;
+  late_fee_type: LateFeeType;
+  late_fee_amount: number; // Flat amount, or percent per month
+  early_discount_percent: number;
+  early_discount_days: number;
+}
+
+/** Terms as stored on invoices and settings rows, where any field may be unset */
+export type PaymentTermsInput = { [K in keyof PaymentTerms]?: PaymentTerms[K] | null };
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = {
+  net_days: 30,
+  late_fee_type: 'none',
+  late_fee_amount: 0,
+  early_discount_percent: 0,
+  early_discount_days: 0,
+};
+
+export const LATE_FEE_TYPES: { value: LateFeeType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'flat', label: 'Flat fee' },
+  { value: 'percent', label: '% per month' },
+];
+
+const MAX_TERM_DAYS = 365;
+
+const DAYS_PER_LATE_FEE_PERIOD = 30;
+
+export interface AmountOwedInput {
+  terms: PaymentTermsInput | null | undefined;
+  invoice_date: string;
+  due_date: string;
+  /** Balance after payments, credits and write-offs, including applied late fees */
+  balance_due: number;
+  /** Late fees already added to the invoice as line items */
+  late_fees_applied?: number;
+}
+
+export interface AmountOwed {
+  balanceDue: number;
+  earlyPaymentDiscount: number;
+  /** Late fee accrued but not yet applied to the invoice */
+  lateFee: number;
+  amountOwed: number;
+  /** Last day the early-payment discount can be taken, when the terms offer one */
+  discountDeadline: string | null;
+  daysLate: number;
+}
+
+function roundMoney(value: number): number {
+  const sign = value < 0 ? -1 : 1;
+  return sign * Math.round(Math.abs(value) * 100 + Number.EPSILON) / 100;
+}
+
+function toDayNumber(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+}
+
+function clampDays(value: unknown, fallback: number): number {
+  if (value === null || value === undefined) return fallback;
+  const days = Math.round(Number(value));
+  return Number.isFinite(days) ? Math.min(Math.max(days, 0), MAX_TERM_DAYS) : fallback;
+}
+
+function clampAmount(value: unknown): number {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date((toDayNumber(date) + days) * 86400000).toISOString().slice(0, 10);
+}
+
+export function normalizeLateFeeType(value: string | null | undefined): LateFeeType {
+  return value === 'flat' || value === 'percent' ? value : 'none';
+}
+
+/**
+ * Fill in defaults and drop out-of-range values
+ */
+export function normalizePaymentTerms(terms: PaymentTermsInput | null | undefined): PaymentTerms {
+  const lateFeeType = normalizeLateFeeType(terms?.late_fee_type);
+  const earlyDiscountPercent = Math.min(clampAmount(terms?.early_discount_percent), 100);
+
+  return {
+    net_days: clampDays(terms?.net_days, DEFAULT_PAYMENT_TERMS.net_days),
+    late_fee_type: lateFeeType,
+    late_fee_amount: lateFeeType === 'none' ? 0 : clampAmount(terms?.late_fee_amount),
+    early_discount_percent: earlyDiscountPercent,
+    early_discount_days: earlyDiscountPercent > 0 ? clampDays(terms?.early_discount_days, 0) : 0,
+  };
+}
+
+/**
+ * Short form of the terms: "Due on Receipt", "Net 30", "2/10 Net 30"
+ */
+export function formatPaymentTerms(terms: PaymentTermsInput | null | undefined): string {
+  const normalized = normalizePaymentTerms(terms);
+  const net = normalized.net_days === 0 ? 'Due on Receipt' : `Net ${normalized.net_days}`;
+
+  if (normalized.early_discount_percent > 0) {
+    return `${formatNumber(normalized.early_discount_percent)}/${normalized.early_discount_days} ${net}`;
+  }
+  return net;
+}
+
+/**
+ * Late fee wording for invoices and settings, or null when there is none
+ */
+export function formatLateFee(terms: PaymentTermsInput | null | undefined, currency: string = 'USD'): string | null {
+  const normalized = normalizePaymentTerms(terms);
+  if (normalized.late_fee_amount <= 0) return null;
+
+  if (normalized.late_fee_type === 'percent') {
+    return `Late fee: ${formatNumber(normalized.late_fee_amount)}% per month on overdue balances`;
+  }
+  const amount = new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(normalized.late_fee_amount);
+  return `Late fee: ${amount} once overdue`;
+}
+
+/**
+ * Read free-text terms ("Net 30", "Due on receipt", "2/10 net 30")
+ * Returns null when the text doesn't describe structured terms.
+ */
+export function parsePaymentTerms(text: string | null | undefined): Partial<PaymentTerms> | null {
+  const value = (text ?? '').trim().toLowerCase();
+  if (!value) return null;
+
+  if (/^due (on|upon) receipt$/.test(value)) {
+    return { net_days: 0 };
+  }
+
+  const match = value.match(/^(?:(\d+(?:\.\d+)?)\s*\/\s*(\d+)\s*,?\s*)?net\s*(\d+)$/);
+  if (!match) return null;
+
+  const [, discountPercent, discountDays, netDays] = match;
+  return {
+    net_days: Number(netDays),
+    ...(discountPercent
+      ? { early_discount_percent: Number(discountPercent), early_discount_days: Number(discountDays) }
+      : {}),
+  };
+}
+
+export function getEarlyDiscountDeadline(
+  invoiceDate: string,
+  terms: PaymentTermsInput | null | undefined
+): string | null {
+  const normalized = normalizePaymentTerms(terms);
+  return normalized.early_discount_percent > 0
+    ? addDays(invoiceDate, normalized.early_discount_days)
+    : null;
+}
+
+export function getDaysLate(dueDate: string, asOfDate: string): number {
+  return Math.max(0, toDayNumber(asOfDate) - toDayNumber(dueDate));
+}
+
+/**
+ * Late fee accrued as of a date, less fees already applied
+ *
+ * Percentage fees are charged on the balance excluding earlier late fees (no
+ * compounding), once for every started 30 days past the due date.
+ */
+export function calculateLateFee(input: AmountOwedInput, asOfDate: string): number {
+  const terms = normalizePaymentTerms(input.terms);
+  const applied = Math.max(0, Number(input.late_fees_applied ?? 0));
+  const daysLate = getDaysLate(input.due_date, asOfDate);
+
+  if (terms.late_fee_type === 'none' || terms.late_fee_amount <= 0 || daysLate <= 0 || input.balance_due <= 0) {
+    return 0;
+  }
+
+  const accrued = terms.late_fee_type === 'flat'
+    ? terms.late_fee_amount
+    : Math.max(0, input.balance_due - applied)
+      * (terms.late_fee_amount / 100)
+      * Math.ceil(daysLate / DAYS_PER_LATE_FEE_PERIOD);
+
+  return Math.max(0, roundMoney(accrued - applied));
+}
+
+/**
+ * Discount for paying the balance on or before the discount deadline
+ */
+export function calculateEarlyPaymentDiscount(input: AmountOwedInput, asOfDate: string): number {
+  const terms = normalizePaymentTerms(input.terms);
+  const deadline = getEarlyDiscountDeadline(input.invoice_date, terms);
+
+  if (!deadline || input.balance_due <= 0 || toDayNumber(asOfDate) > toDayNumber(deadline)) {
+    return 0;
+  }
+
+  return roundMoney(input.balance_due * (terms.early_discount_percent / 100));
+}
+
+/**
+ * What the client should pay on a given date: the balance less any early
+ * payment discount, plus late fees accrued and not yet applied
+ */
+export function calculateAmountOwed(input: AmountOwedInput, asOfDate: string): AmountOwed {
+  const balanceDue = roundMoney(input.balance_due);
+  const earlyPaymentDiscount = calculateEarlyPaymentDiscount(input, asOfDate);
+  const lateFee = calculateLateFee(input, asOfDate);
+
+  return {
+    balanceDue,
+    earlyPaymentDiscount,
+    lateFee,
+    amountOwed: roundMoney(Math.max(0, balanceDue) - earlyPaymentDiscount + lateFee),
+    discountDeadline: getEarlyDiscountDeadline(input.invoice_date, input.terms),
+    daysLate: getDaysLate(input.due_date, asOfDate),
+  };
+}
+
+/**
+ * Default terms from invoice settings; settings saved before structured
+ * terms fall back to their free-text label for net days
+ */
+export function getDefaultPaymentTerms(settings: {
+  default_payment_terms?: string | null;
+  default_net_days?: number | null;
+  late_fee_type?: string | null;
+  late_fee_amount?: number | null;
+  early_discount_percent?: number | null;
+  early_discount_days?: number | null;
+} | null | undefined): PaymentTerms {
+  const parsed = parsePaymentTerms(settings?.default_payment_terms);
+
+  return normalizePaymentTerms({
+    net_days: settings?.default_net_days ?? parsed?.net_days,
+    late_fee_type: normalizeLateFeeType(settings?.late_fee_type),
+    late_fee_amount: settings?.late_fee_amount,
+    early_discount_percent: settings?.early_discount_percent ?? parsed?.early_discount_percent,
+    early_discount_days: settings?.early_discount_days ?? parsed?.early_discount_days,
+  });
+}
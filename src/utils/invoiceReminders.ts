@@ -0,0 +1,163 @@
+/**
+ * Overdue invoice reminder schedules
+ *
+ * A schedule is a list of day offsets from the invoice due date: -3 is three
+ * days before it's due, 0 is the due date, 7 is a week late. Invoices use their
+ * own schedule when set, otherwise the default from invoice settings.
+ *
+ * Kept free of imports so the send-invoice-reminders edge function can share it.
+ */
+
+export const DEFAULT_REMINDER_SCHEDULE = [-3, 0, 7, 14];
+
+const MAX_REMINDER_OFFSET_DAYS = 365;
+
+const REMINDABLE_STATUSES = ['sent', 'viewed', 'partially_paid', 'overdue'];
+
+export interface ReminderInvoice {
+  status: string;
+  due_date: string;
+  client_email?: string | null;
+  balance_due: number;
+  reminder_schedule?: number[] | null;
+  reminders_stopped_at?: string | null;
+}
+
+export interface ReminderSettings {
+  reminders_enabled?: boolean | null;
+  reminder_schedule?: number[] | null;
+}
+
+function toDayNumber(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+}
+
+/**
+ * Sorted, de-duplicated offsets (invalid entries dropped)
+ */
+export function normalizeReminderSchedule(schedule: number[] | null | undefined): number[] {
+  return Array.from(new Set((schedule ?? [])
+    .filter(offset => Number.isInteger(offset) && Math.abs(offset) <= MAX_REMINDER_OFFSET_DAYS)))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Parse a comma-separated schedule ("-3, 0, 7, 14")
+ * Returns null when any entry is not a whole number of days within a year.
+ */
+export function parseReminderSchedule(input: string): number[] | null {
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  const offsets = parts.map(Number);
+  if (offsets.some(offset => !Number.isInteger(offset) || Math.abs(offset) > MAX_REMINDER_OFFSET_DAYS)) {
+    return null;
+  }
+  return normalizeReminderSchedule(offsets);
+}
+
+export function formatReminderSchedule(schedule: number[] | null | undefined): string {
+  return normalizeReminderSchedule(schedule).join(', ');
+}
+
+/**
+ * Schedule that applies to an invoice, or an empty list when reminders are off
+ * (an invoice with its own schedule is reminded even if the default is off)
+ */
+export function resolveReminderSchedule(invoice: ReminderInvoice, settings: ReminderSettings | null): number[] {
+  if (invoice.reminder_schedule != null) {
+    return normalizeReminderSchedule(invoice.reminder_schedule);
+  }
+  if (!settings?.reminders_enabled) {
+    return [];
+  }
+  return normalizeReminderSchedule(settings.reminder_schedule ?? DEFAULT_REMINDER_SCHEDULE);
+}
+
+/**
+ * Whether reminders should still go out: sent, unpaid, has an email address,
+ * and not stopped by a full payment
+ */
+export function isReminderEligible(invoice: ReminderInvoice): boolean {
+  return REMINDABLE_STATUSES.includes(invoice.status)
+    && invoice.balance_due > 0
+    && !!invoice.client_email
+    && !invoice.reminders_stopped_at;
+}
+
+/**
+ * Reminder date for an offset (YYYY-MM-DD)
+ */
+export function getReminderDate(dueDate: string, offsetDays: number): string {
+  return new Date((toDayNumber(dueDate) + offsetDays) * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * Offset to send today, if any
+ *
+ * Only the latest offset that has come due is sent, so a missed run doesn't
+ * send a burst of reminders; earlier offsets it skipped are never sent.
+ */
+export function getDueReminderOffset(
+  invoice: ReminderInvoice,
+  schedule: number[],
+  sentOffsets: number[],
+  today: string
+): number | null {
+  if (!isReminderEligible(invoice)) {
+    return null;
+  }
+
+  const lastSent = sentOffsets.length > 0 ? Math.max(...sentOffsets) : -Infinity;
+  const daysFromDue = toDayNumber(today) - toDayNumber(invoice.due_date);
+  const due = normalizeReminderSchedule(schedule).filter(offset => offset <= daysFromDue && offset > lastSent);
+
+  return due.length > 0 ? due[due.length - 1] : null;
+}
+
+/**
+ * Next scheduled reminder after the ones already sent (YYYY-MM-DD), or null
+ */
+export function getNextReminderDate(
+  invoice: ReminderInvoice,
+  schedule: number[],
+  sentOffsets: number[],
+  today: string
+): string | null {
+  if (!isReminderEligible(invoice)) {
+    return null;
+  }
+
+  const lastSent = sentOffsets.length > 0 ? Math.max(...sentOffsets) : -Infinity;
+  const daysFromDue = toDayNumber(today) - toDayNumber(invoice.due_date);
+  const next = normalizeReminderSchedule(schedule).find(offset => offset > lastSent && offset >= daysFromDue);
+
+  return next === undefined ? null : getReminderDate(invoice.due_date, next);
+}
+
+export function formatReminderOffset(offsetDays: number): string {
+  if (offsetDays === 0) return 'On the due date';
+  const days = Math.abs(offsetDays);
+  const unit = days === 1 ? 'day' : 'days';
+  return offsetDays < 0 ? `${days} ${unit} before due` : `${days} ${unit} overdue`;
+}
+
+/**
+ * Default email body for a scheduled reminder
+ */
+export function getReminderMessage(
+  invoice: { client_name: string; invoice_number: string },
+  offsetDays: number,
+  balanceDue: string
+): string {
+  const greeting = `Hi ${invoice.client_name},`;
+  const closing = 'Thank you!';
+
+  if (offsetDays < 0) {
+    const days = Math.abs(offsetDays);
+    return `${greeting}\n\nThis is a friendly reminder that invoice ${invoice.invoice_number} for ${balanceDue} is due in ${days} ${days === 1 ? 'day' : 'days'}.\n\n${closing}`;
+  }
+  if (offsetDays === 0) {
+    return `${greeting}\n\nThis is a friendly reminder that invoice ${invoice.invoice_number} for ${balanceDue} is due today.\n\n${closing}`;
+  }
+  return `${greeting}\n\nInvoice ${invoice.invoice_number} is now ${offsetDays} ${offsetDays === 1 ? 'day' : 'days'} past due with ${balanceDue} outstanding. Please arrange payment at your earliest convenience.\n\n${closing}`;
+}
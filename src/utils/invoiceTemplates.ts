@@ -0,0 +1,116 @@
+/**
+ * Invoice templates
+ *
+ * A template picks the layout, color scheme and font style of an invoice and
+ * which optional fields are printed on it. An invoice renders with its own
+ * template, then the user's default template, then the look saved in invoice
+ * settings before templates existed.
+ */
+
+export type InvoiceLayout = 'classic' | 'minimal' | 'press_kit';
+
+export interface InvoiceTemplateFields {
+  tax_id: boolean;
+  payment_qr: boolean; // QR code linking to the online invoice, while a balance is due
+  payment_terms: boolean;
+  gig_details: boolean; // Date and venue under line items billed to a gig
+}
+
+export interface InvoiceTemplateConfig {
+  layout: InvoiceLayout;
+  color_scheme: string;
+  font_style: string;
+  fields: InvoiceTemplateFields;
+}
+
+/** Template columns as stored on invoice_templates rows */
+export interface InvoiceTemplateColumns {
+  layout: string;
+  color_scheme: string;
+  font_style: string;
+  show_tax_id: boolean;
+  show_payment_qr: boolean;
+  show_payment_terms: boolean;
+  show_gig_details: boolean;
+}
+
+interface LegacyTemplateSettings {
+  color_scheme?: string | null;
+  font_style?: string | null;
+  layout_style?: string | null;
+  default_template?: InvoiceTemplateColumns | null;
+}
+
+export const INVOICE_LAYOUTS: { value: InvoiceLayout; label: string; description: string }[] = [
+  { value: 'classic', label: 'Classic', description: 'Centered title, colored rules and striped line items' },
+  { value: 'minimal', label: 'Minimal', description: 'Plain type and thin rules, color only on the total' },
+  { value: 'press_kit', label: 'Band / Press Kit', description: 'Logo header banner in your color' },
+];
+
+export const INVOICE_TEMPLATE_FIELDS: { key: keyof InvoiceTemplateFields; label: string }[] = [
+  { key: 'tax_id', label: 'Tax ID' },
+  { key: 'payment_qr', label: 'Payment QR code' },
+  { key: 'payment_terms', label: 'Payment terms' },
+  { key: 'gig_details', label: 'Gig details' },
+];
+
+export const DEFAULT_TEMPLATE_FIELDS: InvoiceTemplateFields = {
+  tax_id: true,
+  payment_qr: false,
+  payment_terms: true,
+  gig_details: false,
+};
+
+export function normalizeInvoiceLayout(value: string | null | undefined): InvoiceLayout {
+  return value === 'minimal' || value === 'press_kit' ? value : 'classic';
+}
+
+/**
+ * Template equivalent of the color, font and layout in invoice settings
+ * ('modern' layouts render as classic)
+ */
+export function getTemplateFromSettings(settings: LegacyTemplateSettings | null | undefined): InvoiceTemplateConfig {
+  return {
+    layout: normalizeInvoiceLayout(settings?.layout_style),
+    color_scheme: settings?.color_scheme || 'blue',
+    font_style: settings?.font_style || 'modern',
+    fields: { ...DEFAULT_TEMPLATE_FIELDS },
+  };
+}
+
+export function toInvoiceTemplateConfig(columns: InvoiceTemplateColumns): InvoiceTemplateConfig {
+  return {
+    layout: normalizeInvoiceLayout(columns.layout),
+    color_scheme: columns.color_scheme || 'blue',
+    font_style: columns.font_style || 'modern',
+    fields: {
+      tax_id: columns.show_tax_id,
+      payment_qr: columns.show_payment_qr,
+      payment_terms: columns.show_payment_terms,
+      gig_details: columns.show_gig_details,
+    },
+  };
+}
+
+export function toInvoiceTemplateColumns(config: InvoiceTemplateConfig): InvoiceTemplateColumns {
+  return {
+    layout: config.layout,
+    color_scheme: config.color_scheme,
+    font_style: config.font_style,
+    show_tax_id: config.fields.tax_id,
+    show_payment_qr: config.fields.payment_qr,
+    show_payment_terms: config.fields.payment_terms,
+    show_gig_details: config.fields.gig_details,
+  };
+}
+
+/**
+ * Template an invoice renders with
+ */
+export function resolveInvoiceTemplate(
+  invoice: { template?: InvoiceTemplateColumns | null } | null | undefined,
+  settings: LegacyTemplateSettings | null | undefined
+): InvoiceTemplateConfig {
+  const saved = invoice?.template ?? settings?.default_template;
+  return saved ? toInvoiceTemplateConfig(saved) : getTemplateFromSettings(settings);
+}
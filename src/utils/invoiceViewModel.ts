@@ -1,9 +1,11 @@
-import { Invoice, formatCurrency, InvoiceSettings } from '../types/invoice';
+import { Invoice, formatCurrency, InvoiceLineItemKind, InvoiceSettings } from '../types/invoice';
 import { PaymentMethodDetail } from '../hooks/usePaymentMethodDetails';
 import { PaymentMethodDisplay } from '../types/paymentMethods';
 import { formatPaymentMethodsForDisplay } from './formatPaymentMethods';
 import { getPaymentMethodsConfig } from './paymentMethodsMigration';
-import { calculateInvoiceTotals, calculateLineItemAmount } from './invoiceCalculations';
+import { calculateInvoiceTotals, calculateLineItemAmount, getInvoiceAmountOwed } from './invoiceCalculations';
+import { AmountOwed, formatLateFee, formatPaymentTerms } from './invoicePaymentTerms';
+import { getTodayDateString } from '../lib/date';
 
 /**
  * Computed line item with guaranteed correct amount calculation
@@ -14,6 +16,7 @@ export interface ComputedLineItem {
   quantity: number;
   rate: number;
   amount: number; // Always computed as qty * rate
+  kind: InvoiceLineItemKind;
 }
 
 /**
@@ -41,6 +44,11 @@ export interface InvoiceViewModel {
   taxAmount: number;
   discountAmount: number;
   totalDue: number;
+
+  // Owed today under the payment terms (early-payment discount, accrued late fee)
+  amountOwed: AmountOwed;
+  paymentTermsLabel?: string;
+  lateFeeTerms: string | null;
   
   // Resolved payment methods with details (legacy)
   paymentMethods: ResolvedPaymentMethod[];
@@ -69,6 +77,7 @@ export function buildInvoiceViewModel(
       quantity: qty,
       rate: rate,
       amount: amount,
+      kind: item.kind ?? 'item',
     };
   });
   
@@ -78,6 +87,13 @@ export function buildInvoiceViewModel(
   const taxAmount = totals.taxAmount;
   const discountAmount = totals.discountAmount;
   const totalDue = totals.totalAmount;
+  const amountOwed = getInvoiceAmountOwed({ ...invoice, line_items: lineItems }, getTodayDateString());
+
+  // Terms saved before structured terms keep their free-text label
+  const hasStructuredTerms = invoice.net_days != null;
+  const paymentTermsLabel = hasStructuredTerms && Number(invoice.early_discount_percent ?? 0) > 0
+    ? formatPaymentTerms(invoice)
+    : invoice.payment_terms || (hasStructuredTerms ? formatPaymentTerms(invoice) : undefined);
   
   // Resolve payment methods with details (legacy support)
   const paymentMethods: ResolvedPaymentMethod[] = (invoice.accepted_payment_methods || []).map((pm) => {
@@ -144,6 +160,9 @@ export function buildInvoiceViewModel(
     taxAmount,
     discountAmount,
     totalDue,
+    amountOwed,
+    paymentTermsLabel,
+    lateFeeTerms: formatLateFee(invoice, invoice.currency),
     paymentMethods, // Keep for backward compatibility
     paymentMethodDisplays, // New structured displays
   };
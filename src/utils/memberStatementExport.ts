@@ -0,0 +1,84 @@
+import { formatStoredDate } from '../lib/date';
+import { formatCurrency } from './format';
+import type { MemberStatement } from './payoutSplits';
+
+export interface MemberStatementInput {
+  statement: MemberStatement;
+  artistName?: string | null;
+  tourName?: string | null;
+}
+
+// HTML sanitization helper to prevent injection attacks
+function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+export function generateMemberStatementHTML(input: MemberStatementInput): string {
+  const { statement } = input;
+  const heading = [input.artistName, input.tourName].filter(Boolean).join(' · ');
+
+  const rows = statement.lines.map((line) => `
+        <tr>
+          <td>${line.date ? formatStoredDate(line.date) : ''}</td>
+          <td>${escapeHtml(line.title)}${line.location ? `<div class="muted">${escapeHtml(line.location)}</div>` : ''}</td>
+          <td>${line.note ? escapeHtml(line.note) : ''}</td>
+          <td class="num">${formatCurrency(line.amount, true)}</td>
+        </tr>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Payout Statement — ${escapeHtml(statement.name)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color: #111827; padding: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .meta { color: #6b7280; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+    th { background: #f9fafb; font-weight: 600; }
+    .num { text-align: right; }
+    .muted { color: #6b7280; }
+    .total td { font-weight: 700; font-size: 14px; border-top: 2px solid #111827; }
+  </style>
+</head>
+<body>
+  <h1>Payout Statement — ${escapeHtml(statement.name)}</h1>
+  ${heading ? `<div class="meta">${escapeHtml(heading)}</div>` : ''}
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Show</th><th>Note</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr class="total">
+        <td colspan="3">Total (${statement.lines.length} ${statement.lines.length === 1 ? 'payment' : 'payments'})</td>
+        <td class="num">${formatCurrency(statement.total, true)}</td>
+      </tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+export function printMemberStatement(input: MemberStatementInput) {
+  const html = generateMemberStatementHTML(input);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
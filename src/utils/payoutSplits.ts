@@ -0,0 +1,167 @@
+import { roundCents } from '../lib/exports/rounding';
+import type { Json } from '../types/database.types';
+import type { AllocationJson, PayoutShare, PayoutSplitTemplate } from '../types/tours.types';
+
+export interface PayoutSplitLine extends PayoutShare {
+  amount: number;
+}
+
+export interface SplitPayment {
+  gig_id: string;
+  subcontractor_id: string;
+  amount: number;
+}
+
+interface StatementPayment {
+  id: string;
+  amount: number;
+  note: string | null;
+  subcontractor: { id: string; name: string } | null;
+  gig: { id: string; date: string; title: string | null; location: string | null } | null;
+}
+
+export interface MemberStatementLine {
+  paymentId: string;
+  gigId: string | null;
+  date: string | null;
+  title: string;
+  location: string | null;
+  note: string | null;
+  amount: number;
+}
+
+export interface MemberStatement {
+  subcontractorId: string;
+  name: string;
+  total: number;
+  lines: MemberStatementLine[];
+}
+
+/**
+ * Read a stored payout_split_templates.shares, dropping malformed entries
+ */
+export function parsePayoutShares(value: Json | null | undefined): PayoutShare[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    const share = entry as unknown as Partial<PayoutShare>;
+    const percent = Number(share.percent);
+    if (!Number.isFinite(percent)) return [];
+    return [{
+      subcontractor_id: typeof share.subcontractor_id === 'string' ? share.subcontractor_id : null,
+      percent,
+    }];
+  });
+}
+
+/**
+ * Check a split before it's saved, returning what's wrong or null when it's valid
+ */
+export function getPayoutSharesError(shares: PayoutShare[]): string | null {
+  if (shares.length === 0) {
+    return 'Add at least one share';
+  }
+  if (shares.some((share) => !(share.percent > 0))) {
+    return 'Every share needs a percentage above 0';
+  }
+  if (shares.filter((share) => share.subcontractor_id === null).length > 1) {
+    return 'Only one share can be yours';
+  }
+  const memberIds = shares.flatMap((share) => (share.subcontractor_id ? [share.subcontractor_id] : []));
+  if (new Set(memberIds).size !== memberIds.length) {
+    return 'Each member can only have one share';
+  }
+  const total = shares.reduce((sum, share) => sum + share.percent, 0);
+  if (Math.abs(total - 100) > 0.001) {
+    return `Shares add up to ${Math.round(total * 1000) / 1000}%, not 100%`;
+  }
+  return null;
+}
+
+/**
+ * Split an amount by shares, weighting each share by its percentage the same
+ * way calculateAllocation weights gigs, then rounding to cents
+ *
+ * Each share is rounded down and the leftover cents go to the leader's own
+ * share, or to the largest share when the leader isn't in the split, so the
+ * lines always add back up to the amount.
+ */
+export function calculatePayoutSplit(amount: number, shares: PayoutShare[]): PayoutSplitLine[] {
+  const totalWeight = shares.reduce((sum, share) => sum + Math.max(share.percent, 0), 0);
+  if (totalWeight === 0 || amount <= 0) {
+    return shares.map((share) => ({ ...share, amount: 0 }));
+  }
+
+  const totalCents = Math.round(roundCents(amount) * 100);
+  const cents = shares.map((share) => Math.floor((totalCents * Math.max(share.percent, 0)) / totalWeight + 1e-9));
+  const remainder = totalCents - cents.reduce((sum, value) => sum + value, 0);
+
+  let target = shares.findIndex((share) => share.subcontractor_id === null);
+  if (target === -1) {
+    target = shares.reduce((best, share, index) => (share.percent > shares[best].percent ? index : best), 0);
+  }
+  cents[target] += remainder;
+
+  return shares.map((share, index) => ({ ...share, amount: cents[index] / 100 }));
+}
+
+/**
+ * Payments owed to members for income already allocated across gigs, one per
+ * member per gig. The leader's share stays with the leader and isn't paid out.
+ */
+export function buildSplitPayments(allocations: AllocationJson, shares: PayoutShare[]): SplitPayment[] {
+  return Object.entries(allocations).flatMap(([gigId, allocated]) =>
+    calculatePayoutSplit(allocated, shares).flatMap((line) =>
+      line.subcontractor_id && line.amount > 0
+        ? [{ gig_id: gigId, subcontractor_id: line.subcontractor_id, amount: line.amount }]
+        : []
+    )
+  );
+}
+
+/**
+ * The template to suggest for income: one attached to the tour wins over one
+ * attached to the payer
+ */
+export function pickDefaultSplitTemplate(
+  templates: PayoutSplitTemplate[],
+  context: { tourId?: string | null; payerId?: string | null }
+): PayoutSplitTemplate | null {
+  return (context.tourId ? templates.find((t) => t.tour_id === context.tourId) : undefined)
+    ?? (context.payerId ? templates.find((t) => t.payer_id === context.payerId) : undefined)
+    ?? null;
+}
+
+/**
+ * Group payments into one statement per member, ordered by name with each
+ * member's payments in show order
+ */
+export function buildMemberStatements(payments: StatementPayment[]): MemberStatement[] {
+  const statements = new Map<string, MemberStatement>();
+
+  payments.forEach((payment) => {
+    if (!payment.subcontractor) return;
+    let statement = statements.get(payment.subcontractor.id);
+    if (!statement) {
+      statement = { subcontractorId: payment.subcontractor.id, name: payment.subcontractor.name, total: 0, lines: [] };
+      statements.set(payment.subcontractor.id, statement);
+    }
+    statement.total = roundCents(statement.total + payment.amount);
+    statement.lines.push({
+      paymentId: payment.id,
+      gigId: payment.gig?.id ?? null,
+      date: payment.gig?.date ?? null,
+      title: payment.gig?.title || 'Untitled Gig',
+      location: payment.gig?.location ?? null,
+      note: payment.note,
+      amount: payment.amount,
+    });
+  });
+
+  return [...statements.values()]
+    .map((statement) => ({
+      ...statement,
+      lines: [...statement.lines].sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '')),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
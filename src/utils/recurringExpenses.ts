@@ -0,0 +1,117 @@
+/**
+ * Automatic posting of recurring expenses
+ *
+ * A rule is due on next_due_date and then on every matching day after it:
+ * its weekday, its day of the month, or its month and day. Days past the
+ * end of a month fall on the last day, so a rule on the 31st posts Feb 28.
+ *
+ * Kept free of imports so the post-recurring-expenses edge function can
+ * share it.
+ */
+
+export type RecurringExpenseFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export type RecurringExpensePostMode = 'manual' | 'draft' | 'final';
+
+export const RECURRING_EXPENSE_POST_MODES: { value: RecurringExpensePostMode; label: string; description: string }[] = [
+  { value: 'manual', label: 'Manual', description: 'Add it yourself with quick-add' },
+  { value: 'draft', label: 'Draft', description: 'Posted on the due date as a draft to review' },
+  { value: 'final', label: 'Automatic', description: 'Posted on the due date as an expense' },
+];
+
+// Most postings for one rule in a single run; anything older is picked up
+// on the next run, since next_due_date stays in the past
+export const MAX_CATCH_UP_POSTINGS = 60;
+
+export interface RecurringExpenseSchedule {
+  frequency: RecurringExpenseFrequency;
+  day_of_week?: number | null;
+  day_of_month?: number | null;
+  month_of_year?: number | null;
+  next_due_date?: string | null;
+  is_active?: boolean | null;
+  post_mode?: string | null;
+}
+
+function parseDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return { year, month, day };
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function clampedDate(year: number, month: number, day: number): string {
+  return formatDate(year, month, Math.min(day, daysInMonth(year, month)));
+}
+
+function addDays(date: string, days: number): string {
+  const { year, month, day } = parseDate(date);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDate(result.getUTCFullYear(), result.getUTCMonth() + 1, result.getUTCDate());
+}
+
+function getWeekday(date: string): number {
+  const { year, month, day } = parseDate(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * First due date after a date. Missing day fields fall back to the
+ * matching part of that date.
+ */
+export function getNextRecurringExpenseDate(schedule: RecurringExpenseSchedule, afterDate: string): string {
+  const after = parseDate(afterDate);
+
+  if (schedule.frequency === 'weekly') {
+    const weekday = schedule.day_of_week ?? getWeekday(afterDate);
+    const daysAhead = (weekday - getWeekday(afterDate) + 7) % 7;
+    return addDays(afterDate, daysAhead || 7);
+  }
+
+  const day = schedule.day_of_month ?? after.day;
+
+  if (schedule.frequency === 'yearly') {
+    const month = schedule.month_of_year ?? after.month;
+    const thisYear = clampedDate(after.year, month, day);
+    return thisYear > afterDate ? thisYear : clampedDate(after.year + 1, month, day);
+  }
+
+  const thisMonth = clampedDate(after.year, after.month, day);
+  if (thisMonth > afterDate) return thisMonth;
+  return after.month === 12
+    ? clampedDate(after.year + 1, 1, day)
+    : clampedDate(after.year, after.month + 1, day);
+}
+
+/**
+ * Every due date from next_due_date through today, oldest first, and the
+ * next_due_date to store once they're posted
+ *
+ * Catches up on all missed periods when nothing has run for a while, up to
+ * MAX_CATCH_UP_POSTINGS per run. Manual and paused rules are never due.
+ */
+export function getDueRecurringExpenseDates(
+  schedule: RecurringExpenseSchedule,
+  today: string,
+  limit: number = MAX_CATCH_UP_POSTINGS
+): { dates: string[]; nextDueDate: string | null } {
+  const nextDueDate = schedule.next_due_date ?? null;
+  if (!nextDueDate || schedule.is_active === false || !schedule.post_mode || schedule.post_mode === 'manual') {
+    return { dates: [], nextDueDate };
+  }
+
+  const dates: string[] = [];
+  let date = nextDueDate.slice(0, 10);
+  while (date <= today && dates.length < limit) {
+    dates.push(date);
+    date = getNextRecurringExpenseDate(schedule, date);
+  }
+
+  return { dates, nextDueDate: date };
+}
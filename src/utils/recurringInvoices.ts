@@ -0,0 +1,181 @@
+/**
+ * Recurring and retainer invoice schedules
+ *
+ * A schedule bills the same client on a fixed cadence from its start date.
+ * Occurrences are always counted from the start date, so a schedule starting
+ * Jan 31 bills Feb 28 and then Mar 31 instead of drifting to the 28th.
+ *
+ * Kept free of imports so the generate-recurring-invoices edge function can
+ * share it.
+ */
+
+export type RecurringInvoiceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurringInvoiceSendMode = 'draft' | 'auto_send';
+
+export const RECURRING_INVOICE_FREQUENCIES: { value: RecurringInvoiceFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const MONTHS_PER_OCCURRENCE: Record<Exclude<RecurringInvoiceFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export interface RecurringSchedule {
+  frequency: RecurringInvoiceFrequency;
+  start_date: string;
+  end_date?: string | null;
+  next_run_date?: string | null;
+  is_paused?: boolean | null;
+}
+
+export interface RecurringLineItem {
+  description: string;
+  quantity: number;
+  rate: number;
+}
+
+function parseDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return { year, month, day };
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function addDays(date: string, days: number): string {
+  const { year, month, day } = parseDate(date);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDate(result.getUTCFullYear(), result.getUTCMonth() + 1, result.getUTCDate());
+}
+
+export function daysBetween(from: string, to: string): number {
+  const a = parseDate(from);
+  const b = parseDate(to);
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86400000);
+}
+
+/**
+ * Date of the nth occurrence (0 is the start date), clamped to month end
+ */
+export function getOccurrenceDate(startDate: string, frequency: RecurringInvoiceFrequency, index: number): string {
+  if (frequency === 'weekly') {
+    return addDays(startDate, index * 7);
+  }
+
+  const { year, month, day } = parseDate(startDate);
+  const monthIndex = (month - 1) + index * MONTHS_PER_OCCURRENCE[frequency];
+  const targetYear = year + Math.floor(monthIndex / 12);
+  const targetMonth = (monthIndex % 12) + 1;
+  return formatDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+}
+
+function isAfterEnd(date: string, endDate?: string | null): boolean {
+  return !!endDate && date > endDate;
+}
+
+/**
+ * First occurrence on or after a date, or null once the schedule has ended
+ */
+export function getFirstOccurrenceOnOrAfter(
+  schedule: Pick<RecurringSchedule, 'frequency' | 'start_date' | 'end_date'>,
+  date: string
+): string | null {
+  let index = 0;
+  if (date > schedule.start_date) {
+    // Jump close to the target, then step forward
+    const approxDays = daysBetween(schedule.start_date, date);
+    const approxIndex = schedule.frequency === 'weekly'
+      ? Math.floor(approxDays / 7)
+      : Math.floor(approxDays / (31 * MONTHS_PER_OCCURRENCE[schedule.frequency]));
+    index = Math.max(0, approxIndex);
+  }
+
+  let occurrence = getOccurrenceDate(schedule.start_date, schedule.frequency, index);
+  while (occurrence < date) {
+    index++;
+    occurrence = getOccurrenceDate(schedule.start_date, schedule.frequency, index);
+  }
+
+  return isAfterEnd(occurrence, schedule.end_date) ? null : occurrence;
+}
+
+/**
+ * Occurrence following a billed one, or null once the schedule has ended
+ */
+export function getFollowingOccurrence(
+  schedule: Pick<RecurringSchedule, 'frequency' | 'start_date' | 'end_date'>,
+  billedDate: string
+): string | null {
+  return getFirstOccurrenceOnOrAfter(schedule, addDays(billedDate, 1));
+}
+
+/**
+ * Occurrence to bill today, if any
+ *
+ * The generator bills one occurrence per schedule per run and then moves
+ * next_run_date to the following occurrence, so a missed day catches up one
+ * invoice at a time rather than in a burst.
+ */
+export function getDueRecurringRun(schedule: RecurringSchedule, today: string): string | null {
+  if (schedule.is_paused || !schedule.next_run_date) {
+    return null;
+  }
+  if (schedule.next_run_date > today || isAfterEnd(schedule.next_run_date, schedule.end_date)) {
+    return null;
+  }
+  return schedule.next_run_date;
+}
+
+/**
+ * next_run_date for a new, edited or resumed schedule: the first occurrence
+ * from today on, so past occurrences are never billed retroactively
+ */
+export function getResumedRunDate(
+  schedule: Pick<RecurringSchedule, 'frequency' | 'start_date' | 'end_date'>,
+  today: string
+): string | null {
+  return getFirstOccurrenceOnOrAfter(schedule, today > schedule.start_date ? today : schedule.start_date);
+}
+
+/**
+ * Same totals as calculateInvoiceTotals in invoiceCalculations.ts
+ */
+export function getRecurringInvoiceTotals(
+  lineItems: RecurringLineItem[],
+  taxRate?: number | null,
+  discountAmount?: number | null
+): { subtotal: number; taxAmount: number; discountAmount: number; totalAmount: number } {
+  const round = (value: number) => (value < 0 ? -1 : 1) * Math.round(Math.abs(value) * 100 + Number.EPSILON) / 100;
+  const subtotal = round(lineItems.reduce((sum, item) => sum + round(Number(item.quantity) * Number(item.rate)), 0));
+  const taxAmount = Number(taxRate ?? 0) > 0 ? round(subtotal * (Number(taxRate) / 100)) : 0;
+  const discount = round(Number(discountAmount ?? 0));
+
+  return {
+    subtotal,
+    taxAmount,
+    discountAmount: discount,
+    totalAmount: round(subtotal + taxAmount - discount),
+  };
+}
+
+/**
+ * Invoice number in the app's format: prefix, year and a zero-padded sequence
+ */
+export function formatInvoiceNumber(prefix: string, year: number, sequence: number): string {
+  return `${prefix}${year}-${String(sequence).padStart(3, '0')}`;
+}
+
+export function formatRecurringFrequency(frequency: RecurringInvoiceFrequency): string {
+  return RECURRING_INVOICE_FREQUENCIES.find(option => option.value === frequency)?.label ?? frequency;
+}
@@ -0,0 +1,150 @@
+import { roundCents } from '../lib/exports/rounding';
+import { formatCurrency } from './format';
+import type { Json } from '../types/database.types';
+import type { SettlementDeal, SettlementDealType, SettlementWorksheet } from '../types/tours.types';
+
+export interface SettlementBreakdown {
+  tickets_sold: number;
+  comps: number;
+  gross_box_office: number;
+  ticket_fees: number;
+  house_expenses: number;
+  net_box_office: number; // Negative when the show didn't cover expenses
+  guarantee: number;
+  percentage_amount: number;
+  deal_amount: number;
+  paid_on: 'guarantee' | 'percentage';
+  bonus: number;
+  merch_amount: number; // Negative when the artist owes the house its merch cut
+  total_payout: number;
+  deposit: number;
+  due_at_settlement: number;
+}
+
+export const SETTLEMENT_DEAL_TYPES: { value: SettlementDealType; label: string }[] = [
+  { value: 'versus', label: 'Guarantee vs %' },
+  { value: 'guarantee', label: 'Flat Guarantee' },
+  { value: 'percentage', label: 'Door Deal' },
+];
+
+export function createSettlementDeal(): SettlementDeal {
+  return {
+    deal_type: 'versus',
+    guarantee: 0,
+    door_percent: 80,
+    tickets: [{ label: 'General Admission', price: 0, sold: 0, comps: 0 }],
+    ticket_fees: 0,
+    house_expenses: [],
+    bonuses: [],
+    merch: null,
+    deposit: 0,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + (Number(value) || 0), 0);
+}
+
+/**
+ * Work out the payout for a deal
+ *
+ * Bonus tiers stack: each tier whose ticket count is reached adds its bonus.
+ */
+export function calculateSettlement(deal: SettlementDeal): SettlementBreakdown {
+  const ticketsSold = sum(deal.tickets.map((tier) => tier.sold));
+  const comps = sum(deal.tickets.map((tier) => tier.comps));
+  const gross = roundCents(sum(deal.tickets.map((tier) => tier.price * tier.sold)));
+  const ticketFees = roundCents(Number(deal.ticket_fees) || 0);
+  const houseExpenses = roundCents(sum(deal.house_expenses.map((expense) => expense.amount)));
+  const net = roundCents(gross - ticketFees - houseExpenses);
+  const guarantee = roundCents(Number(deal.guarantee) || 0);
+  const percentageAmount = roundCents(Math.max(net, 0) * (Number(deal.door_percent) || 0) / 100);
+
+  let dealAmount: number;
+  let paidOn: SettlementBreakdown['paid_on'];
+  switch (deal.deal_type) {
+    case 'guarantee':
+      dealAmount = guarantee;
+      paidOn = 'guarantee';
+      break;
+    case 'percentage':
+      dealAmount = percentageAmount;
+      paidOn = 'percentage';
+      break;
+    default:
+      paidOn = percentageAmount > guarantee ? 'percentage' : 'guarantee';
+      dealAmount = Math.max(guarantee, percentageAmount);
+  }
+
+  const bonus = roundCents(sum(
+    deal.bonuses
+      .filter((tier) => tier.tickets > 0 && ticketsSold >= tier.tickets)
+      .map((tier) => tier.amount)
+  ));
+
+  let merchAmount = 0;
+  if (deal.merch && deal.merch.gross > 0) {
+    const houseCut = roundCents(deal.merch.gross * (Number(deal.merch.venue_percent) || 0) / 100);
+    merchAmount = deal.merch.sold_by === 'venue' ? roundCents(deal.merch.gross - houseCut) : -houseCut;
+  }
+
+  const totalPayout = roundCents(Math.max(dealAmount + bonus + merchAmount, 0));
+  const deposit = roundCents(Number(deal.deposit) || 0);
+
+  return {
+    tickets_sold: ticketsSold,
+    comps,
+    gross_box_office: gross,
+    ticket_fees: ticketFees,
+    house_expenses: houseExpenses,
+    net_box_office: net,
+    guarantee,
+    percentage_amount: percentageAmount,
+    deal_amount: dealAmount,
+    paid_on: paidOn,
+    bonus,
+    merch_amount: merchAmount,
+    total_payout: totalPayout,
+    deposit,
+    due_at_settlement: roundCents(totalPayout - deposit),
+  };
+}
+
+/**
+ * Short deal label, e.g. "$1,500 vs 80% of net"
+ */
+export function describeSettlementDeal(deal: SettlementDeal): string {
+  const guarantee = formatCurrency(deal.guarantee);
+  switch (deal.deal_type) {
+    case 'guarantee':
+      return `${guarantee} guarantee`;
+    case 'percentage':
+      return `${deal.door_percent}% of net door`;
+    default:
+      return `${guarantee} vs ${deal.door_percent}% of net`;
+  }
+}
+
+/**
+ * Read a stored settlements.worksheet, or null for settlements entered as a
+ * plain amount
+ */
+export function parseSettlementWorksheet(value: Json | null | undefined): SettlementWorksheet | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const stored = value as unknown as Partial<SettlementWorksheet>;
+  if (!stored.deal || typeof stored.deal !== 'object') return null;
+
+  const deal = { ...createSettlementDeal(), ...stored.deal };
+  return {
+    deal: {
+      ...deal,
+      tickets: Array.isArray(deal.tickets) ? deal.tickets : [],
+      house_expenses: Array.isArray(deal.house_expenses) ? deal.house_expenses : [],
+      bonuses: Array.isArray(deal.bonuses) ? deal.bonuses : [],
+    },
+    signatures: {
+      venue_rep: stored.signatures?.venue_rep ?? null,
+      artist_rep: stored.signatures?.artist_rep ?? null,
+    },
+  };
+}
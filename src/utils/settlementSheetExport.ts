@@ -0,0 +1,189 @@
+import { formatStoredDate } from '../lib/date';
+import { formatCurrency } from './format';
+import { calculateSettlement, describeSettlementDeal } from './settlementDeal';
+import type { SettlementWorksheet } from '../types/tours.types';
+
+export interface SettlementSheetInput {
+  worksheet: SettlementWorksheet;
+  artistName?: string | null;
+  tourName?: string | null;
+  payerName?: string | null;
+  show?: {
+    title: string | null;
+    date: string;
+    location: string | null;
+    city: string | null;
+    state: string | null;
+  } | null;
+  signedOffAt?: string | null;
+  notes?: string | null;
+}
+
+// HTML sanitization helper to prevent injection attacks
+function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+function money(amount: number): string {
+  return formatCurrency(amount, true);
+}
+
+function row(label: string, value: string, className = ''): string {
+  return `
+        <tr class="${className}">
+          <td>${escapeHtml(label)}</td>
+          <td class="num">${value}</td>
+        </tr>`;
+}
+
+function signatureLine(role: string, name: string | null): string {
+  return `
+      <div class="signature">
+        <div class="signature-line">${name ? escapeHtml(name) : '&nbsp;'}</div>
+        <div class="signature-role">${escapeHtml(role)}</div>
+      </div>`;
+}
+
+export function generateSettlementSheetHTML(input: SettlementSheetInput): string {
+  const { deal, signatures } = input.worksheet;
+  const result = calculateSettlement(deal);
+  const show = input.show;
+  const showTitle = show?.title || input.tourName || 'Show Settlement';
+  const venueLine = show
+    ? [formatStoredDate(show.date), show.location, [show.city, show.state].filter(Boolean).join(', ')]
+      .filter(Boolean)
+      .join(' · ')
+    : '';
+
+  const ticketRows = deal.tickets.map((tier) => `
+        <tr>
+          <td>${escapeHtml(tier.label || 'Tickets')}</td>
+          <td class="num">${money(tier.price)}</td>
+          <td class="num">${tier.sold}</td>
+          <td class="num">${tier.comps}</td>
+          <td class="num">${money(tier.price * tier.sold)}</td>
+        </tr>`).join('');
+
+  const expenseRows = deal.house_expenses.map((expense) => row(expense.label || 'Expense', `-${money(expense.amount)}`)).join('');
+
+  const bonusRows = deal.bonuses.map((tier) => row(
+    `${tier.tickets} tickets${result.tickets_sold >= tier.tickets ? ' (reached)' : ''}`,
+    money(tier.amount),
+    result.tickets_sold >= tier.tickets ? '' : 'muted'
+  )).join('');
+
+  let merchRows = '';
+  if (deal.merch && deal.merch.gross > 0) {
+    merchRows = row('Merch gross', money(deal.merch.gross))
+      + row(
+        deal.merch.sold_by === 'venue'
+          ? `Paid to artist (less ${deal.merch.venue_percent}% house)`
+          : `House cut (${deal.merch.venue_percent}%) owed by artist`,
+        deal.merch.sold_by === 'venue' ? money(result.merch_amount) : `-${money(-result.merch_amount)}`
+      );
+  }
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Settlement — ${escapeHtml(showTitle)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color: #111827; padding: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h2 { font-size: 14px; margin: 20px 0 6px; }
+    .meta { color: #6b7280; margin-bottom: 4px; }
+    .deal { font-weight: 600; margin: 12px 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    th { background: #f9fafb; font-weight: 600; }
+    .num { text-align: right; }
+    .muted td { color: #9ca3af; }
+    .subtotal td { font-weight: 600; }
+    .total td { font-weight: 700; font-size: 14px; border-top: 2px solid #111827; }
+    .signatures { display: flex; gap: 48px; margin-top: 48px; }
+    .signature { flex: 1; }
+    .signature-line { border-bottom: 1px solid #111827; padding-bottom: 4px; min-height: 18px; }
+    .signature-role { color: #6b7280; margin-top: 4px; }
+    .signed { margin-top: 16px; color: #059669; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <h1>Settlement — ${escapeHtml(showTitle)}</h1>
+  ${input.artistName ? `<div class="meta">${escapeHtml(input.artistName)}${input.tourName ? ` · ${escapeHtml(input.tourName)}` : ''}</div>` : ''}
+  ${venueLine ? `<div class="meta">${escapeHtml(venueLine)}</div>` : ''}
+  ${input.payerName ? `<div class="meta">Paid by ${escapeHtml(input.payerName)}</div>` : ''}
+  <div class="deal">Deal: ${escapeHtml(describeSettlementDeal(deal))}</div>
+
+  <h2>Box Office</h2>
+  <table>
+    <thead>
+      <tr><th>Ticket</th><th class="num">Price</th><th class="num">Sold</th><th class="num">Comps</th><th class="num">Gross</th></tr>
+    </thead>
+    <tbody>${ticketRows}
+    </tbody>
+    <tfoot>
+      <tr class="subtotal">
+        <td>Total</td><td></td>
+        <td class="num">${result.tickets_sold}</td>
+        <td class="num">${result.comps}</td>
+        <td class="num">${money(result.gross_box_office)}</td>
+      </tr>
+    </tfoot>
+  </table>
+
+  <h2>Net Box Office</h2>
+  <table>
+    <tbody>
+      ${row('Gross box office', money(result.gross_box_office))}
+      ${result.ticket_fees > 0 ? row('Taxes & ticketing fees', `-${money(result.ticket_fees)}`) : ''}
+      ${expenseRows}
+      ${row('Net box office', money(result.net_box_office), 'subtotal')}
+    </tbody>
+  </table>
+
+  <h2>Payout</h2>
+  <table>
+    <tbody>
+      ${deal.deal_type !== 'percentage' ? row('Guarantee', money(result.guarantee), result.paid_on === 'guarantee' ? '' : 'muted') : ''}
+      ${deal.deal_type !== 'guarantee' ? row(`${deal.door_percent}% of net`, money(result.percentage_amount), result.paid_on === 'percentage' ? '' : 'muted') : ''}
+      ${row('Deal payout', money(result.deal_amount), 'subtotal')}
+      ${bonusRows}
+      ${merchRows}
+      ${row('Total payout', money(result.total_payout), 'total')}
+      ${result.deposit > 0 ? row('Less deposit', `-${money(result.deposit)}`) : ''}
+      ${result.deposit > 0 ? row('Due at settlement', money(result.due_at_settlement), 'total') : ''}
+    </tbody>
+  </table>
+
+  ${input.notes ? `<h2>Notes</h2><div>${escapeHtml(input.notes)}</div>` : ''}
+
+  <div class="signatures">
+    ${signatureLine('Venue / Promoter', signatures.venue_rep)}
+    ${signatureLine('Artist Representative', signatures.artist_rep)}
+  </div>
+  ${input.signedOffAt ? `<div class="signed">Signed off ${formatStoredDate(input.signedOffAt.slice(0, 10))}</div>` : ''}
+</body>
+</html>
+  `.trim();
+}
+
+export function printSettlementSheet(input: SettlementSheetInput) {
+  const html = generateSettlementSheetHTML(input);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
@@ -12,3 +12,15 @@ export function buildShareUrl(token: string): string {
     || 'https://bozzygigs.com';
   return `${baseUrl}/share/${token}`;
 }
+
+export function buildPortalUrl(token: string): string {
+  const baseUrl = process.env.EXPO_PUBLIC_SITE_URL 
+    || 'https://bozzygigs.com';
+  return `${baseUrl}/portal/${token}`;
+}
+
+export function buildInvoiceUrl(invoiceId: string, token: string): string {
+  const baseUrl = process.env.EXPO_PUBLIC_SITE_URL 
+    || 'https://bozzygigs.com';
+  return `${baseUrl}/invoices/${encodeURIComponent(invoiceId)}?token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,248 @@
+import { getTodayDateString } from '../lib/date';
+import { calculateAllocation } from './tourAllocations';
+import type { AllocationJson, AllocationMode, TourBudgetCategory } from '../types/tours.types';
+
+export const TOUR_BUDGET_CATEGORIES: { value: TourBudgetCategory; label: string; kind: 'income' | 'expense' }[] = [
+  { value: 'guarantee', label: 'Guarantees', kind: 'income' },
+  { value: 'fuel', label: 'Fuel & Travel', kind: 'expense' },
+  { value: 'lodging', label: 'Hotels', kind: 'expense' },
+  { value: 'per_diem', label: 'Per Diems', kind: 'expense' },
+  { value: 'crew', label: 'Crew Pay', kind: 'expense' },
+  { value: 'other', label: 'Other', kind: 'expense' },
+];
+
+// Expense categories that count against each budget category; the rest are 'other'
+const EXPENSE_CATEGORY_BUDGETS: Record<string, TourBudgetCategory> = {
+  Travel: 'fuel',
+  Lodging: 'lodging',
+  Meals: 'per_diem',
+  'Professional Fees': 'crew',
+};
+
+interface BudgetLineInput {
+  gig_id: string | null;
+  category: string;
+  amount: number;
+}
+
+interface BudgetGig {
+  id: string;
+  title: string | null;
+  date: string;
+  gross_amount: number;
+  tips?: number;
+  other_income?: number | null;
+  fees?: number | null;
+  expenses?: Array<{ amount: number; category?: string | null }>;
+}
+
+interface BudgetAllocatedAmount {
+  amount: number;
+  allocation_mode: AllocationMode;
+  allocation_json: AllocationJson | null;
+}
+
+interface BudgetTourExpense extends BudgetAllocatedAmount {
+  category: string;
+}
+
+export interface TourBudgetInput {
+  budgetItems: BudgetLineInput[];
+  gigs: BudgetGig[];
+  settlements: BudgetAllocatedAmount[];
+  tourExpenses: BudgetTourExpense[];
+}
+
+/**
+ * Variance is projected against budget, positive when it's in the tour's
+ * favor (more income, lower costs, higher net)
+ */
+export interface BudgetFigures {
+  budget: number;
+  actual: number;
+  projected: number;
+  variance: number;
+}
+
+export interface TourBudgetCategoryLine extends BudgetFigures {
+  category: TourBudgetCategory;
+  label: string;
+  kind: 'income' | 'expense';
+}
+
+export interface TourBudgetShow {
+  gigId: string;
+  title: string;
+  date: string;
+  played: boolean;
+  income: BudgetFigures;
+  expenses: BudgetFigures;
+  net: BudgetFigures;
+}
+
+export interface TourBudgetReport {
+  categories: TourBudgetCategoryLine[];
+  shows: TourBudgetShow[];
+  income: BudgetFigures;
+  expenses: BudgetFigures;
+  net: BudgetFigures;
+  hasBudget: boolean;
+}
+
+const TOUR_SCOPE = 'tour';
+
+type Cell = { budget: number; actual: number };
+
+export function getBudgetCategoryForExpense(category: string | null | undefined): TourBudgetCategory {
+  return (category && EXPENSE_CATEGORY_BUDGETS[category]) || 'other';
+}
+
+function isIncome(category: TourBudgetCategory): boolean {
+  return category === 'guarantee';
+}
+
+function figures(budget: number, actual: number, projected: number, kind: 'income' | 'expense'): BudgetFigures {
+  return {
+    budget,
+    actual,
+    projected,
+    variance: kind === 'income' ? projected - budget : budget - projected,
+  };
+}
+
+function sumFigures(items: BudgetFigures[], kind: 'income' | 'expense'): BudgetFigures {
+  const budget = items.reduce((sum, f) => sum + f.budget, 0);
+  const actual = items.reduce((sum, f) => sum + f.actual, 0);
+  const projected = items.reduce((sum, f) => sum + f.projected, 0);
+  return figures(budget, actual, projected, kind);
+}
+
+function netFigures(income: BudgetFigures, expenses: BudgetFigures): BudgetFigures {
+  return figures(
+    income.budget - expenses.budget,
+    income.actual - expenses.actual,
+    income.projected - expenses.projected,
+    'income'
+  );
+}
+
+/**
+ * Compare a tour's budget with its actuals, per category and per show
+ *
+ * Actual income for a show is what settlements allocate to it, or the
+ * gig's own gross, tips and other income when no settlement covers it.
+ * Costs come from the gig's expenses and fees and from tour expenses by
+ * their allocation. Amounts a settlement or tour expense doesn't allocate
+ * to a show count at the tour level.
+ *
+ * Projected figures use actuals for shows already played and the larger of
+ * budget or actual-so-far for shows still to come. Tour-level lines are
+ * projected the same way until the last show has been played.
+ */
+export function buildTourBudgetReport(input: TourBudgetInput, today: string = getTodayDateString()): TourBudgetReport {
+  const gigIds = new Set(input.gigs.map((gig) => gig.id));
+  const cells = new Map<string, Map<TourBudgetCategory, Cell>>();
+
+  const cell = (scope: string, category: TourBudgetCategory): Cell => {
+    let scopeCells = cells.get(scope);
+    if (!scopeCells) {
+      scopeCells = new Map();
+      cells.set(scope, scopeCells);
+    }
+    let entry = scopeCells.get(category);
+    if (!entry) {
+      entry = { budget: 0, actual: 0 };
+      scopeCells.set(category, entry);
+    }
+    return entry;
+  };
+
+  const addAllocated = (item: BudgetAllocatedAmount, category: TourBudgetCategory) => {
+    const allocations = calculateAllocation(item.amount, input.gigs, item.allocation_mode, item.allocation_json ?? undefined);
+    let allocated = 0;
+    Object.entries(allocations).forEach(([gigId, amount]) => {
+      if (gigIds.has(gigId)) {
+        cell(gigId, category).actual += amount;
+        allocated += amount;
+      }
+    });
+    const remainder = item.amount - allocated;
+    if (Math.abs(remainder) > 0.005) {
+      cell(TOUR_SCOPE, category).actual += remainder;
+    }
+  };
+
+  input.budgetItems.forEach((item) => {
+    const category = (TOUR_BUDGET_CATEGORIES.some((c) => c.value === item.category)
+      ? item.category
+      : 'other') as TourBudgetCategory;
+    const scope = item.gig_id && gigIds.has(item.gig_id) ? item.gig_id : TOUR_SCOPE;
+    cell(scope, category).budget += Number(item.amount) || 0;
+  });
+
+  input.settlements.forEach((settlement) => addAllocated(settlement, 'guarantee'));
+
+  input.gigs.forEach((gig) => {
+    const income = cell(gig.id, 'guarantee');
+    if (income.actual === 0) {
+      income.actual = (gig.gross_amount || 0) + (gig.tips || 0) + (gig.other_income || 0);
+    }
+    (gig.expenses ?? []).forEach((expense) => {
+      cell(gig.id, getBudgetCategoryForExpense(expense.category)).actual += expense.amount || 0;
+    });
+    if (gig.fees) {
+      cell(gig.id, 'other').actual += gig.fees;
+    }
+  });
+
+  input.tourExpenses.forEach((expense) => addAllocated(expense, getBudgetCategoryForExpense(expense.category)));
+
+  const playedGigs = new Set(input.gigs.filter((gig) => gig.date < today).map((gig) => gig.id));
+  const tourPlayed = input.gigs.length > 0 && playedGigs.size === input.gigs.length;
+  const isPlayed = (scope: string) => (scope === TOUR_SCOPE ? tourPlayed : playedGigs.has(scope));
+
+  const cellFigures = (scope: string, category: TourBudgetCategory): BudgetFigures => {
+    const entry = cells.get(scope)?.get(category) ?? { budget: 0, actual: 0 };
+    const projected = isPlayed(scope) ? entry.actual : Math.max(entry.budget, entry.actual);
+    return figures(entry.budget, entry.actual, projected, isIncome(category) ? 'income' : 'expense');
+  };
+
+  const scopes = [TOUR_SCOPE, ...input.gigs.map((gig) => gig.id)];
+
+  const categories: TourBudgetCategoryLine[] = TOUR_BUDGET_CATEGORIES.map((category) => ({
+    category: category.value,
+    label: category.label,
+    kind: category.kind,
+    ...sumFigures(scopes.map((scope) => cellFigures(scope, category.value)), category.kind),
+  }));
+
+  const expenseCategories = TOUR_BUDGET_CATEGORIES.filter((c) => c.kind === 'expense');
+
+  const shows: TourBudgetShow[] = [...input.gigs]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((gig) => {
+      const income = cellFigures(gig.id, 'guarantee');
+      const expenses = sumFigures(expenseCategories.map((c) => cellFigures(gig.id, c.value)), 'expense');
+      return {
+        gigId: gig.id,
+        title: gig.title || 'Untitled Gig',
+        date: gig.date,
+        played: playedGigs.has(gig.id),
+        income,
+        expenses,
+        net: netFigures(income, expenses),
+      };
+    });
+
+  const income = sumFigures(categories.filter((c) => c.kind === 'income'), 'income');
+  const expenses = sumFigures(categories.filter((c) => c.kind === 'expense'), 'expense');
+
+  return {
+    categories,
+    shows,
+    income,
+    expenses,
+    net: netFigures(income, expenses),
+    hasBudget: input.budgetItems.length > 0,
+  };
+}
@@ -0,0 +1,91 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { createServiceClient, errorResponse, FunctionHttpError, getAuthenticatedUser, jsonResponse } from '../_shared/auth.ts'
+import { getCorsHeaders } from '../_shared/cors.ts'
+
+// Online invoice payments settle to the musician's own Stripe Express
+// account (destination charges in api/invoices/checkout.ts). This creates
+// the account on first use and returns a link to finish onboarding, or to
+// the Express dashboard once the account can take charges.
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY_PROD') || Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+})
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'https://bozzygigs.com'
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) })
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req)
+    const supabase = createServiceClient()
+
+    const { data: existing, error: existingError } = await supabase
+      .from('stripe_connect_accounts')
+      .select('stripe_account_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (existingError) throw existingError
+
+    let accountId: string = existing?.stripe_account_id
+    if (!accountId) {
+      const account = await stripe.accounts.create({
+        type: 'express',
+        email: user.email,
+        metadata: { user_id: user.id },
+        capabilities: {
+          card_payments: { requested: true },
+          transfers: { requested: true },
+          us_bank_account_ach_payments: { requested: true },
+        },
+      })
+
+      const { error: insertError } = await supabase
+        .from('stripe_connect_accounts')
+        .insert({ user_id: user.id, stripe_account_id: account.id })
+
+      if (insertError) {
+        // A concurrent request already linked an account; use that one
+        if (insertError.code === '23505') {
+          throw new FunctionHttpError('Stripe setup is already in progress. Try again.', 409)
+        }
+        throw insertError
+      }
+
+      accountId = account.id
+    }
+
+    const account = await stripe.accounts.retrieve(accountId)
+    await supabase
+      .from('stripe_connect_accounts')
+      .update({
+        charges_enabled: account.charges_enabled,
+        details_submitted: account.details_submitted,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', user.id)
+
+    if (account.charges_enabled) {
+      const loginLink = await stripe.accounts.createLoginLink(accountId)
+      return jsonResponse({ url: loginLink.url, chargesEnabled: true }, 200, req)
+    }
+
+    const accountLink = await stripe.accountLinks.create({
+      account: accountId,
+      type: 'account_onboarding',
+      refresh_url: `${SITE_URL}/invoices?stripe=refresh`,
+      return_url: `${SITE_URL}/invoices?stripe=connected`,
+    })
+
+    return jsonResponse({ url: accountLink.url, chargesEnabled: false }, 200, req)
+  } catch (error) {
+    if (error instanceof FunctionHttpError) {
+      return jsonResponse({ error: error.message }, error.status, req)
+    }
+    return errorResponse(error, 'Error creating Stripe Connect link:')
+  }
+})
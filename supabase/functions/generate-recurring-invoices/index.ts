@@ -0,0 +1,234 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  addDays,
+  formatInvoiceNumber,
+  getDueRecurringRun,
+  getFollowingOccurrence,
+  getRecurringInvoiceTotals,
+} from '../../../src/utils/recurringInvoices.ts'
+import { isHomeCurrency } from '../../../src/utils/exchangeRates.ts'
+
+// Runs daily from pg_cron (see supabase/setup_recurring_invoices_cron.sql).
+// Bills at most one occurrence per schedule per run. Auto-send schedules are
+// emailed through send-invoice-email; if the email fails the invoice stays a
+// draft and the error is shown on the schedule.
+
+interface RecurringLineItem {
+  description: string
+  quantity: number
+  rate: number
+}
+
+// Latest imported rate on or before the run date, as in useInvoices
+async function lookupExchangeRate(supabase: SupabaseClient, userId: string, currency: string, runDate: string): Promise<number | null> {
+  if (isHomeCurrency(currency)) return 1
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('usd_per_unit')
+    .eq('user_id', userId)
+    .eq('currency', currency)
+    .lte('rate_date', runDate)
+    .order('rate_date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? Number(data.usd_per_unit) : null
+}
+
+function jsonResponse(payload: unknown, status: number = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+// Same compare-and-swap as getNextInvoiceNumber in useInvoiceSettings
+async function reserveInvoiceNumber(supabase: SupabaseClient, userId: string, year: number): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { data: settings, error: settingsError } = await supabase
+      .from('invoice_settings')
+      .select('invoice_prefix, next_invoice_number')
+      .eq('user_id', userId)
+      .single()
+
+    if (settingsError || !settings) {
+      throw new Error('Invoice settings not initialized')
+    }
+
+    const { data: updatedRows, error: updateError } = await supabase
+      .from('invoice_settings')
+      .update({ next_invoice_number: settings.next_invoice_number + 1 })
+      .eq('user_id', userId)
+      .eq('next_invoice_number', settings.next_invoice_number)
+      .select('next_invoice_number')
+
+    if (updateError) throw updateError
+
+    if (updatedRows && updatedRows.length > 0) {
+      return formatInvoiceNumber(settings.invoice_prefix, year, settings.next_invoice_number)
+    }
+  }
+
+  throw new Error('Could not reserve invoice number')
+}
+
+serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const today = new Date().toISOString().slice(0, 10)
+
+    const { data: schedules, error: schedulesError } = await supabase
+      .from('recurring_invoices')
+      .select('*')
+      .eq('is_paused', false)
+      .lte('next_run_date', today)
+
+    if (schedulesError) throw schedulesError
+
+    let generated = 0
+    let sent = 0
+    let failed = 0
+
+    for (const schedule of schedules || []) {
+      const runDate = getDueRecurringRun(schedule, today)
+      if (!runDate) continue
+
+      const advance = (lastError: string | null) => supabase
+        .from('recurring_invoices')
+        .update({
+          next_run_date: getFollowingOccurrence(schedule, runDate),
+          last_run_date: runDate,
+          last_error: lastError,
+        })
+        .eq('id', schedule.id)
+
+      let invoiceId: string
+      let invoiceNumber: string
+      try {
+        const lineItems = (schedule.line_items || []) as RecurringLineItem[]
+        const totals = getRecurringInvoiceTotals(lineItems, schedule.tax_rate, schedule.discount_amount)
+        invoiceNumber = await reserveInvoiceNumber(supabase, schedule.user_id, Number(runDate.slice(0, 4)))
+        const exchangeRate = await lookupExchangeRate(supabase, schedule.user_id, schedule.currency, runDate)
+
+        const { data: invoice, error: invoiceError } = await supabase
+          .from('invoices')
+          .insert({
+            user_id: schedule.user_id,
+            client_id: schedule.client_id,
+            client_name: schedule.client_name,
+            client_email: schedule.client_email,
+            client_company: schedule.client_company,
+            client_address: schedule.client_address,
+            invoice_number: invoiceNumber,
+            invoice_date: runDate,
+            due_date: addDays(runDate, schedule.due_in_days),
+            status: 'draft',
+            subtotal: totals.subtotal,
+            tax_rate: schedule.tax_rate,
+            tax_amount: totals.taxAmount,
+            discount_amount: totals.discountAmount,
+            total_amount: totals.totalAmount,
+            currency: schedule.currency,
+            exchange_rate: exchangeRate,
+            payment_terms: schedule.payment_terms,
+            notes: schedule.notes,
+            private_notes: schedule.private_notes,
+            accepted_payment_methods: schedule.accepted_payment_methods,
+            reminder_schedule: schedule.reminder_schedule,
+            recurring_invoice_id: schedule.id,
+            recurring_run_date: runDate,
+          })
+          .select('id')
+          .single()
+
+        if (invoiceError) {
+          // Already billed by an earlier, interrupted run
+          if (invoiceError.code === '23505') {
+            await advance(null)
+            continue
+          }
+          throw invoiceError
+        }
+
+        invoiceId = invoice.id
+
+        const { error: lineItemsError } = await supabase
+          .from('invoice_line_items')
+          .insert(lineItems.map((item, index) => ({
+            invoice_id: invoiceId,
+            description: item.description,
+            quantity: Number(item.quantity),
+            rate: Number(item.rate),
+            amount: Math.round(Number(item.quantity) * Number(item.rate) * 100 + Number.EPSILON) / 100,
+            sort_order: index,
+          })))
+
+        if (lineItemsError) {
+          await supabase.from('invoices').delete().eq('id', invoiceId)
+          throw lineItemsError
+        }
+      } catch (error) {
+        failed++
+        const errorMessage = error instanceof Error ? error.message : 'Failed to generate invoice'
+        console.error(`Recurring invoice ${schedule.id} failed:`, errorMessage)
+        await supabase
+          .from('recurring_invoices')
+          .update({ last_error: errorMessage })
+          .eq('id', schedule.id)
+        continue
+      }
+
+      generated++
+
+      if (schedule.send_mode !== 'auto_send' || !schedule.client_email) {
+        await advance(schedule.send_mode === 'auto_send' ? 'No client email — saved as a draft' : null)
+        continue
+      }
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-invoice-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify({
+          invoiceId,
+          recipientEmail: schedule.client_email,
+          message: `Hi ${schedule.client_name},\n\nPlease find attached invoice ${invoiceNumber} for your review.\n\nThank you for your business!`,
+        }),
+      })
+
+      if (response.ok) {
+        sent++
+        await advance(null)
+        continue
+      }
+
+      const errorData = await response.json().catch(() => ({}))
+      const errorMessage = errorData.error || `Send failed with status ${response.status}`
+      console.error(`Sending recurring invoice ${invoiceId} failed:`, errorMessage)
+      await advance(`Saved as a draft — email failed: ${errorMessage}`)
+    }
+
+    console.log(`Recurring invoices: ${generated} generated, ${sent} sent, ${failed} failed`)
+    return jsonResponse({ success: true, generated, sent, failed })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
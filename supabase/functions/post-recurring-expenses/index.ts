@@ -0,0 +1,120 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createServiceClient, errorResponse, FunctionHttpError, getAuthenticatedUser, jsonResponse } from '../_shared/auth.ts'
+import { getCorsHeaders } from '../_shared/cors.ts'
+import { getDueRecurringExpenseDates } from '../../../src/utils/recurringExpenses.ts'
+import { mapUiToDbCategory } from '../../../src/lib/categoryMapping.ts'
+
+// Runs daily from pg_cron (see supabase/setup_recurring_expenses_cron.sql)
+// for every user, and from the app on open for the signed-in user so
+// missed periods are caught up even without the cron job. Each due date is
+// posted once: the unique (recurring_expense_id, recurring_due_date) index
+// drops repeats from overlapping or interrupted runs.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+// The app sends its local date; accept it only within a day of UTC so a
+// client clock can't post expenses early
+function resolveToday(requested: unknown): string {
+  const utcToday = new Date().toISOString().slice(0, 10)
+  if (typeof requested !== 'string' || !DATE_PATTERN.test(requested)) return utcToday
+  return requested >= addDays(utcToday, -1) && requested <= addDays(utcToday, 1) ? requested : utcToday
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const isScheduler = serviceRoleKey !== '' && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`
+    const userId = isScheduler ? null : (await getAuthenticatedUser(req)).id
+    const body = await req.json().catch(() => ({}))
+    const today = isScheduler ? new Date().toISOString().slice(0, 10) : resolveToday(body?.today)
+
+    const supabase = createServiceClient()
+
+    let query = supabase
+      .from('recurring_expenses')
+      .select('*')
+      .eq('is_active', true)
+      .neq('post_mode', 'manual')
+      .lte('next_due_date', today)
+
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data: rules, error: rulesError } = await query
+    if (rulesError) throw rulesError
+
+    let posted = 0
+    let drafts = 0
+    let failed = 0
+
+    for (const rule of rules || []) {
+      const { dates, nextDueDate } = getDueRecurringExpenseDates(rule, today)
+      if (dates.length === 0) continue
+
+      const category = mapUiToDbCategory(rule.category)
+      const isDraft = rule.post_mode === 'draft'
+
+      const { data: inserted, error: insertError } = await supabase
+        .from('expenses')
+        .upsert(dates.map((date) => ({
+          user_id: rule.user_id,
+          date,
+          category,
+          description: rule.name,
+          amount: rule.amount,
+          vendor: rule.vendor,
+          notes: rule.notes,
+          recurring_expense_id: rule.id,
+          recurring_due_date: date,
+          is_draft: isDraft,
+          meals_percent_allowed: category === 'Meals' ? 0.5 : null,
+        })), { onConflict: 'recurring_expense_id,recurring_due_date', ignoreDuplicates: true })
+        .select('id')
+
+      if (insertError) {
+        failed++
+        console.error(`Recurring expense ${rule.id} failed:`, insertError.message)
+        await supabase
+          .from('recurring_expenses')
+          .update({ last_error: insertError.message })
+          .eq('id', rule.id)
+        continue
+      }
+
+      const count = inserted?.length ?? 0
+      if (isDraft) drafts += count
+      else posted += count
+
+      // Only advance from the date this run started from, so a concurrent
+      // run can't move next_due_date backwards
+      await supabase
+        .from('recurring_expenses')
+        .update({
+          next_due_date: nextDueDate,
+          last_posted_date: dates[dates.length - 1],
+          last_error: null,
+        })
+        .eq('id', rule.id)
+        .eq('next_due_date', rule.next_due_date)
+    }
+
+    console.log(`Recurring expenses: ${posted} posted, ${drafts} drafts, ${failed} failed`)
+    return jsonResponse({ success: true, posted, drafts, failed }, 200, req)
+  } catch (error) {
+    if (error instanceof FunctionHttpError) {
+      return jsonResponse({ success: false, error: error.message }, error.status, req)
+    }
+    return errorResponse(error, 'Failed to post recurring expenses')
+  }
+})
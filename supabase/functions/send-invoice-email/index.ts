@@ -31,7 +31,8 @@ serve(async (req) => {
   }
 
   try {
-    const { invoiceId, recipientEmail, message } = await req.json()
+    const { invoiceId, recipientEmail, message, reminderOffsetDays } = await req.json()
+    const isReminder = typeof reminderOffsetDays === 'number'
 
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
@@ -41,25 +42,33 @@ serve(async (req) => {
       )
     }
 
-    // Validate caller identity with anon client
-    const authClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      {
-        global: {
-          headers: {
-            Authorization: authHeader,
+    // The reminder scheduler calls in with the service role key
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const isScheduler = serviceRoleKey !== '' && authHeader === `Bearer ${serviceRoleKey}`
+    let authUserId: string | null = null
+
+    if (!isScheduler) {
+      // Validate caller identity with anon client
+      const authClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? serviceRoleKey,
+        {
+          global: {
+            headers: {
+              Authorization: authHeader,
+            },
           },
-        },
-      }
-    )
-
-    const { data: { user: authUser }, error: authError } = await authClient.auth.getUser()
-    if (authError || !authUser) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+        }
       )
+
+      const { data: { user: authUser }, error: authError } = await authClient.auth.getUser()
+      if (authError || !authUser) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+        )
+      }
+      authUserId = authUser.id
     }
 
     // Create Supabase client
@@ -79,7 +88,7 @@ serve(async (req) => {
       throw new Error('Invoice not found')
     }
 
-    if (invoice.user_id !== authUser.id) {
+    if (!isScheduler && invoice.user_id !== authUserId) {
       return new Response(
         JSON.stringify({ error: 'Forbidden' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
@@ -136,7 +145,9 @@ serve(async (req) => {
         from: `${settings.business_name} via Bozzy <invoices@${resendDomain}>`,
         reply_to: settings.email,
         to: recipientEmail,
-        subject: `Invoice ${invoice.invoice_number} from ${settings.business_name}`,
+        subject: isReminder
+          ? `Reminder: Invoice ${invoice.invoice_number} from ${settings.business_name}`
+          : `Invoice ${invoice.invoice_number} from ${settings.business_name}`,
         html: invoiceHtml,
       }),
     })
@@ -147,6 +158,23 @@ serve(async (req) => {
     }
 
     const sentAt = new Date().toISOString()
+
+    if (isReminder) {
+      const { error: logError } = await supabaseClient
+        .from('invoice_reminders')
+        .insert({
+          invoice_id: invoiceId,
+          user_id: invoice.user_id,
+          offset_days: reminderOffsetDays,
+          recipient_email: recipientEmail,
+          status: 'sent',
+          sent_at: sentAt,
+        })
+
+      if (logError) {
+        console.error('Failed to log invoice reminder:', logError)
+      }
+    }
     const nextStatus = invoice.status === 'draft' ? 'sent' : invoice.status
     const nextInvoiceUpdate: Record<string, string> = {}
 
@@ -0,0 +1,147 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getDueReminderOffset,
+  getReminderMessage,
+  resolveReminderSchedule,
+} from '../../../src/utils/invoiceReminders.ts'
+import { calculateAmountOwed } from '../../../src/utils/invoicePaymentTerms.ts'
+
+// Runs daily from pg_cron (see supabase/setup_invoice_reminders_cron.sql).
+// Sends at most one reminder per invoice per run through send-invoice-email,
+// which logs each successful send to invoice_reminders. The amount quoted is
+// what is owed that day under the invoice's terms, so accrued late fees and
+// any early-payment discount are included.
+
+const REMINDABLE_STATUSES = ['sent', 'viewed', 'partially_paid', 'overdue']
+
+function roundCurrency(value: number): number {
+  const sign = value < 0 ? -1 : 1
+  const abs = Math.abs(value)
+  return sign * Math.round(abs * 100 + Number.EPSILON) / 100
+}
+
+function jsonResponse(payload: unknown, status: number = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const today = new Date().toISOString().slice(0, 10)
+
+    const { data: invoices, error: invoicesError } = await supabase
+      .from('invoices')
+      .select('id, user_id, invoice_number, client_name, client_email, invoice_date, due_date, status, total_amount, credited_amount, written_off_amount, currency, net_days, late_fee_type, late_fee_amount, early_discount_percent, early_discount_days, reminder_schedule, reminders_stopped_at, payments:invoice_payments(amount), line_items:invoice_line_items(amount, kind), reminders:invoice_reminders(offset_days, status)')
+      .in('status', REMINDABLE_STATUSES)
+      .not('client_email', 'is', null)
+      .is('reminders_stopped_at', null)
+
+    if (invoicesError) throw invoicesError
+
+    const userIds = [...new Set((invoices || []).map((invoice) => invoice.user_id))]
+    const { data: settingsRows, error: settingsError } = userIds.length > 0
+      ? await supabase
+        .from('invoice_settings')
+        .select('user_id, reminders_enabled, reminder_schedule')
+        .in('user_id', userIds)
+      : { data: [], error: null }
+
+    if (settingsError) throw settingsError
+
+    const settingsByUser = new Map((settingsRows || []).map((row) => [row.user_id, row]))
+
+    let sent = 0
+    let failed = 0
+
+    for (const invoice of invoices || []) {
+      const totalPaid = (invoice.payments || []).reduce((sum: number, p: { amount: number }) => sum + Number(p.amount || 0), 0)
+      const balanceDue = roundCurrency(
+        Number(invoice.total_amount || 0) - totalPaid
+          - Number(invoice.credited_amount || 0) - Number(invoice.written_off_amount || 0)
+      )
+      const reminderInvoice = { ...invoice, balance_due: balanceDue }
+
+      const schedule = resolveReminderSchedule(reminderInvoice, settingsByUser.get(invoice.user_id) ?? null)
+      if (schedule.length === 0) continue
+
+      const sentOffsets = (invoice.reminders || [])
+        .filter((r: { status: string }) => r.status === 'sent')
+        .map((r: { offset_days: number }) => r.offset_days)
+      const offset = getDueReminderOffset(reminderInvoice, schedule, sentOffsets, today)
+      if (offset === null) continue
+
+      const lateFeesApplied = (invoice.line_items || [])
+        .filter((item: { kind: string }) => item.kind === 'late_fee')
+        .reduce((sum: number, item: { amount: number }) => sum + Number(item.amount || 0), 0)
+      const { amountOwed } = calculateAmountOwed({
+        terms: invoice,
+        invoice_date: invoice.invoice_date,
+        due_date: invoice.due_date,
+        balance_due: balanceDue,
+        late_fees_applied: lateFeesApplied,
+      }, today)
+
+      const balanceText = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: invoice.currency || 'USD',
+      }).format(amountOwed)
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-invoice-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify({
+          invoiceId: invoice.id,
+          recipientEmail: invoice.client_email,
+          message: getReminderMessage(invoice, offset, balanceText),
+          reminderOffsetDays: offset,
+        }),
+      })
+
+      if (response.ok) {
+        sent++
+        continue
+      }
+
+      failed++
+      const errorData = await response.json().catch(() => ({}))
+      const errorMessage = errorData.error || `Send failed with status ${response.status}`
+      console.error(`Reminder for invoice ${invoice.id} failed:`, errorMessage)
+
+      await supabase
+        .from('invoice_reminders')
+        .insert({
+          invoice_id: invoice.id,
+          user_id: invoice.user_id,
+          offset_days: offset,
+          recipient_email: invoice.client_email,
+          status: 'failed',
+          error: errorMessage,
+        })
+    }
+
+    console.log(`Invoice reminders: ${sent} sent, ${failed} failed`)
+    return jsonResponse({ success: true, sent, failed })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
@@ -0,0 +1,7 @@
+-- Municipal / school district income tax selection on the tax profile.
+-- Values are jurisdiction codes from the app's tax config (e.g. 'OH-COLUMBUS',
+-- 'PA-PITTSBURGH-SD'); NULL means no local income tax beyond MD county / NYC / Yonkers.
+
+ALTER TABLE public.user_tax_profile
+ADD COLUMN IF NOT EXISTS local_jurisdiction TEXT,
+ADD COLUMN IF NOT EXISTS school_district TEXT;
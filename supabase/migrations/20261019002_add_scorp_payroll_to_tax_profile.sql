@@ -0,0 +1,11 @@
+-- S-Corp payroll settings on the tax profile (business_structure = 'llc_scorp').
+-- The owner's reasonable salary drives payroll FICA and withholding estimates;
+-- NULL means no salary set, so the app stays in tracking-only mode.
+
+ALTER TABLE public.user_tax_profile
+ADD COLUMN IF NOT EXISTS scorp_reasonable_salary NUMERIC(12, 2)
+  CHECK (scorp_reasonable_salary IS NULL OR scorp_reasonable_salary >= 0),
+ADD COLUMN IF NOT EXISTS scorp_payroll_frequency TEXT
+  CHECK (scorp_payroll_frequency IS NULL OR scorp_payroll_frequency IN (
+    'weekly', 'biweekly', 'semimonthly', 'monthly', 'quarterly', 'annually'
+  ));
@@ -0,0 +1,40 @@
+-- =====================================================================
+-- Estimated tax planner (Form 1040-ES safe harbor / Form 2210)
+-- =====================================================================
+-- 1. estimated_tax_plans - Prior-year figures the safe harbor is based on
+-- 2. estimated_tax_payments - Federal estimated payments actually made
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.estimated_tax_plans (
+  user_id        UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tax_year       INTEGER NOT NULL,
+  prior_year_tax NUMERIC(12,2) CHECK (prior_year_tax IS NULL OR prior_year_tax >= 0),
+  prior_year_agi NUMERIC(12,2),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, tax_year)
+);
+
+CREATE TABLE IF NOT EXISTS public.estimated_tax_payments (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tax_year   INTEGER NOT NULL,
+  quarter    SMALLINT NOT NULL CHECK (quarter BETWEEN 1 AND 4),
+  amount     NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  paid_on    DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.estimated_tax_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.estimated_tax_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own estimated tax plans" ON public.estimated_tax_plans
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own estimated tax payments" ON public.estimated_tax_payments
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_estimated_tax_payments_user_year
+  ON public.estimated_tax_payments(user_id, tax_year);
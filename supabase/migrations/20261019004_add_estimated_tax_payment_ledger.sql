@@ -0,0 +1,15 @@
+-- =====================================================================
+-- Estimated tax payment ledger
+-- =====================================================================
+-- Extends estimated_tax_payments with the jurisdiction paid (federal or a
+-- state) and the confirmation number from IRS Direct Pay / EFTPS / the
+-- state portal. Existing rows are federal payments.
+-- =====================================================================
+
+ALTER TABLE public.estimated_tax_payments
+  ADD COLUMN IF NOT EXISTS jurisdiction TEXT NOT NULL DEFAULT 'federal'
+    CHECK (jurisdiction = 'federal' OR jurisdiction ~ '^[A-Z]{2}$'),
+  ADD COLUMN IF NOT EXISTS confirmation_number TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_estimated_tax_payments_user_jurisdiction
+  ON public.estimated_tax_payments(user_id, tax_year, jurisdiction);
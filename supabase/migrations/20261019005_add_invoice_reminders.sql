@@ -0,0 +1,45 @@
+-- =====================================================================
+-- Overdue invoice reminders
+-- =====================================================================
+-- 1. invoice_settings - Default reminder cadence (days from the due date)
+-- 2. invoices - Per-invoice cadence override and the full-payment stop
+-- 3. invoice_reminders - Log of every reminder the scheduler sent
+--
+-- The send-invoice-reminders edge function runs daily (see
+-- setup_invoice_reminders_cron.sql) and sends through send-invoice-email.
+-- =====================================================================
+
+ALTER TABLE public.invoice_settings
+  ADD COLUMN IF NOT EXISTS reminders_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reminder_schedule INTEGER[] NOT NULL DEFAULT '{-3,0,7,14}';
+
+-- NULL uses the default from invoice_settings; an empty array turns reminders off
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS reminder_schedule INTEGER[],
+  ADD COLUMN IF NOT EXISTS reminders_stopped_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.invoice_reminders (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id      UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  user_id         UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  offset_days     INTEGER NOT NULL,
+  recipient_email TEXT NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'failed')),
+  error           TEXT,
+  sent_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One successful reminder per offset; failures are logged and retried next run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_reminders_sent_offset
+  ON public.invoice_reminders(invoice_id, offset_days)
+  WHERE status = 'sent';
+
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_user_id
+  ON public.invoice_reminders(user_id);
+
+ALTER TABLE public.invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only
+CREATE POLICY "Users can view reminders for their invoices" ON public.invoice_reminders
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- =====================================================================
+-- Online invoice payments
+-- =====================================================================
+-- Lets clients pay the balance of an invoice by card or ACH from the public
+-- invoice page (Stripe Checkout). The webhook records each paid session as
+-- an invoice_payments row, deduplicated through processed_stripe_events and
+-- the payment intent id in reference_number.
+-- =====================================================================
+
+ALTER TABLE public.invoice_settings
+  ADD COLUMN IF NOT EXISTS online_payments_enabled BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_reference_number
+  ON public.invoice_payments(invoice_id, reference_number)
+  WHERE reference_number IS NOT NULL;
@@ -0,0 +1,84 @@
+-- =====================================================================
+-- Recurring and retainer invoices
+-- =====================================================================
+-- 1. recurring_invoices - Bill-to, line items and cadence for invoices
+--    that repeat (monthly retainers, weekly lessons, residencies)
+-- 2. invoices - Link back to the schedule and the occurrence it billed
+--
+-- The generate-recurring-invoices edge function runs daily (see
+-- setup_recurring_invoices_cron.sql), numbers each invoice from
+-- invoice_settings.next_invoice_number, and either leaves it as a draft
+-- or emails it through send-invoice-email.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoices (
+  id                       UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id                  UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id                UUID REFERENCES public.payers(id) ON DELETE SET NULL,
+  client_name              TEXT NOT NULL,
+  client_email             TEXT,
+  client_company           TEXT,
+  client_address           TEXT,
+  -- [{ description, quantity, rate }]
+  line_items               JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tax_rate                 DECIMAL(5, 2),
+  discount_amount          DECIMAL(10, 2),
+  currency                 TEXT NOT NULL DEFAULT 'USD',
+  payment_terms            TEXT,
+  due_in_days              INTEGER NOT NULL DEFAULT 30 CHECK (due_in_days >= 0),
+  notes                    TEXT,
+  private_notes            TEXT,
+  accepted_payment_methods JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reminder_schedule        INTEGER[],
+  frequency                TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date               DATE NOT NULL,
+  end_date                 DATE,
+  -- NULL once the schedule has ended
+  next_run_date            DATE,
+  send_mode                TEXT NOT NULL DEFAULT 'draft' CHECK (send_mode IN ('draft', 'auto_send')),
+  is_paused                BOOLEAN NOT NULL DEFAULT false,
+  last_run_date            DATE,
+  last_error               TEXT,
+  created_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT recurring_invoices_end_after_start CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_user_id
+  ON public.recurring_invoices(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_next_run
+  ON public.recurring_invoices(next_run_date)
+  WHERE is_paused = false;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS recurring_invoice_id UUID REFERENCES public.recurring_invoices(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurring_run_date DATE;
+
+-- A generator retry never bills the same occurrence twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_recurring_run
+  ON public.invoices(recurring_invoice_id, recurring_run_date)
+  WHERE recurring_invoice_id IS NOT NULL;
+
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring invoices"
+  ON public.recurring_invoices FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own recurring invoices"
+  ON public.recurring_invoices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring invoices"
+  ON public.recurring_invoices FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring invoices"
+  ON public.recurring_invoices FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_invoices_updated_at
+BEFORE UPDATE ON public.recurring_invoices
+FOR EACH ROW
+EXECUTE FUNCTION update_invoice_updated_at();
@@ -0,0 +1,65 @@
+-- =====================================================================
+-- Invoice line items linked to gigs
+-- =====================================================================
+-- An invoice built from several gigs has one line item per gig. When the
+-- invoice is paid in full the linked gigs are marked paid with the payment
+-- method of the latest payment; if a payment is deleted and the invoice is
+-- no longer paid, the gigs go back to unpaid.
+-- =====================================================================
+
+ALTER TABLE public.invoice_line_items
+  ADD COLUMN IF NOT EXISTS gig_id UUID REFERENCES public.gigs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_gig_id
+  ON public.invoice_line_items(gig_id)
+  WHERE gig_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION sync_invoice_gigs_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest_method TEXT;
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    SELECT payment_method
+    INTO latest_method
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id
+    ORDER BY payment_date DESC, created_at DESC
+    LIMIT 1;
+
+    -- Gig payment methods are a shorter list than invoice payment methods
+    UPDATE gigs
+    SET
+      paid = true,
+      payment_method = CASE latest_method
+        WHEN 'Cash' THEN 'Cash'
+        WHEN 'Check' THEN 'Check'
+        WHEN 'Venmo' THEN 'Venmo'
+        WHEN 'Cash App' THEN 'CashApp'
+        WHEN 'Zelle' THEN 'Direct Deposit'
+        WHEN 'Wire Transfer' THEN 'Direct Deposit'
+        ELSE 'Other'
+      END,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id
+      AND id IN (
+        SELECT gig_id FROM invoice_line_items WHERE invoice_id = NEW.id AND gig_id IS NOT NULL
+      );
+  ELSIF OLD.status = 'paid' AND NEW.status IS DISTINCT FROM 'paid' THEN
+    UPDATE gigs
+    SET paid = false, updated_at = NOW()
+    WHERE user_id = NEW.user_id
+      AND id IN (
+        SELECT gig_id FROM invoice_line_items WHERE invoice_id = NEW.id AND gig_id IS NOT NULL
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_invoice_gigs_paid_on_status_change ON public.invoices;
+CREATE TRIGGER sync_invoice_gigs_paid_on_status_change
+AFTER UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION sync_invoice_gigs_paid();
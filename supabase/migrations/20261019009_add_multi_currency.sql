@@ -0,0 +1,61 @@
+-- =====================================================================
+-- Multi-currency gigs, expenses and invoices
+-- =====================================================================
+-- 1. exchange_rates - Per-user table of USD rates by currency and date,
+--    imported from a CSV so conversion works without a rates API
+-- 2. gigs / expenses - The currency the money was earned or spent in and
+--    the rate on the transaction date. Amount columns stay in USD so
+--    totals, tax estimates and exports keep adding up; the original
+--    amount is amount / exchange_rate.
+-- 3. invoices - Amounts stay in the invoice currency (what the client
+--    sees); exchange_rate converts them to USD. NULL means a non-USD
+--    invoice has no rate yet.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  currency     TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_date    DATE NOT NULL,
+  -- US dollars per one unit of currency
+  usd_per_unit NUMERIC(18, 8) NOT NULL CHECK (usd_per_unit > 0),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT exchange_rates_user_currency_date_key UNIQUE (user_id, currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+  ON public.exchange_rates(user_id, currency, rate_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates"
+  ON public.exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own exchange rates"
+  ON public.exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+  ON public.exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+  ON public.exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE public.gigs
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8) DEFAULT 1 CHECK (exchange_rate IS NULL OR exchange_rate > 0);
+
+-- Existing non-USD invoices have no known rate
+UPDATE public.invoices
+SET exchange_rate = NULL
+WHERE currency <> 'USD';
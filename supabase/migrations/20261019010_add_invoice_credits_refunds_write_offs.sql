@@ -0,0 +1,261 @@
+-- =====================================================================
+-- Credit notes, refunds and bad-debt write-offs
+-- =====================================================================
+-- 1. invoice_credit_notes - Credit memos issued against an invoice. They
+--    reduce what the client owes; invoices.credited_amount is their total.
+-- 2. invoice_payments - A negative amount is a refund of money received.
+--    Refunds can't take the net amount paid below zero.
+-- 3. invoices.written_off_* - Writing off the open balance as a bad debt
+--    closes the invoice with status 'written_off'.
+--
+-- Balance due = total_amount - net payments - credited_amount
+--               - written_off_amount
+-- A credit note on a paid invoice leaves a negative balance (credit owed
+-- to the client) until it is refunded.
+-- =====================================================================
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('draft', 'sent', 'viewed', 'partially_paid', 'paid', 'overdue', 'cancelled', 'written_off'));
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS credited_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS written_off_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (written_off_amount >= 0),
+  ADD COLUMN IF NOT EXISTS written_off_on DATE,
+  ADD COLUMN IF NOT EXISTS write_off_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS public.invoice_credit_notes (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id    UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  credit_number TEXT NOT NULL,
+  issue_date    DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount        NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  reason        TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT invoice_credit_notes_user_number_key UNIQUE (user_id, credit_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_credit_notes_invoice_id
+  ON public.invoice_credit_notes(invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_credit_notes_user_issue_date
+  ON public.invoice_credit_notes(user_id, issue_date);
+
+ALTER TABLE public.invoice_credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit notes"
+  ON public.invoice_credit_notes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own credit notes"
+  ON public.invoice_credit_notes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own credit notes"
+  ON public.invoice_credit_notes FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own credit notes"
+  ON public.invoice_credit_notes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ---------------------------------------------------------------------
+-- Status: settled invoices are paid, or written off when a write-off
+-- closed them. Shared by the payment, credit note and write-off triggers.
+-- ---------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_invoice_status(target_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  total_paid NUMERIC(12,2);
+  inv RECORD;
+  next_status TEXT;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0)
+  INTO total_paid
+  FROM invoice_payments
+  WHERE invoice_id = target_invoice_id;
+
+  SELECT total_amount, credited_amount, written_off_amount, due_date, sent_at, viewed_at, status
+  INTO inv
+  FROM invoices
+  WHERE id = target_invoice_id;
+
+  IF NOT FOUND OR inv.total_amount IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF inv.written_off_amount > 0
+    AND total_paid + inv.credited_amount + inv.written_off_amount >= inv.total_amount THEN
+    next_status := 'written_off';
+  ELSIF total_paid + inv.credited_amount >= inv.total_amount AND inv.total_amount > 0 THEN
+    next_status := 'paid';
+  ELSIF total_paid > 0 OR inv.credited_amount > 0 THEN
+    next_status := CASE
+      WHEN inv.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'partially_paid'
+    END;
+  ELSE
+    next_status := CASE
+      WHEN inv.due_date < CURRENT_DATE AND (inv.sent_at IS NOT NULL OR inv.viewed_at IS NOT NULL) THEN 'overdue'
+      WHEN inv.viewed_at IS NOT NULL THEN 'viewed'
+      WHEN inv.sent_at IS NOT NULL THEN 'sent'
+      ELSE 'draft'
+    END;
+  END IF;
+
+  UPDATE invoices
+  SET
+    status = next_status,
+    paid_at = CASE
+      WHEN next_status = 'paid' THEN COALESCE(paid_at, NOW())
+      ELSE NULL
+    END,
+    updated_at = NOW()
+  WHERE id = target_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_invoice_status_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_invoice_status(COALESCE(NEW.invoice_id, OLD.invoice_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------
+-- Payments and refunds
+-- ---------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION validate_invoice_payment_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  inv RECORD;
+  total_paid_excluding_current NUMERIC(12,2);
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.amount IS NULL OR NEW.amount = 0 THEN
+      RAISE EXCEPTION 'Payment amount must not be zero';
+    END IF;
+
+    SELECT total_amount, status, credited_amount, written_off_amount
+    INTO inv
+    FROM invoices
+    WHERE id = NEW.invoice_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR inv.total_amount IS NULL THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+
+    IF NEW.amount > 0 AND inv.status IN ('cancelled', 'written_off') THEN
+      RAISE EXCEPTION 'Cannot record payments for a % invoice', replace(inv.status, '_', ' ');
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0)
+    INTO total_paid_excluding_current
+    FROM invoice_payments
+    WHERE invoice_id = NEW.invoice_id
+      AND (TG_OP <> 'UPDATE' OR id <> NEW.id);
+
+    IF NEW.amount < 0 AND total_paid_excluding_current + NEW.amount < 0 THEN
+      RAISE EXCEPTION 'Refund amount exceeds the amount paid';
+    END IF;
+
+    IF NEW.amount > 0
+      AND total_paid_excluding_current + NEW.amount
+        > inv.total_amount - inv.credited_amount - inv.written_off_amount THEN
+      RAISE EXCEPTION 'Payment amount exceeds the remaining invoice balance';
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------
+-- Credit notes
+-- ---------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION validate_invoice_credit_note_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  inv RECORD;
+  credited_excluding_current NUMERIC(12,2);
+BEGIN
+  SELECT total_amount, status, written_off_amount
+  INTO inv
+  FROM invoices
+  WHERE id = NEW.invoice_id
+    AND user_id = NEW.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF inv.status IN ('draft', 'cancelled') THEN
+    RAISE EXCEPTION 'Credit notes can only be issued against a sent invoice';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO credited_excluding_current
+  FROM invoice_credit_notes
+  WHERE invoice_id = NEW.invoice_id
+    AND (TG_OP <> 'UPDATE' OR id <> NEW.id);
+
+  IF credited_excluding_current + NEW.amount > inv.total_amount - inv.written_off_amount THEN
+    RAISE EXCEPTION 'Credits cannot exceed the invoice total';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_invoice_credit_note_before_change ON public.invoice_credit_notes;
+CREATE TRIGGER validate_invoice_credit_note_before_change
+BEFORE INSERT OR UPDATE ON public.invoice_credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION validate_invoice_credit_note_change();
+
+CREATE OR REPLACE FUNCTION sync_invoice_credited_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_invoice_id UUID := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+  UPDATE invoices
+  SET credited_amount = (
+    SELECT COALESCE(SUM(amount), 0)
+    FROM invoice_credit_notes
+    WHERE invoice_id = target_invoice_id
+  )
+  WHERE id = target_invoice_id;
+
+  PERFORM refresh_invoice_status(target_invoice_id);
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_invoice_credited_amount_on_change ON public.invoice_credit_notes;
+CREATE TRIGGER sync_invoice_credited_amount_on_change
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION sync_invoice_credited_amount();
+
+-- ---------------------------------------------------------------------
+-- Write-offs
+-- ---------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_invoice_status_on_write_off()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_invoice_status(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_invoice_status_on_write_off ON public.invoices;
+CREATE TRIGGER refresh_invoice_status_on_write_off
+AFTER UPDATE OF written_off_amount ON public.invoices
+FOR EACH ROW
+WHEN (OLD.written_off_amount IS DISTINCT FROM NEW.written_off_amount)
+EXECUTE FUNCTION refresh_invoice_status_on_write_off();
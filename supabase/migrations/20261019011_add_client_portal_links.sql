@@ -0,0 +1,34 @@
+-- =====================================================================
+-- Client portal links
+-- =====================================================================
+-- A per-payer token that shows the client every sent invoice from the
+-- user along with a statement of account. Links can be revoked
+-- (is_active = false) and expire like shared_schedule_links.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.client_portal_links (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payer_id      UUID NOT NULL REFERENCES public.payers(id) ON DELETE CASCADE,
+  token         TEXT NOT NULL UNIQUE,
+  expires_at    TIMESTAMPTZ,
+  is_active     BOOLEAN NOT NULL DEFAULT true,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_accessed TIMESTAMPTZ,
+  access_count  INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_portal_links_token
+  ON public.client_portal_links (token)
+  WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_client_portal_links_user_payer
+  ON public.client_portal_links (user_id, payer_id);
+
+ALTER TABLE public.client_portal_links
+  ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own client portal links"
+  ON public.client_portal_links
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,72 @@
+-- =====================================================================
+-- Structured payment terms: late fees and early-payment discounts
+-- =====================================================================
+-- 1. invoice_settings - Default net days, late fee and early-payment
+--    discount. default_payment_terms stays as the display label.
+-- 2. invoices - Terms snapshot taken when the invoice is saved, so later
+--    changes to settings don't rewrite terms a client already agreed to.
+-- 3. invoice_line_items.kind - 'late_fee' marks a fee applied to an overdue
+--    invoice. Late fees are not taxed and are never billed to a gig.
+--
+-- late_fee_type 'flat' charges late_fee_amount once; 'percent' charges
+-- late_fee_amount percent of the unpaid balance per month late.
+-- "2/10 net 30" is early_discount_percent 2, early_discount_days 10,
+-- net_days 30.
+-- =====================================================================
+
+ALTER TABLE public.invoice_settings
+  ADD COLUMN IF NOT EXISTS default_net_days INTEGER NOT NULL DEFAULT 30
+    CHECK (default_net_days BETWEEN 0 AND 365),
+  ADD COLUMN IF NOT EXISTS late_fee_type TEXT NOT NULL DEFAULT 'none'
+    CHECK (late_fee_type IN ('none', 'flat', 'percent')),
+  ADD COLUMN IF NOT EXISTS late_fee_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (late_fee_amount >= 0),
+  ADD COLUMN IF NOT EXISTS early_discount_percent NUMERIC(5,2) NOT NULL DEFAULT 0
+    CHECK (early_discount_percent >= 0 AND early_discount_percent <= 100),
+  ADD COLUMN IF NOT EXISTS early_discount_days INTEGER NOT NULL DEFAULT 0
+    CHECK (early_discount_days BETWEEN 0 AND 365);
+
+-- NULL net_days is a legacy invoice; its due date still applies
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS net_days INTEGER CHECK (net_days BETWEEN 0 AND 365),
+  ADD COLUMN IF NOT EXISTS late_fee_type TEXT NOT NULL DEFAULT 'none'
+    CHECK (late_fee_type IN ('none', 'flat', 'percent')),
+  ADD COLUMN IF NOT EXISTS late_fee_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (late_fee_amount >= 0),
+  ADD COLUMN IF NOT EXISTS early_discount_percent NUMERIC(5,2) NOT NULL DEFAULT 0
+    CHECK (early_discount_percent >= 0 AND early_discount_percent <= 100),
+  ADD COLUMN IF NOT EXISTS early_discount_days INTEGER NOT NULL DEFAULT 0
+    CHECK (early_discount_days BETWEEN 0 AND 365);
+
+ALTER TABLE public.invoice_line_items
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'item'
+    CHECK (kind IN ('item', 'late_fee'));
+
+-- ---------------------------------------------------------------------
+-- Backfill from the free-text terms ("Net 45", "Due on Receipt",
+-- "2/10 net 30")
+-- ---------------------------------------------------------------------
+UPDATE public.invoice_settings
+SET default_net_days = CASE
+    WHEN lower(trim(default_payment_terms)) IN ('due on receipt', 'due upon receipt') THEN 0
+    ELSE LEAST(substring(lower(default_payment_terms) FROM 'net\s*(\d+)')::INTEGER, 365)
+  END
+WHERE lower(trim(default_payment_terms)) IN ('due on receipt', 'due upon receipt')
+   OR lower(default_payment_terms) ~ 'net\s*\d+';
+
+UPDATE public.invoice_settings
+SET early_discount_percent = substring(lower(default_payment_terms) FROM '^\s*(\d+(?:\.\d+)?)\s*/\s*\d+\s*,?\s*net')::NUMERIC,
+    early_discount_days = substring(lower(default_payment_terms) FROM '^\s*\d+(?:\.\d+)?\s*/\s*(\d+)\s*,?\s*net')::INTEGER
+WHERE lower(default_payment_terms) ~ '^\s*\d+(\.\d+)?\s*/\s*\d+\s*,?\s*net\s*\d+'
+  AND substring(lower(default_payment_terms) FROM '^\s*(\d+(?:\.\d+)?)\s*/')::NUMERIC <= 100
+  AND substring(lower(default_payment_terms) FROM '/\s*(\d+)')::INTEGER <= 365;
+
+UPDATE public.invoices
+SET net_days = due_date - invoice_date
+WHERE net_days IS NULL
+  AND due_date - invoice_date BETWEEN 0 AND 365;
+
+UPDATE public.invoices
+SET early_discount_percent = substring(lower(payment_terms) FROM '^\s*(\d+(?:\.\d+)?)\s*/\s*\d+\s*,?\s*net')::NUMERIC,
+    early_discount_days = substring(lower(payment_terms) FROM '^\s*\d+(?:\.\d+)?\s*/\s*(\d+)\s*,?\s*net')::INTEGER
+WHERE lower(payment_terms) ~ '^\s*\d+(\.\d+)?\s*/\s*\d+\s*,?\s*net\s*\d+'
+  AND substring(lower(payment_terms) FROM '^\s*(\d+(?:\.\d+)?)\s*/')::NUMERIC <= 100
+  AND substring(lower(payment_terms) FROM '/\s*(\d+)')::INTEGER <= 365;
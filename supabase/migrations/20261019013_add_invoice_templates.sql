@@ -0,0 +1,49 @@
+-- =====================================================================
+-- Saved invoice templates
+-- =====================================================================
+-- 1. invoice_templates - Named layouts ('classic', 'minimal', 'press_kit')
+--    with a color scheme, font style and the optional fields to print.
+-- 2. invoice_settings.default_template_id - Template for new invoices.
+-- 3. invoices.template_id - Template the invoice renders with. NULL falls
+--    back to the default template, then to the legacy color_scheme /
+--    font_style / layout_style settings.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.invoice_templates (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id            UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name               TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  layout             TEXT NOT NULL DEFAULT 'classic'
+    CHECK (layout IN ('classic', 'minimal', 'press_kit')),
+  color_scheme       TEXT NOT NULL DEFAULT 'blue',
+  font_style         TEXT NOT NULL DEFAULT 'modern',
+  show_tax_id        BOOLEAN NOT NULL DEFAULT true,
+  show_payment_qr    BOOLEAN NOT NULL DEFAULT false,
+  show_payment_terms BOOLEAN NOT NULL DEFAULT true,
+  show_gig_details   BOOLEAN NOT NULL DEFAULT false,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_templates_user
+  ON public.invoice_templates (user_id);
+
+ALTER TABLE public.invoice_templates
+  ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own invoice templates"
+  ON public.invoice_templates
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE public.invoice_settings
+  ADD COLUMN IF NOT EXISTS default_template_id UUID
+    REFERENCES public.invoice_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS template_id UUID
+    REFERENCES public.invoice_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_template
+  ON public.invoices (template_id)
+  WHERE template_id IS NOT NULL;
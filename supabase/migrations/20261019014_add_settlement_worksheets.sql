@@ -0,0 +1,22 @@
+-- =====================================================================
+-- Settlement worksheets
+-- =====================================================================
+-- A settlement can now carry the deal it was worked out from:
+--
+-- 1. gig_id    - The show being settled. NULL for a tour-level payout.
+-- 2. worksheet - Deal inputs (guarantee, door percentage, ticket counts,
+--                house expenses, bonus tiers, merch split) and the names
+--                on the sign-off. amount holds the computed payout.
+-- 3. signed_off_at - When both sides signed off on the sheet.
+-- =====================================================================
+
+ALTER TABLE public.settlements
+  ADD COLUMN IF NOT EXISTS gig_id UUID REFERENCES public.gigs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS worksheet JSONB,
+  ADD COLUMN IF NOT EXISTS signed_off_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_settlements_gig_id
+  ON public.settlements (gig_id)
+  WHERE gig_id IS NOT NULL;
+
+COMMENT ON COLUMN public.settlements.worksheet IS 'Deal worksheet: {deal: {...}, signatures: {venue_rep, artist_rep}}';
@@ -0,0 +1,35 @@
+-- =====================================================================
+-- Tour budgets
+-- =====================================================================
+-- tour_budget_items - Planned income and costs for a tour, entered before
+-- the run. A line with gig_id budgets one show; without it the line
+-- covers the whole tour (e.g. van rental, crew retainer).
+--
+-- Categories: 'guarantee' is expected income; 'fuel', 'lodging',
+-- 'per_diem', 'crew' and 'other' are expected costs. Actuals come from
+-- settlements, gigs and expenses already linked to the tour.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_budget_items (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tour_id     UUID NOT NULL REFERENCES public.tour_runs(id) ON DELETE CASCADE,
+  gig_id      UUID REFERENCES public.gigs(id) ON DELETE SET NULL,
+  category    TEXT NOT NULL
+    CHECK (category IN ('guarantee', 'fuel', 'lodging', 'per_diem', 'crew', 'other')),
+  description TEXT,
+  amount      NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_budget_items_tour
+  ON public.tour_budget_items (user_id, tour_id);
+
+ALTER TABLE public.tour_budget_items
+  ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own tour budget items"
+  ON public.tour_budget_items
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,44 @@
+-- =====================================================================
+-- Band payout split templates
+-- =====================================================================
+-- 1. payout_split_templates - Named fixed-share splits, e.g. leader 30%,
+--    four sidemen at 17.5%. shares is [{subcontractor_id, percent}]; a
+--    NULL subcontractor_id is the leader's own share, which is kept and
+--    not paid out. tour_id / payer_id attach a template as the default
+--    for that tour's settlements or that payer's gigs.
+-- 2. gig_subcontractor_payments.split_template_id / settlement_id - Mark
+--    payments generated by applying a split, so applying again replaces
+--    them instead of paying members twice.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.payout_split_templates (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name       TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  tour_id    UUID REFERENCES public.tour_runs(id) ON DELETE SET NULL,
+  payer_id   UUID REFERENCES public.payers(id) ON DELETE SET NULL,
+  shares     JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(shares) = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_split_templates_user
+  ON public.payout_split_templates (user_id);
+
+ALTER TABLE public.payout_split_templates
+  ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own payout split templates"
+  ON public.payout_split_templates
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE public.gig_subcontractor_payments
+  ADD COLUMN IF NOT EXISTS split_template_id UUID
+    REFERENCES public.payout_split_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS settlement_id UUID
+    REFERENCES public.settlements(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_gig_subcontractor_payments_settlement
+  ON public.gig_subcontractor_payments (settlement_id)
+  WHERE settlement_id IS NOT NULL;
@@ -0,0 +1,31 @@
+-- =====================================================================
+-- Automatic posting of recurring expenses
+-- =====================================================================
+-- 1. recurring_expenses.post_mode - 'manual' keeps the quick-add flow;
+--    'draft' and 'final' let the post-recurring-expenses edge function
+--    create the expense on each due date, as a draft to review or as a
+--    final expense. last_posted_date / last_error are shown on the rule.
+-- 2. expenses.recurring_due_date - The due date an expense was posted
+--    for. Unique per rule, so the daily job (see
+--    setup_recurring_expenses_cron.sql) and the on-app-open catch-up can
+--    both run without ever posting the same period twice.
+-- =====================================================================
+
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN IF NOT EXISTS post_mode TEXT NOT NULL DEFAULT 'manual'
+    CHECK (post_mode IN ('manual', 'draft', 'final')),
+  ADD COLUMN IF NOT EXISTS last_posted_date DATE,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_auto_post_due
+  ON public.recurring_expenses (next_due_date)
+  WHERE is_active = true AND post_mode <> 'manual';
+
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS recurring_due_date DATE;
+
+-- Not partial so inserts can use ON CONFLICT DO NOTHING. Quick-add (manual
+-- rules only) sets recurring_due_date to the date it adds, so a rule is
+-- added once per date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_recurring_due_date
+  ON public.expenses (recurring_expense_id, recurring_due_date);
@@ -0,0 +1,8 @@
+-- Rates entered for local jurisdictions the app has no fixed rate for:
+-- Ohio school districts (rate from The Finder) and Pennsylvania PSDs outside
+-- the listed cities (combined EIT rate from the DCED register).
+-- Decimal rates, e.g. 0.0125; NULL when the selected jurisdiction has a fixed rate.
+
+ALTER TABLE public.user_tax_profile
+ADD COLUMN IF NOT EXISTS local_tax_rate NUMERIC(6,5),
+ADD COLUMN IF NOT EXISTS school_district_rate NUMERIC(6,5);
@@ -0,0 +1,49 @@
+-- =====================================================================
+-- Stripe Connect for online invoice payments
+-- =====================================================================
+-- 1. stripe_connect_accounts - Each user's Stripe Express account.
+--    Invoice checkout creates destination charges to this account, so a
+--    client's payment settles to the musician, not the platform. Rows are
+--    written only with the service role (create-stripe-connect-link and
+--    the account.updated webhook); users can read their own.
+-- 2. idx_invoice_payments_stripe_reference - Stripe references
+--    (pi_/cs_) are unique per invoice, so a checkout session delivered
+--    twice (or completed and async-succeeded at once) is recorded once;
+--    the webhook treats the conflict as already recorded. Manual
+--    references (check numbers, "Venmo") may repeat, and refunds
+--    (negative amounts) may repeat the reference of the payment they
+--    return.
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.stripe_connect_accounts (
+  user_id           UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_account_id TEXT NOT NULL UNIQUE,
+  charges_enabled   BOOLEAN NOT NULL DEFAULT false,
+  details_submitted BOOLEAN NOT NULL DEFAULT false,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.stripe_connect_accounts
+  ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own Stripe Connect account"
+  ON public.stripe_connect_accounts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Keep the first row of any checkout payment recorded twice before the
+-- index was unique
+DELETE FROM public.invoice_payments duplicate
+USING public.invoice_payments original
+WHERE duplicate.invoice_id = original.invoice_id
+  AND duplicate.reference_number = original.reference_number
+  AND duplicate.amount > 0
+  AND original.amount > 0
+  AND (duplicate.reference_number LIKE 'pi\_%' OR duplicate.reference_number LIKE 'cs\_%')
+  AND (duplicate.created_at, duplicate.id) > (original.created_at, original.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_payments_stripe_reference
+  ON public.invoice_payments (invoice_id, reference_number)
+  WHERE amount > 0
+    AND (reference_number LIKE 'pi\_%' OR reference_number LIKE 'cs\_%');
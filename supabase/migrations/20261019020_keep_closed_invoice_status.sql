@@ -0,0 +1,67 @@
+-- =====================================================================
+-- Keep cancelled and written-off invoices closed
+-- =====================================================================
+-- refresh_invoice_status recomputed every status from the balance, so a
+-- refund or credit note on a cancelled invoice reopened it, and one on a
+-- written-off invoice could turn it back into 'paid' or 'overdue'.
+--
+-- Cancelled invoices now keep their status. Written-off invoices keep
+-- theirs until the write-off is reversed (written_off_amount back to 0).
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION refresh_invoice_status(target_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  total_paid NUMERIC(12,2);
+  inv RECORD;
+  next_status TEXT;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0)
+  INTO total_paid
+  FROM invoice_payments
+  WHERE invoice_id = target_invoice_id;
+
+  SELECT total_amount, credited_amount, written_off_amount, due_date, sent_at, viewed_at, status
+  INTO inv
+  FROM invoices
+  WHERE id = target_invoice_id;
+
+  IF NOT FOUND OR inv.total_amount IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF inv.status = 'cancelled'
+    OR (inv.status = 'written_off' AND inv.written_off_amount > 0) THEN
+    RETURN;
+  END IF;
+
+  IF inv.written_off_amount > 0
+    AND total_paid + inv.credited_amount + inv.written_off_amount >= inv.total_amount THEN
+    next_status := 'written_off';
+  ELSIF total_paid + inv.credited_amount >= inv.total_amount AND inv.total_amount > 0 THEN
+    next_status := 'paid';
+  ELSIF total_paid > 0 OR inv.credited_amount > 0 THEN
+    next_status := CASE
+      WHEN inv.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'partially_paid'
+    END;
+  ELSE
+    next_status := CASE
+      WHEN inv.due_date < CURRENT_DATE AND (inv.sent_at IS NOT NULL OR inv.viewed_at IS NOT NULL) THEN 'overdue'
+      WHEN inv.viewed_at IS NOT NULL THEN 'viewed'
+      WHEN inv.sent_at IS NOT NULL THEN 'sent'
+      ELSE 'draft'
+    END;
+  END IF;
+
+  UPDATE invoices
+  SET
+    status = next_status,
+    paid_at = CASE
+      WHEN next_status = 'paid' THEN COALESCE(paid_at, NOW())
+      ELSE NULL
+    END,
+    updated_at = NOW()
+  WHERE id = target_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
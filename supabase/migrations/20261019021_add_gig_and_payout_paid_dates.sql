@@ -0,0 +1,105 @@
+-- =====================================================================
+-- Record when gigs and subcontractor payouts were paid
+-- =====================================================================
+-- The accrual tax export decided what was open at year end from the gig's
+-- current paid flag and the payout's created_at, so a gig paid in January
+-- was not a receivable for the year before, and editing a gig (which
+-- re-inserts its payouts) re-dated every payout.
+--
+-- gigs.paid_on is set when a gig is marked paid: the gig date (or today,
+-- if the gig is later) for gigs saved as paid, today when an existing gig
+-- is marked paid, and the latest payment date when its invoice is paid.
+-- It is cleared when the gig goes back to unpaid.
+--
+-- gig_subcontractor_payments.paid_on defaults to the day the payout is
+-- recorded; the app passes it back when it re-inserts a gig's payouts.
+-- =====================================================================
+
+ALTER TABLE public.gigs
+  ADD COLUMN IF NOT EXISTS paid_on DATE;
+
+-- No record of when existing gigs were paid; assume on the gig date
+UPDATE public.gigs
+SET paid_on = LEAST(date, CURRENT_DATE)
+WHERE paid = true AND paid_on IS NULL;
+
+CREATE OR REPLACE FUNCTION set_gig_paid_on()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.paid IS TRUE THEN
+    IF NEW.paid_on IS NULL THEN
+      NEW.paid_on := CASE
+        WHEN TG_OP = 'INSERT' THEN LEAST(NEW.date, CURRENT_DATE)
+        ELSE CURRENT_DATE
+      END;
+    END IF;
+  ELSE
+    NEW.paid_on := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_gig_paid_on ON public.gigs;
+CREATE TRIGGER set_gig_paid_on
+BEFORE INSERT OR UPDATE OF paid, paid_on ON public.gigs
+FOR EACH ROW
+EXECUTE FUNCTION set_gig_paid_on();
+
+CREATE OR REPLACE FUNCTION sync_invoice_gigs_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest_method TEXT;
+  latest_date DATE;
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    SELECT payment_method, payment_date
+    INTO latest_method, latest_date
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id
+    ORDER BY payment_date DESC, created_at DESC
+    LIMIT 1;
+
+    -- Gig payment methods are a shorter list than invoice payment methods
+    UPDATE gigs
+    SET
+      paid = true,
+      paid_on = COALESCE(latest_date, CURRENT_DATE),
+      payment_method = CASE latest_method
+        WHEN 'Cash' THEN 'Cash'
+        WHEN 'Check' THEN 'Check'
+        WHEN 'Venmo' THEN 'Venmo'
+        WHEN 'Cash App' THEN 'CashApp'
+        WHEN 'Zelle' THEN 'Direct Deposit'
+        WHEN 'Wire Transfer' THEN 'Direct Deposit'
+        ELSE 'Other'
+      END,
+      updated_at = NOW()
+    WHERE user_id = NEW.user_id
+      AND id IN (
+        SELECT gig_id FROM invoice_line_items WHERE invoice_id = NEW.id AND gig_id IS NOT NULL
+      );
+  ELSIF OLD.status = 'paid' AND NEW.status IS DISTINCT FROM 'paid' THEN
+    UPDATE gigs
+    SET paid = false, updated_at = NOW()
+    WHERE user_id = NEW.user_id
+      AND id IN (
+        SELECT gig_id FROM invoice_line_items WHERE invoice_id = NEW.id AND gig_id IS NOT NULL
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.gig_subcontractor_payments
+  ADD COLUMN IF NOT EXISTS paid_on DATE;
+
+UPDATE public.gig_subcontractor_payments
+SET paid_on = created_at::date
+WHERE paid_on IS NULL;
+
+ALTER TABLE public.gig_subcontractor_payments
+  ALTER COLUMN paid_on SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN paid_on SET NOT NULL;